@@ -0,0 +1,194 @@
+import { createHash } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAuthService, lockDuration, type AuthService, type PasswordHasher } from './auth';
+import { createRepositories, openDatabase, type Db, type Repositories } from './db';
+
+// The fake hasher below stands in for argon2, and no window is told about auth events
+vi.mock('argon2', () => ({ argon2id: 2, hash: vi.fn(), verify: vi.fn(), needsRehash: vi.fn() }));
+vi.mock('electron', () => ({ BrowserWindow: { getAllWindows: () => [] } }));
+
+const fakeHasher: PasswordHasher = {
+  hash: async (password) => `fake$${password}`,
+  verify: async (hash, password) => hash === `fake$${password}`,
+  needsRehash: () => false,
+  kdf: 'fake-kdf',
+  deriveKey: async (password, salt, kdf) => createHash('sha256').update(kdf).update(salt).update(password).digest(),
+};
+
+const PASSWORD = 'correct horse';
+
+let db: Db;
+let repos: Repositories;
+let time: number;
+let services: AuthService[];
+
+/** A service over the same database, as after a restart. */
+function startService(): AuthService {
+  const service = createAuthService({
+    users: repos.users,
+    sessions: repos.sessions,
+    userData: repos.userData,
+    accounts: repos.accounts,
+    hasher: fakeHasher,
+    now: () => time,
+  });
+  services.push(service);
+  return service;
+}
+
+/** A copy of the open data key; the service wipes its own on sign-out. */
+const dataKeyOf = (service: AuthService) => Buffer.from(service.unlocked()!.dataKey);
+
+async function registered() {
+  const service = startService();
+  const result = await service.register('ada', PASSWORD);
+  if (!result.success) throw new Error(result.error);
+  return { service, dataKey: dataKeyOf(service), recoveryCodes: result.recoveryCodes };
+}
+
+beforeEach(() => {
+  db = openDatabase(':memory:');
+  repos = createRepositories(db);
+  time = Date.parse('2026-03-02T09:00:00Z');
+  services = [];
+});
+
+afterEach(() => {
+  services.forEach((service) => service.stop());
+  db.close();
+});
+
+describe('signing in', () => {
+  it('refuses a wrong password and opens the same data key with the right one', async () => {
+    const { service, dataKey } = await registered();
+    service.logout();
+    expect(service.unlocked()).toBeNull();
+
+    expect(await service.login('ada', 'wrong')).toEqual({ success: false, error: 'Wrong username or password.' });
+    expect(service.unlocked()).toBeNull();
+    expect(await service.login('nobody', PASSWORD)).toMatchObject({ success: false });
+
+    expect(await service.login('ada', PASSWORD)).toMatchObject({ success: true, user: { username: 'ada' } });
+    expect(dataKeyOf(service).equals(dataKey)).toBe(true);
+  });
+
+  it('locks the username out after repeated failures, even for the right password', async () => {
+    const { service } = await registered();
+    service.logout();
+    for (let i = 1; i < 5; i++) {
+      expect(await service.login('ada', `wrong ${i}`)).not.toHaveProperty('retryAt');
+    }
+    const locked = await service.login('ada', 'wrong 5');
+    expect(locked).toMatchObject({ success: false, retryAt: new Date(time + lockDuration(5)).toISOString() });
+
+    expect(await service.login('ada', PASSWORD)).toMatchObject({ success: false, retryAt: expect.any(String) });
+    expect(service.unlocked()).toBeNull();
+  });
+
+  it('lets the right password in once the backoff is over, and starts counting afresh', async () => {
+    const { service } = await registered();
+    service.logout();
+    for (let i = 0; i < 5; i++) await service.login('ada', 'wrong');
+    time += lockDuration(5) - 1_000;
+    expect(await service.login('ada', PASSWORD)).toMatchObject({ success: false, retryAt: expect.any(String) });
+
+    time += 1_000;
+    expect(await service.login('ada', PASSWORD)).toMatchObject({ success: true });
+    service.logout();
+    expect(await service.login('ada', 'wrong')).toEqual({ success: false, error: 'Wrong username or password.' });
+  });
+
+  it('counts wrong passwords in the signed-in settings towards the same lockout', async () => {
+    const { service } = await registered();
+    for (let i = 0; i < 4; i++) {
+      expect(await service.changePassword('wrong', 'new password')).toEqual({
+        success: false,
+        error: 'The current password is wrong.',
+      });
+    }
+    expect(await service.setPin('wrong', '1234')).toMatchObject({ success: false, retryAt: expect.any(String) });
+    expect(await service.deleteAccount(PASSWORD)).toMatchObject({ success: false, retryAt: expect.any(String) });
+    expect(await service.regenerateRecoveryCodes(PASSWORD)).toMatchObject({ success: false, retryAt: expect.any(String) });
+    expect(repos.users.findByUsername('ada')).not.toBeNull();
+
+    service.logout();
+    expect(await service.login('ada', PASSWORD)).toMatchObject({ success: false, retryAt: expect.any(String) });
+  });
+});
+
+describe('recovery codes', () => {
+  it('re-wrap the data key for a new password and work once', async () => {
+    const { service, dataKey, recoveryCodes } = await registered();
+    expect(recoveryCodes).toHaveLength(10);
+    service.logout();
+
+    const typed = recoveryCodes[3].toLowerCase().replace(/-/g, ' ');
+    expect(await service.recover('ada', typed, 'new password')).toMatchObject({ success: true, recoveryCodesLeft: 9 });
+    expect(dataKeyOf(service).equals(dataKey)).toBe(true);
+    service.logout();
+
+    expect(await service.login('ada', PASSWORD)).toMatchObject({ success: false });
+    expect(await service.login('ada', 'new password')).toMatchObject({ success: true });
+    expect(dataKeyOf(service).equals(dataKey)).toBe(true);
+    service.logout();
+
+    expect(await service.recover('ada', recoveryCodes[3], 'another password')).toEqual({
+      success: false,
+      error: 'Wrong username or recovery code.',
+    });
+  });
+});
+
+describe('the lock screen', () => {
+  it('withholds the data key until the PIN takes it down', async () => {
+    const { service } = await registered();
+    expect(await service.setPin(PASSWORD, '1234')).toEqual({ success: true });
+
+    expect(service.lockScreen()).toBe(true);
+    expect(service.unlocked()).toBeNull();
+    expect(service.getSession()).toMatchObject({ authenticated: true, screenLocked: true, pinUnlock: true });
+
+    expect(await service.unlockScreen({ pin: '1234' })).toEqual({ success: true });
+    expect(service.unlocked()).not.toBeNull();
+  });
+
+  it('takes only the password after five wrong PINs', async () => {
+    const { service } = await registered();
+    await service.setPin(PASSWORD, '1234');
+    service.lockScreen();
+
+    for (let i = 1; i < 5; i++) {
+      expect(await service.unlockScreen({ pin: '0000' })).toEqual({ success: false, error: 'Wrong PIN.' });
+    }
+    expect(await service.unlockScreen({ pin: '0000' })).toMatchObject({ success: false, passwordRequired: true });
+    expect(await service.unlockScreen({ pin: '1234' })).toMatchObject({ success: false, passwordRequired: true });
+    expect(service.getSession()).toMatchObject({ screenLocked: true, pinUnlock: false });
+
+    expect(await service.unlockScreen({ password: 'wrong' })).toEqual({ success: false, error: 'Wrong password.' });
+    expect(await service.unlockScreen({ password: PASSWORD })).toEqual({ success: true });
+    expect(service.unlocked()).not.toBeNull();
+  });
+});
+
+describe('a restored session', () => {
+  it('comes back signed in but locked until the password', async () => {
+    const { service, dataKey } = await registered();
+    service.stop();
+
+    const restarted = startService();
+    expect(restarted.getSession()).toMatchObject({ authenticated: true, locked: true, user: { username: 'ada' } });
+    expect(restarted.unlocked()).toBeNull();
+    expect(restarted.lockScreen()).toBe(false);
+
+    expect(await restarted.login('ada', PASSWORD)).toMatchObject({ success: true });
+    expect(dataKeyOf(restarted).equals(dataKey)).toBe(true);
+  });
+
+  it('is not restored once it has expired', async () => {
+    const { service } = await registered();
+    service.stop();
+    time += 8 * 24 * 60 * 60_000;
+
+    expect(startService().getSession()).toEqual({ authenticated: false });
+  });
+});
@@ -0,0 +1,734 @@
+/**
+ * Electron main: local username/password accounts and the signed-in session.
+ *
+ * - Passwords are hashed with argon2id (ARGON2_OPTIONS). Hashes made with weaker
+ *   parameters are upgraded on the next successful sign-in.
+ * - Signing in starts a session: a random token of which only the SHA-256 is stored, with
+ *   an expiry. Activity (`getSession`) slides the expiry forward by SESSION_IDLE_MS, never
+ *   past SESSION_MAX_MS from sign-in. The app has one signed-in user at a time; the session
+ *   survives restarts until it expires or the user signs out.
+ * - Sessions are per-device: the token never leaves main, and at start-up the latest
+ *   unexpired session in this device's database is picked up as it is. Whoever can open the
+ *   app on the device sees who is signed in, but the session comes back locked (below), so
+ *   nothing encrypted opens without the password.
+ * - Failed sign-ins are counted per username, whether it exists or not. From the
+ *   MAX_FREE_FAILURES-th failure on the username is locked for a delay that doubles with
+ *   every further failure, up to LOCK_MAX_MS. Counts older than FAILURE_WINDOW_MS are forgotten.
+ * - Sign-in, sign-out and expiry are pushed to every window as 'auth:event'.
+ * - Signing in also opens the user's data key (main/encryption.ts), which exists only in
+ *   memory until sign-out or expiry. A session restored after a restart is locked: it has no
+ *   data key until the password is entered again. Changing the password re-wraps the key.
+ *   The first sign-in with a data key also gives the user a key pair, the private key
+ *   sealed with the data key, so shared household lists can be sealed for them.
+ * - Registering hands out RECOVERY_CODE_COUNT one-time recovery codes, each holding another
+ *   wrapped copy of the data key. A code resets a forgotten password without losing any data
+ *   (`recover`); wrong codes count towards the sign-in lockout. The codes are random 80-bit
+ *   strings, so HKDF stands in for argon2 to derive their wrapping keys: there is nothing to
+ *   slow down guessing of. Only the wrapped keys are stored, never the codes.
+ * - Deleting the account (with the password) wipes everything the user owns from the database
+ *   (AccountRepository in main/db.ts) and signs them out.
+ * - The lock screen (`lockScreen`, on idle, from the menu or on request) hides the workspace
+ *   without ending the session. The data key stays in memory, so widgets keep their state,
+ *   but `unlocked` withholds it until the screen comes down: nothing encrypted is read or
+ *   written meanwhile. It comes down with the user's PIN (an argon2 hash like the password)
+ *   or their password. After MAX_PIN_FAILURES wrong PINs only the password works.
+ * - Every password check (the lock screen, changing the password or PIN, new recovery codes,
+ *   deleting the account) counts a wrong password towards the sign-in lockout, and none is
+ *   made while the user is locked out.
+ *
+ * `createAuthService` is independent of Electron; `registerAuthIpc` wires it up.
+ */
+
+import * as argon2 from 'argon2';
+import { createHash, hkdfSync, randomBytes } from 'crypto';
+import { BrowserWindow, type IpcMain } from 'electron';
+import type {
+  AuthEvent,
+  AuthUser,
+  ChangePasswordResult,
+  DeleteAccountResult,
+  LoginResult,
+  LogoutResult,
+  RecoverResult,
+  RecoveryCodesResult,
+  RegisterResult,
+  SessionResult,
+  SetPinResult,
+  UnlockResult,
+} from '../src/shared/types';
+import {
+  getRepositories,
+  type AccountRepository,
+  type SessionRecord,
+  type SessionRepository,
+  type UserDataRepository,
+  type UserKeyRecord,
+  type UserRecord,
+  type UserRepository,
+} from './db';
+import {
+  dataKeyAad,
+  EncryptionError,
+  KEY_BYTES,
+  newDataKey,
+  newKeyPair,
+  newSalt,
+  privateKeyAad,
+  recoveryKeyAad,
+  seal,
+  unseal,
+} from './encryption';
+import { emit, handle } from './ipc';
+
+/** argon2id with 64 MiB, 3 passes and one lane (RFC 9106's second recommended setting). */
+export const ARGON2_OPTIONS = {
+  type: argon2.argon2id,
+  memoryCost: 65_536,
+  timeCost: 3,
+  parallelism: 1,
+} as const;
+
+/** How ARGON2_OPTIONS are recorded with a wrapped data key. */
+const ARGON2_KDF = `argon2id;m=${ARGON2_OPTIONS.memoryCost};t=${ARGON2_OPTIONS.timeCost};p=${ARGON2_OPTIONS.parallelism}`;
+
+const SESSION_IDLE_MS = 7 * 24 * 60 * 60_000;
+const SESSION_MAX_MS = 30 * 24 * 60 * 60_000;
+/** Sliding the expiry by less than this is not worth a write. */
+const SESSION_TOUCH_MS = 60_000;
+
+const MAX_FREE_FAILURES = 5;
+const LOCK_BASE_MS = 30_000;
+const LOCK_MAX_MS = 60 * 60_000;
+const FAILURE_WINDOW_MS = 24 * 60 * 60_000;
+
+const MAX_PIN_FAILURES = 5;
+
+const RECOVERY_CODE_COUNT = 10;
+/** 80 bits, written as 16 characters of RECOVERY_CODE_ALPHABET. */
+const RECOVERY_CODE_BYTES = 10;
+/** Base32 without 0, 1, I and O, which are easily misread on paper. */
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const MIN_USERNAME_LENGTH = 3;
+const MIN_PASSWORD_LENGTH = 8;
+
+/** setTimeout fires at once for delays beyond this. */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/* -----------------------
+   Types
+   ----------------------- */
+
+export interface PasswordHasher {
+  hash(password: string): Promise<string>;
+  verify(hash: string, password: string): Promise<boolean>;
+  /** True when the hash was made with other parameters than the current ones. */
+  needsRehash(hash: string): boolean;
+  /** The current key derivation, in the form `deriveKey` takes. */
+  readonly kdf: string;
+  /** A 32-byte key from the password, with the derivation named by `kdf`. */
+  deriveKey(password: string, salt: Buffer, kdf: string): Promise<Buffer>;
+}
+
+export interface AuthServiceOptions {
+  users: UserRepository;
+  sessions: SessionRepository;
+  userData: UserDataRepository;
+  accounts: AccountRepository;
+  hasher?: PasswordHasher;
+  now?: () => number;
+}
+
+export const argon2Hasher: PasswordHasher = {
+  hash: (password) => argon2.hash(password, ARGON2_OPTIONS),
+  verify: (hash, password) => argon2.verify(hash, password),
+  needsRehash: (hash) => argon2.needsRehash(hash, ARGON2_OPTIONS),
+  kdf: ARGON2_KDF,
+  deriveKey(password, salt, kdf) {
+    const match = /^argon2id;m=(\d+);t=(\d+);p=(\d+)$/.exec(kdf);
+    if (!match) return Promise.reject(new Error(`Unknown key derivation "${kdf}".`));
+    const [, memoryCost, timeCost, parallelism] = match.map(Number);
+    return argon2.hash(password, {
+      type: argon2.argon2id,
+      memoryCost,
+      timeCost,
+      parallelism,
+      salt,
+      hashLength: 32,
+      raw: true,
+    });
+  },
+};
+
+/* -----------------------
+   Helpers
+   ----------------------- */
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const toAuthUser = (user: UserRecord): AuthUser => ({ id: user.id, username: user.username, email: user.email });
+
+function formatWait(ms: number): string {
+  const minutes = Math.ceil(ms / 60_000);
+  return ms < 60_000 ? `${Math.ceil(ms / 1000)} seconds` : `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+const lockedOut = (lockedUntil: string, wait: number) => ({
+  success: false as const,
+  error: `Too many failed sign-ins. Try again in ${formatWait(wait)}.`,
+  retryAt: lockedUntil,
+});
+
+/** A new recovery code, e.g. 'K7QM-2WXC-9DRT-HB4N'. */
+function newRecoveryCode(): string {
+  const bytes = randomBytes(RECOVERY_CODE_BYTES);
+  let bits = 0;
+  let value = 0;
+  let code = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      code += RECOVERY_CODE_ALPHABET[(value >> bits) & 31];
+    }
+  }
+  return code.match(/.{4}/g)!.join('-');
+}
+
+/** A code as typed, without dashes, spaces or case. */
+const normalizeRecoveryCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const recoveryWrappingKey = (code: string, salt: Buffer) =>
+  Buffer.from(hkdfSync('sha256', normalizeRecoveryCode(code), salt, 'gidit:recovery-code', KEY_BYTES));
+
+/** Lock duration after `failures` failures in a row; 0 while below the threshold. */
+export function lockDuration(failures: number): number {
+  if (failures < MAX_FREE_FAILURES) return 0;
+  return Math.min(LOCK_MAX_MS, LOCK_BASE_MS * 2 ** (failures - MAX_FREE_FAILURES));
+}
+
+/* -----------------------
+   Service
+   ----------------------- */
+
+export function createAuthService(opts: AuthServiceOptions) {
+  const { users, sessions, userData, accounts } = opts;
+  const hasher = opts.hasher ?? argon2Hasher;
+  const now = opts.now ?? Date.now;
+
+  const listeners = new Set<(event: AuthEvent) => void>();
+  /**
+   * `dataKey` is null while the session is locked; `screenLocked` while the lock screen is
+   * up, with `pinFailures` wrong PINs entered since it went up.
+   */
+  let current: {
+    session: SessionRecord;
+    user: AuthUser;
+    dataKey: Buffer | null;
+    screenLocked: boolean;
+    pinFailures: number;
+  } | null = null;
+  let restored = false;
+  let expiryTimer: NodeJS.Timeout | null = null;
+  /** Verified against for unknown usernames, so they take as long as wrong passwords. */
+  let dummyHash: Promise<string> | null = null;
+
+  const notify = (event: AuthEvent) => listeners.forEach((listener) => listener(event));
+
+  /** Forget the current session, wiping its data key from memory. */
+  function endCurrent() {
+    current?.dataKey?.fill(0);
+    current = null;
+  }
+
+  /** Seal `dataKey` with a fresh salt and a key derived from `password`. */
+  async function wrapDataKey(userId: string, dataKey: Buffer, password: string): Promise<Omit<UserKeyRecord, 'updatedAt'>> {
+    const salt = newSalt();
+    const wrappingKey = await hasher.deriveKey(password, salt, hasher.kdf);
+    return { userId, kdf: hasher.kdf, salt, wrappedKey: seal(wrappingKey, dataKey, dataKeyAad(userId)) };
+  }
+
+  /**
+   * The user's data key, opened with their (verified) password. Accounts from before
+   * encryption get one now; keys wrapped with older parameters are re-wrapped.
+   */
+  async function openDataKey(user: UserRecord, password: string): Promise<Buffer> {
+    const stored = userData.key(user.id);
+    if (!stored) {
+      const dataKey = newDataKey();
+      userData.saveKey(await wrapDataKey(user.id, dataKey, password));
+      return dataKey;
+    }
+    const wrappingKey = await hasher.deriveKey(password, stored.salt, stored.kdf);
+    const dataKey = unseal(wrappingKey, stored.wrappedKey, dataKeyAad(user.id));
+    if (stored.kdf !== hasher.kdf) userData.saveKey(await wrapDataKey(user.id, dataKey, password));
+    return dataKey;
+  }
+
+  /** Fresh recovery codes for `dataKey`, replacing the user's earlier ones. */
+  function issueRecoveryCodes(userId: string, dataKey: Buffer): string[] {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, newRecoveryCode);
+    userData.replaceRecoveryCodes(
+      userId,
+      codes.map((code) => {
+        const salt = newSalt();
+        return { salt, wrappedKey: seal(recoveryWrappingKey(code, salt), dataKey, recoveryKeyAad(userId)) };
+      })
+    );
+    return codes;
+  }
+
+  /** The data key and the id of the unused recovery code that opens it; null for a wrong code. */
+  function openWithRecoveryCode(userId: string, code: string): { codeId: string; dataKey: Buffer } | null {
+    for (const stored of userData.recoveryCodes(userId)) {
+      try {
+        const dataKey = unseal(recoveryWrappingKey(code, stored.salt), stored.wrappedKey, recoveryKeyAad(userId));
+        return { codeId: stored.id, dataKey };
+      } catch (err) {
+        if (!(err instanceof EncryptionError)) throw err;
+      }
+    }
+    return null;
+  }
+
+  function scheduleExpiry() {
+    if (expiryTimer) clearTimeout(expiryTimer);
+    expiryTimer = null;
+    if (!current) return;
+    const delay = Math.min(MAX_TIMER_MS, Math.max(0, Date.parse(current.session.expiresAt) - now()));
+    expiryTimer = setTimeout(() => {
+      expiryTimer = null;
+      checkExpiry();
+    }, delay);
+  }
+
+  /** Ends the current session when it has run out; reschedules otherwise. */
+  function checkExpiry() {
+    if (!current) return;
+    if (Date.parse(current.session.expiresAt) > now()) {
+      scheduleExpiry();
+      return;
+    }
+    sessions.delete(current.session.tokenHash);
+    endCurrent();
+    notify({ type: 'expired', user: null });
+  }
+
+  /** Pick up the session of an earlier run on this device, once; it stays locked until the password. */
+  function restore() {
+    if (restored) return;
+    restored = true;
+    const at = new Date(now()).toISOString();
+    sessions.deleteExpired(at);
+    const session = sessions.latestValid(at);
+    const user = session ? users.findById(session.userId) : null;
+    if (session && user) {
+      current = { session, user: toAuthUser(user), dataKey: null, screenLocked: false, pinFailures: 0 };
+      scheduleExpiry();
+    }
+  }
+
+  function startSession(user: UserRecord, dataKey: Buffer): { expiresAt: string } {
+    const token = randomBytes(32).toString('base64url');
+    const createdAt = now();
+    const session = sessions.create({
+      tokenHash: hashToken(token),
+      userId: user.id,
+      createdAt: new Date(createdAt).toISOString(),
+      expiresAt: new Date(createdAt + SESSION_IDLE_MS).toISOString(),
+    });
+    if (!userData.hasKeyPair(user.id)) {
+      const pair = newKeyPair();
+      userData.saveKeyPair(user.id, pair.publicKey, seal(dataKey, pair.privateKey, privateKeyAad(user.id)));
+    }
+    endCurrent();
+    current = { session, user: toAuthUser(user), dataKey, screenLocked: false, pinFailures: 0 };
+    restored = true;
+    scheduleExpiry();
+    notify({ type: 'signed-in', user: current.user, expiresAt: session.expiresAt });
+    return { expiresAt: session.expiresAt };
+  }
+
+  function recordFailure(username: string): string | null {
+    const at = now();
+    const previous = sessions.attempts(username);
+    const recent = previous && at - Date.parse(previous.lastFailureAt) < FAILURE_WINDOW_MS ? previous.failures : 0;
+    const failures = recent + 1;
+    const lock = lockDuration(failures);
+    const lockedUntil = lock ? new Date(at + lock).toISOString() : null;
+    sessions.saveAttempts({ username, failures, lastFailureAt: new Date(at).toISOString(), lockedUntil });
+    return lockedUntil;
+  }
+
+  /** The lockout result while `username` is locked out after failed sign-ins, else null. */
+  function lockoutOf(username: string) {
+    const attempts = sessions.attempts(username);
+    if (!attempts?.lockedUntil || Date.parse(attempts.lockedUntil) <= now()) return null;
+    return lockedOut(attempts.lockedUntil, Date.parse(attempts.lockedUntil) - now());
+  }
+
+  /**
+   * Check a signed-in user's password the way sign-in does: not at all while they are locked
+   * out, and a wrong one counts towards the lockout. Null when it is right, else the failure
+   * to return, with `wrong` as its message.
+   */
+  async function checkPassword(user: UserRecord, password: string, wrong: string) {
+    const lockout = lockoutOf(user.username);
+    if (lockout) return lockout;
+    if (!(await hasher.verify(user.passwordHash, password))) {
+      const lockedUntil = recordFailure(user.username);
+      return lockedUntil ? lockedOut(lockedUntil, Date.parse(lockedUntil) - now()) : { success: false as const, error: wrong };
+    }
+    sessions.clearAttempts(user.username);
+    return null;
+  }
+
+  /** Whether the PIN may take down the lock screen now. */
+  function pinUnlock(): boolean {
+    const user = current ? users.findById(current.user.id) : null;
+    return !!user?.pinHash && current!.pinFailures < MAX_PIN_FAILURES;
+  }
+
+  const service = {
+    async register(username: string, password: string): Promise<RegisterResult> {
+      const name = username.trim();
+      if (name.length < MIN_USERNAME_LENGTH) {
+        return { success: false, error: `Usernames need at least ${MIN_USERNAME_LENGTH} characters.` };
+      }
+      if (password.length < MIN_PASSWORD_LENGTH) {
+        return { success: false, error: `Passwords need at least ${MIN_PASSWORD_LENGTH} characters.` };
+      }
+      if (users.findByUsername(name)) {
+        return { success: false, error: 'That username is taken.' };
+      }
+
+      const passwordHash = await hasher.hash(password);
+      const dataKey = newDataKey();
+      const salt = newSalt();
+      const wrappingKey = await hasher.deriveKey(password, salt, hasher.kdf);
+      let user: UserRecord;
+      try {
+        user = users.create({ username: name, passwordHash });
+      } catch {
+        // Registered by someone else while the password was being hashed.
+        return { success: false, error: 'That username is taken.' };
+      }
+      userData.saveKey({ userId: user.id, kdf: hasher.kdf, salt, wrappedKey: seal(wrappingKey, dataKey, dataKeyAad(user.id)) });
+      const recoveryCodes = issueRecoveryCodes(user.id, dataKey);
+      sessions.deleteAll();
+      const { expiresAt } = startSession(user, dataKey);
+      return { success: true, user: toAuthUser(user), expiresAt, recoveryCodes };
+    },
+
+    async login(username: string, password: string): Promise<LoginResult> {
+      const name = username.trim();
+      const lockout = lockoutOf(name);
+      if (lockout) return lockout;
+
+      const user = users.findByUsername(name);
+      let valid = false;
+      if (user) {
+        valid = await hasher.verify(user.passwordHash, password);
+      } else {
+        dummyHash ??= hasher.hash(randomBytes(16).toString('hex'));
+        await hasher.verify(await dummyHash, password);
+      }
+
+      if (!user || !valid) {
+        const lockedUntil = recordFailure(name);
+        return lockedUntil
+          ? lockedOut(lockedUntil, Date.parse(lockedUntil) - now())
+          : { success: false, error: 'Wrong username or password.' };
+      }
+
+      sessions.clearAttempts(name);
+      let dataKey: Buffer;
+      try {
+        dataKey = await openDataKey(user, password);
+      } catch (err) {
+        if (!(err instanceof EncryptionError)) throw err;
+        return { success: false, error: 'Your encrypted data could not be opened with this password.' };
+      }
+      if (hasher.needsRehash(user.passwordHash)) {
+        users.updatePasswordHash(user.id, await hasher.hash(password));
+      }
+      sessions.deleteAll();
+      const { expiresAt } = startSession(user, dataKey);
+      return { success: true, user: toAuthUser(user), expiresAt };
+    },
+
+    logout(): LogoutResult {
+      restore();
+      if (!current) return { success: false };
+      sessions.delete(current.session.tokenHash);
+      endCurrent();
+      scheduleExpiry();
+      notify({ type: 'signed-out', user: null });
+      return { success: true };
+    },
+
+    /**
+     * Reset a forgotten password with one of the user's recovery codes and sign in. The data
+     * key the code opens is wrapped for the new password; the code cannot be used again.
+     */
+    async recover(username: string, code: string, newPassword: string): Promise<RecoverResult> {
+      const name = username.trim();
+      const lockout = lockoutOf(name);
+      if (lockout) return lockout;
+      if (newPassword.length < MIN_PASSWORD_LENGTH) {
+        return { success: false, error: `Passwords need at least ${MIN_PASSWORD_LENGTH} characters.` };
+      }
+
+      const user = users.findByUsername(name);
+      const opened = user ? openWithRecoveryCode(user.id, code) : null;
+      if (!user || !opened) {
+        const lockedUntil = recordFailure(name);
+        return lockedUntil
+          ? lockedOut(lockedUntil, Date.parse(lockedUntil) - now())
+          : { success: false, error: 'Wrong username or recovery code.' };
+      }
+
+      const passwordHash = await hasher.hash(newPassword);
+      if (!userData.recoverPassword(opened.codeId, passwordHash, await wrapDataKey(user.id, opened.dataKey, newPassword))) {
+        opened.dataKey.fill(0);
+        return { success: false, error: 'That recovery code has already been used.' };
+      }
+      sessions.clearAttempts(name);
+      sessions.deleteAll();
+      const { expiresAt } = startSession(user, opened.dataKey);
+      return { success: true, user: toAuthUser(user), expiresAt, recoveryCodesLeft: userData.recoveryCodes(user.id).length };
+    },
+
+    /**
+     * Replace the signed-in user's password. The data key is re-wrapped for the new password
+     * (and unlocked, if it was not); the data stays as it is, and so do the recovery codes.
+     */
+    async changePassword(currentPassword: string, newPassword: string): Promise<ChangePasswordResult> {
+      restore();
+      checkExpiry();
+      const user = current ? users.findById(current.user.id) : null;
+      if (!current || !user) return { success: false, error: 'Sign in to change your password.' };
+      if (current.screenLocked) return { success: false, error: 'Unlock the app first.' };
+      if (newPassword.length < MIN_PASSWORD_LENGTH) {
+        return { success: false, error: `Passwords need at least ${MIN_PASSWORD_LENGTH} characters.` };
+      }
+      const failure = await checkPassword(user, currentPassword, 'The current password is wrong.');
+      if (failure) return failure;
+
+      let dataKey: Buffer;
+      try {
+        dataKey = current.dataKey ?? (await openDataKey(user, currentPassword));
+      } catch (err) {
+        if (!(err instanceof EncryptionError)) throw err;
+        return { success: false, error: 'Your encrypted data could not be opened with this password.' };
+      }
+      const passwordHash = await hasher.hash(newPassword);
+      userData.savePassword(passwordHash, await wrapDataKey(user.id, dataKey, newPassword));
+      if (current?.user.id === user.id) current.dataKey = dataKey;
+      return { success: true };
+    },
+
+    /** New recovery codes for the signed-in user; the earlier ones stop working. Needs their password. */
+    async regenerateRecoveryCodes(password: string): Promise<RecoveryCodesResult> {
+      restore();
+      checkExpiry();
+      const user = current ? users.findById(current.user.id) : null;
+      if (!current?.dataKey || !user) return { success: false, error: 'Sign in to manage recovery codes.' };
+      if (current.screenLocked) return { success: false, error: 'Unlock the app first.' };
+      const session = current;
+      const failure = await checkPassword(user, password, 'The password is wrong.');
+      if (failure) return failure;
+      // Signed out or replaced while the hash was checked
+      if (current !== session || !session.dataKey) return { success: false, error: 'Sign in again to continue.' };
+      return { success: true, codes: issueRecoveryCodes(user.id, session.dataKey) };
+    },
+
+    /**
+     * Delete the signed-in user with all their data, after checking their password, and sign
+     * them out. Shared lists they were the last member of are deleted too.
+     */
+    async deleteAccount(password: string): Promise<DeleteAccountResult> {
+      restore();
+      checkExpiry();
+      const user = current ? users.findById(current.user.id) : null;
+      if (!current || !user) return { success: false, error: 'Sign in to delete your account.' };
+      if (current.screenLocked) return { success: false, error: 'Unlock the app first.' };
+      const session = current;
+      const failure = await checkPassword(user, password, 'The password is wrong.');
+      if (failure) return failure;
+      if (current !== session) return { success: false, error: 'Sign in again to continue.' };
+
+      accounts.deleteUser({ id: user.id, username: user.username });
+      endCurrent();
+      scheduleExpiry();
+      notify({ type: 'signed-out', user: null });
+      return { success: true };
+    },
+
+    /** Put up the lock screen. False when there is no open data to hide (signed out or locked). */
+    lockScreen(): boolean {
+      restore();
+      checkExpiry();
+      if (!current?.dataKey) return false;
+      if (current.screenLocked) return true;
+      current.screenLocked = true;
+      current.pinFailures = 0;
+      notify({ type: 'screen-locked', user: current.user, pinUnlock: pinUnlock() });
+      return true;
+    },
+
+    /** Take down the lock screen with the signed-in user's PIN or password. */
+    async unlockScreen(credentials: { pin: string } | { password: string }): Promise<UnlockResult> {
+      restore();
+      checkExpiry();
+      const user = current ? users.findById(current.user.id) : null;
+      if (!current || !user) return { success: false, error: 'Sign in again to continue.' };
+      if (!current.screenLocked) return { success: true };
+      const session = current;
+
+      if ('pin' in credentials) {
+        if (!pinUnlock()) return { success: false, error: 'Enter your password.', passwordRequired: true };
+        if (!(await hasher.verify(user.pinHash!, credentials.pin))) {
+          session.pinFailures += 1;
+          return session.pinFailures >= MAX_PIN_FAILURES
+            ? { success: false, error: 'Too many wrong PINs. Enter your password.', passwordRequired: true }
+            : { success: false, error: 'Wrong PIN.' };
+        }
+      } else {
+        const failure = await checkPassword(user, credentials.password, 'Wrong password.');
+        if (failure) return failure;
+      }
+
+      // Signed out or replaced while the hash was checked
+      if (current !== session) return { success: false, error: 'Sign in again to continue.' };
+      session.screenLocked = false;
+      session.pinFailures = 0;
+      notify({ type: 'screen-unlocked', user: session.user });
+      return { success: true };
+    },
+
+    /** Set the signed-in user's lock-screen PIN, or remove it with null. Needs their password. */
+    async setPin(password: string, pin: string | null): Promise<SetPinResult> {
+      restore();
+      checkExpiry();
+      const user = current ? users.findById(current.user.id) : null;
+      if (!current || !user) return { success: false, error: 'Sign in to set a PIN.' };
+      if (current.screenLocked) return { success: false, error: 'Unlock the app first.' };
+      const failure = await checkPassword(user, password, 'The password is wrong.');
+      if (failure) return failure;
+      users.updatePinHash(user.id, pin === null ? null : await hasher.hash(pin));
+      return { success: true };
+    },
+
+    /** The signed-in user, if any. Counts as activity: the session is extended. */
+    getSession(): SessionResult {
+      restore();
+      checkExpiry();
+      if (!current) return { authenticated: false };
+
+      const { session } = current;
+      const expiresAt = Math.min(now() + SESSION_IDLE_MS, Date.parse(session.createdAt) + SESSION_MAX_MS);
+      if (expiresAt - Date.parse(session.expiresAt) >= SESSION_TOUCH_MS) {
+        session.expiresAt = new Date(expiresAt).toISOString();
+        sessions.extend(session.tokenHash, session.expiresAt);
+        scheduleExpiry();
+      }
+      return {
+        authenticated: true,
+        user: current.user,
+        expiresAt: session.expiresAt,
+        pinSet: !!users.findById(current.user.id)?.pinHash,
+        recoveryCodes: userData.recoveryCodes(current.user.id).length,
+        ...(current.dataKey ? {} : { locked: true }),
+        ...(current.screenLocked ? { screenLocked: true, pinUnlock: pinUnlock() } : {}),
+      };
+    },
+
+    /** The signed-in user without extending the session; null when signed out. */
+    currentUser(): AuthUser | null {
+      restore();
+      checkExpiry();
+      return current?.user ?? null;
+    },
+
+    /** Whether the lock screen is up. */
+    screenLocked(): boolean {
+      restore();
+      checkExpiry();
+      return !!current?.screenLocked;
+    },
+
+    /** The signed-in user's id and data key; null when signed out, locked or behind the lock screen. */
+    unlocked(): { userId: string; dataKey: Buffer } | null {
+      restore();
+      checkExpiry();
+      return current?.dataKey && !current.screenLocked ? { userId: current.user.id, dataKey: current.dataKey } : null;
+    },
+
+    /**
+     * Listen for sign-in, sign-out, expiry and the lock screen; returns the function that
+     * stops listening.
+     */
+    onChange(listener: (event: AuthEvent) => void): () => void {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    stop() {
+      if (expiryTimer) clearTimeout(expiryTimer);
+      expiryTimer = null;
+      listeners.clear();
+      endCurrent();
+    },
+  };
+  return service;
+}
+
+export type AuthService = ReturnType<typeof createAuthService>;
+
+/* -----------------------
+   App singleton + IPC
+   ----------------------- */
+
+let instance: AuthService | null = null;
+
+export function getAuthService(): AuthService {
+  if (!instance) {
+    const repos = getRepositories();
+    instance = createAuthService({
+      users: repos.users,
+      sessions: repos.sessions,
+      userData: repos.userData,
+      accounts: repos.accounts,
+    });
+  }
+  return instance;
+}
+
+export function stopAuthService() {
+  instance?.stop();
+  instance = null;
+}
+
+export function registerAuthIpc(ipcMain: IpcMain, service: AuthService = getAuthService()) {
+  service.onChange((event) => {
+    for (const window of BrowserWindow.getAllWindows()) emit(window.webContents, 'auth:event', event);
+  });
+
+  handle(ipcMain, 'auth:register', ({ username, password }) => service.register(username, password));
+  handle(ipcMain, 'auth:login', ({ username, password }) => service.login(username, password));
+  handle(ipcMain, 'auth:logout', () => service.logout());
+  handle(ipcMain, 'auth:getSession', () => service.getSession());
+  handle(ipcMain, 'auth:changePassword', ({ currentPassword, newPassword }) =>
+    service.changePassword(currentPassword, newPassword)
+  );
+  handle(ipcMain, 'auth:lock', () => ({ success: service.lockScreen() }));
+  handle(ipcMain, 'auth:unlock', (credentials) => service.unlockScreen(credentials));
+  handle(ipcMain, 'auth:setPin', ({ password, pin }) => service.setPin(password, pin));
+  handle(ipcMain, 'auth:recover', ({ username, code, newPassword }) => service.recover(username, code, newPassword));
+  handle(ipcMain, 'auth:regenerateRecoveryCodes', ({ password }) => service.regenerateRecoveryCodes(password));
+  handle(ipcMain, 'auth:deleteAccount', ({ password }) => service.deleteAccount(password));
+}
@@ -0,0 +1,135 @@
+import { createHash } from 'crypto';
+import { describe, expect, it, vi } from 'vitest';
+import { SECRET_KEY_PREFIX, type TotpAlgorithm } from '../src/shared/types';
+import type { PasswordHasher } from './auth';
+import { AuthenticatorError, base32Decode, createAuthenticator, parseOtpauthUri, totp } from './authenticator';
+
+// Sign-in is not under test (and would pull in argon2 and Electron)
+vi.mock('./auth', () => ({ argon2Hasher: null, getAuthService: vi.fn() }));
+
+const fakeHasher: PasswordHasher = {
+  hash: async (text) => `fake$${text}`,
+  verify: async (hash, text) => hash === `fake$${text}`,
+  needsRehash: () => false,
+  kdf: 'fake-kdf',
+  deriveKey: async (password, salt, kdf) => createHash('sha256').update(kdf).update(salt).update(password).digest(),
+};
+
+const AT = Date.parse('2026-03-02T09:00:00Z');
+
+function memoryAuthenticator(hasher = fakeHasher) {
+  const values = new Map<string, string>();
+  const store = { get: (key: string) => values.get(key) ?? null, set: (key: string, value: string) => values.set(key, value) };
+  return { values, authenticator: createAuthenticator({ store, hasher, now: () => AT }) };
+}
+
+describe('totp', () => {
+  // RFC 6238 appendix B: the seed is the ASCII digits repeated to the hash's block size
+  const seeds: Record<TotpAlgorithm, Buffer> = {
+    SHA1: Buffer.from('12345678901234567890'),
+    SHA256: Buffer.from('12345678901234567890123456789012'),
+    SHA512: Buffer.from('1234567890123456789012345678901234567890123456789012345678901234'),
+  };
+  const vectors: Array<[number, string, string, string]> = [
+    [59, '94287082', '46119246', '90693936'],
+    [1111111109, '07081804', '68084774', '25091201'],
+    [1111111111, '14050471', '67062674', '99943326'],
+    [1234567890, '89005924', '91819424', '93441116'],
+    [2000000000, '69279037', '90698825', '38618901'],
+    [20000000000, '65353130', '77737706', '47863826'],
+  ];
+
+  it.each(vectors)('matches the RFC 6238 codes at %i s', (seconds, sha1, sha256, sha512) => {
+    const at = seconds * 1000;
+    expect(totp(seeds.SHA1, at, { algorithm: 'SHA1', digits: 8, period: 30 }).code).toBe(sha1);
+    expect(totp(seeds.SHA256, at, { algorithm: 'SHA256', digits: 8, period: 30 }).code).toBe(sha256);
+    expect(totp(seeds.SHA512, at, { algorithm: 'SHA512', digits: 8, period: 30 }).code).toBe(sha512);
+  });
+
+  it('says when the code stops being current', () => {
+    expect(totp(seeds.SHA1, 59_000, { algorithm: 'SHA1', digits: 6, period: 30 })).toEqual({
+      code: '287082',
+      expiresAt: 60_000,
+    });
+  });
+});
+
+describe('parseOtpauthUri', () => {
+  it('reads the issuer, label, secret and parameters', () => {
+    expect(
+      parseOtpauthUri('otpauth://totp/Example:alice%40example.com?secret=jbsw y3dp&algorithm=sha256&digits=8&period=60')
+    ).toEqual({
+      issuer: 'Example',
+      label: 'alice@example.com',
+      secret: 'JBSWY3DP',
+      algorithm: 'SHA256',
+      digits: 8,
+      period: 60,
+    });
+    expect(base32Decode('JBSWY3DP').toString()).toBe('Hello');
+  });
+
+  it('rejects links it cannot make codes for', () => {
+    expect(() => parseOtpauthUri('otpauth://hotp/Example:alice?secret=JBSWY3DP')).toThrow(AuthenticatorError);
+    expect(() => parseOtpauthUri('otpauth://totp/Example:alice?secret=not-base32!')).toThrow(AuthenticatorError);
+    expect(() => parseOtpauthUri('otpauth://totp/Example:alice?secret=JBSWY3DP&algorithm=MD5')).toThrow(
+      AuthenticatorError
+    );
+  });
+});
+
+describe('backups', () => {
+  const URI = 'otpauth://totp/Example:alice?secret=JBSWY3DPEHPK3PXP';
+
+  it('restore accounts and phrases with the passphrase only', async () => {
+    const { authenticator: source } = memoryAuthenticator();
+    source.add(URI);
+    await source.addPhrase({ member: 'Grandma', prompt: 'First pet?', answer: 'Rex' });
+    const content = await source.exportBackup('blue spruce');
+    expect(content).not.toContain('JBSWY3DPEHPK3PXP');
+
+    const { authenticator: target } = memoryAuthenticator();
+    await expect(target.importBackup(content, 'red spruce')).rejects.toMatchObject({
+      kind: 'backup',
+      message: 'The passphrase does not open this backup.',
+    });
+    expect(target.accounts()).toEqual([]);
+
+    expect(await target.importBackup(content, 'blue spruce')).toEqual({ accounts: 1, phrases: 1 });
+    expect(target.codes().map((c) => c.code)).toEqual(source.codes().map((c) => c.code));
+    expect(await target.verifyPhrase(target.phrases()[0].id, '  rex ')).toBe(true);
+    expect(await target.importBackup(content, 'blue spruce')).toEqual({ accounts: 0, phrases: 0 });
+  });
+
+  it('refuse other key derivations without running them', async () => {
+    const { authenticator: source } = memoryAuthenticator();
+    source.add(URI);
+    const backup = JSON.parse(await source.exportBackup('blue spruce'));
+    const deriveKey = vi.fn(fakeHasher.deriveKey);
+    const { authenticator: target } = memoryAuthenticator({ ...fakeHasher, deriveKey });
+
+    const greedy = JSON.stringify({ ...backup, kdf: 'argon2id;m=4194304;t=1000;p=64' });
+    await expect(target.importBackup(greedy, 'blue spruce')).rejects.toBeInstanceOf(AuthenticatorError);
+    expect(deriveKey).not.toHaveBeenCalled();
+  });
+
+  it('leave out entries that do not check out', async () => {
+    const { values, authenticator: source } = memoryAuthenticator();
+    source.add(URI);
+    const vault = JSON.parse(values.get(`${SECRET_KEY_PREFIX}authenticator`)!);
+    const good = vault.accounts[0];
+    vault.accounts.push(
+      { ...good, secret: 'not base32!', label: 'bad secret' },
+      { ...good, algorithm: 'MD5', label: 'bad algorithm' },
+      { ...good, digits: 4, label: 'bad digits' },
+      { ...good, period: 0, label: 'bad period' }
+    );
+    vault.phrases = [{ id: 'p1', member: 'Grandma', prompt: 42, answerHash: 'x', createdAt: '' }];
+    values.set(`${SECRET_KEY_PREFIX}authenticator`, JSON.stringify(vault));
+    const content = await source.exportBackup('blue spruce');
+
+    const { authenticator: target } = memoryAuthenticator();
+    expect(await target.importBackup(content, 'blue spruce')).toEqual({ accounts: 1, phrases: 0 });
+    expect(target.codes()).toHaveLength(1);
+  });
+});
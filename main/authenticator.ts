@@ -0,0 +1,396 @@
+/**
+ * Electron main: the family authenticator (TOTP codes and verification phrases).
+ *
+ * - Accounts come from `otpauth://totp/...` URIs (typed in, or read from a QR code by the
+ *   renderer). Codes follow RFC 6238 with the account's algorithm, digits and period. The
+ *   secrets stay in main: the renderer gets accounts without them and the current codes.
+ * - Verification phrases are questions family members agreed on, with the answer stored
+ *   only as an argon2id hash of its normalized form (case, spacing). An answer given later
+ *   can be checked; it cannot be shown.
+ * - Both live in the signed-in user's encrypted data under SECRET_KEY_PREFIX
+ *   (main/user-data.ts), which the renderer cannot read.
+ * - A backup is the same data sealed with a key derived from a passphrase of its own, so
+ *   it can be restored into another profile or computer. Importing merges it. A backup file
+ *   is untrusted: only this app's own key derivation is run for it, and accounts or phrases
+ *   that do not check out (e.g. a secret that is not base32) are left out.
+ *
+ * `createAuthenticator` is independent of Electron; `registerAuthenticatorIpc` wires it up.
+ */
+
+import { createHmac, randomUUID } from 'crypto';
+import type { IpcMain } from 'electron';
+import { z } from 'zod';
+import {
+  SECRET_KEY_PREFIX,
+  type AuthenticatorAccount,
+  type AuthenticatorCode,
+  type FamilyPhrase,
+  type TotpAlgorithm,
+} from '../src/shared/types';
+import { argon2Hasher, type PasswordHasher } from './auth';
+import { EncryptionError, newSalt, seal, unseal } from './encryption';
+import { handle } from './ipc';
+import { getUserDataStore, type UserDataStore } from './user-data';
+
+const VAULT_KEY = `${SECRET_KEY_PREFIX}authenticator`;
+
+const BACKUP_FORMAT = 'gidit-authenticator-backup';
+const BACKUP_VERSION = 1;
+const BACKUP_AAD = `gidit:${BACKUP_FORMAT}:${BACKUP_VERSION}`;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const ALGORITHMS: readonly TotpAlgorithm[] = ['SHA1', 'SHA256', 'SHA512'];
+const DEFAULT_PERIOD = 30;
+const DEFAULT_DIGITS = 6;
+const MAX_PERIOD = 300;
+
+export class AuthenticatorError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: 'invalid' | 'not-found' | 'backup'
+  ) {
+    super(message);
+    this.name = 'AuthenticatorError';
+  }
+}
+
+/* -----------------------
+   TOTP (RFC 4226 / 6238)
+   ----------------------- */
+
+export interface TotpParams {
+  algorithm: TotpAlgorithm;
+  digits: number;
+  period: number;
+}
+
+/** Decode an RFC 4648 base32 secret; spaces, dashes, padding and case are ignored. */
+export function base32Decode(input: string): Buffer {
+  const chars = input.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of chars) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) throw new AuthenticatorError('The secret is not valid base32.', 'invalid');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((value >>> bits) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function hotp(secret: Buffer, counter: number, digits: number, algorithm: TotpAlgorithm): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = createHmac(algorithm.toLowerCase(), secret).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+/** The code at `at` (ms) and when it stops being current. */
+export function totp(secret: Buffer, at: number, params: TotpParams): { code: string; expiresAt: number } {
+  const periodMs = params.period * 1000;
+  const counter = Math.floor(at / periodMs);
+  return {
+    code: hotp(secret, counter, params.digits, params.algorithm),
+    expiresAt: (counter + 1) * periodMs,
+  };
+}
+
+/** An account from an `otpauth://totp/Issuer:label?secret=...` URI (Key Uri Format). */
+export function parseOtpauthUri(uri: string): { issuer: string | null; label: string; secret: string } & TotpParams {
+  let url: URL;
+  try {
+    url = new URL(uri.trim());
+  } catch {
+    throw new AuthenticatorError('This is not an otpauth:// link.', 'invalid');
+  }
+  if (url.protocol !== 'otpauth:') throw new AuthenticatorError('This is not an otpauth:// link.', 'invalid');
+  if (url.host.toLowerCase() !== 'totp') {
+    throw new AuthenticatorError('Only time-based (TOTP) accounts are supported.', 'invalid');
+  }
+
+  const params = url.searchParams;
+  const secret = (params.get('secret') ?? '').toUpperCase().replace(/[\s=-]/g, '');
+  if (!secret || base32Decode(secret).length === 0) {
+    throw new AuthenticatorError('The link has no secret.', 'invalid');
+  }
+
+  const path = decodeURIComponent(url.pathname.replace(/^\//, ''));
+  const colon = path.indexOf(':');
+  const labelIssuer = colon >= 0 ? path.slice(0, colon).trim() : '';
+  const label = (colon >= 0 ? path.slice(colon + 1) : path).trim();
+  const issuer = params.get('issuer')?.trim() || labelIssuer || null;
+  if (!label && !issuer) throw new AuthenticatorError('The link names no account.', 'invalid');
+
+  const algorithm = (params.get('algorithm') ?? 'SHA1').toUpperCase() as TotpAlgorithm;
+  if (!ALGORITHMS.includes(algorithm)) throw new AuthenticatorError(`Unsupported algorithm ${algorithm}.`, 'invalid');
+  const digits = Number(params.get('digits') ?? DEFAULT_DIGITS);
+  if (![6, 7, 8].includes(digits)) throw new AuthenticatorError('Codes must have 6 to 8 digits.', 'invalid');
+  const period = Number(params.get('period') ?? DEFAULT_PERIOD);
+  if (!Number.isInteger(period) || period < 1 || period > MAX_PERIOD) {
+    throw new AuthenticatorError('The code period is out of range.', 'invalid');
+  }
+
+  return { issuer, label: label || issuer!, secret, algorithm, digits, period };
+}
+
+/* -----------------------
+   Service
+   ----------------------- */
+
+type StoredAccount = AuthenticatorAccount & { secret: string };
+type StoredPhrase = FamilyPhrase & { answerHash: string };
+type Vault = { accounts: StoredAccount[]; phrases: StoredPhrase[] };
+
+/** Answers match regardless of case, accents written differently and extra spaces. */
+const normalizeAnswer = (answer: string) => answer.normalize('NFKC').trim().toLowerCase().replace(/\s+/g, ' ');
+
+const isBase32Secret = (secret: string) => {
+  try {
+    return base32Decode(secret).length > 0;
+  } catch {
+    return false;
+  }
+};
+
+const StoredAccountSchema = z.object({
+  id: z.string(),
+  issuer: z.string().nullable(),
+  label: z.string().min(1),
+  secret: z.string().refine(isBase32Secret),
+  algorithm: z.enum(['SHA1', 'SHA256', 'SHA512']),
+  digits: z.union([z.literal(6), z.literal(7), z.literal(8)]),
+  period: z.number().int().min(1).max(MAX_PERIOD),
+  createdAt: z.string(),
+});
+
+const StoredPhraseSchema = z.object({
+  id: z.string(),
+  member: z.string(),
+  prompt: z.string(),
+  answerHash: z.string().min(1),
+  createdAt: z.string(),
+});
+
+const BackupVaultSchema = z.object({
+  accounts: z.array(z.unknown()).default([]),
+  phrases: z.array(z.unknown()).default([]),
+});
+
+/** The entries that match `schema`; the rest are dropped. */
+const validEntries = <T extends z.ZodTypeAny>(schema: T, entries: unknown[]): z.output<T>[] =>
+  entries.flatMap((entry) => {
+    const parsed = schema.safeParse(entry);
+    return parsed.success ? [parsed.data] : [];
+  });
+
+const toAccount = ({ secret: _secret, ...account }: StoredAccount): AuthenticatorAccount => account;
+const toPhrase = ({ answerHash: _answerHash, ...phrase }: StoredPhrase): FamilyPhrase => phrase;
+
+const sameAccount = (a: StoredAccount, b: StoredAccount) =>
+  a.secret === b.secret && a.label === b.label && a.issuer === b.issuer;
+
+export interface AuthenticatorOptions {
+  store: Pick<UserDataStore, 'get' | 'set'>;
+  hasher?: PasswordHasher;
+  now?: () => number;
+}
+
+export function createAuthenticator(opts: AuthenticatorOptions) {
+  const { store } = opts;
+  const hasher = opts.hasher ?? argon2Hasher;
+  const now = opts.now ?? Date.now;
+
+  function read(): Vault {
+    const raw = store.get(VAULT_KEY);
+    if (!raw) return { accounts: [], phrases: [] };
+    const vault = JSON.parse(raw) as Partial<Vault>;
+    return { accounts: vault.accounts ?? [], phrases: vault.phrases ?? [] };
+  }
+
+  const write = (vault: Vault) => store.set(VAULT_KEY, JSON.stringify(vault));
+
+  /** Add what `incoming` has that `vault` lacks; returns how many were new. */
+  function merge(vault: Vault, incoming: Vault): { accounts: number; phrases: number } {
+    let accounts = 0;
+    let phrases = 0;
+    for (const account of incoming.accounts) {
+      if (vault.accounts.some((existing) => sameAccount(existing, account))) continue;
+      vault.accounts.push({ ...account, id: randomUUID() });
+      accounts++;
+    }
+    for (const phrase of incoming.phrases) {
+      if (vault.phrases.some((p) => p.member === phrase.member && p.prompt === phrase.prompt)) continue;
+      vault.phrases.push({ ...phrase, id: randomUUID() });
+      phrases++;
+    }
+    return { accounts, phrases };
+  }
+
+  return {
+    accounts(): AuthenticatorAccount[] {
+      return read().accounts.map(toAccount);
+    },
+
+    codes(): AuthenticatorCode[] {
+      const at = now();
+      return read().accounts.map((account) => {
+        const { code, expiresAt } = totp(base32Decode(account.secret), at, account);
+        return { id: account.id, code, expiresAt: new Date(expiresAt).toISOString() };
+      });
+    },
+
+    /** Add the account in an otpauth:// URI; the same account twice is kept once. */
+    add(uri: string): AuthenticatorAccount {
+      const parsed = parseOtpauthUri(uri);
+      const account: StoredAccount = { id: randomUUID(), createdAt: new Date(now()).toISOString(), ...parsed };
+      const vault = read();
+      const existing = vault.accounts.find((a) => sameAccount(a, account));
+      if (existing) return toAccount(existing);
+      vault.accounts.push(account);
+      write(vault);
+      return toAccount(account);
+    },
+
+    remove(id: string): boolean {
+      const vault = read();
+      const accounts = vault.accounts.filter((a) => a.id !== id);
+      if (accounts.length === vault.accounts.length) return false;
+      write({ ...vault, accounts });
+      return true;
+    },
+
+    phrases(): FamilyPhrase[] {
+      return read().phrases.map(toPhrase);
+    },
+
+    async addPhrase(input: { member: string; prompt: string; answer: string }): Promise<FamilyPhrase> {
+      const answerHash = await hasher.hash(normalizeAnswer(input.answer));
+      const phrase: StoredPhrase = {
+        id: randomUUID(),
+        member: input.member,
+        prompt: input.prompt,
+        createdAt: new Date(now()).toISOString(),
+        answerHash,
+      };
+      const vault = read();
+      vault.phrases.push(phrase);
+      write(vault);
+      return toPhrase(phrase);
+    },
+
+    /** Whether `answer` is the one stored for the phrase. */
+    async verifyPhrase(id: string, answer: string): Promise<boolean> {
+      const phrase = read().phrases.find((p) => p.id === id);
+      if (!phrase) throw new AuthenticatorError('This phrase no longer exists.', 'not-found');
+      return hasher.verify(phrase.answerHash, normalizeAnswer(answer));
+    },
+
+    removePhrase(id: string): boolean {
+      const vault = read();
+      const phrases = vault.phrases.filter((p) => p.id !== id);
+      if (phrases.length === vault.phrases.length) return false;
+      write({ ...vault, phrases });
+      return true;
+    },
+
+    /** Accounts and phrases sealed with `passphrase`, as the text of a backup file. */
+    async exportBackup(passphrase: string): Promise<string> {
+      const salt = newSalt();
+      const key = await hasher.deriveKey(passphrase, salt, hasher.kdf);
+      const data = seal(key, JSON.stringify(read()), BACKUP_AAD);
+      return JSON.stringify({
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        kdf: hasher.kdf,
+        salt: salt.toString('base64'),
+        data: data.toString('base64'),
+      });
+    },
+
+    /** Merge a backup made by `exportBackup` into the signed-in user's accounts and phrases. */
+    async importBackup(content: string, passphrase: string): Promise<{ accounts: number; phrases: number }> {
+      let backup: { format?: unknown; version?: unknown; kdf?: unknown; salt?: unknown; data?: unknown };
+      try {
+        backup = JSON.parse(content);
+      } catch {
+        throw new AuthenticatorError('This file is not an authenticator backup.', 'backup');
+      }
+      if (
+        backup.format !== BACKUP_FORMAT ||
+        backup.version !== BACKUP_VERSION ||
+        typeof backup.kdf !== 'string' ||
+        typeof backup.salt !== 'string' ||
+        typeof backup.data !== 'string'
+      ) {
+        throw new AuthenticatorError('This file is not an authenticator backup.', 'backup');
+      }
+
+      // Any other derivation could ask for unbounded memory or time
+      if (backup.kdf !== hasher.kdf) {
+        throw new AuthenticatorError('This backup was made by another version of Gidit.', 'backup');
+      }
+      const key = await hasher.deriveKey(passphrase, Buffer.from(backup.salt, 'base64'), backup.kdf);
+      let plain: string;
+      try {
+        plain = unseal(key, Buffer.from(backup.data, 'base64'), BACKUP_AAD).toString('utf8');
+      } catch (err) {
+        if (!(err instanceof EncryptionError)) throw err;
+        throw new AuthenticatorError('The passphrase does not open this backup.', 'backup');
+      }
+      let parsed: z.output<typeof BackupVaultSchema>;
+      try {
+        parsed = BackupVaultSchema.parse(JSON.parse(plain));
+      } catch {
+        throw new AuthenticatorError('This backup is damaged.', 'backup');
+      }
+      const incoming: Vault = {
+        accounts: validEntries(StoredAccountSchema, parsed.accounts),
+        phrases: validEntries(StoredPhraseSchema, parsed.phrases),
+      };
+
+      const vault = read();
+      const added = merge(vault, incoming);
+      write(vault);
+      return added;
+    },
+  };
+}
+
+export type Authenticator = ReturnType<typeof createAuthenticator>;
+
+/* -----------------------
+   App singleton + IPC
+   ----------------------- */
+
+let instance: Authenticator | null = null;
+
+export function getAuthenticator(): Authenticator {
+  instance ??= createAuthenticator({ store: getUserDataStore() });
+  return instance;
+}
+
+export function registerAuthenticatorIpc(ipcMain: IpcMain, authenticator: Authenticator = getAuthenticator()) {
+  handle(ipcMain, 'authenticator:list', () => authenticator.accounts());
+  handle(ipcMain, 'authenticator:codes', () => authenticator.codes());
+  handle(ipcMain, 'authenticator:add', ({ uri }) => authenticator.add(uri));
+  handle(ipcMain, 'authenticator:remove', (id) => ({ success: authenticator.remove(id) }));
+  handle(ipcMain, 'authenticator:phrases', () => authenticator.phrases());
+  handle(ipcMain, 'authenticator:addPhrase', (input) => authenticator.addPhrase(input));
+  handle(ipcMain, 'authenticator:verifyPhrase', async ({ id, answer }) => ({
+    match: await authenticator.verifyPhrase(id, answer),
+  }));
+  handle(ipcMain, 'authenticator:removePhrase', (id) => ({ success: authenticator.removePhrase(id) }));
+  handle(ipcMain, 'authenticator:exportBackup', async ({ passphrase }) => ({
+    content: await authenticator.exportBackup(passphrase),
+  }));
+  handle(ipcMain, 'authenticator:importBackup', ({ content, passphrase }) =>
+    authenticator.importBackup(content, passphrase)
+  );
+}
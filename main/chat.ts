@@ -0,0 +1,372 @@
+/**
+ * Electron main: persistent, streaming conversations with Giddy.
+ *
+ * - Conversations and messages are stored in the local DB (main/db.ts). Each belongs to
+ *   the profile that created it; other profiles cannot list, read or change it, and
+ *   replies in flight stop when the signed-in profile changes.
+ * - `chat:send` stores the user message and resolves right away with the id the reply
+ *   will be stored under; the reply streams to the window on 'chat:event'
+ *   (token* then done, or error).
+ * - `chat:stop` aborts the provider request. Whatever text already arrived is kept as
+ *   the reply, so a stopped answer stays in the history.
+ *
+ * App actions (tool calls):
+ * - Replies may propose actions from src/ai/tools/manifest.ts, natively or by prompt
+ *   (main/tool-calls.ts). They are stored with the reply as 'proposed' and nothing runs.
+ * - The renderer shows each as a card; once the user confirms and it has run there,
+ *   `chat:toolResult` records the outcome. When every action in the latest reply is
+ *   settled and at least one ran, Giddy follows up with the results on a new reply id.
+ *
+ * Saved items (retrieval):
+ * - Before answering, the user's message is looked up in the semantic index
+ *   (main/semantic-index.ts). The closest saved items go into the prompt numbered [n];
+ *   those the reply actually cites are stored with it as `citations`.
+ * - Retrieval is best effort: without an index or embedder, Giddy answers without sources.
+ *
+ * Context trimming:
+ * - The most recent messages always go to the model verbatim.
+ * - Once the unsummarised history grows past the budget, the older part is folded into
+ *   the conversation's stored summary (assistantService.summarizeHistory), which is sent
+ *   as a system message instead. The full transcript stays in the DB for display and search.
+ */
+
+import { randomUUID } from 'crypto';
+import type { IpcMain, WebContents } from 'electron';
+import type { ChatEvent, Citation, ConversationRecord, ToolCallRecord } from '../src/shared/types';
+import { INDEX_SOURCE_LABELS } from '../src/shared/types';
+import { buildMessages, summarizeHistory, type ChatMessage } from '../src/services/assistantService';
+import { getAuthService, type AuthService } from './auth';
+import { getRepositories, type ChatMessageRecord, type ConversationRepository } from './db';
+import { emit, handle } from './ipc';
+import { currentProfileId } from './profiles';
+import { completeChat, supportsCapability } from './providers';
+import type { SemanticIndex } from './semantic-index';
+import {
+  createToolBlockFilter,
+  extractToolBlocks,
+  toolPromptInstructions,
+  toolSpecs,
+  validateToolCalls,
+} from './tool-calls';
+
+const DEFAULT_TITLE = 'New conversation';
+const TITLE_LENGTH = 60;
+/** Messages always sent verbatim, however long they are. */
+const KEEP_RECENT = 8;
+/** Unsummarised history beyond this is folded into the summary. */
+const MAX_HISTORY_MESSAGES = 24;
+const MAX_HISTORY_CHARS = 12_000;
+/** Tool results are echoed back to the model up to this length. */
+const MAX_RESULT_CHARS = 2_000;
+/** Stands in for the user's turn when Giddy follows up on settled actions. */
+const TOOL_FOLLOW_UP =
+  'I have responded to the actions you proposed; their outcomes are noted above. Continue from there.';
+/** Saved items offered per reply, and the least similarity worth offering. */
+const MAX_SOURCES = 4;
+const MIN_SOURCE_SCORE = 0.2;
+
+/* -----------------------
+   Context
+   ----------------------- */
+
+function describeToolCall(call: ToolCallRecord): string {
+  switch (call.status) {
+    case 'proposed':
+      return `[Proposed action: ${call.summary}. Waiting for the user to confirm.]`;
+    case 'rejected':
+      return `[Proposed action: ${call.summary}. The user declined it.]`;
+    case 'failed':
+      return `[Action: ${call.summary}. Failed: ${call.error ?? 'unknown error'}]`;
+    case 'done': {
+      const result = call.result === null || call.result === undefined ? '' : JSON.stringify(call.result);
+      const shown = result.length > MAX_RESULT_CHARS ? `${result.slice(0, MAX_RESULT_CHARS)}…` : result;
+      return `[Action: ${call.summary}. Done.${shown ? ` Result: ${shown}` : ''}]`;
+    }
+  }
+}
+
+/** Tool calls are folded into the message text so every provider can read them back. */
+const toChatMessage = (m: ChatMessageRecord): ChatMessage => ({
+  role: m.role,
+  content: [m.content, ...m.toolCalls.map(describeToolCall)].filter(Boolean).join('\n\n'),
+});
+
+/** First line of the opening message, shortened for the sidebar. */
+export function titleFrom(message: string): string {
+  const line = message.trim().split('\n')[0].replace(/\s+/g, ' ');
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : line;
+}
+
+/**
+ * Summary and verbatim history for the next prompt (excluding the message being answered).
+ * Folds older messages into the stored summary when the budget is exceeded; if summarising
+ * fails the older messages are simply left out of this prompt.
+ */
+async function buildContext(
+  conversations: ConversationRepository,
+  conversationId: string,
+  history: ChatMessageRecord[],
+  opts: { model?: string; signal?: AbortSignal }
+): Promise<{ summary: string | null; history: ChatMessage[] }> {
+  let { summary, summarizedCount } = conversations.getSummary(conversationId);
+  const pending = history.slice(summarizedCount);
+  const chars = pending.reduce((n, m) => n + m.content.length, 0);
+
+  if (pending.length <= KEEP_RECENT || (pending.length <= MAX_HISTORY_MESSAGES && chars <= MAX_HISTORY_CHARS)) {
+    return { summary, history: pending.map(toChatMessage) };
+  }
+
+  const older = pending.slice(0, -KEEP_RECENT);
+  const recent = pending.slice(-KEEP_RECENT);
+  try {
+    summary = await summarizeHistory(summary, older.map(toChatMessage), opts);
+    summarizedCount += older.length;
+    conversations.setSummary(conversationId, summary, summarizedCount);
+  } catch (err) {
+    if (opts.signal?.aborted) throw err;
+    console.warn('[chat] could not summarise history, trimming instead:', (err as Error).message);
+  }
+  return { summary, history: recent.map(toChatMessage) };
+}
+
+/** Saved items close to the user's message, numbered for citing. Empty when retrieval fails. */
+async function findSources(
+  index: Pick<SemanticIndex, 'query'> | null,
+  question: string,
+  userId: string,
+  signal: AbortSignal
+): Promise<Citation[]> {
+  if (!index) return [];
+  try {
+    const hits = await index.query(question, { limit: MAX_SOURCES, userId, signal });
+    return hits
+      .filter((hit) => hit.score >= MIN_SOURCE_SCORE)
+      .map((hit, i) => ({ n: i + 1, source: hit.source, id: hit.id, title: hit.title, excerpt: hit.excerpt }));
+  } catch (err) {
+    if (signal.aborted) throw err;
+    console.warn('[chat] could not search saved items:', (err as Error).message);
+    return [];
+  }
+}
+
+/** The sources a reply refers to as [n]. */
+const citedIn = (text: string, sources: Citation[]) => sources.filter((s) => text.includes(`[${s.n}]`));
+
+/* -----------------------
+   Replies
+   ----------------------- */
+
+/** One AbortController per conversation with a reply in flight. */
+const active = new Map<string, AbortController>();
+
+async function streamReply(
+  sender: WebContents,
+  conversations: ConversationRepository,
+  index: Pick<SemanticIndex, 'query'> | null,
+  conversationId: string,
+  replyId: string,
+  model: string | undefined,
+  controller: AbortController
+) {
+  const send = (event: ChatEvent) => emit(sender, 'chat:event', event);
+  const { signal } = controller;
+  const native = supportsCapability('tools');
+  let text = '';
+  let sources: Citation[] = [];
+
+  try {
+    // A reply answers the latest user message, or follows up on settled actions.
+    const stored = conversations.messages(conversationId);
+    const latest = stored[stored.length - 1];
+    const answering = latest?.role === 'user';
+    const history = answering ? stored.slice(0, -1) : stored;
+    const context = await buildContext(conversations, conversationId, history, { model, signal });
+    if (answering) {
+      const userId = conversations.ownerOf(conversationId) ?? '';
+      sources = await findSources(index, latest.content, userId, signal);
+    }
+    const messages = buildMessages({
+      ...context,
+      message: answering ? latest.content : TOOL_FOLLOW_UP,
+      tools: native ? {} : { instructions: toolPromptInstructions() },
+      sources: sources.map((s) => ({ ...s, label: INDEX_SOURCE_LABELS[s.source] })),
+    });
+
+    const streamToken = (delta: string) => {
+      text += delta;
+      send({ type: 'token', conversationId, replyId, delta });
+    };
+    const result = await completeChat(messages, {
+      model,
+      signal,
+      tools: native ? toolSpecs() : undefined,
+      onToken: native ? streamToken : createToolBlockFilter(streamToken),
+    });
+
+    const reply = native ? { text: result.text, calls: result.toolCalls } : extractToolBlocks(result.text);
+    // Non-streaming providers deliver the whole text at once.
+    if (!text && reply.text) send({ type: 'token', conversationId, replyId, delta: reply.text });
+
+    const { proposals, problems } = validateToolCalls(reply.calls);
+    if (problems.length) console.warn('[chat] dropped tool calls:', problems);
+    const content = problems.length
+      ? `${reply.text.trim()}\n\n(I couldn't prepare an action: ${problems.join('; ')}.)`.trim()
+      : reply.text.trim();
+
+    const message = conversations.addMessage({
+      id: replyId,
+      conversationId,
+      role: 'assistant',
+      content,
+      toolCalls: proposals,
+      citations: citedIn(content, sources),
+    });
+    send({ type: 'done', conversationId, replyId, message, stopped: false });
+  } catch (err) {
+    if (signal.aborted) {
+      const partial = text.trim();
+      let message: ChatMessageRecord | null = null;
+      if (partial && conversations.ownerOf(conversationId)) {
+        try {
+          message = conversations.addMessage({
+            id: replyId,
+            conversationId,
+            role: 'assistant',
+            content: partial,
+            citations: citedIn(partial, sources),
+          });
+        } catch (err) {
+          // Stopped by signing out or the lock screen: the conversation cannot be opened now
+          console.warn('[chat] could not keep the stopped reply:', (err as Error).message);
+        }
+      }
+      send({ type: 'done', conversationId, replyId, message, stopped: true });
+    } else {
+      send({ type: 'error', conversationId, replyId, error: (err as Error).message || 'Unknown error' });
+    }
+  } finally {
+    if (active.get(conversationId) === controller) active.delete(conversationId);
+  }
+}
+
+/** Start a reply in the background; its events go to `sender`. Returns the reply id. */
+function startReply(
+  sender: WebContents,
+  conversations: ConversationRepository,
+  index: Pick<SemanticIndex, 'query'> | null,
+  conversationId: string,
+  model?: string
+): string {
+  const replyId = randomUUID();
+  const controller = new AbortController();
+  active.set(conversationId, controller);
+  void streamReply(sender, conversations, index, conversationId, replyId, model, controller);
+  return replyId;
+}
+
+/**
+ * Abort the reply streaming in a conversation. Returns false when none was. The reply keeps
+ * its `active` entry until streamReply has stored what arrived, so a new message cannot
+ * land before the stopped reply.
+ */
+export function stopReply(conversationId: string): boolean {
+  const controller = active.get(conversationId);
+  if (!controller || controller.signal.aborted) return false;
+  controller.abort();
+  return true;
+}
+
+/** Abort every reply in flight (app quit). */
+export function stopAllReplies() {
+  for (const id of [...active.keys()]) stopReply(id);
+}
+
+/* -----------------------
+   IPC
+   ----------------------- */
+
+/** `index` supplies saved items for retrieval; pass null to answer without them. */
+export function registerChatIpc(
+  ipcMain: IpcMain,
+  conversations: ConversationRepository = getRepositories().conversations,
+  index: Pick<SemanticIndex, 'query'> | null = null,
+  auth: AuthService = getAuthService()
+) {
+  // Nothing is stored behind the lock screen or for another profile, so replies stop there
+  auth.onChange((event) => {
+    if (event.type !== 'screen-unlocked') stopAllReplies();
+  });
+
+  /** The conversation if the signed-in profile owns it; other profiles' count as missing. */
+  const findOwn = (id: string): ConversationRecord | null =>
+    conversations.ownerOf(id) === currentProfileId(auth) ? conversations.findById(id) : null;
+
+  const findOrThrow = (id: string): ConversationRecord => {
+    const conversation = findOwn(id);
+    if (!conversation) throw new Error(`Conversation ${id} not found`);
+    return conversation;
+  };
+
+  handle(ipcMain, 'chat:list', () => conversations.list(currentProfileId(auth)));
+
+  handle(ipcMain, 'chat:search', ({ query }) => conversations.search(query, currentProfileId(auth)));
+
+  handle(ipcMain, 'chat:get', (id) => {
+    const conversation = findOwn(id);
+    return conversation ? { conversation, messages: conversations.messages(id) } : null;
+  });
+
+  handle(ipcMain, 'chat:create', ({ title }) =>
+    conversations.create({ userId: currentProfileId(auth), title: title ?? DEFAULT_TITLE })
+  );
+
+  handle(ipcMain, 'chat:rename', ({ id, title }) => {
+    findOrThrow(id);
+    return conversations.rename(id, title)!;
+  });
+
+  handle(ipcMain, 'chat:delete', (id) => {
+    if (!findOwn(id)) return { success: false };
+    stopReply(id);
+    return { success: conversations.delete(id) };
+  });
+
+  handle(ipcMain, 'chat:send', ({ conversationId, message, model }, event) => {
+    let conversation = findOrThrow(conversationId);
+    if (active.has(conversationId)) {
+      throw new Error('Giddy is still replying in this conversation. Stop the reply or wait for it to finish.');
+    }
+
+    const isFirst = conversations.messages(conversationId).length === 0;
+    const userMessage = conversations.addMessage({ conversationId, role: 'user', content: message });
+    if (isFirst && conversation.title === DEFAULT_TITLE) {
+      conversations.rename(conversationId, titleFrom(message));
+    }
+    conversation = findOrThrow(conversationId);
+
+    const replyId = startReply(event.sender, conversations, index, conversationId, model);
+    return { conversation, userMessage, replyId };
+  });
+
+  handle(ipcMain, 'chat:stop', (conversationId) => ({ stopped: !!findOwn(conversationId) && stopReply(conversationId) }));
+
+  handle(ipcMain, 'chat:toolResult', ({ callId, status, result, error }, event) => {
+    const conversationId = conversations.conversationOf(callId);
+    const call = conversationId && findOwn(conversationId) ? conversations.findToolCall(callId) : null;
+    if (!call) throw new Error(`Action ${callId} not found`);
+    if (call.status !== 'proposed') throw new Error('This action has already been handled.');
+
+    const toolCall = conversations.settleToolCall(callId, { status, result, error })!;
+
+    // Follow up only on the latest reply, once all of its actions are settled and one of them ran.
+    const messages = conversations.messages(call.conversationId);
+    const latest = messages[messages.length - 1];
+    const calls = latest?.id === call.messageId ? latest.toolCalls : [];
+    const settled = calls.length > 0 && calls.every((c) => c.status !== 'proposed');
+    const anyRan = calls.some((c) => c.status === 'done' || c.status === 'failed');
+    if (!settled || !anyRan || active.has(call.conversationId)) {
+      return { toolCall, replyId: null };
+    }
+    return { toolCall, replyId: startReply(event.sender, conversations, index, call.conversationId) };
+  });
+}
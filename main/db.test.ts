@@ -0,0 +1,202 @@
+import Database from 'better-sqlite3';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createRepositories, migrate, migrations, openDatabase, type Migration, type Repositories } from './db';
+import { newDataKey, newKeyPair, newSalt, privateKeyAad, seal } from './encryption';
+
+const latest = migrations[migrations.length - 1].version;
+
+describe('migrations', () => {
+  it('are numbered 1..n in order', () => {
+    expect(migrations.map((m) => m.version)).toEqual(migrations.map((_, i) => i + 1));
+  });
+
+  it('bring an empty database to the latest version', () => {
+    const db = openDatabase(':memory:');
+    expect(db.pragma('user_version', { simple: true })).toBe(latest);
+    db.close();
+  });
+
+  it('apply one at a time, each from the schema the one before left', () => {
+    const db = new Database(':memory:');
+    db.pragma('foreign_keys = ON');
+    for (const migration of migrations) {
+      expect(migrate(db, migrations.filter((m) => m.version <= migration.version))).toBe(migration.version);
+    }
+    db.close();
+  });
+
+  it('leave the schema at the last good version when one fails', () => {
+    const db = openDatabase(':memory:');
+    const broken: Migration = { version: latest + 1, name: 'broken', up: (d) => d.exec('CREATE TABLE x (') };
+    expect(() => migrate(db, [...migrations, broken])).toThrow(/migration \d+ \(broken\) failed/);
+    expect(db.pragma('user_version', { simple: true })).toBe(latest);
+    db.close();
+  });
+});
+
+describe('a database file', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'gidit-db-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps its data and version when reopened', () => {
+    const file = join(dir, 'app.db');
+    let db = openDatabase(file);
+    const user = createRepositories(db).users.create({ username: 'ada', passwordHash: 'hash' });
+    createRepositories(db).settings.set('app-theme', 'dark', user.id);
+    db.close();
+
+    db = openDatabase(file);
+    expect(db.pragma('user_version', { simple: true })).toBe(latest);
+    expect(migrate(db)).toBe(latest);
+    const repos = createRepositories(db);
+    expect(repos.users.findByUsername('ada')?.id).toBe(user.id);
+    expect(repos.settings.get('app-theme', user.id)).toBe('dark');
+    db.close();
+  });
+});
+
+describe('sealed user text', () => {
+  let dir: string;
+  let file: string;
+  const keys = new Map<string, Buffer>();
+  const dataKey = (userId: string) => {
+    const key = keys.get(userId);
+    if (!key) throw new Error('locked');
+    return key;
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'gidit-db-'));
+    file = join(dir, 'app.db');
+    keys.clear();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** A user with a data key and key pair, as main/auth.ts leaves them after sign-in. */
+  const signUp = (repos: Repositories, username: string) => {
+    const user = repos.users.create({ username, passwordHash: 'hash' });
+    const key = newDataKey();
+    keys.set(user.id, key);
+    repos.userData.saveKey({ userId: user.id, kdf: 'test', salt: newSalt(), wrappedKey: Buffer.alloc(0) });
+    const pair = newKeyPair();
+    repos.userData.saveKeyPair(user.id, pair.publicKey, seal(key, pair.privateKey, privateKeyAad(user.id)));
+    return user;
+  };
+
+  /** Whether any file the database left behind contains `text`. */
+  const onDisk = (text: string) => readdirSync(dir).some((name) => readFileSync(join(dir, name)).includes(text));
+
+  it('is not in the database file', () => {
+    const db = openDatabase(file);
+    const repos = createRepositories(db, dataKey);
+    const ada = signUp(repos, 'ada');
+    const bob = signUp(repos, 'bob');
+
+    const task = repos.tasks.add(ada.id, {
+      title: 'Renew the zebra licence',
+      notes: 'Bring the striped form',
+      status: 'todo',
+      priority: 'high',
+      dueDate: null,
+      scheduledDate: null,
+      scheduledTime: null,
+      quadrant: null,
+      column: null,
+      tags: ['savannah'],
+      estimate: null,
+      parentId: null,
+      project: 'Menagerie',
+    });
+    const conversation = repos.conversations.create({ userId: ada.id, title: 'Giraffe diets' });
+    const reply = repos.conversations.addMessage({
+      conversationId: conversation.id,
+      role: 'assistant',
+      content: 'Acacia leaves, mostly',
+      toolCalls: [{ name: 'addTask', args: { title: 'Order acacia' }, summary: 'Add acacia order' }],
+    });
+    repos.conversations.settleToolCall(reply.toolCalls[0].id, { status: 'done', result: { title: 'Order acacia' } });
+    repos.conversations.setSummary(conversation.id, 'Talked about okapis', 1);
+    const note = { source: 'note' as const, id: 'n1', userId: ada.id, title: 'Pelican notes', text: 'Pouch capacity' };
+    repos.index.upsert({ ...note, tags: ['birds'] });
+    repos.index.saveChunks(repos.index.find('note', 'n1')!, 'hash:2', [{ text: 'Pouch capacity', vector: [1, 0] }]);
+    const members = [ada.id, bob.id];
+    const list = repos.household.create({ kind: 'grocery', title: 'Flamingo feed', memberIds: members }, ada.id);
+    repos.household.addItem({ collectionId: list.id, text: 'Brine shrimp', assigneeId: null, createdBy: ada.id });
+
+    // Everything opens again for its owner, and the shared list for every member
+    expect(repos.tasks.findById(task.id)).toMatchObject({ title: 'Renew the zebra licence', tags: ['savannah'] });
+    expect(repos.conversations.messages(conversation.id)[0].toolCalls[0].result).toEqual({ title: 'Order acacia' });
+    expect(repos.conversations.search('ACACIA', ada.id)[0].snippet).toBe('Acacia leaves, mostly');
+    expect(repos.index.chunks('hash:2', ada.id)[0]).toMatchObject({ title: 'Pelican notes', text: 'Pouch capacity' });
+    const hits = repos.index.keywordSearch({
+      match: 'pouch',
+      sources: null,
+      tags: ['BIRDS'],
+      dueFrom: null,
+      dueTo: null,
+      userId: ada.id,
+      perGroup: 5,
+    });
+    expect(hits.map((hit) => hit.item.title)).toEqual(['Pelican notes']);
+    expect(repos.household.findCollection(list.id, bob.id)?.title).toBe('Flamingo feed');
+    expect(repos.household.items(list.id, bob.id).map((item) => item.text)).toEqual(['Brine shrimp']);
+    db.close();
+
+    const texts = ['zebra', 'striped', 'savannah', 'Menagerie', 'Giraffe', 'cacia', 'okapis', 'Pelican', 'Pouch', 'birds'];
+    for (const text of [...texts, 'Flamingo', 'Brine']) expect(onDisk(text), text).toBe(false);
+  });
+
+  it('written before sealing is sealed at its owner\'s sign-in', () => {
+    const db = openDatabase(file);
+    const repos = createRepositories(db, dataKey);
+    const ada = signUp(repos, 'ada');
+    const at = new Date().toISOString();
+    const insert = (table: string, row: Record<string, unknown>) => {
+      const columns = Object.keys(row);
+      db.prepare(`INSERT INTO ${table} (${columns}) VALUES (${columns.map((c) => `@${c}`)})`).run(row);
+    };
+    const dates = { created_at: at, updated_at: at };
+    insert('tasks', { id: 't1', user_id: ada.id, title: 'Feed the zebra', notes: 'Hay', tags: '["savannah"]', ...dates });
+    insert('conversations', { id: 'c1', user_id: ada.id, title: 'Giraffe diets', summary: 'About okapis', ...dates });
+    insert('messages', { id: 'm1', conversation_id: 'c1', role: 'user', content: 'What about acacia?', created_at: at });
+    insert('index_items', {
+      source: 'note',
+      item_id: 'n1',
+      user_id: ada.id,
+      title: 'Pelican notes',
+      text: 'Pouch capacity',
+      tags: '["birds"]',
+      content_hash: 'sha1',
+      updated_at: at,
+    });
+    insert('household_collections', { id: 'h1', kind: 'grocery', title: 'Flamingo feed', created_at: at });
+    insert('household_members', { collection_id: 'h1', user_id: ada.id });
+    insert('household_items', { id: 'i1', collection_id: 'h1', text: 'Brine shrimp', ...dates });
+
+    expect(repos.plaintext.seal(ada.id)).toBe(5);
+    expect(repos.plaintext.seal(ada.id)).toBe(0);
+    expect(repos.tasks.findById('t1')).toMatchObject({ title: 'Feed the zebra', notes: 'Hay', tags: ['savannah'] });
+    expect(repos.conversations.findById('c1')).toMatchObject({ title: 'Giraffe diets', summary: 'About okapis' });
+    expect(repos.conversations.messages('c1')[0].content).toBe('What about acacia?');
+    expect(repos.index.find('note', 'n1')).toMatchObject({ title: 'Pelican notes', tags: ['birds'] });
+    expect(repos.household.items('h1', ada.id)[0].text).toBe('Brine shrimp');
+    db.close();
+
+    for (const text of ['zebra', 'savannah', 'Giraffe', 'okapis', 'acacia', 'Pelican', 'birds', 'Flamingo', 'Brine']) {
+      expect(onDisk(text), text).toBe(false);
+    }
+  });
+});
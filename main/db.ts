@@ -0,0 +1,2554 @@
+/**
+ * Electron main: local SQLite persistence layer.
+ *
+ * Responsibilities:
+ * - Open the app database (a file under userData in production, ':memory:' in tests).
+ * - Apply versioned schema migrations tracked with `PRAGMA user_version`.
+ * - Expose typed repositories for users (with their profile), sessions, encrypted user data,
+ *   tasks, settings, Giddy conversations, the index of saved items (texts, embedding vectors
+ *   and a full-text table; the embedding itself is main/semantic-index.ts, query parsing
+ *   main/search.ts), the household collections profiles share, and the builder's pages with
+ *   the state their widgets keep.
+ * - Keep user text sealed (main/encryption.ts). Encrypted user data, pages and widget state
+ *   are sealed by their services and opaque here; tasks, conversations, index items and
+ *   household lists seal their text columns themselves, with the data key `DataKeyLookup`
+ *   hands them. Only rows from before sealing wait in plain text, until their owner signs in.
+ * - Register the IPC handlers the renderer services call (settings:*), limited to the
+ *   signed-in profile. Conversation channels (chat:*) live in main/chat.ts, next to the
+ *   streaming logic; auth:* in main/auth.ts, profiles:* in main/profiles.ts, household:* in
+ *   main/household.ts, tasks:* in main/tasks.ts, userData:* in main/user-data.ts, pages:* in
+ *   main/pages.ts, widgetState:* in main/widget-state.ts.
+ *
+ * Notes:
+ * - better-sqlite3 is synchronous; every repository call runs on the main thread and
+ *   is expected to be short. Long work (AI, Python) must never hold a transaction open.
+ * - Repositories take the database as an argument so tests can pass an in-memory instance:
+ *     const db = openDatabase(':memory:');
+ *     const tasks = createTaskRepository(db, (userId) => keys.get(userId)!);
+ */
+
+import Database from 'better-sqlite3';
+import { createHmac, randomUUID } from 'crypto';
+import type { IpcMain } from 'electron';
+import type {
+  ChatMessageRecord,
+  Citation,
+  ConversationRecord,
+  ConversationSearchHit,
+  HouseholdCollection,
+  HouseholdItem,
+  HouseholdKind,
+  IndexSource,
+  TaskFields,
+  TaskPriority,
+  TaskQuadrant,
+  TaskRecord,
+  TaskStatus,
+  ToolCallRecord,
+  ToolCallStatus,
+  WidgetLocation,
+} from '../src/shared/types';
+import { SEARCH_MATCH_END, SEARCH_MATCH_START } from '../src/shared/types';
+import { householdKeyAad, newDataKey, privateKeyAad, seal, sealFor, unseal, unsealWith } from './encryption';
+import { handle } from './ipc';
+
+export type Db = Database.Database;
+
+/* -----------------------
+   Migrations
+   ----------------------- */
+
+export type Migration = {
+  version: number;
+  name: string;
+  up: (db: Db) => void;
+};
+
+/**
+ * Ordered list of schema migrations. Never edit a migration that has shipped;
+ * append a new one with the next version number instead.
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'users, tasks and settings',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE users (
+          id            TEXT PRIMARY KEY,
+          username      TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          email         TEXT,
+          password_hash TEXT NOT NULL,
+          created_at    TEXT NOT NULL
+        );
+
+        CREATE TABLE tasks (
+          id           TEXT PRIMARY KEY,
+          user_id      TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          content      TEXT NOT NULL,
+          component_id TEXT NOT NULL,
+          display_data TEXT NOT NULL DEFAULT '{}',
+          created_at   TEXT NOT NULL
+        );
+        CREATE INDEX idx_tasks_user ON tasks(user_id, created_at);
+
+        CREATE TABLE settings (
+          user_id TEXT NOT NULL DEFAULT '',
+          key     TEXT NOT NULL,
+          value   TEXT,
+          PRIMARY KEY (user_id, key)
+        );
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'assistant conversations',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE conversations (
+          id               TEXT PRIMARY KEY,
+          user_id          TEXT NOT NULL DEFAULT '',
+          title            TEXT NOT NULL,
+          summary          TEXT,
+          summarized_count INTEGER NOT NULL DEFAULT 0,
+          created_at       TEXT NOT NULL,
+          updated_at       TEXT NOT NULL
+        );
+        CREATE INDEX idx_conversations_user ON conversations(user_id, updated_at);
+
+        CREATE TABLE messages (
+          id              TEXT PRIMARY KEY,
+          conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+          role            TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+          content         TEXT NOT NULL,
+          created_at      TEXT NOT NULL
+        );
+        CREATE INDEX idx_messages_conversation ON messages(conversation_id, created_at);
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: 'assistant tool calls',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE tool_calls (
+          id              TEXT PRIMARY KEY,
+          message_id      TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+          conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+          name            TEXT NOT NULL,
+          args            TEXT NOT NULL DEFAULT '{}',
+          summary         TEXT NOT NULL,
+          status          TEXT NOT NULL DEFAULT 'proposed'
+                          CHECK (status IN ('proposed', 'rejected', 'done', 'failed')),
+          result          TEXT,
+          error           TEXT,
+          created_at      TEXT NOT NULL
+        );
+        CREATE INDEX idx_tool_calls_message ON tool_calls(message_id);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: 'semantic index and reply citations',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE index_items (
+          source       TEXT NOT NULL,
+          item_id      TEXT NOT NULL,
+          user_id      TEXT NOT NULL DEFAULT '',
+          title        TEXT NOT NULL,
+          text         TEXT NOT NULL,
+          content_hash TEXT NOT NULL,
+          updated_at   TEXT NOT NULL,
+          PRIMARY KEY (source, item_id)
+        );
+        CREATE INDEX idx_index_items_user ON index_items(user_id);
+
+        CREATE TABLE index_chunks (
+          source       TEXT NOT NULL,
+          item_id      TEXT NOT NULL,
+          chunk        INTEGER NOT NULL,
+          text         TEXT NOT NULL,
+          embedder     TEXT NOT NULL,
+          content_hash TEXT NOT NULL,
+          vector       BLOB NOT NULL,
+          PRIMARY KEY (source, item_id, chunk),
+          FOREIGN KEY (source, item_id) REFERENCES index_items(source, item_id) ON DELETE CASCADE
+        );
+        CREATE INDEX idx_index_chunks_embedder ON index_chunks(embedder);
+
+        ALTER TABLE messages ADD COLUMN citations TEXT NOT NULL DEFAULT '[]';
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: 'keyword search over indexed items',
+    up: (db) => {
+      // The FTS table keeps its own copy of the text instead of pointing at index_items'
+      // rowids, which VACUUM may renumber (the table has no INTEGER PRIMARY KEY).
+      // Widget items indexed before this version have no scope or location; the widgets
+      // send them again, with both, the next time they are opened.
+      db.exec(`
+        DELETE FROM index_items WHERE source <> 'task';
+
+        ALTER TABLE index_items ADD COLUMN tags TEXT NOT NULL DEFAULT '[]';
+        ALTER TABLE index_items ADD COLUMN due TEXT;
+        ALTER TABLE index_items ADD COLUMN scope TEXT;
+        ALTER TABLE index_items ADD COLUMN page_id TEXT;
+        ALTER TABLE index_items ADD COLUMN widget_item_id TEXT;
+        ALTER TABLE index_items ADD COLUMN widget_id TEXT;
+        CREATE INDEX idx_index_items_scope ON index_items(scope, source);
+
+        CREATE VIRTUAL TABLE search_fts USING fts5(
+          source UNINDEXED,
+          item_id UNINDEXED,
+          title,
+          text,
+          tags,
+          tokenize = 'unicode61 remove_diacritics 2',
+          prefix = '2 3'
+        );
+
+        CREATE TRIGGER index_items_fts_insert AFTER INSERT ON index_items BEGIN
+          INSERT INTO search_fts (source, item_id, title, text, tags)
+          VALUES (new.source, new.item_id, new.title, new.text, new.tags);
+        END;
+        CREATE TRIGGER index_items_fts_delete AFTER DELETE ON index_items BEGIN
+          DELETE FROM search_fts WHERE source = old.source AND item_id = old.item_id;
+        END;
+        CREATE TRIGGER index_items_fts_update AFTER UPDATE OF title, text, tags ON index_items BEGIN
+          DELETE FROM search_fts WHERE source = old.source AND item_id = old.item_id;
+          INSERT INTO search_fts (source, item_id, title, text, tags)
+          VALUES (new.source, new.item_id, new.title, new.text, new.tags);
+        END;
+
+        INSERT INTO search_fts (source, item_id, title, text, tags)
+        SELECT source, item_id, title, text, tags FROM index_items;
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'sessions and sign-in throttling',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE sessions (
+          token_hash TEXT PRIMARY KEY,
+          user_id    TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          created_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL
+        );
+        CREATE INDEX idx_sessions_user ON sessions(user_id);
+        CREATE INDEX idx_sessions_expiry ON sessions(expires_at);
+
+        CREATE TABLE login_attempts (
+          username        TEXT PRIMARY KEY COLLATE NOCASE,
+          failures        INTEGER NOT NULL,
+          last_failure_at TEXT NOT NULL,
+          locked_until    TEXT
+        );
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'encrypted user data',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE user_keys (
+          user_id     TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+          kdf         TEXT NOT NULL,
+          salt        BLOB NOT NULL,
+          wrapped_key BLOB NOT NULL,
+          updated_at  TEXT NOT NULL
+        );
+
+        CREATE TABLE user_data (
+          user_id    TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          key        TEXT NOT NULL,
+          value      BLOB NOT NULL,
+          updated_at TEXT NOT NULL,
+          PRIMARY KEY (user_id, key)
+        );
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'profiles and household collections',
+    up: (db) => {
+      // Widget items are namespaced by profile from now on (main/semantic-index.ts); the
+      // widgets send them again when they are next opened. Conversations from before
+      // profiles belong to the only account, if there is exactly one.
+      db.exec(`
+        ALTER TABLE users ADD COLUMN display_name TEXT;
+        ALTER TABLE users ADD COLUMN avatar TEXT;
+        ALTER TABLE users ADD COLUMN color TEXT;
+
+        CREATE TABLE household_collections (
+          id         TEXT PRIMARY KEY,
+          kind       TEXT NOT NULL CHECK (kind IN ('grocery', 'chores')),
+          title      TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE TABLE household_members (
+          collection_id TEXT NOT NULL REFERENCES household_collections(id) ON DELETE CASCADE,
+          user_id       TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          PRIMARY KEY (collection_id, user_id)
+        );
+        CREATE INDEX idx_household_members_user ON household_members(user_id);
+
+        CREATE TABLE household_items (
+          id            TEXT PRIMARY KEY,
+          collection_id TEXT NOT NULL REFERENCES household_collections(id) ON DELETE CASCADE,
+          text          TEXT NOT NULL,
+          done          INTEGER NOT NULL DEFAULT 0,
+          assignee_id   TEXT REFERENCES users(id) ON DELETE SET NULL,
+          created_by    TEXT REFERENCES users(id) ON DELETE SET NULL,
+          created_at    TEXT NOT NULL,
+          updated_at    TEXT NOT NULL
+        );
+        CREATE INDEX idx_household_items_collection ON household_items(collection_id, created_at);
+
+        DELETE FROM index_items WHERE source <> 'task';
+        UPDATE conversations SET user_id = (SELECT id FROM users)
+        WHERE user_id = '' AND (SELECT COUNT(*) FROM users) = 1;
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'screen lock PIN',
+    up: (db) => {
+      db.exec(`ALTER TABLE users ADD COLUMN pin_hash TEXT;`);
+    },
+  },
+  {
+    version: 10,
+    name: 'recovery codes',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE recovery_codes (
+          id          TEXT PRIMARY KEY,
+          user_id     TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          salt        BLOB NOT NULL,
+          wrapped_key BLOB NOT NULL,
+          used_at     TEXT,
+          created_at  TEXT NOT NULL
+        );
+        CREATE INDEX idx_recovery_codes_user ON recovery_codes(user_id);
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: 'builder pages',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE page_layouts (
+          user_id        TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+          schema_version INTEGER NOT NULL,
+          updated_at     TEXT NOT NULL
+        );
+
+        CREATE TABLE pages (
+          user_id  TEXT NOT NULL REFERENCES page_layouts(user_id) ON DELETE CASCADE,
+          id       TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          data     BLOB NOT NULL,
+          PRIMARY KEY (user_id, id)
+        );
+
+        CREATE TABLE page_items (
+          user_id  TEXT NOT NULL,
+          page_id  TEXT NOT NULL,
+          id       TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          data     BLOB NOT NULL,
+          PRIMARY KEY (user_id, id),
+          FOREIGN KEY (user_id, page_id) REFERENCES pages(user_id, id) ON DELETE CASCADE
+        );
+        CREATE INDEX idx_page_items_page ON page_items(user_id, page_id);
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: 'widget state',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE widget_state (
+          user_id        TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          item_id        TEXT NOT NULL,
+          key            TEXT NOT NULL,
+          schema_version INTEGER NOT NULL,
+          data           BLOB NOT NULL,
+          updated_at     TEXT NOT NULL,
+          PRIMARY KEY (user_id, item_id, key)
+        );
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: 'unified tasks',
+    up: (db) => {
+      // One task model for every task widget. Rebuilt rather than altered: `content` becomes
+      // `title`, and the per-widget `component_id` / `display_data` go (tags are kept).
+      db.exec(`
+        CREATE TABLE tasks_unified (
+          id             TEXT PRIMARY KEY,
+          user_id        TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          title          TEXT NOT NULL,
+          notes          TEXT NOT NULL DEFAULT '',
+          status         TEXT NOT NULL DEFAULT 'todo',
+          priority       TEXT NOT NULL DEFAULT 'medium',
+          due_date       TEXT,
+          scheduled_date TEXT,
+          scheduled_time TEXT,
+          quadrant       TEXT,
+          board_column   TEXT,
+          tags           TEXT NOT NULL DEFAULT '[]',
+          estimate       INTEGER,
+          parent_id      TEXT REFERENCES tasks_unified(id) ON DELETE SET NULL,
+          project        TEXT,
+          created_at     TEXT NOT NULL,
+          updated_at     TEXT NOT NULL,
+          completed_at   TEXT
+        );
+
+        INSERT INTO tasks_unified (id, user_id, title, tags, created_at, updated_at)
+          SELECT id, user_id, content,
+                 CASE WHEN json_valid(display_data)
+                      THEN CASE WHEN json_type(display_data, '$.tags') = 'array'
+                                THEN json_extract(display_data, '$.tags') ELSE '[]' END
+                      ELSE '[]' END,
+                 created_at, created_at
+          FROM tasks;
+
+        DROP TABLE tasks;
+        ALTER TABLE tasks_unified RENAME TO tasks;
+        CREATE INDEX idx_tasks_user ON tasks(user_id, created_at);
+        CREATE INDEX idx_tasks_parent ON tasks(parent_id);
+      `);
+    },
+  },
+  {
+    version: 14,
+    name: 'sealed user text',
+    up: (db) => {
+      // User text is sealed column by column from now on (see "Sealed columns" below); what
+      // is here stays plain until its owner signs in (createPlaintextRepository). The
+      // full-text copy goes for good: it is rebuilt in memory for the user who searches.
+      // Vectors are embedded again from the sealed texts. Conversations and index items of
+      // no profile could never be opened, so never sealed, by anyone.
+      db.exec(`
+        DROP TRIGGER index_items_fts_insert;
+        DROP TRIGGER index_items_fts_delete;
+        DROP TRIGGER index_items_fts_update;
+        DROP TABLE search_fts;
+
+        DELETE FROM index_chunks;
+        DELETE FROM index_items WHERE user_id = '';
+        DELETE FROM conversations WHERE user_id = '';
+
+        ALTER TABLE user_keys ADD COLUMN public_key BLOB;
+        ALTER TABLE user_keys ADD COLUMN private_key BLOB;
+        ALTER TABLE household_members ADD COLUMN wrapped_key BLOB;
+      `);
+    },
+  },
+];
+
+/**
+ * Apply every migration newer than the database's `user_version`.
+ * Each migration runs in its own transaction so a failure leaves the schema at the
+ * last good version. Returns the resulting schema version.
+ */
+export function migrate(db: Db, list: Migration[] = migrations): number {
+  const current = db.pragma('user_version', { simple: true }) as number;
+  const pending = [...list].filter((m) => m.version > current).sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    const apply = db.transaction(() => {
+      migration.up(db);
+      db.pragma(`user_version = ${migration.version}`);
+    });
+    try {
+      apply();
+    } catch (err) {
+      throw new Error(
+        `Database migration ${migration.version} (${migration.name}) failed: ${(err as Error).message}`
+      );
+    }
+  }
+
+  return db.pragma('user_version', { simple: true }) as number;
+}
+
+/**
+ * Open (or create) a database and bring its schema up to date.
+ *
+ * @param filename Path to the database file, or ':memory:' for an in-memory database.
+ */
+export function openDatabase(filename = ':memory:'): Db {
+  const db = new Database(filename);
+  if (filename !== ':memory:') {
+    db.pragma('journal_mode = WAL');
+  }
+  db.pragma('foreign_keys = ON');
+  // Deleted and replaced rows are overwritten, so no plain text is left behind in free pages
+  db.pragma('secure_delete = ON');
+  // Temporary tables (the signed-in user's full-text table) never reach the disk
+  db.pragma('temp_store = MEMORY');
+  migrate(db);
+  return db;
+}
+
+/* -----------------------
+   Sealed columns
+   ----------------------- */
+
+/**
+ * The data key of `userId` (main/encryption.ts). Throws unless it is open, i.e. unless
+ * `userId` is signed in and unlocked (main/user-data.ts).
+ */
+export type DataKeyLookup = (userId: string) => Buffer;
+
+/** For repositories that never open a sealed column (tests of the others). */
+const noDataKeys: DataKeyLookup = () => {
+  throw new Error('No data key is open.');
+};
+
+/**
+ * A column of user text: sealed with its owner's data key, or plain text in a row written
+ * before migration 14 and not sealed yet (see `createPlaintextRepository`).
+ */
+type Sealed = Buffer | string;
+
+/**
+ * Associated data for one sealed column, so a value cannot be moved to another row or column.
+ * `owner` is whose key seals it: a user, or a household list.
+ */
+const cellAad = (table: string, owner: string, rowId: string, column: string) =>
+  `gidit:${table}:${owner}:${rowId}:${column}`;
+
+function openText(key: Buffer, value: Sealed, aad: string): string {
+  return typeof value === 'string' ? value : unseal(key, value, aad).toString('utf8');
+}
+
+/** `seal` and `openText` for the columns of one row. */
+function rowCells(key: Buffer, table: string, owner: string, rowId: string) {
+  const aad = (column: string) => cellAad(table, owner, rowId, column);
+  return {
+    seal: (column: string, value: Buffer | string) => seal(key, value, aad(column)),
+    sealNullable: (column: string, text: string | null) => (text === null ? null : seal(key, text, aad(column))),
+    open: (column: string, value: Sealed) => openText(key, value, aad(column)),
+    openBytes: (column: string, value: Buffer) => unseal(key, value, aad(column)),
+    openNullable: (column: string, value: Sealed | null) => (value === null ? null : openText(key, value, aad(column))),
+  };
+}
+
+/* -----------------------
+   Users
+   ----------------------- */
+
+export interface UserRecord {
+  id: string;
+  username: string;
+  email: string | null;
+  passwordHash: string;
+  createdAt: string;
+  /** Profile look; null until the user picks one (main/profiles.ts fills in defaults). */
+  displayName: string | null;
+  avatar: string | null;
+  color: string | null;
+  /** argon2 hash of the screen-lock PIN; null when none is set. */
+  pinHash: string | null;
+}
+
+export type ProfileUpdates = Partial<Pick<UserRecord, 'displayName' | 'avatar' | 'color'>>;
+
+type UserRow = {
+  id: string;
+  username: string;
+  email: string | null;
+  password_hash: string;
+  created_at: string;
+  display_name: string | null;
+  avatar: string | null;
+  color: string | null;
+  pin_hash: string | null;
+};
+
+const toUser = (row: UserRow): UserRecord => ({
+  id: row.id,
+  username: row.username,
+  email: row.email,
+  passwordHash: row.password_hash,
+  createdAt: row.created_at,
+  displayName: row.display_name,
+  avatar: row.avatar,
+  color: row.color,
+  pinHash: row.pin_hash,
+});
+
+export function createUserRepository(db: Db) {
+  const insert = db.prepare(
+    'INSERT INTO users (id, username, email, password_hash, created_at) VALUES (?, ?, ?, ?, ?)'
+  );
+  const byId = db.prepare('SELECT * FROM users WHERE id = ?');
+  const byUsername = db.prepare('SELECT * FROM users WHERE username = ?');
+  const all = db.prepare('SELECT * FROM users ORDER BY created_at');
+  const setPassword = db.prepare('UPDATE users SET password_hash = ? WHERE id = ?');
+  const setProfile = db.prepare('UPDATE users SET display_name = ?, avatar = ?, color = ? WHERE id = ?');
+  const setPin = db.prepare('UPDATE users SET pin_hash = ? WHERE id = ?');
+  const remove = db.prepare('DELETE FROM users WHERE id = ?');
+
+  return {
+    create(input: { username: string; email?: string | null; passwordHash: string }): UserRecord {
+      const user: UserRecord = {
+        id: randomUUID(),
+        username: input.username,
+        email: input.email ?? null,
+        passwordHash: input.passwordHash,
+        createdAt: new Date().toISOString(),
+        displayName: null,
+        avatar: null,
+        color: null,
+        pinHash: null,
+      };
+      insert.run(user.id, user.username, user.email, user.passwordHash, user.createdAt);
+      return user;
+    },
+    findById(id: string): UserRecord | null {
+      const row = byId.get(id) as UserRow | undefined;
+      return row ? toUser(row) : null;
+    },
+    findByUsername(username: string): UserRecord | null {
+      const row = byUsername.get(username) as UserRow | undefined;
+      return row ? toUser(row) : null;
+    },
+    list(): UserRecord[] {
+      return (all.all() as UserRow[]).map(toUser);
+    },
+    updatePasswordHash(id: string, passwordHash: string): boolean {
+      return setPassword.run(passwordHash, id).changes > 0;
+    },
+    updatePinHash(id: string, pinHash: string | null): boolean {
+      return setPin.run(pinHash, id).changes > 0;
+    },
+    /** Returns null when the user does not exist. */
+    updateProfile(id: string, updates: ProfileUpdates): UserRecord | null {
+      const row = byId.get(id) as UserRow | undefined;
+      if (!row) return null;
+      const next = { ...toUser(row), ...updates };
+      setProfile.run(next.displayName, next.avatar, next.color, id);
+      return next;
+    },
+    delete(id: string): boolean {
+      return remove.run(id).changes > 0;
+    },
+  };
+}
+
+export type UserRepository = ReturnType<typeof createUserRepository>;
+
+/* -----------------------
+   Sessions
+   ----------------------- */
+
+export interface SessionRecord {
+  /** SHA-256 of the session token; the token itself is never stored. */
+  tokenHash: string;
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/** Failed sign-ins for a username, known or not. */
+export interface LoginAttempts {
+  username: string;
+  failures: number;
+  lastFailureAt: string;
+  lockedUntil: string | null;
+}
+
+type SessionRow = { token_hash: string; user_id: string; created_at: string; expires_at: string };
+type LoginAttemptsRow = { username: string; failures: number; last_failure_at: string; locked_until: string | null };
+
+const toSession = (row: SessionRow): SessionRecord => ({
+  tokenHash: row.token_hash,
+  userId: row.user_id,
+  createdAt: row.created_at,
+  expiresAt: row.expires_at,
+});
+
+/** Sessions of signed-in users, and the failure counts behind the sign-in lockout (main/auth.ts). */
+export function createSessionRepository(db: Db) {
+  const insert = db.prepare('INSERT INTO sessions (token_hash, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)');
+  const byHash = db.prepare('SELECT * FROM sessions WHERE token_hash = ?');
+  const latestValid = db.prepare('SELECT * FROM sessions WHERE expires_at > ? ORDER BY created_at DESC LIMIT 1');
+  const setExpiry = db.prepare('UPDATE sessions SET expires_at = ? WHERE token_hash = ?');
+  const remove = db.prepare('DELETE FROM sessions WHERE token_hash = ?');
+  const removeAll = db.prepare('DELETE FROM sessions');
+  const removeExpired = db.prepare('DELETE FROM sessions WHERE expires_at <= ?');
+  const attemptsFor = db.prepare('SELECT * FROM login_attempts WHERE username = ?');
+  const saveAttempts = db.prepare(
+    `INSERT INTO login_attempts (username, failures, last_failure_at, locked_until) VALUES (?, ?, ?, ?)
+     ON CONFLICT(username) DO UPDATE SET
+       failures = excluded.failures, last_failure_at = excluded.last_failure_at, locked_until = excluded.locked_until`
+  );
+  const clearAttempts = db.prepare('DELETE FROM login_attempts WHERE username = ?');
+
+  return {
+    create(session: SessionRecord): SessionRecord {
+      insert.run(session.tokenHash, session.userId, session.createdAt, session.expiresAt);
+      return session;
+    },
+    find(tokenHash: string): SessionRecord | null {
+      const row = byHash.get(tokenHash) as SessionRow | undefined;
+      return row ? toSession(row) : null;
+    },
+    /** The newest session still valid at `now` (ISO). */
+    latestValid(now: string): SessionRecord | null {
+      const row = latestValid.get(now) as SessionRow | undefined;
+      return row ? toSession(row) : null;
+    },
+    extend(tokenHash: string, expiresAt: string): boolean {
+      return setExpiry.run(expiresAt, tokenHash).changes > 0;
+    },
+    delete(tokenHash: string): boolean {
+      return remove.run(tokenHash).changes > 0;
+    },
+    /** Every session, e.g. before a new sign-in; the app has one signed-in user at a time. */
+    deleteAll(): void {
+      removeAll.run();
+    },
+    deleteExpired(now: string): number {
+      return removeExpired.run(now).changes;
+    },
+    attempts(username: string): LoginAttempts | null {
+      const row = attemptsFor.get(username) as LoginAttemptsRow | undefined;
+      return row
+        ? { username: row.username, failures: row.failures, lastFailureAt: row.last_failure_at, lockedUntil: row.locked_until }
+        : null;
+    },
+    saveAttempts(attempts: LoginAttempts): void {
+      saveAttempts.run(attempts.username, attempts.failures, attempts.lastFailureAt, attempts.lockedUntil);
+    },
+    clearAttempts(username: string): void {
+      clearAttempts.run(username);
+    },
+  };
+}
+
+export type SessionRepository = ReturnType<typeof createSessionRepository>;
+
+/* -----------------------
+   Encrypted user data
+   ----------------------- */
+
+/** A user's data key, sealed with a key derived from their password (main/encryption.ts). */
+export interface UserKeyRecord {
+  userId: string;
+  /** Key derivation and its parameters, e.g. 'argon2id;m=65536;t=3;p=1'. */
+  kdf: string;
+  salt: Buffer;
+  wrappedKey: Buffer;
+  updatedAt: string;
+}
+
+type UserKeyRow = { user_id: string; kdf: string; salt: Buffer; wrapped_key: Buffer; updated_at: string };
+
+/** The data key sealed with a key derived from one of the user's recovery codes (main/auth.ts). */
+export interface RecoveryCodeRecord {
+  id: string;
+  userId: string;
+  salt: Buffer;
+  wrappedKey: Buffer;
+  /** When the code was used to reset the password; a used code opens nothing any more. */
+  usedAt: string | null;
+  createdAt: string;
+}
+
+type RecoveryCodeRow = {
+  id: string;
+  user_id: string;
+  salt: Buffer;
+  wrapped_key: Buffer;
+  used_at: string | null;
+  created_at: string;
+};
+
+const toRecoveryCode = (row: RecoveryCodeRow): RecoveryCodeRecord => ({
+  id: row.id,
+  userId: row.user_id,
+  salt: row.salt,
+  wrappedKey: row.wrapped_key,
+  usedAt: row.used_at,
+  createdAt: row.created_at,
+});
+
+/**
+ * Per-user values sealed with the user's data key, and the wrapped keys themselves (for the
+ * password and for each recovery code). Values are opaque here; encryption and decryption
+ * happen in main/user-data.ts.
+ */
+export function createUserDataRepository(db: Db) {
+  const keyFor = db.prepare('SELECT * FROM user_keys WHERE user_id = ?');
+  const upsertKey = db.prepare(
+    `INSERT INTO user_keys (user_id, kdf, salt, wrapped_key, updated_at) VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(user_id) DO UPDATE SET
+       kdf = excluded.kdf, salt = excluded.salt, wrapped_key = excluded.wrapped_key, updated_at = excluded.updated_at`
+  );
+  const setPassword = db.prepare('UPDATE users SET password_hash = ? WHERE id = ?');
+  const read = db.prepare('SELECT value FROM user_data WHERE user_id = ? AND key = ?');
+  const upsert = db.prepare(
+    `INSERT INTO user_data (user_id, key, value, updated_at) VALUES (?, ?, ?, ?)
+     ON CONFLICT(user_id, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`
+  );
+  const remove = db.prepare('DELETE FROM user_data WHERE user_id = ? AND key = ?');
+  const removeAll = db.prepare('DELETE FROM user_data');
+  const removeForUser = db.prepare('DELETE FROM user_data WHERE user_id = ?');
+  const unusedCodes = db.prepare('SELECT * FROM recovery_codes WHERE user_id = ? AND used_at IS NULL ORDER BY created_at');
+  const insertCode = db.prepare(
+    'INSERT INTO recovery_codes (id, user_id, salt, wrapped_key, used_at, created_at) VALUES (?, ?, ?, ?, NULL, ?)'
+  );
+  const removeCodes = db.prepare('DELETE FROM recovery_codes WHERE user_id = ?');
+  const markCodeUsed = db.prepare('UPDATE recovery_codes SET used_at = ? WHERE id = ? AND used_at IS NULL');
+  const publicKeyOf = db.prepare('SELECT public_key FROM user_keys WHERE user_id = ?');
+  const setKeyPair = db.prepare('UPDATE user_keys SET public_key = ?, private_key = ? WHERE user_id = ?');
+
+  const saveKey = (key: Omit<UserKeyRecord, 'updatedAt'>) => {
+    upsertKey.run(key.userId, key.kdf, key.salt, key.wrappedKey, new Date().toISOString());
+  };
+  const savePassword = db.transaction((passwordHash: string, key: Omit<UserKeyRecord, 'updatedAt'>) => {
+    setPassword.run(passwordHash, key.userId);
+    saveKey(key);
+  });
+  const replaceRecoveryCodes = db.transaction(
+    (userId: string, codes: Array<Pick<RecoveryCodeRecord, 'salt' | 'wrappedKey'>>) => {
+      removeCodes.run(userId);
+      const createdAt = new Date().toISOString();
+      for (const code of codes) insertCode.run(randomUUID(), userId, code.salt, code.wrappedKey, createdAt);
+    }
+  );
+  const recoverPassword = db.transaction(
+    (codeId: string, passwordHash: string, key: Omit<UserKeyRecord, 'updatedAt'>): boolean => {
+      if (markCodeUsed.run(new Date().toISOString(), codeId).changes === 0) return false;
+      setPassword.run(passwordHash, key.userId);
+      saveKey(key);
+      return true;
+    }
+  );
+
+  return {
+    key(userId: string): UserKeyRecord | null {
+      const row = keyFor.get(userId) as UserKeyRow | undefined;
+      return row
+        ? { userId: row.user_id, kdf: row.kdf, salt: row.salt, wrappedKey: row.wrapped_key, updatedAt: row.updated_at }
+        : null;
+    },
+    saveKey,
+    /** New password hash and the data key wrapped for it, together or not at all. */
+    savePassword(passwordHash: string, key: Omit<UserKeyRecord, 'updatedAt'>): void {
+      savePassword(passwordHash, key);
+    },
+    /** The user's recovery codes that were not used yet. */
+    recoveryCodes(userId: string): RecoveryCodeRecord[] {
+      return (unusedCodes.all(userId) as RecoveryCodeRow[]).map(toRecoveryCode);
+    },
+    /** Replace every recovery code of the user, used or not, with `codes`. */
+    replaceRecoveryCodes(userId: string, codes: Array<Pick<RecoveryCodeRecord, 'salt' | 'wrappedKey'>>): void {
+      replaceRecoveryCodes(userId, codes);
+    },
+    /**
+     * Use up a recovery code and save the new password with the data key wrapped for it, all
+     * or nothing. False when the code was used in the meantime; nothing is saved then.
+     */
+    recoverPassword(codeId: string, passwordHash: string, key: Omit<UserKeyRecord, 'updatedAt'>): boolean {
+      return recoverPassword(codeId, passwordHash, key);
+    },
+    hasKeyPair(userId: string): boolean {
+      const row = publicKeyOf.get(userId) as { public_key: Buffer | null } | undefined;
+      return !!row?.public_key;
+    },
+    /**
+     * The user's key pair for shared household lists, the private key sealed with their data
+     * key; saved next to the data key, so only once that is.
+     */
+    saveKeyPair(userId: string, publicKey: Buffer, sealedPrivateKey: Buffer): void {
+      setKeyPair.run(publicKey, sealedPrivateKey, userId);
+    },
+    get(userId: string, key: string): Buffer | null {
+      const row = read.get(userId, key) as { value: Buffer } | undefined;
+      return row?.value ?? null;
+    },
+    set(userId: string, key: string, value: Buffer | null): void {
+      if (value === null) {
+        remove.run(userId, key);
+      } else {
+        upsert.run(userId, key, value, new Date().toISOString());
+      }
+    },
+    /** One user's values, or everyone's without `userId`; the keys stay so accounts can still sign in. */
+    clear(userId?: string): void {
+      if (userId === undefined) removeAll.run();
+      else removeForUser.run(userId);
+    },
+  };
+}
+
+export type UserDataRepository = ReturnType<typeof createUserDataRepository>;
+
+/* -----------------------
+   Tasks
+   ----------------------- */
+
+export type { TaskRecord };
+
+export type NewTask = TaskFields;
+export type TaskUpdates = Partial<TaskFields>;
+
+type TaskRow = {
+  id: string;
+  user_id: string;
+  title: Sealed;
+  notes: Sealed;
+  status: TaskStatus;
+  priority: TaskPriority;
+  due_date: string | null;
+  scheduled_date: string | null;
+  scheduled_time: string | null;
+  quadrant: TaskQuadrant | null;
+  board_column: string | null;
+  tags: Sealed;
+  estimate: number | null;
+  parent_id: string | null;
+  project: Sealed | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+};
+
+function parseJsonObject(text: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function toTask(row: TaskRow, key: Buffer): TaskRecord {
+  const cells = rowCells(key, 'task', row.user_id, row.id);
+  return {
+    id: row.id,
+    userId: row.user_id,
+    title: cells.open('title', row.title),
+    notes: cells.open('notes', row.notes),
+    status: row.status,
+    priority: row.priority,
+    dueDate: row.due_date,
+    scheduledDate: row.scheduled_date,
+    scheduledTime: row.scheduled_time,
+    quadrant: row.quadrant,
+    column: row.board_column,
+    tags: parseJsonArray(cells.open('tags', row.tags)).filter((tag): tag is string => typeof tag === 'string'),
+    estimate: row.estimate,
+    parentId: row.parent_id,
+    project: cells.openNullable('project', row.project),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    completedAt: row.completed_at,
+  };
+}
+
+/** Titles, notes, tags and projects are sealed with the owner's data key. */
+export function createTaskRepository(db: Db, dataKey: DataKeyLookup = noDataKeys) {
+  const insert = db.prepare(`
+    INSERT INTO tasks (id, user_id, title, notes, status, priority, due_date, scheduled_date, scheduled_time,
+                       quadrant, board_column, tags, estimate, parent_id, project, created_at, updated_at, completed_at)
+    VALUES (@id, @user_id, @title, @notes, @status, @priority, @due_date, @scheduled_date, @scheduled_time,
+            @quadrant, @board_column, @tags, @estimate, @parent_id, @project, @created_at, @updated_at, @completed_at)
+  `);
+  const byId = db.prepare('SELECT * FROM tasks WHERE id = ?');
+  const byUser = db.prepare('SELECT * FROM tasks WHERE user_id = ? ORDER BY created_at');
+  const byParent = db.prepare('SELECT * FROM tasks WHERE parent_id = ? ORDER BY created_at');
+  const ownerOf = db.prepare('SELECT user_id FROM tasks WHERE id = ?');
+  const plainOf = db.prepare("SELECT * FROM tasks WHERE user_id = ? AND typeof(title) = 'text'");
+  const write = db.prepare(`
+    UPDATE tasks SET title = @title, notes = @notes, status = @status, priority = @priority,
+                     due_date = @due_date, scheduled_date = @scheduled_date, scheduled_time = @scheduled_time,
+                     quadrant = @quadrant, board_column = @board_column, tags = @tags, estimate = @estimate,
+                     parent_id = @parent_id, project = @project, updated_at = @updated_at, completed_at = @completed_at
+    WHERE id = @id
+  `);
+  const remove = db.prepare('DELETE FROM tasks WHERE id = ?');
+  const removeAll = db.prepare('DELETE FROM tasks');
+  const removeForUser = db.prepare('DELETE FROM tasks WHERE user_id = ?');
+
+  const toRow = (task: TaskRecord): TaskRow => {
+    const cells = rowCells(dataKey(task.userId), 'task', task.userId, task.id);
+    return {
+      id: task.id,
+      user_id: task.userId,
+      title: cells.seal('title', task.title),
+      notes: cells.seal('notes', task.notes),
+      status: task.status,
+      priority: task.priority,
+      due_date: task.dueDate,
+      scheduled_date: task.scheduledDate,
+      scheduled_time: task.scheduledTime,
+      quadrant: task.quadrant,
+      board_column: task.column,
+      tags: cells.seal('tags', JSON.stringify(task.tags)),
+      estimate: task.estimate,
+      parent_id: task.parentId,
+      project: cells.sealNullable('project', task.project),
+      created_at: task.createdAt,
+      updated_at: task.updatedAt,
+      completed_at: task.completedAt,
+    };
+  };
+  const open = (row: TaskRow) => toTask(row, dataKey(row.user_id));
+
+  const findById = (id: string): TaskRecord | null => {
+    const row = byId.get(id) as TaskRow | undefined;
+    return row ? open(row) : null;
+  };
+
+  return {
+    getForUser(userId: string): TaskRecord[] {
+      return (byUser.all(userId) as TaskRow[]).map(open);
+    },
+    /** Who a task belongs to, without opening it; null when it does not exist. */
+    ownerOf(id: string): string | null {
+      const row = ownerOf.get(id) as { user_id: string } | undefined;
+      return row?.user_id ?? null;
+    },
+    findById,
+    /** The tasks that are steps of `parentId`. */
+    children(parentId: string): TaskRecord[] {
+      return (byParent.all(parentId) as TaskRow[]).map(open);
+    },
+    add(userId: string, task: NewTask): TaskRecord {
+      const now = new Date().toISOString();
+      const record: TaskRecord = {
+        ...task,
+        id: randomUUID(),
+        userId,
+        createdAt: now,
+        updatedAt: now,
+        completedAt: task.status === 'done' ? now : null,
+      };
+      insert.run(toRow(record));
+      return record;
+    },
+    /**
+     * Apply a partial update; `completedAt` follows the status. Returns null when the task
+     * does not exist.
+     */
+    update(id: string, updates: TaskUpdates): TaskRecord | null {
+      const existing = findById(id);
+      if (!existing) return null;
+      const now = new Date().toISOString();
+      const next: TaskRecord = { ...existing, ...updates, updatedAt: now };
+      if (next.status !== 'done') next.completedAt = null;
+      else if (existing.status !== 'done') next.completedAt = now;
+      write.run(toRow(next));
+      return next;
+    },
+    delete(id: string): boolean {
+      return remove.run(id).changes > 0;
+    },
+    /** One user's tasks, or everyone's without `userId`. */
+    clear(userId?: string): void {
+      if (userId === undefined) removeAll.run();
+      else removeForUser.run(userId);
+    },
+    /** Seal the user's tasks written before migration 14; returns how many there were. */
+    sealPlaintext(userId: string): number {
+      const rows = plainOf.all(userId) as TaskRow[];
+      for (const row of rows) write.run(toRow(open(row)));
+      return rows.length;
+    },
+  };
+}
+
+export type TaskRepository = ReturnType<typeof createTaskRepository>;
+
+/* -----------------------
+   Settings
+   ----------------------- */
+
+/**
+ * Key/value settings. Values are stored as strings (the renderer already serialises
+ * objects with JSON.stringify). An empty userId means an app-wide setting.
+ */
+export function createSettingsRepository(db: Db) {
+  const read = db.prepare('SELECT value FROM settings WHERE user_id = ? AND key = ?');
+  const upsert = db.prepare(
+    `INSERT INTO settings (user_id, key, value) VALUES (?, ?, ?)
+     ON CONFLICT(user_id, key) DO UPDATE SET value = excluded.value`
+  );
+  const remove = db.prepare('DELETE FROM settings WHERE user_id = ? AND key = ?');
+  const all = db.prepare('SELECT key, value FROM settings WHERE user_id = ?');
+  const removeAll = db.prepare('DELETE FROM settings');
+  const removeForUser = db.prepare('DELETE FROM settings WHERE user_id = ?');
+
+  return {
+    get(key: string, userId = ''): string | null {
+      const row = read.get(userId, key) as { value: string | null } | undefined;
+      return row?.value ?? null;
+    },
+    set(key: string, value: string | null, userId = ''): void {
+      if (value === null) {
+        remove.run(userId, key);
+      } else {
+        upsert.run(userId, key, value);
+      }
+    },
+    all(userId = ''): Record<string, string | null> {
+      const rows = all.all(userId) as Array<{ key: string; value: string | null }>;
+      return Object.fromEntries(rows.map((r) => [r.key, r.value]));
+    },
+    /** One user's settings ('' for the app-wide ones), or all of them without `userId`. */
+    clear(userId?: string): void {
+      if (userId === undefined) removeAll.run();
+      else removeForUser.run(userId);
+    },
+  };
+}
+
+export type SettingsRepository = ReturnType<typeof createSettingsRepository>;
+
+/* -----------------------
+   Conversations
+   ----------------------- */
+
+export type { ChatMessageRecord, ConversationRecord, ConversationSearchHit, ToolCallRecord };
+
+export type NewToolCall = Pick<ToolCallRecord, 'name' | 'args' | 'summary'>;
+
+type ConversationRow = {
+  id: string;
+  user_id: string;
+  title: Sealed;
+  summary: Sealed | null;
+  summarized_count: number;
+  created_at: string;
+  updated_at: string;
+};
+
+type MessageRow = {
+  id: string;
+  conversation_id: string;
+  role: 'user' | 'assistant';
+  content: Sealed;
+  citations: Sealed;
+  created_at: string;
+};
+
+type ToolCallRow = {
+  id: string;
+  message_id: string;
+  conversation_id: string;
+  name: string;
+  args: Sealed;
+  summary: Sealed;
+  status: ToolCallStatus;
+  result: Sealed | null;
+  error: Sealed | null;
+  created_at: string;
+};
+
+/** Characters of context kept on each side of a search match. */
+const SNIPPET_RADIUS = 40;
+
+function toConversation(row: ConversationRow, key: Buffer): ConversationRecord {
+  const cells = rowCells(key, 'conversation', row.user_id, row.id);
+  return {
+    id: row.id,
+    userId: row.user_id,
+    title: cells.open('title', row.title),
+    summary: cells.openNullable('summary', row.summary),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toMessage(row: MessageRow, key: Buffer, userId: string, toolCalls: ToolCallRecord[] = []): ChatMessageRecord {
+  const cells = rowCells(key, 'message', userId, row.id);
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    role: row.role,
+    content: cells.open('content', row.content),
+    toolCalls,
+    citations: parseJsonArray(cells.open('citations', row.citations)) as Citation[],
+    createdAt: row.created_at,
+  };
+}
+
+function parseJsonValue(text: string | null): unknown {
+  if (text === null) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+function parseJsonArray(text: string): unknown[] {
+  const parsed = parseJsonValue(text);
+  return Array.isArray(parsed) ? parsed : [];
+}
+
+function toToolCall(row: ToolCallRow, key: Buffer, userId: string): ToolCallRecord {
+  const cells = rowCells(key, 'tool-call', userId, row.id);
+  return {
+    id: row.id,
+    messageId: row.message_id,
+    conversationId: row.conversation_id,
+    name: row.name,
+    args: parseJsonObject(cells.open('args', row.args)),
+    summary: cells.open('summary', row.summary),
+    status: row.status,
+    result: parseJsonValue(cells.openNullable('result', row.result)),
+    error: cells.openNullable('error', row.error),
+    createdAt: row.created_at,
+  };
+}
+
+function snippetAround(text: string, query: string): string {
+  const at = text.toLowerCase().indexOf(query.toLowerCase());
+  if (at === -1) return text.slice(0, SNIPPET_RADIUS * 2);
+  const start = Math.max(0, at - SNIPPET_RADIUS);
+  const end = Math.min(text.length, at + query.length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Conversations and their messages. Messages are append-only; `summary` and
+ * `summarizedCount` record how much of the oldest history has been folded into a
+ * summary for the prompt (see main/chat.ts). The full history is always kept for display.
+ * Tool calls belong to the assistant message that proposed them; only their status,
+ * result and error change afterwards.
+ *
+ * Titles, summaries, message texts and citations and everything of a tool call but its name
+ * are sealed with the owner's data key, so search opens them to match instead of SQL.
+ */
+export function createConversationRepository(db: Db, dataKey: DataKeyLookup = noDataKeys) {
+  const insert = db.prepare(
+    'INSERT INTO conversations (id, user_id, title, created_at, updated_at) VALUES (?, ?, ?, ?, ?)'
+  );
+  const byId = db.prepare('SELECT * FROM conversations WHERE id = ?');
+  const byUser = db.prepare('SELECT * FROM conversations WHERE user_id = ? ORDER BY updated_at DESC');
+  const ownerOf = db.prepare('SELECT user_id FROM conversations WHERE id = ?');
+  const plainOf = db.prepare(
+    "SELECT * FROM conversations WHERE user_id = ? AND (typeof(title) = 'text' OR typeof(summary) = 'text')"
+  );
+  const setTitle = db.prepare('UPDATE conversations SET title = ? WHERE id = ?');
+  const setSummary = db.prepare('UPDATE conversations SET summary = ?, summarized_count = ? WHERE id = ?');
+  const touch = db.prepare('UPDATE conversations SET updated_at = ? WHERE id = ?');
+  const remove = db.prepare('DELETE FROM conversations WHERE id = ?');
+  const removeAll = db.prepare('DELETE FROM conversations');
+  const removeForUser = db.prepare('DELETE FROM conversations WHERE user_id = ?');
+  const insertMessage = db.prepare(
+    'INSERT INTO messages (id, conversation_id, role, content, citations, created_at) VALUES (?, ?, ?, ?, ?, ?)'
+  );
+  const messagesOf = db.prepare('SELECT * FROM messages WHERE conversation_id = ? ORDER BY created_at, rowid');
+  const plainMessagesOf = db.prepare(`
+    SELECT m.* FROM messages m JOIN conversations c ON c.id = m.conversation_id
+    WHERE c.user_id = ? AND typeof(m.content) = 'text'
+  `);
+  const sealMessage = db.prepare('UPDATE messages SET content = ?, citations = ? WHERE id = ?');
+  const insertToolCall = db.prepare(
+    `INSERT INTO tool_calls (id, message_id, conversation_id, name, args, summary, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  );
+  const toolCallById = db.prepare('SELECT * FROM tool_calls WHERE id = ?');
+  const toolCallsOf = db.prepare('SELECT * FROM tool_calls WHERE conversation_id = ? ORDER BY created_at, rowid');
+  const plainToolCallsOf = db.prepare(`
+    SELECT t.* FROM tool_calls t JOIN conversations c ON c.id = t.conversation_id
+    WHERE c.user_id = ?
+      AND (typeof(t.args) = 'text' OR typeof(t.summary) = 'text' OR typeof(t.result) = 'text' OR typeof(t.error) = 'text')
+  `);
+  const settleToolCall = db.prepare('UPDATE tool_calls SET status = ?, result = ?, error = ? WHERE id = ?');
+  const sealToolCall = db.prepare('UPDATE tool_calls SET args = ?, summary = ?, result = ?, error = ? WHERE id = ?');
+
+  const ownerOfConversation = (id: string): string | null => {
+    const row = ownerOf.get(id) as { user_id: string } | undefined;
+    return row?.user_id ?? null;
+  };
+  const open = (row: ConversationRow) => toConversation(row, dataKey(row.user_id));
+
+  const findById = (id: string): ConversationRecord | null => {
+    const row = byId.get(id) as ConversationRow | undefined;
+    return row ? open(row) : null;
+  };
+
+  const findToolCall = (id: string): ToolCallRecord | null => {
+    const row = toolCallById.get(id) as ToolCallRow | undefined;
+    const userId = row ? ownerOfConversation(row.conversation_id) : null;
+    return row && userId !== null ? toToolCall(row, dataKey(userId), userId) : null;
+  };
+
+  /** The first of the conversation's messages that contains `needle`, lower-cased. */
+  const firstMatch = (conversationId: string, userId: string, key: Buffer, needle: string): string | null => {
+    for (const row of messagesOf.all(conversationId) as MessageRow[]) {
+      const content = rowCells(key, 'message', userId, row.id).open('content', row.content);
+      if (content.toLowerCase().includes(needle)) return content;
+    }
+    return null;
+  };
+
+  const messages = (conversationId: string): ChatMessageRecord[] => {
+    const userId = ownerOfConversation(conversationId);
+    if (userId === null) return [];
+    const key = dataKey(userId);
+    const calls = new Map<string, ToolCallRecord[]>();
+    for (const row of toolCallsOf.all(conversationId) as ToolCallRow[]) {
+      const call = toToolCall(row, key, userId);
+      calls.set(call.messageId, [...(calls.get(call.messageId) ?? []), call]);
+    }
+    return (messagesOf.all(conversationId) as MessageRow[]).map((row) => toMessage(row, key, userId, calls.get(row.id)));
+  };
+
+  const addMessage = db.transaction(
+    (input: {
+      conversationId: string;
+      role: ChatMessageRecord['role'];
+      content: string;
+      id?: string;
+      toolCalls?: NewToolCall[];
+      citations?: Citation[];
+    }): ChatMessageRecord => {
+      const userId = ownerOfConversation(input.conversationId);
+      if (userId === null) throw new Error(`No conversation ${input.conversationId}.`);
+      const key = dataKey(userId);
+      const createdAt = new Date().toISOString();
+      const id = input.id ?? randomUUID();
+      const citations = input.citations ?? [];
+      const cells = rowCells(key, 'message', userId, id);
+      insertMessage.run(
+        id,
+        input.conversationId,
+        input.role,
+        cells.seal('content', input.content),
+        cells.seal('citations', JSON.stringify(citations)),
+        createdAt
+      );
+
+      const toolCalls = (input.toolCalls ?? []).map(
+        (call): ToolCallRecord => ({
+          id: randomUUID(),
+          messageId: id,
+          conversationId: input.conversationId,
+          name: call.name,
+          args: call.args,
+          summary: call.summary,
+          status: 'proposed',
+          result: null,
+          error: null,
+          createdAt,
+        })
+      );
+      for (const call of toolCalls) {
+        const callCells = rowCells(key, 'tool-call', userId, call.id);
+        insertToolCall.run(
+          call.id,
+          id,
+          call.conversationId,
+          call.name,
+          callCells.seal('args', JSON.stringify(call.args)),
+          callCells.seal('summary', call.summary),
+          createdAt
+        );
+      }
+
+      touch.run(createdAt, input.conversationId);
+      return {
+        id,
+        conversationId: input.conversationId,
+        role: input.role,
+        content: input.content,
+        toolCalls,
+        citations,
+        createdAt,
+      };
+    }
+  );
+
+  return {
+    create(input: { userId: string; title: string }): ConversationRecord {
+      const now = new Date().toISOString();
+      const record: ConversationRecord = {
+        id: randomUUID(),
+        userId: input.userId,
+        title: input.title,
+        summary: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      const cells = rowCells(dataKey(record.userId), 'conversation', record.userId, record.id);
+      insert.run(record.id, record.userId, cells.seal('title', record.title), record.createdAt, record.updatedAt);
+      return record;
+    },
+    findById,
+    /** Who a conversation belongs to, without opening it; null when it does not exist. */
+    ownerOf: ownerOfConversation,
+    /** The conversation a tool call was proposed in; null when the call does not exist. */
+    conversationOf(toolCallId: string): string | null {
+      const row = toolCallById.get(toolCallId) as ToolCallRow | undefined;
+      return row?.conversation_id ?? null;
+    },
+    /** Newest first. */
+    list(userId: string): ConversationRecord[] {
+      return (byUser.all(userId) as ConversationRow[]).map(open);
+    },
+    /** Case-insensitive match on titles and message text, newest first. */
+    search(query: string, userId: string, limit = 50): ConversationSearchHit[] {
+      const key = dataKey(userId);
+      const needle = query.toLowerCase();
+      const hits: ConversationSearchHit[] = [];
+      for (const row of byUser.all(userId) as ConversationRow[]) {
+        if (hits.length >= limit) break;
+        const conversation = toConversation(row, key);
+        const match = firstMatch(row.id, userId, key, needle);
+        if (match !== null || conversation.title.toLowerCase().includes(needle)) {
+          hits.push({ conversation, snippet: match === null ? null : snippetAround(match, query) });
+        }
+      }
+      return hits;
+    },
+    rename(id: string, title: string): ConversationRecord | null {
+      const userId = ownerOfConversation(id);
+      if (userId === null) return null;
+      setTitle.run(rowCells(dataKey(userId), 'conversation', userId, id).seal('title', title), id);
+      return findById(id);
+    },
+    delete(id: string): boolean {
+      return remove.run(id).changes > 0;
+    },
+    messages,
+    /** Append a message (with any proposed tool calls and citations) and bump the conversation's `updatedAt`. */
+    addMessage,
+    findToolCall,
+    /** Record the outcome of a proposed tool call. Returns null when it does not exist. */
+    settleToolCall(
+      id: string,
+      outcome: { status: Exclude<ToolCallStatus, 'proposed'>; result?: unknown; error?: string | null }
+    ): ToolCallRecord | null {
+      const row = toolCallById.get(id) as ToolCallRow | undefined;
+      const userId = row ? ownerOfConversation(row.conversation_id) : null;
+      if (userId === null) return null;
+      const cells = rowCells(dataKey(userId), 'tool-call', userId, id);
+      const result = outcome.result === undefined ? null : JSON.stringify(outcome.result);
+      const error = outcome.error ?? null;
+      settleToolCall.run(outcome.status, cells.sealNullable('result', result), cells.sealNullable('error', error), id);
+      return findToolCall(id);
+    },
+    /** The prompt summary and how many of the oldest messages it covers. */
+    getSummary(id: string): { summary: string | null; summarizedCount: number } {
+      const row = byId.get(id) as ConversationRow | undefined;
+      if (!row) return { summary: null, summarizedCount: 0 };
+      return { summary: open(row).summary, summarizedCount: row.summarized_count };
+    },
+    setSummary(id: string, summary: string, summarizedCount: number): void {
+      const userId = ownerOfConversation(id);
+      if (userId === null) return;
+      const cells = rowCells(dataKey(userId), 'conversation', userId, id);
+      setSummary.run(cells.seal('summary', summary), summarizedCount, id);
+    },
+    /** One user's conversations, or everyone's without `userId`. */
+    clear(userId?: string): void {
+      if (userId === undefined) removeAll.run();
+      else removeForUser.run(userId);
+    },
+    /**
+     * Seal the user's conversations, messages and tool calls written before migration 14;
+     * returns how many rows there were.
+     */
+    sealPlaintext(userId: string): number {
+      const key = dataKey(userId);
+      const conversations = plainOf.all(userId) as ConversationRow[];
+      for (const row of conversations) {
+        const record = toConversation(row, key);
+        const cells = rowCells(key, 'conversation', userId, row.id);
+        setTitle.run(cells.seal('title', record.title), row.id);
+        setSummary.run(cells.sealNullable('summary', record.summary), row.summarized_count, row.id);
+      }
+      const plainMessages = plainMessagesOf.all(userId) as MessageRow[];
+      for (const row of plainMessages) {
+        const cells = rowCells(key, 'message', userId, row.id);
+        sealMessage.run(
+          cells.seal('content', cells.open('content', row.content)),
+          cells.seal('citations', cells.open('citations', row.citations)),
+          row.id
+        );
+      }
+      const toolCalls = plainToolCallsOf.all(userId) as ToolCallRow[];
+      for (const row of toolCalls) {
+        const cells = rowCells(key, 'tool-call', userId, row.id);
+        sealToolCall.run(
+          cells.seal('args', cells.open('args', row.args)),
+          cells.seal('summary', cells.open('summary', row.summary)),
+          cells.sealNullable('result', cells.openNullable('result', row.result)),
+          cells.sealNullable('error', cells.openNullable('error', row.error)),
+          row.id
+        );
+      }
+      return conversations.length + plainMessages.length + toolCalls.length;
+    },
+  };
+}
+
+export type ConversationRepository = ReturnType<typeof createConversationRepository>;
+
+/* -----------------------
+   Semantic index
+   ----------------------- */
+
+export interface IndexItem {
+  source: IndexSource;
+  id: string;
+  userId: string;
+  title: string;
+  text: string;
+  tags: string[];
+  /** ISO date-time. */
+  due: string | null;
+  /** The widget (usually its builder item id) that sent the item; null for DB tasks. */
+  scope: string | null;
+  location: WidgetLocation | null;
+  /** Hash of title and text, keyed with the owner's data key; vectors made from other content are stale. */
+  contentHash: string;
+  updatedAt: string;
+}
+
+export type NewIndexItem = Pick<IndexItem, 'source' | 'id' | 'title' | 'text'> &
+  Partial<Pick<IndexItem, 'userId' | 'tags' | 'due' | 'scope' | 'location'>>;
+
+/** Filters for `keywordSearch`; see main/search.ts for the query syntax behind them. */
+export interface KeywordSearchInput {
+  /** FTS5 MATCH expression; null lists the filtered items by due date. */
+  match: string | null;
+  sources: IndexSource[] | null;
+  /** Every tag must be present (case-insensitive). */
+  tags: string[] | null;
+  /** ISO bounds; `dueFrom` inclusive, `dueTo` exclusive. */
+  dueFrom: string | null;
+  dueTo: string | null;
+  userId: string;
+  perGroup: number;
+}
+
+export interface KeywordHit {
+  item: IndexItem;
+  /** Title with the matches marked (SEARCH_MATCH_START / SEARCH_MATCH_END). */
+  markedTitle: string;
+  snippet: string;
+  score: number;
+  /** Matches of the same source, including those beyond `perGroup`. */
+  groupTotal: number;
+}
+
+/** A passage of an item with its unit-length vector. */
+export interface IndexChunk {
+  source: IndexSource;
+  itemId: string;
+  title: string;
+  text: string;
+  vector: Float32Array;
+}
+
+type IndexItemRow = {
+  source: IndexSource;
+  item_id: string;
+  user_id: string;
+  title: Sealed;
+  text: Sealed;
+  tags: Sealed;
+  due: string | null;
+  scope: string | null;
+  page_id: string | null;
+  widget_item_id: string | null;
+  widget_id: string | null;
+  content_hash: string;
+  updated_at: string;
+};
+
+/** An item's texts, opened; `tags` as JSON. */
+type IndexItemTexts = { title: string; text: string; tags: string };
+
+type KeywordHitRow = Omit<IndexItemRow, keyof IndexItemTexts> &
+  IndexItemTexts & { marked_title: string; snippet: string; score: number; group_total: number };
+
+type IndexChunkRow = {
+  source: IndexSource;
+  item_id: string;
+  chunk: number;
+  title: Sealed;
+  text: Buffer;
+  vector: Buffer;
+};
+
+const toIndexItem = (row: Omit<IndexItemRow, keyof IndexItemTexts>, texts: IndexItemTexts): IndexItem => ({
+  source: row.source,
+  id: row.item_id,
+  userId: row.user_id,
+  title: texts.title,
+  text: texts.text,
+  tags: parseJsonArray(texts.tags).filter((tag): tag is string => typeof tag === 'string'),
+  due: row.due,
+  scope: row.scope,
+  location:
+    row.page_id || row.widget_item_id || row.widget_id
+      ? { pageId: row.page_id, itemId: row.widget_item_id, widgetId: row.widget_id }
+      : null,
+  contentHash: row.content_hash,
+  updatedAt: row.updated_at,
+});
+
+/** Trimmed, without duplicates (ignoring case), in the order given. */
+function normalizeTags(tags: string[] = []): string[] {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const raw of tags) {
+    const tag = raw.trim();
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    out.push(tag);
+  }
+  return out;
+}
+
+const contentHashOf = (key: Buffer, item: Pick<NewIndexItem, 'title' | 'text'>) =>
+  createHmac('sha256', key).update(item.title).update('\0').update(item.text).digest('hex');
+
+const itemCells = (key: Buffer, userId: string, source: IndexSource, itemId: string) =>
+  rowCells(key, 'index-item', userId, `${source}/${itemId}`);
+
+const chunkCells = (key: Buffer, userId: string, source: IndexSource, itemId: string, chunk: number) =>
+  rowCells(key, 'index-chunk', userId, `${source}/${itemId}/${chunk}`);
+
+/** Vectors are stored as little-endian float32, scaled to unit length so cosine = dot product. */
+function packVector(vector: number[]): Buffer {
+  const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0)) || 1;
+  return Buffer.from(Float32Array.from(vector, (x) => x / norm).buffer);
+}
+
+function unpackVector(blob: Buffer): Float32Array {
+  // Copy: the Buffer may not start on a 4-byte boundary.
+  return new Float32Array(Uint8Array.from(blob).buffer);
+}
+
+/**
+ * Texts of the items in the semantic index and their embedded chunks. Items are upserted
+ * whole; chunks are written per item and tagged with the embedder and content hash they
+ * were made from, so changed items and a switch of embedder both show up as `stale`.
+ *
+ * Titles, texts, tags, chunks and their vectors are sealed with the owner's data key. The
+ * full-text table for `keywordSearch` is a temporary one, kept in memory only: it holds the
+ * items of the one user who searched last, filled when they first search and kept up to date
+ * by `upsert` and `remove` until `forgetSearch` (at sign-out, see main/search.ts).
+ */
+export function createIndexRepository(db: Db, dataKey: DataKeyLookup = noDataKeys) {
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS temp.search_fts USING fts5(
+      source UNINDEXED,
+      item_id UNINDEXED,
+      title,
+      text,
+      tags,
+      tokenize = 'unicode61 remove_diacritics 2',
+      prefix = '2 3'
+    )
+  `);
+  const byKey = db.prepare('SELECT * FROM index_items WHERE source = ? AND item_id = ?');
+  const byUser = db.prepare('SELECT * FROM index_items WHERE user_id = ?');
+  const plainOf = db.prepare("SELECT * FROM index_items WHERE user_id = ? AND typeof(title) = 'text'");
+  const upsert = db.prepare(
+    `INSERT INTO index_items (source, item_id, user_id, title, text, tags, due, scope, page_id, widget_item_id,
+       widget_id, content_hash, updated_at)
+     VALUES (@source, @id, @userId, @title, @text, @tags, @due, @scope, @pageId, @itemId, @widgetId,
+       @contentHash, @updatedAt)
+     ON CONFLICT(source, item_id) DO UPDATE SET
+       user_id = excluded.user_id, title = excluded.title, text = excluded.text, tags = excluded.tags,
+       due = excluded.due, scope = excluded.scope, page_id = excluded.page_id,
+       widget_item_id = excluded.widget_item_id, widget_id = excluded.widget_id,
+       content_hash = excluded.content_hash, updated_at = excluded.updated_at`
+  );
+  const remove = db.prepare('DELETE FROM index_items WHERE source = ? AND item_id = ?');
+  const idsInScope = db.prepare('SELECT item_id FROM index_items WHERE scope = ? AND source = ?');
+  const keysInScope = db.prepare('SELECT source, item_id FROM index_items WHERE scope = ?');
+  const removeScope = db.prepare('DELETE FROM index_items WHERE scope = ?');
+  const count = db.prepare('SELECT COUNT(*) AS n FROM index_items');
+  const staleWhere = `
+    FROM index_items i
+    WHERE (@userId IS NULL OR i.user_id = @userId) AND NOT EXISTS (
+      SELECT 1 FROM index_chunks c
+      WHERE c.source = i.source AND c.item_id = i.item_id
+        AND c.embedder = @embedder AND c.content_hash = i.content_hash
+    )`;
+  const stale = db.prepare(`SELECT i.* ${staleWhere} ORDER BY i.updated_at LIMIT @limit`);
+  const countStale = db.prepare(`SELECT COUNT(*) AS n ${staleWhere}`);
+  const removeChunks = db.prepare('DELETE FROM index_chunks WHERE source = ? AND item_id = ?');
+  const insertChunk = db.prepare(
+    `INSERT INTO index_chunks (source, item_id, chunk, text, embedder, content_hash, vector)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  );
+  const chunksFor = db.prepare(`
+    SELECT c.source, c.item_id, c.chunk, i.title, c.text, c.vector
+    FROM index_chunks c
+    JOIN index_items i ON i.source = c.source AND i.item_id = c.item_id AND i.content_hash = c.content_hash
+    WHERE c.embedder = ? AND i.user_id = ?
+  `);
+  const removeAllChunks = db.prepare('DELETE FROM index_chunks');
+  const removeAll = db.prepare('DELETE FROM index_items');
+  const removeForUser = db.prepare('DELETE FROM index_items WHERE user_id = ?');
+  const insertFts = db.prepare('INSERT INTO search_fts (source, item_id, title, text, tags) VALUES (?, ?, ?, ?, ?)');
+  const removeFts = db.prepare('DELETE FROM search_fts WHERE source = ? AND item_id = ?');
+  const clearFts = db.prepare('DELETE FROM search_fts');
+
+  const searchFilters = `
+    i.user_id = @userId
+    AND (@sources IS NULL OR i.source IN (SELECT value FROM json_each(@sources)))
+    AND (@tags IS NULL OR NOT EXISTS (
+      SELECT 1 FROM json_each(@tags) wanted
+      WHERE NOT EXISTS (SELECT 1 FROM json_each(search_fts.tags) t WHERE lower(t.value) = wanted.value)
+    ))
+    AND (@dueFrom IS NULL OR i.due >= @dueFrom)
+    AND (@dueTo IS NULL OR i.due < @dueTo)`;
+  const hitColumns = `
+    i.source, i.item_id, i.user_id, i.due, i.scope, i.page_id, i.widget_item_id, i.widget_id, i.content_hash,
+    i.updated_at, search_fts.title, search_fts.text, search_fts.tags`;
+  // Title matches weigh most, then tags, then the text. Only the best `perGroup` hits of
+  // each source are returned; `group_total` still counts them all.
+  const searchText = db.prepare(`
+    SELECT * FROM (
+      SELECT *,
+        ROW_NUMBER() OVER (PARTITION BY source ORDER BY score DESC) AS n,
+        COUNT(*) OVER (PARTITION BY source) AS group_total
+      FROM (
+        SELECT ${hitColumns},
+          -bm25(search_fts, 0, 0, 10.0, 1.0, 4.0) AS score,
+          highlight(search_fts, 2, @start, @end) AS marked_title,
+          snippet(search_fts, 3, @start, @end, '…', 16) AS snippet
+        FROM search_fts
+        JOIN index_items i ON i.source = search_fts.source AND i.item_id = search_fts.item_id
+        WHERE search_fts MATCH @match AND ${searchFilters}
+      )
+    )
+    WHERE n <= @perGroup
+    ORDER BY score DESC
+  `);
+  // Filters only: soonest due first, then the most recently changed.
+  const searchFiltered = db.prepare(`
+    SELECT * FROM (
+      SELECT ${hitColumns}, 0 AS score, search_fts.title AS marked_title, substr(search_fts.text, 1, 160) AS snippet,
+        ROW_NUMBER() OVER (PARTITION BY i.source ORDER BY i.due IS NULL, i.due, i.updated_at DESC) AS n,
+        COUNT(*) OVER (PARTITION BY i.source) AS group_total
+      FROM index_items i
+      JOIN search_fts ON search_fts.source = i.source AND search_fts.item_id = i.item_id
+      WHERE ${searchFilters}
+    )
+    WHERE n <= @perGroup
+    ORDER BY due IS NULL, due, updated_at DESC
+  `);
+
+  /** Whose items `search_fts` holds, if anyone's. */
+  let searchOwner: string | null = null;
+
+  const open = (row: IndexItemRow): IndexItem => {
+    const cells = itemCells(dataKey(row.user_id), row.user_id, row.source, row.item_id);
+    return toIndexItem(row, {
+      title: cells.open('title', row.title),
+      text: cells.open('text', row.text),
+      tags: cells.open('tags', row.tags),
+    });
+  };
+
+  const addToSearch = (item: IndexItem) =>
+    insertFts.run(item.source, item.id, item.title, item.text, JSON.stringify(item.tags));
+
+  const loadSearch = db.transaction((userId: string) => {
+    const items = (byUser.all(userId) as IndexItemRow[]).map(open);
+    clearFts.run();
+    for (const item of items) addToSearch(item);
+    searchOwner = userId;
+  });
+
+  const forgetSearch = () => {
+    clearFts.run();
+    searchOwner = null;
+  };
+
+  const find = (source: IndexSource, id: string): IndexItem | null => {
+    const row = byKey.get(source, id) as IndexItemRow | undefined;
+    return row ? open(row) : null;
+  };
+
+  const upsertItem = (input: NewIndexItem): boolean => {
+    const userId = input.userId ?? '';
+    const key = dataKey(userId);
+    const cells = itemCells(key, userId, input.source, input.id);
+    const tags = normalizeTags(input.tags);
+    const next = {
+      source: input.source,
+      id: input.id,
+      userId,
+      due: input.due ? new Date(input.due).toISOString() : null,
+      scope: input.scope ?? null,
+      pageId: input.location?.pageId ?? null,
+      itemId: input.location?.itemId ?? null,
+      widgetId: input.location?.widgetId ?? null,
+      contentHash: contentHashOf(key, input),
+    };
+    const row = byKey.get(input.source, input.id) as IndexItemRow | undefined;
+    if (
+      row &&
+      row.content_hash === next.contentHash &&
+      row.user_id === next.userId &&
+      cells.open('tags', row.tags) === JSON.stringify(tags) &&
+      row.due === next.due &&
+      row.scope === next.scope &&
+      row.page_id === next.pageId &&
+      row.widget_item_id === next.itemId &&
+      row.widget_id === next.widgetId
+    ) {
+      return false;
+    }
+    upsert.run({
+      ...next,
+      title: cells.seal('title', input.title),
+      text: cells.seal('text', input.text),
+      tags: cells.seal('tags', JSON.stringify(tags)),
+      updatedAt: new Date().toISOString(),
+    });
+    if (searchOwner !== null) {
+      removeFts.run(input.source, input.id);
+      if (userId === searchOwner) addToSearch(find(input.source, input.id)!);
+    }
+    return true;
+  };
+
+  const removeItem = (source: IndexSource, id: string): boolean => {
+    removeFts.run(source, id);
+    return remove.run(source, id).changes > 0;
+  };
+
+  const saveChunks = db.transaction(
+    (
+      item: Pick<IndexItem, 'source' | 'id' | 'userId' | 'contentHash'>,
+      embedder: string,
+      chunks: Array<{ text: string; vector: number[] }>
+    ): boolean => {
+      const row = byKey.get(item.source, item.id) as IndexItemRow | undefined;
+      if (row?.content_hash !== item.contentHash || row.user_id !== item.userId) return false;
+      const key = dataKey(item.userId);
+      removeChunks.run(item.source, item.id);
+      chunks.forEach((chunk, i) => {
+        const cells = chunkCells(key, item.userId, item.source, item.id, i);
+        const vector = cells.seal('vector', packVector(chunk.vector));
+        insertChunk.run(item.source, item.id, i, cells.seal('text', chunk.text), embedder, item.contentHash, vector);
+      });
+      return true;
+    }
+  );
+
+  return {
+    find,
+    /**
+     * Insert or replace an item. Returns false when nothing about it changed. Only a change
+     * of title or text makes it stale for embedding.
+     */
+    upsert: upsertItem,
+    /** Removes the item and its chunks. */
+    remove: removeItem,
+    /** Ids of the items of `source` that `scope` sent. */
+    idsInScope(scope: string, source: IndexSource): string[] {
+      return (idsInScope.all(scope, source) as Array<{ item_id: string }>).map((row) => row.item_id);
+    },
+    /** Removes everything a widget sent; returns how many items that was. */
+    removeScope(scope: string): number {
+      for (const row of keysInScope.all(scope) as Array<{ source: IndexSource; item_id: string }>) {
+        removeFts.run(row.source, row.item_id);
+      }
+      return removeScope.run(scope).changes;
+    },
+    count(): number {
+      return (count.get() as { n: number }).n;
+    },
+    /** One user's items without up-to-date chunks from `embedder`, oldest change first. */
+    stale(embedder: string, userId: string, limit = 50): IndexItem[] {
+      return (stale.all({ embedder, userId, limit }) as IndexItemRow[]).map(open);
+    },
+    /** Items without up-to-date chunks from `embedder`: one user's, or everyone's without `userId`. */
+    countStale(embedder: string, userId?: string): number {
+      return (countStale.get({ embedder, userId: userId ?? null }) as { n: number }).n;
+    },
+    /**
+     * Replace an item's chunks. Skipped (returns false) when the item changed or was removed
+     * while its text was being embedded; it stays stale and is picked up again.
+     */
+    saveChunks,
+    /** Current chunks from `embedder` for one user's items. */
+    chunks(embedder: string, userId: string): IndexChunk[] {
+      const key = dataKey(userId);
+      const titles = new Map<string, string>();
+      return (chunksFor.all(embedder, userId) as IndexChunkRow[]).map((row) => {
+        const itemKey = `${row.source}/${row.item_id}`;
+        let title = titles.get(itemKey);
+        if (title === undefined) {
+          title = itemCells(key, userId, row.source, row.item_id).open('title', row.title);
+          titles.set(itemKey, title);
+        }
+        const cells = chunkCells(key, userId, row.source, row.item_id, row.chunk);
+        return {
+          source: row.source,
+          itemId: row.item_id,
+          title,
+          text: cells.open('text', row.text),
+          vector: unpackVector(cells.openBytes('vector', row.vector)),
+        };
+      });
+    },
+    /** Drop every vector; items stay and become stale. */
+    clearVectors(): void {
+      removeAllChunks.run();
+    },
+    /** One user's items with their chunks, or everything without `userId`. */
+    clear(userId?: string): void {
+      if (userId === undefined || userId === searchOwner) forgetSearch();
+      if (userId === undefined) removeAll.run();
+      else removeForUser.run(userId);
+    },
+    /**
+     * Items matching the search, best first, at most `perGroup` per source. Fills the
+     * full-text table with the user's items first when it holds someone else's.
+     */
+    keywordSearch(input: KeywordSearchInput): KeywordHit[] {
+      if (searchOwner !== input.userId) loadSearch(input.userId);
+      const params = {
+        sources: input.sources ? JSON.stringify(input.sources) : null,
+        tags: input.tags ? JSON.stringify(input.tags.map((tag) => tag.toLowerCase())) : null,
+        dueFrom: input.dueFrom,
+        dueTo: input.dueTo,
+        userId: input.userId,
+        perGroup: input.perGroup,
+      };
+      const rows = (
+        input.match
+          ? searchText.all({ ...params, match: input.match, start: SEARCH_MATCH_START, end: SEARCH_MATCH_END })
+          : searchFiltered.all(params)
+      ) as KeywordHitRow[];
+      return rows.map((row) => ({
+        item: toIndexItem(row, row),
+        markedTitle: row.marked_title,
+        snippet: row.snippet,
+        score: row.score,
+        groupTotal: row.group_total,
+      }));
+    },
+    /** Empty the full-text table, e.g. when its user signs out. */
+    forgetSearch,
+    /** Seal the user's items written before migration 14; returns how many there were. */
+    sealPlaintext(userId: string): number {
+      const items = (plainOf.all(userId) as IndexItemRow[]).map(open);
+      for (const item of items) {
+        removeChunks.run(item.source, item.id);
+        upsertItem(item);
+      }
+      return items.length;
+    },
+  };
+}
+
+export type IndexRepository = ReturnType<typeof createIndexRepository>;
+
+/* -----------------------
+   Household collections
+   ----------------------- */
+
+export type { HouseholdCollection, HouseholdItem, HouseholdKind };
+
+export type HouseholdItemUpdates = Partial<Pick<HouseholdItem, 'text' | 'done' | 'assigneeId'>>;
+
+type HouseholdCollectionRow = { id: string; kind: HouseholdKind; title: Sealed; created_at: string };
+
+type HouseholdItemRow = {
+  id: string;
+  collection_id: string;
+  text: Sealed;
+  done: number;
+  assignee_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+const listCells = (key: Buffer, collectionId: string) => rowCells(key, 'household-list', collectionId, collectionId);
+
+const householdItemCells = (key: Buffer, collectionId: string, itemId: string) =>
+  rowCells(key, 'household-item', collectionId, itemId);
+
+const toHouseholdItem = (row: HouseholdItemRow, key: Buffer): HouseholdItem => ({
+  id: row.id,
+  collectionId: row.collection_id,
+  text: householdItemCells(key, row.collection_id, row.id).open('text', row.text),
+  done: row.done === 1,
+  assigneeId: row.assignee_id,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+/**
+ * Lists shared between profiles (grocery list, chores). Access checks are the caller's
+ * job (main/household.ts); this only stores collections, their members and items.
+ *
+ * No single profile's data key could open a list for the others, so each list has a key of
+ * its own that seals its title and item texts. Every member gets a copy sealed to their
+ * public key (main/encryption.ts), so it can be passed on while they are signed out: whenever
+ * a member opens the list, the members without a copy who have a key pair get one. Until a
+ * member's copy arrives the list is missing for them. Reads take the member reading.
+ */
+export function createHouseholdRepository(db: Db, dataKey: DataKeyLookup = noDataKeys) {
+  const insertCollection = db.prepare(
+    'INSERT INTO household_collections (id, kind, title, created_at) VALUES (?, ?, ?, ?)'
+  );
+  const collectionById = db.prepare('SELECT * FROM household_collections WHERE id = ?');
+  const collectionsOf = db.prepare(
+    `SELECT c.* FROM household_collections c
+     JOIN household_members m ON m.collection_id = c.id
+     WHERE m.user_id = ? ORDER BY c.created_at`
+  );
+  const setTitle = db.prepare('UPDATE household_collections SET title = ? WHERE id = ?');
+  const removeCollection = db.prepare('DELETE FROM household_collections WHERE id = ?');
+  const membersOf = db.prepare('SELECT user_id FROM household_members WHERE collection_id = ? ORDER BY rowid');
+  const insertMember = db.prepare('INSERT OR IGNORE INTO household_members (collection_id, user_id) VALUES (?, ?)');
+  const removeOtherMembers = db.prepare(
+    'DELETE FROM household_members WHERE collection_id = ? AND user_id NOT IN (SELECT value FROM json_each(?))'
+  );
+  const memberKey = db.prepare('SELECT wrapped_key FROM household_members WHERE collection_id = ? AND user_id = ?');
+  const isSealed = db.prepare('SELECT 1 FROM household_members WHERE collection_id = ? AND wrapped_key IS NOT NULL');
+  const waitingForKey = db.prepare(
+    `SELECT m.user_id, k.public_key FROM household_members m
+     JOIN user_keys k ON k.user_id = m.user_id
+     WHERE m.collection_id = ? AND m.wrapped_key IS NULL AND k.public_key IS NOT NULL`
+  );
+  const grantKey = db.prepare('UPDATE household_members SET wrapped_key = ? WHERE collection_id = ? AND user_id = ?');
+  const privateKeyOf = db.prepare('SELECT private_key FROM user_keys WHERE user_id = ?');
+  const insertItem = db.prepare(
+    `INSERT INTO household_items (id, collection_id, text, done, assignee_id, created_by, created_at, updated_at)
+     VALUES (@id, @collectionId, @text, 0, @assigneeId, @createdBy, @createdAt, @updatedAt)`
+  );
+  const itemById = db.prepare('SELECT * FROM household_items WHERE id = ?');
+  const itemsOf = db.prepare('SELECT * FROM household_items WHERE collection_id = ? ORDER BY created_at');
+  const writeItem = db.prepare(
+    'UPDATE household_items SET text = ?, done = ?, assignee_id = ?, updated_at = ? WHERE id = ?'
+  );
+  const setItemText = db.prepare('UPDATE household_items SET text = ? WHERE id = ?');
+  const removeItem = db.prepare('DELETE FROM household_items WHERE id = ?');
+
+  const members = (collectionId: string): string[] =>
+    (membersOf.all(collectionId) as Array<{ user_id: string }>).map((row) => row.user_id);
+
+  const toCollection = (row: HouseholdCollectionRow, key: Buffer): HouseholdCollection => ({
+    id: row.id,
+    kind: row.kind,
+    title: listCells(key, row.id).open('title', row.title),
+    memberIds: members(row.id),
+    createdAt: row.created_at,
+  });
+
+  /** The signed-in user's private key; throws unless `userId` is signed in with a key pair. */
+  const privateKey = (userId: string): Buffer => {
+    const row = privateKeyOf.get(userId) as { private_key: Buffer | null } | undefined;
+    if (!row?.private_key) throw new Error(`No key pair for ${userId}.`);
+    return unseal(dataKey(userId), row.private_key, privateKeyAad(userId));
+  };
+
+  /** Give the list's key to the members without it who have a key pair. */
+  const passOnKey = (collectionId: string, key: Buffer) => {
+    for (const row of waitingForKey.all(collectionId) as Array<{ user_id: string; public_key: Buffer }>) {
+      grantKey.run(sealFor(row.public_key, key, householdKeyAad(collectionId, row.user_id)), collectionId, row.user_id);
+    }
+  };
+
+  /** Seal a list from before migration 14 with a new key for its members. */
+  const sealList = db.transaction((collectionId: string): Buffer => {
+    const key = newDataKey();
+    const row = collectionById.get(collectionId) as HouseholdCollectionRow;
+    const cells = listCells(key, collectionId);
+    setTitle.run(cells.seal('title', cells.open('title', row.title)), collectionId);
+    for (const item of itemsOf.all(collectionId) as HouseholdItemRow[]) {
+      const cells = householdItemCells(key, collectionId, item.id);
+      setItemText.run(cells.seal('text', cells.open('text', item.text)), item.id);
+    }
+    passOnKey(collectionId, key);
+    return key;
+  });
+
+  /**
+   * The list's key as `userId` opens it, passing it on to the members still without it (a
+   * list from before migration 14 is sealed first). Null when `userId` is not a member, or
+   * their copy has not arrived yet.
+   */
+  const keyFor = (collectionId: string, userId: string): Buffer | null => {
+    const member = memberKey.get(collectionId, userId) as { wrapped_key: Buffer | null } | undefined;
+    if (!member) return null;
+    if (member.wrapped_key) {
+      const key = unsealWith(privateKey(userId), member.wrapped_key, householdKeyAad(collectionId, userId));
+      passOnKey(collectionId, key);
+      return key;
+    }
+    if (isSealed.get(collectionId)) return null;
+    // The new key must reach at least the member sealing it
+    privateKey(userId);
+    return sealList(collectionId);
+  };
+
+  const findCollection = (id: string, userId: string): HouseholdCollection | null => {
+    const row = collectionById.get(id) as HouseholdCollectionRow | undefined;
+    const key = row ? keyFor(id, userId) : null;
+    return row && key ? toCollection(row, key) : null;
+  };
+
+  const findItem = (id: string, userId: string): HouseholdItem | null => {
+    const row = itemById.get(id) as HouseholdItemRow | undefined;
+    const key = row ? keyFor(row.collection_id, userId) : null;
+    return row && key ? toHouseholdItem(row, key) : null;
+  };
+
+  const create = db.transaction(
+    (input: { kind: HouseholdKind; title: string; memberIds: string[] }, userId: string): HouseholdCollection => {
+      const id = randomUUID();
+      const key = newDataKey();
+      insertCollection.run(id, input.kind, listCells(key, id).seal('title', input.title), new Date().toISOString());
+      for (const memberId of input.memberIds) insertMember.run(id, memberId);
+      passOnKey(id, key);
+      return findCollection(id, userId)!;
+    }
+  );
+
+  const setMembers = db.transaction((collectionId: string, memberIds: string[], key: Buffer) => {
+    removeOtherMembers.run(collectionId, JSON.stringify(memberIds));
+    for (const memberId of memberIds) insertMember.run(collectionId, memberId);
+    passOnKey(collectionId, key);
+  });
+
+  return {
+    /** Collections `userId` is a member of and can open, oldest first. */
+    listFor(userId: string): HouseholdCollection[] {
+      return (collectionsOf.all(userId) as HouseholdCollectionRow[]).flatMap((row) => {
+        const key = keyFor(row.id, userId);
+        return key ? [toCollection(row, key)] : [];
+      });
+    },
+    findCollection,
+    /** `userId` is the member creating it. */
+    create(input: { kind: HouseholdKind; title: string; memberIds: string[] }, userId: string): HouseholdCollection {
+      return create(input, userId);
+    },
+    /**
+     * Replace the members, as `userId` (who may leave the list this way). Returns null when
+     * the collection does not exist for them.
+     */
+    setMembers(collectionId: string, memberIds: string[], userId: string): HouseholdCollection | null {
+      const row = collectionById.get(collectionId) as HouseholdCollectionRow | undefined;
+      const key = row ? keyFor(collectionId, userId) : null;
+      if (!row || !key) return null;
+      setMembers(collectionId, memberIds, key);
+      return toCollection(row, key);
+    },
+    /** Removes the collection with its members and items. */
+    delete(collectionId: string): boolean {
+      return removeCollection.run(collectionId).changes > 0;
+    },
+    items(collectionId: string, userId: string): HouseholdItem[] {
+      const key = keyFor(collectionId, userId);
+      return key ? (itemsOf.all(collectionId) as HouseholdItemRow[]).map((row) => toHouseholdItem(row, key)) : [];
+    },
+    findItem,
+    addItem(input: { collectionId: string; text: string; assigneeId: string | null; createdBy: string }): HouseholdItem {
+      const key = keyFor(input.collectionId, input.createdBy);
+      if (!key) throw new Error(`No household list ${input.collectionId}.`);
+      const now = new Date().toISOString();
+      const id = randomUUID();
+      const text = householdItemCells(key, input.collectionId, id).seal('text', input.text);
+      insertItem.run({ ...input, id, text, createdAt: now, updatedAt: now });
+      return findItem(id, input.createdBy)!;
+    },
+    /** Apply a partial update, as `userId`. Returns null when the item does not exist for them. */
+    updateItem(id: string, updates: HouseholdItemUpdates, userId: string): HouseholdItem | null {
+      const row = itemById.get(id) as HouseholdItemRow | undefined;
+      const key = row ? keyFor(row.collection_id, userId) : null;
+      if (!row || !key) return null;
+      const existing = toHouseholdItem(row, key);
+      const next: HouseholdItem = {
+        ...existing,
+        text: updates.text ?? existing.text,
+        done: updates.done ?? existing.done,
+        assigneeId: updates.assigneeId === undefined ? existing.assigneeId : updates.assigneeId,
+        updatedAt: new Date().toISOString(),
+      };
+      const text = householdItemCells(key, row.collection_id, id).seal('text', next.text);
+      writeItem.run(text, next.done ? 1 : 0, next.assigneeId, next.updatedAt, id);
+      return next;
+    },
+    removeItem(id: string): boolean {
+      return removeItem.run(id).changes > 0;
+    },
+    /**
+     * Seal the lists from before migration 14 that `userId` is a member of, and pass the keys
+     * of the others on to the members still without them. Returns how many lists were sealed.
+     */
+    sealPlaintext(userId: string): number {
+      let sealed = 0;
+      for (const row of collectionsOf.all(userId) as HouseholdCollectionRow[]) {
+        if (!isSealed.get(row.id)) sealed++;
+        keyFor(row.id, userId);
+      }
+      return sealed;
+    },
+  };
+}
+
+export type HouseholdRepository = ReturnType<typeof createHouseholdRepository>;
+
+/* -----------------------
+   Builder pages
+   ----------------------- */
+
+/** A page or widget row; `data` is sealed with the user's data key (main/pages.ts). */
+export interface PageRowRecord {
+  id: string;
+  data: Buffer;
+}
+
+export interface PageItemRowRecord extends PageRowRecord {
+  pageId: string;
+}
+
+/** A user's builder pages and their items, in order, with the layout's schema version. */
+export interface StoredLayout {
+  schemaVersion: number;
+  pages: PageRowRecord[];
+  items: PageItemRowRecord[];
+}
+
+/**
+ * The builder's pages and widgets, a row each, per user. Contents are opaque here; main/pages.ts
+ * seals them and migrates older layouts.
+ */
+export function createPageRepository(db: Db) {
+  const layoutOf = db.prepare('SELECT schema_version FROM page_layouts WHERE user_id = ?');
+  const pagesOf = db.prepare('SELECT id, data FROM pages WHERE user_id = ? ORDER BY position');
+  const itemsOf = db.prepare(
+    `SELECT i.id, i.page_id, i.data FROM page_items i
+     JOIN pages p ON p.user_id = i.user_id AND p.id = i.page_id
+     WHERE i.user_id = ? ORDER BY p.position, i.position`
+  );
+  const upsertLayout = db.prepare(
+    `INSERT INTO page_layouts (user_id, schema_version, updated_at) VALUES (?, ?, ?)
+     ON CONFLICT(user_id) DO UPDATE SET schema_version = excluded.schema_version, updated_at = excluded.updated_at`
+  );
+  const removePages = db.prepare('DELETE FROM pages WHERE user_id = ?');
+  const insertPage = db.prepare('INSERT INTO pages (user_id, id, position, data) VALUES (?, ?, ?, ?)');
+  const insertItem = db.prepare('INSERT INTO page_items (user_id, page_id, id, position, data) VALUES (?, ?, ?, ?, ?)');
+  const removeAll = db.prepare('DELETE FROM page_layouts');
+  const removeForUser = db.prepare('DELETE FROM page_layouts WHERE user_id = ?');
+
+  const replace = db.transaction((userId: string, layout: StoredLayout) => {
+    upsertLayout.run(userId, layout.schemaVersion, new Date().toISOString());
+    removePages.run(userId);
+    layout.pages.forEach((page, position) => insertPage.run(userId, page.id, position, page.data));
+    const positions = new Map<string, number>();
+    for (const item of layout.items) {
+      const position = positions.get(item.pageId) ?? 0;
+      positions.set(item.pageId, position + 1);
+      insertItem.run(userId, item.pageId, item.id, position, item.data);
+    }
+  });
+
+  return {
+    /** Null when the user never saved pages. */
+    load(userId: string): StoredLayout | null {
+      const layout = layoutOf.get(userId) as { schema_version: number } | undefined;
+      if (!layout) return null;
+      return {
+        schemaVersion: layout.schema_version,
+        pages: pagesOf.all(userId) as PageRowRecord[],
+        items: (itemsOf.all(userId) as Array<{ id: string; page_id: string; data: Buffer }>).map((row) => ({
+          id: row.id,
+          pageId: row.page_id,
+          data: row.data,
+        })),
+      };
+    },
+    /**
+     * Replace all of the user's pages and items, all or nothing. Items are ordered within
+     * their page as listed; every item's page must be among `pages`.
+     */
+    replace(userId: string, layout: StoredLayout): void {
+      replace(userId, layout);
+    },
+    /** One user's pages, or everyone's without `userId`. */
+    clear(userId?: string): void {
+      if (userId === undefined) removeAll.run();
+      else removeForUser.run(userId);
+    },
+  };
+}
+
+export type PageRepository = ReturnType<typeof createPageRepository>;
+
+/* -----------------------
+   Widget state
+   ----------------------- */
+
+/** One value a widget on the canvas keeps; `data` is sealed with the user's data key (main/widget-state.ts). */
+export interface WidgetStateRecord {
+  schemaVersion: number;
+  data: Buffer;
+}
+
+/** What the widgets on the builder's pages keep, per user, builder item and key. */
+export function createWidgetStateRepository(db: Db) {
+  const get = db.prepare('SELECT schema_version, data FROM widget_state WHERE user_id = ? AND item_id = ? AND key = ?');
+  const put = db.prepare(
+    `INSERT INTO widget_state (user_id, item_id, key, schema_version, data, updated_at) VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT(user_id, item_id, key) DO UPDATE SET
+       schema_version = excluded.schema_version, data = excluded.data, updated_at = excluded.updated_at`
+  );
+  const removeKey = db.prepare('DELETE FROM widget_state WHERE user_id = ? AND item_id = ? AND key = ?');
+  const removeItem = db.prepare('DELETE FROM widget_state WHERE user_id = ? AND item_id = ?');
+  const itemsOf = db.prepare('SELECT DISTINCT item_id FROM widget_state WHERE user_id = ?');
+  const keysOf = db.prepare('SELECT key FROM widget_state WHERE user_id = ? AND item_id = ? ORDER BY key');
+  const removeAll = db.prepare('DELETE FROM widget_state');
+  const removeForUser = db.prepare('DELETE FROM widget_state WHERE user_id = ?');
+
+  const removeItems = db.transaction((userId: string, itemIds: string[]): number =>
+    itemIds.reduce((removed, itemId) => removed + removeItem.run(userId, itemId).changes, 0)
+  );
+
+  return {
+    get(userId: string, itemId: string, key: string): WidgetStateRecord | null {
+      const row = get.get(userId, itemId, key) as { schema_version: number; data: Buffer } | undefined;
+      return row ? { schemaVersion: row.schema_version, data: row.data } : null;
+    },
+    /** Store (or with null, delete) one value. */
+    set(userId: string, itemId: string, key: string, record: WidgetStateRecord | null): void {
+      if (record === null) removeKey.run(userId, itemId, key);
+      else put.run(userId, itemId, key, record.schemaVersion, record.data, new Date().toISOString());
+    },
+    /** The keys one item keeps values under. */
+    keys(userId: string, itemId: string): string[] {
+      return (keysOf.all(userId, itemId) as Array<{ key: string }>).map((row) => row.key);
+    },
+    /** Everything kept by items other than the given ones, i.e. widgets no longer on any page. */
+    retain(userId: string, itemIds: string[]): number {
+      const keep = new Set(itemIds);
+      const stale = (itemsOf.all(userId) as Array<{ item_id: string }>)
+        .map((row) => row.item_id)
+        .filter((itemId) => !keep.has(itemId));
+      return stale.length > 0 ? removeItems(userId, stale) : 0;
+    },
+    /** One user's widget state, or everyone's without `userId`. */
+    clear(userId?: string): void {
+      if (userId === undefined) removeAll.run();
+      else removeForUser.run(userId);
+    },
+  };
+}
+
+export type WidgetStateRepository = ReturnType<typeof createWidgetStateRepository>;
+
+/* -----------------------
+   Account deletion
+   ----------------------- */
+
+/**
+ * Removes a user with everything they own. Deleted rows are overwritten (`secure_delete`, see
+ * openDatabase) and the WAL is emptied into the database file afterwards, so no copy is left
+ * in free pages or the journal. The user's data key goes with them, so a stray encrypted value
+ * that survived somewhere (a backup of the file) can no longer be opened either.
+ */
+export function createAccountRepository(db: Db) {
+  const removeSettings = db.prepare('DELETE FROM settings WHERE user_id = ?');
+  const removeConversations = db.prepare('DELETE FROM conversations WHERE user_id = ?');
+  const removeIndexItems = db.prepare('DELETE FROM index_items WHERE user_id = ?');
+  const removeAttempts = db.prepare('DELETE FROM login_attempts WHERE username = ?');
+  // Tasks, sessions, keys, user data, recovery codes, pages, widget state and memberships cascade
+  const removeUser = db.prepare('DELETE FROM users WHERE id = ?');
+  const removeOrphanCollections = db.prepare(
+    'DELETE FROM household_collections WHERE id NOT IN (SELECT collection_id FROM household_members)'
+  );
+
+  const remove = db.transaction((user: { id: string; username: string }): boolean => {
+    removeSettings.run(user.id);
+    removeConversations.run(user.id);
+    removeIndexItems.run(user.id);
+    removeAttempts.run(user.username);
+    if (removeUser.run(user.id).changes === 0) return false;
+    removeOrphanCollections.run();
+    return true;
+  });
+
+  return {
+    /** Shared lists left without members go too. Returns false when the user does not exist. */
+    deleteUser(user: { id: string; username: string }): boolean {
+      const removed = remove(user);
+      if (removed) db.pragma('wal_checkpoint(TRUNCATE)');
+      return removed;
+    },
+  };
+}
+
+export type AccountRepository = ReturnType<typeof createAccountRepository>;
+
+/* -----------------------
+   Plain text from before sealing
+   ----------------------- */
+
+/**
+ * User text written before migration 14 stays plain until it can be sealed, i.e. until its
+ * owner signs in (main/main.ts). Like account deletion, sealing overwrites the plain text in
+ * place and empties the WAL into the database file afterwards.
+ */
+export function createPlaintextRepository(
+  db: Db,
+  repos: Pick<Repositories, 'tasks' | 'conversations' | 'index' | 'household'>
+) {
+  const sealAll = db.transaction(
+    (userId: string): number =>
+      repos.tasks.sealPlaintext(userId) +
+      repos.conversations.sealPlaintext(userId) +
+      repos.index.sealPlaintext(userId) +
+      repos.household.sealPlaintext(userId)
+  );
+
+  return {
+    /** Seal what `userId` owns and the shared lists they are in. Returns how many rows and lists that was. */
+    seal(userId: string): number {
+      const sealed = sealAll(userId);
+      if (sealed > 0) db.pragma('wal_checkpoint(TRUNCATE)');
+      return sealed;
+    },
+  };
+}
+
+export type PlaintextRepository = ReturnType<typeof createPlaintextRepository>;
+
+/* -----------------------
+   App-wide instance
+   ----------------------- */
+
+export type Repositories = {
+  users: UserRepository;
+  sessions: SessionRepository;
+  userData: UserDataRepository;
+  tasks: TaskRepository;
+  settings: SettingsRepository;
+  conversations: ConversationRepository;
+  index: IndexRepository;
+  household: HouseholdRepository;
+  pages: PageRepository;
+  widgetStates: WidgetStateRepository;
+  accounts: AccountRepository;
+  plaintext: PlaintextRepository;
+};
+
+/** `dataKey` opens the sealed columns; without it, only the repositories that have none work. */
+export function createRepositories(db: Db, dataKey: DataKeyLookup = noDataKeys): Repositories {
+  const sealed = {
+    tasks: createTaskRepository(db, dataKey),
+    conversations: createConversationRepository(db, dataKey),
+    index: createIndexRepository(db, dataKey),
+    household: createHouseholdRepository(db, dataKey),
+  };
+  return {
+    ...sealed,
+    users: createUserRepository(db),
+    sessions: createSessionRepository(db),
+    userData: createUserDataRepository(db),
+    settings: createSettingsRepository(db),
+    pages: createPageRepository(db),
+    widgetStates: createWidgetStateRepository(db),
+    accounts: createAccountRepository(db),
+    plaintext: createPlaintextRepository(db, sealed),
+  };
+}
+
+let instance: { db: Db; repos: Repositories } | null = null;
+
+/**
+ * Open the app database once. Call from main.ts after `app.whenReady()`.
+ *
+ * @param filename Usually path.join(app.getPath('userData'), 'gidit.db')
+ * @param dataKey The signed-in user's data key (main/user-data.ts)
+ */
+export function initDatabase(filename: string, dataKey: DataKeyLookup): Repositories {
+  if (instance) return instance.repos;
+  const db = openDatabase(filename);
+  instance = { db, repos: createRepositories(db, dataKey) };
+  return instance.repos;
+}
+
+/** Repositories for the database opened by initDatabase(). */
+export function getRepositories(): Repositories {
+  if (!instance) {
+    throw new Error('Database not initialised. Call initDatabase() during app startup.');
+  }
+  return instance.repos;
+}
+
+export function closeDatabase() {
+  instance?.db.close();
+  instance = null;
+}
+
+/* -----------------------
+   IPC
+   ----------------------- */
+
+export interface DbIpcHooks {
+  /** The signed-in profile (main/profiles.ts); throws when nobody is signed in. */
+  currentUserId: () => string;
+}
+
+/**
+ * Register the persistence IPC handlers. Channel payloads are validated against
+ * the shared contract in src/shared/types.ts.
+ *
+ * `repos.settings` should be the profile-aware wrapper from main/profiles.ts, which reads
+ * and writes the signed-in profile's values.
+ */
+export function registerDbIpc(ipcMain: IpcMain, repos: Repositories, hooks: DbIpcHooks) {
+  handle(ipcMain, 'settings:get', (key) => repos.settings.get(key));
+
+  handle(ipcMain, 'settings:set', ({ key, value }) => {
+    repos.settings.set(key, value);
+  });
+
+  handle(ipcMain, 'app:clearData', () => {
+    const userId = hooks.currentUserId();
+    repos.tasks.clear(userId);
+    repos.settings.clear(userId);
+    repos.conversations.clear(userId);
+    repos.index.clear(userId);
+    repos.userData.clear(userId);
+    repos.pages.clear(userId);
+    repos.widgetStates.clear(userId);
+  });
+}
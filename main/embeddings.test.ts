@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ApiKeyProvider } from '../src/shared/types';
+import { createSettingsRepository, openDatabase, type SettingsRepository } from './db';
+import {
+  createGeminiEmbedder,
+  createHashEmbedder,
+  createOpenAiEmbedder,
+  resolveEmbedder,
+  setEmbedderOverride,
+} from './embeddings';
+import { AI_PROVIDER_SETTING, ProviderError } from './providers';
+
+const keys = vi.hoisted(() => new Map<string, string>());
+
+// Sign-in is not under test (and would pull in Electron); the vault is a plain map
+vi.mock('./auth', () => ({ getAuthService: vi.fn() }));
+vi.mock('./secrets', () => ({
+  getSecretVault: () => ({ apiKey: (provider: ApiKeyProvider) => keys.get(provider) ?? null }),
+}));
+
+let settings: SettingsRepository;
+
+beforeEach(() => {
+  vi.stubEnv('GIDIT_AI_PROVIDER', '');
+  vi.stubEnv('GIDIT_EMBEDDER', '');
+  settings = createSettingsRepository(openDatabase(':memory:'));
+  keys.clear();
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  setEmbedderOverride(null);
+});
+
+const cosine = (a: number[], b: number[]) => {
+  const dot = a.reduce((sum, x, i) => sum + x * b[i], 0);
+  return dot / (Math.hypot(...a) * Math.hypot(...b));
+};
+
+const replying = (body: unknown) =>
+  vi.fn(async () => new Response(JSON.stringify(body))) as unknown as typeof fetch;
+
+const rejection = (promise: Promise<unknown>) =>
+  promise.then(
+    () => {
+      throw new Error('expected a rejection');
+    },
+    (err: unknown) => err as ProviderError
+  );
+
+describe('hash embedder', () => {
+  it('gives the same vector for the same text, every time', async () => {
+    const [a] = await createHashEmbedder().embed(['Buy oat milk']);
+    const [b] = await createHashEmbedder().embed(['buy OAT milk!']);
+    expect(a).toHaveLength(256);
+    expect(a).toEqual(b);
+  });
+
+  it('scores texts that share words above texts that do not', async () => {
+    const [query, near, far] = await createHashEmbedder().embed([
+      'dentist appointment',
+      'book the dentist appointment for Tuesday',
+      'water the garden',
+    ]);
+    expect(cosine(query, near)).toBeGreaterThan(cosine(query, far));
+  });
+
+  it('tags its vectors with its size', async () => {
+    const embedder = createHashEmbedder(32);
+    expect(embedder.id).toBe('hash:32');
+    expect((await embedder.embed(['a']))[0]).toHaveLength(32);
+  });
+});
+
+describe('hosted embedders', () => {
+  it('put OpenAI vectors back in input order', async () => {
+    const fetch = replying({
+      data: [
+        { index: 1, embedding: [0, 1] },
+        { index: 0, embedding: [1, 0] },
+      ],
+    });
+    expect(await createOpenAiEmbedder({ apiKey: 'k', fetch }).embed(['a', 'b'])).toEqual([
+      [1, 0],
+      [0, 1],
+    ]);
+  });
+
+  it('reject a count that does not match the inputs', async () => {
+    const fetch = replying({ embeddings: [{ values: [1] }] });
+    const err = await rejection(createGeminiEmbedder({ apiKey: 'k', fetch }).embed(['a', 'b']));
+    expect(err).toBeInstanceOf(ProviderError);
+    expect(err).toMatchObject({ kind: 'protocol', provider: 'gemini' });
+  });
+
+  it('reject replies of the wrong shape', async () => {
+    const fetch = replying({ data: [{ index: 0, embedding: 'nope' }] });
+    const err = await rejection(createOpenAiEmbedder({ apiKey: 'k', fetch }).embed(['a']));
+    expect(err).toMatchObject({ kind: 'protocol', provider: 'openai' });
+  });
+});
+
+describe('embedder selection', () => {
+  it('follows a provider that offers embeddings when it has a key', () => {
+    settings.set(AI_PROVIDER_SETTING, 'openai');
+    expect(resolveEmbedder(settings).id).toMatch(/^ollama:/);
+    keys.set('openai', 'sk-test');
+    expect(resolveEmbedder(settings).id).toBe('openai:text-embedding-3-small');
+  });
+
+  it('uses the local Ollama model for providers without embeddings', () => {
+    settings.set(AI_PROVIDER_SETTING, 'anthropic');
+    keys.set('anthropic', 'k');
+    expect(resolveEmbedder(settings).id).toMatch(/^ollama:/);
+  });
+
+  it('pairs the echo provider with the hash embedder', () => {
+    vi.stubEnv('GIDIT_AI_PROVIDER', 'echo');
+    expect(resolveEmbedder(settings).id).toBe('hash:256');
+  });
+
+  it('lets GIDIT_EMBEDDER and the override win', () => {
+    settings.set(AI_PROVIDER_SETTING, 'openai');
+    keys.set('openai', 'sk-test');
+    vi.stubEnv('GIDIT_EMBEDDER', 'hash');
+    expect(resolveEmbedder(settings).id).toBe('hash:256');
+    setEmbedderOverride(createHashEmbedder(8));
+    expect(resolveEmbedder(settings).id).toBe('hash:8');
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Electron main: text embeddings for the semantic index (main/semantic-index.ts).
+ *
+ * Embedders:
+ * - openai    /embeddings (text-embedding-3-small)
+ * - gemini    batchEmbedContents (text-embedding-004)
+ * - ollama    local /api/embed (OLLAMA_EMBED_MODEL, default nomic-embed-text)
+ * - hash      deterministic, offline feature hashing; no model, only shared words match
+ *
+ * `resolveEmbedder` follows the provider selected in Settings → AI when it offers
+ * embeddings (OpenAI, Gemini) and otherwise uses the local Ollama model, so Anthropic,
+ * Groq and DeepSeek users still get an index. The echo provider pairs with the hash
+ * embedder; set GIDIT_EMBEDDER=hash (or call setEmbedderOverride) to force it in tests.
+ *
+ * Vectors from different embedders live in different spaces, so every stored vector is
+ * tagged with the embedder `id` and only compared with vectors of the same id.
+ */
+
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import type { SettingsRepository } from './db';
+import { createOllamaClient, DEFAULT_OLLAMA_EMBED_MODEL, getOllamaHost } from './ollama';
+import {
+  getSelectedProviderId,
+  postJson,
+  ProviderError,
+  readApiKey,
+  readJson,
+  type HttpProviderOptions,
+} from './providers';
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const HASH_DIMENSIONS = 256;
+
+/* -----------------------
+   Types
+   ----------------------- */
+
+export interface Embedder {
+  /** Tags stored vectors, e.g. 'openai:text-embedding-3-small'. */
+  id: string;
+  /** Inputs sent per request. */
+  batchSize: number;
+  /** One vector per text, in order. */
+  embed(texts: string[], opts?: { signal?: AbortSignal }): Promise<number[][]>;
+}
+
+/* -----------------------
+   Embedders
+   ----------------------- */
+
+const OpenAiEmbeddingsSchema = z.object({
+  data: z.array(z.object({ index: z.number(), embedding: z.array(z.number()) })),
+});
+
+const GeminiEmbeddingsSchema = z.object({
+  embeddings: z.array(z.object({ values: z.array(z.number()) })),
+});
+
+export function createOpenAiEmbedder(opts: HttpProviderOptions): Embedder {
+  const baseUrl = (opts.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+  const model = opts.model || 'text-embedding-3-small';
+  const doFetch = opts.fetch ?? fetch;
+
+  return {
+    id: `openai:${model}`,
+    batchSize: 64,
+    async embed(texts, { signal } = {}) {
+      const opened = await postJson(
+        'openai',
+        doFetch,
+        `${baseUrl}/embeddings`,
+        { Authorization: `Bearer ${opts.apiKey}` },
+        { model, input: texts },
+        { signal, timeoutMs: DEFAULT_TIMEOUT_MS }
+      );
+      const { data: rows } = await readJson('openai', opened, OpenAiEmbeddingsSchema);
+      if (rows.length !== texts.length) {
+        throw new ProviderError(`openai returned ${rows.length} embeddings for ${texts.length} inputs`, 'protocol', 'openai');
+      }
+      return [...rows].sort((a, b) => a.index - b.index).map((row) => row.embedding);
+    },
+  };
+}
+
+export function createGeminiEmbedder(opts: HttpProviderOptions): Embedder {
+  const baseUrl = (opts.baseUrl || 'https://generativelanguage.googleapis.com/v1beta').replace(/\/+$/, '');
+  const model = opts.model || 'text-embedding-004';
+  const doFetch = opts.fetch ?? fetch;
+
+  return {
+    id: `gemini:${model}`,
+    batchSize: 100,
+    async embed(texts, { signal } = {}) {
+      const opened = await postJson(
+        'gemini',
+        doFetch,
+        `${baseUrl}/models/${encodeURIComponent(model)}:batchEmbedContents`,
+        { 'x-goog-api-key': opts.apiKey },
+        { requests: texts.map((text) => ({ model: `models/${model}`, content: { parts: [{ text }] } })) },
+        { signal, timeoutMs: DEFAULT_TIMEOUT_MS }
+      );
+      const { embeddings: rows } = await readJson('gemini', opened, GeminiEmbeddingsSchema);
+      if (rows.length !== texts.length) {
+        throw new ProviderError(`gemini returned ${rows.length} embeddings for ${texts.length} inputs`, 'protocol', 'gemini');
+      }
+      return rows.map((row) => row.values);
+    },
+  };
+}
+
+export function createOllamaEmbedder(opts: { host?: string; model?: string; fetch?: typeof fetch } = {}): Embedder {
+  const client = createOllamaClient({ host: opts.host, fetch: opts.fetch });
+  const model = opts.model || DEFAULT_OLLAMA_EMBED_MODEL;
+
+  return {
+    id: `ollama:${model}`,
+    batchSize: 16,
+    embed: (texts, { signal } = {}) => client.embed({ model, input: texts, signal, timeoutMs: DEFAULT_TIMEOUT_MS }),
+  };
+}
+
+/**
+ * Deterministic embedder for tests and offline use: words (and word pairs) are hashed
+ * into a fixed number of signed buckets. Texts sharing words score higher; there is no
+ * notion of meaning beyond that.
+ */
+export function createHashEmbedder(dimensions = HASH_DIMENSIONS): Embedder {
+  const bucket = (feature: string): [number, number] => {
+    const digest = createHash('sha1').update(feature).digest();
+    return [digest.readUInt32BE(0) % dimensions, digest[4] & 1 ? 1 : -1];
+  };
+
+  const embedOne = (text: string): number[] => {
+    const vector = new Array<number>(dimensions).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+    for (const feature of features) {
+      const [index, sign] = bucket(feature);
+      vector[index] += sign;
+    }
+    return vector;
+  };
+
+  return {
+    id: `hash:${dimensions}`,
+    batchSize: 256,
+    embed: async (texts) => texts.map(embedOne),
+  };
+}
+
+/* -----------------------
+   Selection
+   ----------------------- */
+
+let override: Embedder | null = null;
+
+/** Force one embedder (e.g. the hash embedder in tests). Pass null to clear. */
+export function setEmbedderOverride(embedder: Embedder | null) {
+  override = embedder;
+}
+
+/**
+ * The embedder for the selected provider; see the module notes for the fallbacks. Throws a
+ * ProviderError of kind 'locked' while the provider's key cannot be read.
+ */
+export function resolveEmbedder(settings?: SettingsRepository): Embedder {
+  if (override) return override;
+  if (process.env.GIDIT_EMBEDDER === 'hash') return createHashEmbedder();
+
+  const provider = getSelectedProviderId(settings);
+  if (provider === 'echo') return createHashEmbedder();
+
+  const apiKey = provider === 'openai' || provider === 'gemini' ? readApiKey(provider) : null;
+  if (provider === 'openai' && apiKey) return createOpenAiEmbedder({ apiKey });
+  if (provider === 'gemini' && apiKey) return createGeminiEmbedder({ apiKey });
+  return createOllamaEmbedder({ host: getOllamaHost(settings) });
+}
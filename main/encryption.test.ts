@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { EncryptionError, newDataKey, newKeyPair, seal, sealFor, unseal, unsealWith } from './encryption';
+
+const kindOf = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (err) {
+    return err instanceof EncryptionError ? err.kind : err;
+  }
+  return null;
+};
+
+describe('seal', () => {
+  it('opens with the same key and AAD', () => {
+    const key = newDataKey();
+    const envelope = seal(key, 'buy milk', 'gidit:task:u1:t1:title');
+    expect(envelope.includes(Buffer.from('buy milk'))).toBe(false);
+    expect(unseal(key, envelope, 'gidit:task:u1:t1:title').toString('utf8')).toBe('buy milk');
+  });
+
+  it('rejects another AAD, another key and a changed envelope', () => {
+    const key = newDataKey();
+    const envelope = seal(key, 'buy milk', 'gidit:task:u1:t1:title');
+    expect(kindOf(() => unseal(key, envelope, 'gidit:task:u2:t1:title'))).toBe('unreadable');
+    expect(kindOf(() => unseal(newDataKey(), envelope, 'gidit:task:u1:t1:title'))).toBe('unreadable');
+    const changed = Buffer.from(envelope);
+    changed[changed.length - 1] ^= 1;
+    expect(kindOf(() => unseal(key, changed, 'gidit:task:u1:t1:title'))).toBe('unreadable');
+  });
+
+  it('tells something that is no envelope apart', () => {
+    expect(kindOf(() => unseal(newDataKey(), Buffer.from('plain text'), 'aad'))).toBe('format');
+  });
+});
+
+describe('sealFor', () => {
+  it('opens with the private key and the same AAD only', () => {
+    const pair = newKeyPair();
+    const envelope = sealFor(pair.publicKey, 'list key', 'gidit:household-key:c1:u1');
+    expect(unsealWith(pair.privateKey, envelope, 'gidit:household-key:c1:u1').toString('utf8')).toBe('list key');
+    expect(kindOf(() => unsealWith(pair.privateKey, envelope, 'gidit:household-key:c1:u2'))).toBe('unreadable');
+    expect(kindOf(() => unsealWith(newKeyPair().privateKey, envelope, 'gidit:household-key:c1:u1'))).toBe('unreadable');
+  });
+});
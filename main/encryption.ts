@@ -0,0 +1,132 @@
+/**
+ * Electron main: authenticated encryption for data at rest.
+ *
+ * - AES-256-GCM. An envelope is one buffer: version byte | 12-byte IV | 16-byte tag | ciphertext.
+ * - The associated data names where an envelope belongs (e.g. a user and a key), so a
+ *   ciphertext copied to another row fails to open instead of passing for that row's value.
+ * - Every user has a random data key that encrypts their values. It is stored sealed with a
+ *   key derived from the password (argon2id, see PasswordHasher.deriveKey in main/auth.ts):
+ *   a password change re-wraps the data key and leaves the data as it is. Each recovery code
+ *   holds another copy, sealed with a key derived from the code.
+ * - Every user also has an X25519 key pair, the private key sealed with their data key. Data
+ *   shared between users (household lists) has its own key, sealed to each member's public
+ *   key (`sealFor`), so a member can be given it while they are not signed in.
+ *
+ * SQLCipher would need a custom better-sqlite3 build, so values are encrypted one by one
+ * and the database file itself is plain SQLite.
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createPrivateKey,
+  createPublicKey,
+  diffieHellman,
+  generateKeyPairSync,
+  hkdfSync,
+  randomBytes,
+  type KeyObject,
+} from 'crypto';
+
+export const KEY_BYTES = 32;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const ENVELOPE_VERSION = 1;
+const HEADER_BYTES = 1 + IV_BYTES + TAG_BYTES;
+/** An X25519 public key, DER (SPKI) encoded. */
+const PUBLIC_KEY_BYTES = 44;
+
+export class EncryptionError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: 'format' | 'unreadable'
+  ) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
+
+export const newDataKey = (): Buffer => randomBytes(KEY_BYTES);
+
+export const newSalt = (): Buffer => randomBytes(SALT_BYTES);
+
+/** Encrypt `plaintext` for the place named by `aad`. */
+export function seal(key: Buffer, plaintext: Buffer | string, aad: string): Buffer {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(aad, 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([Buffer.from([ENVELOPE_VERSION]), iv, cipher.getAuthTag(), ciphertext]);
+}
+
+/**
+ * Decrypt an envelope made by `seal` with the same key and `aad`.
+ * Throws EncryptionError: 'format' for something that is no envelope, 'unreadable' for a
+ * wrong key, another place or tampered bytes (GCM cannot tell these apart).
+ */
+export function unseal(key: Buffer, envelope: Buffer, aad: string): Buffer {
+  if (envelope.length < HEADER_BYTES || envelope[0] !== ENVELOPE_VERSION) {
+    throw new EncryptionError('Not an encrypted value this version of Gidit can read.', 'format');
+  }
+  const iv = envelope.subarray(1, 1 + IV_BYTES);
+  const tag = envelope.subarray(1 + IV_BYTES, HEADER_BYTES);
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAAD(Buffer.from(aad, 'utf8'));
+  decipher.setAuthTag(tag);
+  try {
+    return Buffer.concat([decipher.update(envelope.subarray(HEADER_BYTES)), decipher.final()]);
+  } catch {
+    throw new EncryptionError('The data could not be decrypted with this key.', 'unreadable');
+  }
+}
+
+/** A new X25519 key pair, DER encoded (SPKI and PKCS#8). */
+export function newKeyPair(): { publicKey: Buffer; privateKey: Buffer } {
+  return generateKeyPairSync('x25519', {
+    publicKeyEncoding: { type: 'spki', format: 'der' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'der' },
+  });
+}
+
+/** The key both sides of an X25519 agreement arrive at, bound to `aad`. */
+const agreedKey = (privateKey: KeyObject, publicKey: KeyObject, aad: string) =>
+  Buffer.from(hkdfSync('sha256', diffieHellman({ privateKey, publicKey }), Buffer.alloc(0), aad, KEY_BYTES));
+
+/**
+ * Encrypt `plaintext` for the holder of the private key to `publicKey` (see `newKeyPair`):
+ * sealed with the key a fresh key pair agrees with it, whose public key leads the envelope.
+ */
+export function sealFor(publicKey: Buffer, plaintext: Buffer | string, aad: string): Buffer {
+  const recipient = createPublicKey({ key: publicKey, format: 'der', type: 'spki' });
+  const ephemeral = generateKeyPairSync('x25519');
+  return Buffer.concat([
+    ephemeral.publicKey.export({ type: 'spki', format: 'der' }),
+    seal(agreedKey(ephemeral.privateKey, recipient, aad), plaintext, aad),
+  ]);
+}
+
+/** Decrypt an envelope made by `sealFor`; throws EncryptionError like `unseal`. */
+export function unsealWith(privateKey: Buffer, envelope: Buffer, aad: string): Buffer {
+  let sender: KeyObject;
+  let own: KeyObject;
+  try {
+    sender = createPublicKey({ key: envelope.subarray(0, PUBLIC_KEY_BYTES), format: 'der', type: 'spki' });
+    own = createPrivateKey({ key: privateKey, format: 'der', type: 'pkcs8' });
+  } catch {
+    throw new EncryptionError('Not an encrypted value this version of Gidit can read.', 'format');
+  }
+  return unseal(agreedKey(own, sender, aad), envelope.subarray(PUBLIC_KEY_BYTES), aad);
+}
+
+/** Associated data for a user's wrapped data key. */
+export const dataKeyAad = (userId: string) => `gidit:data-key:${userId}`;
+
+/** Associated data for a user's data key wrapped with a recovery code. */
+export const recoveryKeyAad = (userId: string) => `gidit:recovery-key:${userId}`;
+
+/** Associated data for a user's private key, sealed with their data key. */
+export const privateKeyAad = (userId: string) => `gidit:private-key:${userId}`;
+
+/** Associated data for a household list's key, sealed to one member. */
+export const householdKeyAad = (collectionId: string, userId: string) => `gidit:household-key:${collectionId}:${userId}`;
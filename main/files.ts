@@ -0,0 +1,42 @@
+/**
+ * Electron main: native file dialogs for renderer downloads and imports.
+ *
+ * - files:save  writes a base64 payload to a path chosen in a save dialog.
+ * - files:open  reads a file chosen in an open dialog, as UTF-8 text or (for binary files
+ *   such as .gidit packages) base64.
+ */
+
+import { BrowserWindow, dialog, type IpcMain } from 'electron';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { handle } from './ipc';
+
+export function registerFileIpc(ipcMain: IpcMain) {
+  handle(ipcMain, 'files:save', async ({ fileName, dataBase64 }, event) => {
+    const win = BrowserWindow.fromWebContents(event.sender);
+    const options = { defaultPath: fileName };
+    const { canceled, filePath } = win
+      ? await dialog.showSaveDialog(win, options)
+      : await dialog.showSaveDialog(options);
+    if (canceled || !filePath) return { saved: false };
+
+    await fs.writeFile(filePath, Buffer.from(dataBase64, 'base64'));
+    return { saved: true, filePath };
+  });
+
+  handle(ipcMain, 'files:open', async (payload, event) => {
+    const win = BrowserWindow.fromWebContents(event.sender);
+    const extensions = payload?.extensions?.map((ext) => ext.replace(/^\./, ''));
+    const options: Electron.OpenDialogOptions = {
+      properties: ['openFile'],
+      filters: extensions?.length ? [{ name: 'Files', extensions }] : undefined,
+    };
+    const { canceled, filePaths } = win
+      ? await dialog.showOpenDialog(win, options)
+      : await dialog.showOpenDialog(options);
+    if (canceled || filePaths.length === 0) return null;
+
+    const content = await fs.readFile(filePaths[0], payload?.encoding ?? 'utf8');
+    return { fileName: path.basename(filePaths[0]), content };
+  });
+}
@@ -0,0 +1,174 @@
+/**
+ * Electron main: household collections shared between profiles (grocery list, chores).
+ *
+ * - A collection is visible to its member profiles only; the one creating it is always a
+ *   member. Any member may change the members, add, tick off, assign and remove items, or
+ *   delete the collection. A collection left without members is deleted.
+ * - No single profile's data key could open them for the others, so each collection is
+ *   sealed with a key of its own that every member holds a copy of (main/db.ts). A member
+ *   whose copy has not arrived yet (added while they had never signed in since) does not
+ *   see the collection until another member opens it.
+ * - Every change is pushed to the windows as 'household:changed' so open lists refresh.
+ *
+ * `createHouseholdService` is independent of Electron; `registerHouseholdIpc` wires it up.
+ */
+
+import { BrowserWindow, type IpcMain } from 'electron';
+import type { HouseholdCollection, HouseholdItem, HouseholdKind } from '../src/shared/types';
+import { getAuthService } from './auth';
+import {
+  getRepositories,
+  type HouseholdItemUpdates,
+  type HouseholdRepository,
+  type UserRepository,
+} from './db';
+import { emit, handle } from './ipc';
+import { currentProfileId } from './profiles';
+
+export class HouseholdError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: 'not-found' | 'invalid'
+  ) {
+    super(message);
+    this.name = 'HouseholdError';
+  }
+}
+
+export interface HouseholdServiceOptions {
+  repo: HouseholdRepository;
+  users: UserRepository;
+  /** The signed-in profile; throws when nobody is signed in. */
+  currentUserId: () => string;
+  /** Called after anything in a collection changed. */
+  onChanged?: (collectionId: string) => void;
+}
+
+export function createHouseholdService(opts: HouseholdServiceOptions) {
+  const { repo, users, currentUserId } = opts;
+  const changed = (collectionId: string) => opts.onChanged?.(collectionId);
+
+  /** The collection if the signed-in profile is a member; others count as missing. */
+  function ownCollection(collectionId: string): HouseholdCollection {
+    const collection = repo.findCollection(collectionId, currentUserId());
+    if (!collection) throw new HouseholdError('This list is not shared with you.', 'not-found');
+    return collection;
+  }
+
+  function ownItem(itemId: string): { item: HouseholdItem; collection: HouseholdCollection } {
+    const item = repo.findItem(itemId, currentUserId());
+    if (!item) throw new HouseholdError('This item no longer exists.', 'not-found');
+    return { item, collection: ownCollection(item.collectionId) };
+  }
+
+  function checkMembers(memberIds: string[]): string[] {
+    const unique = [...new Set(memberIds)];
+    if (unique.some((id) => !users.findById(id))) {
+      throw new HouseholdError('Lists can only be shared with profiles on this computer.', 'invalid');
+    }
+    return unique;
+  }
+
+  function checkAssignee(collection: HouseholdCollection, assigneeId: string | null | undefined) {
+    if (assigneeId && !collection.memberIds.includes(assigneeId)) {
+      throw new HouseholdError('Chores can only be assigned to members of the list.', 'invalid');
+    }
+  }
+
+  return {
+    list(): HouseholdCollection[] {
+      return repo.listFor(currentUserId());
+    },
+
+    create(input: { kind: HouseholdKind; title: string; memberIds: string[] }): HouseholdCollection {
+      const memberIds = checkMembers([currentUserId(), ...input.memberIds]);
+      const collection = repo.create({ kind: input.kind, title: input.title, memberIds }, currentUserId());
+      changed(collection.id);
+      return collection;
+    },
+
+    /** Replace the members; leaving yourself out leaves the list, and an empty list is deleted. */
+    setMembers(collectionId: string, memberIds: string[]): HouseholdCollection {
+      const collection = ownCollection(collectionId);
+      const members = checkMembers(memberIds);
+      if (members.length === 0) {
+        repo.delete(collectionId);
+        changed(collectionId);
+        return { ...collection, memberIds: [] };
+      }
+      const updated = repo.setMembers(collectionId, members, currentUserId())!;
+      changed(collectionId);
+      return updated;
+    },
+
+    delete(collectionId: string): boolean {
+      ownCollection(collectionId);
+      const success = repo.delete(collectionId);
+      if (success) changed(collectionId);
+      return success;
+    },
+
+    items(collectionId: string): HouseholdItem[] {
+      ownCollection(collectionId);
+      return repo.items(collectionId, currentUserId());
+    },
+
+    addItem(input: { collectionId: string; text: string; assigneeId: string | null }): HouseholdItem {
+      checkAssignee(ownCollection(input.collectionId), input.assigneeId);
+      const item = repo.addItem({ ...input, createdBy: currentUserId() });
+      changed(item.collectionId);
+      return item;
+    },
+
+    updateItem(itemId: string, updates: HouseholdItemUpdates): HouseholdItem {
+      const { collection } = ownItem(itemId);
+      checkAssignee(collection, updates.assigneeId);
+      const updated = repo.updateItem(itemId, updates, currentUserId())!;
+      changed(updated.collectionId);
+      return updated;
+    },
+
+    removeItem(itemId: string): boolean {
+      const { item } = ownItem(itemId);
+      const success = repo.removeItem(itemId);
+      if (success) changed(item.collectionId);
+      return success;
+    },
+  };
+}
+
+export type HouseholdService = ReturnType<typeof createHouseholdService>;
+
+/* -----------------------
+   App singleton + IPC
+   ----------------------- */
+
+let instance: HouseholdService | null = null;
+
+export function getHouseholdService(): HouseholdService {
+  if (!instance) {
+    const repos = getRepositories();
+    instance = createHouseholdService({
+      repo: repos.household,
+      users: repos.users,
+      currentUserId: () => currentProfileId(getAuthService()),
+      onChanged: (collectionId) => {
+        for (const window of BrowserWindow.getAllWindows()) {
+          emit(window.webContents, 'household:changed', { collectionId });
+        }
+      },
+    });
+  }
+  return instance;
+}
+
+export function registerHouseholdIpc(ipcMain: IpcMain, service: HouseholdService = getHouseholdService()) {
+  handle(ipcMain, 'household:list', () => service.list());
+  handle(ipcMain, 'household:create', (input) => service.create(input));
+  handle(ipcMain, 'household:setMembers', ({ collectionId, memberIds }) => service.setMembers(collectionId, memberIds));
+  handle(ipcMain, 'household:delete', (collectionId) => ({ success: service.delete(collectionId) }));
+  handle(ipcMain, 'household:items', (collectionId) => service.items(collectionId));
+  handle(ipcMain, 'household:addItem', (input) => service.addItem(input));
+  handle(ipcMain, 'household:updateItem', ({ itemId, ...updates }) => service.updateItem(itemId, updates));
+  handle(ipcMain, 'household:removeItem', (itemId) => ({ success: service.removeItem(itemId) }));
+}
@@ -0,0 +1,91 @@
+/**
+ * Electron main: locks the workspace when the computer is left alone.
+ *
+ * - Every CHECK_INTERVAL_MS the system idle time is compared with the signed-in profile's
+ *   IDLE_LOCK_SETTING (minutes; 0 turns auto-lock off, unset means DEFAULT_IDLE_LOCK_MINUTES).
+ * - Locking the operating system's screen or suspending the computer locks at once, as does
+ *   the File → Lock menu item (LOCK_ACCELERATOR).
+ * - The lock itself is AuthService.lockScreen (main/auth.ts); the renderer blurs the
+ *   workspace behind the lock screen while it is up.
+ *
+ * `createIdleLock` is independent of Electron; `startIdleLock` wires it up.
+ */
+
+import { powerMonitor, type MenuItemConstructorOptions } from 'electron';
+import { DEFAULT_IDLE_LOCK_MINUTES } from '../src/shared/types';
+import { getAuthService, type AuthService } from './auth';
+import type { SettingsRepository } from './db';
+import { getProfileSettings } from './profiles';
+
+export const IDLE_LOCK_SETTING = 'app-idle-lock-minutes';
+export const LOCK_ACCELERATOR = 'CmdOrCtrl+Shift+L';
+
+const CHECK_INTERVAL_MS = 15_000;
+
+/** The auto-lock delay in minutes; 0 when auto-lock is off. */
+export function idleLockMinutes(settings: SettingsRepository): number {
+  const raw = settings.get(IDLE_LOCK_SETTING);
+  const minutes = raw === null ? NaN : Number(raw);
+  return Number.isFinite(minutes) && minutes >= 0 ? minutes : DEFAULT_IDLE_LOCK_MINUTES;
+}
+
+export interface IdleLockOptions {
+  auth: Pick<AuthService, 'lockScreen'>;
+  settings: SettingsRepository;
+  /** Seconds since the last keyboard or mouse input anywhere on the system. */
+  idleSeconds: () => number;
+}
+
+export function createIdleLock(opts: IdleLockOptions) {
+  return {
+    /** Lock when the computer has been idle for longer than the setting allows. */
+    check(): boolean {
+      const minutes = idleLockMinutes(opts.settings);
+      if (minutes === 0 || opts.idleSeconds() < minutes * 60) return false;
+      return opts.auth.lockScreen();
+    },
+  };
+}
+
+/* -----------------------
+   App wiring
+   ----------------------- */
+
+let timer: NodeJS.Timeout | null = null;
+let lockNow: (() => void) | null = null;
+
+export function startIdleLock(auth: AuthService = getAuthService()) {
+  stopIdleLock();
+  const idleLock = createIdleLock({
+    auth,
+    settings: getProfileSettings(),
+    idleSeconds: () => powerMonitor.getSystemIdleTime(),
+  });
+  timer = setInterval(() => idleLock.check(), CHECK_INTERVAL_MS);
+  lockNow = () => {
+    auth.lockScreen();
+  };
+  powerMonitor.on('lock-screen', lockNow);
+  powerMonitor.on('suspend', lockNow);
+}
+
+export function stopIdleLock() {
+  if (timer) clearInterval(timer);
+  timer = null;
+  if (lockNow) {
+    powerMonitor.off('lock-screen', lockNow);
+    powerMonitor.off('suspend', lockNow);
+  }
+  lockNow = null;
+}
+
+/** File → Lock, for the application menu. */
+export function lockMenuItem(auth: AuthService = getAuthService()): MenuItemConstructorOptions {
+  return {
+    label: 'Lock',
+    accelerator: LOCK_ACCELERATOR,
+    click: () => {
+      auth.lockScreen();
+    },
+  };
+}
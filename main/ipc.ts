@@ -0,0 +1,60 @@
+/**
+ * Electron main: typed IPC registration helpers.
+ *
+ * `handle()` wraps `ipcMain.handle` so that:
+ * - the channel name must exist in the shared contract (src/shared/types.ts),
+ * - the incoming payload is validated with the channel's zod schema before the handler runs,
+ * - the handler's return type is checked against the declared response type.
+ *
+ * Invalid payloads reject the renderer's invoke() with an IpcValidationError message.
+ * `emit()` is the typed counterpart for main -> renderer events.
+ */
+
+import type { IpcMain, IpcMainInvokeEvent, WebContents } from 'electron';
+import type { ZodError } from 'zod';
+import {
+  ipcRequestSchemas,
+  type IpcChannel,
+  type IpcEventName,
+  type IpcEvents,
+  type IpcParsedRequest,
+  type IpcResponse,
+} from '../src/shared/types';
+
+export type IpcHandler<C extends IpcChannel> = (
+  payload: IpcParsedRequest<C>,
+  event: IpcMainInvokeEvent
+) => IpcResponse<C> | Promise<IpcResponse<C>>;
+
+export class IpcValidationError extends Error {
+  constructor(public readonly channel: IpcChannel, public readonly issues: ZodError['issues']) {
+    super(
+      `Invalid payload for "${channel}": ` +
+        issues.map((i) => `${i.path.join('.') || '(root)'} ${i.message}`).join('; ')
+    );
+    this.name = 'IpcValidationError';
+  }
+}
+
+/**
+ * Register a validated handler for a contract channel. Re-registering a channel
+ * replaces the previous handler (useful during dev reloads).
+ */
+export function handle<C extends IpcChannel>(ipcMain: IpcMain, channel: C, handler: IpcHandler<C>) {
+  const schema = ipcRequestSchemas[channel];
+  ipcMain.removeHandler(channel);
+  ipcMain.handle(channel, async (event, payload: unknown) => {
+    const parsed = schema.safeParse(payload);
+    if (!parsed.success) {
+      throw new IpcValidationError(channel, parsed.error.issues);
+    }
+    return handler(parsed.data as IpcParsedRequest<C>, event);
+  });
+}
+
+/**
+ * Push a contract event to one window. Silently dropped once the window is gone.
+ */
+export function emit<E extends IpcEventName>(target: WebContents, event: E, payload: IpcEvents[E]) {
+  if (!target.isDestroyed()) target.send(event, payload);
+}
@@ -0,0 +1,189 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { JobEvent } from '../src/shared/types';
+import { createJobQueue, JobCancelledError, type JobContext, type JobSpec } from './jobs';
+
+// The queue is under test, not the flows or sign-in behind the IPC (which would pull in Electron)
+vi.mock('../src/ai/dev', () => ({ runFlow: vi.fn(), toFlowErrorInfo: vi.fn() }));
+vi.mock('./auth', () => ({ getAuthService: vi.fn() }));
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+/** Lets queued promise callbacks run. */
+const settle = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+/** A job that runs until `finish` or `fail` is called, recording what happens to it. */
+function controlledJob(label: string, spec: Partial<JobSpec<string>> = {}) {
+  const events: JobEvent[] = [];
+  let ctx: JobContext | null = null;
+  let finish!: (output: string) => void;
+  let fail!: (err: Error) => void;
+  const job: JobSpec<string> = {
+    label,
+    lane: 'ollama',
+    ...spec,
+    run: (context) => {
+      ctx = context;
+      return new Promise<string>((resolve, reject) => {
+        finish = resolve;
+        fail = reject;
+      });
+    },
+    onEvent: (event) => events.push(event),
+  };
+  return {
+    job,
+    events,
+    started: () => ctx !== null,
+    ctx: () => ctx!,
+    finish: (output = label) => finish(output),
+    fail: (err: Error) => fail(err),
+  };
+}
+
+const statusOf = (queue: ReturnType<typeof createJobQueue>, id: string) =>
+  queue.list().find((job) => job.id === id)?.status;
+
+describe('createJobQueue', () => {
+  it('runs jobs up to each lane limit, lanes side by side', async () => {
+    const queue = createJobQueue({ limits: { ollama: 1 }, defaultLimit: 2 });
+    const first = controlledJob('first');
+    const second = controlledJob('second');
+    const cloud = [controlledJob('cloud 1', { lane: 'openai' }), controlledJob('cloud 2', { lane: 'openai' })];
+    const cloudWaiting = controlledJob('cloud 3', { lane: 'openai' });
+
+    const a = queue.enqueue(first.job);
+    const b = queue.enqueue(second.job);
+    cloud.forEach((c) => queue.enqueue(c.job));
+    queue.enqueue(cloudWaiting.job);
+    await settle();
+    expect([first, second, ...cloud, cloudWaiting].map((j) => j.started())).toEqual([true, false, true, true, false]);
+    expect(statusOf(queue, b.id)).toBe('queued');
+
+    first.finish();
+    expect(await a.result).toBe('first');
+    await settle();
+    expect(second.started()).toBe(true);
+    expect(statusOf(queue, a.id)).toBe('succeeded');
+    expect(first.events.map((e) => e.type)).toEqual(['status', 'status', 'succeeded']);
+  });
+
+  it('starts waiting jobs by priority, first come first served within one', async () => {
+    const queue = createJobQueue({ limits: { ollama: 1 } });
+    const blocker = controlledJob('blocker');
+    queue.enqueue(blocker.job);
+    const waiting = (['low', 'normal', 'high', 'normal'] as const).map((priority, i) =>
+      controlledJob(`${priority} ${i}`, { priority })
+    );
+    waiting.forEach((job) => queue.enqueue(job.job));
+    await settle();
+    blocker.finish();
+
+    const order: string[] = [];
+    for (let i = 0; i < waiting.length; i++) {
+      await settle();
+      const started = waiting.filter((job) => job.started() && !order.includes(job.job.label));
+      expect(started).toHaveLength(1);
+      order.push(started[0].job.label);
+      started[0].finish();
+    }
+    expect(order).toEqual(['high 2', 'normal 1', 'normal 3', 'low 0']);
+  });
+
+  it('cancels a queued job without running it', async () => {
+    const queue = createJobQueue({ limits: { ollama: 1 } });
+    const running = controlledJob('running');
+    const queued = controlledJob('queued');
+    queue.enqueue(running.job);
+    const { id, result } = queue.enqueue(queued.job);
+
+    expect(queue.cancel(id)).toBe(true);
+    await expect(result).rejects.toBeInstanceOf(JobCancelledError);
+    expect(statusOf(queue, id)).toBe('cancelled');
+    expect(queue.cancel(id)).toBe(false);
+
+    running.finish();
+    await settle();
+    expect(queued.started()).toBe(false);
+  });
+
+  it('aborts a running job but holds its lane until the work settles', async () => {
+    const queue = createJobQueue({ limits: { ollama: 1 } });
+    const running = controlledJob('running');
+    const next = controlledJob('next');
+    const { id, result } = queue.enqueue(running.job);
+    queue.enqueue(next.job);
+    await settle();
+
+    expect(queue.cancel(id)).toBe(true);
+    expect(running.ctx().signal.aborted).toBe(true);
+    await expect(result).rejects.toBeInstanceOf(JobCancelledError);
+    expect(statusOf(queue, id)).toBe('cancelled');
+    await settle();
+    expect(next.started()).toBe(false);
+
+    running.fail(new Error('aborted'));
+    await settle();
+    expect(next.started()).toBe(true);
+    expect(running.events.filter((e) => e.type === 'failed')).toEqual([]);
+  });
+
+  it('reports failures through describeError', async () => {
+    const queue = createJobQueue({
+      describeError: (err) => ({ kind: 'provider', message: `described: ${(err as Error).message}`, issues: [] }),
+    });
+    const job = controlledJob('failing');
+    const { result } = queue.enqueue(job.job);
+    await settle();
+    job.fail(new Error('boom'));
+
+    await expect(result).rejects.toThrow('boom');
+    expect(job.events[job.events.length - 1]).toMatchObject({
+      type: 'failed',
+      error: { kind: 'provider', message: 'described: boom' },
+    });
+  });
+
+  it("lists and cancels only the owner's jobs when given one", async () => {
+    const queue = createJobQueue();
+    const ada = queue.enqueue(controlledJob('ada', { owner: 'ada' }).job);
+    const bob = queue.enqueue(controlledJob('bob', { owner: 'bob' }).job);
+
+    expect(queue.list('ada').map((job) => job.id)).toEqual([ada.id]);
+    expect(queue.list().map((job) => job.id)).toEqual([ada.id, bob.id]);
+    expect(queue.cancel(bob.id, 'ada')).toBe(false);
+    expect(statusOf(queue, bob.id)).not.toBe('cancelled');
+    expect(queue.cancel(bob.id, 'bob')).toBe(true);
+    await expect(bob.result).rejects.toBeInstanceOf(JobCancelledError);
+    queue.cancelAll();
+    await expect(ada.result).rejects.toBeInstanceOf(JobCancelledError);
+  });
+
+  it('coalesces streamed output and flushes it before progress and the result', async () => {
+    vi.useFakeTimers();
+    const queue = createJobQueue();
+    const job = controlledJob('streaming');
+    const { result } = queue.enqueue(job.job);
+    await vi.advanceTimersByTimeAsync(0);
+    const partials = () => job.events.filter((e) => e.type === 'partial' || e.type === 'progress');
+
+    job.ctx().partial('Hel');
+    job.ctx().partial('lo');
+    expect(partials()).toEqual([]);
+    await vi.advanceTimersByTimeAsync(50);
+    expect(partials()).toEqual([{ type: 'partial', jobId: expect.any(String), delta: 'Hello' }]);
+
+    job.ctx().partial(', wor');
+    job.ctx().progress('writing', 50);
+    job.ctx().partial('ld');
+    job.finish('Hello, world');
+    await result;
+    expect(partials().slice(1).map((e) => (e.type === 'partial' ? e.delta : e.type))).toEqual([', wor', 'progress', 'ld']);
+    expect(job.events[job.events.length - 1]).toMatchObject({ type: 'succeeded', output: 'Hello, world' });
+
+    job.ctx().partial('late');
+    await vi.advanceTimersByTimeAsync(50);
+    expect(partials()).toHaveLength(4);
+  });
+});
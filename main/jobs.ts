@@ -0,0 +1,311 @@
+/**
+ * Electron main: background job queue for AI flows.
+ *
+ * Long flows (SBAR synthesis, document extraction, health summaries) would otherwise hold
+ * an `ipcMain.handle` call open for minutes with no way to follow or stop them. Here:
+ * - `jobs:start` queues a flow run and resolves immediately with the job id.
+ * - Progress, streamed output and the final result are pushed on 'jobs:event' to the
+ *   window that started the job.
+ * - `jobs:cancel` aborts the job's AbortSignal, which cancels the provider request,
+ *   Python worker call or child process the flow is waiting on.
+ * - Each job belongs to the profile that started it; other profiles cannot list or
+ *   cancel it.
+ *
+ * Scheduling:
+ * - Jobs run in priority order (high, normal, low), FIFO within a priority.
+ * - Each lane (the provider the job was queued for) has its own concurrency limit, so a
+ *   single local Ollama model is not flooded while cloud providers run side by side.
+ *
+ * `createJobQueue` is independent of Electron and flows; `registerJobIpc` wires it to
+ * the flow registry (src/ai/dev.ts).
+ */
+
+import { randomUUID } from 'crypto';
+import type { IpcMain } from 'electron';
+import type { FlowErrorInfo, JobEvent, JobPriority, JobSnapshot, JobStatus } from '../src/shared/types';
+import { runFlow, toFlowErrorInfo } from '../src/ai/dev';
+import { getAuthService, type AuthService } from './auth';
+import { emit, handle } from './ipc';
+import { currentProfileId } from './profiles';
+import { getSelectedProviderId } from './providers';
+
+/** Local models share one GPU/CPU; hosted providers tolerate a few parallel requests. */
+const DEFAULT_LANE_LIMITS: Record<string, number> = { ollama: 1, echo: 4 };
+const DEFAULT_LIMIT = 2;
+/** Finished jobs kept for `jobs:list`. */
+const KEEP_FINISHED = 50;
+/** Streamed tokens are coalesced into one 'partial' event per interval. */
+const PARTIAL_FLUSH_MS = 50;
+
+const PRIORITY_RANK: Record<JobPriority, number> = { high: 0, normal: 1, low: 2 };
+
+/* -----------------------
+   Types
+   ----------------------- */
+
+export interface JobContext {
+  signal: AbortSignal;
+  progress(stage: string, percent?: number): void;
+  partial(delta: string): void;
+}
+
+export interface JobSpec<T> {
+  /** Shown in listings, e.g. the flow name. */
+  label: string;
+  lane: string;
+  /** Who may list and cancel the job, e.g. a profile id. */
+  owner?: string;
+  priority?: JobPriority;
+  run: (ctx: JobContext) => Promise<T>;
+  onEvent?: (event: JobEvent) => void;
+}
+
+export interface JobQueueOptions {
+  limits?: Record<string, number>;
+  defaultLimit?: number;
+  /** Turns a failure into what the 'failed' event carries. */
+  describeError?: (err: unknown) => FlowErrorInfo;
+}
+
+export class JobCancelledError extends Error {
+  constructor(public readonly jobId: string) {
+    super('Job was cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+interface JobEntry {
+  snapshot: JobSnapshot;
+  seq: number;
+  controller: AbortController;
+  spec: JobSpec<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (err: unknown) => void;
+  partialBuffer: string;
+  partialTimer: NodeJS.Timeout | null;
+}
+
+const isFinished = (status: JobStatus) => status === 'succeeded' || status === 'failed' || status === 'cancelled';
+
+/* -----------------------
+   Queue
+   ----------------------- */
+
+export function createJobQueue(opts: JobQueueOptions = {}) {
+  const limits = { ...DEFAULT_LANE_LIMITS, ...opts.limits };
+  const defaultLimit = opts.defaultLimit ?? DEFAULT_LIMIT;
+  const describeError =
+    opts.describeError ??
+    ((err: unknown): FlowErrorInfo => ({
+      kind: 'unknown',
+      message: err instanceof Error ? err.message : String(err),
+      issues: [],
+    }));
+
+  const jobs = new Map<string, JobEntry>();
+  const waiting: JobEntry[] = [];
+  const runningPerLane = new Map<string, number>();
+  let seq = 0;
+
+  function send(entry: JobEntry, event: JobEvent) {
+    try {
+      entry.spec.onEvent?.(event);
+    } catch (err) {
+      console.error('[jobs] event listener failed:', err);
+    }
+  }
+
+  function flushPartial(entry: JobEntry) {
+    if (entry.partialTimer) clearTimeout(entry.partialTimer);
+    entry.partialTimer = null;
+    if (!entry.partialBuffer) return;
+    send(entry, { type: 'partial', jobId: entry.snapshot.id, delta: entry.partialBuffer });
+    entry.partialBuffer = '';
+  }
+
+  function prune() {
+    const finished = [...jobs.values()].filter((j) => isFinished(j.snapshot.status));
+    for (const entry of finished.slice(0, Math.max(0, finished.length - KEEP_FINISHED))) {
+      jobs.delete(entry.snapshot.id);
+    }
+  }
+
+  function finish(entry: JobEntry, status: 'succeeded' | 'failed' | 'cancelled', outcome: unknown) {
+    if (isFinished(entry.snapshot.status)) return;
+    entry.snapshot.status = status;
+    flushPartial(entry);
+    const jobId = entry.snapshot.id;
+    if (status === 'succeeded') {
+      send(entry, { type: 'succeeded', jobId, output: outcome });
+      entry.resolve(outcome);
+    } else if (status === 'failed') {
+      send(entry, { type: 'failed', jobId, error: describeError(outcome) });
+      entry.reject(outcome);
+    } else {
+      send(entry, { type: 'status', jobId, status: 'cancelled' });
+      entry.reject(new JobCancelledError(jobId));
+    }
+    prune();
+  }
+
+  function canRun(lane: string) {
+    return (runningPerLane.get(lane) ?? 0) < (limits[lane] ?? defaultLimit);
+  }
+
+  function start(entry: JobEntry) {
+    const { lane, id } = entry.snapshot;
+    runningPerLane.set(lane, (runningPerLane.get(lane) ?? 0) + 1);
+    entry.snapshot.status = 'running';
+    send(entry, { type: 'status', jobId: id, status: 'running' });
+
+    const ctx: JobContext = {
+      signal: entry.controller.signal,
+      progress(stage, percent) {
+        if (isFinished(entry.snapshot.status)) return;
+        entry.snapshot.stage = stage;
+        entry.snapshot.percent = percent;
+        flushPartial(entry);
+        send(entry, { type: 'progress', jobId: id, stage, percent });
+      },
+      partial(delta) {
+        if (isFinished(entry.snapshot.status)) return;
+        entry.partialBuffer += delta;
+        entry.partialTimer ??= setTimeout(() => flushPartial(entry), PARTIAL_FLUSH_MS);
+      },
+    };
+
+    // The lane slot is held until the work really settles, even after a cancel,
+    // so a flow that ignores its signal cannot push the lane over its limit.
+    Promise.resolve()
+      .then(() => entry.spec.run(ctx))
+      .then(
+        (output) => finish(entry, 'succeeded', output),
+        (err) => finish(entry, entry.controller.signal.aborted ? 'cancelled' : 'failed', err)
+      )
+      .finally(() => {
+        runningPerLane.set(lane, (runningPerLane.get(lane) ?? 1) - 1);
+        pump();
+      });
+  }
+
+  function pump() {
+    waiting.sort(
+      (a, b) => PRIORITY_RANK[a.snapshot.priority] - PRIORITY_RANK[b.snapshot.priority] || a.seq - b.seq
+    );
+    for (let i = 0; i < waiting.length; ) {
+      const entry = waiting[i];
+      if (canRun(entry.snapshot.lane)) {
+        waiting.splice(i, 1);
+        start(entry);
+      } else {
+        i++;
+      }
+    }
+  }
+
+  /**
+   * Queue a job. Returns its id right away; `result` settles when the job does
+   * (rejecting with JobCancelledError when cancelled).
+   */
+  function enqueue<T>(spec: JobSpec<T>): { id: string; result: Promise<T> } {
+    const id = randomUUID();
+    let resolve!: (value: unknown) => void;
+    let reject!: (err: unknown) => void;
+    const result = new Promise<T>((res, rej) => {
+      resolve = res as (value: unknown) => void;
+      reject = rej;
+    });
+    // Callers that only follow events must not trigger unhandled-rejection warnings.
+    result.catch(() => undefined);
+
+    const entry: JobEntry = {
+      snapshot: {
+        id,
+        flow: spec.label,
+        priority: spec.priority ?? 'normal',
+        status: 'queued',
+        lane: spec.lane,
+        createdAt: new Date().toISOString(),
+      },
+      seq: seq++,
+      controller: new AbortController(),
+      spec: spec as JobSpec<unknown>,
+      resolve,
+      reject,
+      partialBuffer: '',
+      partialTimer: null,
+    };
+    jobs.set(id, entry);
+    waiting.push(entry);
+    send(entry, { type: 'status', jobId: id, status: 'queued' });
+    pump();
+    return { id, result };
+  }
+
+  const ownedBy = (entry: JobEntry, owner?: string) => owner === undefined || entry.spec.owner === owner;
+
+  /**
+   * Cancel a queued or running job. Returns false if it is unknown, already finished or,
+   * when `owner` is given, someone else's.
+   */
+  function cancel(id: string, owner?: string): boolean {
+    const entry = jobs.get(id);
+    if (!entry || !ownedBy(entry, owner) || isFinished(entry.snapshot.status)) return false;
+
+    const index = waiting.indexOf(entry);
+    if (index !== -1) waiting.splice(index, 1);
+    entry.controller.abort();
+    finish(entry, 'cancelled', null);
+    return true;
+  }
+
+  /** Every job, or only `owner`'s when given. */
+  function list(owner?: string): JobSnapshot[] {
+    return [...jobs.values()].filter((j) => ownedBy(j, owner)).map((j) => ({ ...j.snapshot }));
+  }
+
+  /** Cancel everything (app quit). */
+  function cancelAll() {
+    for (const id of [...jobs.keys()]) cancel(id);
+  }
+
+  return { enqueue, cancel, list, cancelAll };
+}
+
+export type JobQueue = ReturnType<typeof createJobQueue>;
+
+/* -----------------------
+   App singleton + IPC
+   ----------------------- */
+
+let queue: JobQueue | null = null;
+
+export function getJobQueue(): JobQueue {
+  if (!queue) queue = createJobQueue({ describeError: toFlowErrorInfo });
+  return queue;
+}
+
+export function stopJobs() {
+  queue?.cancelAll();
+}
+
+/**
+ * `jobs:start` runs a manifest flow (see src/ai/flows/manifest.ts) in the queue, on the
+ * lane of the provider selected right now.
+ */
+export function registerJobIpc(ipcMain: IpcMain, auth: AuthService = getAuthService()) {
+  handle(ipcMain, 'jobs:start', ({ flow, input, priority }, event) => {
+    const sender = event.sender;
+    const { id } = getJobQueue().enqueue({
+      label: flow,
+      lane: getSelectedProviderId(),
+      owner: currentProfileId(auth),
+      priority,
+      run: ({ signal, progress, partial }) => runFlow(flow, input, { signal, progress, onToken: partial }),
+      onEvent: (jobEvent) => emit(sender, 'jobs:event', jobEvent),
+    });
+    return { jobId: id };
+  });
+  handle(ipcMain, 'jobs:cancel', (jobId) => ({ cancelled: getJobQueue().cancel(jobId, currentProfileId(auth)) }));
+  handle(ipcMain, 'jobs:list', () => getJobQueue().list(currentProfileId(auth)));
+}
@@ -0,0 +1,136 @@
+/**
+ * Electron main process entry.
+ *
+ * Responsibilities:
+ * - Create the browser window (Vite dev server in development, built renderer otherwise).
+ * - Open the local database and register IPC handlers before the renderer loads.
+ * - Set up the application menu (with File → Lock) and the idle lock. Packaged builds have no
+ *   developer tools, which would reach past the lock screen.
+ * - Close resources cleanly on quit.
+ */
+
+import { app, BrowserWindow, ipcMain, Menu, type MenuItemConstructorOptions } from 'electron';
+import path from 'path';
+import { getAuthService, registerAuthIpc, stopAuthService } from './auth';
+import { registerAuthenticatorIpc } from './authenticator';
+import { registerChatIpc, stopAllReplies } from './chat';
+import { closeDatabase, initDatabase, registerDbIpc } from './db';
+import { registerFileIpc } from './files';
+import { registerHouseholdIpc } from './household';
+import { lockMenuItem, startIdleLock, stopIdleLock } from './idle-lock';
+import { registerJobIpc, stopJobs } from './jobs';
+import { registerOllamaIpc } from './ollama';
+import { registerPackageIpc } from './packages';
+import { registerPageIpc } from './pages';
+import { currentProfileId, getProfileSettings, registerProfileIpc } from './profiles';
+import { stopPythonBridge } from './python-bridge';
+import { testApiKey } from './providers';
+import { registerSearchIpc } from './search';
+import { registerSecretIpc } from './secrets';
+import { getSemanticIndex, registerIndexIpc, stopSemanticIndex } from './semantic-index';
+import { registerTaskIpc } from './tasks';
+import { createDataKeyLookup, registerUserDataIpc } from './user-data';
+import { registerWidgetStateIpc } from './widget-state';
+import { initAIFlows, registerFlowIpc } from '../src/ai/dev';
+
+const DEV_SERVER_URL = process.env.VITE_DEV_SERVER_URL || 'http://localhost:5173';
+
+let mainWindow: BrowserWindow | null = null;
+
+function createWindow() {
+  mainWindow = new BrowserWindow({
+    width: 1440,
+    height: 900,
+    minWidth: 960,
+    minHeight: 640,
+    show: false,
+    webPreferences: {
+      preload: path.join(__dirname, 'preload.js'),
+      contextIsolation: true,
+      nodeIntegration: false,
+      devTools: !app.isPackaged,
+    },
+  });
+
+  mainWindow.once('ready-to-show', () => mainWindow?.show());
+  mainWindow.on('closed', () => {
+    mainWindow = null;
+  });
+
+  if (app.isPackaged) {
+    mainWindow.loadFile(path.join(__dirname, '..', 'index.html'));
+  } else {
+    mainWindow.loadURL(DEV_SERVER_URL);
+  }
+}
+
+/** The default menus, with Lock added to File; View (reload, developer tools) in development only. */
+function createMenu() {
+  const isMac = process.platform === 'darwin';
+  const template: MenuItemConstructorOptions[] = [
+    ...(isMac ? [{ role: 'appMenu' as const }] : []),
+    {
+      label: 'File',
+      submenu: [lockMenuItem(), { type: 'separator' }, isMac ? { role: 'close' } : { role: 'quit' }],
+    },
+    { role: 'editMenu' },
+    ...(app.isPackaged ? [] : [{ role: 'viewMenu' as const }]),
+    { role: 'windowMenu' },
+  ];
+  Menu.setApplicationMenu(Menu.buildFromTemplate(template));
+}
+
+app.whenReady().then(() => {
+  // The auth service needs the repositories, so the data key is looked up when it is used
+  const dataKeys = createDataKeyLookup({ unlocked: () => getAuthService().unlocked() });
+  const repos = initDatabase(path.join(app.getPath('userData'), 'gidit.db'), dataKeys);
+  registerDbIpc(ipcMain, { ...repos, settings: getProfileSettings() }, { currentUserId: () => currentProfileId() });
+  registerAuthIpc(ipcMain);
+  getAuthService().onChange((event) => {
+    if (event.type !== 'signed-in') return;
+    try {
+      repos.plaintext.seal(event.user.id);
+    } catch (err) {
+      console.error('[db] could not seal the data from before encryption:', err);
+    }
+  });
+  registerProfileIpc(ipcMain);
+  registerHouseholdIpc(ipcMain);
+  registerTaskIpc(ipcMain);
+  registerUserDataIpc(ipcMain);
+  registerPageIpc(ipcMain);
+  registerWidgetStateIpc(ipcMain);
+  registerPackageIpc(ipcMain);
+  registerSecretIpc(ipcMain, testApiKey);
+  registerAuthenticatorIpc(ipcMain);
+  registerFileIpc(ipcMain);
+  registerOllamaIpc(ipcMain);
+  initAIFlows();
+  registerFlowIpc(ipcMain);
+  registerJobIpc(ipcMain);
+  registerIndexIpc(ipcMain);
+  registerSearchIpc(ipcMain, repos.index);
+  registerChatIpc(ipcMain, repos.conversations, getSemanticIndex());
+  startIdleLock();
+
+  createMenu();
+  createWindow();
+
+  app.on('activate', () => {
+    if (BrowserWindow.getAllWindows().length === 0) createWindow();
+  });
+});
+
+app.on('window-all-closed', () => {
+  if (process.platform !== 'darwin') app.quit();
+});
+
+app.on('will-quit', () => {
+  stopJobs();
+  stopIdleLock();
+  stopAllReplies();
+  stopSemanticIndex();
+  stopAuthService();
+  void stopPythonBridge();
+  closeDatabase();
+});
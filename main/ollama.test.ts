@@ -0,0 +1,202 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createOllamaClient, OllamaError } from './ollama';
+
+// The settings lookups are not under test and would pull in Electron
+vi.mock('./profiles', () => ({ getProfileSettings: vi.fn() }));
+
+type Handler = (req: IncomingMessage & { json: any }, res: ServerResponse) => void;
+
+let server: Server;
+let host: string;
+let handler: Handler;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => handler(Object.assign(req, { json: body ? JSON.parse(body) : undefined }), res));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  host = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  handler = (_req, res) => {
+    res.writeHead(500).end();
+  };
+});
+
+const sendJson = (res: ServerResponse, body: unknown, status = 200) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+};
+
+const sendLines = (res: ServerResponse, lines: string[]) => {
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+  for (const line of lines) res.write(`${line}\n`);
+  res.end();
+};
+
+const rejection = (promise: Promise<unknown>) =>
+  promise.then(
+    () => {
+      throw new Error('expected a rejection');
+    },
+    (err: unknown) => err as OllamaError
+  );
+
+describe('generate', () => {
+  it('returns the reply and its counters', async () => {
+    handler = (req, res) => {
+      expect(req.url).toBe('/api/generate');
+      expect(req.json).toMatchObject({ model: 'llama3.2', prompt: 'hi', stream: false });
+      sendJson(res, { model: 'llama3.2', response: 'hello', done: true, prompt_eval_count: 2, eval_count: 1 });
+    };
+    const result = await createOllamaClient({ host }).generate({ model: 'llama3.2', prompt: 'hi' });
+    expect(result).toEqual({ model: 'llama3.2', text: 'hello', promptTokens: 2, completionTokens: 1, totalDurationNs: undefined });
+  });
+
+  it('streams tokens and returns the whole text', async () => {
+    handler = (req, res) => {
+      expect(req.json.stream).toBe(true);
+      sendLines(res, [
+        JSON.stringify({ model: 'llama3.2', response: 'hel' }),
+        JSON.stringify({ model: 'llama3.2', response: 'lo' }),
+        JSON.stringify({ model: 'llama3.2', response: '', done: true, eval_count: 2 }),
+      ]);
+    };
+    const tokens: string[] = [];
+    const result = await createOllamaClient({ host }).generate({
+      model: 'llama3.2',
+      prompt: 'hi',
+      onToken: (token) => tokens.push(token),
+    });
+    expect(tokens).toEqual(['hel', 'lo']);
+    expect(result.text).toBe('hello');
+    expect(result.completionTokens).toBe(2);
+  });
+
+  it('rejects a reply of the wrong shape', async () => {
+    handler = (_req, res) => sendJson(res, { response: 42 });
+    const err = await rejection(createOllamaClient({ host }).generate({ model: 'm', prompt: 'hi' }));
+    expect(err).toBeInstanceOf(OllamaError);
+    expect(err.kind).toBe('protocol');
+  });
+});
+
+describe('chat streams', () => {
+  const stream = (onToken = (_token: string) => {}) =>
+    createOllamaClient({ host }).chat({ model: 'm', messages: [{ role: 'user', content: 'hi' }], onToken });
+
+  it('deliver message tokens in order', async () => {
+    handler = (_req, res) =>
+      sendLines(res, [
+        JSON.stringify({ message: { role: 'assistant', content: 'a' } }),
+        JSON.stringify({ message: { role: 'assistant', content: 'b' } }),
+        JSON.stringify({ done: true }),
+      ]);
+    const tokens: string[] = [];
+    const result = await stream((token) => tokens.push(token));
+    expect(tokens).toEqual(['a', 'b']);
+    expect(result).toMatchObject({ model: 'm', text: 'ab' });
+  });
+
+  it('fail with the error Ollama reports mid-stream', async () => {
+    handler = (_req, res) =>
+      sendLines(res, [JSON.stringify({ message: { content: 'a' } }), JSON.stringify({ error: 'model ran out of memory' })]);
+    const tokens: string[] = [];
+    const err = await rejection(stream((token) => tokens.push(token)));
+    expect(tokens).toEqual(['a']);
+    expect(err).toMatchObject({ kind: 'protocol', message: 'model ran out of memory' });
+  });
+
+  it('fail on a line that is not JSON', async () => {
+    handler = (_req, res) => sendLines(res, ['{"message":']);
+    const err = await rejection(stream());
+    expect(err.kind).toBe('protocol');
+    expect(err.message).toMatch(/Malformed stream line/);
+  });
+
+  it('fail on a chunk of the wrong shape', async () => {
+    handler = (_req, res) => sendLines(res, [JSON.stringify({ message: { content: ['a'] } })]);
+    const err = await rejection(stream());
+    expect(err.kind).toBe('protocol');
+  });
+});
+
+describe('request errors', () => {
+  it('carry the HTTP status and Ollama\'s message', async () => {
+    handler = (_req, res) => sendJson(res, { error: "model 'x' not found" }, 404);
+    const err = await rejection(createOllamaClient({ host }).generate({ model: 'x', prompt: 'hi' }));
+    expect(err).toMatchObject({ kind: 'http', status: 404 });
+    expect(err.message).toMatch(/model 'x' not found/);
+  });
+
+  it('report a timeout', async () => {
+    handler = () => {
+      // never answers
+    };
+    const err = await rejection(createOllamaClient({ host, timeoutMs: 50 }).generate({ model: 'm', prompt: 'hi' }));
+    expect(err.kind).toBe('timeout');
+  });
+
+  it('report a cancelled request', async () => {
+    handler = () => {};
+    const controller = new AbortController();
+    const pending = createOllamaClient({ host }).generate({ model: 'm', prompt: 'hi', signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+    expect((await rejection(pending)).kind).toBe('aborted');
+  });
+
+  it('report an unreachable host', async () => {
+    const err = await rejection(createOllamaClient({ host: 'http://127.0.0.1:1' }).generate({ model: 'm', prompt: 'hi' }));
+    expect(err.kind).toBe('network');
+  });
+});
+
+describe('embed', () => {
+  it('returns one vector per input', async () => {
+    handler = (req, res) => sendJson(res, { embeddings: req.json.input.map((_: string, i: number) => [i, 1]) });
+    const vectors = await createOllamaClient({ host }).embed({ model: 'e', input: ['a', 'b'] });
+    expect(vectors).toEqual([
+      [0, 1],
+      [1, 1],
+    ]);
+  });
+
+  it('rejects a count that does not match the inputs', async () => {
+    handler = (_req, res) => sendJson(res, { embeddings: [[1]] });
+    const err = await rejection(createOllamaClient({ host }).embed({ model: 'e', input: ['a', 'b'] }));
+    expect(err.kind).toBe('protocol');
+  });
+
+  it('rejects vectors that are not numbers', async () => {
+    handler = (_req, res) => sendJson(res, { embeddings: [['1']] });
+    const err = await rejection(createOllamaClient({ host }).embed({ model: 'e', input: ['a'] }));
+    expect(err.kind).toBe('protocol');
+  });
+});
+
+describe('models and version', () => {
+  it('lists the installed models', async () => {
+    handler = (_req, res) =>
+      sendJson(res, {
+        models: [{ name: 'llama3.2:latest', size: 10, modified_at: '2024-01-01', details: { family: 'llama', parameter_size: '3B' } }],
+      });
+    expect(await createOllamaClient({ host }).listModels()).toEqual([
+      { name: 'llama3.2:latest', size: 10, modifiedAt: '2024-01-01', family: 'llama', parameterSize: '3B' },
+    ]);
+  });
+
+  it('gives a null version when Ollama is not reachable', async () => {
+    expect(await createOllamaClient({ host: 'http://127.0.0.1:1' }).version()).toBeNull();
+    handler = (_req, res) => sendJson(res, { version: '0.5.1' });
+    expect(await createOllamaClient({ host }).version()).toBe('0.5.1');
+  });
+});
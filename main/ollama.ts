@@ -0,0 +1,444 @@
+/**
+ * Electron main: HTTP client for the Ollama REST API.
+ *
+ * Replaces the per-flow `ollama` CLI invocations (whose flags differed between
+ * versions) with the documented HTTP endpoints:
+ * - POST /api/generate   single-prompt completion (optionally streamed, JSON mode, images)
+ * - POST /api/chat       multi-turn chat (optionally streamed)
+ * - POST /api/embed      text embeddings (semantic index)
+ * - GET  /api/tags       installed models
+ * - GET  /api/version    availability check
+ *
+ * Notes:
+ * - The host comes from the 'app-ollama-host' setting (Settings → AI → Ollama Host),
+ *   defaulting to http://127.0.0.1:11434. Point it at a local fake server in tests.
+ * - Every request accepts an AbortSignal and a timeout; both surface as OllamaError.
+ * - Streaming responses are newline-delimited JSON; tokens are delivered through
+ *   `onToken` and the full text is still returned when the stream finishes.
+ * - Response bodies are checked against the schemas below; one that does not match is an
+ *   OllamaError of kind 'protocol'.
+ */
+
+import type { IpcMain } from 'electron';
+import { z } from 'zod';
+import type { AiModelInfo } from '../src/shared/types';
+import type { SettingsRepository } from './db';
+import { handle } from './ipc';
+import { getProfileSettings } from './profiles';
+
+export const DEFAULT_OLLAMA_HOST = 'http://127.0.0.1:11434';
+export const DEFAULT_OLLAMA_MODEL = process.env.OLLAMA_MODEL || 'llama3.2';
+export const DEFAULT_OLLAMA_EMBED_MODEL = process.env.OLLAMA_EMBED_MODEL || 'nomic-embed-text';
+const DEFAULT_TIMEOUT_MS = 120_000;
+
+/** Settings keys shared with src/app/SettingsContext.tsx. */
+export const OLLAMA_HOST_SETTING = 'app-ollama-host';
+export const OLLAMA_MODEL_SETTING = 'app-ollama-model';
+
+/* -----------------------
+   Types
+   ----------------------- */
+
+export type OllamaRole = 'system' | 'user' | 'assistant';
+
+export interface OllamaMessage {
+  role: OllamaRole;
+  content: string;
+  /** Base64-encoded images (no data: prefix) for vision models. */
+  images?: string[];
+}
+
+export interface OllamaModelOptions {
+  temperature?: number;
+  num_predict?: number;
+  num_ctx?: number;
+  top_p?: number;
+  seed?: number;
+  stop?: string[];
+}
+
+interface RequestControls {
+  /** Cancels the request; the promise rejects with an OllamaError of kind 'aborted'. */
+  signal?: AbortSignal;
+  /** Overall deadline for the request in ms. */
+  timeoutMs?: number;
+  /** Receives each token as it streams in. Enables streaming when provided. */
+  onToken?: (token: string) => void;
+}
+
+export interface GenerateRequest extends RequestControls {
+  model: string;
+  prompt: string;
+  system?: string;
+  /** 'json' forces syntactically valid JSON output; a JSON schema object constrains it further. */
+  format?: 'json' | Record<string, unknown>;
+  images?: string[];
+  options?: OllamaModelOptions;
+}
+
+export interface ChatRequest extends RequestControls {
+  model: string;
+  messages: OllamaMessage[];
+  format?: 'json' | Record<string, unknown>;
+  options?: OllamaModelOptions;
+}
+
+export interface EmbedRequest extends Omit<RequestControls, 'onToken'> {
+  model: string;
+  input: string[];
+}
+
+export interface OllamaResult {
+  model: string;
+  text: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  totalDurationNs?: number;
+}
+
+export type OllamaModel = AiModelInfo;
+
+export type OllamaErrorKind = 'http' | 'network' | 'timeout' | 'aborted' | 'protocol';
+
+export class OllamaError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: OllamaErrorKind,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'OllamaError';
+  }
+}
+
+/* -----------------------
+   Response shapes
+   ----------------------- */
+
+/** Counters on a non-streamed reply and on the final (`done`) stream chunk. */
+const StatsSchema = z.object({
+  model: z.string().optional(),
+  done: z.boolean().optional(),
+  prompt_eval_count: z.number().optional(),
+  eval_count: z.number().optional(),
+  total_duration: z.number().optional(),
+});
+
+type Stats = z.infer<typeof StatsSchema>;
+
+const GenerateChunkSchema = StatsSchema.extend({ response: z.string().default('') });
+
+const ChatChunkSchema = StatsSchema.extend({
+  message: z.object({ content: z.string().default('') }).optional(),
+});
+
+const EmbedResponseSchema = z.object({ embeddings: z.array(z.array(z.number())) });
+
+const TagsResponseSchema = z.object({
+  models: z
+    .array(
+      z.object({
+        name: z.string().optional(),
+        model: z.string().optional(),
+        size: z.number().optional(),
+        modified_at: z.string().optional(),
+        details: z.object({ family: z.string().optional(), parameter_size: z.string().optional() }).optional(),
+      })
+    )
+    .default([]),
+});
+
+const VersionResponseSchema = z.object({ version: z.string().optional() });
+
+function parseResponse<T extends z.ZodTypeAny>(schema: T, data: unknown, path: string): z.output<T> {
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) throw new OllamaError(`Unexpected response from Ollama ${path}`, 'protocol');
+  return parsed.data;
+}
+
+export interface OllamaClientOptions {
+  host?: string;
+  timeoutMs?: number;
+  /** Injectable for tests; defaults to the global fetch. */
+  fetch?: typeof fetch;
+}
+
+/* -----------------------
+   Client
+   ----------------------- */
+
+export function createOllamaClient(opts: OllamaClientOptions = {}) {
+  const host = (opts.host || DEFAULT_OLLAMA_HOST).replace(/\/+$/, '');
+  const doFetch = opts.fetch ?? fetch;
+  const defaultTimeout = opts.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  /**
+   * Issue a request. Returns the response plus a mapper that classifies errors
+   * raised later while reading the body (timeout vs cancel vs network).
+   */
+  async function request(
+    path: string,
+    init: { method: 'GET' | 'POST'; body?: unknown },
+    controls: RequestControls = {}
+  ): Promise<{ res: Response; toError: (err: unknown) => OllamaError }> {
+    const timeoutMs = controls.timeoutMs ?? defaultTimeout;
+    const timeout = AbortSignal.timeout(timeoutMs);
+    const signal = controls.signal ? AbortSignal.any([controls.signal, timeout]) : timeout;
+
+    const toError = (err: unknown) => toOllamaError(err, timeout, timeoutMs, host);
+
+    let res: Response;
+    try {
+      res = await doFetch(`${host}${path}`, {
+        method: init.method,
+        headers: init.body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+        body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+        signal,
+      });
+    } catch (err) {
+      throw toError(err);
+    }
+
+    if (!res.ok) {
+      let detail = '';
+      try {
+        const body = (await res.json()) as { error?: string };
+        detail = body?.error ?? '';
+      } catch {
+        // body was not JSON
+      }
+      throw new OllamaError(
+        `Ollama ${path} failed with HTTP ${res.status}${detail ? `: ${detail}` : ''}`,
+        'http',
+        res.status
+      );
+    }
+    return { res, toError };
+  }
+
+  /** Read a whole JSON body and check it against `schema`. */
+  async function readJson<T extends z.ZodTypeAny>(
+    { res, toError }: { res: Response; toError: (err: unknown) => OllamaError },
+    schema: T,
+    path: string
+  ): Promise<z.output<T>> {
+    let data: unknown;
+    try {
+      data = await res.json();
+    } catch (err) {
+      throw toError(err);
+    }
+    return parseResponse(schema, data, path);
+  }
+
+  /**
+   * Read an NDJSON body, calling onChunk for every parsed line. Errors reported
+   * inside the stream (`{"error": "..."}`) are thrown as protocol errors.
+   */
+  async function readStream<T extends z.ZodTypeAny>(
+    { res, toError }: { res: Response; toError: (err: unknown) => OllamaError },
+    schema: T,
+    path: string,
+    onChunk: (chunk: z.output<T>) => void
+  ): Promise<void> {
+    if (!res.body) throw new OllamaError('Ollama returned an empty stream', 'protocol');
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const flushLine = (line: string) => {
+      if (!line.trim()) return;
+      let chunk: unknown;
+      try {
+        chunk = JSON.parse(line);
+      } catch {
+        throw new OllamaError(`Malformed stream line from Ollama: ${line.slice(0, 200)}`, 'protocol');
+      }
+      const error = (chunk as { error?: unknown } | null)?.error;
+      if (error) throw new OllamaError(String(error), 'protocol');
+      onChunk(parseResponse(schema, chunk, path));
+    };
+
+    try {
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        let newline: number;
+        while ((newline = buffer.indexOf('\n')) !== -1) {
+          flushLine(buffer.slice(0, newline));
+          buffer = buffer.slice(newline + 1);
+        }
+      }
+      flushLine(buffer + decoder.decode());
+    } catch (err) {
+      throw toError(err);
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  return {
+    host,
+
+    async generate(req: GenerateRequest): Promise<OllamaResult> {
+      const { signal, timeoutMs, onToken, ...body } = req;
+      const stream = typeof onToken === 'function';
+      const opened = await request(
+        '/api/generate',
+        { method: 'POST', body: { ...body, stream } },
+        { signal, timeoutMs }
+      );
+
+      if (!stream) {
+        const data = await readJson(opened, GenerateChunkSchema, '/api/generate');
+        return toResult(data, data.response);
+      }
+
+      let text = '';
+      let last: Stats = {};
+      await readStream(opened, GenerateChunkSchema, '/api/generate', (chunk) => {
+        if (chunk.response) {
+          text += chunk.response;
+          onToken!(chunk.response);
+        }
+        if (chunk.done) last = chunk;
+      });
+      return toResult({ model: req.model, ...last }, text);
+    },
+
+    async chat(req: ChatRequest): Promise<OllamaResult> {
+      const { signal, timeoutMs, onToken, ...body } = req;
+      const stream = typeof onToken === 'function';
+      const opened = await request(
+        '/api/chat',
+        { method: 'POST', body: { ...body, stream } },
+        { signal, timeoutMs }
+      );
+
+      if (!stream) {
+        const data = await readJson(opened, ChatChunkSchema, '/api/chat');
+        return toResult(data, data.message?.content ?? '');
+      }
+
+      let text = '';
+      let last: Stats = {};
+      await readStream(opened, ChatChunkSchema, '/api/chat', (chunk) => {
+        const token = chunk.message?.content;
+        if (token) {
+          text += token;
+          onToken!(token);
+        }
+        if (chunk.done) last = chunk;
+      });
+      return toResult({ model: req.model, ...last }, text);
+    },
+
+    /** One vector per input, in order. */
+    async embed(req: EmbedRequest): Promise<number[][]> {
+      const { signal, timeoutMs, ...body } = req;
+      const opened = await request('/api/embed', { method: 'POST', body }, { signal, timeoutMs });
+      const { embeddings } = await readJson(opened, EmbedResponseSchema, '/api/embed');
+      if (embeddings.length !== req.input.length) {
+        throw new OllamaError(`Ollama returned ${embeddings.length} embeddings for ${req.input.length} inputs`, 'protocol');
+      }
+      return embeddings;
+    },
+
+    async listModels(controls: Pick<RequestControls, 'signal' | 'timeoutMs'> = {}): Promise<OllamaModel[]> {
+      const opened = await request('/api/tags', { method: 'GET' }, { timeoutMs: 10_000, ...controls });
+      const { models } = await readJson(opened, TagsResponseSchema, '/api/tags');
+      return models.map((m) => ({
+        name: String(m.name ?? m.model),
+        size: Number(m.size ?? 0),
+        modifiedAt: String(m.modified_at ?? ''),
+        family: m.details?.family,
+        parameterSize: m.details?.parameter_size,
+      }));
+    },
+
+    /** Resolves with the server version, or null when Ollama is not reachable. */
+    async version(controls: Pick<RequestControls, 'signal' | 'timeoutMs'> = {}): Promise<string | null> {
+      try {
+        const opened = await request('/api/version', { method: 'GET' }, { timeoutMs: 3_000, ...controls });
+        const data = await readJson(opened, VersionResponseSchema, '/api/version');
+        return data.version ?? null;
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+export type OllamaClient = ReturnType<typeof createOllamaClient>;
+
+function toResult(data: Stats, text: string): OllamaResult {
+  return {
+    model: data.model ?? '',
+    text,
+    promptTokens: data.prompt_eval_count,
+    completionTokens: data.eval_count,
+    totalDurationNs: data.total_duration,
+  };
+}
+
+function toOllamaError(err: unknown, timeout: AbortSignal, timeoutMs: number, host: string): OllamaError {
+  if (err instanceof OllamaError) return err;
+  if (timeout.aborted) return new OllamaError(`Ollama request timed out after ${timeoutMs}ms`, 'timeout');
+  if ((err as Error)?.name === 'AbortError') return new OllamaError('Ollama request was cancelled', 'aborted');
+  return new OllamaError(
+    `Could not reach Ollama at ${host}. Is it running? (${(err as Error)?.message ?? String(err)})`,
+    'network'
+  );
+}
+
+/* -----------------------
+   App configuration
+   ----------------------- */
+
+/** The "Ollama Host" field in settings. */
+export function getOllamaHost(settings?: SettingsRepository): string {
+  try {
+    const host = (settings ?? getProfileSettings()).get(OLLAMA_HOST_SETTING);
+    return host?.trim() || DEFAULT_OLLAMA_HOST;
+  } catch {
+    return DEFAULT_OLLAMA_HOST;
+  }
+}
+
+/** Model chosen in settings, falling back to OLLAMA_MODEL / the built-in default. */
+export function getOllamaModel(settings?: SettingsRepository): string {
+  try {
+    return (settings ?? getProfileSettings()).get(OLLAMA_MODEL_SETTING) || DEFAULT_OLLAMA_MODEL;
+  } catch {
+    return DEFAULT_OLLAMA_MODEL;
+  }
+}
+
+/** A client pointed at the configured host. Cheap to create; call per request. */
+export function getOllamaClient(settings?: SettingsRepository): OllamaClient {
+  return createOllamaClient({ host: getOllamaHost(settings) });
+}
+
+export type PromptOptions = Omit<GenerateRequest, 'model' | 'prompt'> & { model?: string };
+
+/**
+ * Convenience used by the AI flows: run a single prompt against the configured
+ * host and model and return the generated text.
+ */
+export async function runPrompt(prompt: string, opts: PromptOptions = {}): Promise<string> {
+  const { model, ...rest } = opts;
+  const result = await getOllamaClient().generate({ model: model || getOllamaModel(), prompt, ...rest });
+  return result.text;
+}
+
+/* -----------------------
+   IPC
+   ----------------------- */
+
+export function registerOllamaIpc(ipcMain: IpcMain) {
+  handle(ipcMain, 'ai:listModels', async (payload) => {
+    const client = payload?.host ? createOllamaClient({ host: payload.host }) : getOllamaClient();
+    return client.listModels();
+  });
+}
@@ -0,0 +1,227 @@
+/**
+ * Electron main: .gidit packages, builder pages shared as a file (a zip made with jszip).
+ *
+ * - A package holds `manifest.json` (what it is, PACKAGE_FORMAT_VERSION, its name),
+ *   `pages.json` (the pages as an exported layout, read with `parseLayout` from main/pages.ts,
+ *   so pages from older versions are migrated and checked on import) and, only when the exporter asks
+ *   for it, `data.json` with what each widget keeps (main/widget-state.ts).
+ * - Widget data is personal (notes, scores, entries...): it is left out unless asked for, on
+ *   export and again on import. Tasks and the rest of the profile never go in.
+ * - A package is checked in full before anything is stored. Its entries are read up to
+ *   MAX_ENTRY_BYTES each, so a small file cannot unpack into an endless one.
+ * - Imported pages and widgets get new ids, so a package can be imported next to the pages
+ *   it came from, or twice. The builder adds the pages (and can undo that); the widget data
+ *   is stored under the new ids right away and goes with the widgets if they are removed.
+ *
+ * IPC: 'packages:export', 'packages:preview' and 'packages:import' (see src/services/packages.ts).
+ */
+
+import { randomUUID } from 'crypto';
+import type { IpcMain } from 'electron';
+import JSZip from 'jszip';
+import { z } from 'zod';
+import type { LayoutPage, PackageManifest, PackagePreview, WidgetStateValue } from '../src/shared/types';
+import { handle } from './ipc';
+import { LAYOUT_SCHEMA_VERSION, LayoutError, parseLayout } from './pages';
+import { getWidgetStateStore, type WidgetStateStore } from './widget-state';
+
+export class PackageError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: 'invalid' | 'version' | 'too-large'
+  ) {
+    super(message);
+    this.name = 'PackageError';
+  }
+}
+
+/** Raise when the package layout changes, and keep reading the older ones. */
+export const PACKAGE_FORMAT_VERSION = 1;
+
+const MAX_PACKAGE_BYTES = 50_000_000;
+/** Per entry, unpacked. */
+const MAX_ENTRY_BYTES = 100_000_000;
+
+const MANIFEST_FILE = 'manifest.json';
+const PAGES_FILE = 'pages.json';
+const DATA_FILE = 'data.json';
+
+const ManifestSchema = z.object({
+  format: z.literal('gidit-package'),
+  version: z.number().int().min(1),
+  name: z.string().max(200),
+  description: z.string().max(2_000).default(''),
+  createdAt: z.string().max(100),
+  includesData: z.boolean().default(false),
+});
+
+/** What each widget keeps, by item id and key. */
+const PackageDataSchema = z.record(
+  z.record(z.object({ version: z.number().int().min(0), value: z.string() }))
+);
+
+type PackageData = z.infer<typeof PackageDataSchema>;
+
+type ReadPackage = { manifest: PackageManifest; pages: LayoutPage[]; data: PackageData };
+
+const notAPackage = () => new PackageError('This is not a Gidit package.', 'invalid');
+
+/** An entry's text, or null when the package has no such entry. */
+function readEntry(zip: JSZip, name: string): Promise<string | null> {
+  const entry = zip.file(name);
+  if (!entry) return Promise.resolve(null);
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = entry.nodeStream('nodebuffer');
+    stream
+      .on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_ENTRY_BYTES) {
+          stream.pause();
+          reject(new PackageError('This package is too large to open.', 'too-large'));
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on('error', () => reject(notAPackage()))
+      .on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  });
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw notAPackage();
+  }
+}
+
+async function readPackage(dataBase64: string): Promise<ReadPackage> {
+  const bytes = Buffer.from(dataBase64, 'base64');
+  if (bytes.length > MAX_PACKAGE_BYTES) throw new PackageError('This package is too large to open.', 'too-large');
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(bytes);
+  } catch {
+    throw notAPackage();
+  }
+
+  const manifestText = await readEntry(zip, MANIFEST_FILE);
+  const manifest = ManifestSchema.safeParse(manifestText === null ? null : parseJson(manifestText));
+  if (!manifest.success) throw notAPackage();
+  if (manifest.data.version > PACKAGE_FORMAT_VERSION) {
+    throw new PackageError('This package was made by a newer version of Gidit. Update the app to open it.', 'version');
+  }
+
+  const pagesText = await readEntry(zip, PAGES_FILE);
+  if (pagesText === null) throw notAPackage();
+  let pages: LayoutPage[];
+  try {
+    pages = parseLayout(pagesText);
+  } catch (err) {
+    if (!(err instanceof LayoutError)) throw err;
+    if (err.kind === 'version') {
+      throw new PackageError('This package was made by a newer version of Gidit. Update the app to open it.', 'version');
+    }
+    throw new PackageError('This package\'s pages cannot be read.', 'invalid');
+  }
+  if (pages.length === 0) throw new PackageError('This package has no pages.', 'invalid');
+
+  let data: PackageData = {};
+  const dataText = manifest.data.includesData ? await readEntry(zip, DATA_FILE) : null;
+  if (dataText !== null) {
+    const parsed = PackageDataSchema.safeParse(parseJson(dataText));
+    if (!parsed.success) throw new PackageError('This package\'s widget data cannot be read.', 'invalid');
+    // Data for widgets the package does not have is ignored
+    const itemIds = new Set(pages.flatMap((page) => page.items.map((item) => item.id)));
+    data = Object.fromEntries(Object.entries(parsed.data).filter(([itemId]) => itemIds.has(itemId)));
+  }
+
+  return { manifest: manifest.data as PackageManifest, pages, data };
+}
+
+export interface PackageServiceOptions {
+  /** What widgets keep, for the signed-in user. */
+  widgetStates: Pick<WidgetStateStore, 'list' | 'set'>;
+  now?: () => Date;
+}
+
+export function createPackageService(opts: PackageServiceOptions) {
+  const { widgetStates, now = () => new Date() } = opts;
+
+  return {
+    /** The pages as a package's zip bytes, base64; what their widgets keep only with `includeData`. */
+    async export(input: { name: string; description: string; pages: LayoutPage[]; includeData: boolean }): Promise<string> {
+      const { name, description, pages, includeData } = input;
+      const manifest: PackageManifest = {
+        format: 'gidit-package',
+        version: PACKAGE_FORMAT_VERSION,
+        name,
+        description,
+        createdAt: now().toISOString(),
+        includesData: includeData,
+      };
+      const zip = new JSZip();
+      zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+      zip.file(PAGES_FILE, JSON.stringify({ schemaVersion: LAYOUT_SCHEMA_VERSION, pages }, null, 2));
+      if (includeData) {
+        const data: Record<string, Record<string, WidgetStateValue>> = {};
+        for (const item of pages.flatMap((page) => page.items)) {
+          const kept = widgetStates.list(item.id);
+          if (Object.keys(kept).length > 0) data[item.id] = kept;
+        }
+        zip.file(DATA_FILE, JSON.stringify(data));
+      }
+      const bytes = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+      return bytes.toString('base64');
+    },
+
+    /** What a package holds, checked in full; nothing is stored. */
+    async preview(dataBase64: string): Promise<PackagePreview> {
+      const { manifest, pages, data } = await readPackage(dataBase64);
+      return { manifest, pages, widgetsWithData: Object.keys(data).length };
+    },
+
+    /**
+     * The package's pages under new ids, for the builder to add. With `includeData`, what
+     * the package's widgets keep is stored for the new ids first.
+     */
+    async import(dataBase64: string, includeData: boolean): Promise<LayoutPage[]> {
+      const { pages, data } = await readPackage(dataBase64);
+      return pages.map((page) => ({
+        ...page,
+        id: randomUUID(),
+        items: page.items.map((item) => {
+          const id = `${item.widgetId}-${randomUUID()}`;
+          if (includeData) {
+            for (const [key, kept] of Object.entries(data[item.id] ?? {})) {
+              widgetStates.set(id, key, kept.version, kept.value);
+            }
+          }
+          return { ...item, id };
+        }),
+      }));
+    },
+  };
+}
+
+export type PackageService = ReturnType<typeof createPackageService>;
+
+/* -----------------------
+   App singleton + IPC
+   ----------------------- */
+
+let instance: PackageService | null = null;
+
+export function getPackageService(): PackageService {
+  instance ??= createPackageService({ widgetStates: getWidgetStateStore() });
+  return instance;
+}
+
+export function registerPackageIpc(ipcMain: IpcMain, service: PackageService = getPackageService()) {
+  handle(ipcMain, 'packages:export', async (input) => ({ dataBase64: await service.export(input) }));
+  handle(ipcMain, 'packages:preview', ({ dataBase64 }) => service.preview(dataBase64));
+  handle(ipcMain, 'packages:import', ({ dataBase64, includeData }) => service.import(dataBase64, includeData));
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from 'vitest';
+import { LAYOUT_SCHEMA_VERSION, LayoutError, parseLayout } from './pages';
+
+// Sign-in is not under test (and would pull in Electron)
+vi.mock('./auth', () => ({ getAuthService: vi.fn() }));
+
+const page = { id: 'home', name: 'Home', icon: 'Home', columns: 4, items: [] };
+
+const rejects = (content: unknown) => {
+  try {
+    parseLayout(JSON.stringify(content));
+  } catch (err) {
+    return err as LayoutError;
+  }
+  throw new Error('expected a LayoutError');
+};
+
+describe('parseLayout', () => {
+  it('reads a current layout as it is', () => {
+    const item = { id: 'notes-1', widgetId: 'notes', width: 2, height: 1, x: 0, y: 0 };
+    const pages = parseLayout(JSON.stringify({ schemaVersion: LAYOUT_SCHEMA_VERSION, pages: [{ ...page, items: [item] }] }));
+    expect(pages).toEqual([{ ...page, items: [item] }]);
+  });
+
+  it('checks a current layout like the pages the builder saves', () => {
+    const broken = { ...page, items: [{ id: 'notes-1', widgetId: 'notes', width: 'wide', height: 1, x: 0, y: 0 }] };
+    expect(rejects({ schemaVersion: LAYOUT_SCHEMA_VERSION, pages: [broken] })).toMatchObject({ kind: 'invalid' });
+    expect(rejects({ schemaVersion: LAYOUT_SCHEMA_VERSION, pages: [{ name: 'No id' }] })).toMatchObject({ kind: 'invalid' });
+  });
+
+  it('refuses a layout from a newer version', () => {
+    expect(rejects({ schemaVersion: LAYOUT_SCHEMA_VERSION + 1, pages: [] })).toMatchObject({ kind: 'version' });
+  });
+
+  it('gives unversioned widgets ids from the page id they end up with', () => {
+    const [migrated] = parseLayout(JSON.stringify({ pages: [{ name: 'Old', items: [{ widgetId: 'notes' }, { widgetId: 'clock' }] }] }));
+    expect(migrated.id).toBe('page-1');
+    expect(migrated.items.map((item) => item.id)).toEqual(['notes-page-1-0', 'clock-page-1-1']);
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Electron main: the builder's pages and widgets, per user.
+ *
+ * - Every page and every widget is a row (PageRepository in main/db.ts) sealed with the
+ *   signed-in user's data key, bound to its user and id. Saving replaces the whole layout in
+ *   one transaction, so a failed save leaves the previous layout intact.
+ * - A layout is stamped with LAYOUT_SCHEMA_VERSION. Older layouts (including the single
+ *   'app-state' value earlier versions kept in the user's encrypted data, and exported
+ *   files) are brought up to date through `layoutMigrations` when loaded; a layout from a
+ *   newer version is refused rather than saved over.
+ * - Widgets sit at explicit cells of their page's grid (src/shared/grid.ts); layouts from
+ *   before that, where widgets flowed in order, are given the positions they were shown at.
+ * - What widgets keep (main/widget-state.ts) is dropped for widgets no longer on any page
+ *   whenever the pages are loaded.
+ * - Widgets this version does not know are kept as they are; the builder shows them as a
+ *   placeholder the user can remove.
+ *
+ * IPC: 'pages:load', 'pages:save' and 'pages:import' (see src/services/pages.ts).
+ */
+
+import type { IpcMain } from 'electron';
+import { DEFAULT_COLUMNS, flowPositions } from '../src/shared/grid';
+import { ipcRequestSchemas, type LayoutItem, type LayoutPage, type PageLayout } from '../src/shared/types';
+import { getAuthService } from './auth';
+import { getRepositories, type PageRepository, type StoredLayout, type WidgetStateRepository } from './db';
+import { EncryptionError, seal, unseal } from './encryption';
+import { handle } from './ipc';
+import { getUserDataStore, type DataKeySource, type UserDataStore } from './user-data';
+
+export class LayoutError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: 'locked' | 'unreadable' | 'version' | 'invalid'
+  ) {
+    super(message);
+    this.name = 'LayoutError';
+  }
+}
+
+/** Where layouts were kept before they had rows of their own. */
+export const LEGACY_LAYOUT_KEY = 'app-state';
+
+/* -----------------------
+   Migrations
+   ----------------------- */
+
+export type LayoutMigration = {
+  version: number;
+  name: string;
+  /** Takes the layout's pages as the previous version left them; returns them as this one leaves them. */
+  up: (pages: unknown[]) => unknown[];
+};
+
+const DEFAULT_WIDGET_SIZE = 2;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const positiveInt = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 1 ? Math.round(value) : fallback;
+
+/** A page as versions before 2 saved it: widgets in order, without positions. */
+type OrderedPage = Omit<LayoutPage, 'columns' | 'items'> & { items: { width: number; height: number }[] };
+
+/**
+ * Ordered layout migrations. Never edit one that has shipped; append a new one with the next
+ * version number and raise LAYOUT_SCHEMA_VERSION to it.
+ */
+export const layoutMigrations: LayoutMigration[] = [
+  {
+    version: 1,
+    name: 'versioned layout',
+    // The unversioned layout was whatever the builder had in memory: drop what cannot be a
+    // page or widget, and give the rest the fields every later version relies on.
+    up: (pages) =>
+      pages.filter(isRecord).map((page, index) => {
+        const id = typeof page.id === 'string' && page.id ? page.id : `page-${index + 1}`;
+        return {
+          id,
+          name: typeof page.name === 'string' ? page.name : `Page ${index + 1}`,
+          icon: typeof page.icon === 'string' ? page.icon : 'File',
+          items: (Array.isArray(page.items) ? page.items : [])
+            .filter((item): item is Record<string, unknown> => isRecord(item) && typeof item.widgetId === 'string')
+            .map((item, itemIndex) => ({
+              ...item,
+              id: typeof item.id === 'string' && item.id ? item.id : `${item.widgetId}-${id}-${itemIndex}`,
+              widgetId: item.widgetId as string,
+              width: positiveInt(item.width, DEFAULT_WIDGET_SIZE),
+              height: positiveInt(item.height, DEFAULT_WIDGET_SIZE),
+            })),
+        };
+      }),
+  },
+  {
+    version: 2,
+    name: 'grid positions',
+    // Widgets flowed through a four-column grid in the order saved; pin each where it was shown.
+    up: (pages) =>
+      (pages as OrderedPage[]).map((page) => ({
+        ...page,
+        columns: DEFAULT_COLUMNS,
+        items: flowPositions(page.items, DEFAULT_COLUMNS),
+      })),
+  },
+];
+
+export const LAYOUT_SCHEMA_VERSION = layoutMigrations[layoutMigrations.length - 1].version;
+
+/** Bring pages saved with `fromVersion` (0: unversioned) up to LAYOUT_SCHEMA_VERSION. */
+export function migrateLayout(pages: unknown[], fromVersion: number): LayoutPage[] {
+  if (fromVersion > LAYOUT_SCHEMA_VERSION) {
+    throw new LayoutError('These pages were saved by a newer version of Gidit. Update the app to open them.', 'version');
+  }
+  return layoutMigrations
+    .filter((migration) => migration.version > fromVersion)
+    .reduce((current: unknown[], migration) => migration.up(current), pages) as LayoutPage[];
+}
+
+/**
+ * A layout document as exported or kept under LEGACY_LAYOUT_KEY, migrated to this version and
+ * checked like the pages the builder saves.
+ */
+export function parseLayout(content: string): LayoutPage[] {
+  let document: unknown;
+  try {
+    document = JSON.parse(content);
+  } catch {
+    throw new LayoutError('This is not a saved layout.', 'invalid');
+  }
+  if (!isRecord(document) || !Array.isArray(document.pages)) {
+    throw new LayoutError('This is not a saved layout.', 'invalid');
+  }
+  const version = document.schemaVersion ?? 0;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new LayoutError('This layout has an unknown format.', 'invalid');
+  }
+  const checked = ipcRequestSchemas['pages:save'].safeParse({ pages: migrateLayout(document.pages, version) });
+  if (!checked.success) throw new LayoutError('This layout has pages that cannot be read.', 'invalid');
+  return checked.data.pages as LayoutPage[];
+}
+
+/* -----------------------
+   Store
+   ----------------------- */
+
+const pageAad = (userId: string, pageId: string) => `gidit:page:${userId}:${pageId}`;
+const itemAad = (userId: string, itemId: string) => `gidit:page-item:${userId}:${itemId}`;
+
+export interface PageStoreOptions {
+  repo: PageRepository;
+  keys: DataKeySource;
+  /** The user's encrypted values, for layouts saved before pages had rows of their own. */
+  legacy: Pick<UserDataStore, 'get' | 'set'>;
+  /** What widgets keep (main/widget-state.ts); that of widgets no longer on a page goes on load. */
+  widgetStates: Pick<WidgetStateRepository, 'retain'>;
+}
+
+export function createPageStore(opts: PageStoreOptions) {
+  const { repo, keys, legacy, widgetStates } = opts;
+
+  function unlocked() {
+    const found = keys.unlocked();
+    if (!found) throw new LayoutError('Sign in to open your pages.', 'locked');
+    return found;
+  }
+
+  function open<T>(dataKey: Buffer, sealed: Buffer, aad: string): T {
+    try {
+      return JSON.parse(unseal(dataKey, sealed, aad).toString('utf8')) as T;
+    } catch (err) {
+      if (!(err instanceof EncryptionError)) throw err;
+      throw new LayoutError('Your pages could not be decrypted.', 'unreadable');
+    }
+  }
+
+  function write(pages: LayoutPage[]): void {
+    const { userId, dataKey } = unlocked();
+    const layout: StoredLayout = { schemaVersion: LAYOUT_SCHEMA_VERSION, pages: [], items: [] };
+    const seen = new Set<string>();
+    for (const { items, ...page } of pages) {
+      if (seen.has(`page:${page.id}`)) throw new LayoutError(`Page ${page.id} is listed twice.`, 'invalid');
+      seen.add(`page:${page.id}`);
+      layout.pages.push({ id: page.id, data: seal(dataKey, JSON.stringify(page), pageAad(userId, page.id)) });
+      for (const item of items) {
+        if (seen.has(item.id)) throw new LayoutError(`Widget ${item.id} is placed twice.`, 'invalid');
+        seen.add(item.id);
+        layout.items.push({ id: item.id, pageId: page.id, data: seal(dataKey, JSON.stringify(item), itemAad(userId, item.id)) });
+      }
+    }
+    repo.replace(userId, layout);
+  }
+
+  function read(userId: string, dataKey: Buffer): LayoutPage[] {
+    const stored = repo.load(userId);
+    if (!stored) {
+      const content = legacy.get(LEGACY_LAYOUT_KEY);
+      if (content === null) return [];
+      const pages = parseLayout(content);
+      write(pages);
+      legacy.set(LEGACY_LAYOUT_KEY, null);
+      return pages;
+    }
+
+    const itemsByPage = new Map<string, LayoutItem[]>();
+    for (const row of stored.items) {
+      const items = itemsByPage.get(row.pageId) ?? [];
+      items.push(open<LayoutItem>(dataKey, row.data, itemAad(userId, row.id)));
+      itemsByPage.set(row.pageId, items);
+    }
+    const saved = stored.pages.map((row) => ({
+      ...open<Omit<LayoutPage, 'items'>>(dataKey, row.data, pageAad(userId, row.id)),
+      items: itemsByPage.get(row.id) ?? [],
+    }));
+    if (stored.schemaVersion === LAYOUT_SCHEMA_VERSION) return saved;
+
+    const pages = migrateLayout(saved, stored.schemaVersion);
+    write(pages);
+    return pages;
+  }
+
+  return {
+    /**
+     * The signed-in user's pages. A layout from before pages had rows is moved into them on
+     * the way; older layouts are migrated and saved back.
+     */
+    load(): PageLayout {
+      const { userId, dataKey } = unlocked();
+      const pages = read(userId, dataKey);
+      // Widgets removed in an earlier session are gone for good (undo lasts a session): so is their data
+      widgetStates.retain(userId, pages.flatMap((page) => page.items.map((item) => item.id)));
+      return { schemaVersion: LAYOUT_SCHEMA_VERSION, pages };
+    },
+    /** Replace the signed-in user's pages; all or nothing. */
+    save(pages: LayoutPage[]): void {
+      write(pages);
+    },
+    /** Replace the signed-in user's pages with those of an exported layout. */
+    import(content: string): PageLayout {
+      const pages = parseLayout(content);
+      write(pages);
+      return { schemaVersion: LAYOUT_SCHEMA_VERSION, pages };
+    },
+  };
+}
+
+export type PageStore = ReturnType<typeof createPageStore>;
+
+/* -----------------------
+   App singleton + IPC
+   ----------------------- */
+
+let instance: PageStore | null = null;
+
+export function getPageStore(): PageStore {
+  const repos = getRepositories();
+  instance ??= createPageStore({
+    repo: repos.pages,
+    keys: getAuthService(),
+    legacy: getUserDataStore(),
+    widgetStates: repos.widgetStates,
+  });
+  return instance;
+}
+
+export function registerPageIpc(ipcMain: IpcMain, store: PageStore = getPageStore()) {
+  handle(ipcMain, 'pages:load', () => store.load());
+  handle(ipcMain, 'pages:save', ({ pages }) => {
+    store.save(pages);
+  });
+  handle(ipcMain, 'pages:import', ({ content }) => store.import(content));
+}
@@ -0,0 +1,23 @@
+/**
+ * Electron preload: exposes the single typed IPC bridge as `window.api`.
+ *
+ * The bridge shape is `RendererBridge` from src/shared/types.ts. Only types are imported
+ * here so the preload stays free of runtime dependencies (it runs sandboxed); payloads
+ * are validated by the main-process handlers registered through main/ipc.ts.
+ */
+
+import { contextBridge, ipcRenderer, type IpcRendererEvent } from 'electron';
+import type { RendererBridge } from '../src/shared/types';
+
+const api: RendererBridge = {
+  invoke: (channel, ...args) => ipcRenderer.invoke(channel, ...args),
+  on: (event, listener) => {
+    const wrapped = (_event: IpcRendererEvent, payload: Parameters<typeof listener>[0]) => listener(payload);
+    ipcRenderer.on(event, wrapped);
+    return () => {
+      ipcRenderer.removeListener(event, wrapped);
+    };
+  },
+};
+
+contextBridge.exposeInMainWorld('api', api);
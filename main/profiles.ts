@@ -0,0 +1,123 @@
+/**
+ * Electron main: local profiles and what the signed-in one may see.
+ *
+ * - Every account is a profile with a display name, an avatar (an emoji or initials) and a
+ *   colour, listed for the switcher before anyone signs in. Only one profile is signed in
+ *   at a time (main/auth.ts); switching is signing in as another one.
+ * - `currentProfileId` is the gate every per-profile channel goes through: tasks, settings,
+ *   conversations, indexed items and search answer for the signed-in profile only, whatever
+ *   the renderer asks for, and not at all while the lock screen is up.
+ * - Settings are stored per profile. A profile without its own value sees the app-wide one
+ *   (user id ''), which is also what is read while nobody is signed in. Writing a setting
+ *   needs a signed-in profile, so a choice made on the sign-in screen does not reach them all.
+ *
+ * IPC: 'profiles:list', 'profiles:update'.
+ */
+
+import { createHash } from 'crypto';
+import type { IpcMain } from 'electron';
+import type { ProfileSummary } from '../src/shared/types';
+import { getAuthService, type AuthService } from './auth';
+import { getRepositories, type SettingsRepository, type UserRecord, type UserRepository } from './db';
+import { handle } from './ipc';
+
+/** Avatar colours handed out to profiles that have not picked one. */
+const PROFILE_COLORS = ['#6d28d9', '#db2777', '#ea580c', '#16a34a', '#0891b2', '#2563eb', '#ca8a04', '#9333ea'];
+
+export class ProfileError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: 'signed-out' | 'screen-locked' | 'not-found'
+  ) {
+    super(message);
+    this.name = 'ProfileError';
+  }
+}
+
+/** Initials from the display name, e.g. 'Ada Lovelace' -> 'AL'. */
+function initialsOf(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  const letters = words.length > 1 ? words[0][0] + words[words.length - 1][0] : (words[0] ?? '?').slice(0, 1);
+  return letters.toUpperCase();
+}
+
+/** The same profile always gets the same colour. */
+function defaultColorOf(userId: string): string {
+  const n = createHash('sha256').update(userId).digest().readUInt32BE(0);
+  return PROFILE_COLORS[n % PROFILE_COLORS.length];
+}
+
+export function toProfile(user: UserRecord): ProfileSummary {
+  const displayName = user.displayName ?? user.username;
+  return {
+    id: user.id,
+    username: user.username,
+    displayName,
+    avatar: user.avatar ?? initialsOf(displayName),
+    color: user.color ?? defaultColorOf(user.id),
+  };
+}
+
+/** The signed-in profile's id. Throws ProfileError when nobody is signed in or the screen is locked. */
+export function currentProfileId(auth: Pick<AuthService, 'currentUser' | 'screenLocked'> = getAuthService()): string {
+  const user = auth.currentUser();
+  if (!user) throw new ProfileError('Sign in to a profile first.', 'signed-out');
+  if (auth.screenLocked()) throw new ProfileError('Unlock the app first.', 'screen-locked');
+  return user.id;
+}
+
+/**
+ * `settings` as the signed-in profile sees it: its own values over the app-wide ones.
+ * Passing a user id explicitly still reaches that user's values alone, as with the plain
+ * repository. Without one, `set` throws ProfileError while nobody is signed in.
+ */
+export function createProfileSettings(
+  settings: SettingsRepository,
+  currentUserId: () => string | null
+): SettingsRepository {
+  const own = (userId: string | undefined) => userId ?? currentUserId() ?? '';
+  return {
+    get(key, userId) {
+      const id = own(userId);
+      const value = settings.get(key, id);
+      return value !== null || id === '' || userId !== undefined ? value : settings.get(key);
+    },
+    set(key, value, userId) {
+      if (userId === undefined && currentUserId() === null) {
+        throw new ProfileError('Sign in to a profile to change its settings.', 'signed-out');
+      }
+      settings.set(key, value, own(userId));
+    },
+    all(userId) {
+      const id = own(userId);
+      return id === '' || userId !== undefined ? settings.all(id) : { ...settings.all(), ...settings.all(id) };
+    },
+    clear: (userId) => settings.clear(userId),
+  };
+}
+
+/* -----------------------
+   App singleton + IPC
+   ----------------------- */
+
+let settingsInstance: SettingsRepository | null = null;
+
+/** The app's settings for the signed-in profile; main readers (providers, Ollama) use this. */
+export function getProfileSettings(): SettingsRepository {
+  settingsInstance ??= createProfileSettings(getRepositories().settings, () => getAuthService().currentUser()?.id ?? null);
+  return settingsInstance;
+}
+
+export function registerProfileIpc(
+  ipcMain: IpcMain,
+  users: UserRepository = getRepositories().users,
+  auth: AuthService = getAuthService()
+) {
+  handle(ipcMain, 'profiles:list', () => users.list().map(toProfile));
+
+  handle(ipcMain, 'profiles:update', (updates) => {
+    const updated = users.updateProfile(currentProfileId(auth), updates);
+    if (!updated) throw new ProfileError('This profile no longer exists.', 'not-found');
+    return toProfile(updated);
+  });
+}
@@ -0,0 +1,234 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ApiKeyProvider } from '../src/shared/types';
+import { createSettingsRepository, openDatabase, type SettingsRepository } from './db';
+import {
+  AI_PROVIDER_SETTING,
+  completeChat,
+  createAnthropicProvider,
+  createEchoProvider,
+  createGeminiProvider,
+  createOpenAiCompatibleProvider,
+  createProvider,
+  generateText,
+  getSelectedProviderId,
+  ProviderError,
+  readApiKey,
+  resolveProvider,
+  setProviderOverride,
+  supportsCapability,
+  type AiProviderClient,
+} from './providers';
+import type { SecretVault } from './secrets';
+import { UserDataError } from './user-data';
+
+const keys = vi.hoisted(() => new Map<string, string>());
+
+// Sign-in is not under test (and would pull in Electron); the vault is a plain map
+vi.mock('./auth', () => ({ getAuthService: vi.fn() }));
+vi.mock('./secrets', () => ({
+  getSecretVault: () => ({ apiKey: (provider: ApiKeyProvider) => keys.get(provider) ?? null }),
+}));
+
+let settings: SettingsRepository;
+
+beforeEach(() => {
+  vi.stubEnv('GIDIT_AI_PROVIDER', '');
+  settings = createSettingsRepository(openDatabase(':memory:'));
+  keys.clear();
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  setProviderOverride(null);
+});
+
+const rejection = (promise: Promise<unknown>) =>
+  promise.then(
+    () => {
+      throw new Error('expected a rejection');
+    },
+    (err: unknown) => err as ProviderError
+  );
+
+const catching = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (err) {
+    return err as ProviderError;
+  }
+  throw new Error('expected an error');
+};
+
+/** A fetch that answers every request with `body`. */
+const replying = (body: unknown, init: ResponseInit = {}) =>
+  vi.fn(async () => new Response(typeof body === 'string' ? body : JSON.stringify(body), init)) as unknown as typeof fetch;
+
+describe('provider selection', () => {
+  it('follows the setting, then falls back to the default', () => {
+    expect(getSelectedProviderId(settings)).toBe('ollama');
+    settings.set(AI_PROVIDER_SETTING, 'anthropic');
+    expect(getSelectedProviderId(settings)).toBe('anthropic');
+  });
+
+  it('lets GIDIT_AI_PROVIDER win over the setting', () => {
+    settings.set(AI_PROVIDER_SETTING, 'anthropic');
+    vi.stubEnv('GIDIT_AI_PROVIDER', 'echo');
+    expect(getSelectedProviderId(settings)).toBe('echo');
+    expect(resolveProvider([], settings).id).toBe('echo');
+  });
+
+  it('needs an API key for the hosted providers', () => {
+    const err = catching(() => createProvider('openai', settings));
+    expect(err).toBeInstanceOf(ProviderError);
+    expect(err).toMatchObject({ kind: 'config', provider: 'openai' });
+
+    keys.set('openai', 'sk-test');
+    expect(createProvider('openai', settings)).toMatchObject({ id: 'openai', model: 'gpt-4o-mini' });
+  });
+
+  it('tells a locked vault apart from a missing key', () => {
+    const locked = {
+      apiKey: () => {
+        throw new UserDataError('Sign in to open your data.', 'locked');
+      },
+    } as unknown as SecretVault;
+    expect(catching(() => readApiKey('gemini', locked))).toMatchObject({ kind: 'locked', provider: 'gemini' });
+  });
+
+  it('fails fast when the provider lacks a capability', () => {
+    settings.set(AI_PROVIDER_SETTING, 'groq');
+    keys.set('groq', 'gsk-test');
+    expect(resolveProvider(['chat', 'tools'], settings).id).toBe('groq');
+    expect(catching(() => resolveProvider(['vision'], settings))).toMatchObject({ kind: 'capability', provider: 'groq' });
+  });
+
+  it('uses the override for every flow until it is cleared', async () => {
+    setProviderOverride(createEchoProvider([{ match: 'ping', response: 'pong' }]));
+    expect(await generateText('ping')).toBe('pong');
+    expect(supportsCapability('vision')).toBe(true);
+
+    setProviderOverride(null);
+    vi.stubEnv('GIDIT_AI_PROVIDER', 'openai');
+    expect(supportsCapability('chat')).toBe(false);
+  });
+
+  it('asks for the capabilities a request implies', async () => {
+    const textOnly: AiProviderClient = { ...createEchoProvider(), capabilities: new Set(['chat']) };
+    setProviderOverride(textOnly);
+    expect((await completeChat([{ role: 'user', content: 'hi' }])).text).toBe('hi');
+    expect(await rejection(completeChat([{ role: 'user', content: 'hi' }], { json: true }))).toMatchObject({ kind: 'capability' });
+    expect(await rejection(generateText('look', { images: ['iVBOR'] }))).toMatchObject({ kind: 'capability' });
+  });
+});
+
+describe('echo provider', () => {
+  it('replies from the first matching fixture', async () => {
+    const echo = createEchoProvider([
+      { match: /^sum/, response: { total: 3 } },
+      { match: 'hello', response: 'hi there' },
+      { match: (req) => !!req.json, response: 'json' },
+    ]);
+    const ask = (content: string, json = false) => echo.complete({ messages: [{ role: 'user', content }], json });
+    expect((await ask('sum 1 2')).text).toBe('{"total":3}');
+    expect((await ask('well hello')).text).toBe('hi there');
+    expect((await ask('anything', true)).text).toBe('json');
+  });
+
+  it('echoes the last user message, as JSON when asked', async () => {
+    const echo = createEchoProvider();
+    const messages = [
+      { role: 'user' as const, content: 'first' },
+      { role: 'assistant' as const, content: 'ok' },
+      { role: 'user' as const, content: 'second one' },
+    ];
+    expect((await echo.complete({ messages })).text).toBe('second one');
+    expect(JSON.parse((await echo.complete({ messages, json: true })).text)).toEqual({ echo: 'second one' });
+  });
+
+  it('streams the reply word by word', async () => {
+    const tokens: string[] = [];
+    const result = await createEchoProvider().complete({
+      messages: [{ role: 'user', content: 'one two  three' }],
+      onToken: (token) => tokens.push(token),
+    });
+    expect(tokens).toEqual(['one ', 'two  ', 'three']);
+    expect(tokens.join('')).toBe(result.text);
+  });
+
+  it('returns fixture tool calls only when tools were offered', async () => {
+    const echo = createEchoProvider([{ match: 'add', response: '', toolCalls: [{ name: 'addTask', arguments: { title: 'x' } }] }]);
+    const messages = [{ role: 'user' as const, content: 'add a task' }];
+    expect((await echo.complete({ messages })).toolCalls).toBeUndefined();
+    const tools = [{ name: 'addTask', description: 'Add a task', parameters: {} }];
+    expect((await echo.complete({ messages, tools })).toolCalls).toEqual([{ name: 'addTask', arguments: { title: 'x' } }]);
+  });
+
+  it('honours an aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const err = await rejection(createEchoProvider().complete({ messages: [], signal: controller.signal }));
+    expect(err.kind).toBe('aborted');
+  });
+});
+
+describe('HTTP providers', () => {
+  const messages = [{ role: 'user' as const, content: 'hi' }];
+
+  it('read OpenAI-compatible replies and tool calls', async () => {
+    const fetch = replying({
+      model: 'gpt-4o-mini-2024',
+      choices: [
+        {
+          message: {
+            content: null,
+            tool_calls: [{ id: 'call_1', function: { name: 'addTask', arguments: '{"title":"x"}' } }],
+          },
+        },
+      ],
+    });
+    const result = await createOpenAiCompatibleProvider('openai', { apiKey: 'k', fetch }).complete({ messages });
+    expect(result).toEqual({
+      provider: 'openai',
+      model: 'gpt-4o-mini-2024',
+      text: '',
+      toolCalls: [{ id: 'call_1', name: 'addTask', arguments: { title: 'x' } }],
+    });
+  });
+
+  it('stream Anthropic text and fail on an error event', async () => {
+    const events = [
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'he' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'y' } },
+      { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } },
+    ];
+    const fetch = replying(events.map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join(''));
+    const tokens: string[] = [];
+    const err = await rejection(
+      createAnthropicProvider({ apiKey: 'k', fetch }).complete({ messages, onToken: (token) => tokens.push(token) })
+    );
+    expect(tokens).toEqual(['he', 'y']);
+    expect(err).toMatchObject({ kind: 'protocol', message: 'Overloaded' });
+  });
+
+  it('read Gemini function calls', async () => {
+    const fetch = replying({
+      candidates: [{ content: { parts: [{ text: 'ok' }, { functionCall: { name: 'addTask', args: { title: 'x' } } }] } }],
+    });
+    const result = await createGeminiProvider({ apiKey: 'k', fetch }).complete({ messages });
+    expect(result.text).toBe('ok');
+    expect(result.toolCalls).toEqual([{ name: 'addTask', arguments: { title: 'x' } }]);
+  });
+
+  it('reject replies of the wrong shape', async () => {
+    const fetch = replying({ choices: [{ message: { content: 42 } }] });
+    const err = await rejection(createOpenAiCompatibleProvider('groq', { apiKey: 'k', fetch }).complete({ messages }));
+    expect(err).toMatchObject({ kind: 'protocol', provider: 'groq' });
+  });
+
+  it('report HTTP errors with the provider\'s message', async () => {
+    const fetch = replying({ error: { message: 'Invalid API key' } }, { status: 401 });
+    const err = await rejection(createAnthropicProvider({ apiKey: 'k', fetch }).complete({ messages }));
+    expect(err).toMatchObject({ kind: 'http', status: 401 });
+    expect(err.message).toMatch(/Invalid API key/);
+  });
+});
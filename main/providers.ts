@@ -0,0 +1,860 @@
+/**
+ * Electron main: AI provider router.
+ *
+ * Every flow asks for a completion through `generateText` (single prompt) or
+ * `completeChat` (messages) and states the capabilities it needs. The router picks
+ * the provider selected in Settings → AI ('app-ai-provider') and configures it from
+ * the signed-in user's API key in the vault (main/secrets.ts; for Ollama, the host URL
+ * setting instead).
+ *
+ * Providers:
+ * - ollama                      local HTTP API (main/ollama.ts)
+ * - openai / groq / deepseek    OpenAI-compatible /chat/completions
+ * - anthropic                   /v1/messages
+ * - gemini                      generativelanguage v1beta generateContent
+ * - echo                        deterministic, offline; replies from fixtures or echoes the prompt
+ *
+ * Notes:
+ * - Set GIDIT_AI_PROVIDER=echo (or call setProviderOverride) to run flows offline in tests.
+ * - A provider missing a required capability fails fast with a ProviderError of kind
+ *   'capability' instead of sending a request it cannot honour.
+ * - The vault opens with the user's data key, so while the session is locked (after a
+ *   restart, until the password is entered) a hosted provider fails with kind 'locked'
+ *   rather than claiming no key is set.
+ * - Images are passed as bare base64 strings; each provider wraps them as it expects.
+ * - `tools` (JSON-schema function declarations) need the 'tools' capability; the calls the
+ *   model makes come back unvalidated in `toolCalls`. Nothing is executed here.
+ * - Responses and stream events are checked against the schemas under "Response shapes";
+ *   one that does not match is a ProviderError of kind 'protocol'.
+ */
+
+import { z } from 'zod';
+import type { AiCapability, AIProvider, ApiKeyProvider, ApiKeyTestResult } from '../src/shared/types';
+import { DEFAULT_AI_PROVIDER } from '../src/shared/types';
+import type { SettingsRepository } from './db';
+import { createOllamaClient, getOllamaHost, getOllamaModel, OllamaError } from './ollama';
+import { getProfileSettings } from './profiles';
+import { getSecretVault, type SecretVault } from './secrets';
+import { UserDataError } from './user-data';
+
+export const AI_PROVIDER_SETTING = 'app-ai-provider';
+const DEFAULT_TIMEOUT_MS = 120_000;
+
+/* -----------------------
+   Types
+   ----------------------- */
+
+export type ProviderId = AIProvider | 'echo';
+
+export interface AiMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  /** Base64-encoded images (no data: prefix). Requires the 'vision' capability. */
+  images?: string[];
+}
+
+/** A function the model may call, described with a JSON schema for its arguments. */
+export interface AiToolSpec {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface AiToolCall {
+  /** Provider-assigned id, when there is one. */
+  id?: string;
+  name: string;
+  /** Parsed arguments; the raw string when the model sent invalid JSON. */
+  arguments: unknown;
+}
+
+export interface CompletionRequest {
+  messages: AiMessage[];
+  /** Overrides the provider's configured model. */
+  model?: string;
+  /** Ask for a bare JSON object. Requires the 'json' capability. */
+  json?: boolean;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  /** Receives tokens as they stream in. Enables streaming when provided. */
+  onToken?: (token: string) => void;
+  /** Functions the model may call. Requires the 'tools' capability. */
+  tools?: AiToolSpec[];
+}
+
+export interface CompletionResult {
+  provider: ProviderId;
+  model: string;
+  text: string;
+  /** Function calls the model made instead of (or besides) replying with text. */
+  toolCalls?: AiToolCall[];
+}
+
+export interface AiProviderClient {
+  id: ProviderId;
+  model: string;
+  capabilities: ReadonlySet<AiCapability>;
+  complete(req: CompletionRequest): Promise<CompletionResult>;
+}
+
+export type ProviderErrorKind =
+  | 'config'
+  | 'locked'
+  | 'capability'
+  | 'http'
+  | 'network'
+  | 'timeout'
+  | 'aborted'
+  | 'protocol';
+
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: ProviderErrorKind,
+    public readonly provider: ProviderId,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+export interface HttpProviderOptions {
+  apiKey: string;
+  model?: string;
+  baseUrl?: string;
+  /** Injectable for tests; defaults to the global fetch. */
+  fetch?: typeof fetch;
+}
+
+/* -----------------------
+   Response shapes
+   ----------------------- */
+
+/** Error bodies: `{"error": {"message": ...}}` from most APIs, a bare string or message from some. */
+const ErrorBodySchema = z.object({
+  error: z.union([z.string(), z.object({ message: z.string() })]).optional(),
+  message: z.string().optional(),
+});
+
+const OpenAiToolCallSchema = z.object({
+  index: z.number().optional(),
+  id: z.string().optional(),
+  function: z.object({ name: z.string().optional(), arguments: z.string().optional() }).optional(),
+});
+
+const OpenAiMessageSchema = z.object({
+  content: z.string().nullish(),
+  tool_calls: z.array(OpenAiToolCallSchema).nullish(),
+});
+
+const OpenAiResponseSchema = z.object({
+  model: z.string().optional(),
+  choices: z.array(z.object({ message: OpenAiMessageSchema })).default([]),
+});
+
+const OpenAiChunkSchema = z.object({
+  choices: z.array(z.object({ delta: OpenAiMessageSchema.optional() })).default([]),
+});
+
+const AnthropicBlockSchema = z.object({
+  type: z.string(),
+  text: z.string().optional(),
+  id: z.string().optional(),
+  name: z.string().optional(),
+  input: z.unknown().optional(),
+});
+
+const AnthropicResponseSchema = z.object({
+  model: z.string().optional(),
+  content: z.array(AnthropicBlockSchema).default([]),
+});
+
+const AnthropicEventSchema = z.object({
+  type: z.string(),
+  index: z.number().optional(),
+  content_block: AnthropicBlockSchema.optional(),
+  delta: z
+    .object({ type: z.string().optional(), text: z.string().optional(), partial_json: z.string().optional() })
+    .optional(),
+  error: z.object({ message: z.string().optional() }).optional(),
+});
+
+/** generateContent replies and streamGenerateContent events have the same shape. */
+const GeminiResponseSchema = z.object({
+  candidates: z
+    .array(
+      z.object({
+        content: z
+          .object({
+            parts: z
+              .array(
+                z.object({
+                  text: z.string().optional(),
+                  functionCall: z.object({ name: z.string(), args: z.unknown().optional() }).optional(),
+                })
+              )
+              .default([]),
+          })
+          .optional(),
+      })
+    )
+    .default([]),
+});
+
+type GeminiResponse = z.output<typeof GeminiResponseSchema>;
+
+function parseResponse<T extends z.ZodTypeAny>(provider: ProviderId, schema: T, data: unknown): z.output<T> {
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) throw new ProviderError(`Unexpected response from ${provider}`, 'protocol', provider);
+  return parsed.data;
+}
+
+/* -----------------------
+   HTTP helpers
+   ----------------------- */
+
+export async function postJson(
+  provider: ProviderId,
+  doFetch: typeof fetch,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  req: Pick<CompletionRequest, 'signal' | 'timeoutMs'>
+): Promise<{ res: Response; toError: (err: unknown) => ProviderError }> {
+  const timeoutMs = req.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const timeout = AbortSignal.timeout(timeoutMs);
+  const signal = req.signal ? AbortSignal.any([req.signal, timeout]) : timeout;
+
+  const toError = (err: unknown): ProviderError => {
+    if (err instanceof ProviderError) return err;
+    if (timeout.aborted) return new ProviderError(`${provider} request timed out after ${timeoutMs}ms`, 'timeout', provider);
+    if ((err as Error)?.name === 'AbortError') return new ProviderError(`${provider} request was cancelled`, 'aborted', provider);
+    return new ProviderError(`Could not reach ${provider}: ${(err as Error)?.message ?? String(err)}`, 'network', provider);
+  };
+
+  let res: Response;
+  try {
+    res = await doFetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (err) {
+    throw toError(err);
+  }
+
+  if (!res.ok) {
+    let detail = '';
+    try {
+      const parsed = ErrorBodySchema.safeParse(await res.json());
+      const { error, message } = parsed.success ? parsed.data : {};
+      detail = (typeof error === 'string' ? error : error?.message) ?? message ?? '';
+    } catch {
+      // body was not JSON
+    }
+    throw new ProviderError(
+      `${provider} request failed with HTTP ${res.status}${detail ? `: ${detail}` : ''}`,
+      'http',
+      provider,
+      res.status
+    );
+  }
+  return { res, toError };
+}
+
+/** Read a whole JSON body and check it against `schema`. */
+export async function readJson<T extends z.ZodTypeAny>(
+  provider: ProviderId,
+  { res, toError }: { res: Response; toError: (err: unknown) => ProviderError },
+  schema: T
+): Promise<z.output<T>> {
+  let data: unknown;
+  try {
+    data = await res.json();
+  } catch (err) {
+    throw toError(err);
+  }
+  return parseResponse(provider, schema, data);
+}
+
+/** Read a server-sent-events body, calling onData with each `data:` payload. */
+async function readSse(
+  { res, toError }: { res: Response; toError: (err: unknown) => ProviderError },
+  onData: (data: string) => void
+): Promise<void> {
+  if (!res.body) throw toError(new Error('empty stream'));
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flushLine = (line: string) => {
+    if (line.startsWith('data:')) onData(line.slice(5).trim());
+  };
+
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        flushLine(buffer.slice(0, newline).replace(/\r$/, ''));
+        buffer = buffer.slice(newline + 1);
+      }
+    }
+    flushLine(buffer + decoder.decode());
+  } catch (err) {
+    throw toError(err);
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseJsonEvent<T extends z.ZodTypeAny>(provider: ProviderId, data: string, schema: T): z.output<T> {
+  let event: unknown;
+  try {
+    event = JSON.parse(data);
+  } catch {
+    throw new ProviderError(`Malformed stream event from ${provider}: ${data.slice(0, 200)}`, 'protocol', provider);
+  }
+  return parseResponse(provider, schema, event);
+}
+
+/** Best-effort MIME type from the first bytes of a base64 image. */
+export function sniffImageMime(base64: string): string {
+  if (base64.startsWith('/9j/')) return 'image/jpeg';
+  if (base64.startsWith('iVBOR')) return 'image/png';
+  if (base64.startsWith('R0lGOD')) return 'image/gif';
+  if (base64.startsWith('UklGR')) return 'image/webp';
+  return 'image/png';
+}
+
+const JSON_INSTRUCTION = 'Respond with a single valid JSON object only. No prose, no markdown fences.';
+
+/** Tool arguments arrive as a JSON string from most APIs; keep the raw text if it does not parse. */
+function parseToolArguments(raw: unknown): unknown {
+  if (typeof raw !== 'string') return raw ?? {};
+  if (!raw.trim()) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+/** Collects streamed tool-call fragments by index. */
+function createToolCallCollector() {
+  const slots: Array<{ id?: string; name: string; args: string }> = [];
+  return {
+    add(index: number, part: { id?: string; name?: string; args?: string }) {
+      const slot = (slots[index] ??= { name: '', args: '' });
+      if (part.id) slot.id = part.id;
+      if (part.name) slot.name += part.name;
+      if (part.args) slot.args += part.args;
+    },
+    calls(): AiToolCall[] | undefined {
+      const calls = slots
+        .filter((slot) => slot?.name)
+        .map((slot) => ({ id: slot.id, name: slot.name, arguments: parseToolArguments(slot.args) }));
+      return calls.length ? calls : undefined;
+    },
+  };
+}
+
+/* -----------------------
+   Providers
+   ----------------------- */
+
+export function createOllamaProvider(opts: { host?: string; model?: string; fetch?: typeof fetch } = {}): AiProviderClient {
+  const client = createOllamaClient({ host: opts.host, fetch: opts.fetch });
+  const model = opts.model || getOllamaModel();
+
+  return {
+    id: 'ollama',
+    model,
+    // No 'tools': support varies per local model, so chat falls back to prompted tool calls.
+    capabilities: new Set<AiCapability>(['chat', 'json', 'vision']),
+
+    async complete(req) {
+      try {
+        const result = await client.chat({
+          model: req.model || model,
+          messages: req.messages,
+          format: req.json ? 'json' : undefined,
+          options: { temperature: req.temperature, num_predict: req.maxTokens },
+          signal: req.signal,
+          timeoutMs: req.timeoutMs,
+          onToken: req.onToken,
+        });
+        return { provider: 'ollama', model: result.model || req.model || model, text: result.text };
+      } catch (err) {
+        if (err instanceof OllamaError) throw new ProviderError(err.message, err.kind, 'ollama', err.status);
+        throw err;
+      }
+    },
+  };
+}
+
+const OPENAI_COMPATIBLE: Record<'openai' | 'groq' | 'deepseek', { baseUrl: string; model: string; capabilities: AiCapability[] }> = {
+  openai: { baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o-mini', capabilities: ['chat', 'json', 'vision', 'tools'] },
+  groq: { baseUrl: 'https://api.groq.com/openai/v1', model: 'llama-3.3-70b-versatile', capabilities: ['chat', 'json', 'tools'] },
+  deepseek: { baseUrl: 'https://api.deepseek.com/v1', model: 'deepseek-chat', capabilities: ['chat', 'json', 'tools'] },
+};
+
+export function createOpenAiCompatibleProvider(
+  id: 'openai' | 'groq' | 'deepseek',
+  opts: HttpProviderOptions
+): AiProviderClient {
+  const preset = OPENAI_COMPATIBLE[id];
+  const baseUrl = (opts.baseUrl || preset.baseUrl).replace(/\/+$/, '');
+  const model = opts.model || preset.model;
+  const doFetch = opts.fetch ?? fetch;
+
+  return {
+    id,
+    model,
+    capabilities: new Set(preset.capabilities),
+
+    async complete(req) {
+      const stream = typeof req.onToken === 'function';
+      const messages = req.messages.map((m) =>
+        m.images?.length
+          ? {
+              role: m.role,
+              content: [
+                { type: 'text', text: m.content },
+                ...m.images.map((img) => ({
+                  type: 'image_url',
+                  image_url: { url: `data:${sniffImageMime(img)};base64,${img}` },
+                })),
+              ],
+            }
+          : { role: m.role, content: m.content }
+      );
+
+      const opened = await postJson(
+        id,
+        doFetch,
+        `${baseUrl}/chat/completions`,
+        { Authorization: `Bearer ${opts.apiKey}` },
+        {
+          model: req.model || model,
+          messages,
+          temperature: req.temperature,
+          max_tokens: req.maxTokens,
+          response_format: req.json ? { type: 'json_object' } : undefined,
+          tools: req.tools?.map((tool) => ({
+            type: 'function',
+            function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+          })),
+          stream,
+        },
+        req
+      );
+
+      if (!stream) {
+        const data = await readJson(id, opened, OpenAiResponseSchema);
+        const message = data.choices[0]?.message;
+        const toolCalls = (message?.tool_calls ?? []).map((call) => ({
+          id: call.id,
+          name: call.function?.name ?? '',
+          arguments: parseToolArguments(call.function?.arguments),
+        }));
+        return {
+          provider: id,
+          model: data.model ?? req.model ?? model,
+          text: message?.content ?? '',
+          toolCalls: toolCalls.length ? toolCalls : undefined,
+        };
+      }
+
+      let text = '';
+      const collector = createToolCallCollector();
+      await readSse(opened, (data) => {
+        if (data === '[DONE]') return;
+        const delta = parseJsonEvent(id, data, OpenAiChunkSchema).choices[0]?.delta;
+        for (const call of delta?.tool_calls ?? []) {
+          collector.add(call.index ?? 0, { id: call.id, name: call.function?.name, args: call.function?.arguments });
+        }
+        const token = delta?.content;
+        if (token) {
+          text += token;
+          req.onToken!(token);
+        }
+      });
+      return { provider: id, model: req.model || model, text, toolCalls: collector.calls() };
+    },
+  };
+}
+
+export function createAnthropicProvider(opts: HttpProviderOptions): AiProviderClient {
+  const baseUrl = (opts.baseUrl || 'https://api.anthropic.com').replace(/\/+$/, '');
+  const model = opts.model || 'claude-3-5-haiku-latest';
+  const doFetch = opts.fetch ?? fetch;
+
+  return {
+    id: 'anthropic',
+    model,
+    // No native JSON mode; 'json' is honoured by instruction.
+    capabilities: new Set<AiCapability>(['chat', 'json', 'vision', 'tools']),
+
+    async complete(req) {
+      const stream = typeof req.onToken === 'function';
+      const system = [
+        ...req.messages.filter((m) => m.role === 'system').map((m) => m.content),
+        ...(req.json ? [JSON_INSTRUCTION] : []),
+      ].join('\n\n');
+      const messages = req.messages
+        .filter((m) => m.role !== 'system')
+        .map((m) => ({
+          role: m.role,
+          content: [
+            ...(m.images ?? []).map((img) => ({
+              type: 'image',
+              source: { type: 'base64', media_type: sniffImageMime(img), data: img },
+            })),
+            { type: 'text', text: m.content },
+          ],
+        }));
+
+      const opened = await postJson(
+        'anthropic',
+        doFetch,
+        `${baseUrl}/v1/messages`,
+        { 'x-api-key': opts.apiKey, 'anthropic-version': '2023-06-01' },
+        {
+          model: req.model || model,
+          system: system || undefined,
+          messages,
+          max_tokens: req.maxTokens ?? 4096,
+          temperature: req.temperature,
+          tools: req.tools?.map((tool) => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: tool.parameters,
+          })),
+          stream,
+        },
+        req
+      );
+
+      if (!stream) {
+        const data = await readJson('anthropic', opened, AnthropicResponseSchema);
+        const blocks = data.content;
+        const text = blocks
+          .filter((block) => block.type === 'text')
+          .map((block) => block.text)
+          .join('');
+        const toolCalls = blocks
+          .filter((block) => block.type === 'tool_use')
+          .map((block) => ({ id: block.id, name: block.name ?? '', arguments: block.input ?? {} }));
+        return {
+          provider: 'anthropic',
+          model: data.model ?? req.model ?? model,
+          text,
+          toolCalls: toolCalls.length ? toolCalls : undefined,
+        };
+      }
+
+      let text = '';
+      const collector = createToolCallCollector();
+      await readSse(opened, (data) => {
+        const event = parseJsonEvent('anthropic', data, AnthropicEventSchema);
+        if (event.type === 'error') {
+          throw new ProviderError(event.error?.message ?? 'stream error', 'protocol', 'anthropic');
+        }
+        if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+          collector.add(event.index ?? 0, { id: event.content_block.id, name: event.content_block.name });
+        }
+        if (event.type === 'content_block_delta' && event.delta?.type === 'input_json_delta') {
+          collector.add(event.index ?? 0, { args: event.delta.partial_json });
+        }
+        const token = event.type === 'content_block_delta' ? event.delta?.text : undefined;
+        if (token) {
+          text += token;
+          req.onToken!(token);
+        }
+      });
+      return { provider: 'anthropic', model: req.model || model, text, toolCalls: collector.calls() };
+    },
+  };
+}
+
+export function createGeminiProvider(opts: HttpProviderOptions): AiProviderClient {
+  const baseUrl = (opts.baseUrl || 'https://generativelanguage.googleapis.com/v1beta').replace(/\/+$/, '');
+  const model = opts.model || 'gemini-2.0-flash';
+  const doFetch = opts.fetch ?? fetch;
+
+  const partsOf = (data: GeminiResponse) => data.candidates[0]?.content?.parts ?? [];
+  const textOf = (data: GeminiResponse) => partsOf(data).map((part) => part.text ?? '').join('');
+  // Gemini sends each function call whole, never split across stream events.
+  const toolCallsOf = (data: GeminiResponse): AiToolCall[] =>
+    partsOf(data).flatMap(({ functionCall }) =>
+      functionCall ? [{ name: functionCall.name, arguments: functionCall.args ?? {} }] : []
+    );
+
+  return {
+    id: 'gemini',
+    model,
+    capabilities: new Set<AiCapability>(['chat', 'json', 'vision', 'tools']),
+
+    async complete(req) {
+      const stream = typeof req.onToken === 'function';
+      const system = req.messages.filter((m) => m.role === 'system').map((m) => m.content).join('\n\n');
+      const contents = req.messages
+        .filter((m) => m.role !== 'system')
+        .map((m) => ({
+          role: m.role === 'assistant' ? 'model' : 'user',
+          parts: [
+            { text: m.content },
+            ...(m.images ?? []).map((img) => ({ inline_data: { mime_type: sniffImageMime(img), data: img } })),
+          ],
+        }));
+
+      const target = req.model || model;
+      const url = stream
+        ? `${baseUrl}/models/${encodeURIComponent(target)}:streamGenerateContent?alt=sse`
+        : `${baseUrl}/models/${encodeURIComponent(target)}:generateContent`;
+      const opened = await postJson(
+        'gemini',
+        doFetch,
+        url,
+        { 'x-goog-api-key': opts.apiKey },
+        {
+          contents,
+          systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+          generationConfig: {
+            temperature: req.temperature,
+            maxOutputTokens: req.maxTokens,
+            responseMimeType: req.json ? 'application/json' : undefined,
+          },
+          tools: req.tools?.length
+            ? [
+                {
+                  functionDeclarations: req.tools.map((tool) => ({
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: tool.parameters,
+                  })),
+                },
+              ]
+            : undefined,
+        },
+        req
+      );
+
+      if (!stream) {
+        const data = await readJson('gemini', opened, GeminiResponseSchema);
+        const toolCalls = toolCallsOf(data);
+        return { provider: 'gemini', model: target, text: textOf(data), toolCalls: toolCalls.length ? toolCalls : undefined };
+      }
+
+      let text = '';
+      const toolCalls: AiToolCall[] = [];
+      await readSse(opened, (data) => {
+        const event = parseJsonEvent('gemini', data, GeminiResponseSchema);
+        toolCalls.push(...toolCallsOf(event));
+        const token = textOf(event);
+        if (token) {
+          text += token;
+          req.onToken!(token);
+        }
+      });
+      return { provider: 'gemini', model: target, text, toolCalls: toolCalls.length ? toolCalls : undefined };
+    },
+  };
+}
+
+export interface EchoFixture {
+  /** Substring or pattern matched against the last user message, or a predicate on the request. */
+  match: string | RegExp | ((req: CompletionRequest) => boolean);
+  /** Reply text; objects are serialized as JSON. */
+  response: string | Record<string, unknown> | unknown[];
+  /** Function calls returned with the reply (only when the request offered tools). */
+  toolCalls?: AiToolCall[];
+}
+
+/**
+ * Deterministic offline provider. Replies with the first matching fixture; otherwise
+ * echoes the last user message (wrapped as {"echo": ...} when JSON is requested).
+ */
+export function createEchoProvider(fixtures: EchoFixture[] = []): AiProviderClient {
+  return {
+    id: 'echo',
+    model: 'echo',
+    capabilities: new Set<AiCapability>(['chat', 'json', 'vision', 'tools']),
+
+    async complete(req) {
+      if (req.signal?.aborted) throw new ProviderError('echo request was cancelled', 'aborted', 'echo');
+      const last = [...req.messages].reverse().find((m) => m.role === 'user')?.content ?? '';
+      const fixture = fixtures.find(({ match }) =>
+        typeof match === 'string' ? last.includes(match) : match instanceof RegExp ? match.test(last) : match(req)
+      );
+
+      const text = fixture
+        ? typeof fixture.response === 'string'
+          ? fixture.response
+          : JSON.stringify(fixture.response)
+        : req.json
+          ? JSON.stringify({ echo: last })
+          : last;
+
+      if (req.onToken) {
+        for (const token of text.match(/\S+\s*|\s+/g) ?? []) req.onToken(token);
+      }
+      const toolCalls = req.tools?.length ? fixture?.toolCalls : undefined;
+      return { provider: 'echo', model: 'echo', text, toolCalls };
+    },
+  };
+}
+
+/* -----------------------
+   Router
+   ----------------------- */
+
+let override: AiProviderClient | null = null;
+
+/** Force every flow onto one provider (e.g. an echo provider with fixtures in tests). Pass null to clear. */
+export function setProviderOverride(provider: AiProviderClient | null) {
+  override = provider;
+}
+
+/** The provider chosen in settings; GIDIT_AI_PROVIDER wins when set. */
+export function getSelectedProviderId(settings?: SettingsRepository): ProviderId {
+  const fromEnv = process.env.GIDIT_AI_PROVIDER as ProviderId | undefined;
+  if (fromEnv) return fromEnv;
+  try {
+    return ((settings ?? getProfileSettings()).get(AI_PROVIDER_SETTING) as AIProvider | null) || DEFAULT_AI_PROVIDER;
+  } catch {
+    return DEFAULT_AI_PROVIDER;
+  }
+}
+
+/**
+ * The signed-in user's key for `provider` (main/secrets.ts); null when none is set. Throws a
+ * ProviderError of kind 'locked' while the vault cannot be opened.
+ */
+export function readApiKey(provider: ApiKeyProvider, vault: SecretVault = getSecretVault()): string | null {
+  try {
+    return vault.apiKey(provider)?.trim() || null;
+  } catch (err) {
+    if (err instanceof UserDataError && err.kind === 'locked') {
+      throw new ProviderError(`Sign in with your password to use your ${provider} API key.`, 'locked', provider);
+    }
+    throw err;
+  }
+}
+
+/** Build the client for a provider id from the stored keys/host. */
+export function createProvider(id: ProviderId, settings?: SettingsRepository): AiProviderClient {
+  if (id === 'echo') return createEchoProvider();
+
+  if (id === 'ollama') {
+    return createOllamaProvider({ host: getOllamaHost(settings), model: getOllamaModel(settings) });
+  }
+
+  const apiKey = readApiKey(id);
+  if (!apiKey) {
+    throw new ProviderError(`No API key set for ${id}. Add one in Settings → AI or switch provider.`, 'config', id);
+  }
+  switch (id) {
+    case 'openai':
+    case 'groq':
+    case 'deepseek':
+      return createOpenAiCompatibleProvider(id, { apiKey });
+    case 'anthropic':
+      return createAnthropicProvider({ apiKey });
+    case 'gemini':
+      return createGeminiProvider({ apiKey });
+    default:
+      throw new ProviderError(`Unknown AI provider "${id}"`, 'config', id);
+  }
+}
+
+/** How long "Test connection" in settings waits for an answer. */
+const TEST_TIMEOUT_MS = 20_000;
+
+/** Send a one-token request with the stored key, for "Test connection" in settings. */
+export async function testApiKey(provider: ApiKeyProvider): Promise<ApiKeyTestResult> {
+  try {
+    const result = await createProvider(provider).complete({
+      messages: [{ role: 'user', content: 'ping' }],
+      maxTokens: 1,
+      timeoutMs: TEST_TIMEOUT_MS,
+    });
+    return { ok: true, model: result.model };
+  } catch (err) {
+    if (err instanceof ProviderError) return { ok: false, error: err.message };
+    throw err;
+  }
+}
+
+/**
+ * Resolve the active provider and check it can do what the caller needs.
+ */
+export function resolveProvider(needs: readonly AiCapability[] = [], settings?: SettingsRepository): AiProviderClient {
+  const provider = override ?? createProvider(getSelectedProviderId(settings), settings);
+  const missing = needs.filter((cap) => !provider.capabilities.has(cap));
+  if (missing.length) {
+    throw new ProviderError(
+      `The ${provider.id} provider does not support ${missing.join(', ')}. Choose another provider in Settings → AI.`,
+      'capability',
+      provider.id
+    );
+  }
+  return provider;
+}
+
+export interface ChatOptions extends Omit<CompletionRequest, 'messages'> {
+  /** Capabilities the caller relies on; 'json' and 'vision' are added automatically when used. */
+  needs?: readonly AiCapability[];
+}
+
+/** Run a multi-turn completion on the active provider. */
+export async function completeChat(messages: AiMessage[], opts: ChatOptions = {}): Promise<CompletionResult> {
+  const { needs = [], ...req } = opts;
+  const implied: AiCapability[] = ['chat'];
+  if (req.json) implied.push('json');
+  if (req.tools?.length) implied.push('tools');
+  if (messages.some((m) => m.images?.length)) implied.push('vision');
+  const provider = resolveProvider([...new Set([...needs, ...implied])]);
+  return provider.complete({ ...req, messages });
+}
+
+export interface GenerateTextOptions extends ChatOptions {
+  system?: string;
+  images?: string[];
+}
+
+/**
+ * Convenience used by the AI flows: run a single prompt on the active provider
+ * and return the generated text.
+ */
+export async function generateText(prompt: string, opts: GenerateTextOptions = {}): Promise<string> {
+  const { system, images, needs = [], ...rest } = opts;
+  const messages: AiMessage[] = [
+    ...(system ? [{ role: 'system' as const, content: system }] : []),
+    { role: 'user', content: prompt, images: images?.length ? images : undefined },
+  ];
+  const implied: AiCapability[] = [];
+  if (rest.json) implied.push('json');
+  if (rest.tools?.length) implied.push('tools');
+  if (images?.length) implied.push('vision');
+  const provider = resolveProvider([...new Set([...needs, ...implied])]);
+  const result = await provider.complete({ ...rest, messages });
+  return result.text;
+}
+
+/** Whether the active provider offers a capability (false when it is not configured). */
+export function supportsCapability(cap: AiCapability): boolean {
+  try {
+    resolveProvider([cap]);
+    return true;
+  } catch {
+    return false;
+  }
+}
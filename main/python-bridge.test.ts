@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { createFrameDecoder, encodeFrame } from './python-bridge';
+
+const frame = (body: string) => Buffer.from(`Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`, 'utf8');
+
+describe('createFrameDecoder', () => {
+  it('decodes what encodeFrame writes', () => {
+    const decode = createFrameDecoder();
+    const message = { jsonrpc: '2.0', id: 1, result: { text: 'café ☕' } };
+    expect(decode(encodeFrame(message)).map((body) => JSON.parse(body))).toEqual([message]);
+  });
+
+  it('waits for headers and bodies split across chunks', () => {
+    const decode = createFrameDecoder();
+    const bytes = frame('{"id":1,"result":"ünïcode"}');
+    const cuts = [5, 17, 20, 25, bytes.length];
+    const bodies = cuts.flatMap((end, i) => decode(bytes.subarray(i === 0 ? 0 : cuts[i - 1], end)));
+    expect(bodies).toEqual(['{"id":1,"result":"ünïcode"}']);
+  });
+
+  it('returns every frame in one chunk, keeping the remainder for later', () => {
+    const decode = createFrameDecoder();
+    const third = frame('{"id":3}');
+    const chunk = Buffer.concat([frame('{"id":1}'), frame('{"id":2}'), third.subarray(0, 10)]);
+    expect(decode(chunk)).toEqual(['{"id":1}', '{"id":2}']);
+    expect(decode(third.subarray(10))).toEqual(['{"id":3}']);
+  });
+
+  it('skips headers without a usable length and reads the frames after them', () => {
+    const decode = createFrameDecoder();
+    const chunk = Buffer.concat([
+      Buffer.from('Content-Length: abc\r\n\r\n', 'ascii'),
+      Buffer.from('Content-Length: -4\r\n\r\n', 'ascii'),
+      frame('{"id":1}'),
+    ]);
+    expect(decode(chunk)).toEqual(['{"id":1}']);
+  });
+
+  it('holds back a body shorter than its declared length', () => {
+    const decode = createFrameDecoder();
+    expect(decode(Buffer.from('Content-Length: 50\r\n\r\n{"id":1}', 'ascii'))).toEqual([]);
+  });
+});
@@ -0,0 +1,427 @@
+/**
+ * Electron main: long-lived Python worker (python/worker.py) spoken to over JSON-RPC.
+ *
+ * Replaces spawning a fresh `python3` per request, so OCR and analytics calls no
+ * longer pay interpreter and import start-up cost every time.
+ *
+ * Protocol:
+ * - JSON-RPC 2.0 over the worker's stdin/stdout.
+ * - Each message is framed as `Content-Length: <bytes>\r\n\r\n<utf-8 json>` (LSP style).
+ * - Methods are `<namespace>.<name>`, registered by the modules listed in worker.py
+ *   (analyze.py, preprocess.py, extract-document-text.py), plus `worker.ping`.
+ *
+ * Notes:
+ * - At most `concurrency` calls are in flight; further calls queue in order.
+ * - Every call has a timeout. A timed-out call is rejected, but the worker thread
+ *   running it is not interrupted (Python threads cannot be cancelled).
+ * - If the worker exits unexpectedly, in-flight calls reject with kind 'crashed' and
+ *   the worker restarts with backoff, up to `maxRestarts` per `restartWindowMs`.
+ * - A periodic `worker.ping` kills and restarts a worker that stops answering.
+ * - Frames that are not JSON-RPC responses are logged and dropped, never dispatched.
+ */
+
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+const DEFAULT_CALL_TIMEOUT_MS = 60_000;
+const HEALTH_TIMEOUT_MS = 5_000;
+const STOP_GRACE_MS = 2_000;
+
+/* -----------------------
+   Types
+   ----------------------- */
+
+export interface PythonBridgeOptions {
+  /** Interpreter to run; defaults to PYTHON_PATH or 'python3'. */
+  pythonPath?: string;
+  /** Worker entry script; defaults to worker.py in the resolved python/ directory. */
+  scriptPath?: string;
+  /** Maximum calls in flight (also the worker's thread pool size). */
+  concurrency?: number;
+  /** Default per-call timeout in ms. */
+  callTimeoutMs?: number;
+  /** Interval between health pings while running; 0 disables. */
+  healthIntervalMs?: number;
+  maxRestarts?: number;
+  restartWindowMs?: number;
+}
+
+export interface CallOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+export interface PythonHealth {
+  ok: boolean;
+  pid: number;
+  uptime: number;
+  python: string;
+  /** Modules that failed to import, keyed by namespace. */
+  loadErrors: Record<string, string>;
+}
+
+export type PythonBridgeErrorKind = 'timeout' | 'aborted' | 'crashed' | 'remote' | 'unavailable' | 'stopped';
+
+export class PythonBridgeError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: PythonBridgeErrorKind,
+    public readonly code?: number,
+    public readonly data?: unknown
+  ) {
+    super(message);
+    this.name = 'PythonBridgeError';
+  }
+}
+
+const RpcErrorSchema = z.object({ code: z.number(), message: z.string(), data: z.unknown().optional() });
+
+/** What the worker may write: a call's error or result, or a notification (none are sent yet). */
+const WorkerMessageSchema = z.union([
+  z.object({ jsonrpc: z.literal('2.0'), id: z.number(), error: RpcErrorSchema }),
+  // when the worker could not tell which request failed (e.g. a parse error)
+  z.object({ jsonrpc: z.literal('2.0'), id: z.null(), error: RpcErrorSchema }),
+  z.object({ jsonrpc: z.literal('2.0'), id: z.number(), result: z.unknown() }),
+  z.object({ jsonrpc: z.literal('2.0'), method: z.string(), params: z.unknown().optional() }),
+]);
+
+interface Pending {
+  method: string;
+  resolve: (value: unknown) => void;
+  reject: (err: PythonBridgeError) => void;
+  cleanup: () => void;
+}
+
+/* -----------------------
+   Framing
+   ----------------------- */
+
+export function encodeFrame(message: unknown): Buffer {
+  const body = Buffer.from(JSON.stringify(message), 'utf8');
+  return Buffer.concat([Buffer.from(`Content-Length: ${body.length}\r\n\r\n`, 'ascii'), body]);
+}
+
+/**
+ * Incremental frame decoder: feed it stdout chunks, get back complete message bodies.
+ */
+export function createFrameDecoder() {
+  let buffer = Buffer.alloc(0);
+
+  return (chunk: Buffer): string[] => {
+    buffer = Buffer.concat([buffer, chunk]);
+    const bodies: string[] = [];
+    for (;;) {
+      const headerEnd = buffer.indexOf('\r\n\r\n');
+      if (headerEnd === -1) break;
+      const header = buffer.subarray(0, headerEnd).toString('ascii');
+      const match = /content-length:\s*(\d+)/i.exec(header);
+      if (!match) {
+        // Unframed output (should not happen; stray prints go to stderr). Skip past it.
+        buffer = buffer.subarray(headerEnd + 4);
+        continue;
+      }
+      const length = Number(match[1]);
+      const start = headerEnd + 4;
+      if (buffer.length < start + length) break;
+      bodies.push(buffer.subarray(start, start + length).toString('utf8'));
+      buffer = buffer.subarray(start + length);
+    }
+    return bodies;
+  };
+}
+
+/* -----------------------
+   Bridge
+   ----------------------- */
+
+/** Locate the bundled python/ directory in dev and packaged builds. */
+export function resolvePythonDir(): string {
+  const candidates = [
+    process.env.GIDIT_PYTHON_DIR,
+    (process as NodeJS.Process & { resourcesPath?: string }).resourcesPath
+      ? path.join((process as NodeJS.Process & { resourcesPath: string }).resourcesPath, 'python')
+      : undefined,
+    path.resolve(__dirname, '..', 'python'),
+    path.resolve(__dirname, '..', '..', 'python'),
+  ].filter((dir): dir is string => !!dir);
+
+  return candidates.find((dir) => fs.existsSync(path.join(dir, 'worker.py'))) ?? candidates[candidates.length - 1];
+}
+
+export function createPythonBridge(opts: PythonBridgeOptions = {}) {
+  const pythonPath = opts.pythonPath || process.env.PYTHON_PATH || 'python3';
+  const scriptPath = opts.scriptPath || path.join(resolvePythonDir(), 'worker.py');
+  const concurrency = Math.max(1, opts.concurrency ?? 2);
+  const callTimeoutMs = opts.callTimeoutMs ?? DEFAULT_CALL_TIMEOUT_MS;
+  const healthIntervalMs = opts.healthIntervalMs ?? 30_000;
+  const maxRestarts = opts.maxRestarts ?? 5;
+  const restartWindowMs = opts.restartWindowMs ?? 60_000;
+
+  let child: ChildProcessWithoutNullStreams | null = null;
+  let starting: Promise<void> | null = null;
+  let stopped = false;
+  let nextId = 1;
+  let active = 0;
+  let healthTimer: NodeJS.Timeout | null = null;
+  let restartTimer: NodeJS.Timeout | null = null;
+  let restartTimes: number[] = [];
+  let lastExit: string | null = null;
+
+  const pending = new Map<number, Pending>();
+  const waiting: Array<() => void> = [];
+
+  function failAll(err: PythonBridgeError) {
+    for (const [id, call] of pending) {
+      pending.delete(id);
+      call.cleanup();
+      call.reject(err);
+    }
+  }
+
+  function onMessage(body: string) {
+    let data: unknown;
+    try {
+      data = JSON.parse(body);
+    } catch {
+      console.warn('[python] dropped malformed frame:', body.slice(0, 200));
+      return;
+    }
+    const parsed = WorkerMessageSchema.safeParse(data);
+    if (!parsed.success) {
+      console.warn('[python] dropped invalid message:', body.slice(0, 200));
+      return;
+    }
+    const msg = parsed.data;
+    if ('method' in msg) return; // no notifications are handled
+    if (msg.id === null) {
+      console.warn('[python] worker error:', msg.error.message);
+      return;
+    }
+    const call = pending.get(msg.id);
+    if (!call) return; // late reply to a call that already timed out
+    pending.delete(msg.id);
+    call.cleanup();
+    if ('error' in msg) {
+      call.reject(
+        new PythonBridgeError(`Python ${call.method} failed: ${msg.error.message}`, 'remote', msg.error.code, msg.error.data)
+      );
+    } else {
+      call.resolve(msg.result);
+    }
+  }
+
+  function spawnWorker(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const proc = spawn(pythonPath, ['-u', scriptPath, '--concurrency', String(concurrency)], {
+        stdio: ['pipe', 'pipe', 'pipe'],
+        env: { ...process.env, PYTHONIOENCODING: 'utf-8', PYTHONUNBUFFERED: '1' },
+      });
+
+      const decode = createFrameDecoder();
+      proc.stdout.on('data', (chunk: Buffer) => decode(chunk).forEach(onMessage));
+      proc.stdin.on('error', () => {}); // EPIPE after a crash; the exit handler reports it
+      proc.stderr.setEncoding('utf8');
+      proc.stderr.on('data', (text: string) => console.warn('[python]', text.trimEnd()));
+
+      proc.once('spawn', () => {
+        child = proc;
+        startHealthChecks();
+        resolve();
+      });
+      proc.once('error', (err) => {
+        if (child !== proc) {
+          reject(new PythonBridgeError(`Could not start ${pythonPath}: ${err.message}`, 'unavailable'));
+        }
+      });
+      proc.once('exit', (code, signal) => {
+        if (child !== proc) return;
+        child = null;
+        stopHealthChecks();
+        lastExit = signal ? `signal ${signal}` : `code ${code}`;
+        failAll(new PythonBridgeError(`Python worker exited (${lastExit})`, stopped ? 'stopped' : 'crashed'));
+        if (!stopped) scheduleRestart();
+      });
+    });
+  }
+
+  function scheduleRestart() {
+    const now = Date.now();
+    restartTimes = restartTimes.filter((t) => now - t < restartWindowMs);
+    if (restartTimes.length >= maxRestarts) {
+      console.warn(`[python] worker crashed ${maxRestarts} times in ${restartWindowMs}ms; restarting on next call`);
+      return;
+    }
+    restartTimes.push(now);
+    const delay = Math.min(250 * 2 ** (restartTimes.length - 1), 8_000);
+    restartTimer = setTimeout(() => {
+      restartTimer = null;
+      ensureStarted().catch((err) => console.warn('[python] restart failed:', (err as Error).message));
+    }, delay);
+    restartTimer.unref?.();
+  }
+
+  function startHealthChecks() {
+    if (healthIntervalMs <= 0 || healthTimer) return;
+    healthTimer = setInterval(async () => {
+      if (!child) return;
+      const proc = child;
+      try {
+        await send('worker.ping', {}, { timeoutMs: HEALTH_TIMEOUT_MS });
+      } catch (err) {
+        if (err instanceof PythonBridgeError && err.kind === 'timeout' && child === proc) {
+          console.warn('[python] worker stopped answering health checks; restarting');
+          proc.kill();
+        }
+      }
+    }, healthIntervalMs);
+    healthTimer.unref?.();
+  }
+
+  function stopHealthChecks() {
+    if (healthTimer) clearInterval(healthTimer);
+    healthTimer = null;
+  }
+
+  function ensureStarted(): Promise<void> {
+    if (child) return Promise.resolve();
+    if (stopped) return Promise.reject(new PythonBridgeError('Python bridge has been stopped', 'stopped'));
+    if (!starting) {
+      if (restartTimer) {
+        clearTimeout(restartTimer);
+        restartTimer = null;
+      }
+      starting = spawnWorker().finally(() => {
+        starting = null;
+      });
+    }
+    return starting;
+  }
+
+  /** Write one request to the worker. Bypasses the concurrency queue (used for pings). */
+  function send<T>(method: string, params: unknown, callOpts: CallOptions = {}): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const proc = child;
+      if (!proc) {
+        reject(new PythonBridgeError('Python worker is not running', 'unavailable'));
+        return;
+      }
+      if (callOpts.signal?.aborted) {
+        reject(new PythonBridgeError(`Python ${method} was cancelled`, 'aborted'));
+        return;
+      }
+
+      const id = nextId++;
+      const timeoutMs = callOpts.timeoutMs ?? callTimeoutMs;
+      const timer = setTimeout(() => {
+        pending.delete(id);
+        cleanup();
+        reject(new PythonBridgeError(`Python ${method} timed out after ${timeoutMs}ms`, 'timeout'));
+      }, timeoutMs);
+      const onAbort = () => {
+        pending.delete(id);
+        cleanup();
+        reject(new PythonBridgeError(`Python ${method} was cancelled`, 'aborted'));
+      };
+      const cleanup = () => {
+        clearTimeout(timer);
+        callOpts.signal?.removeEventListener('abort', onAbort);
+      };
+      callOpts.signal?.addEventListener('abort', onAbort, { once: true });
+
+      pending.set(id, { method, resolve: resolve as (value: unknown) => void, reject, cleanup });
+      proc.stdin.write(encodeFrame({ jsonrpc: '2.0', id, method, params: params ?? {} }));
+    });
+  }
+
+  async function acquire(): Promise<void> {
+    if (active < concurrency) {
+      active++;
+      return;
+    }
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  }
+
+  function release() {
+    const next = waiting.shift();
+    if (next) next();
+    else active--;
+  }
+
+  return {
+    scriptPath,
+
+    /** Start the worker now instead of on the first call. */
+    start: ensureStarted,
+
+    /** Call a registered method, e.g. call('analyze.summary_stats', { values }). */
+    async call<T = unknown>(method: string, params?: unknown, callOpts: CallOptions = {}): Promise<T> {
+      await acquire();
+      try {
+        await ensureStarted();
+        return await send<T>(method, params, callOpts);
+      } finally {
+        release();
+      }
+    },
+
+    /** Ping the worker (starting it if needed). Resolves null when it does not answer. */
+    async health(): Promise<PythonHealth | null> {
+      try {
+        await ensureStarted();
+        return await send<PythonHealth>('worker.ping', {}, { timeoutMs: HEALTH_TIMEOUT_MS });
+      } catch {
+        return null;
+      }
+    },
+
+    stats() {
+      return {
+        running: child !== null,
+        pid: child?.pid ?? null,
+        inFlight: pending.size,
+        queued: waiting.length,
+        restarts: restartTimes.length,
+        lastExit,
+      };
+    },
+
+    /** Stop the worker; in-flight and later calls reject with kind 'stopped'. */
+    async stop(): Promise<void> {
+      stopped = true;
+      stopHealthChecks();
+      if (restartTimer) clearTimeout(restartTimer);
+      const proc = child;
+      if (!proc) return;
+      await new Promise<void>((resolve) => {
+        const kill = setTimeout(() => proc.kill('SIGKILL'), STOP_GRACE_MS);
+        proc.once('exit', () => {
+          clearTimeout(kill);
+          resolve();
+        });
+        proc.stdin.end(); // worker exits once stdin closes and running calls finish
+      });
+    },
+  };
+}
+
+export type PythonBridge = ReturnType<typeof createPythonBridge>;
+
+/* -----------------------
+   App instance
+   ----------------------- */
+
+let bridge: PythonBridge | null = null;
+
+/** Shared worker for the app; started lazily on the first call. */
+export function getPythonBridge(): PythonBridge {
+  if (!bridge) bridge = createPythonBridge();
+  return bridge;
+}
+
+export async function stopPythonBridge(): Promise<void> {
+  const current = bridge;
+  bridge = null;
+  await current?.stop();
+}
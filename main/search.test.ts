@@ -0,0 +1,137 @@
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import { createIndexRepository, openDatabase } from './db';
+import { parseDue, parseSearchQuery, toMatchExpression } from './search';
+
+// Sign-in is not under test (and would pull in Electron)
+vi.mock('./auth', () => ({ getAuthService: vi.fn() }));
+
+// Wednesday 4 March 2026, 15:30 local time
+const NOW = new Date(2026, 2, 4, 15, 30);
+const day = (date: number) => new Date(2026, 2, date);
+
+describe('parseSearchQuery', () => {
+  it('splits words, quoted phrases and filters', () => {
+    expect(parseSearchQuery('pres "quarterly review" type:doc tag:Work tag:"big client"', NOW)).toEqual({
+      terms: [
+        { text: 'pres', phrase: false },
+        { text: 'quarterly review', phrase: true },
+      ],
+      sources: ['document'],
+      tags: ['work', 'big client'],
+      dueFrom: null,
+      dueTo: null,
+      ignored: [],
+    });
+  });
+
+  it('takes each kind once, whatever alias names it', () => {
+    expect(parseSearchQuery('type:todo type:tasks type:photo', NOW).sources).toEqual(['task', 'gallery']);
+  });
+
+  it('reports filters it does not understand and keeps other colons as words', () => {
+    const parsed = parseSearchQuery('type:spaceship tag: due:someday 10:30 https://example.com', NOW);
+    expect(parsed.ignored).toEqual(['type:spaceship', 'tag:', 'due:someday']);
+    expect(parsed.terms.map((t) => t.text)).toEqual(['10:30', 'https://example.com']);
+  });
+
+  it('reads an unclosed quote to the end and drops terms without letters or digits', () => {
+    expect(parseSearchQuery('milk "oat milk', NOW).terms).toEqual([
+      { text: 'milk', phrase: false },
+      { text: 'oat milk', phrase: true },
+    ]);
+    expect(parseSearchQuery('" " - * ""', NOW).terms).toEqual([]);
+  });
+
+  it('narrows repeated due: filters to their overlap', () => {
+    const parsed = parseSearchQuery('due:>=monday due:<friday due:>today', NOW);
+    expect(parsed.dueFrom).toEqual(day(9));
+    expect(parsed.dueTo).toEqual(day(6));
+  });
+});
+
+describe('parseDue', () => {
+  it('reads named days in local time', () => {
+    expect(parseDue('today', NOW)).toEqual({ from: day(4), to: day(5) });
+    expect(parseDue('tomorrow', NOW)).toEqual({ from: day(5), to: day(6) });
+    expect(parseDue('yesterday', NOW)).toEqual({ from: day(3), to: day(4) });
+    expect(parseDue('2026-03-20', NOW)).toEqual({ from: day(20), to: day(21) });
+  });
+
+  it('takes the next weekday, today included, by its first three letters or more', () => {
+    expect(parseDue('wed', NOW)).toEqual({ from: day(4), to: day(5) });
+    expect(parseDue('Tuesday', NOW)).toEqual({ from: day(10), to: day(11) });
+    expect(parseDue('fr', NOW)).toBeNull();
+  });
+
+  it('turns comparisons into open ranges', () => {
+    expect(parseDue('<friday', NOW)).toEqual({ from: null, to: day(6) });
+    expect(parseDue('<=friday', NOW)).toEqual({ from: null, to: day(7) });
+    expect(parseDue('>friday', NOW)).toEqual({ from: day(7), to: null });
+    expect(parseDue('>=friday', NOW)).toEqual({ from: day(6), to: null });
+    expect(parseDue('=friday', NOW)).toEqual({ from: day(6), to: day(7) });
+  });
+
+  it('reads overdue as anything before now, without comparisons', () => {
+    expect(parseDue('overdue', NOW)).toEqual({ from: null, to: NOW });
+    expect(parseDue('<overdue', NOW)).toBeNull();
+  });
+
+  it('rejects days that do not exist and other words', () => {
+    expect(parseDue('2026-02-30', NOW)).toBeNull();
+    expect(parseDue('2026-3-4', NOW)).toBeNull();
+    expect(parseDue('soon', NOW)).toBeNull();
+    expect(parseDue('', NOW)).toBeNull();
+  });
+});
+
+describe('toMatchExpression', () => {
+  const db = openDatabase(':memory:');
+  createIndexRepository(db);
+  db.prepare("INSERT INTO search_fts (source, item_id, title, text, tags) VALUES ('note', 'n1', ?, ?, '')").run(
+    'Meet NEAR the café',
+    'Bring the "red" folder - and 2*3 copies'
+  );
+  const matching = db.prepare('SELECT count(*) AS n FROM search_fts WHERE search_fts MATCH ?').pluck();
+  const hits = (query: string) => matching.get(toMatchExpression(parseSearchQuery(query, NOW).terms));
+
+  afterAll(() => db.close());
+
+  it('quotes every term, prefix-matching words only', () => {
+    expect(toMatchExpression(parseSearchQuery('caf "red folder"', NOW).terms)).toBe('"caf"* "red folder"');
+    expect(toMatchExpression([])).toBeNull();
+  });
+
+  it('escapes quotes inside terms', () => {
+    expect(toMatchExpression([{ text: 'say "hi"', phrase: true }])).toBe('"say ""hi"""');
+  });
+
+  it.each([
+    'NEAR',
+    'NEAR(meet café)',
+    'meet AND OR NOT',
+    '-folder',
+    'folder -',
+    '2*3',
+    '* meet *',
+    'red"folder',
+    '"red',
+    'say ""hi""',
+    'title:meet',
+    '^meet',
+    '(meet',
+    'meet)',
+    '{title text}: meet',
+    "l'été",
+    'meet + : ; \\',
+  ])('makes a valid MATCH expression of %j', (query) => {
+    expect(() => hits(query)).not.toThrow();
+  });
+
+  it('treats operators and special characters as plain words', () => {
+    expect(hits('near meet')).toBe(1);
+    expect(hits('NOT folder')).toBe(0);
+    expect(hits('-folder')).toBe(1);
+    expect(hits('cafe')).toBe(1);
+    expect(hits('"red folder"')).toBe(1);
+  });
+});
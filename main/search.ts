@@ -0,0 +1,252 @@
+/**
+ * Electron main: keyword search over the signed-in profile's indexed items, for AppSearch.
+ *
+ * The items are the ones in the semantic index (main/semantic-index.ts): tasks, notes,
+ * sticky notes, flashcards, documents, transactions, reminders, gallery images and builder
+ * pages. They are sealed in the database; SQLite FTS5 keeps a full-text copy of the searching
+ * profile's titles, texts and tags in memory only, from their first search until they sign
+ * out (main/db.ts).
+ *
+ * Query syntax:
+ * - words match by prefix ("pres" finds "presentation"); "quoted words" match as a phrase
+ * - type:task      kind of item, with aliases such as todo, doc or card; repeat for either
+ * - tag:work       the item has the tag; repeat to require several
+ * - due:<friday    due before Friday; also <=, >, >= and = (the default). Days are today,
+ *                  tomorrow, yesterday, weekday names (the next one, today included) or
+ *                  YYYY-MM-DD, all local time; due:overdue is anything due before now
+ *
+ * Filters that are not understood are left out and reported back in `ignored`. Results are
+ * grouped by kind; with words the best match leads, with filters only the soonest due.
+ */
+
+import type { IpcMain } from 'electron';
+import type { IndexSource, SearchGroup, SearchResponse } from '../src/shared/types';
+import { getAuthService, type AuthService } from './auth';
+import { getRepositories, type IndexRepository, type KeywordHit } from './db';
+import { handle } from './ipc';
+import { currentProfileId } from './profiles';
+
+const DEFAULT_PER_GROUP = 5;
+
+/* -----------------------
+   Parsing
+   ----------------------- */
+
+export interface ParsedQuery {
+  /** Words (prefix match) and quoted phrases (exact), all required. */
+  terms: Array<{ text: string; phrase: boolean }>;
+  /** Any of these kinds; empty means all. */
+  sources: IndexSource[];
+  /** All of these tags. */
+  tags: string[];
+  dueFrom: Date | null;
+  dueTo: Date | null;
+  ignored: string[];
+}
+
+const TYPE_ALIASES: Record<string, IndexSource> = {
+  task: 'task',
+  tasks: 'task',
+  todo: 'task',
+  todos: 'task',
+  note: 'note',
+  notes: 'note',
+  sticky: 'sticky-note',
+  'sticky-note': 'sticky-note',
+  'sticky-notes': 'sticky-note',
+  flashcard: 'flashcard',
+  flashcards: 'flashcard',
+  card: 'flashcard',
+  cards: 'flashcard',
+  doc: 'document',
+  docs: 'document',
+  document: 'document',
+  documents: 'document',
+  transaction: 'transaction',
+  transactions: 'transaction',
+  txn: 'transaction',
+  expense: 'transaction',
+  reminder: 'reminder',
+  reminders: 'reminder',
+  image: 'gallery',
+  images: 'gallery',
+  photo: 'gallery',
+  photos: 'gallery',
+  gallery: 'gallery',
+  page: 'page',
+  pages: 'page',
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/** key:value (value optionally quoted), "a phrase", or a bare word. */
+const TOKEN = /(\w+):("[^"]*"?|\S*)|"([^"]*)"?|(\S+)/g;
+
+const hasWordChars = (text: string) => /[\p{L}\p{N}]/u.test(text);
+
+function startOfDay(date: Date, addDays = 0): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + addDays);
+}
+
+/** The local day `value` names, as [start, end). */
+function dayRange(value: string, now: Date): [Date, Date] | null {
+  let start: Date | null = null;
+  if (value === 'today') start = startOfDay(now);
+  else if (value === 'tomorrow') start = startOfDay(now, 1);
+  else if (value === 'yesterday') start = startOfDay(now, -1);
+  else {
+    const weekday = WEEKDAYS.findIndex((day) => value.length >= 3 && day.startsWith(value));
+    if (weekday !== -1) {
+      start = startOfDay(now, (weekday - now.getDay() + 7) % 7);
+    } else {
+      const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+      if (iso) {
+        const [year, month, day] = iso.slice(1).map(Number);
+        const date = new Date(year, month - 1, day);
+        if (date.getMonth() === month - 1 && date.getDate() === day) start = date;
+      }
+    }
+  }
+  return start ? [start, startOfDay(start, 1)] : null;
+}
+
+/** Bounds for a due: filter value such as "<friday" or "2025-03-01"; null if not understood. */
+export function parseDue(value: string, now = new Date()): { from: Date | null; to: Date | null } | null {
+  const [, op = '=', rest] = /^(<=|>=|<|>|=)?(.*)$/.exec(value.toLowerCase()) ?? [];
+  if (rest === 'overdue') return op === '=' ? { from: null, to: now } : null;
+  const range = dayRange(rest ?? '', now);
+  if (!range) return null;
+  const [start, end] = range;
+  switch (op) {
+    case '<':
+      return { from: null, to: start };
+    case '<=':
+      return { from: null, to: end };
+    case '>':
+      return { from: end, to: null };
+    case '>=':
+      return { from: start, to: null };
+    default:
+      return { from: start, to: end };
+  }
+}
+
+export function parseSearchQuery(query: string, now = new Date()): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], sources: [], tags: [], dueFrom: null, dueTo: null, ignored: [] };
+
+  for (const [token, key, rawValue, phrase, word] of query.matchAll(TOKEN)) {
+    if (phrase !== undefined) {
+      if (hasWordChars(phrase)) parsed.terms.push({ text: phrase, phrase: true });
+      continue;
+    }
+    if (word !== undefined || !['type', 'tag', 'due'].includes(key.toLowerCase())) {
+      // A colon in an ordinary word, e.g. "10:30" or a URL.
+      if (hasWordChars(token)) parsed.terms.push({ text: token, phrase: false });
+      continue;
+    }
+
+    const value = rawValue.replace(/^"|"$/g, '').trim();
+    switch (key.toLowerCase()) {
+      case 'type': {
+        const source = TYPE_ALIASES[value.toLowerCase()];
+        if (source) {
+          if (!parsed.sources.includes(source)) parsed.sources.push(source);
+        } else parsed.ignored.push(token);
+        break;
+      }
+      case 'tag':
+        if (value) parsed.tags.push(value.toLowerCase());
+        else parsed.ignored.push(token);
+        break;
+      case 'due': {
+        const due = parseDue(value, now);
+        if (!due) {
+          parsed.ignored.push(token);
+          break;
+        }
+        // Repeated due: filters narrow each other.
+        if (due.from && (!parsed.dueFrom || due.from > parsed.dueFrom)) parsed.dueFrom = due.from;
+        if (due.to && (!parsed.dueTo || due.to < parsed.dueTo)) parsed.dueTo = due.to;
+        break;
+      }
+    }
+  }
+  return parsed;
+}
+
+/** FTS5 MATCH expression for the terms: every word as a quoted prefix, phrases as they are. */
+export function toMatchExpression(terms: ParsedQuery['terms']): string | null {
+  if (terms.length === 0) return null;
+  return terms.map(({ text, phrase }) => `"${text.replace(/"/g, '""')}"${phrase ? '' : '*'}`).join(' ');
+}
+
+/* -----------------------
+   Search
+   ----------------------- */
+
+/** Hits arrive best first; groups keep that order, each led by its best hit. */
+export function groupHits(hits: KeywordHit[]): SearchGroup[] {
+  const groups = new Map<IndexSource, SearchGroup>();
+  for (const hit of hits) {
+    const { item } = hit;
+    let group = groups.get(item.source);
+    if (!group) {
+      group = { source: item.source, results: [], total: hit.groupTotal };
+      groups.set(item.source, group);
+    }
+    group.results.push({
+      source: item.source,
+      id: item.id,
+      title: hit.markedTitle,
+      snippet: hit.snippet,
+      tags: item.tags,
+      due: item.due,
+      location: item.location,
+      score: hit.score,
+    });
+  }
+  return [...groups.values()];
+}
+
+export function searchItems(
+  repo: IndexRepository,
+  query: string,
+  opts: { userId?: string; perGroup?: number; now?: Date } = {}
+): SearchResponse {
+  const parsed = parseSearchQuery(query, opts.now);
+  const match = toMatchExpression(parsed.terms);
+  const filtered = parsed.sources.length > 0 || parsed.tags.length > 0 || parsed.dueFrom || parsed.dueTo;
+  if (!match && !filtered) return { groups: [], total: 0, ignored: parsed.ignored };
+
+  const groups = groupHits(
+    repo.keywordSearch({
+      match,
+      sources: parsed.sources.length ? parsed.sources : null,
+      tags: parsed.tags.length ? parsed.tags : null,
+      dueFrom: parsed.dueFrom?.toISOString() ?? null,
+      dueTo: parsed.dueTo?.toISOString() ?? null,
+      userId: opts.userId ?? '',
+      perGroup: opts.perGroup ?? DEFAULT_PER_GROUP,
+    })
+  );
+  return { groups, total: groups.reduce((sum, group) => sum + group.total, 0), ignored: parsed.ignored };
+}
+
+/* -----------------------
+   IPC
+   ----------------------- */
+
+/** Searches the signed-in profile's items only. */
+export function registerSearchIpc(
+  ipcMain: IpcMain,
+  repo: IndexRepository = getRepositories().index,
+  auth: AuthService = getAuthService()
+) {
+  handle(ipcMain, 'search:query', ({ query, perGroup }) =>
+    searchItems(repo, query, { perGroup, userId: currentProfileId(auth) })
+  );
+
+  auth.onChange((event) => {
+    if (event.type === 'signed-out' || event.type === 'expired' || event.type === 'screen-locked') repo.forgetSearch();
+  });
+}
@@ -0,0 +1,128 @@
+/**
+ * Electron main: the vault for provider API keys.
+ *
+ * - Each key is encrypted user data (main/user-data.ts) under SECRET_KEY_PREFIX, which the
+ *   IPC contract keeps the renderer from reading. The renderer can only ask whether a key is
+ *   set (with a short hint to tell keys apart), set or clear one, and test it.
+ * - Provider calls read the key here (main/providers.ts), so it never crosses IPC after
+ *   being entered.
+ * - Keys used to be a JSON object under 'app-api-keys', first as a plain setting and then as
+ *   user data; at sign-in they are moved into the vault, and the Ollama host inside the
+ *   object becomes the plain OLLAMA_HOST_SETTING.
+ *
+ * IPC: 'secrets:status', 'secrets:setApiKey', 'secrets:clearApiKey', 'secrets:testApiKey'.
+ */
+
+import type { IpcMain } from 'electron';
+import {
+  API_KEY_PROVIDERS,
+  SECRET_KEY_PREFIX,
+  type ApiKeyProvider,
+  type ApiKeyStatus,
+  type ApiKeyTestResult,
+} from '../src/shared/types';
+import { getAuthService, type AuthService } from './auth';
+import { getRepositories, type SettingsRepository } from './db';
+import { handle } from './ipc';
+import { OLLAMA_HOST_SETTING } from './ollama';
+import { getUserDataStore, type UserDataStore } from './user-data';
+
+/** Where the keys lived before the vault, as one JSON object. */
+export const LEGACY_API_KEYS_SETTING = 'app-api-keys';
+
+/** Keys shorter than this get no hint: a few characters would give away too much of them. */
+const MIN_HINT_LENGTH = 12;
+const HINT_CHARS = 4;
+
+const apiKeyEntry = (provider: ApiKeyProvider) => `${SECRET_KEY_PREFIX}api-key:${provider}`;
+
+const toStatus = (provider: ApiKeyProvider, key: string | null): ApiKeyStatus => ({
+  provider,
+  set: !!key,
+  hint: key && key.length >= MIN_HINT_LENGTH ? `…${key.slice(-HINT_CHARS)}` : null,
+});
+
+export function createSecretVault(store: UserDataStore) {
+  return {
+    /** The signed-in user's key for `provider`; main only. Throws UserDataError while locked. */
+    apiKey(provider: ApiKeyProvider): string | null {
+      return store.get(apiKeyEntry(provider));
+    },
+    setApiKey(provider: ApiKeyProvider, apiKey: string): ApiKeyStatus {
+      const key = apiKey.trim();
+      store.set(apiKeyEntry(provider), key || null);
+      return toStatus(provider, key || null);
+    },
+    clearApiKey(provider: ApiKeyProvider): ApiKeyStatus {
+      store.set(apiKeyEntry(provider), null);
+      return toStatus(provider, null);
+    },
+    status(): ApiKeyStatus[] {
+      return API_KEY_PROVIDERS.map((provider) => toStatus(provider, store.get(apiKeyEntry(provider))));
+    },
+  };
+}
+
+export type SecretVault = ReturnType<typeof createSecretVault>;
+
+/**
+ * Move keys from the old 'app-api-keys' object (plain setting or user data) into the vault,
+ * without replacing keys already there, and delete the object.
+ */
+export function adoptLegacyApiKeys(vault: SecretVault, store: UserDataStore, settings: SettingsRepository) {
+  // The user-data copy is the newer one, so it goes first
+  const sources = [store.get(LEGACY_API_KEYS_SETTING), settings.get(LEGACY_API_KEYS_SETTING)];
+  for (const raw of sources) {
+    if (!raw) continue;
+    let keys: Record<string, unknown>;
+    try {
+      keys = JSON.parse(raw);
+    } catch {
+      continue;
+    }
+    for (const provider of API_KEY_PROVIDERS) {
+      const key = keys[provider];
+      if (typeof key === 'string' && key.trim() && !vault.apiKey(provider)) vault.setApiKey(provider, key);
+    }
+    if (typeof keys.ollama === 'string' && keys.ollama.trim() && !settings.get(OLLAMA_HOST_SETTING)) {
+      settings.set(OLLAMA_HOST_SETTING, keys.ollama.trim());
+    }
+  }
+  settings.set(LEGACY_API_KEYS_SETTING, null);
+  store.set(LEGACY_API_KEYS_SETTING, null);
+}
+
+/* -----------------------
+   App singleton + IPC
+   ----------------------- */
+
+let instance: SecretVault | null = null;
+
+export function getSecretVault(): SecretVault {
+  instance ??= createSecretVault(getUserDataStore());
+  return instance;
+}
+
+/**
+ * @param testApiKey Sends a minimal request with the stored key (testApiKey in main/providers.ts).
+ */
+export function registerSecretIpc(
+  ipcMain: IpcMain,
+  testApiKey: (provider: ApiKeyProvider) => Promise<ApiKeyTestResult>,
+  vault: SecretVault = getSecretVault(),
+  auth: AuthService = getAuthService()
+) {
+  auth.onChange((event) => {
+    if (event.type !== 'signed-in') return;
+    try {
+      adoptLegacyApiKeys(vault, getUserDataStore(), getRepositories().settings);
+    } catch (err) {
+      console.error('Failed to move API keys into the vault:', err);
+    }
+  });
+
+  handle(ipcMain, 'secrets:status', () => vault.status());
+  handle(ipcMain, 'secrets:setApiKey', ({ provider, apiKey }) => vault.setApiKey(provider, apiKey));
+  handle(ipcMain, 'secrets:clearApiKey', (provider) => vault.clearApiKey(provider));
+  handle(ipcMain, 'secrets:testApiKey', (provider) => testApiKey(provider));
+}
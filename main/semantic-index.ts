@@ -0,0 +1,410 @@
+/**
+ * Electron main: semantic index over the user's saved items, for retrieval-augmented answers.
+ *
+ * - Items (tasks, notes, flashcards, documents, reminders, builder pages, ...) are kept
+ *   sealed with their owner's data key in the DB (main/db.ts). Tasks (main/tasks.ts) are indexed here whenever
+ *   they change; widgets send everything they hold with 'index:sync'
+ *   (src/hooks/use-semantic-index.ts), which also drops what they no longer hold. The same
+ *   items feed the keyword search (main/search.ts).
+ * - New and changed items are split into overlapping passages and embedded in the
+ *   background (main/embeddings.ts), one batch at a time. Unchanged items are never
+ *   embedded twice. Only the signed-in, unlocked user's items can be opened, so only theirs
+ *   are embedded; the others wait until their owner signs in.
+ * - `query` embeds the question and ranks the passages by cosine similarity. Each item
+ *   appears once, with its best passage as the excerpt.
+ * - `rebuild` drops every vector, re-reads the user's DB tasks and embeds everything again.
+ *   Switching provider needs no rebuild: vectors of another embedder are never compared
+ *   and the items are re-embedded in the background.
+ *
+ * `createSemanticIndex` is independent of Electron; `registerIndexIpc` wires it up. Over
+ * IPC everything belongs to the signed-in profile: its items are stored under its user id,
+ * and the ids and scopes widgets send are prefixed with it, so the same widget or item id
+ * in two profiles never collides.
+ */
+
+import type { IpcMain } from 'electron';
+import type { IndexSource, IndexStatus, SemanticHit, TaskRecord, WidgetLocation } from '../src/shared/types';
+import { getAuthService, type AuthService } from './auth';
+import { getRepositories, type IndexItem, type IndexRepository, type NewIndexItem, type TaskRepository } from './db';
+import { resolveEmbedder, type Embedder } from './embeddings';
+import { handle } from './ipc';
+import { currentProfileId } from './profiles';
+
+/** Passage length in characters, and how much consecutive passages overlap. */
+const CHUNK_CHARS = 1_200;
+const CHUNK_OVERLAP = 200;
+/** Items embedded per pass before the stale list is read again. */
+const ITEMS_PER_PASS = 32;
+/** Changes arriving within this window are embedded together. */
+const DEFAULT_DEBOUNCE_MS = 500;
+const EXCERPT_CHARS = 300;
+
+/* -----------------------
+   Types
+   ----------------------- */
+
+export interface SemanticIndexOptions {
+  repo: IndexRepository;
+  /** Source of the 'task' items; needed for rebuilds. */
+  tasks?: TaskRepository;
+  /** The user whose items can be opened for embedding, if anyone's. */
+  unlockedUserId?: () => string | null;
+  /** Called for every pass, so a provider switch takes effect without a restart. */
+  getEmbedder?: () => Embedder;
+  debounceMs?: number;
+}
+
+export interface SyncInput {
+  source: IndexSource;
+  /** The widget sending the items, usually its builder item id. */
+  scope: string;
+  userId?: string;
+  /** Where the items are shown, unless an item says otherwise. */
+  location?: WidgetLocation | null;
+  items: Array<Omit<NewIndexItem, 'source' | 'userId' | 'scope'>>;
+}
+
+export interface QueryOptions {
+  limit?: number;
+  sources?: IndexSource[];
+  userId?: string;
+  signal?: AbortSignal;
+}
+
+export class IndexError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: 'embedder' | 'stopped'
+  ) {
+    super(message);
+    this.name = 'IndexError';
+  }
+}
+
+/* -----------------------
+   Text
+   ----------------------- */
+
+/**
+ * Split an item into passages of about CHUNK_CHARS, breaking at whitespace where possible.
+ * The title leads every passage so each one says what it belongs to.
+ */
+export function chunkText(item: Pick<IndexItem, 'title' | 'text'>): string[] {
+  const title = item.title.trim();
+  const text = item.text.replace(/\s+/g, ' ').trim();
+  if (!text) return title ? [title] : [];
+
+  const passages: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(text.length, start + CHUNK_CHARS);
+    if (end < text.length) {
+      const space = text.lastIndexOf(' ', end);
+      if (space > start + CHUNK_CHARS / 2) end = space;
+    }
+    const body = text.slice(start, end).trim();
+    passages.push(title ? `${title}\n${body}` : body);
+    if (end >= text.length) break;
+    start = Math.max(end - CHUNK_OVERLAP, start + 1);
+  }
+  return passages;
+}
+
+/** How a task reads in the index: its title, notes, priority, status and project; due at local midnight. */
+export function taskToIndexItem(task: TaskRecord): NewIndexItem {
+  const text = [
+    task.notes,
+    `${task.priority} priority${task.status === 'done' ? ', done' : ''}`,
+    task.project && `Project: ${task.project}`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+  const due = task.dueDate ? new Date(`${task.dueDate}T00:00`).toISOString() : null;
+  return { source: 'task', id: task.id, userId: task.userId, title: task.title, text, tags: task.tags, due };
+}
+
+/**
+ * Ids of widget items are kept apart per widget: two to-do lists may well hold items with
+ * the same id.
+ */
+const scopedId = (scope: string, id: string) => `${scope}/${id}`;
+
+function toUnit(vector: number[]): Float32Array {
+  const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0)) || 1;
+  return Float32Array.from(vector, (x) => x / norm);
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/* -----------------------
+   Index
+   ----------------------- */
+
+export function createSemanticIndex(opts: SemanticIndexOptions) {
+  const { repo, tasks } = opts;
+  const unlockedUserId = opts.unlockedUserId ?? (() => null);
+  const getEmbedder = opts.getEmbedder ?? (() => resolveEmbedder());
+  const debounceMs = opts.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+
+  let timer: NodeJS.Timeout | null = null;
+  let running: Promise<void> | null = null;
+  let again = false;
+  let lastError: string | null = null;
+  let controller = new AbortController();
+  let stopped = false;
+
+  /** Embed the unlocked user's stale items until none are left. Throws on the first embedder failure. */
+  async function embedStale(embedder: Embedder) {
+    for (;;) {
+      const userId = unlockedUserId();
+      if (userId === null) return;
+      const items = repo.stale(embedder.id, userId, ITEMS_PER_PASS);
+      if (items.length === 0) return;
+
+      const passages = items.flatMap((item) => chunkText(item).map((text) => ({ item, text })));
+      const vectors: number[][] = [];
+      for (let i = 0; i < passages.length; i += embedder.batchSize) {
+        const batch = passages.slice(i, i + embedder.batchSize).map((p) => p.text);
+        vectors.push(...(await embedder.embed(batch, { signal: controller.signal })));
+      }
+
+      for (const item of items) {
+        const chunks = passages
+          .map((passage, i) => ({ ...passage, vector: vectors[i] }))
+          .filter((passage) => passage.item === item)
+          .map(({ text, vector }) => ({ text, vector }));
+        repo.saveChunks(item, embedder.id, chunks);
+      }
+    }
+  }
+
+  /** Run embedding passes until nothing is stale; concurrent calls share the run. */
+  function drain(): Promise<void> {
+    if (running) {
+      again = true;
+      return running;
+    }
+    running = (async () => {
+      do {
+        again = false;
+        try {
+          await embedStale(getEmbedder());
+          lastError = null;
+        } catch (err) {
+          if (stopped) return;
+          lastError = (err as Error).message || String(err);
+          console.warn('[index] embedding failed; will retry on the next change:', lastError);
+          return;
+        }
+      } while (again && !stopped);
+    })().finally(() => {
+      running = null;
+      // A change that arrived after the last pass ended.
+      if (again && !stopped && !lastError) schedule();
+    });
+    return running;
+  }
+
+  function schedule() {
+    if (timer || stopped) return;
+    timer = setTimeout(() => {
+      timer = null;
+      void drain();
+    }, debounceMs);
+  }
+
+  function currentEmbedder(): Embedder | null {
+    try {
+      return getEmbedder();
+    } catch {
+      return null;
+    }
+  }
+
+  const index = {
+    /** Store items (empty ones are removed instead). Returns how many changed. */
+    upsert(items: NewIndexItem[]): number {
+      let changed = 0;
+      for (const item of items) {
+        if (!item.title.trim() && !item.text.trim()) {
+          if (repo.remove(item.source, item.id)) changed++;
+        } else if (repo.upsert(item)) {
+          changed++;
+        }
+      }
+      if (changed) schedule();
+      return changed;
+    },
+
+    remove(refs: Array<{ source: IndexSource; id: string }>): number {
+      return refs.filter((ref) => repo.remove(ref.source, ref.id)).length;
+    },
+
+    /** Replace everything `scope` holds of a source with `items`. */
+    sync(input: SyncInput): { accepted: number; removed: number } {
+      const { source, scope } = input;
+      const items: NewIndexItem[] = input.items.map((item) => ({
+        ...item,
+        source,
+        id: scopedId(scope, item.id),
+        userId: input.userId ?? '',
+        scope,
+        location: item.location ?? input.location ?? null,
+      }));
+      const keep = new Set(items.map((item) => item.id));
+      const accepted = index.upsert(items);
+      const removed = repo.idsInScope(scope, source).filter((id) => !keep.has(id) && repo.remove(source, id)).length;
+      return { accepted, removed };
+    },
+
+    /** Forget everything the given widgets sent (e.g. after they were removed from a page). */
+    removeScopes(scopes: string[]): number {
+      return scopes.reduce((removed, scope) => removed + repo.removeScope(scope), 0);
+    },
+
+    /** Keep a DB task in step with the index; null removes it. */
+    taskChanged(id: string, task: TaskRecord | null) {
+      if (task) index.upsert([taskToIndexItem(task)]);
+      else repo.remove('task', id);
+    },
+
+    /** The user's items closest to `text`, best first. Items still being embedded are not included. */
+    async query(text: string, q: QueryOptions = {}): Promise<SemanticHit[]> {
+      if (stopped) throw new IndexError('The index is shut down', 'stopped');
+      const embedder = getEmbedder();
+      let vector: number[];
+      try {
+        [vector] = await embedder.embed([text], { signal: q.signal });
+      } catch (err) {
+        throw new IndexError(`Could not embed the query: ${(err as Error).message}`, 'embedder');
+      }
+      const target = toUnit(vector);
+
+      const best = new Map<string, SemanticHit>();
+      for (const chunk of repo.chunks(embedder.id, q.userId ?? '')) {
+        if (q.sources && !q.sources.includes(chunk.source)) continue;
+        if (chunk.vector.length !== target.length) continue;
+        const score = dot(target, chunk.vector);
+        const key = `${chunk.source}:${chunk.itemId}`;
+        if ((best.get(key)?.score ?? -Infinity) >= score) continue;
+        // Passages start with the title; the excerpt is the body.
+        const body = chunk.text.startsWith(`${chunk.title}\n`) ? chunk.text.slice(chunk.title.length + 1) : chunk.text;
+        best.set(key, {
+          source: chunk.source,
+          id: chunk.itemId,
+          title: chunk.title,
+          excerpt: body.length > EXCERPT_CHARS ? `${body.slice(0, EXCERPT_CHARS - 1).trimEnd()}…` : body,
+          score,
+        });
+      }
+      return [...best.values()].sort((a, b) => b.score - a.score).slice(0, q.limit ?? 8);
+    },
+
+    /** Wait until every stored item has been embedded (or embedding failed). */
+    flush(): Promise<void> {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      return drain();
+    },
+
+    /** Drop all vectors, re-read the user's DB tasks and embed everything again. */
+    async rebuild(userId?: string): Promise<IndexStatus> {
+      repo.clearVectors();
+      if (tasks && userId !== undefined) {
+        for (const task of tasks.getForUser(userId)) repo.upsert(taskToIndexItem(task));
+      }
+      await index.flush();
+      return index.status();
+    },
+
+    status(): IndexStatus {
+      const embedder = currentEmbedder();
+      return {
+        embedder: embedder?.id ?? null,
+        items: repo.count(),
+        pending: embedder ? repo.countStale(embedder.id, unlockedUserId() ?? undefined) : repo.count(),
+        error: lastError,
+      };
+    },
+
+    /** Abort embedding in flight and stop scheduling; `start` resumes. */
+    stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      controller.abort();
+    },
+
+    /** Pick up items left stale by an earlier session or a provider switch. */
+    start() {
+      stopped = false;
+      if (controller.signal.aborted) controller = new AbortController();
+      schedule();
+    },
+  };
+  return index;
+}
+
+export type SemanticIndex = ReturnType<typeof createSemanticIndex>;
+
+/* -----------------------
+   App singleton + IPC
+   ----------------------- */
+
+let instance: SemanticIndex | null = null;
+
+export function getSemanticIndex(): SemanticIndex {
+  if (!instance) {
+    const repos = getRepositories();
+    instance = createSemanticIndex({
+      repo: repos.index,
+      tasks: repos.tasks,
+      unlockedUserId: () => getAuthService().unlocked()?.userId ?? null,
+    });
+    instance.start();
+  }
+  return instance;
+}
+
+export function stopSemanticIndex() {
+  instance?.stop();
+}
+
+/** An id or scope sent by a widget, as stored for `userId`. */
+const ownKey = (userId: string, key: string) => `${userId}:${key}`;
+
+export function registerIndexIpc(ipcMain: IpcMain, auth: AuthService = getAuthService()) {
+  handle(ipcMain, 'index:upsert', (items) => {
+    const userId = currentProfileId(auth);
+    const own = items.map((item) => ({ ...item, id: ownKey(userId, item.id), userId }));
+    return { accepted: getSemanticIndex().upsert(own) };
+  });
+  handle(ipcMain, 'index:remove', (refs) => {
+    const userId = currentProfileId(auth);
+    return { removed: getSemanticIndex().remove(refs.map((ref) => ({ ...ref, id: ownKey(userId, ref.id) }))) };
+  });
+  handle(ipcMain, 'index:sync', (input) => {
+    const userId = currentProfileId(auth);
+    return getSemanticIndex().sync({ ...input, scope: ownKey(userId, input.scope), userId });
+  });
+  handle(ipcMain, 'index:removeScopes', (scopes) => {
+    const userId = currentProfileId(auth);
+    return { removed: getSemanticIndex().removeScopes(scopes.map((scope) => ownKey(userId, scope))) };
+  });
+  handle(ipcMain, 'index:query', ({ query, ...opts }) =>
+    getSemanticIndex().query(query, { ...opts, userId: currentProfileId(auth) })
+  );
+  handle(ipcMain, 'index:status', () => getSemanticIndex().status());
+  handle(ipcMain, 'index:rebuild', () => getSemanticIndex().rebuild(currentProfileId(auth)));
+
+  // Whoever signs in may have items left stale while they were away, and the lock screen pauses embedding
+  auth.onChange((event) => {
+    if (event.type === 'signed-in' || event.type === 'screen-unlocked') getSemanticIndex().start();
+  });
+}
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { createEchoProvider, setProviderOverride } from './providers';
+import { extractJson, generateStructured, StructuredOutputError } from './structured-output';
+
+// Sign-in is not under test (and would pull in Electron)
+vi.mock('./auth', () => ({ getAuthService: vi.fn() }));
+
+afterEach(() => {
+  setProviderOverride(null);
+});
+
+const REPAIR = 'Your previous reply was rejected';
+
+const Schema = z.object({ title: z.string() });
+
+describe('extractJson', () => {
+  it('reads JSON around prose, in fences and with trailing commas', () => {
+    expect(extractJson('Sure! {"a": 1} hope that helps')).toEqual({ a: 1 });
+    expect(extractJson('```json\n[1, 2,]\n```')).toEqual([1, 2]);
+  });
+
+  it('fails with a parse error when nothing parses', () => {
+    expect(() => extractJson('no json here')).toThrow(StructuredOutputError);
+  });
+});
+
+describe('generateStructured', () => {
+  it('repairs a reply that does not validate', async () => {
+    setProviderOverride(
+      createEchoProvider([
+        { match: REPAIR, response: { title: 'fixed' } },
+        { match: /^/, response: { title: 42 } },
+      ])
+    );
+    expect(await generateStructured('Name it', Schema)).toEqual({ title: 'fixed' });
+  });
+
+  it('passes on the tokens of the accepted reply only', async () => {
+    setProviderOverride(
+      createEchoProvider([
+        { match: REPAIR, response: '{"title": "second"}' },
+        { match: /^/, response: 'not json at all' },
+      ])
+    );
+    const tokens: string[] = [];
+    await generateStructured('Name it', Schema, { onToken: (token) => tokens.push(token) });
+    expect(tokens.join('')).toBe('{"title": "second"}');
+  });
+
+  it('gives up after the retries with the last problems', async () => {
+    setProviderOverride(createEchoProvider([{ match: /^/, response: '[]' }]));
+    await expect(generateStructured('Name it', Schema, { retries: 1 })).rejects.toMatchObject({
+      kind: 'validation',
+      attempts: 2,
+    });
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Electron main: schema-guided structured output on top of main/providers.ts.
+ *
+ * `generateStructured(prompt, schema, opts)`:
+ * - appends JSON-schema instructions derived from the zod schema to the prompt,
+ * - runs the prompt in JSON mode on the selected provider,
+ * - extracts JSON tolerantly (prose around it, ``` fences, trailing commas),
+ * - validates it with zod; on failure re-prompts with the parse/validation errors,
+ *   up to `retries` times,
+ * - resolves with the parsed (typed) value or rejects with a StructuredOutputError
+ *   whose `issues` are short, user-readable lines.
+ *
+ * `onToken` only ever sees the accepted reply: each attempt's tokens are held back until
+ * the reply validates, so a rejected attempt never reaches the listener.
+ *
+ * Provider errors (network, auth, capability...) are not retried here and propagate
+ * as ProviderError.
+ */
+
+import type { z, ZodError, ZodTypeAny } from 'zod';
+import { generateText, type GenerateTextOptions } from './providers';
+
+const DEFAULT_RETRIES = 2;
+/** How much of a rejected reply is echoed back in a repair prompt. */
+const MAX_ECHO_CHARS = 4000;
+
+/* -----------------------
+   Errors
+   ----------------------- */
+
+export type StructuredOutputErrorKind = 'parse' | 'validation';
+
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: StructuredOutputErrorKind,
+    public readonly issues: string[] = [],
+    /** Last raw model reply, for logs; not meant for display. */
+    public readonly raw = '',
+    public readonly attempts = 1
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/* -----------------------
+   zod -> JSON schema
+   ----------------------- */
+
+export type JsonSchema = { [key: string]: unknown };
+
+/**
+ * Convert the subset of zod used by the flows into a JSON schema for prompting.
+ * Unsupported types degrade to `{}` (any value) rather than failing.
+ */
+export function toJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const def = schema._def as { typeName?: string; [key: string]: any };
+  const withDescription = (out: JsonSchema): JsonSchema =>
+    schema.description ? { ...out, description: schema.description } : out;
+
+  switch (def.typeName) {
+    case 'ZodString':
+      return withDescription({ type: 'string' });
+    case 'ZodNumber':
+      return withDescription({
+        type: def.checks?.some((c: { kind: string }) => c.kind === 'int') ? 'integer' : 'number',
+      });
+    case 'ZodBoolean':
+      return withDescription({ type: 'boolean' });
+    case 'ZodNull':
+      return withDescription({ type: 'null' });
+    case 'ZodLiteral':
+      return withDescription({ const: def.value });
+    case 'ZodEnum':
+      return withDescription({ type: 'string', enum: def.values });
+    case 'ZodArray':
+      return withDescription({ type: 'array', items: toJsonSchema(def.type) });
+    case 'ZodRecord':
+      return withDescription({ type: 'object', additionalProperties: toJsonSchema(def.valueType) });
+    case 'ZodObject': {
+      const shape = def.shape() as Record<string, ZodTypeAny>;
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = toJsonSchema(value);
+        if (!value.isOptional()) required.push(key);
+      }
+      return withDescription({ type: 'object', properties, required });
+    }
+    case 'ZodUnion':
+      return withDescription({ anyOf: (def.options as ZodTypeAny[]).map(toJsonSchema) });
+    case 'ZodNullable':
+      return withDescription({ anyOf: [toJsonSchema(def.innerType), { type: 'null' }] });
+    case 'ZodOptional':
+    case 'ZodDefault':
+      return withDescription(toJsonSchema(def.innerType));
+    case 'ZodEffects':
+      return withDescription(toJsonSchema(def.schema));
+    default:
+      return withDescription({});
+  }
+}
+
+/** Prompt suffix telling the model exactly what to return. */
+export function schemaInstructions(schema: ZodTypeAny): string {
+  return [
+    'Respond with ONLY a JSON value that matches this JSON Schema.',
+    'No prose, no markdown fences. Use null for unknown values where the schema allows it.',
+    JSON.stringify(toJsonSchema(schema), null, 2),
+  ].join('\n');
+}
+
+/* -----------------------
+   Tolerant JSON extraction
+   ----------------------- */
+
+/**
+ * Return the first complete JSON object/array in `text` (or from the first opener to the
+ * end when it is never closed), skipping brackets inside strings.
+ */
+function sliceJson(text: string): string | null {
+  const start = text.search(/[{[]/);
+  if (start === -1) return null;
+
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') stack.push('}');
+    else if (ch === '[') stack.push(']');
+    else if (ch === '}' || ch === ']') {
+      stack.pop();
+      if (stack.length === 0) return text.slice(start, i + 1);
+    }
+  }
+  return text.slice(start);
+}
+
+/** Drop commas directly before a closing bracket, outside strings. */
+function stripTrailingCommas(json: string): string {
+  let out = '';
+  let inString = false;
+  let escaped = false;
+  for (let i = 0; i < json.length; i++) {
+    const ch = json[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === ',') {
+      const next = json.slice(i + 1).match(/^\s*([}\]])/);
+      if (next) continue;
+    }
+    out += ch;
+  }
+  return out;
+}
+
+/**
+ * Parse JSON out of a model reply: tolerates surrounding prose, ``` fences and
+ * trailing commas. Throws StructuredOutputError('parse') when nothing parses.
+ */
+export function extractJson(text: string): unknown {
+  const cleaned = text.replace(/^\uFEFF/, '').trim();
+  const fenced = cleaned.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidates = [fenced?.[1], cleaned].filter((c): c is string => !!c);
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      const slice = sliceJson(candidate);
+      if (!slice) continue;
+      try {
+        return JSON.parse(stripTrailingCommas(slice));
+      } catch {
+        // try the next candidate
+      }
+    }
+  }
+  throw new StructuredOutputError('The model reply did not contain valid JSON.', 'parse', [
+    'Reply was not valid JSON.',
+  ], text);
+}
+
+/** Flatten zod issues into "path: message" lines. */
+export function formatIssues(error: ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
+
+/* -----------------------
+   Generate + validate + repair
+   ----------------------- */
+
+export interface StructuredOptions extends GenerateTextOptions {
+  /** Extra attempts after the first one when the reply does not parse or validate. */
+  retries?: number;
+}
+
+function repairPrompt(prompt: string, raw: string, issues: string[]): string {
+  return [
+    prompt,
+    '',
+    'Your previous reply was rejected:',
+    raw.slice(0, MAX_ECHO_CHARS),
+    '',
+    'Problems:',
+    ...issues.map((i) => `- ${i}`),
+    '',
+    'Reply again with ONLY the corrected JSON.',
+  ].join('\n');
+}
+
+/**
+ * Run `prompt` on the selected provider and return a value validated by `schema`.
+ */
+export async function generateStructured<S extends ZodTypeAny>(
+  prompt: string,
+  schema: S,
+  opts: StructuredOptions = {}
+): Promise<z.output<S>> {
+  const { retries = DEFAULT_RETRIES, onToken, ...textOpts } = opts;
+  const fullPrompt = `${prompt.trimEnd()}\n\n${schemaInstructions(schema)}`;
+
+  let current = fullPrompt;
+  let lastError: StructuredOutputError | null = null;
+  for (let attempt = 1; attempt <= retries + 1; attempt++) {
+    let streamed = '';
+    const raw = await generateText(current, {
+      ...textOpts,
+      json: true,
+      onToken: onToken && ((token) => (streamed += token)),
+    });
+
+    let value: unknown;
+    try {
+      value = extractJson(raw);
+    } catch (err) {
+      lastError = err as StructuredOutputError;
+      current = repairPrompt(fullPrompt, raw, lastError.issues);
+      continue;
+    }
+
+    const parsed = schema.safeParse(value);
+    if (parsed.success) {
+      if (onToken && streamed) onToken(streamed);
+      return parsed.data;
+    }
+
+    const issues = formatIssues(parsed.error);
+    lastError = new StructuredOutputError('The model reply did not match the expected format.', 'validation', issues, raw);
+    current = repairPrompt(fullPrompt, raw, issues);
+  }
+
+  const { message, kind, issues, raw } = lastError!;
+  throw new StructuredOutputError(`${message} Gave up after ${retries + 1} attempts.`, kind, issues, raw, retries + 1);
+}
@@ -0,0 +1,121 @@
+/**
+ * Electron main: the signed-in profile's tasks, one store behind every task widget (to-do
+ * list, quadrants, Scrum board, planners, calendar, challenge timer).
+ *
+ * - Each widget shows the same tasks through the fields it cares about, so ticking a task
+ *   off on the Scrum board ticks it off in the to-do list and on the schedule too.
+ * - A task may be a step of another (`parentId`) of the same profile, never of itself or of
+ *   one of its own steps. Deleting a task keeps its steps, as tasks of their own.
+ * - Every change is pushed to the windows as 'tasks:changed' and kept in step with the
+ *   semantic index (main/semantic-index.ts).
+ *
+ * `createTaskService` is independent of Electron; `registerTaskIpc` wires it up.
+ */
+
+import { BrowserWindow, type IpcMain } from 'electron';
+import type { TaskRecord } from '../src/shared/types';
+import { getAuthService } from './auth';
+import { getRepositories, type NewTask, type TaskRepository, type TaskUpdates } from './db';
+import { emit, handle } from './ipc';
+import { currentProfileId } from './profiles';
+import { getSemanticIndex } from './semantic-index';
+
+export class TaskError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: 'not-found' | 'invalid'
+  ) {
+    super(message);
+    this.name = 'TaskError';
+  }
+}
+
+export interface TaskServiceOptions {
+  repo: TaskRepository;
+  /** The signed-in profile; throws when nobody is signed in. */
+  currentUserId: () => string;
+  /** Called after a task was added or updated (`task`), or deleted (null). */
+  onChanged?: (taskId: string, task: TaskRecord | null) => void;
+}
+
+export function createTaskService(opts: TaskServiceOptions) {
+  const { repo, currentUserId } = opts;
+  const changed = (taskId: string, task: TaskRecord | null) => opts.onChanged?.(taskId, task);
+
+  /** The task if it belongs to the signed-in profile; others count as missing. */
+  function ownTask(taskId: string): TaskRecord {
+    const task = repo.ownerOf(taskId) === currentUserId() ? repo.findById(taskId) : null;
+    if (!task) throw new TaskError('This task no longer exists.', 'not-found');
+    return task;
+  }
+
+  /** `parentId` must be an own task that is not `taskId` or one of its steps. */
+  function checkParent(parentId: string | null | undefined, taskId?: string) {
+    if (!parentId) return;
+    for (let id: string | null = parentId; id; id = ownTask(id).parentId) {
+      if (id === taskId) throw new TaskError('A task cannot be a step of itself.', 'invalid');
+    }
+  }
+
+  return {
+    /** The signed-in profile's tasks, oldest first. */
+    list(): TaskRecord[] {
+      return repo.getForUser(currentUserId());
+    },
+
+    add(task: NewTask): TaskRecord {
+      checkParent(task.parentId);
+      const added = repo.add(currentUserId(), task);
+      changed(added.id, added);
+      return added;
+    },
+
+    update(taskId: string, updates: TaskUpdates): TaskRecord {
+      ownTask(taskId);
+      checkParent(updates.parentId, taskId);
+      const updated = repo.update(taskId, updates)!;
+      changed(taskId, updated);
+      return updated;
+    },
+
+    delete(taskId: string): boolean {
+      ownTask(taskId);
+      const steps = repo.children(taskId);
+      const success = repo.delete(taskId);
+      if (!success) return false;
+      changed(taskId, null);
+      // The database detached the steps; let the windows and the index know
+      for (const step of steps) changed(step.id, repo.findById(step.id));
+      return true;
+    },
+  };
+}
+
+export type TaskService = ReturnType<typeof createTaskService>;
+
+/* -----------------------
+   App singleton + IPC
+   ----------------------- */
+
+let instance: TaskService | null = null;
+
+export function getTaskService(): TaskService {
+  instance ??= createTaskService({
+    repo: getRepositories().tasks,
+    currentUserId: () => currentProfileId(getAuthService()),
+    onChanged: (taskId, task) => {
+      getSemanticIndex().taskChanged(taskId, task);
+      for (const window of BrowserWindow.getAllWindows()) {
+        emit(window.webContents, 'tasks:changed', { taskId, task });
+      }
+    },
+  });
+  return instance;
+}
+
+export function registerTaskIpc(ipcMain: IpcMain, service: TaskService = getTaskService()) {
+  handle(ipcMain, 'tasks:list', () => service.list());
+  handle(ipcMain, 'tasks:add', (task) => service.add(task));
+  handle(ipcMain, 'tasks:update', ({ taskId, updates }) => service.update(taskId, updates));
+  handle(ipcMain, 'tasks:delete', (taskId) => ({ success: service.delete(taskId) }));
+}
@@ -0,0 +1,143 @@
+/**
+ * Electron main: offering the tool manifest to the model and reading back its calls.
+ *
+ * Two ways to get tool calls out of a model:
+ * - native: providers with the 'tools' capability get `toolSpecs()` as function
+ *   declarations and return structured calls (main/providers.ts).
+ * - prompted (local models): `toolPromptInstructions()` asks the model to end its reply
+ *   with ```tool fenced JSON blocks; `extractToolBlocks()` cuts them out of the text and
+ *   `createToolBlockFilter()` keeps them out of the streamed tokens.
+ *
+ * Either way, `validateToolCalls()` checks every call against the tool's zod schema and
+ * turns it into a proposal for the confirmation card. Nothing is executed in main.
+ */
+
+import { toolManifest, isToolName, type ToolManifest } from '../src/ai/tools/manifest';
+import type { AiToolCall, AiToolSpec } from './providers';
+import { extractJson, formatIssues, toJsonSchema } from './structured-output';
+import type { NewToolCall } from './db';
+
+const FENCE = '```tool';
+/** Calls beyond this in a single reply are dropped. */
+const MAX_CALLS_PER_REPLY = 5;
+
+/* -----------------------
+   Offering tools
+   ----------------------- */
+
+export function toolSpecs(tools: ToolManifest = toolManifest): AiToolSpec[] {
+  return Object.entries(tools).map(([name, def]) => ({
+    name,
+    description: def.description,
+    parameters: toJsonSchema(def.parameters),
+  }));
+}
+
+/** System-prompt section for models without native function calling. */
+export function toolPromptInstructions(tools: ToolManifest = toolManifest): string {
+  const list = toolSpecs(tools)
+    .map((spec) => `- ${spec.name}: ${spec.description}\n  arguments schema: ${JSON.stringify(spec.parameters)}`)
+    .join('\n');
+  return [
+    'To propose one of these actions, end your reply with one block per action, exactly like:',
+    `${FENCE}\n{"name": "createTask", "arguments": {"label": "Call the dentist"}}\n\`\`\``,
+    'Only use the tools listed here and only when the user wants that action. Do not mention the blocks.',
+    'Available tools:',
+    list,
+  ].join('\n');
+}
+
+/* -----------------------
+   Prompted calls
+   ----------------------- */
+
+/** Split a prompted reply into its visible text and the ```tool blocks it ends with. */
+export function extractToolBlocks(text: string): { text: string; calls: AiToolCall[] } {
+  const calls: AiToolCall[] = [];
+  const visible = text.replace(/```tool\s*([\s\S]*?)(?:```|$)/g, (_block, body: string) => {
+    try {
+      const parsed = extractJson(body) as { name?: unknown; arguments?: unknown };
+      calls.push({ name: String(parsed?.name ?? ''), arguments: parsed?.arguments ?? {} });
+    } catch {
+      calls.push({ name: '', arguments: body.trim() });
+    }
+    return '';
+  });
+  return { text: visible.trim(), calls };
+}
+
+/**
+ * Wrap a token callback so ```tool blocks are not streamed to the window. Text that could
+ * be the start of a fence is held back until it is clear it is not one.
+ */
+export function createToolBlockFilter(onToken: (delta: string) => void): (delta: string) => void {
+  let pending = '';
+  let inBlock = false;
+
+  return (delta) => {
+    pending += delta;
+    let out = '';
+    while (pending) {
+      if (inBlock) {
+        const close = pending.indexOf('```');
+        if (close === -1) {
+          // Keep a possible partial closing fence.
+          pending = pending.slice(-2);
+          break;
+        }
+        pending = pending.slice(close + 3);
+        inBlock = false;
+        continue;
+      }
+      const open = pending.indexOf(FENCE);
+      if (open !== -1) {
+        out += pending.slice(0, open);
+        pending = pending.slice(open + FENCE.length);
+        inBlock = true;
+        continue;
+      }
+      let keep = Math.min(FENCE.length - 1, pending.length);
+      while (keep > 0 && !FENCE.startsWith(pending.slice(-keep))) keep--;
+      out += pending.slice(0, pending.length - keep);
+      pending = pending.slice(pending.length - keep);
+      break;
+    }
+    if (out) onToken(out);
+  };
+}
+
+/* -----------------------
+   Validation
+   ----------------------- */
+
+/**
+ * Check calls against the manifest. Valid ones become proposals (args with defaults
+ * applied, plus the card summary); the rest are reported as short problem lines.
+ */
+export function validateToolCalls(
+  calls: AiToolCall[] = [],
+  tools: ToolManifest = toolManifest
+): { proposals: NewToolCall[]; problems: string[] } {
+  const proposals: NewToolCall[] = [];
+  const problems: string[] = [];
+
+  for (const call of calls.slice(0, MAX_CALLS_PER_REPLY)) {
+    if (!isToolName(call.name) || !(call.name in tools)) {
+      problems.push(`unknown action "${call.name || '(no name)'}"`);
+      continue;
+    }
+    const def = tools[call.name];
+    const parsed = def.parameters.safeParse(call.arguments);
+    if (!parsed.success) {
+      problems.push(`${call.name}: ${formatIssues(parsed.error).join('; ')}`);
+      continue;
+    }
+    // Each definition's summarize() matches its own parameters; the union here loses that link.
+    const summarize = def.summarize as (args: unknown) => string;
+    proposals.push({ name: call.name, args: parsed.data, summary: summarize(parsed.data) });
+  }
+  if (calls.length > MAX_CALLS_PER_REPLY) {
+    problems.push(`only the first ${MAX_CALLS_PER_REPLY} actions were kept`);
+  }
+  return { proposals, problems };
+}
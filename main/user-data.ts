@@ -0,0 +1,94 @@
+/**
+ * Electron main: per-user values encrypted at rest.
+ *
+ * - Values (the builder pages, the API keys, ...) are sealed with the signed-in user's data
+ *   key (main/encryption.ts, opened at sign-in by main/auth.ts), each bound to its user and
+ *   key so rows cannot be swapped.
+ * - Reading or writing without an unlocked user fails with UserDataError 'locked'; a value
+ *   that does not decrypt fails with 'unreadable'. Neither ever comes back as "no value", so
+ *   callers cannot mistake locked data for empty data and save defaults over it.
+ * - The repositories that seal their own columns (tasks, conversations, ...; main/db.ts) get
+ *   the data key through `createDataKeyLookup`, under the same rule: only the unlocked user's.
+ * - Keys under SECRET_KEY_PREFIX (API keys, main/secrets.ts) are refused by the IPC contract:
+ *   only main reads them.
+ *
+ * IPC: 'userData:get' and 'userData:set' (see src/services/user-data.ts).
+ */
+
+import type { IpcMain } from 'electron';
+import { getAuthService, type AuthService } from './auth';
+import { getRepositories, type DataKeyLookup, type UserDataRepository } from './db';
+import { EncryptionError, seal, unseal } from './encryption';
+import { handle } from './ipc';
+
+export class UserDataError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: 'locked' | 'unreadable'
+  ) {
+    super(message);
+    this.name = 'UserDataError';
+  }
+}
+
+/** Where the data key comes from; AuthService in the app. */
+export type DataKeySource = Pick<AuthService, 'unlocked'>;
+
+const valueAad = (userId: string, key: string) => `gidit:user-data:${userId}:${key}`;
+
+export function createUserDataStore(repo: UserDataRepository, keys: DataKeySource) {
+  function unlocked() {
+    const found = keys.unlocked();
+    if (!found) throw new UserDataError('Sign in to open your data.', 'locked');
+    return found;
+  }
+
+  return {
+    /** The signed-in user's value for `key`; null when never set. */
+    get(key: string): string | null {
+      const { userId, dataKey } = unlocked();
+      const sealed = repo.get(userId, key);
+      if (!sealed) return null;
+      try {
+        return unseal(dataKey, sealed, valueAad(userId, key)).toString('utf8');
+      } catch (err) {
+        if (!(err instanceof EncryptionError)) throw err;
+        throw new UserDataError(`Your saved "${key}" could not be decrypted.`, 'unreadable');
+      }
+    },
+    /** Store (or with null, delete) the signed-in user's value for `key`. */
+    set(key: string, value: string | null): void {
+      const { userId, dataKey } = unlocked();
+      repo.set(userId, key, value === null ? null : seal(dataKey, value, valueAad(userId, key)));
+    },
+  };
+}
+
+export type UserDataStore = ReturnType<typeof createUserDataStore>;
+
+/** The data key of `userId` while they are the unlocked user; anyone else's data is locked. */
+export function createDataKeyLookup(keys: DataKeySource): DataKeyLookup {
+  return (userId) => {
+    const found = keys.unlocked();
+    if (!found || found.userId !== userId) throw new UserDataError('Sign in to open your data.', 'locked');
+    return found.dataKey;
+  };
+}
+
+/* -----------------------
+   App singleton + IPC
+   ----------------------- */
+
+let instance: UserDataStore | null = null;
+
+export function getUserDataStore(): UserDataStore {
+  instance ??= createUserDataStore(getRepositories().userData, getAuthService());
+  return instance;
+}
+
+export function registerUserDataIpc(ipcMain: IpcMain, store: UserDataStore = getUserDataStore()) {
+  handle(ipcMain, 'userData:get', (key) => store.get(key));
+  handle(ipcMain, 'userData:set', ({ key, value }) => {
+    store.set(key, value);
+  });
+}
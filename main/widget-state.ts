@@ -0,0 +1,96 @@
+/**
+ * Electron main: what each widget on the builder's pages keeps (its tasks, notes, scores...).
+ *
+ * - Values are kept per user, builder item id and key (WidgetStateRepository in main/db.ts),
+ *   sealed with the signed-in user's data key and bound to all three. Their contents are the
+ *   widget's business: main stores the text it is given.
+ * - Each value carries the schema version the widget wrote it with, so the widget can migrate
+ *   older values when it reads them (src/hooks/use-widget-state.ts).
+ * - Values of widgets no longer on any page are dropped when the pages are next loaded
+ *   (main/pages.ts): until then, undoing the removal brings a widget back with its data.
+ *
+ * IPC: 'widgetState:get' and 'widgetState:set' (see src/services/widget-state.ts).
+ */
+
+import type { IpcMain } from 'electron';
+import type { WidgetStateValue } from '../src/shared/types';
+import { getAuthService } from './auth';
+import { getRepositories, type WidgetStateRepository } from './db';
+import { EncryptionError, seal, unseal } from './encryption';
+import { handle } from './ipc';
+import type { DataKeySource } from './user-data';
+
+export class WidgetStateError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: 'locked' | 'unreadable'
+  ) {
+    super(message);
+    this.name = 'WidgetStateError';
+  }
+}
+
+const stateAad = (userId: string, itemId: string, key: string) => `gidit:widget-state:${userId}:${itemId}:${key}`;
+
+export function createWidgetStateStore(repo: WidgetStateRepository, keys: DataKeySource) {
+  function unlocked() {
+    const found = keys.unlocked();
+    if (!found) throw new WidgetStateError('Sign in to open your widgets.', 'locked');
+    return found;
+  }
+
+  function read(userId: string, dataKey: Buffer, itemId: string, key: string): WidgetStateValue | null {
+    const record = repo.get(userId, itemId, key);
+    if (!record) return null;
+    try {
+      const value = unseal(dataKey, record.data, stateAad(userId, itemId, key)).toString('utf8');
+      return { version: record.schemaVersion, value };
+    } catch (err) {
+      if (!(err instanceof EncryptionError)) throw err;
+      throw new WidgetStateError('This widget\'s data could not be decrypted.', 'unreadable');
+    }
+  }
+
+  return {
+    /** What the item keeps under `key`; null when it never kept anything there. */
+    get(itemId: string, key: string): WidgetStateValue | null {
+      const { userId, dataKey } = unlocked();
+      return read(userId, dataKey, itemId, key);
+    },
+    /** Everything the item keeps, by key. */
+    list(itemId: string): Record<string, WidgetStateValue> {
+      const { userId, dataKey } = unlocked();
+      return Object.fromEntries(repo.keys(userId, itemId).map((key) => [key, read(userId, dataKey, itemId, key)!]));
+    },
+    /** Store (or with null, delete) what the item keeps under `key`. */
+    set(itemId: string, key: string, version: number, value: string | null): void {
+      const { userId, dataKey } = unlocked();
+      repo.set(
+        userId,
+        itemId,
+        key,
+        value === null ? null : { schemaVersion: version, data: seal(dataKey, value, stateAad(userId, itemId, key)) }
+      );
+    },
+  };
+}
+
+export type WidgetStateStore = ReturnType<typeof createWidgetStateStore>;
+
+/* -----------------------
+   App singleton + IPC
+   ----------------------- */
+
+let instance: WidgetStateStore | null = null;
+
+export function getWidgetStateStore(): WidgetStateStore {
+  instance ??= createWidgetStateStore(getRepositories().widgetStates, getAuthService());
+  return instance;
+}
+
+export function registerWidgetStateIpc(ipcMain: IpcMain, store: WidgetStateStore = getWidgetStateStore()) {
+  handle(ipcMain, 'widgetState:get', ({ itemId, key }) => store.get(itemId, key));
+  handle(ipcMain, 'widgetState:set', ({ itemId, key, version, value }) => {
+    store.set(itemId, key, version, value);
+  });
+}
@@ -0,0 +1,88 @@
+"""
+Analytics helpers served by python/worker.py under the `analyze.` namespace.
+
+Only the standard library is used so these methods work on any Python 3.8+.
+"""
+
+import re
+import statistics
+from collections import defaultdict
+
+
+def summary_stats(params):
+    """Descriptive statistics for a list of numbers: {values: number[]}."""
+    values = [float(v) for v in params.get("values", []) if v is not None]
+    if not values:
+        return {"count": 0, "sum": 0, "mean": None, "median": None, "min": None, "max": None, "stdev": None}
+    return {
+        "count": len(values),
+        "sum": sum(values),
+        "mean": statistics.fmean(values),
+        "median": statistics.median(values),
+        "min": min(values),
+        "max": max(values),
+        "stdev": statistics.stdev(values) if len(values) > 1 else 0.0,
+    }
+
+
+def spending_by_category(params):
+    """
+    Totals per category for {transactions: [{category, amount}]}.
+    Negative amounts are expenses; results are sorted by absolute total, largest first.
+    """
+    totals = defaultdict(float)
+    counts = defaultdict(int)
+    for tx in params.get("transactions", []):
+        category = (tx.get("category") or "Uncategorized").strip() or "Uncategorized"
+        totals[category] += float(tx.get("amount") or 0)
+        counts[category] += 1
+    rows = [{"category": c, "total": round(t, 2), "count": counts[c]} for c, t in totals.items()]
+    rows.sort(key=lambda r: abs(r["total"]), reverse=True)
+    return {"categories": rows, "net": round(sum(totals.values()), 2)}
+
+
+_CALENDAR = re.compile(
+    r"\b(mon|tue|wed|thu|fri|sat|sun)[a-z]*\b|\b(today|tomorrow|tonight|next week)\b|"
+    r"\b\d{1,2}(:\d{2})?\s?(am|pm)\b|\b(meeting|appointment|appt|call with|dinner|party|birthday)\b",
+    re.IGNORECASE,
+)
+_FINANCE = re.compile(
+    r"[$€£]\s?\d|\b\d+(\.\d{2})?\s?(usd|dollars|bucks)\b|\b(pay|paid|bill|rent|invoice|budget|refund|"
+    r"subscription|bank|transfer|venmo|loan|tax(es)?)\b",
+    re.IGNORECASE,
+)
+_TASK = re.compile(
+    r"^(to ?do:?|need to|have to|must|should|remember to|don'?t forget)\b|^(call|email|buy|book|fix|send|"
+    r"finish|clean|schedule|write|pick up|renew|cancel|order|submit|reply)\b",
+    re.IGNORECASE,
+)
+
+
+def triage_brain_dump(params):
+    """
+    Keyword-based triage of {brainDump} into tasks / notes / calendarEvents / finance.
+    Used as the offline fallback when no model is available, so it errs on the side of
+    keeping every line: anything unmatched becomes a note.
+    """
+    result = {"tasks": [], "notes": [], "calendarEvents": [], "finance": []}
+    text = params.get("brainDump") or ""
+    for raw in re.split(r"[\n;]+|(?<=[.!?])\s+", text):
+        item = raw.strip(" \t-*•").strip()
+        if not item:
+            continue
+        if _CALENDAR.search(item):
+            result["calendarEvents"].append(item)
+        elif _FINANCE.search(item):
+            result["finance"].append(item)
+        elif _TASK.search(item):
+            result["tasks"].append(item)
+        else:
+            result["notes"].append(item)
+    return result
+
+
+METHODS = {
+    "summary_stats": summary_stats,
+    "spending_by_category": spending_by_category,
+    "triage_brain_dump": triage_brain_dump,
+}
@@ -0,0 +1,89 @@
+"""
+Document text extraction served by python/worker.py under the `extract_document_text.` namespace.
+
+- Images: pytesseract (optionally after preprocess.prepare_image_for_ocr).
+- PDFs: the embedded text layer via pypdf, falling back to the `pdftotext` CLI.
+
+Every backend is optional; `extract_text` reports which one produced the text and
+returns an empty string (not an error) when none is available.
+"""
+
+import importlib.util
+import os
+import shutil
+import subprocess
+
+HERE = os.path.dirname(os.path.abspath(__file__))
+
+
+def _load_preprocess():
+    spec = importlib.util.spec_from_file_location("gidit_preprocess_local", os.path.join(HERE, "preprocess.py"))
+    module = importlib.util.module_from_spec(spec)
+    spec.loader.exec_module(module)
+    return module
+
+
+_preprocess = _load_preprocess()
+
+
+def _ocr_image(path, enhance):
+    try:
+        from PIL import Image
+        import pytesseract
+    except ImportError:
+        return None, "unavailable"
+
+    prepared = None
+    if enhance:
+        try:
+            prepared = _preprocess.prepare_image_for_ocr({"path": path})["path"]
+        except Exception:
+            prepared = None
+    try:
+        with Image.open(prepared or path) as img:
+            return pytesseract.image_to_string(img), "tesseract"
+    finally:
+        if prepared:
+            try:
+                os.remove(prepared)
+            except OSError:
+                pass
+
+
+def _pdf_text(path):
+    try:
+        from pypdf import PdfReader
+
+        reader = PdfReader(path)
+        return "\n\n".join(page.extract_text() or "" for page in reader.pages), "pypdf"
+    except ImportError:
+        pass
+    if shutil.which("pdftotext"):
+        out = subprocess.run(["pdftotext", "-layout", path, "-"], capture_output=True, timeout=120)
+        if out.returncode == 0:
+            return out.stdout.decode("utf-8", "replace"), "pdftotext"
+    return None, "unavailable"
+
+
+def extract_text(params):
+    """
+    {path, mimeType?, enhance?: bool} -> {text, method}.
+    `enhance` runs the OCR pre-processing pass first (default true).
+    """
+    path = params["path"]
+    if not os.path.exists(path):
+        raise FileNotFoundError(path)
+
+    mime = (params.get("mimeType") or "").lower()
+    is_pdf = mime == "application/pdf" or path.lower().endswith(".pdf")
+    if is_pdf:
+        text, method = _pdf_text(path)
+    else:
+        text, method = _ocr_image(path, params.get("enhance", True))
+
+    return {"text": _preprocess.clean_text(text) if text else "", "method": method}
+
+
+METHODS = {
+    "extract_text": extract_text,
+}
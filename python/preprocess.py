@@ -0,0 +1,60 @@
+"""
+Pre-processing helpers served by python/worker.py under the `preprocess.` namespace.
+
+Image helpers need Pillow; they raise a clear error when it is missing so the caller
+can fall back to the raw image.
+"""
+
+import os
+import re
+import tempfile
+import unicodedata
+
+_LIGATURES = {"ﬀ": "ff", "ﬁ": "fi", "ﬂ": "fl", "ﬃ": "ffi", "ﬄ": "ffl"}
+
+
+def clean_text(text):
+    text = unicodedata.normalize("NFKC", text or "")
+    for lig, repl in _LIGATURES.items():
+        text = text.replace(lig, repl)
+    text = re.sub(r"-\n(?=[a-z])", "", text)  # re-join words hyphenated across lines
+    text = re.sub(r"[ \t\f\v]+", " ", text)
+    text = re.sub(r"\n{3,}", "\n\n", text)
+    return "\n".join(line.strip() for line in text.splitlines()).strip()
+
+
+def normalize_text(params):
+    """Normalize OCR output: {text} -> {text}."""
+    return {"text": clean_text(params.get("text"))}
+
+
+def prepare_image_for_ocr(params):
+    """
+    Grayscale, auto-contrast, upscale small images and binarize: {path} -> {path}.
+    Writes a new PNG next to the system temp dir; the caller owns deleting it.
+    """
+    try:
+        from PIL import Image, ImageOps
+    except ImportError as exc:
+        raise RuntimeError("Pillow is not installed (pip install pillow)") from exc
+
+    src = params["path"]
+    threshold = int(params.get("threshold", 160))
+    with Image.open(src) as img:
+        img = ImageOps.exif_transpose(img)
+        img = ImageOps.grayscale(img)
+        img = ImageOps.autocontrast(img)
+        if min(img.size) < 1000:
+            scale = 1000 / min(img.size)
+            img = img.resize((int(img.width * scale), int(img.height * scale)), Image.LANCZOS)
+        img = img.point(lambda p: 255 if p > threshold else 0)
+        fd, out = tempfile.mkstemp(prefix="gidit-ocr-", suffix=".png")
+        os.close(fd)
+        img.save(out, "PNG")
+    return {"path": out}
+
+
+METHODS = {
+    "normalize_text": normalize_text,
+    "prepare_image_for_ocr": prepare_image_for_ocr,
+}
@@ -0,0 +1,165 @@
+"""
+Long-lived Python worker for the Electron main process (see main/python-bridge.ts).
+
+Protocol
+- JSON-RPC 2.0 over stdio, one message per frame.
+- Each frame is a `Content-Length: <bytes>\\r\\n\\r\\n` header followed by a UTF-8 JSON body
+  (the same framing LSP uses), so payloads may contain newlines.
+- stdout carries protocol frames only; anything a method prints goes to stderr.
+
+Methods
+- Built in: `worker.ping` (health check) and `worker.methods` (registry listing).
+- Every module listed in MODULES exposes a `METHODS` dict of name -> callable(params).
+  Methods are registered as `<namespace>.<name>`, e.g. `analyze.summary_stats`.
+
+Requests run on a thread pool sized by `--concurrency`; `worker.ping` is answered on the
+reader thread so a slow OCR call never fails a health check.
+"""
+
+import argparse
+import importlib.util
+import json
+import os
+import sys
+import threading
+import time
+import traceback
+from concurrent.futures import ThreadPoolExecutor
+
+HERE = os.path.dirname(os.path.abspath(__file__))
+
+# namespace -> file name (file names may contain dashes, so load them by path)
+MODULES = {
+    "analyze": "analyze.py",
+    "preprocess": "preprocess.py",
+    "extract_document_text": "extract-document-text.py",
+}
+
+# JSON-RPC error codes
+PARSE_ERROR = -32700
+INVALID_REQUEST = -32600
+METHOD_NOT_FOUND = -32601
+INTERNAL_ERROR = -32603
+
+STARTED_AT = time.time()
+
+_out = sys.stdout.buffer
+_write_lock = threading.Lock()
+
+
+def load_methods():
+    registry = {}
+    load_errors = {}
+    for namespace, file_name in MODULES.items():
+        path = os.path.join(HERE, file_name)
+        try:
+            spec = importlib.util.spec_from_file_location(f"gidit_{namespace}", path)
+            module = importlib.util.module_from_spec(spec)
+            spec.loader.exec_module(module)
+        except Exception as exc:  # a broken module must not take the worker down
+            load_errors[namespace] = f"{type(exc).__name__}: {exc}"
+            continue
+        for name, fn in getattr(module, "METHODS", {}).items():
+            registry[f"{namespace}.{name}"] = fn
+    return registry, load_errors
+
+
+def read_frame(stream):
+    """Read one framed message. Returns None on EOF."""
+    length = None
+    while True:
+        line = stream.readline()
+        if not line:
+            return None
+        line = line.strip()
+        if not line:
+            break
+        key, _, value = line.decode("ascii", "replace").partition(":")
+        if key.lower() == "content-length":
+            length = int(value.strip())
+    if length is None:
+        raise ValueError("missing Content-Length header")
+    body = stream.read(length)
+    if len(body) < length:
+        return None
+    return body
+
+
+def write_frame(message):
+    body = json.dumps(message, default=str).encode("utf-8")
+    with _write_lock:
+        _out.write(f"Content-Length: {len(body)}\r\n\r\n".encode("ascii"))
+        _out.write(body)
+        _out.flush()
+
+
+def error(msg_id, code, message, data=None):
+    err = {"code": code, "message": message}
+    if data is not None:
+        err["data"] = data
+    write_frame({"jsonrpc": "2.0", "id": msg_id, "error": err})
+
+
+def main():
+    parser = argparse.ArgumentParser()
+    parser.add_argument("--concurrency", type=int, default=2)
+    args = parser.parse_args()
+
+    # Keep stray prints from method implementations off the protocol stream.
+    sys.stdout = sys.stderr
+
+    registry, load_errors = load_methods()
+    registry["worker.ping"] = lambda _params: {
+        "ok": True,
+        "pid": os.getpid(),
+        "uptime": round(time.time() - STARTED_AT, 3),
+        "python": sys.version.split()[0],
+        "loadErrors": load_errors,
+    }
+    registry["worker.methods"] = lambda _params: sorted(registry.keys())
+
+    pool = ThreadPoolExecutor(max_workers=max(1, args.concurrency))
+
+    def run(msg_id, method, params):
+        try:
+            result = registry[method](params)
+            write_frame({"jsonrpc": "2.0", "id": msg_id, "result": result})
+        except Exception as exc:
+            error(msg_id, INTERNAL_ERROR, f"{type(exc).__name__}: {exc}", traceback.format_exc(limit=5))
+
+    stdin = sys.stdin.buffer
+    while True:
+        try:
+            body = read_frame(stdin)
+        except ValueError as exc:
+            error(None, PARSE_ERROR, str(exc))
+            continue
+        if body is None:
+            break
+
+        try:
+            msg = json.loads(body)
+        except json.JSONDecodeError as exc:
+            error(None, PARSE_ERROR, f"invalid JSON: {exc}")
+            continue
+
+        msg_id = msg.get("id") if isinstance(msg, dict) else None
+        method = msg.get("method") if isinstance(msg, dict) else None
+        if not isinstance(method, str):
+            error(msg_id, INVALID_REQUEST, "request must include a method")
+            continue
+        if method not in registry:
+            error(msg_id, METHOD_NOT_FOUND, f"unknown method: {method}")
+            continue
+
+        if method == "worker.ping":
+            # Answer inline so health checks succeed even while every pool thread is busy.
+            run(msg_id, method, {})
+        else:
+            pool.submit(run, msg_id, method, msg.get("params") or {})
+
+    pool.shutdown(wait=True)
+
+
+if __name__ == "__main__":
+    main()
@@ -0,0 +1,95 @@
+/**
+ * Declarative AI flow definitions (main process).
+ *
+ * A flow is described once, in src/ai/flows/manifest.ts, by:
+ * - `input` / `output`: zod schemas; both ends of every run are validated against them
+ * - `capabilities`: what the selected provider must support (see AiCapability)
+ * - either `prompt`, the prompt template built from the parsed input, which is sent to the
+ *   provider (flows that declare 'json' go through generateStructured in
+ *   main/structured-output.ts, which validates against `output` and re-prompts on invalid
+ *   replies),
+ * - or `run`, a custom pipeline for flows that need more than one prompt (OCR first, Python
+ *   fallbacks, ...). It builds its own prompts and gets the run's FlowContext, which it must
+ *   pass on to the provider so cancelling and streaming keep working.
+ *
+ * The manifest is imported as a type by the renderer, so input/output types stay in
+ * sync with the schemas without a second declaration.
+ */
+
+import type { z, ZodTypeAny } from 'zod';
+import { generateText } from '../../main/providers';
+import { formatIssues, generateStructured } from '../../main/structured-output';
+import type { AiCapability } from '../shared/types';
+
+/** Per-run hooks; set when the flow runs as a background job (main/jobs.ts). */
+export interface FlowContext {
+  signal?: AbortSignal;
+  /** Report a stage, with `percent` in 0..1 when it is known. */
+  progress?: (stage: string, percent?: number) => void;
+  /** Streamed model output. */
+  onToken?: (delta: string) => void;
+}
+
+interface FlowBase<I extends ZodTypeAny, O extends ZodTypeAny> {
+  description: string;
+  input: I;
+  output: O;
+  capabilities: readonly AiCapability[];
+}
+
+export type FlowDefinition<I extends ZodTypeAny = ZodTypeAny, O extends ZodTypeAny = ZodTypeAny> = FlowBase<I, O> &
+  (
+    | { prompt: (input: z.output<I>) => string; run?: undefined }
+    | { prompt?: undefined; run: (input: z.output<I>, ctx: FlowContext) => Promise<z.input<O>> }
+  );
+
+export type FlowErrorKind = 'not-found' | 'input' | 'output';
+
+export class FlowError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: FlowErrorKind,
+    public readonly flow: string,
+    public readonly issues: string[] = []
+  ) {
+    super(message);
+    this.name = 'FlowError';
+  }
+}
+
+/** Identity helper that keeps the schema types of a definition. */
+export function defineFlow<I extends ZodTypeAny, O extends ZodTypeAny>(def: FlowDefinition<I, O>): FlowDefinition<I, O> {
+  return def;
+}
+
+async function runPrompt(def: FlowBase<any, any>, prompt: string, ctx: FlowContext): Promise<unknown> {
+  const opts = { needs: def.capabilities, signal: ctx.signal, onToken: ctx.onToken };
+  if (def.capabilities.includes('json')) {
+    return generateStructured(prompt, def.output, opts);
+  }
+  return (await generateText(prompt, opts)).trim();
+}
+
+/**
+ * Validate the input, run the flow and validate what it produced.
+ * Throws FlowError for schema violations; provider errors propagate unchanged.
+ */
+export async function executeFlow<I extends ZodTypeAny, O extends ZodTypeAny>(
+  name: string,
+  def: FlowDefinition<I, O>,
+  rawInput: unknown,
+  ctx: FlowContext = {}
+): Promise<z.output<O>> {
+  const input = def.input.safeParse(rawInput);
+  if (!input.success) {
+    throw new FlowError(`Invalid input for flow "${name}".`, 'input', name, formatIssues(input.error));
+  }
+
+  const raw = def.run ? await def.run(input.data, ctx) : await runPrompt(def, def.prompt(input.data), ctx);
+
+  const output = def.output.safeParse(raw);
+  if (!output.success) {
+    throw new FlowError(`Flow "${name}" returned an unexpected shape.`, 'output', name, formatIssues(output.error));
+  }
+  return output.data;
+}
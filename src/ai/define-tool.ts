@@ -0,0 +1,33 @@
+/**
+ * Declarative tool definitions for the Giddy assistant.
+ *
+ * A tool is an app action Giddy may propose in a reply, described once in
+ * src/ai/tools/manifest.ts by:
+ * - `parameters`: a zod object; it becomes the JSON schema offered to the model and
+ *   validates whatever the model sends back
+ * - `kind`: 'action' changes app data; 'query' only reads it (results go back to Giddy)
+ * - `summarize`: the one-line text shown on the confirmation card
+ * - `handledBy`: the widget that runs it in the renderer (see src/services/tools.ts)
+ *
+ * Tools never run in main: main stores the proposal, the user confirms it in the chat
+ * and the renderer runs it. This module only depends on zod, so the renderer can import
+ * the manifest at runtime.
+ */
+
+import type { z, ZodObject, ZodRawShape } from 'zod';
+
+export type ToolKind = 'action' | 'query';
+
+export interface ToolDefinition<P extends ZodObject<ZodRawShape> = ZodObject<ZodRawShape>> {
+  description: string;
+  kind: ToolKind;
+  parameters: P;
+  /** Display name of the widget that has to be open for the tool to run. */
+  handledBy: string;
+  summarize: (args: z.output<P>) => string;
+}
+
+/** Identity helper that keeps the schema type of a definition. */
+export function defineTool<P extends ZodObject<ZodRawShape>>(def: ToolDefinition<P>): ToolDefinition<P> {
+  return def;
+}
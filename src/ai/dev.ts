@@ -1,98 +1,65 @@
 /**
- * Electron main process AI flow loader / runner
+ * Electron main process AI flow registry / runner
  *
  * Responsibilities:
- * - Load AI "flow" modules from the local ai/flows folder (each flow should export a default async handler)
- * - Provide runFlow(name, payload) to execute a flow handler
- * - Utility helpers to run local Python scripts and call Ollama CLI (spawned as child processes)
- *
- * Placement:
- * - This file is intended to live in app/electron/ai/dev.ts
- * - Flows should be placed under app/electron/ai/flows and export a default async function:
- *     export default async function handler(payload: any) { ... }
+ * - Register the declarative flows from ./flows/manifest.ts (see ./define-flow.ts)
+ * - Provide runFlow(name, input) that validates input and output against the flow's schemas
+ * - Serve `ai:runFlow` and `ai:getFlows` to the renderer (registerFlowIpc)
+ * - Utility helpers to call the Python worker (main/python-bridge.ts), run one-off Python scripts and call Ollama (HTTP, see main/ollama.ts)
  *
  * Notes:
  * - All model execution / python scripts should be invoked from the Electron main process (this module).
  * - Renderer should call into main via IPC (preload + contextBridge) and not require these modules directly.
  */
 
-import { spawn, spawnSync } from 'child_process';
-import fs from 'fs';
-import path from 'path';
-
-export type FlowHandler = (payload: any) => Promise<any>;
-
-const flows: Record<string, FlowHandler> = {};
+import { spawn } from 'child_process';
+import type { IpcMain } from 'electron';
+import { handle } from '../../main/ipc';
+import { getOllamaClient, runPrompt, type PromptOptions } from '../../main/ollama';
+import { ProviderError, supportsCapability } from '../../main/providers';
+import { getPythonBridge, type CallOptions } from '../../main/python-bridge';
+import { StructuredOutputError } from '../../main/structured-output';
+import type { FlowErrorInfo, FlowInfo } from '../shared/types';
+import { executeFlow, FlowError, type FlowContext, type FlowDefinition } from './define-flow';
+import { flowManifest } from './flows/manifest';
+
+const flows = new Map<string, FlowDefinition<any, any>>();
 let initialized = false;
 
 /**
- * Initialize and load all flow modules from the flows directory.
- * Call this from your Electron main entry (main.ts) as part of app startup.
- *
- * @param baseDir Optional base directory where this file lives; defaults to __dirname
+ * Register every flow in the manifest. Call this from the Electron main entry (main.ts)
+ * as part of app startup; calling it again is a no-op.
  */
-export async function initAIFlows(baseDir?: string) {
+export function initAIFlows() {
   if (initialized) return;
-  const base = baseDir || __dirname; // when compiled, __dirname will point to compiled location
-  const flowsDir = path.resolve(base, 'ai', 'flows');
-
-  if (!fs.existsSync(flowsDir)) {
-    // no flows directory yet; nothing to load
-    initialized = true;
-    return;
-  }
-
-  const files = fs.readdirSync(flowsDir);
-  for (const file of files) {
-    if (!file.endsWith('.js') && !file.endsWith('.ts')) continue;
-    const full = path.join(flowsDir, file);
-    try {
-      // Use dynamic import so TS/ESM compiled files work; require fallback for CJS
-      // Normalize to file:// if using ESM import
-      let mod: any;
-      try {
-        const resolved = require.resolve(full);
-        // eslint-disable-next-line @typescript-eslint/no-var-requires
-        mod = require(resolved);
-      } catch (e) {
-        // fallback to dynamic import (works if bundler produced ESM)
-        // convert to file:// for import()
-        const asUrl = `file://${full}`;
-        mod = await import(asUrl);
-      }
-
-      const handler: FlowHandler | undefined = mod?.default ?? mod?.handler;
-      if (typeof handler === 'function') {
-        const name = path.basename(file, path.extname(file));
-        flows[name] = handler;
-        console.info(`[AI FLOWS] Registered flow "${name}" from ${file}`);
-      } else {
-        console.warn(`[AI FLOWS] Flow file ${file} does not export default handler function. Skipping.`);
-      }
-    } catch (err) {
-      console.error(`[AI FLOWS] Failed to load flow ${file}:`, err);
-    }
+  for (const [name, def] of Object.entries(flowManifest)) {
+    registerFlow(name, def);
   }
-
   initialized = true;
 }
 
+/**
+ * Register (or replace) a single flow, e.g. one defined outside the manifest.
+ */
+export function registerFlow(name: string, def: FlowDefinition<any, any>) {
+  flows.set(name, def);
+}
+
 /**
  * Run a registered flow by name.
  *
- * @param name Flow name (filename without extension)
- * @param payload Arbitrary payload passed to the flow handler
+ * @param name Flow name (key in the manifest)
+ * @param input Raw input; validated against the flow's input schema
+ * @throws FlowError when the flow is unknown or its input/output fails validation
  */
-export async function runFlow(name: string, payload: any): Promise<any> {
-  if (!initialized) {
-    await initAIFlows();
-  }
-  const handler = flows[name];
-  if (!handler) {
-    throw new Error(`Flow "${name}" not found. Available flows: ${Object.keys(flows).join(', ')}`);
+export async function runFlow(name: string, input: unknown, ctx: FlowContext = {}): Promise<unknown> {
+  initAIFlows();
+  const def = flows.get(name);
+  if (!def) {
+    throw new FlowError(`Flow "${name}" not found. Available flows: ${[...flows.keys()].join(', ')}`, 'not-found', name);
   }
   try {
-    return await handler(payload);
+    return await executeFlow(name, def, input, ctx);
   } catch (err) {
     console.error(`[AI FLOWS] Flow "${name}" error:`, err);
     throw err;
@@ -100,14 +67,58 @@ export async function runFlow(name: string, payload: any): Promise<any> {
 }
 
 /**
- * Get list of registered flow names.
+ * List registered flows; `available` reflects the currently selected provider.
+ */
+export function getRegisteredFlows(): FlowInfo[] {
+  initAIFlows();
+  return [...flows.entries()].map(([name, def]) => ({
+    name,
+    description: def.description,
+    capabilities: [...def.capabilities],
+    available: def.capabilities.every(supportsCapability),
+  }));
+}
+
+/**
+ * Map a flow failure to the serializable shape the renderer shows.
+ */
+export function toFlowErrorInfo(err: unknown): FlowErrorInfo {
+  if (err instanceof FlowError || err instanceof StructuredOutputError) {
+    return { kind: err.kind, message: err.message, issues: err.issues };
+  }
+  if (err instanceof ProviderError) {
+    return { kind: err.kind === 'locked' ? 'locked' : 'provider', message: err.message, issues: [] };
+  }
+  return { kind: 'unknown', message: err instanceof Error ? err.message : String(err), issues: [] };
+}
+
+/**
+ * IPC wiring for the renderer: `ai:runFlow` and `ai:getFlows`.
+ * Flow failures resolve as `{ success: false, error }` instead of rejecting, so the
+ * renderer keeps the error kind and field issues (invoke() rejections only carry a string).
+ */
+export function registerFlowIpc(ipcMain: IpcMain) {
+  handle(ipcMain, 'ai:runFlow', async ({ name, input }) => {
+    try {
+      return { success: true, output: await runFlow(name, input) };
+    } catch (err) {
+      return { success: false, error: toFlowErrorInfo(err) };
+    }
+  });
+  handle(ipcMain, 'ai:getFlows', () => getRegisteredFlows());
+}
+
+/**
+ * Helper: call a method on the long-lived Python worker (see main/python-bridge.ts),
+ * e.g. callPython('analyze.summary_stats', { values }). Prefer this over runPythonScript
+ * for anything called more than once; it avoids interpreter start-up per call.
  */
-export function getRegisteredFlows(): string[] {
-  return Object.keys(flows);
+export function callPython<T = unknown>(method: string, params?: unknown, opts?: CallOptions): Promise<T> {
+  return getPythonBridge().call<T>(method, params, opts);
 }
 
 /**
- * Helper: run a Python script as a child process.
+ * Helper: run a one-off Python script as a child process.
  *
  * @param scriptPath Absolute path to the python script
  * @param args Array of args passed to the script
@@ -146,63 +157,33 @@ export function runPythonScript(scriptPath: string, args: string[] = [], input?:
 }
 
 /**
- * Helper: call Ollama CLI to run local models
- * (requires ollama to be installed and available in PATH)
+ * Helper: run a prompt against the configured Ollama host and model
+ * (requires the Ollama server to be running).
  *
- * Example: runOllama(['run', 'alpaca', '--prompt', 'hello'])
+ * Example: runOllama('hello', { format: 'json' })
  *
- * @param args CLI args
- * @param input Optional stdin for model
+ * @param prompt Prompt text
+ * @param opts Optional model override, format, images, timeout, signal, onToken
  */
-export function runOllama(args: string[], input?: string, timeoutMs = 120000): Promise<{ stdout: string; stderr: string; code: number | null }> {
-  return new Promise((resolve, reject) => {
-    const cmd = 'ollama';
-    const proc = spawn(cmd, args, { stdio: ['pipe', 'pipe', 'pipe'] });
-
-    let stdout = '';
-    let stderr = '';
-    const timer = setTimeout(() => {
-      proc.kill();
-      reject(new Error('Ollama call timed out'));
-    }, timeoutMs);
-
-    proc.stdout.on('data', (d) => { stdout += d.toString(); });
-    proc.stderr.on('data', (d) => { stderr += d.toString(); });
-
-    proc.on('error', (err) => {
-      clearTimeout(timer);
-      reject(err);
-    });
-
-    proc.on('close', (code) => {
-      clearTimeout(timer);
-      resolve({ stdout, stderr, code });
-    });
-
-    if (input) {
-      proc.stdin.write(input);
-    }
-    proc.stdin.end();
-  });
+export function runOllama(prompt: string, opts: PromptOptions = {}): Promise<string> {
+  return runPrompt(prompt, opts);
 }
 
 /**
- * Small synchronous helper to check if ollama is available.
+ * Small helper to check if the Ollama server is reachable.
  */
-export function isOllamaAvailable(): boolean {
-  try {
-    const res = spawnSync('ollama', ['version'], { encoding: 'utf8' });
-    return res.status === 0;
-  } catch {
-    return false;
-  }
+export async function isOllamaAvailable(): Promise<boolean> {
+  return (await getOllamaClient().version()) !== null;
 }
 
 export default {
   initAIFlows,
+  registerFlow,
   runFlow,
   getRegisteredFlows,
+  registerFlowIpc,
   runPythonScript,
+  callPython,
   runOllama,
   isOllamaAvailable,
 };
@@ -1,9 +1,12 @@
 import {promisify} from 'util';
-import {execFile as _execFile, spawn} from 'child_process';
+import {execFile as _execFile} from 'child_process';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
 import {z} from 'zod';
+import {generateStructured} from '../../../main/structured-output';
+import type {AiCapability} from '../../shared/types';
+import type {FlowContext} from '../define-flow';
 
 const execFile = promisify(_execFile);
 
@@ -17,9 +20,8 @@ const execFile = promisify(_execFile);
  * Implementation notes:
  * - OCR: uses `tesseract` CLI (if available). If tesseract is not installed,
  *   OCR will be skipped and extractedText will be null.
- * - AI generation: uses the Ollama CLI. The model name can be overridden via
- *   OLLAMA_MODEL env var. The code calls `ollama run <model> --prompt "<prompt>"`.
- *   Adjust to your local Ollama setup if needed.
+ * - AI generation: goes through the provider selected in settings (main/providers.ts)
+ *   in JSON mode and attaches the image, so the provider must support vision.
  *
  * The function validates inputs/outputs using zod schemas.
  */
@@ -27,7 +29,7 @@ const execFile = promisify(_execFile);
 /* Schemas */
 
 /* Input: expect a data URI that includes MIME type and base64 portion */
-const AnalyzeImageForGalleryInputSchema = z.object({
+export const AnalyzeImageForGalleryInputSchema = z.object({
   imageDataUri: z
     .string()
     .describe(
@@ -36,7 +38,7 @@ const AnalyzeImageForGalleryInputSchema = z.object({
 });
 export type AnalyzeImageForGalleryInput = z.infer<typeof AnalyzeImageForGalleryInputSchema>;
 
-const ImageAnalysisSchema = z.object({
+export const ImageAnalysisSchema = z.object({
   title: z.string().describe('A concise, descriptive title for the image (max 5 words).'),
   description: z.string().describe("A one-paragraph description of what is depicted in the image."),
   categories: z
@@ -78,45 +80,17 @@ async function tryTesseractOcr(imagePath: string): Promise<string | null> {
   }
 }
 
-async function runOllama(prompt: string, model = process.env.OLLAMA_MODEL || 'gpt-4o-mini'): Promise<string> {
-  // Use `ollama run <model> --prompt '<prompt>'`
-  // Note: depending on the installed Ollama version, flags may differ.
-  // This is a pragmatic default; adjust to your environment.
-  return new Promise((resolve, reject) => {
-    const args = ['run', model, '--prompt', prompt];
-    const proc = spawn('ollama', args, {stdio: ['ignore', 'pipe', 'pipe']});
-
-    let out = '';
-    let err = '';
-
-    proc.stdout.on('data', (chunk) => (out += chunk.toString()));
-    proc.stderr.on('data', (chunk) => (err += chunk.toString()));
-
-    proc.on('close', (code) => {
-      if (code === 0) {
-        resolve(out.trim());
-      } else {
-        reject(new Error(`ollama exited ${code}: ${err || out}`));
-      }
-    });
-
-    proc.on('error', (e) => reject(e));
-  });
-}
+export const requiredCapabilities: AiCapability[] = ['json', 'vision'];
 
 /* Prompt template builder */
-function buildPrompt(imageDataUri: string, ocrText: string | null) {
-  // Provide the image as data URI in the prompt (many local models may accept it,
-  // or the model can reason using the OCR text if OCR available).
-  // We instruct the model to return strict JSON matching the schema.
+export function buildPrompt(ocrText: string | null) {
+  // The image itself is attached to the request; the OCR text helps models
+  // without vision support. We instruct the model to return strict JSON matching the schema.
   const ocrNote = ocrText ? `OCR_TEXT_START\n${ocrText}\nOCR_TEXT_END` : 'No OCR text detected.';
   return `
 You are an expert AI for a photo gallery application. Your task is to analyze the provided image and return structured JSON.
 
-Image is provided as a data URI (base64). If your model cannot "view" the image directly, prefer to use the provided OCR text (if any) and infer content; otherwise, make a best-effort visual guess.
-
-Image (data URI):
-${imageDataUri}
+The image is attached to this request. If you cannot "view" the image directly, prefer to use the provided OCR text (if any) and infer content; otherwise, make a best-effort visual guess.
 
 OCR/Text extracted from the image (if any):
 ${ocrNote}
@@ -141,7 +115,7 @@ Return only the JSON object and nothing else.
 
 /* Main exported function */
 
-export async function analyzeImageForGallery(input: AnalyzeImageForGalleryInput): Promise<ImageAnalysis> {
+export async function analyzeImageForGallery(input: AnalyzeImageForGalleryInput, ctx: FlowContext = {}): Promise<ImageAnalysis> {
   // Validate input
   const parsed = AnalyzeImageForGalleryInputSchema.safeParse(input);
   if (!parsed.success) {
@@ -173,37 +147,21 @@ export async function analyzeImageForGallery(input: AnalyzeImageForGalleryInput)
     // Run OCR (best-effort). If not available, value will be null.
     const ocrText = await tryTesseractOcr(imagePath);
 
-    // Build prompt and call local Ollama model
-    const prompt = buildPrompt(imageDataUri, ocrText);
-
-    // Run Ollama and parse JSON from its output. The model should return only JSON per prompt.
-    const modelOutput = await runOllama(prompt);
+    // Build prompt and call the selected AI provider
+    const prompt = buildPrompt(ocrText);
 
-    // Try to find the first JSON object in the output (defensive parsing)
-    const firstBrace = modelOutput.indexOf('{');
-    const lastBrace = modelOutput.lastIndexOf('}');
-    if (firstBrace === -1 || lastBrace === -1) {
-      throw new Error('AI output did not contain a JSON object');
-    }
-    const jsonText = modelOutput.slice(firstBrace, lastBrace + 1);
-
-    let parsedJson: unknown;
-    try {
-      parsedJson = JSON.parse(jsonText);
-    } catch (e) {
-      throw new Error('Failed to parse JSON from AI output: ' + String(e));
-    }
-
-    // Validate output against schema
-    const validated = ImageAnalysisSchema.safeParse(parsedJson);
-    if (!validated.success) {
-      throw new Error('AI output did not match expected schema: ' + validated.error.message);
-    }
+    // Run the model; generateStructured extracts, validates and (if needed) repairs the JSON.
+    const analysis = await generateStructured(prompt, ImageAnalysisSchema, {
+      needs: requiredCapabilities,
+      images: [data.base64],
+      signal: ctx.signal,
+      onToken: ctx.onToken,
+    });
 
     // Ensure extractedText is null if empty string
     const result = {
-      ...validated.data,
-      extractedText: validated.data.extractedText === '' ? null : validated.data.extractedText,
+      ...analysis,
+      extractedText: analysis.extractedText === '' ? null : analysis.extractedText,
     };
 
     // If OCR produced text and model returned null extractedText, prefer OCR text
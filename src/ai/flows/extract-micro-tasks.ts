@@ -0,0 +1,35 @@
+/**
+ * Break a task description into small, concrete micro-tasks.
+ *
+ * Prompt-only flow: it has no custom pipeline, so the manifest's default runner sends
+ * the prompt in JSON mode and validates the reply against the output schema.
+ */
+
+import { z } from 'zod';
+import type { AiCapability } from '../../shared/types';
+
+export const requiredCapabilities: AiCapability[] = ['json'];
+
+export const ExtractMicroTasksInputSchema = z.object({
+  taskDescription: z.string().min(1).describe('A detailed description of a task or project.'),
+});
+export type ExtractMicroTasksInput = z.infer<typeof ExtractMicroTasksInputSchema>;
+
+export const ExtractMicroTasksOutputSchema = z.object({
+  microTasks: z.array(z.string()).describe('A list of micro-tasks extracted from the task description.'),
+});
+export type ExtractMicroTasksOutput = z.infer<typeof ExtractMicroTasksOutputSchema>;
+
+export function buildPrompt(input: ExtractMicroTasksInput): string {
+  return `You are a productivity assistant for people with ADHD. Break the task below into small, concrete micro-tasks.
+
+Rules:
+- Each micro-task starts with a verb and takes at most 15 minutes.
+- Keep the order in which they should be done.
+- Return 3 to 12 micro-tasks.
+
+Task:
+${input.taskDescription}
+
+Return ONLY a JSON object of the form: { "microTasks": ["...", "..."] }`;
+}
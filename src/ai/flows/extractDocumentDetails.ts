@@ -4,24 +4,28 @@
  * - Replaces the previous Next.js server flow with a main-process implementation that:
  *   1) Accepts a document image as a data URI,
  *   2) Writes it to a temp file,
- *   3) Attempts to run a Python OCR helper (if available) to get full text,
- *   4) Calls a local Ollama model via CLI to extract structured details (falls back safely),
+ *   3) Asks the Python worker (python/extract-document-text.py) for the full text via OCR (if available),
+ *   4) Asks the selected AI provider (JSON mode; image attached when it supports vision) to extract structured details (falls back safely),
  *   5) Validates output with zod and returns the typed DocumentDetails object.
  *
  * Notes:
  * - This file is intended to run in the Electron main process.
- * - It uses child_process to call Python and the Ollama CLI. Make sure system environment has python/pytesseract and ollama installed if you want OCR/LLM work.
- * - The function is resilient: if OCR or Ollama aren't available it returns a best-effort object.
+ * - It uses main/python-bridge.ts for OCR and main/providers.ts for the model. Make sure the system has python/pytesseract and a configured provider if you want OCR/LLM work.
+ * - The function is resilient: if OCR or the model aren't available it returns a best-effort object.
  */
 
 import fs from 'fs';
 import os from 'os';
 import path from 'path';
-import { spawnSync } from 'child_process';
 import { z } from 'zod';
+import { supportsCapability } from '../../../main/providers';
+import { generateStructured } from '../../../main/structured-output';
+import type { AiCapability } from '../../shared/types';
+import { getPythonBridge } from '../../../main/python-bridge';
+import type { FlowContext } from '../define-flow';
 
 // --- Schemas (kept compatible with the original) ---
-const ExtractDocumentDetailsInputSchema = z.object({
+export const ExtractDocumentDetailsInputSchema = z.object({
   documentDataUri: z
     .string()
     .describe(
@@ -60,7 +64,7 @@ const StatementDetailsSchema = z
   })
   .optional();
 
-const DocumentDetailsSchema = z.object({
+export const DocumentDetailsSchema = z.object({
   documentType: z
     .string()
     .describe(
@@ -104,93 +108,52 @@ async function saveDataUriToTempFile(dataUri: string): Promise<string> {
 }
 
 /**
- * Attempt to run a small Python OCR helper to produce full text.
- * This uses a simple inline Python snippet that requires Pillow and pytesseract.
- * If Python is not available or the helper fails, return null.
+ * Ask the Python worker to OCR the image (Pillow + pytesseract, with pre-processing).
+ * If Python or the OCR packages are not available, return null.
  */
-function runPythonOcr(imagePath: string): string | null {
+async function runPythonOcr(imagePath: string, mimeType: string, signal?: AbortSignal): Promise<string | null> {
   try {
-    const script = `
-import sys
-try:
-    from PIL import Image
-    import pytesseract
-    img = Image.open(sys.argv[1])
-    txt = pytesseract.image_to_string(img)
-    if txt is None:
-        txt = ""
-    # Print as-is
-    print(txt)
-except Exception as e:
-    # On any error, exit with empty output (we'll fallback in JS)
-    # Do not print stack traces to not bloat output
-    sys.exit(0)
-`;
-    const res = spawnSync('python3', ['-c', script, imagePath], { encoding: 'utf8', maxBuffer: 10 * 1024 * 1024 });
-    if (res.status === 0 && res.stdout) {
-      return res.stdout.trim();
-    }
-    // Try 'python' as fallback
-    const res2 = spawnSync('python', ['-c', script, imagePath], { encoding: 'utf8', maxBuffer: 10 * 1024 * 1024 });
-    if (res2.status === 0 && res2.stdout) {
-      return res2.stdout.trim();
-    }
-    return null;
+    const res = await getPythonBridge().call<{ text: string; method: string }>(
+      'extract_document_text.extract_text',
+      { path: imagePath, mimeType },
+      { timeoutMs: 120_000, signal }
+    );
+    return res.text || null;
   } catch (_e) {
     return null;
   }
 }
 
+/** Vision is optional: without it the model works from the OCR text alone. */
+export const requiredCapabilities: AiCapability[] = ['json'];
+
 /**
- * Call the Ollama CLI to run a local model prompt and return the textual output.
- * Expects 'ollama' CLI to be installed and accessible.
- * The model to run can be overridden via process.env.OLLAMA_MODEL.
+ * Ask the selected model for the document details (schema-checked, repaired on retry).
+ * The image is attached when the provider supports vision. Returns null when the
+ * provider is unreachable or never produces a valid object.
  */
-function runOllamaPrompt(prompt: string, maxWaitMs = 30_000): string | null {
+async function runModelPrompt(
+  prompt: string,
+  imageBase64: string,
+  ctx: FlowContext,
+  maxWaitMs = 30_000
+): Promise<DocumentDetails | null> {
   try {
-    const model = process.env.OLLAMA_MODEL || 'llama2'; // override as needed
-    // Some Ollama setups accept: ollama run <model> --prompt "<text>"
-    // We'll call it and capture stdout. Use spawnSync for simplicity.
-    const args = ['run', model, '--prompt', prompt];
-    const res = spawnSync('ollama', args, { encoding: 'utf8', maxBuffer: 10 * 1024 * 1024, timeout: maxWaitMs });
-    if (res.status === 0 && res.stdout) {
-      return res.stdout.trim();
-    }
-    // Some versions may output to stderr or return non-zero on warnings
-    if (res.stdout) return res.stdout.trim();
-    if (res.stderr) return res.stderr.trim();
-    return null;
+    const images = supportsCapability('vision') ? [imageBase64] : undefined;
+    return await generateStructured(prompt, DocumentDetailsSchema, {
+      needs: requiredCapabilities,
+      images,
+      timeoutMs: maxWaitMs,
+      signal: ctx.signal,
+      onToken: ctx.onToken,
+    });
   } catch (_e) {
     return null;
   }
 }
 
-/**
- * Extract JSON blob from arbitrary text. The LLM may output explanation + JSON.
- */
-function extractJsonFromText(text: string): string | null {
-  if (!text) return null;
-  // Attempt direct parse
-  try {
-    JSON.parse(text);
-    return text;
-  } catch (_) {
-    // Find first { ... } block that looks like JSON
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      try {
-        JSON.parse(jsonMatch[0]);
-        return jsonMatch[0];
-      } catch (_) {
-        return null;
-      }
-    }
-  }
-  return null;
-}
-
 // --- Prompt template (string) ---
-const extractorPromptTemplate = (ocrText: string | null) => `
+export const extractorPromptTemplate = (ocrText: string | null) => `
 You are an expert at Optical Character Recognition (OCR) and document analysis. Your task is to analyze the provided document (OCR output given below or the image if needed), identify its type, and return a strict JSON object with the following fields:
 
 - documentType: string (e.g., Receipt, Bank Statement, Invoice, Letter, Paystub, Pharmacy Record, Medical Document)
@@ -209,7 +172,7 @@ Important:
 OCR_TEXT:
 ${ocrText ? ocrText.replace(/\r/g, '') : '<<no-ocr-text-available>>'}
 
-If OCR_TEXT is insufficient, you may rely on the image (the image path is available to the calling process), but the response must still be valid JSON.
+If OCR_TEXT is insufficient, rely on the attached image, but the response must still be valid JSON.
 `;
 
 // --- Public function exported for other main-process modules to call ---
@@ -219,7 +182,10 @@ If OCR_TEXT is insufficient, you may rely on the image (the image path is availa
  *
  * This function is suitable to be exposed via IPC (e.g., from preload -> renderer).
  */
-export async function extractDocumentDetails(input: ExtractDocumentDetailsInput): Promise<DocumentDetails> {
+export async function extractDocumentDetails(
+  input: ExtractDocumentDetailsInput,
+  ctx: FlowContext = {}
+): Promise<DocumentDetails> {
   // Validate input shape
   const parsedInput = ExtractDocumentDetailsInputSchema.parse(input);
 
@@ -235,7 +201,9 @@ export async function extractDocumentDetails(input: ExtractDocumentDetailsInput)
   // Attempt OCR via Python helper (non-fatal)
   let ocrText: string | null = null;
   try {
-    ocrText = runPythonOcr(tempImagePath);
+    const mimeType = parsedInput.documentDataUri.slice(5, parsedInput.documentDataUri.indexOf(';'));
+    ctx.progress?.('Reading document', 0.1);
+    ocrText = await runPythonOcr(tempImagePath, mimeType, ctx.signal);
   } catch {
     ocrText = null;
   }
@@ -243,29 +211,10 @@ export async function extractDocumentDetails(input: ExtractDocumentDetailsInput)
   // Build prompt for the local LLM
   const prompt = extractorPromptTemplate(ocrText);
 
-  // Call Ollama (non-fatal)
-  let llmOutputText: string | null = null;
-  try {
-    llmOutputText = runOllamaPrompt(prompt);
-  } catch {
-    llmOutputText = null;
-  }
-
-  // Attempt to extract JSON from LLM output
-  let jsonText: string | null = null;
-  if (llmOutputText) {
-    jsonText = extractJsonFromText(llmOutputText);
-  }
-
-  // Fallback: if no JSON obtained, attempt a minimal best-effort object
-  let parsedResult: unknown;
-  if (jsonText) {
-    try {
-      parsedResult = JSON.parse(jsonText);
-    } catch {
-      parsedResult = null;
-    }
-  }
+  // Call the model (non-fatal)
+  const imageBase64 = parsedInput.documentDataUri.slice(parsedInput.documentDataUri.indexOf(',') + 1);
+  ctx.progress?.('Extracting details', 0.5);
+  let parsedResult: unknown = await runModelPrompt(prompt, imageBase64, ctx);
 
   if (!parsedResult) {
     // Build a best-effort result using OCR text (or placeholders)
@@ -12,7 +12,8 @@
  * - A Python script at app/electron/scripts/extract_receipt.py (or another path you choose) that accepts a single argument (image path)
  *   and writes the extracted JSON object to stdout.
  *
- * If you prefer to call Ollama or another local model, replace the spawn/python call with the appropriate child_process invocation.
+ * With `config.provider` set to any AI provider id (the renderer passes the one from settings) the image is
+ * sent in JSON mode to the AI provider selected in settings (main/providers.ts) instead, which must support vision.
  */
 
 import { promises as fs } from 'fs';
@@ -21,13 +22,12 @@ import os from 'os';
 import { spawn } from 'child_process';
 import crypto from 'crypto';
 import { z } from 'zod';
+import { generateStructured } from '../../../main/structured-output';
+import type { AiCapability } from '../../shared/types';
+import type { FlowContext } from '../define-flow';
 
-type AIProvider = 'ollama' | 'local' | 'other';
-
-type FlowConfig = {
-  provider: AIProvider;
-  apiKey?: string;
-};
+/** Non-AI extraction backends; every other provider value goes through main/providers.ts. */
+const SCRIPT_PROVIDERS = ['local', 'other'] as const;
 
 // --- Schemas (zod) ---
 export const ExtractReceiptDataInputSchema = z.object({
@@ -38,8 +38,7 @@ export const ExtractReceiptDataInputSchema = z.object({
     ),
   config: z
     .object({
-      provider: z.enum(['ollama', 'local', 'other']).optional(),
-      apiKey: z.string().optional(),
+      provider: z.enum(['gemini', 'groq', 'openai', 'anthropic', 'deepseek', 'ollama', ...SCRIPT_PROVIDERS]).optional(),
     })
     .optional(),
 });
@@ -115,7 +114,11 @@ async function writeTempFile(buffer: Buffer, ext: string) {
   return tmpPath;
 }
 
-function runCliAndCollectStdout(command: string, args: string[], options?: { cwd?: string; env?: NodeJS.ProcessEnv }) {
+function runCliAndCollectStdout(
+  command: string,
+  args: string[],
+  options?: { cwd?: string; env?: NodeJS.ProcessEnv; signal?: AbortSignal }
+) {
   return new Promise<{ stdout: string; stderr: string; code: number | null }>((resolve, reject) => {
     const child = spawn(command, args, {
       stdio: ['ignore', 'pipe', 'pipe'],
@@ -131,6 +134,17 @@ function runCliAndCollectStdout(command: string, args: string[], options?: { cwd
   });
 }
 
+export const requiredCapabilities: AiCapability[] = ['json', 'vision'];
+
+export const RECEIPT_PROMPT = `You are a receipt parser. Read the attached receipt image and return ONLY a JSON object with this shape (use null for anything you cannot read):
+{
+  "store": { "name": string|null, "address": string|null, "phone": string|null },
+  "transaction": { "date": string|null, "time": string|null },
+  "items": [{ "description": string|null, "price_per_unit": number|null, "quantity": number|null, "total_price": number|null }],
+  "totals": { "subtotal": number|null, "taxes": number|null, "total": number|null, "change": number|null, "total_quantity": number|null },
+  "payment": { "type": string|null, "card_last_four": string|null, "amount": number|null, "currency": string|null }
+}`;
+
 // Determine script path relative to this file (assuming app/electron/scripts/extract_receipt.py)
 const __dirname = path.dirname(new URL(import.meta.url).pathname);
 const defaultPythonScriptPath = path.join(__dirname, '..', 'scripts', 'extract_receipt.py');
@@ -141,10 +155,10 @@ const defaultPythonScriptPath = path.join(__dirname, '..', 'scripts', 'extract_r
  * - output: parsed & validated ReceiptData
  *
  * Implementation notes:
- * - This uses an external CLI/Python script by default. You may change to call Ollama CLI (or other) instead.
+ * - This uses an external CLI/Python script by default; an AI provider id uses the selected AI provider's vision model instead.
  * - The external script must accept the image path as the first (and only) argument and print a single JSON object matching ReceiptDataSchema.
  */
-export async function extractReceiptData(input: ExtractReceiptDataInput): Promise<ReceiptData> {
+export async function extractReceiptData(input: ExtractReceiptDataInput, ctx: FlowContext = {}): Promise<ReceiptData> {
   // Validate input
   const parsedInput = ExtractReceiptDataInputSchema.parse(input);
   const { receiptDataUri, config } = parsedInput;
@@ -155,23 +169,16 @@ export async function extractReceiptData(input: ExtractReceiptDataInput): Promis
 
   try {
     // Choose execution path based on config.provider
-    const provider = (config && (config as FlowConfig).provider) || 'local';
-
-    if (provider === 'ollama') {
-      // Example: call Ollama CLI to run a model that performs OCR+extraction.
-      // This is a placeholder: replace model name and prompt handling as needed.
-      // Ollama CLI example (pseudo):
-      //   ollama run my-ocr-model --input-file /path/to/image --json
-      // For now, try to invoke `ollama` if present.
-      const ollamaCmd = 'ollama';
-      const modelName = 'gpt-ocr'; // change to actual model name you host locally
-      // Passing filepath as an argument; your model's wrapper should accept and read it.
-      const { stdout, stderr, code } = await runCliAndCollectStdout(ollamaCmd, ['run', modelName, tmpFilePath]);
-      if (code !== 0) {
-        throw new Error(`Ollama run failed: ${stderr || 'exit code ' + code}`);
-      }
-      const parsed = JSON.parse(stdout);
-      return ReceiptDataSchema.parse(parsed);
+    const provider = config?.provider || 'local';
+
+    if (!(SCRIPT_PROVIDERS as readonly string[]).includes(provider)) {
+      // The selected model must support images (e.g. llava for Ollama, gpt-4o-mini, Gemini).
+      return await generateStructured(RECEIPT_PROMPT, ReceiptDataSchema, {
+        needs: requiredCapabilities,
+        images: [buffer.toString('base64')],
+        signal: ctx.signal,
+        onToken: ctx.onToken,
+      });
     }
 
     // Default: use Python script
@@ -187,7 +194,7 @@ export async function extractReceiptData(input: ExtractReceiptDataInput): Promis
 
     // Run python3 <script> <tmpFilePath>
     const pythonCmd = 'python3'; // or 'python' depending on your environment
-    const { stdout, stderr, code } = await runCliAndCollectStdout(pythonCmd, [scriptPath, tmpFilePath]);
+    const { stdout, stderr, code } = await runCliAndCollectStdout(pythonCmd, [scriptPath, tmpFilePath], { signal: ctx.signal });
 
     if (code !== 0) {
       throw new Error(`Python script failed with exit code ${code}. stderr: ${stderr}`);
@@ -4,7 +4,7 @@
  * Replaces Next.js/genkit server flow with a main-process implementation that:
  *  - Accepts a data URI (image/pdf) as input
  *  - Attempts local OCR (tesseract / pdftotext) if available
- *  - Calls a local Ollama CLI model via child_process (configurable via OLLAMA_MODEL env var)
+ *  - Calls the AI provider selected in settings (main/providers.ts); images are attached when it supports vision
  *
  * Notes:
  *  - This file is intended to run in the Electron main process (Node environment).
@@ -12,9 +12,7 @@
  *
  * Requirements (recommended):
  *  - tesseract CLI (for image OCR) and/or pdftotext (poppler) for PDFs (optional)
- *  - ollama CLI available in PATH and a local model running (or accessible via ollama run)
- *
- * If you want a different AI backend, replace the call to runOllamaModel(...) with your implementation.
+ *  - A configured AI provider (Settings → AI)
  */
 
 import { z } from 'zod';
@@ -23,10 +21,16 @@ import os from 'os';
 import path from 'path';
 import { execFile } from 'child_process';
 import { promisify } from 'util';
+import { generateText, supportsCapability } from '../../../main/providers';
+import type { AiCapability } from '../../shared/types';
+import type { FlowContext } from '../define-flow';
 
 const execFileAsync = promisify(execFile);
 
-const GenerateHealthSummaryInputSchema = z.object({
+/** Vision is optional: without it the summary is built from the OCR text. */
+export const requiredCapabilities: AiCapability[] = [];
+
+export const GenerateHealthSummaryInputSchema = z.object({
   documentDataUri: z
     .string()
     .describe(
@@ -35,7 +39,7 @@ const GenerateHealthSummaryInputSchema = z.object({
 });
 export type GenerateHealthSummaryInput = z.infer<typeof GenerateHealthSummaryInputSchema>;
 
-const GenerateHealthSummaryOutputSchema = z.object({
+export const GenerateHealthSummaryOutputSchema = z.object({
   comprehensiveSummary: z.string().describe('A comprehensive, well-structured History and Physical summary.'),
 });
 export type GenerateHealthSummaryOutput = z.infer<typeof GenerateHealthSummaryOutputSchema>;
@@ -45,7 +49,8 @@ export type GenerateHealthSummaryOutput = z.infer<typeof GenerateHealthSummaryOu
  * Should be invoked from Electron main (and exposed to renderer via IPC).
  */
 export async function generateHealthSummary(
-  input: GenerateHealthSummaryInput
+  input: GenerateHealthSummaryInput,
+  ctx: FlowContext = {}
 ): Promise<GenerateHealthSummaryOutput> {
   // validate input
   GenerateHealthSummaryInputSchema.parse(input);
@@ -65,14 +70,21 @@ export async function generateHealthSummary(
 
     // Try OCR if appropriate
     let ocrText = '';
+    ctx.progress?.('Reading document', 0.1);
     try {
       if (mimeType.startsWith('image/')) {
         // Try tesseract: `tesseract inputPath stdout`
-        const { stdout } = await execFileAsync('tesseract', [filePath, 'stdout'], { maxBuffer: 10 * 1024 * 1024 });
+        const { stdout } = await execFileAsync('tesseract', [filePath, 'stdout'], {
+          maxBuffer: 10 * 1024 * 1024,
+          signal: ctx.signal,
+        });
         ocrText = stdout?.toString().trim() || '';
       } else if (mimeType === 'application/pdf') {
         // Try pdftotext: `pdftotext inputPath -`
-        const { stdout } = await execFileAsync('pdftotext', [filePath, '-'], { maxBuffer: 10 * 1024 * 1024 });
+        const { stdout } = await execFileAsync('pdftotext', [filePath, '-'], {
+          maxBuffer: 10 * 1024 * 1024,
+          signal: ctx.signal,
+        });
         ocrText = stdout?.toString().trim() || '';
       }
     } catch (ocrErr) {
@@ -89,9 +101,11 @@ export async function generateHealthSummary(
       dataUriSnippet: summarizeDataUri(input.documentDataUri),
     });
 
-    // Call local Ollama model via CLI (configurable model name)
-    const model = process.env.OLLAMA_MODEL || 'local-model';
-    const aiOutput = await runOllamaModel(model, promptText);
+    // Call the selected model; images go along when it can read them directly
+    const images =
+      mimeType.startsWith('image/') && supportsCapability('vision') ? [buffer.toString('base64')] : undefined;
+    ctx.progress?.('Writing summary', 0.4);
+    const aiOutput = await runModel(promptText, images, ctx);
 
     const comprehensiveSummary = aiOutput?.trim() || '';
 
@@ -143,7 +157,7 @@ function summarizeDataUri(dataUri: string): string {
   return `Document MIME type: ${mime}. Data size: ~${size} bytes.`;
 }
 
-function buildPrompt(opts: { ocrText: string; note: string; dataUriSnippet: string }): string {
+export function buildPrompt(opts: { ocrText: string; note: string; dataUriSnippet: string }): string {
   const header = `You are a highly skilled medical scribe and assistant. Your task is to analyze the provided medical document (or extracted text) and synthesize its information into a single, comprehensive, and well-structured History and Physical (H&P) report.
 
 Instructions:
@@ -166,28 +180,18 @@ Based on all the information in the document, generate a new, updated, and compr
 }
 
 /**
- * Runs a local Ollama model via the 'ollama' CLI and returns its textual output.
- * This implementation uses: `ollama run <model> --prompt "<prompt>"`
- *
- * Notes:
- *  - The exact CLI flags may vary by Ollama version. Adjust as needed for your environment.
- *  - If you use Ollama HTTP API instead, replace this implementation accordingly.
+ * Runs the prompt against the selected AI provider and returns its textual output.
  */
-async function runOllamaModel(model: string, promptText: string): Promise<string> {
-  // Protect against extremely large prompts in buffer limits
-  const maxBuffer = 16 * 1024 * 1024; // 16MB
-
+async function runModel(promptText: string, images: string[] | undefined, ctx: FlowContext): Promise<string> {
   try {
-    // Many versions of ollama support: ollama run <model> --prompt "<prompt>"
-    // If your version differs, update the CLI invocation here.
-    const args = ['run', model, '--prompt', promptText];
-
-    const { stdout } = await execFileAsync('ollama', args, { maxBuffer });
-    // ollama CLI may return additional metadata; assume stdout contains the generated text
-    return stdout.toString();
+    return await generateText(promptText, {
+      needs: requiredCapabilities,
+      images,
+      signal: ctx.signal,
+      onToken: ctx.onToken,
+    });
   } catch (err: any) {
-    // If ollama CLI fails, provide a helpful error message
-    const msg = typeof err === 'string' ? err : err?.message ?? 'Unknown error running ollama CLI';
-    throw new Error(`Failed to run local AI model (ollama). Ensure 'ollama' is installed and OLLAMA_MODEL is set. Error: ${msg}`);
+    const msg = typeof err === 'string' ? err : err?.message ?? 'Unknown error calling the AI provider';
+    throw new Error(`Failed to run AI model. Check the provider in Settings → AI. Error: ${msg}`);
   }
 }
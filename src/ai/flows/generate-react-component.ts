@@ -1,36 +1,37 @@
-import { spawn } from 'child_process';
-import { platform } from 'os';
-import path from 'path';
+import { generateText } from '../../../main/providers';
+import type { AiCapability } from '../../shared/types';
+import type { FlowContext } from '../define-flow';
+import {
+  GenerateReactComponentInputSchema,
+  GenerateReactComponentOutputSchema,
+  type GenerateReactComponentOutput,
+} from '../schemas/react-component-schemas';
+
+export { GenerateReactComponentInputSchema, GenerateReactComponentOutputSchema, type GenerateReactComponentOutput };
 
 /**
  * Electron main-side utility to generate a self-contained React component
- * using a locally-run Ollama model.
+ * using the AI provider selected in settings.
  *
- * This replaces the previous server-side "genkit" flow. The renderer should
- * call this via IPC (exposed in preload.ts) as e.g.:
- *   window.api.ai.generateReactComponent({ description })
+ * This replaces the previous server-side "genkit" flow. It is registered in
+ * ./manifest.ts; the renderer reaches it through the generic `ai:runFlow`
+ * channel (services/ai.ts -> generateReactComponent).
  *
  * Notes:
- * - Ollama CLI must be installed and reachable in the runtime PATH for the
- *   packaged app, or you must ship a bundled Ollama binary and point to it.
- * - This function spawns the ollama CLI and returns the raw text output. The
- *   output is assumed to be the complete JS script described by the prompt.
+ * - Goes through main/providers.ts; provider, keys and default model come
+ *   from the app settings.
+ * - Returns the raw generated text. The output is assumed to be the complete
+ *   JS script described by the prompt.
  */
 
-/* Types (kept minimal and local to avoid cross-deps) */
+/* The output shape is shared with the renderer (see ../schemas/react-component-schemas). */
 export type GenerateReactComponentInput = {
   description: string;
-  model?: string; // Ollama model name, optional
+  model?: string; // model name for the selected provider, optional
   temperature?: number; // optional
   maxTokens?: number; // optional
 };
 
-export type GenerateReactComponentOutput = {
-  code: string;
-};
-
-const DEFAULT_MODEL = 'llama2' as const;
-
 /* Prompt based on the original flow. Kept as a single string and we'll inject the description. */
 const BASE_PROMPT = `
 You are an expert React developer. Your task is to write ONLY runnable JavaScript code (no markdown fences, no prose, and NO JSX).
@@ -49,77 +50,56 @@ You are an expert React developer. Your task is to write ONLY runnable JavaScrip
 8.  **Fit to container:** The root element of your main component should have a style of \`{ width: '100%', height: '100%', boxSizing: 'border-box', display: 'flex', alignItems: 'center', justifyContent: 'center' }\` to ensure it fills its container.
 `;
 
-/**
- * Spawn the Ollama CLI to generate text for the given prompt.
- * Returns stdout as a string.
- */
-async function runOllamaGenerate(prompt: string, model = DEFAULT_MODEL, temperature?: number, maxTokens?: number): Promise<string> {
-  return await new Promise<string>((resolve, reject) => {
-    const args: string[] = ['generate', model, '--prompt', prompt];
-
-    // Add optional flags (note: actual Ollama CLI flag names may vary by version)
-    if (typeof temperature === 'number') {
-      args.push('--temperature', String(temperature));
-    }
-    if (typeof maxTokens === 'number') {
-      args.push('--max-tokens', String(maxTokens));
-    }
+export const requiredCapabilities: AiCapability[] = [];
 
-    // On some platforms packaged apps may require explicit path to binary.
-    // Here we assume 'ollama' is on PATH. If you bundle it, adjust accordingly.
-    const cmd = 'ollama';
-
-    const proc = spawn(cmd, args, {
-      stdio: ['ignore', 'pipe', 'pipe'],
-      env: process.env,
-    });
-
-    let out = '';
-    let err = '';
-
-    proc.stdout.on('data', (chunk) => {
-      out += chunk.toString();
-    });
-    proc.stderr.on('data', (chunk) => {
-      err += chunk.toString();
-    });
-
-    proc.on('error', (e) => {
-      reject(new Error(`Failed to start ollama CLI: ${e.message}`));
-    });
+export function buildPrompt(description: string): string {
+  return BASE_PROMPT.replace('{{{description}}}', description.trim());
+}
 
-    proc.on('close', (code) => {
-      if (code === 0) {
-        // Trim leading/trailing whitespace
-        resolve(out.trim());
-      } else {
-        const message = err.trim() || `ollama exited with code ${code}`;
-        reject(new Error(message));
-      }
-    });
+/**
+ * Generate text for the given prompt with the selected provider.
+ */
+async function runModelGenerate(
+  prompt: string,
+  ctx: FlowContext,
+  model?: string,
+  temperature?: number,
+  maxTokens?: number
+): Promise<string> {
+  const text = await generateText(prompt, {
+    needs: requiredCapabilities,
+    model,
+    temperature,
+    maxTokens,
+    signal: ctx.signal,
+    onToken: ctx.onToken,
   });
+  return text.trim();
 }
 
 /**
  * Public entry: generate a React component script for the provided description.
  * This is intended to be called from Electron main handlers or exported to preload for IPC.
  */
-export async function generateReactComponent(input: GenerateReactComponentInput): Promise<GenerateReactComponentOutput> {
+export async function generateReactComponent(
+  input: GenerateReactComponentInput,
+  ctx: FlowContext = {}
+): Promise<GenerateReactComponentOutput> {
   if (!input || typeof input.description !== 'string' || input.description.trim() === '') {
     throw new Error('generateReactComponent: description is required');
   }
 
-  const model = input.model ?? DEFAULT_MODEL;
+  const model = input.model;
   const temperature = input.temperature;
   const maxTokens = input.maxTokens;
 
   // Build prompt by injecting the user description. We keep triple braces pattern from original.
-  const prompt = BASE_PROMPT.replace('{{{description}}}', input.description.trim());
+  const prompt = buildPrompt(input.description);
 
   try {
-    const result = await runOllamaGenerate(prompt, model, temperature, maxTokens);
-    // The model is expected to output the complete JS script. We return it as `code`.
-    return { code: result };
+    const result = await runModelGenerate(prompt, ctx, model, temperature, maxTokens);
+    // The model is expected to output the complete JS script. We return it as `componentCode`.
+    return { componentCode: result };
   } catch (err: any) {
     // Bubble up a readable error for the caller / IPC layer
     throw new Error(`AI generation failed: ${err?.message ?? String(err)}`);
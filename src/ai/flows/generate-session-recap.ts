@@ -1,23 +1,23 @@
 /**
- * Electron main: AI helper to generate a session recap using a local Ollama model.
+ * Electron main: AI helper to generate a session recap using the selected AI provider.
  *
  * Notes:
  * - This file is intended to run in the Electron main process.
- * - It calls the Ollama CLI (must be installed & available in PATH) via child_process.
+ * - It calls the provider chosen in settings through main/providers.ts.
  * - The function returns a simple object { recap: string } which can be sent to the renderer via IPC.
- *
- * Usage (example wiring in main.ts):
- *   import { generateSessionRecap } from './ai/generate-session-recap';
- *   ipcMain.handle('ai:generate-session-recap', async (_event, input) => generateSessionRecap(input));
- *
- * Environment:
- * - OLLAMA_MODEL (optional) - model name to pass to `ollama run`. Defaults to 'llama2' (override to your local model).
+ * - Registered in ./manifest.ts; the renderer calls it through `ai:runFlow`.
  */
 
-import { execFile } from 'child_process';
-import { promisify } from 'util';
+import { generateText } from '../../../main/providers';
+import type { AiCapability } from '../../shared/types';
+import type { FlowContext } from '../define-flow';
+
+export {
+  GenerateSessionRecapInputSchema,
+  GenerateSessionRecapOutputSchema,
+} from '../schemas/session-recap-schemas';
 
-const execFileAsync = promisify(execFile);
+export const requiredCapabilities: AiCapability[] = [];
 
 export type GenerateSessionRecapInput = {
   // recentTasks may be a single string or an array of strings describing recent tasks
@@ -29,10 +29,9 @@ export type GenerateSessionRecapOutput = {
   recap: string;
 };
 
-const DEFAULT_MODEL = process.env.OLLAMA_MODEL ?? 'llama2';
 const DEFAULT_TIMEOUT_MS = 60_000; // 60s, adjust as needed
 
-function buildPrompt(recentTasks: string): string {
+export function buildPrompt(recentTasks: string): string {
   return `You are a "RAM Loader" for a user with ADHD. Your job is to help the user quickly load the context of their last session back into their working memory by providing a detailed, specific summary of their recent activities.
 
 Analyze the following list of recent tasks. Your response should be a detailed list, using clear headings or bullet points for maximum scannability. The total word count should be between 150 and 300 words.
@@ -46,46 +45,34 @@ Generate the detailed recap now.`;
 }
 
 /**
- * Generate a session recap by invoking a local Ollama model via the ollama CLI.
+ * Generate a session recap by invoking the selected model.
  *
  * @param input - { recentTasks: string | string[] }
  * @returns Promise<{ recap: string }>
  *
- * Throws on CLI error or timeout.
+ * Throws on provider error or timeout.
  */
 export async function generateSessionRecap(
-  input: GenerateSessionRecapInput
+  input: GenerateSessionRecapInput,
+  ctx: FlowContext = {}
 ): Promise<GenerateSessionRecapOutput> {
   const { recentTasks } = input;
   const recentTasksStr = Array.isArray(recentTasks) ? recentTasks.join('\n') : String(recentTasks ?? '');
 
   const prompt = buildPrompt(recentTasksStr);
 
-  // Ollama CLI invocation:
-  // - `ollama run <model> --prompt "<prompt>"`
-  // Some Ollama installs accept --json or streaming; adjust per your local version.
-  const model = DEFAULT_MODEL;
-
   try {
-    const { stdout, stderr } = await execFileAsync(
-      'ollama',
-      ['run', model, '--prompt', prompt],
-      {
-        timeout: DEFAULT_TIMEOUT_MS,
-        maxBuffer: 10 * 1024 * 1024, // 10MB
-      }
-    );
-
-    if (stderr && stderr.trim().length > 0) {
-      // ollama sometimes writes warnings to stderr; do not fail on non-empty stderr,
-      // but surface if there's no stdout result.
-      console.warn('ollama stderr:', stderr);
-    }
-
-    const recapText = stdout?.toString().trim() ?? '';
+    const recapText = (
+      await generateText(prompt, {
+        needs: requiredCapabilities,
+        timeoutMs: DEFAULT_TIMEOUT_MS,
+        signal: ctx.signal,
+        onToken: ctx.onToken,
+      })
+    ).trim();
 
     if (!recapText) {
-      throw new Error('Empty response from Ollama CLI');
+      throw new Error('Empty response from the AI provider');
     }
 
     return { recap: recapText };
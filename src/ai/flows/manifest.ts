@@ -0,0 +1,131 @@
+/**
+ * Flow manifest: every AI flow the app exposes, keyed by the name the renderer uses
+ * with `ai:runFlow`.
+ *
+ * Adding a flow:
+ * - put its schemas, prompt builder and `requiredCapabilities` in a module next to this one
+ * - add an entry below with a `prompt`, or with a `run` instead when a single prompt is not
+ *   enough; a `run` passes its FlowContext on to every provider call
+ *
+ * src/ai/dev.ts registers this manifest at start-up; the renderer imports it as a
+ * type only (FlowName / FlowInput / FlowOutput) through src/services/ai.ts.
+ */
+
+import { z } from 'zod';
+import { defineFlow } from '../define-flow';
+import * as analyzeImage from './analyze-image-for-gallery';
+import * as documentDetails from './extractDocumentDetails';
+import * as receipt from './extractReceiptData';
+import * as microTasks from './extract-micro-tasks';
+import * as flashcards from './generate-flashcards';
+import * as forgetting from './generate-forgetting-suggestions';
+import * as healthSummary from './generate-health-summary';
+import * as reactComponent from './generate-react-component';
+import * as sessionRecap from './generate-session-recap';
+import * as organize from './organize-notes';
+import * as sbar from './sbar-synthesizer';
+import * as triage from './triageBrainDump';
+
+export const flowManifest = {
+  extractMicroTasks: defineFlow({
+    description: 'Break a task into small, ordered micro-tasks.',
+    input: microTasks.ExtractMicroTasksInputSchema,
+    output: microTasks.ExtractMicroTasksOutputSchema,
+    capabilities: microTasks.requiredCapabilities,
+    prompt: microTasks.buildPrompt,
+  }),
+
+  triageBrainDump: defineFlow({
+    description: 'Sort a brain dump into tasks, notes, calendar events and finance items.',
+    input: triage.TriageBrainDumpInputSchema,
+    output: triage.TriageBrainDumpOutputSchema,
+    capabilities: triage.requiredCapabilities,
+    run: (input, ctx) => triage.triageBrainDump(input, ctx),
+  }),
+
+  organizeNotes: defineFlow({
+    description: 'Turn raw notes into an organized brief.',
+    input: organize.OrganizeNotesInputSchema,
+    output: organize.OrganizeNotesOutputSchema,
+    capabilities: organize.requiredCapabilities,
+    run: (input, ctx) => organize.organizeNotes(input, ctx),
+  }),
+
+  generateFlashcards: defineFlow({
+    description: 'Generate study flashcards for a topic.',
+    input: flashcards.GenerateFlashcardsInputSchema,
+    output: flashcards.GenerateFlashcardsOutputSchema,
+    capabilities: flashcards.requiredCapabilities,
+    run: (input, ctx) => flashcards.generateFlashcards(input, ctx),
+  }),
+
+  generateForgettingSuggestions: defineFlow({
+    description: 'Suggest commonly forgotten items as a categorized checklist.',
+    input: z.object({}).optional(),
+    output: forgetting.GenerateForgettingSuggestionsOutputSchema,
+    capabilities: forgetting.requiredCapabilities,
+    run: (_input, ctx) => forgetting.generateForgettingSuggestions(ctx),
+  }),
+
+  generateSessionRecap: defineFlow({
+    description: 'Recap recent tasks to reload context after a break.',
+    input: sessionRecap.GenerateSessionRecapInputSchema,
+    output: sessionRecap.GenerateSessionRecapOutputSchema,
+    capabilities: sessionRecap.requiredCapabilities,
+    run: (input, ctx) => sessionRecap.generateSessionRecap(input, ctx),
+  }),
+
+  generateReactComponent: defineFlow({
+    description: 'Write a self-contained React component script from a description.',
+    input: reactComponent.GenerateReactComponentInputSchema,
+    output: reactComponent.GenerateReactComponentOutputSchema,
+    capabilities: reactComponent.requiredCapabilities,
+    run: (input, ctx) => reactComponent.generateReactComponent(input, ctx),
+  }),
+
+  synthesizeSbarReport: defineFlow({
+    description: 'Synthesize an SBAR report, slides and literature from notes and documents.',
+    input: sbar.SbarSynthesizerInputSchema,
+    output: sbar.SbarSynthesizerOutputSchema,
+    capabilities: sbar.requiredCapabilities,
+    run: (input, ctx) => sbar.synthesizeSbarReportMain(input, ctx),
+  }),
+
+  analyzeImageForGallery: defineFlow({
+    description: 'Title, describe and categorize an image, including any text in it.',
+    input: analyzeImage.AnalyzeImageForGalleryInputSchema,
+    output: analyzeImage.ImageAnalysisSchema,
+    capabilities: analyzeImage.requiredCapabilities,
+    run: (input, ctx) => analyzeImage.analyzeImageForGallery(input, ctx),
+  }),
+
+  extractReceiptData: defineFlow({
+    description: 'Read store, items, totals and payment from a receipt photo.',
+    input: receipt.ExtractReceiptDataInputSchema,
+    output: receipt.ReceiptDataSchema,
+    capabilities: receipt.requiredCapabilities,
+    run: (input, ctx) => receipt.extractReceiptData(input, ctx),
+  }),
+
+  extractDocumentDetails: defineFlow({
+    description: 'Identify a scanned document and extract its key fields.',
+    input: documentDetails.ExtractDocumentDetailsInputSchema,
+    output: documentDetails.DocumentDetailsSchema,
+    capabilities: documentDetails.requiredCapabilities,
+    run: (input, ctx) => documentDetails.extractDocumentDetails(input, ctx),
+  }),
+
+  generateHealthSummary: defineFlow({
+    description: 'Summarize a medical document as a History and Physical.',
+    input: healthSummary.GenerateHealthSummaryInputSchema,
+    output: healthSummary.GenerateHealthSummaryOutputSchema,
+    capabilities: healthSummary.requiredCapabilities,
+    run: (input, ctx) => healthSummary.generateHealthSummary(input, ctx),
+  }),
+};
+
+export type FlowManifest = typeof flowManifest;
+export type FlowName = keyof FlowManifest;
+/** Input as written by the caller (before schema defaults are applied). */
+export type FlowInput<N extends FlowName> = z.input<FlowManifest[N]['input']>;
+export type FlowOutput<N extends FlowName> = z.output<FlowManifest[N]['output']>;
@@ -1,18 +1,18 @@
-import { execFile } from 'child_process';
-import { promisify } from 'util';
 import { z } from 'zod';
-import type { IpcMain } from 'electron';
+import { generateText } from '../../../main/providers';
+import type { AiCapability } from '../../shared/types';
+import type { FlowContext } from '../define-flow';
 
-const execFileAsync = promisify(execFile);
+export const requiredCapabilities: AiCapability[] = [];
 
-const OrganizeNotesInputSchema = z.object({
+export const OrganizeNotesInputSchema = z.object({
   notes: z.string().describe('A raw text dump of notes, ideas, and observations.'),
   goal: z.string().describe('The goal or purpose of the notes.'),
   maxMinutes: z.number().describe('The target reading time for the output brief.'),
 });
 export type OrganizeNotesInput = z.infer<typeof OrganizeNotesInputSchema>;
 
-const OrganizeNotesOutputSchema = z.object({
+export const OrganizeNotesOutputSchema = z.object({
   organizedNotes: z.string().describe('The structured, high-fidelity brief generated from the notes.'),
 });
 export type OrganizeNotesOutput = z.infer<typeof OrganizeNotesOutputSchema>;
@@ -20,9 +20,9 @@ export type OrganizeNotesOutput = z.infer<typeof OrganizeNotesOutputSchema>;
 /**
  * Build the prompt used to drive the local model.
  * This mostly preserves the original prompt from the Next.js code,
- * adapted for a single string that will be sent to Ollama or similar local model.
+ * adapted for a single string that will be sent to the selected AI provider.
  */
-function buildPrompt(input: OrganizeNotesInput): string {
+export function buildPrompt(input: OrganizeNotesInput): string {
   const { notes, goal, maxMinutes } = input;
   return `Role: You are an expert note-editor and analyst. Your job is to preserve meaning and specifics while making the notes instantly scannable. Do not add outside facts or opinions.
 Inputs
@@ -101,31 +101,13 @@ Return ONLY the markdown-formatted brief as a single string.`;
 }
 
 /**
- * Run the local model via Ollama CLI (or a compatible CLI exposed in PATH).
- *
- * Environment:
- *  - set process.env.OLLAMA_MODEL to override the model name (default: "ollama")
- *  - set process.env.LOCAL_AI_CMD to override the CLI binary (default: "ollama")
- *
- * The exact CLI flags for Ollama may vary; this implementation attempts to call:
- *   <LOCAL_AI_CMD> run <MODEL> --prompt "<PROMPT>"
- *
- * If your local model CLI differs, adjust this helper accordingly.
+ * Run the model on the provider selected in settings.
  */
-async function runLocalModel(prompt: string): Promise<string> {
-  const cli = process.env.LOCAL_AI_CMD || 'ollama';
-  const model = process.env.OLLAMA_MODEL || 'llama2'; // default model placeholder
-
-  // Attempt to call CLI with prompt as an argument. Increase buffer for large prompts.
+async function runLocalModel(prompt: string, ctx: FlowContext): Promise<string> {
   try {
-    const { stdout } = await execFileAsync(cli, ['run', model, '--prompt', prompt], {
-      maxBuffer: 10 * 1024 * 1024,
-    } as any);
-    return stdout.toString();
+    return await generateText(prompt, { needs: requiredCapabilities, signal: ctx.signal, onToken: ctx.onToken });
   } catch (err: any) {
-    // Provide a helpful error with the underlying CLI stderr if available.
-    const stderr = err?.stderr ? String(err.stderr) : err?.message ?? String(err);
-    throw new Error(`Failed to run local model CLI "${cli}": ${stderr}`);
+    throw new Error(`Failed to run local model: ${err?.message ?? String(err)}`);
   }
 }
 
@@ -133,17 +115,17 @@ async function runLocalModel(prompt: string): Promise<string> {
  * Main exported function to organize notes.
  * This runs in Electron main process and returns { organizedNotes }.
  */
-export async function organizeNotes(input: OrganizeNotesInput): Promise<OrganizeNotesOutput> {
+export async function organizeNotes(input: OrganizeNotesInput, ctx: FlowContext = {}): Promise<OrganizeNotesOutput> {
   // Validate input
   const parsed = OrganizeNotesInputSchema.parse(input);
 
   // Build prompt and call local model
   const prompt = buildPrompt(parsed);
 
-  const raw = await runLocalModel(prompt);
+  const raw = await runLocalModel(prompt, ctx);
 
-  // Attempt to parse JSON output if the model/CLI returned structured output.
-  // Some model pipelines/CLIs may return straight text; in that case use the text as the organized brief.
+  // Attempt to parse JSON output if the model returned structured output.
+  // Most models return straight text; in that case use the text as the organized brief.
   let organizedNotes = raw.trim();
 
   try {
@@ -168,20 +150,3 @@ export async function organizeNotes(input: OrganizeNotesInput): Promise<Organize
   const output = OrganizeNotesOutputSchema.parse({ organizedNotes });
   return output;
 }
-
-/**
- * Helper to register an IPC handler on the main process.
- * Renderer can call via: ipcRenderer.invoke('ai:organize-notes', input)
- */
-export function registerOrganizeNotesIpc(ipcMain: IpcMain) {
-  ipcMain.handle('ai:organize-notes', async (_event, input: unknown) => {
-    try {
-      // Validate/parse the incoming input
-      const parsed = OrganizeNotesInputSchema.parse(input);
-      const res = await organizeNotes(parsed);
-      return { ok: true, data: res };
-    } catch (err: any) {
-      return { ok: false, error: String(err?.message ?? err) };
-    }
-  });
-}
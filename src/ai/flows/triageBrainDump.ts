@@ -2,28 +2,25 @@
  * Electron main-side AI helper: triage a brain dump into tasks/notes/calendarEvents/finance.
  *
  * This module is intended to run in the Electron main process (or a helper service module).
- * It uses the Ollama CLI (preferred) to run a local model, and falls back to a local Python
- * script if Ollama is not available. The function returns a typed object validated with zod.
+ * It calls the AI provider selected in settings (main/providers.ts) through generateStructured (main/structured-output.ts), and falls back to a
+ * keyword triage in the Python worker (analyze.triage_brain_dump) if the model is not available. The function returns a typed object validated with zod.
  *
- * NOTE: The actual model name used by Ollama can be configured with the OLLAMA_MODEL env var.
- * You should wire this function up to an IPC handler (e.g. in main.ts) so the renderer can call it.
+ * Registered in ./manifest.ts; the renderer calls it through `ai:runFlow`.
  */
 
-import { execFile } from 'child_process';
-import { promisify } from 'util';
-import path from 'path';
-import fs from 'fs';
 import { z } from 'zod';
-
-const execFileAsync = promisify(execFile);
+import { generateStructured, StructuredOutputError } from '../../../main/structured-output';
+import type { AiCapability } from '../../shared/types';
+import type { FlowContext } from '../define-flow';
+import { getPythonBridge } from '../../../main/python-bridge';
 
 // Schemas and Types
-const TriageBrainDumpInputSchema = z.object({
+export const TriageBrainDumpInputSchema = z.object({
   brainDump: z.string().describe('A brain dump containing a list of thoughts and ideas.'),
 });
 export type TriageBrainDumpInput = z.infer<typeof TriageBrainDumpInputSchema>;
 
-const TriageBrainDumpOutputSchema = z.object({
+export const TriageBrainDumpOutputSchema = z.object({
   tasks: z.array(z.string()).describe('A list of tasks extracted from the brain dump.'),
   notes: z.array(z.string()).describe('A list of notes extracted from the brain dump.'),
   calendarEvents: z.array(z.string()).describe('A list of calendar events extracted from the brain dump.'),
@@ -31,12 +28,7 @@ const TriageBrainDumpOutputSchema = z.object({
 });
 export type TriageBrainDumpOutput = z.infer<typeof TriageBrainDumpOutputSchema>;
 
-// Config: model to use with Ollama (can be overridden by env)
-const OLLAMA_MODEL = process.env.OLLAMA_MODEL || 'ggml-mpt' /* default placeholder */;
-// Increase buffer in case model outputs large JSON
-const EXEC_OPTS = { maxBuffer: 10 * 1024 * 1024 }; // 10 MB
-
-function buildPrompt(brainDump: string) {
+export function buildPrompt(brainDump: string) {
   return `You are a personal assistant that helps users organize their thoughts. The user will provide a brain dump, and you will triage the items into the following categories:
 
 - Tasks: Action items that need to be done.
@@ -51,46 +43,15 @@ Format the output as a JSON object with the keys "tasks", "notes", "calendarEven
 `;
 }
 
-/**
- * Try to extract JSON object substring from arbitrary text output.
- */
-function extractJson(text: string): string | null {
-  const first = text.indexOf('{');
-  const last = text.lastIndexOf('}');
-  if (first === -1 || last === -1 || last <= first) return null;
-  return text.slice(first, last + 1);
-}
+export const requiredCapabilities: AiCapability[] = ['json'];
 
 /**
- * Attempts to run Ollama CLI with the configured model. Returns stdout as string.
- * Throws if Ollama is not available or command fails.
+ * Fallback: keyword-based triage in the long-lived Python worker (python/analyze.py).
  */
-async function runOllama(prompt: string): Promise<string> {
-  // Typical ollama usage: `ollama run <model> --prompt "<prompt>"` (CLI may vary by version).
-  // We attempt to pass the prompt via the `--prompt` flag to avoid shell quoting issues.
-  const args = ['run', OLLAMA_MODEL, '--prompt', prompt];
+async function runPythonFallback(brainDump: string): Promise<TriageBrainDumpOutput> {
   try {
-    const { stdout } = await execFileAsync('ollama', args, EXEC_OPTS as any);
-    return stdout;
-  } catch (err: any) {
-    // Re-throw with some context
-    throw new Error(`Ollama CLI failed or is not available: ${err?.message || String(err)}`);
-  }
-}
-
-/**
- * Fallback: run a Python script (if present) to generate the triage JSON.
- * Expected script path: same directory as this file named 'triage_brain_dump.py'.
- * The script should read the prompt from stdin and print JSON to stdout.
- */
-async function runPythonFallback(prompt: string): Promise<string> {
-  const scriptPath = path.resolve(__dirname, 'triage_brain_dump.py');
-  if (!fs.existsSync(scriptPath)) {
-    throw new Error(`Python fallback script not found at ${scriptPath}`);
-  }
-  try {
-    const { stdout } = await execFileAsync('python3', [scriptPath], { input: prompt, ...EXEC_OPTS } as any);
-    return stdout;
+    const result = await getPythonBridge().call('analyze.triage_brain_dump', { brainDump });
+    return TriageBrainDumpOutputSchema.parse(result);
   } catch (err: any) {
     throw new Error(`Python fallback failed: ${err?.message || String(err)}`);
   }
@@ -100,31 +61,23 @@ async function runPythonFallback(prompt: string): Promise<string> {
  * Main exported function to triage the brain dump.
  * Validates inputs and outputs with zod.
  */
-export async function triageBrainDump(input: TriageBrainDumpInput): Promise<TriageBrainDumpOutput> {
+export async function triageBrainDump(input: TriageBrainDumpInput, ctx: FlowContext = {}): Promise<TriageBrainDumpOutput> {
   // Validate input
   const parsedInput = TriageBrainDumpInputSchema.parse(input);
   const prompt = buildPrompt(parsedInput.brainDump);
 
-  let rawOutput = '';
-  // Try Ollama first, then Python fallback
+  // Try the model first (validated and repaired by generateStructured), then Python fallback
   try {
-    rawOutput = await runOllama(prompt);
-  } catch (ollamaErr) {
+    return await generateStructured(prompt, TriageBrainDumpOutputSchema, {
+      needs: requiredCapabilities,
+      signal: ctx.signal,
+      onToken: ctx.onToken,
+    });
+  } catch (modelErr) {
+    // A reachable model that keeps answering in the wrong shape is reported, not masked.
+    if (modelErr instanceof StructuredOutputError) throw modelErr;
     // eslint-disable-next-line no-console
-    console.warn('runOllama failed, attempting Python fallback:', (ollamaErr as Error).message);
-    rawOutput = await runPythonFallback(prompt);
-  }
-
-  // Attempt to extract JSON portion from raw output
-  const jsonText = extractJson(rawOutput) ?? rawOutput.trim();
-
-  // Parse JSON and validate shape
-  try {
-    const parsed = JSON.parse(jsonText);
-    const validated = TriageBrainDumpOutputSchema.parse(parsed);
-    return validated;
-  } catch (err) {
-    // Helpful error with some debugging info
-    throw new Error(`Failed to parse/validate triage output. Raw output: ${rawOutput}\nError: ${(err as Error).message}`);
+    console.warn('Model triage failed, attempting Python fallback:', (modelErr as Error).message);
+    return runPythonFallback(parsedInput.brainDump);
   }
 }
@@ -0,0 +1,111 @@
+/**
+ * Tool manifest: every app action Giddy can propose, keyed by the name the model calls.
+ *
+ * Adding a tool:
+ * - add an entry below (see src/ai/define-tool.ts)
+ * - register an executor for it in the widget that owns the data, with
+ *   `useToolExecutor(name, fn)` from src/hooks/use-tool-executor.ts
+ *
+ * main/chat.ts offers these to the model (natively or by prompt) and validates the calls;
+ * src/services/tools.ts runs them in the renderer once the user confirms.
+ */
+
+import { z } from 'zod';
+import { defineTool } from '../define-tool';
+
+const TaskPriority = z.enum(['low', 'medium', 'high']);
+
+const TaskRef = z
+  .string()
+  .trim()
+  .min(1)
+  .describe('The id of the task, or its current text (matched case-insensitively).');
+
+export const toolManifest = {
+  createTask: defineTool({
+    description: "Add a task to the user's to-do list.",
+    kind: 'action',
+    handledBy: 'To-Do List',
+    parameters: z.object({
+      label: z.string().trim().min(1).describe('What needs doing, as a short imperative.'),
+      priority: TaskPriority.default('medium'),
+      tags: z.array(z.string()).default([]).describe('Optional tags such as "Work" or "Home".'),
+    }),
+    summarize: ({ label, priority }) => `Add task "${label}" (${priority} priority)`,
+  }),
+
+  updateTask: defineTool({
+    description: 'Rename a task or change its priority.',
+    kind: 'action',
+    handledBy: 'To-Do List',
+    parameters: z.object({
+      task: TaskRef,
+      label: z.string().trim().min(1).optional().describe('New text for the task.'),
+      priority: TaskPriority.optional(),
+    }),
+    summarize: ({ task, label, priority }) =>
+      [`Update task "${task}"`, label && `rename to "${label}"`, priority && `set ${priority} priority`]
+        .filter(Boolean)
+        .join(', '),
+  }),
+
+  completeTask: defineTool({
+    description: 'Mark a task as done.',
+    kind: 'action',
+    handledBy: 'To-Do List',
+    parameters: z.object({ task: TaskRef }),
+    summarize: ({ task }) => `Mark "${task}" as done`,
+  }),
+
+  addReminder: defineTool({
+    description: 'Schedule a reminder in Timers & Reminders.',
+    kind: 'action',
+    handledBy: 'Timers & Reminders',
+    parameters: z.object({
+      name: z.string().trim().min(1).describe('What to remind the user about.'),
+      dueDateTime: z
+        .string()
+        .refine((value) => !Number.isNaN(Date.parse(value)), 'must be an ISO 8601 date-time')
+        .describe('When the reminder is due, as an ISO 8601 date-time in the user\'s local time.'),
+      repeat: z.enum(['none', 'daily', 'weekly']).default('none'),
+    }),
+    summarize: ({ name, dueDateTime, repeat }) =>
+      `Remind me to "${name}" at ${new Date(dueDateTime).toLocaleString()}${repeat === 'none' ? '' : `, ${repeat}`}`,
+  }),
+
+  searchNotes: defineTool({
+    description: "Search the user's saved notes and sticky notes. Returns matching notes.",
+    kind: 'query',
+    handledBy: 'Note Display or Sticky Note Board',
+    parameters: z.object({ query: z.string().trim().min(1).describe('Words to look for.') }),
+    summarize: ({ query }) => `Search your notes for "${query}"`,
+  }),
+
+  searchDocuments: defineTool({
+    description: "Search the user's scanned documents and their extracted details. Returns matching documents.",
+    kind: 'query',
+    handledBy: 'Document Records',
+    parameters: z.object({ query: z.string().trim().min(1).describe('Words to look for.') }),
+    summarize: ({ query }) => `Search your documents for "${query}"`,
+  }),
+
+  addWidget: defineTool({
+    description:
+      'Add a widget to the builder page the user is looking at. Widget ids are PascalCase, e.g. ToDoList, ' +
+      'TimersAndReminders, NoteDisplay, StickyNoteBoard, DocumentRecords, CalendarCard, FocusMode, MoodTracker.',
+    kind: 'action',
+    handledBy: 'the page builder',
+    parameters: z.object({
+      widgetId: z.string().trim().min(1).describe('Widget id, e.g. "TimersAndReminders".'),
+      name: z.string().trim().min(1).optional().describe('Optional title for the widget.'),
+    }),
+    summarize: ({ widgetId, name }) => `Add the ${name ? `"${name}" (${widgetId})` : widgetId} widget to this page`,
+  }),
+};
+
+export type ToolManifest = typeof toolManifest;
+export type ToolName = keyof ToolManifest;
+/** Arguments after schema defaults are applied, as executors receive them. */
+export type ToolArgs<N extends ToolName> = z.output<ToolManifest[N]['parameters']>;
+
+export const isToolName = (name: string): name is ToolName => Object.prototype.hasOwnProperty.call(toolManifest, name);
@@ -1,7 +1,9 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Builder } from "@/components/builder/builder";
 import { AuthForm } from "@/components/auth/auth-form";
 import { GiditLogo } from "@/components/icons/gidit-logo";
+import { LockScreen } from "@/components/layout/lock-screen";
+import { RecoveryCodesDialog } from "@/components/layout/recovery-codes";
 import { authService } from "@/services/auth";
 
 /**
@@ -16,7 +18,15 @@ export type LocalUser = {
 
 export default function Home() {
   const [user, setUser] = useState<LocalUser | null>(null);
+  // Signed in, but the encrypted data needs the password again (session restored after a restart)
+  const [locked, setLocked] = useState(false);
+  // The lock screen is up (idle or locked on request); the workspace stays mounted behind it
+  const [screenLocked, setScreenLocked] = useState(false);
+  const [pinUnlock, setPinUnlock] = useState(false);
+  // A new account's recovery codes, shown once over the workspace
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
   const [loading, setLoading] = useState(true);
+  const workspaceRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     let mounted = true;
@@ -24,9 +34,12 @@ export default function Home() {
     // Get current session once on mount
     authService
       .getSession()
-      .then((u) => {
+      .then((session) => {
         if (!mounted) return;
-        setUser(u);
+        setUser(session.user ?? null);
+        setLocked(!!session.locked);
+        setScreenLocked(!!session.screenLocked);
+        setPinUnlock(!!session.pinUnlock);
         setLoading(false);
       })
       .catch((err) => {
@@ -36,18 +49,32 @@ export default function Home() {
         setLoading(false);
       });
 
-    // Subscribe to auth changes emitted from the main process (via preload/IPC)
+    // Subscribe to auth changes emitted from the main process (via preload/IPC):
+    // sign-in, sign-out and session expiry
     const unsubscribe = authService.subscribe((u: LocalUser | null) => {
       if (!mounted) return;
       setUser(u);
+      setLocked(false);
+      setScreenLocked(false);
+    });
+    const unsubscribeLock = authService.onScreenLock((isLocked, canUsePin) => {
+      if (!mounted) return;
+      setScreenLocked(isLocked);
+      setPinUnlock(canUsePin);
     });
 
     return () => {
       mounted = false;
       if (typeof unsubscribe === "function") unsubscribe();
+      unsubscribeLock();
     };
   }, []);
 
+  // Nothing behind the lock screen can be focused, clicked or read by assistive tech
+  useEffect(() => {
+    workspaceRef.current?.toggleAttribute("inert", screenLocked);
+  }, [screenLocked, user, locked]);
+
   if (loading) {
     return (
       <div className="flex flex-col items-center justify-center min-h-screen bg-secondary/30">
@@ -57,8 +84,26 @@ export default function Home() {
   }
 
   if (!user) {
-    return <AuthForm />;
+    return <AuthForm onRegistered={setRecoveryCodes} />;
   }
 
-  return <Builder />;
+  if (locked) {
+    return <AuthForm lockedUsername={user.username} />;
+  }
+
+  // Keyed by profile so nothing of the previous profile survives a switch. The wrapper stays
+  // the same while locked so the workspace keeps its state underneath.
+  return (
+    <>
+      <div
+        ref={workspaceRef}
+        aria-hidden={screenLocked || undefined}
+        className={screenLocked ? "blur-xl pointer-events-none select-none" : undefined}
+      >
+        <Builder key={user.id} />
+      </div>
+      {screenLocked && <LockScreen pinUnlock={pinUnlock} />}
+      <RecoveryCodesDialog codes={screenLocked ? null : recoveryCodes} onClose={() => setRecoveryCodes(null)} />
+    </>
+  );
 }
@@ -1,7 +1,12 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { subscribe } from '../services/auth';
+import { hasBridge, invoke } from '../services/ipc';
+import { API_KEY_PROVIDERS, clearApiKey, getApiKeyStatus, setApiKey } from '../services/secrets';
+import { DEFAULT_AI_PROVIDER, DEFAULT_IDLE_LOCK_MINUTES, type AIProvider, type ApiKeyProvider, type ApiKeyStatus } from '../shared/types';
+
+export type { AIProvider, ApiKeyProvider, ApiKeyStatus };
 
 type Theme = 'light' | 'dark';
-export type AIProvider = 'gemini' | 'groq' | 'openai' | 'anthropic' | 'deepseek' | 'ollama';
 export type IconSize = 'sm' | 'md' | 'lg';
 
 interface CustomColors {
@@ -10,14 +15,7 @@ interface CustomColors {
   accent: string;
 }
 
-interface APIKeys {
-  gemini: string;
-  groq: string;
-  openai: string;
-  anthropic: string;
-  deepseek: string;
-  ollama: string; // Not an API key, but used for host URL
-}
+type ApiKeyStatusMap = Record<ApiKeyProvider, ApiKeyStatus>;
 
 interface FeatureFlags {
   sideQuests: boolean;
@@ -41,29 +39,34 @@ interface SettingsContextType {
   setCustomColors: (colors: CustomColors) => void;
   aiProvider: AIProvider;
   setAiProvider: (provider: AIProvider) => void;
-  apiKeys: APIKeys;
-  setApiKeys: (keys: APIKeys) => void;
+  ollamaHost: string;
+  setOllamaHost: (host: string) => void;
+  /** Which providers have a key in the vault; the keys themselves never reach the renderer. */
+  apiKeyStatus: ApiKeyStatusMap;
+  /** Re-read `apiKeyStatus`, e.g. after setting or clearing a key through src/services/secrets.ts. */
+  refreshApiKeyStatus: () => Promise<void>;
   featureFlags: FeatureFlags;
   setFeatureFlags: (flags: FeatureFlags) => void;
+  /** Minutes without input before the app locks itself (main/idle-lock.ts); 0 is never. */
+  idleLockMinutes: number;
+  setIdleLockMinutes: (minutes: number) => void;
   applyCustomColors: (colors?: CustomColors) => void;
   resetToDefaults: () => void;
 }
 
 /**
- * Optional electron preload bridge API. The preload script can expose
- * an electronAPI with getSetting/setSetting methods to persist settings
- * in the main process (e.g. to SQLite). If not available we fall back
- * to localStorage for renderer-only persistence.
+ * Settings persist in the main process (SQLite, via the settings:get/settings:set
+ * IPC channels) when running inside Electron. Outside Electron (e.g. plain Vite
+ * preview) we fall back to localStorage for renderer-only persistence.
+ *
+ * API keys are the exception: they live in the signed-in user's vault in main
+ * (src/services/secrets.ts). Only their status is kept here, refreshed at each sign-in and
+ * sign-out.
  */
-declare global {
-  interface Window {
-    electronAPI?: {
-      getSetting: (key: string) => Promise<any | null>;
-      setSetting: (key: string, value: any) => Promise<void>;
-      // other electron APIs may exist...
-    };
-  }
-}
+
+/** Where older versions kept the API keys (and the Ollama host) in plain text. */
+const LEGACY_API_KEYS_KEY = 'app-api-keys';
+const DEFAULT_OLLAMA_HOST = 'http://127.0.0.1:11434';
 
 const defaultColors: CustomColors = {
   background: '210 20% 95%',
@@ -71,14 +74,9 @@ const defaultColors: CustomColors = {
   accent: '180 75% 50%',
 };
 
-const defaultApiKeys: APIKeys = {
-  gemini: '',
-  groq: '',
-  openai: '',
-  anthropic: '',
-  deepseek: '',
-  ollama: 'http://127.0.0.1:11434',
-};
+const noApiKeys = Object.fromEntries(
+  API_KEY_PROVIDERS.map((provider) => [provider, { provider, set: false, hint: null }])
+) as ApiKeyStatusMap;
 
 const defaultFeatureFlags: FeatureFlags = {
   sideQuests: true,
@@ -93,11 +91,11 @@ const defaultFeatureFlags: FeatureFlags = {
 
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
 
-/* Helper persistence that prefers the electronAPI if present, otherwise localStorage */
+/* Helper persistence that prefers the IPC bridge if present, otherwise localStorage */
 const readStoreItem = async (key: string): Promise<string | null> => {
   try {
-    if (window.electronAPI?.getSetting) {
-      const val = await window.electronAPI.getSetting(key);
+    if (hasBridge()) {
+      const val = await invoke('settings:get', key);
       // allow serialized JSON or plain strings; return as-is
       return val ?? null;
     }
@@ -112,13 +110,36 @@ const readStoreItem = async (key: string): Promise<string | null> => {
   }
 };
 
+/**
+ * Hand keys an older version left in localStorage to the vault (unless the vault already has
+ * one for that provider), then drop the plain copy. Returns the Ollama host it held, if any.
+ */
+const moveLegacyApiKeys = async (status: ApiKeyStatusMap): Promise<string | null> => {
+  const raw = localStorage.getItem(LEGACY_API_KEYS_KEY);
+  if (raw === null) return null;
+  let keys: Record<string, unknown> = {};
+  try {
+    keys = JSON.parse(raw);
+  } catch {
+    // unreadable; nothing to keep
+  }
+  for (const provider of API_KEY_PROVIDERS) {
+    const key = keys[provider];
+    if (typeof key === 'string' && key.trim() && !status[provider].set) {
+      status[provider] = await setApiKey(provider, key);
+    }
+  }
+  localStorage.removeItem(LEGACY_API_KEYS_KEY);
+  return typeof keys.ollama === 'string' && keys.ollama.trim() ? keys.ollama.trim() : null;
+};
+
 const writeStoreItem = async (key: string, value: string | null) => {
   try {
-    if (window.electronAPI?.setSetting) {
-      await window.electronAPI.setSetting(key, value);
+    if (hasBridge()) {
+      await invoke('settings:set', { key, value });
     }
   } catch {
-    // ignore electron errors, still write to localStorage fallback
+    // ignore electron errors (main refuses writes while signed out), still write to localStorage fallback
   }
   try {
     if (value === null) localStorage.removeItem(key);
@@ -133,52 +154,95 @@ export const SettingsProvider = ({ children }: { children: ReactNode }) => {
   const [font, setFontState] = useState('font-inter');
   const [iconSize, setIconSizeState] = useState<IconSize>('md');
   const [customColors, setCustomColorsState] = useState<CustomColors>(defaultColors);
-  const [aiProvider, setAiProviderState] = useState<AIProvider>('gemini');
-  const [apiKeys, setApiKeysState] = useState<APIKeys>(defaultApiKeys);
+  const [aiProvider, setAiProviderState] = useState<AIProvider>(DEFAULT_AI_PROVIDER);
+  const [ollamaHost, setOllamaHostState] = useState(DEFAULT_OLLAMA_HOST);
+  const [apiKeyStatus, setApiKeyStatus] = useState<ApiKeyStatusMap>(noApiKeys);
   const [featureFlags, setFeatureFlagsState] = useState<FeatureFlags>(defaultFeatureFlags);
+  const [idleLockMinutes, setIdleLockMinutesState] = useState(DEFAULT_IDLE_LOCK_MINUTES);
   const [isMounted, setIsMounted] = useState(false);
 
-  useEffect(() => {
-    (async () => {
-      const storedTheme = (await readStoreItem('app-theme')) as Theme | null;
-      const storedFont = (await readStoreItem('app-font')) as string | null;
-      const storedIconSize = (await readStoreItem('app-icon-size')) as IconSize | null;
-      const storedColors = await readStoreItem('app-colors');
-      const storedAiProvider = (await readStoreItem('app-ai-provider')) as AIProvider | null;
-      const storedApiKeys = await readStoreItem('app-api-keys');
-      const storedFeatureFlags = await readStoreItem('app-feature-flags');
-
-      if (storedTheme) setThemeState(storedTheme);
-      if (storedFont) setFontState(storedFont);
-      if (storedIconSize) setIconSizeState(storedIconSize);
-      if (storedColors) {
-        try {
-          // allow stored plain string (legacy) or JSON
-          setCustomColorsState(JSON.parse(storedColors));
-        } catch {
-          // fallback assume it's in the form "h s% l%" or similar
-          setCustomColorsState(defaultColors);
-        }
-      }
-      if (storedAiProvider) setAiProviderState(storedAiProvider);
-      if (storedApiKeys) {
-        try {
-          setApiKeysState({ ...defaultApiKeys, ...JSON.parse(storedApiKeys) });
-        } catch {
-          setApiKeysState(defaultApiKeys);
-        }
+  /* Settings belong to the signed-in profile (app-wide ones before sign-in), so they are
+     read again whenever the profile changes; missing values go back to the defaults. */
+  const loadSettings = async () => {
+    const storedTheme = (await readStoreItem('app-theme')) as Theme | null;
+    const storedFont = (await readStoreItem('app-font')) as string | null;
+    const storedIconSize = (await readStoreItem('app-icon-size')) as IconSize | null;
+    const storedColors = await readStoreItem('app-colors');
+    const storedAiProvider = (await readStoreItem('app-ai-provider')) as AIProvider | null;
+    const storedOllamaHost = await readStoreItem('app-ollama-host');
+    const storedFeatureFlags = await readStoreItem('app-feature-flags');
+    const storedIdleLock = await readStoreItem('app-idle-lock-minutes');
+
+    setThemeState(storedTheme ?? 'light');
+    setFontState(storedFont ?? 'font-inter');
+    setIconSizeState(storedIconSize ?? 'md');
+    let colors = defaultColors;
+    if (storedColors) {
+      try {
+        // allow stored plain string (legacy) or JSON
+        colors = JSON.parse(storedColors);
+      } catch {
+        // fallback assume it's in the form "h s% l%" or similar
       }
-      if (storedFeatureFlags) {
-        try {
-          setFeatureFlagsState({ ...defaultFeatureFlags, ...JSON.parse(storedFeatureFlags) });
-        } catch {
-          setFeatureFlagsState(defaultFeatureFlags);
-        }
+    }
+    setCustomColorsState(colors);
+    setAiProviderState(storedAiProvider ?? DEFAULT_AI_PROVIDER);
+    setOllamaHostState(storedOllamaHost ?? DEFAULT_OLLAMA_HOST);
+    let flags = defaultFeatureFlags;
+    if (storedFeatureFlags) {
+      try {
+        flags = { ...defaultFeatureFlags, ...JSON.parse(storedFeatureFlags) };
+      } catch {
+        // keep the defaults
       }
+    }
+    setFeatureFlagsState(flags);
+    const minutes = storedIdleLock === null ? NaN : Number(storedIdleLock);
+    setIdleLockMinutesState(Number.isFinite(minutes) && minutes >= 0 ? minutes : DEFAULT_IDLE_LOCK_MINUTES);
+  };
 
-      setIsMounted(true);
-    })();
-    // run once on mount
+  useEffect(() => {
+    loadSettings().then(() => setIsMounted(true));
+    const unsubscribe = subscribe(() => {
+      loadSettings();
+    });
+    return () => {
+      unsubscribe();
+    };
+  }, []);
+
+  const loadApiKeyStatus = async (): Promise<ApiKeyStatusMap> => {
+    if (!hasBridge()) return noApiKeys;
+    try {
+      const status = { ...noApiKeys };
+      for (const entry of await getApiKeyStatus()) status[entry.provider] = entry;
+      const legacyHost = await moveLegacyApiKeys(status);
+      if (legacyHost && !(await readStoreItem('app-ollama-host'))) setOllamaHost(legacyHost);
+      return status;
+    } catch {
+      // signed out or locked: the vault stays closed until the next sign-in
+      return noApiKeys;
+    }
+  };
+
+  const refreshApiKeyStatus = async () => {
+    setApiKeyStatus(await loadApiKeyStatus());
+  };
+
+  useEffect(() => {
+    let active = true;
+    const load = async () => {
+      const status = await loadApiKeyStatus();
+      if (active) setApiKeyStatus(status);
+    };
+    load();
+    const unsubscribe = subscribe(() => {
+      load();
+    });
+    return () => {
+      active = false;
+      unsubscribe();
+    };
   }, []);
 
   useEffect(() => {
@@ -237,9 +301,9 @@ export const SettingsProvider = ({ children }: { children: ReactNode }) => {
     writeStoreItem('app-ai-provider', provider);
   };
 
-  const setApiKeys = (keys: APIKeys) => {
-    setApiKeysState(keys);
-    writeStoreItem('app-api-keys', JSON.stringify(keys));
+  const setOllamaHost = (host: string) => {
+    setOllamaHostState(host);
+    writeStoreItem('app-ollama-host', host.trim() ? host : null);
   };
 
   const setFeatureFlags = (flags: FeatureFlags) => {
@@ -247,14 +311,25 @@ export const SettingsProvider = ({ children }: { children: ReactNode }) => {
     writeStoreItem('app-feature-flags', JSON.stringify(flags));
   };
 
+  const setIdleLockMinutes = (minutes: number) => {
+    setIdleLockMinutesState(minutes);
+    writeStoreItem('app-idle-lock-minutes', String(minutes));
+  };
+
   const resetToDefaults = () => {
     setTheme('light');
     setFont('font-inter');
     setIconSize('md');
     setCustomColors(defaultColors);
-    setAiProvider('gemini');
-    setApiKeys(defaultApiKeys);
+    setAiProvider(DEFAULT_AI_PROVIDER);
+    setOllamaHost(DEFAULT_OLLAMA_HOST);
+    if (hasBridge()) {
+      Promise.all(API_KEY_PROVIDERS.map((provider) => clearApiKey(provider)))
+        .then(() => setApiKeyStatus(noApiKeys))
+        .catch(() => {});
+    }
     setFeatureFlags(defaultFeatureFlags);
+    setIdleLockMinutes(DEFAULT_IDLE_LOCK_MINUTES);
 
     // remove persisted values both in electron store (if present) and localStorage
     writeStoreItem('app-theme', null);
@@ -262,8 +337,9 @@ export const SettingsProvider = ({ children }: { children: ReactNode }) => {
     writeStoreItem('app-icon-size', null);
     writeStoreItem('app-colors', null);
     writeStoreItem('app-ai-provider', null);
-    writeStoreItem('app-api-keys', null);
+    writeStoreItem('app-ollama-host', null);
     writeStoreItem('app-feature-flags', null);
+    writeStoreItem('app-idle-lock-minutes', null);
   };
 
   if (!isMounted) {
@@ -283,10 +359,14 @@ export const SettingsProvider = ({ children }: { children: ReactNode }) => {
         setCustomColors,
         aiProvider,
         setAiProvider,
-        apiKeys,
-        setApiKeys,
+        ollamaHost,
+        setOllamaHost,
+        apiKeyStatus,
+        refreshApiKeyStatus,
         featureFlags,
         setFeatureFlags,
+        idleLockMinutes,
+        setIdleLockMinutes,
         applyCustomColors,
         resetToDefaults,
       }}
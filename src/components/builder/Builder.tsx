@@ -1,4 +1,4 @@
-import React, { useState, useEffect, cloneElement } from "react";
+import React, { useState, useEffect, useRef, cloneElement } from "react";
 import {
   DndContext,
   closestCenter,
@@ -18,16 +18,39 @@ import { WIDGETS, type WidgetId } from "../../../app/renderer/src/components/das
 import { WidgetWrapper } from "./WidgetWrapper";
 import { BuilderSidebar, useSidebar } from "../layout/BuilderSidebar";
 import { useToast } from "../../hooks/useToast";
-import { Templates } from "./Templates";
+import { useUndoable, type UndoableOptions } from "../../hooks/use-undoable";
+import { useToolExecutor } from "../../hooks/use-tool-executor";
+import { useSemanticIndex } from "../../hooks/use-semantic-index";
+import { forgetIndexedScopes } from "../../services/semantic-index";
+import { hasBridge, invoke } from "../../services/ipc";
+import { loadPages, savePages } from "../../services/pages";
+import { PACKAGE_EXTENSION, previewPackage } from "../../services/packages";
+import type { LayoutPage } from "../../shared/types";
+import { WorkspaceContext, type RevealTarget } from "./workspace-context";
+import { MissingWidget } from "./missing-widget";
+import { Templates } from "./templates";
+import { ExportPackageDialog, ImportPackageDialog, type PackageToImport } from "./package-dialogs";
 import type { Template } from "./template-data";
 import { useSettings } from "../../context/settings-context";
 import { SidebarProvider } from "../ui/sidebar";
+import { ToastAction } from "../ui/toast";
+import {
+  DEFAULT_COLUMNS,
+  clampColumns,
+  compact,
+  findFreeSpot,
+  flowPositions,
+  resolveCollisions,
+  type GridRect,
+} from "../../shared/grid";
 import { cn } from "../../lib/utils";
 
 export type Item = {
   id: string;
   widgetId: WidgetId;
   name?: string;
+  x: number; // grid column, from 0
+  y: number; // grid row, from 0
   width: number; // col-span
   height: number; // row-span
   color?: string;
@@ -42,52 +65,146 @@ export type Page = {
   id: string;
   name: string;
   icon: string;
+  columns: number;
   items: Item[];
 };
 
 export type View = "canvas" | "templates";
 
+/** How long a widget revealed from search stays highlighted. */
+const HIGHLIGHT_MS = 2500;
+
+/** Changes are saved once they have settled for this long (src/services/pages.ts). */
+const SAVE_DELAY_MS = 500;
+
 const initialPages: Page[] = [
-  { id: "home", name: "Dashboard", icon: "LayoutDashboard", items: [] },
+  { id: "home", name: "Dashboard", icon: "LayoutDashboard", columns: DEFAULT_COLUMNS, items: [] },
 ];
 
+/**
+ * A loaded page with every widget on the grid. Main migrates saved layouts already; this
+ * covers the localStorage layouts of the Vite preview.
+ */
+function withGrid(page: Page): Page {
+  const columns = clampColumns(page.columns ?? DEFAULT_COLUMNS);
+  const positioned = page.items.every((item) => Number.isInteger(item.x) && Number.isInteger(item.y));
+  return {
+    ...page,
+    columns,
+    items: positioned ? resolveCollisions(page.items, columns) : flowPositions(page.items, columns),
+  };
+}
+
+/** Whether a key press belongs to a text field, whose own undo should handle it. */
+function isTextInput(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
 function BuilderContent() {
-  const [pages, setPages] = useState<Page[]>(initialPages);
+  // Every change to pages and items can be undone until the builder closes (use-undoable.ts)
+  const { value: pages, set: setPages, reset: resetPages, undo, redo } = useUndoable<Page[]>(initialPages);
   const [activePageIndex, setActivePageIndex] = useState(0);
   const [activeId, setActiveId] = useState<string | null>(null);
   const [activeSidebarItem, setActiveSidebarItem] = useState<WidgetId | null>(null);
   const [view, setView] = useState<View>("canvas");
+  const [highlight, setHighlight] = useState<{ itemId: string; at: number } | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [packageToImport, setPackageToImport] = useState<PackageToImport | null>(null);
   const { toast } = useToast();
   const { font, theme } = useSettings();
   const [isMounted, setIsMounted] = useState(false);
+  // Set when the saved pages cannot be read; nothing is saved then, so they are not overwritten
+  const [loadError, setLoadError] = useState<string | null>(null);
   const { open: sidebarOpen, setOpen: setSidebarOpen, state: sidebarState } = useSidebar();
 
+  // Pages waiting for SAVE_DELAY_MS to pass; saved at once when the window closes or the builder goes
+  const pendingSave = useRef<Page[] | null>(null);
+  // The pages as last rendered, so a toast's Undo can tell whether its change is still the latest
+  const latestPages = useRef(pages);
+  latestPages.current = pages;
+  // Every widget on a page since loading; undo can bring removed ones back, so they leave search only when the builder goes
+  const shownWidgets = useRef(new Set<string>());
+
   useEffect(() => {
-    try {
-      const savedState = localStorage.getItem("app-state");
-      if (savedState) {
-        const parsedState = JSON.parse(savedState);
-        if (parsedState.pages && parsedState.pages.length > 0) {
-          setPages(parsedState.pages);
+    let cancelled = false;
+    loadPages()
+      .then((layout) => {
+        if (cancelled) return;
+        if (layout.pages.length > 0) {
+          resetPages((layout.pages as Page[]).map(withGrid));
         }
-      }
-    } catch (error) {
-      console.error("Failed to load state from local storage", error);
-    }
-    setIsMounted(true);
+        setIsMounted(true);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Failed to load your pages", error);
+        setLoadError(error instanceof Error ? error.message : String(error));
+      });
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
   useEffect(() => {
-    if (isMounted) {
-      try {
-        const appState = JSON.stringify({ pages });
-        localStorage.setItem("app-state", appState);
-      } catch (error) {
-        console.error("Failed to save state to local storage", error);
-      }
-    }
+    if (!isMounted) return;
+    pages.forEach((page) => page.items.forEach((item) => shownWidgets.current.add(item.id)));
+    pendingSave.current = pages;
+    const timer = setTimeout(flushSave, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
   }, [pages, isMounted]);
 
+  useEffect(() => {
+    const onUnload = () => {
+      flushSave();
+      forgetRemovedWidgets();
+    };
+    window.addEventListener("beforeunload", onUnload);
+    return () => {
+      window.removeEventListener("beforeunload", onUnload);
+      onUnload();
+    };
+  }, []);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isTextInput(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [undo, redo]);
+
+  // Undo and redo can take away the page being shown
+  useEffect(() => {
+    if (activePageIndex >= pages.length) setActivePageIndex(pages.length - 1);
+  }, [pages, activePageIndex]);
+
+  function flushSave() {
+    const next = pendingSave.current;
+    if (!next) return;
+    pendingSave.current = null;
+    savePages(next).catch((error) => {
+      console.error("Failed to save your pages", error);
+    });
+  }
+
+  /** Take the widgets no page holds any more out of search. */
+  function forgetRemovedWidgets() {
+    const kept = new Set(latestPages.current.flatMap((page) => page.items.map((item) => item.id)));
+    const removed = [...shownWidgets.current].filter((id) => !kept.has(id));
+    shownWidgets.current = kept;
+    if (!hasBridge() || removed.length === 0) return;
+    forgetIndexedScopes(removed).catch((err) => console.error("Failed to update the search index:", err));
+  }
+
   const sensors = useSensors(
     useSensor(PointerSensor, {
       activationConstraint: {
@@ -96,12 +213,18 @@ function BuilderContent() {
     })
   );
 
-  const activePage = pages[activePageIndex];
-  const setItems = (newItems: Item[] | ((prevItems: Item[]) => Item[])) => {
-    const updatedItems = typeof newItems === "function" ? newItems(activePage.items) : newItems;
-    const newPages = [...pages];
-    newPages[activePageIndex] = { ...activePage, items: updatedItems };
-    setPages(newPages);
+  const activePage = pages[Math.min(activePageIndex, pages.length - 1)];
+  const setItems = (newItems: Item[] | ((prevItems: Item[]) => Item[]), options?: UndoableOptions) => {
+    const pageId = activePage.id;
+    setPages(
+      (prev) =>
+        prev.map((page) =>
+          page.id === pageId
+            ? { ...page, items: typeof newItems === "function" ? newItems(page.items) : newItems }
+            : page
+        ),
+      options
+    );
   };
 
   const handleDragStart = (event: DragStartEvent) => {
@@ -121,8 +244,8 @@ function BuilderContent() {
       return;
     }
 
+    // Widgets moved on the canvas place themselves (onMove in resizable-widget.tsx)
     const isPageDrag = active.data?.current?.type === "Page";
-    const isWidgetDrag = active.data?.current?.type === "Widget";
     const isSidebarItem = active.data?.current?.isSidebarItem;
 
     if (isPageDrag) {
@@ -137,12 +260,6 @@ function BuilderContent() {
         const newActiveIndex = newPages.findIndex((p) => p.id === activePageId);
         setActivePageIndex(newActiveIndex);
       }
-    } else if (isWidgetDrag) {
-      const oldIndex = activePage.items.findIndex((item) => item.id === active.id);
-      const newIndex = activePage.items.findIndex((item) => item.id === over.id);
-      if (oldIndex !== -1 && newIndex !== -1) {
-        setItems((items) => arrayMove(items, oldIndex, newIndex));
-      }
     } else if (isSidebarItem && over?.id === "canvas-droppable") {
       // Drop handled in handleDragOver, this just cleans up
     }
@@ -178,7 +295,7 @@ function BuilderContent() {
         const initialWidth = "initialWidth" in widget ? widget.initialWidth : 2;
         const initialHeight = "initialHeight" in widget ? widget.initialHeight : 2;
 
-        const newItem: Item = {
+        const newItem: Omit<Item, "x" | "y"> = {
           id: `${widgetId}-${uniqueId}`,
           widgetId,
           width: initialWidth,
@@ -186,32 +303,132 @@ function BuilderContent() {
           font: font,
           theme: theme,
         };
-        setItems((prev) => [...prev, newItem]);
+        setItems((prev) => [...prev, placeItem(prev, newItem)]);
       }
     }
   };
 
+  /** A new widget in the first free place on the active page that fits it. */
+  const placeItem = (items: Item[], item: Omit<Item, "x" | "y">): Item => {
+    const columns = activePage.columns;
+    const width = Math.min(item.width, columns);
+    return { ...item, width, ...findFreeSpot(items, { width, height: item.height }, columns) } as Item;
+  };
+
+  /**
+   * A toast's Undo: one step back while its change is the latest, so redo can take it again;
+   * after other changes `restore` puts things back as a new step instead.
+   */
+  const undoChange = (after: Page[], restore: () => void) => {
+    if (latestPages.current === after) undo();
+    else restore();
+  };
+
+  /** Put a removed widget back where it was, unless its page is gone or it is back already. */
+  const restoreWidget = (pageId: string, index: number, removed: Item) => {
+    setPages((prev) =>
+      prev.map((page) =>
+        page.id === pageId && !page.items.some((item) => item.id === removed.id)
+          ? { ...page, items: [...page.items.slice(0, index), removed, ...page.items.slice(index)] }
+          : page
+      )
+    );
+  };
+
   const handleRemoveWidget = (id: string) => {
-    setItems((items) => items.filter((item) => item.id !== id));
+    const index = activePage.items.findIndex((item) => item.id === id);
+    if (index === -1) return;
+    const removed = activePage.items[index];
+    const pageId = activePage.id;
+    const next = pages.map((page) =>
+      page.id === pageId ? { ...page, items: page.items.filter((item) => item.id !== id) } : page
+    );
+    setPages(next);
+    toast({
+      title: "Widget Removed",
+      description: `"${removed.name || WIDGETS[removed.widgetId]?.name || removed.widgetId}" has been removed.`,
+      action: (
+        <ToastAction
+          altText="Undo removing the widget"
+          onClick={() => undoChange(next, () => restoreWidget(pageId, index, removed))}
+        >
+          Undo
+        </ToastAction>
+      ),
+    });
   };
 
-  const handleSizeChange = (id: string, newSize: { width: number; height: number }) => {
-    setItems((items) => items.map((item) => (item.id === id ? { ...item, ...newSize } : item)));
+  /** Put a widget where it was moved or resized to, pushing whatever it now covers down. */
+  const placeWidget = (id: string, rect: Partial<GridRect>, options?: { coalesce?: string }) => {
+    const columns = activePage.columns;
+    setItems(
+      (items) => resolveCollisions(items.map((item) => (item.id === id ? { ...item, ...rect } : item)), columns, id),
+      options
+    );
+  };
+
+  // Dragging a resize handle or clicking the size buttons in a row is one step to undo, as is typing a name
+  const handleSizeChange = (id: string, rect: Partial<GridRect>) => {
+    placeWidget(id, rect, { coalesce: `resize:${id}` });
+  };
+
+  const handleMoveWidget = (id: string, position: { x: number; y: number }) => {
+    placeWidget(id, position);
+  };
+
+  const handleColumnsChange = (columns: number) => {
+    const pageId = activePage.id;
+    const next = clampColumns(columns);
+    setPages((prev) =>
+      prev.map((page) =>
+        page.id === pageId ? { ...page, columns: next, items: resolveCollisions(page.items, next) } : page
+      )
+    );
+  };
+
+  const handleCompact = () => {
+    setItems((items) => compact(items));
   };
 
   const handleNameChange = (id: string, newName: string) => {
-    setItems((items) => items.map((item) => (item.id === id ? { ...item, name: newName } : item)));
+    setItems((items) => items.map((item) => (item.id === id ? { ...item, name: newName } : item)), {
+      coalesce: `name:${id}`,
+    });
   };
 
   const handlePropChange = (id: string, newProps: Record<string, any>) => {
-    setItems((items) => items.map((item) => (item.id === id ? { ...item, ...newProps } : item)));
+    setItems((items) => items.map((item) => (item.id === id ? { ...item, ...newProps } : item)), {
+      coalesce: `props:${id}:${Object.keys(newProps).sort().join(",")}`,
+    });
   };
 
+  useToolExecutor("addWidget", ({ widgetId, name }) => {
+    if (!(widgetId in WIDGETS)) {
+      const known = Object.keys(WIDGETS).slice(0, 12).join(", ");
+      throw new Error(`There is no "${widgetId}" widget. Known widgets include: ${known}.`);
+    }
+    const id = widgetId as WidgetId;
+    const widget = WIDGETS[id];
+    const newItem = placeItem(activePage.items, {
+      id: `${id}-${uuidv4()}`,
+      widgetId: id,
+      name,
+      width: "initialWidth" in widget ? widget.initialWidth : 2,
+      height: "initialHeight" in widget ? widget.initialHeight : 2,
+      font: font,
+      theme: theme,
+    });
+    setItems((prev) => [...prev, newItem]);
+    setView("canvas");
+    return { page: activePage.name, widgetId: id, itemId: newItem.id };
+  });
+
   const handleAddPage = () => {
     const newPage: Page = {
       id: uuidv4(),
       name: `Page ${pages.length + 1}`,
       icon: "File",
+      columns: DEFAULT_COLUMNS,
       items: [],
     };
     setPages([...pages, newPage]);
@@ -226,12 +443,14 @@ function BuilderContent() {
     const pageToDeleteIndex = pages.findIndex((p) => p.id === pageId);
     if (pageToDeleteIndex === -1) return;
 
-    const pageToDeleteName = pages[pageToDeleteIndex].name;
+    const deleted = pages[pageToDeleteIndex];
+    const pageToDeleteName = deleted.name;
     const newPages = pages.filter((p) => p.id !== pageId);
 
     // If there are no pages left, create a default one
+    const next = newPages.length === 0 ? initialPages : newPages;
     if (newPages.length === 0) {
-      setPages(initialPages);
+      setPages(next);
       setActivePageIndex(0);
     } else {
       // If the active page is being deleted, move to the first page
@@ -247,6 +466,27 @@ function BuilderContent() {
     toast({
       title: "Page Deleted",
       description: `"${pageToDeleteName}" has been removed.`,
+      action: (
+        <ToastAction
+          altText="Undo deleting the page"
+          onClick={() => {
+            undoChange(next, () => restorePage(pageToDeleteIndex, deleted));
+            setActivePageIndex(pageToDeleteIndex);
+            setView("canvas");
+          }}
+        >
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+
+  /** Put a deleted page back where it was, in place of the empty page left when it was the last. */
+  const restorePage = (index: number, deleted: Page) => {
+    setPages((prev) => {
+      if (prev.some((page) => page.id === deleted.id && page !== initialPages[0])) return prev;
+      const rest = prev.length === 1 && prev[0] === initialPages[0] ? [] : prev;
+      return [...rest.slice(0, index), deleted, ...rest.slice(index)];
     });
   };
 
@@ -255,7 +495,11 @@ function BuilderContent() {
       id: uuidv4(),
       name: template.name,
       icon: "LayoutTemplate",
-      items: template.items.map((item) => ({ ...item, id: `${item.widgetId}-${uuidv4()}` })),
+      columns: DEFAULT_COLUMNS,
+      items: flowPositions(
+        template.items.map((item) => ({ ...item, id: `${item.widgetId}-${uuidv4()}` })),
+        DEFAULT_COLUMNS
+      ) as Item[],
     };
     setPages([...pages, newPage]);
     setActivePageIndex(pages.length);
@@ -266,8 +510,34 @@ function BuilderContent() {
     });
   };
 
+  /** Pick a .gidit package and show what it holds; nothing is added until the user confirms. */
+  const handleOpenPackage = async () => {
+    try {
+      const file = await invoke("files:open", { extensions: [PACKAGE_EXTENSION], encoding: "base64" });
+      if (!file) return;
+      const preview = await previewPackage(file.content);
+      setPackageToImport({ fileName: file.fileName, dataBase64: file.content, preview });
+    } catch (error) {
+      console.error(error);
+      const description = (error as Error)?.message ?? "Unable to open the package.";
+      toast({ title: "Import Failed", description, variant: "destructive" });
+    }
+  };
+
+  const handleImportPages = (imported: LayoutPage[]) => {
+    setPages([...pages, ...(imported as Page[]).map(withGrid)]);
+    setActivePageIndex(pages.length);
+    setView("canvas");
+    toast({
+      title: "Package Imported",
+      description: imported.length === 1 ? `New page "${imported[0].name}" created.` : `${imported.length} new pages created.`,
+    });
+  };
+
   const handleUpdatePage = (pageId: string, updates: Partial<Page>) => {
-    setPages(pages.map((page) => (page.id === pageId ? { ...page, ...updates } : page)));
+    setPages((prev) => prev.map((page) => (page.id === pageId ? { ...page, ...updates } : page)), {
+      coalesce: `page:${pageId}:${Object.keys(updates).sort().join(",")}`,
+    });
   };
 
   const handleSelectPage = (pageId: string) => {
@@ -275,6 +545,50 @@ function BuilderContent() {
     setView("canvas");
   };
 
+  /**
+   * Bring a widget into view: the page holding the item, else a page with a widget of that
+   * kind (the given page first), else the given page.
+   */
+  const revealWidget = ({ pageId, itemId, widgetId }: RevealTarget): boolean => {
+    let index = itemId ? pages.findIndex((p) => p.items.some((item) => item.id === itemId)) : -1;
+    let target = index === -1 ? null : itemId ?? null;
+    if (index === -1 && widgetId) {
+      const withWidget = (p: Page) => p.items.find((item) => item.widgetId === widgetId);
+      const preferred = pages.findIndex((p) => p.id === pageId && withWidget(p));
+      index = preferred !== -1 ? preferred : pages.findIndex((p) => withWidget(p));
+      target = index === -1 ? null : withWidget(pages[index])!.id;
+    }
+    if (index === -1 && pageId) index = pages.findIndex((p) => p.id === pageId);
+    if (index === -1) return false;
+
+    setActivePageIndex(index);
+    setView("canvas");
+    setHighlight(target ? { itemId: target, at: Date.now() } : null);
+    return true;
+  };
+
+  useEffect(() => {
+    if (!highlight) return;
+    document
+      .querySelector(`[data-widget-item="${CSS.escape(highlight.itemId)}"]`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    const timer = setTimeout(() => setHighlight(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlight]);
+
+  // Pages are searchable by name and by the widgets on them.
+  useSemanticIndex(
+    "page",
+    pages,
+    (page) => ({
+      id: page.id,
+      title: page.name,
+      text: page.items.map((item) => item.name || WIDGETS[item.widgetId]?.name || item.widgetId).join("\n"),
+      location: { pageId: page.id, itemId: null, widgetId: null },
+    }),
+    { scope: "builder:pages" }
+  );
+
   const handleMainClick = () => {
     if (sidebarOpen) {
       setSidebarOpen(false);
@@ -283,75 +597,110 @@ function BuilderContent() {
 
   const activeItem = activeId ? activePage.items.find((item) => item.id === activeId) : null;
 
+  if (loadError) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen gap-2 p-8 text-center">
+        <h1 className="text-xl font-semibold">Your pages could not be opened</h1>
+        <p className="max-w-md text-sm text-muted-foreground">
+          They are encrypted with your password. Sign out and in again to unlock them; nothing has been
+          changed or overwritten.
+        </p>
+        <p className="max-w-md text-xs text-muted-foreground">{loadError}</p>
+      </div>
+    );
+  }
+
   if (!isMounted) {
     return null; // Or a loading spinner
   }
 
   return (
-    <DndContext
-      sensors={sensors}
-      collisionDetection={closestCenter}
-      onDragStart={handleDragStart}
-      onDragEnd={handleDragEnd}
-      onDragOver={handleDragOver}
-    >
-      <div className="flex flex-1 h-screen">
-        <BuilderSidebar
-          pages={pages}
-          activePageId={activePage.id}
-          onSelectPage={handleSelectPage}
-          onAddPage={handleAddPage}
-          onUpdatePage={handleUpdatePage}
-          onDeletePage={handleDeletePage}
-          widgets={WIDGETS}
-          currentView={view}
-          onSetView={setView}
-        />
-        <main
-          className={cn(
-            "flex flex-col flex-grow bg-secondary/20 h-screen w-full transition-[margin-left] duration-200 ease-in-out",
-            sidebarState === "collapsed" && "md:ml-[--sidebar-width-icon]"
-          )}
-          onClick={handleMainClick}
-        >
-          {view === "canvas" ? (
-            <Canvas
-              items={activePage.items}
-              onRemoveWidget={handleRemoveWidget}
-              onSizeChange={handleSizeChange}
-              onNameChange={handleNameChange}
-              onPropChange={handlePropChange}
-            />
-          ) : (
-            <Templates onUseTemplate={handleUseTemplate} />
-          )}
-        </main>
-      </div>
-      <DragOverlay>
-        {activeItem ? (
-          <WidgetWrapper
-            id={activeItem.id}
-            widgetId={activeItem.widgetId}
-            {...activeItem}
-            onRemove={() => {}}
-            onSizeChange={() => {}}
-            onNameChange={() => {}}
-            onPropChange={() => {}}
-            isOverlay
+    <WorkspaceContext.Provider value={{ revealWidget, highlightedItemId: highlight?.itemId ?? null }}>
+      <DndContext
+        sensors={sensors}
+        collisionDetection={closestCenter}
+        onDragStart={handleDragStart}
+        onDragEnd={handleDragEnd}
+        onDragOver={handleDragOver}
+      >
+        <div className="flex flex-1 h-screen">
+          <BuilderSidebar
+            pages={pages}
+            activePageId={activePage.id}
+            onSelectPage={handleSelectPage}
+            onAddPage={handleAddPage}
+            onUpdatePage={handleUpdatePage}
+            onDeletePage={handleDeletePage}
+            widgets={WIDGETS}
+            currentView={view}
+            onSetView={setView}
+          />
+          <main
+            className={cn(
+              "flex flex-col flex-grow bg-secondary/20 h-screen w-full transition-[margin-left] duration-200 ease-in-out",
+              sidebarState === "collapsed" && "md:ml-[--sidebar-width-icon]"
+            )}
+            onClick={handleMainClick}
           >
-            {WIDGETS[activeItem.widgetId].component}
-          </WidgetWrapper>
-        ) : activeSidebarItem ? (
-          <div className="h-24 w-40 bg-background border rounded-lg overflow-hidden relative shadow-lg">
-            <div className="absolute top-0 left-0 origin-top-left" style={{ transform: "scale(0.3)" }}>
-              <div className="w-[32rem] h-[24rem]">
-                {cloneElement(WIDGETS[activeSidebarItem].component, { name: "" })}
+            {view === "canvas" ? (
+              <Canvas
+                pageId={activePage.id}
+                columns={activePage.columns}
+                items={activePage.items}
+                onRemoveWidget={handleRemoveWidget}
+                onSizeChange={handleSizeChange}
+                onMoveWidget={handleMoveWidget}
+                onNameChange={handleNameChange}
+                onPropChange={handlePropChange}
+                onColumnsChange={handleColumnsChange}
+                onCompact={handleCompact}
+              />
+            ) : (
+              <Templates
+                onUseTemplate={handleUseTemplate}
+                onExportPages={hasBridge() ? () => setIsExporting(true) : undefined}
+                onImportPackage={hasBridge() ? handleOpenPackage : undefined}
+              />
+            )}
+          </main>
+        </div>
+        <DragOverlay>
+          {activeItem ? (
+            <WidgetWrapper
+              id={activeItem.id}
+              widgetId={activeItem.widgetId}
+              {...activeItem}
+              onRemove={() => {}}
+              onSizeChange={() => {}}
+              onNameChange={() => {}}
+              onPropChange={() => {}}
+              isOverlay
+            >
+              {WIDGETS[activeItem.widgetId]?.component ?? <MissingWidget widgetId={activeItem.widgetId} />}
+            </WidgetWrapper>
+          ) : activeSidebarItem ? (
+            <div className="h-24 w-40 bg-background border rounded-lg overflow-hidden relative shadow-lg">
+              <div className="absolute top-0 left-0 origin-top-left" style={{ transform: "scale(0.3)" }}>
+                <div className="w-[32rem] h-[24rem]">
+                  {cloneElement(WIDGETS[activeSidebarItem].component, { name: "" })}
+                </div>
               </div>
             </div>
-          </div>
-        ) : null}
-      </DragOverlay>
-    </DndContext>
+          ) : null}
+        </DragOverlay>
+      </DndContext>
+      <ExportPackageDialog
+        open={isExporting}
+        onOpenChange={setIsExporting}
+        pages={pages}
+        activePageId={activePage.id}
+      />
+      <ImportPackageDialog
+        pkg={packageToImport}
+        onClose={() => setPackageToImport(null)}
+        onImport={handleImportPages}
+      />
+    </WorkspaceContext.Provider>
   );
 }
 
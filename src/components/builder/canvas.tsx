@@ -1,52 +1,94 @@
 import React from "react";
 import { useDroppable } from "@dnd-kit/core";
-import { SortableContext, rectSortingStrategy } from "@dnd-kit/sortable";
-import { Grip } from "lucide-react";
+import { ArrowUpToLine, Grip, Minus, Plus } from "lucide-react";
 import { type Item } from "./builder";
 import { ResizableWidget } from "./resizable-widget";
+import { Button } from "../ui/button";
+import { MAX_COLUMNS, MIN_COLUMNS, type GridRect } from "../../shared/grid";
 
 export type CanvasProps = {
+  pageId: string;
+  columns: number;
   items: Item[];
   onRemoveWidget: (id: string) => void;
-  onSizeChange: (id: string, newSize: { width: number; height: number }) => void;
+  onSizeChange: (id: string, rect: Partial<GridRect>) => void;
+  onMoveWidget: (id: string, position: { x: number; y: number }) => void;
   onNameChange: (id: string, newName: string) => void;
   onPropChange: (id: string, newProps: Record<string, any>) => void;
+  onColumnsChange: (columns: number) => void;
+  onCompact: () => void;
 };
 
 export function Canvas({
+  pageId,
+  columns,
   items,
   onRemoveWidget,
   onSizeChange,
+  onMoveWidget,
   onNameChange,
   onPropChange,
+  onColumnsChange,
+  onCompact,
 }: CanvasProps) {
   const { setNodeRef } = useDroppable({
     id: "canvas-droppable",
   });
 
   return (
-    <div ref={setNodeRef} className="flex-grow bg-secondary/30">
+    <div ref={setNodeRef} className="flex flex-col flex-grow bg-secondary/30">
+      <div className="flex items-center justify-end gap-2 px-4 py-2 text-sm text-muted-foreground">
+        <span>Columns</span>
+        <Button
+          size="icon"
+          variant="outline"
+          className="h-6 w-6"
+          disabled={columns <= MIN_COLUMNS}
+          onClick={() => onColumnsChange(columns - 1)}
+        >
+          <Minus className="h-3 w-3" />
+        </Button>
+        <span className="w-5 text-center text-foreground">{columns}</span>
+        <Button
+          size="icon"
+          variant="outline"
+          className="h-6 w-6"
+          disabled={columns >= MAX_COLUMNS}
+          onClick={() => onColumnsChange(columns + 1)}
+        >
+          <Plus className="h-3 w-3" />
+        </Button>
+        <Button variant="ghost" size="sm" disabled={items.length === 0} onClick={onCompact}>
+          <ArrowUpToLine className="h-4 w-4 mr-1" />
+          Compact
+        </Button>
+      </div>
       {items.length === 0 ? (
-        <div className="flex flex-col items-center justify-center h-full text-muted-foreground">
+        <div className="flex flex-col flex-grow items-center justify-center text-muted-foreground">
           <Grip className="w-12 h-12 mb-4" />
           <p className="text-lg font-semibold">Drag and Drop Widgets Here</p>
           <p>Start building your dashboard by dragging widgets from the sidebar.</p>
         </div>
       ) : (
-        <SortableContext items={items.map((i) => i.id)} strategy={rectSortingStrategy}>
-          <div className="grid grid-cols-4 auto-rows-[120px] h-full">
-            {items.map((item) => (
-              <ResizableWidget
-                key={item.id}
-                {...item}
-                onRemove={onRemoveWidget}
-                onSizeChange={onSizeChange}
-                onNameChange={onNameChange}
-                onPropChange={onPropChange}
-              />
-            ))}
-          </div>
-        </SortableContext>
+        <div
+          data-builder-grid
+          className="grid auto-rows-[120px] gap-4 flex-grow"
+          style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+        >
+          {items.map((item) => (
+            <ResizableWidget
+              key={item.id}
+              {...item}
+              pageId={pageId}
+              columns={columns}
+              onRemove={onRemoveWidget}
+              onSizeChange={onSizeChange}
+              onMove={onMoveWidget}
+              onNameChange={onNameChange}
+              onPropChange={onPropChange}
+            />
+          ))}
+        </div>
       )}
     </div>
   );
@@ -0,0 +1,32 @@
+import React from "react";
+import { Puzzle, X } from "lucide-react";
+import { Button } from "../ui/button";
+
+type MissingWidgetProps = {
+  widgetId: string;
+  name?: string;
+  /** Offers to take the tile off the page; without it the tile only explains itself. */
+  onRemove?: () => void;
+};
+
+/**
+ * Stands in for a saved widget this version does not have (removed, renamed or from a newer
+ * version). The item and its settings stay in the layout until the user removes the tile.
+ */
+export function MissingWidget({ widgetId, name, onRemove }: MissingWidgetProps) {
+  return (
+    <div className="flex flex-col items-center justify-center h-full w-full gap-2 p-4 rounded-lg border border-dashed bg-muted/40 text-center text-muted-foreground">
+      <Puzzle className="w-8 h-8" />
+      <p className="text-sm font-medium text-foreground">{name || "Missing widget"}</p>
+      <p className="text-xs">
+        The "{widgetId}" widget is not available in this version of Gidit.
+      </p>
+      {onRemove && (
+        <Button variant="outline" size="sm" onClick={onRemove}>
+          <X className="w-3 h-3 mr-1" />
+          Remove
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import React, { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import { Button } from "../ui/button";
+import { Checkbox } from "../ui/checkbox";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { ScrollArea } from "../ui/scroll-area";
+import { Switch } from "../ui/switch";
+import { Textarea } from "../ui/textarea";
+import { useToast } from "../../hooks/use-toast";
+import { invoke } from "../../services/ipc";
+import { PACKAGE_EXTENSION, exportPackage, importPackage, type PackagePreview } from "../../services/packages";
+import type { LayoutPage } from "../../shared/types";
+import { WIDGETS } from "../dashboard/dashboard";
+import { TemplatePreview } from "./templates";
+
+const fileNameFor = (name: string) =>
+  `${name.trim().replace(/[^\w-]+/g, "-").replace(/^-+|-+$/g, "").toLowerCase() || "gidit-pages"}.${PACKAGE_EXTENSION}`;
+
+const widgetCount = (page: LayoutPage) => `${page.items.length} ${page.items.length === 1 ? "widget" : "widgets"}`;
+
+type ExportPackageDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  pages: LayoutPage[];
+  /** Selected at first, and the package's default name. */
+  activePageId: string;
+};
+
+/** Save some of the pages as a .gidit package; what their widgets keep goes in only when asked. */
+export function ExportPackageDialog({ open, onOpenChange, pages, activePageId }: ExportPackageDialogProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [includeData, setIncludeData] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  // Each export starts from the page being shown, without personal data
+  useEffect(() => {
+    if (!open) return;
+    setSelected([activePageId]);
+    setName(pages.find((page) => page.id === activePageId)?.name ?? "");
+    setDescription("");
+    setIncludeData(false);
+  }, [open]);
+
+  const toggle = (pageId: string, checked: boolean) => {
+    setSelected((prev) => (checked ? [...prev, pageId] : prev.filter((id) => id !== pageId)));
+  };
+
+  const handleExport = async () => {
+    setBusy(true);
+    try {
+      const dataBase64 = await exportPackage({
+        name: name.trim(),
+        description,
+        pages: pages.filter((page) => selected.includes(page.id)),
+        includeData,
+      });
+      const { saved } = await invoke("files:save", { fileName: fileNameFor(name), mimeType: "application/zip", dataBase64 });
+      if (saved) {
+        toast({ title: "Package Saved", description: `"${name.trim()}" is ready to share.` });
+        onOpenChange(false);
+      }
+    } catch (err) {
+      console.error(err);
+      const description = (err as Error)?.message ?? "Unable to save the package.";
+      toast({ title: "Export Failed", description, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Export Pages</DialogTitle>
+          <DialogDescription>Save pages as a .gidit package that can be imported on any computer.</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor="package-name">Name</Label>
+            <Input id="package-name" value={name} onChange={(e) => setName(e.target.value)} maxLength={200} />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="package-description">Description</Label>
+            <Textarea
+              id="package-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What is this layout for?"
+              maxLength={2000}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label>Pages</Label>
+            <ScrollArea className="max-h-40 rounded-md border">
+              <div className="grid gap-2 p-3">
+                {pages.map((page) => (
+                  <label key={page.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={selected.includes(page.id)}
+                      onCheckedChange={(checked) => toggle(page.id, checked === true)}
+                    />
+                    <span className="flex-grow truncate">{page.name}</span>
+                    <span className="text-muted-foreground">{widgetCount(page)}</span>
+                  </label>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+          <div className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+            <div>
+              <h4 className="font-medium">Include widget data</h4>
+              <p className="text-sm text-muted-foreground">
+                Notes, entries and everything else the widgets hold. Leave this off to share only the layout.
+              </p>
+            </div>
+            <Switch checked={includeData} onCheckedChange={setIncludeData} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={busy || selected.length === 0 || !name.trim()}>
+            {busy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export type PackageToImport = {
+  fileName: string;
+  dataBase64: string;
+  preview: PackagePreview;
+};
+
+type ImportPackageDialogProps = {
+  /** The dialog is open while there is a package to look at. */
+  pkg: PackageToImport | null;
+  onClose: () => void;
+  /** The package's pages under new ids, to add to the builder. */
+  onImport: (pages: LayoutPage[]) => void;
+};
+
+/** What a package holds, before anything is added; its widget data only comes along when asked. */
+export function ImportPackageDialog({ pkg, onClose, onImport }: ImportPackageDialogProps) {
+  const [includeData, setIncludeData] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setIncludeData(false);
+  }, [pkg]);
+
+  if (!pkg) return null;
+  const { manifest, pages, widgetsWithData } = pkg.preview;
+  const unknownWidgets = pages.flatMap((page) => page.items).filter((item) => !(item.widgetId in WIDGETS)).length;
+
+  const handleImport = async () => {
+    setBusy(true);
+    try {
+      onImport(await importPackage(pkg.dataBase64, includeData));
+      onClose();
+    } catch (err) {
+      console.error(err);
+      const description = (err as Error)?.message ?? "Unable to import the package.";
+      toast({ title: "Import Failed", description, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>{manifest.name || pkg.fileName}</DialogTitle>
+          <DialogDescription>
+            {manifest.description || `${pages.length} ${pages.length === 1 ? "page" : "pages"} from ${pkg.fileName}.`}
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-80">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 pr-3">
+            {pages.map((page) => (
+              <div key={page.id} className="grid gap-2">
+                <TemplatePreview items={page.items} columns={page.columns} />
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium truncate">{page.name}</span>
+                  <span className="text-muted-foreground">{widgetCount(page)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+        {unknownWidgets > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {unknownWidgets} {unknownWidgets === 1 ? "widget is" : "widgets are"} not available in this version and
+            will show as a placeholder.
+          </p>
+        )}
+        <div className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+          <div>
+            <h4 className="font-medium">Include widget data</h4>
+            <p className="text-sm text-muted-foreground">
+              {widgetsWithData > 0
+                ? `${widgetsWithData} ${widgetsWithData === 1 ? "widget comes" : "widgets come"} with notes, entries or other data. Leave this off to start them empty.`
+                : "This package holds only the layout."}
+            </p>
+          </div>
+          <Switch checked={includeData} onCheckedChange={setIncludeData} disabled={widgetsWithData === 0} />
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={busy}>
+            {busy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Add {pages.length === 1 ? "Page" : `${pages.length} Pages`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
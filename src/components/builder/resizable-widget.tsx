@@ -1,14 +1,19 @@
-import React, { useState, useCallback, cloneElement } from 'react';
+import React, { useState, useCallback, useMemo, cloneElement } from 'react';
 import { WIDGETS } from "../../../app/renderer/src/components/dashboard/dashboard";
 import { WidgetWrapper } from "./widget-wrapper";
 import { cn } from "../../lib/utils";
-import { useSortable } from '@dnd-kit/sortable';
-import { CSS } from '@dnd-kit/utilities';
+import { useDraggable, useDndMonitor } from '@dnd-kit/core';
 import type { Item } from './builder';
+import { WidgetInstanceContext, useWorkspace } from './workspace-context';
+import { MissingWidget } from './missing-widget';
+import { MAX_HEIGHT, type GridRect } from '../../shared/grid';
 
 type ResizableWidgetProps = Item & {
+    pageId: string;
+    columns: number;
     onRemove: (id: string) => void;
-    onSizeChange: (id: string, newSize: { width: number; height: number }) => void;
+    onSizeChange: (id: string, rect: Partial<GridRect>) => void;
+    onMove: (id: string, position: { x: number; y: number }) => void;
     onNameChange: (id: string, newName: string) => void;
     onPropChange: (id: string, newProps: Record<string, any>) => void;
 };
@@ -16,27 +21,59 @@ type ResizableWidgetProps = Item & {
 const CELL_HEIGHT = 120; // Corresponds to auto-rows-[120px]
 const GAP = 16; // Corresponds to gap-4
 
+/** The edge (or corner) a resize handle drags. */
+type Edge = 'n' | 'e' | 's' | 'w' | 'se';
+
+const EDGE_HANDLES: Record<Edge, string> = {
+    n: 'top-0 left-0 w-full h-2 cursor-ns-resize',
+    e: 'top-0 right-0 h-full w-2 cursor-ew-resize',
+    s: 'bottom-0 left-0 w-full h-2 cursor-ns-resize',
+    w: 'top-0 left-0 h-full w-2 cursor-ew-resize',
+    se: 'bottom-0 right-0 w-4 h-4 cursor-se-resize',
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/** How far apart neighbouring cells of the grid holding `node` are, in pixels. */
+function gridStep(node: Element | null, columns: number) {
+    const grid = node?.closest('[data-builder-grid]');
+    if (!grid) return null;
+    const { width } = grid.getBoundingClientRect();
+    return { x: (width - (columns - 1) * GAP) / columns + GAP, y: CELL_HEIGHT + GAP };
+}
+
+const gridArea = ({ x, y, width, height }: GridRect): React.CSSProperties => ({
+    gridColumn: `${x + 1} / span ${width}`,
+    gridRow: `${y + 1} / span ${height}`,
+});
+
 export function ResizableWidget({
     id,
+    pageId,
+    columns,
     widgetId,
     name,
+    x,
+    y,
     width,
     height,
     onRemove,
     onSizeChange,
+    onMove,
     onNameChange,
     onPropChange,
     ...props
 }: ResizableWidgetProps) {
     const [isResizing, setIsResizing] = useState(false);
+    // Where the widget would land if dropped now, while it is being dragged
+    const [dropTarget, setDropTarget] = useState<{ x: number; y: number } | null>(null);
     const {
         attributes,
         listeners,
         setNodeRef,
-        transform,
-        transition,
+        node,
         isDragging
-    } = useSortable({
+    } = useDraggable({
         id,
         disabled: isResizing,
         data: {
@@ -45,41 +82,69 @@ export function ResizableWidget({
         }
     });
 
+    const instance = useMemo(() => ({ itemId: id, pageId, widgetId }), [id, pageId, widgetId]);
+    const { highlightedItemId } = useWorkspace();
+
     const widget = WIDGETS[widgetId];
 
-    // Gracefully handle cases where a widgetId from persisted state might not exist anymore.
-    if (!widget) {
-        return null;
-    }
+    const cellAt = (delta: { x: number; y: number }) => {
+        const step = gridStep(node.current, columns);
+        if (!step) return null;
+        return {
+            x: clamp(x + Math.round(delta.x / step.x), 0, columns - width),
+            y: Math.max(0, y + Math.round(delta.y / step.y)),
+        };
+    };
 
-    const handleResizeStart = useCallback((e: React.PointerEvent) => {
+    useDndMonitor({
+        onDragMove({ active, delta }) {
+            if (active.id !== id) return;
+            const next = cellAt(delta);
+            setDropTarget((current) => (current?.x === next?.x && current?.y === next?.y ? current : next));
+        },
+        onDragEnd({ active, delta }) {
+            if (active.id !== id) return;
+            setDropTarget(null);
+            const next = cellAt(delta);
+            if (next && (next.x !== x || next.y !== y)) onMove(id, next);
+        },
+        onDragCancel({ active }) {
+            if (active.id === id) setDropTarget(null);
+        },
+    });
+
+    const handleResizeStart = useCallback((edge: Edge) => (e: React.PointerEvent) => {
         e.preventDefault();
         e.stopPropagation();
-        setIsResizing(true);
 
-        const grid = (e.target as HTMLElement).closest('.grid');
-        if (!grid) return;
+        const step = gridStep(e.currentTarget, columns);
+        if (!step) return;
+        setIsResizing(true);
 
-        const gridRect = grid.getBoundingClientRect();
-        const startWidth = width;
-        const startHeight = height;
+        const start = { x, y, width, height };
         const startX = e.clientX;
         const startY = e.clientY;
-
-        const cellWidth = (gridRect.width - (3 * GAP)) / 4;
+        let last = start;
 
         const handlePointerMove = (moveEvent: PointerEvent) => {
-            const dx = moveEvent.clientX - startX;
-            const dy = moveEvent.clientY - startY;
-
-            const widthChange = Math.round(dx / (cellWidth + GAP));
-            const heightChange = Math.round(dy / (CELL_HEIGHT + GAP));
-
-            const newWidth = Math.max(1, Math.min(4, startWidth + widthChange));
-            const newHeight = Math.max(1, Math.min(8, startHeight + heightChange));
+            const dx = Math.round((moveEvent.clientX - startX) / step.x);
+            const dy = Math.round((moveEvent.clientY - startY) / step.y);
+            const next = { ...start };
+
+            if (edge === 'e' || edge === 'se') next.width = clamp(start.width + dx, 1, columns - start.x);
+            if (edge === 's' || edge === 'se') next.height = clamp(start.height + dy, 1, MAX_HEIGHT);
+            if (edge === 'w') {
+                next.x = clamp(start.x + dx, 0, start.x + start.width - 1);
+                next.width = start.x + start.width - next.x;
+            }
+            if (edge === 'n') {
+                next.y = clamp(start.y + dy, Math.max(0, start.y + start.height - MAX_HEIGHT), start.y + start.height - 1);
+                next.height = start.y + start.height - next.y;
+            }
 
-            if (newWidth !== width || newHeight !== height) {
-                onSizeChange(id, { width: newWidth, height: newHeight });
+            if (next.x !== last.x || next.y !== last.y || next.width !== last.width || next.height !== last.height) {
+                last = next;
+                onSizeChange(id, next);
             }
         };
 
@@ -91,49 +156,85 @@ export function ResizableWidget({
 
         window.addEventListener('pointermove', handlePointerMove);
         window.addEventListener('pointerup', handlePointerUp);
-    }, [width, height, onSizeChange, id]);
+    }, [x, y, width, height, columns, onSizeChange, id]);
 
-    const style: React.CSSProperties = {
-        gridColumn: `span ${width}`,
-        gridRow: `span ${height}`,
-        transform: CSS.Transform.toString(transform),
-        transition: isResizing ? 'none' : transition,
-    };
+    const style: React.CSSProperties = gridArea({ x, y, width, height });
+
+    const dropPreview = dropTarget && (
+        <div
+            aria-hidden
+            className="rounded-lg border-2 border-dashed border-primary/60 pointer-events-none"
+            style={gridArea({ ...dropTarget, width, height })}
+        />
+    );
+
+    // A saved widget this version does not have keeps its place until the user removes it
+    if (!widget) {
+        return (
+            <>
+                <div
+                    ref={setNodeRef}
+                    style={style}
+                    data-widget-item={id}
+                    className={cn("relative", isDragging && "opacity-50 z-10")}
+                    {...attributes}
+                    {...listeners}
+                >
+                    <MissingWidget widgetId={widgetId} name={name} onRemove={() => onRemove(id)} />
+                </div>
+                {dropPreview}
+            </>
+        );
+    }
 
     const displayName = name || widget.name;
     const componentWithProps = cloneElement(widget.component, { width, height, name: displayName, ...props });
 
     return (
-        <div
-            ref={setNodeRef}
-            style={style}
-            className={cn(
-                "relative transition-all",
-                isDragging && "opacity-50 z-10",
-            )}
-        >
-            <WidgetWrapper
-                id={id}
-                widgetId={widgetId}
-                name={name}
-                width={width}
-                height={height}
-                onRemove={onRemove}
-                onSizeChange={onSizeChange}
-                onNameChange={onNameChange}
-                onPropChange={onPropChange}
-                {...props}
-                {...attributes}
-                {...listeners}
-            >
-                {componentWithProps}
-            </WidgetWrapper>
+        <>
             <div
-                className="absolute bottom-0 right-0 w-4 h-4 cursor-se-resize z-20"
-                onPointerDown={handleResizeStart}
+                ref={setNodeRef}
+                style={style}
+                data-widget-item={id}
+                className={cn(
+                    "relative rounded-lg",
+                    !isResizing && "transition-all",
+                    isDragging && "opacity-50 z-10",
+                    highlightedItemId === id && "ring-4 ring-primary ring-offset-2 ring-offset-background z-10",
+                )}
             >
-                <div className="w-2 h-2 border-r-2 border-b-2 border-muted-foreground absolute bottom-1 right-1" />
+                <WidgetWrapper
+                    id={id}
+                    widgetId={widgetId}
+                    name={name}
+                    width={width}
+                    height={height}
+                    columns={columns}
+                    onRemove={onRemove}
+                    onSizeChange={onSizeChange}
+                    onNameChange={onNameChange}
+                    onPropChange={onPropChange}
+                    {...props}
+                    {...attributes}
+                    {...listeners}
+                >
+                    <WidgetInstanceContext.Provider value={instance}>
+                        {componentWithProps}
+                    </WidgetInstanceContext.Provider>
+                </WidgetWrapper>
+                {(Object.keys(EDGE_HANDLES) as Edge[]).map((edge) => (
+                    <div
+                        key={edge}
+                        className={cn("absolute z-20", EDGE_HANDLES[edge])}
+                        onPointerDown={handleResizeStart(edge)}
+                    >
+                        {edge === 'se' && (
+                            <div className="w-2 h-2 border-r-2 border-b-2 border-muted-foreground absolute bottom-1 right-1" />
+                        )}
+                    </div>
+                ))}
             </div>
-        </div>
+            {dropPreview}
+        </>
     );
 }
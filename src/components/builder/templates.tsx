@@ -2,16 +2,21 @@ import { templates, type Template } from "./template-data";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../ui/card";
 import { Button } from "../../../0renderer/src/components/ui/button";
 import { ScrollArea } from "../ui/scroll-area";
-import type { Item } from "./builder";
-import { WIDGETS } from "../dashboard/dashboard";
+import { WIDGETS, type WidgetId } from "../dashboard/dashboard";
 import { cloneElement } from "react";
+import { Download, Upload } from "lucide-react";
 import { cn } from "../../lib/utils";
 
 type TemplatePreviewProps = {
-  items: Omit<Item, "id">[];
+  /** Widgets with a grid position (`x`, `y`) are shown there; the rest flow in order. */
+  items: { widgetId: string; width: number; height: number; x?: number; y?: number }[];
+  columns?: number;
 };
 
-function TemplatePreview({ items }: TemplatePreviewProps) {
+// Templates and imported packages may name widgets this build doesn't have.
+const isWidgetId = (id: string): id is WidgetId => id in WIDGETS;
+
+export function TemplatePreview({ items, columns = 4 }: TemplatePreviewProps) {
   // Define a smaller base size for the preview grid cells
   const cellHeight = 30; // 1/4 of the real canvas cell height
   const gap = 4; // 1/4 of the real canvas gap
@@ -33,23 +38,24 @@ function TemplatePreview({ items }: TemplatePreviewProps) {
       style={{ height: `${containerHeight}px` }}
     >
       <div
-        className="grid grid-cols-4"
+        className="grid"
         style={{
           gap: `${gap}px`,
           gridAutoRows: `${cellHeight}px`,
+          gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
         }}
       >
         {items.map((item, index) => {
+          if (!isWidgetId(item.widgetId)) return null;
           const widget = WIDGETS[item.widgetId];
-          if (!widget) return null;
 
           return (
             <div
               key={index}
               className="bg-background rounded-sm border overflow-hidden"
               style={{
-                gridColumn: `span ${item.width}`,
-                gridRow: `span ${item.height}`,
+                gridColumn: item.x === undefined ? `span ${item.width}` : `${item.x + 1} / span ${item.width}`,
+                gridRow: item.y === undefined ? `span ${item.height}` : `${item.y + 1} / span ${item.height}`,
               }}
             >
               <div className="origin-top-left pointer-events-none" style={{ transform: "scale(0.15)", transformOrigin: "0 0" }}>
@@ -67,14 +73,33 @@ function TemplatePreview({ items }: TemplatePreviewProps) {
 
 type TemplatesProps = {
   onUseTemplate: (template: Template) => void;
+  /** Share pages as a .gidit package, and add pages from one; without them the buttons are hidden. */
+  onExportPages?: () => void;
+  onImportPackage?: () => void;
 };
 
-export function Templates({ onUseTemplate }: TemplatesProps) {
+export function Templates({ onUseTemplate, onExportPages, onImportPackage }: TemplatesProps) {
   return (
     <div className="flex flex-col h-full">
-      <header className="p-4 border-b">
-        <h1 className="text-xl font-bold">Template Gallery</h1>
-        <p className="text-muted-foreground text-sm">Choose a starting point for your new page.</p>
+      <header className="p-4 border-b flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-bold">Template Gallery</h1>
+          <p className="text-muted-foreground text-sm">Choose a starting point for your new page.</p>
+        </div>
+        <div className="flex gap-2">
+          {onImportPackage && (
+            <Button variant="outline" onClick={onImportPackage}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import Package
+            </Button>
+          )}
+          {onExportPages && (
+            <Button variant="outline" onClick={onExportPages}>
+              <Download className="w-4 h-4 mr-2" />
+              Export Pages
+            </Button>
+          )}
+        </div>
       </header>
       <ScrollArea className="flex-grow">
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 p-6">
@@ -17,6 +17,7 @@ import {
   SelectValue,
 } from "../../../app/renderer/src/components/ui/select";
 import { RadioGroup, RadioGroupItem } from "../../../app/renderer/src/components/ui/radio-group";
+import { DEFAULT_COLUMNS, MAX_HEIGHT, type GridRect } from "../../shared/grid";
 
 type WidgetWrapperProps = {
   children: React.ReactNode;
@@ -25,8 +26,10 @@ type WidgetWrapperProps = {
   name?: string;
   width: number;
   height: number;
+  /** Columns of the page's grid, the widest the widget can be. */
+  columns?: number;
   onRemove: (id: string) => void;
-  onSizeChange: (id: string, newSize: { width: number; height: number }) => void;
+  onSizeChange: (id: string, rect: Partial<GridRect>) => void;
   onNameChange: (id: string, newName: string) => void;
   onPropChange: (id: string, newProps: Record<string, any>) => void;
   isOverlay?: boolean;
@@ -55,6 +58,7 @@ export function WidgetWrapper({
   name,
   width,
   height,
+  columns = DEFAULT_COLUMNS,
   onRemove,
   onSizeChange,
   onNameChange,
@@ -144,7 +148,7 @@ export function WidgetWrapper({
                 size="icon"
                 variant="outline"
                 className="h-6 w-6"
-                onClick={() => onSizeChange(id, { width: Math.min(4, width + 1), height })}
+                onClick={() => onSizeChange(id, { width: Math.min(columns, width + 1), height })}
               >
                 <Plus className="h-3 w-3" />
               </Button>
@@ -167,7 +171,7 @@ export function WidgetWrapper({
                 size="icon"
                 variant="outline"
                 className="h-6 w-6"
-                onClick={() => onSizeChange(id, { width, height: Math.min(8, height + 1) })}
+                onClick={() => onSizeChange(id, { width, height: Math.min(MAX_HEIGHT, height + 1) })}
               >
                 <Plus className="h-3 w-3" />
               </Button>
@@ -0,0 +1,37 @@
+import { createContext, useContext } from "react";
+
+/**
+ * The builder item a widget is rendered for. Widgets use it to tell their data apart from
+ * other copies of the same widget (e.g. two to-do lists). Null outside the canvas, such
+ * as in sidebar previews and while dragging.
+ */
+export type WidgetInstance = {
+  itemId: string;
+  pageId: string;
+  widgetId: string;
+};
+
+export const WidgetInstanceContext = createContext<WidgetInstance | null>(null);
+
+export const useWidgetInstance = () => useContext(WidgetInstanceContext);
+
+/** A widget to bring into view. The item id wins; the page or widget kind are fallbacks. */
+export type RevealTarget = {
+  pageId?: string | null;
+  itemId?: string | null;
+  widgetId?: string | null;
+};
+
+export type Workspace = {
+  /** Switch to the widget's page and highlight it; false when it is on no page. */
+  revealWidget: (target: RevealTarget) => boolean;
+  /** Builder item currently highlighted by `revealWidget`. */
+  highlightedItemId: string | null;
+};
+
+export const WorkspaceContext = createContext<Workspace>({
+  revealWidget: () => false,
+  highlightedItemId: null,
+});
+
+export const useWorkspace = () => useContext(WorkspaceContext);
@@ -1,19 +1,127 @@
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../ui/card";
 import { Input } from "../ui/input";
-import { Button } from "../ui/button";
-import { Search } from "lucide-react";
+import { ScrollArea } from "../ui/scroll-area";
+import { CalendarClock, Loader2, Search } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "../../hooks/use-toast";
+import { hasBridge } from "../../services/ipc";
+import { searchEverything, splitMatches, stripMatches, type SearchResponse, type SearchResult } from "../../services/search";
+import { INDEX_SOURCE_LABELS, type IndexSource } from "../../shared/types";
+import { useWorkspace } from "../builder/workspace-context";
 
 type AppSearchProps = {
   name?: string;
 };
 
+/** Keystrokes within this window make one search. */
+const SEARCH_DELAY_MS = 200;
+
+/** The widget that shows items of a kind, for items indexed without a location (DB tasks). */
+const SOURCE_WIDGETS: Partial<Record<IndexSource, string>> = {
+  task: "ToDoList",
+  note: "NoteDisplay",
+  "sticky-note": "StickyNoteBoard",
+  flashcard: "FlashcardDeck",
+  document: "DocumentRecords",
+  transaction: "RecentTransactions",
+  reminder: "TimersAndReminders",
+  gallery: "Gallery",
+};
+
+function Marked({ text }: { text: string }) {
+  return (
+    <>
+      {splitMatches(text).map((part, i) =>
+        part.match ? (
+          <mark key={i} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+            {part.text}
+          </mark>
+        ) : (
+          <React.Fragment key={i}>{part.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
+
 export function AppSearch({ name = "App Search" }: AppSearchProps) {
   const [searchQuery, setSearchQuery] = useState<string>("");
+  const [response, setResponse] = useState<SearchResponse | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+  const { revealWidget } = useWorkspace();
+  const { toast } = useToast();
+  const available = hasBridge();
 
-  const handleSearch = () => {
-    // Trigger local search logic or IPC to main process here.
-    console.log("Searching for:", searchQuery);
+  const results: SearchResult[] = response?.groups.flatMap((group) => group.results) ?? [];
+  /** Position of each result in keyboard order. */
+  const positions = new Map(results.map((result, i) => [result, i]));
+
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query || !available) {
+      setResponse(null);
+      setError(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const found = await searchEverything(query);
+        if (cancelled) return;
+        setResponse(found);
+        setError(null);
+        setActiveIndex(0);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, available]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-result-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  const openResult = (result: SearchResult) => {
+    const found = revealWidget({
+      pageId: result.location?.pageId,
+      itemId: result.location?.itemId,
+      widgetId: result.location?.widgetId ?? SOURCE_WIDGETS[result.source],
+    });
+    if (!found) {
+      toast({
+        title: "Not on any page",
+        description: `Add a widget that shows "${stripMatches(result.title)}" to open it from search.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" && results.length > 0) {
+      e.preventDefault();
+      setActiveIndex((i) => (i + 1) % results.length);
+    } else if (e.key === "ArrowUp" && results.length > 0) {
+      e.preventDefault();
+      setActiveIndex((i) => (i - 1 + results.length) % results.length);
+    } else if (e.key === "Enter" && results[activeIndex]) {
+      e.preventDefault();
+      openResult(results[activeIndex]);
+    } else if (e.key === "Escape") {
+      setSearchQuery("");
+    }
   };
 
   return (
@@ -27,19 +135,91 @@ export function AppSearch({ name = "App Search" }: AppSearchProps) {
           </div>
         </div>
       </CardHeader>
-      <CardContent className="flex flex-col flex-grow justify-center items-center gap-4">
-        <div className="w-full max-w-sm flex items-center space-x-2">
+      <CardContent className="flex flex-col flex-grow min-h-0 gap-3">
+        <div className="relative">
           <Input
             type="text"
-            placeholder="Find anything..."
+            placeholder="Find anything... e.g. type:task tag:work due:<friday"
             value={searchQuery}
             onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchQuery(e.target.value)}
-            onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+            onKeyDown={handleKeyDown}
+            role="combobox"
+            aria-expanded={results.length > 0}
+            aria-controls="app-search-results"
+            aria-activedescendant={results.length > 0 ? `app-search-result-${activeIndex}` : undefined}
+            disabled={!available}
           />
-          <Button onClick={handleSearch} aria-label="Search">
-            <Search className="w-4 h-4" />
-          </Button>
+          {isSearching && (
+            <Loader2 className="w-4 h-4 animate-spin absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          )}
         </div>
+
+        {!available && (
+          <p className="text-sm text-muted-foreground">Search is available in the desktop app.</p>
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {response && response.ignored.length > 0 && (
+          <p className="text-xs text-muted-foreground">Not understood, left out: {response.ignored.join(", ")}</p>
+        )}
+        {response && response.total === 0 && !isSearching && (
+          <p className="text-sm text-muted-foreground">Nothing found.</p>
+        )}
+
+        {results.length > 0 && (
+          <ScrollArea className="flex-grow min-h-0">
+            <div id="app-search-results" role="listbox" ref={listRef} className="space-y-4 pr-2">
+              {response!.groups.map((group) => (
+                <div key={group.source} role="group" aria-label={INDEX_SOURCE_LABELS[group.source]}>
+                  <div className="flex items-center justify-between px-2 pb-1 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                    <span>{INDEX_SOURCE_LABELS[group.source]}</span>
+                    <span>
+                      {group.results.length < group.total ? `${group.results.length} of ${group.total}` : group.total}
+                    </span>
+                  </div>
+                  {group.results.map((result) => {
+                    const i = positions.get(result) ?? 0;
+                    return (
+                      <div
+                        key={`${result.source}:${result.id}`}
+                        id={`app-search-result-${i}`}
+                        data-result-index={i}
+                        role="option"
+                        aria-selected={i === activeIndex}
+                        onMouseEnter={() => setActiveIndex(i)}
+                        onClick={() => openResult(result)}
+                        className={`cursor-pointer rounded-md px-2 py-1.5 ${i === activeIndex ? "bg-accent text-accent-foreground" : ""}`}
+                      >
+                        <div className="text-sm font-medium truncate">
+                          <Marked text={result.title || "(untitled)"} />
+                        </div>
+                        {result.snippet && (
+                          <div className="text-xs text-muted-foreground line-clamp-2">
+                            <Marked text={result.snippet} />
+                          </div>
+                        )}
+                        {(result.tags.length > 0 || result.due) && (
+                          <div className="flex flex-wrap items-center gap-1 pt-1">
+                            {result.due && (
+                              <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+                                <CalendarClock className="w-3 h-3" />
+                                {format(new Date(result.due), "EEE MMM d, p")}
+                              </span>
+                            )}
+                            {result.tags.map((tag) => (
+                              <span key={tag} className="rounded-full border px-2 text-[10px] text-muted-foreground">
+                                {tag}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
       </CardContent>
     </Card>
   );
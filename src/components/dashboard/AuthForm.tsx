@@ -1,22 +1,54 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Button } from "../ui/button";
 import { Card, CardContent } from "../ui/card";
 import { Input } from "../ui/input";
 import { Label } from "../ui/label";
 import { GiditLogo } from "../icons/gidit-logo";
-import { login, register } from "../../services/auth";
+import { ProfileAvatar } from "../layout/profile-switcher";
+import { login, logout, recover, register } from "../../services/auth";
+import { hasBridge } from "../../services/ipc";
+import { listProfiles, type ProfileSummary } from "../../services/profiles";
 
-export function AuthForm() {
-  const [email, setEmail] = useState("");
+type AuthFormProps = {
+  /** Set when a restored session only needs the password to unlock the encrypted data. */
+  lockedUsername?: string;
+  /** Gets the recovery codes of a new account; the form is gone by then, so the caller shows them. */
+  onRegistered?: (recoveryCodes: string[]) => void;
+};
+
+export function AuthForm({ lockedUsername, onRegistered }: AuthFormProps = {}) {
+  const [email, setEmail] = useState(lockedUsername ?? "");
   const [password, setPassword] = useState("");
+  // Resetting a forgotten password with a recovery code
+  const [recovering, setRecovering] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [confirm, setConfirm] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [profiles, setProfiles] = useState<ProfileSummary[]>([]);
+  const passwordRef = useRef<HTMLInputElement>(null);
+
+  // Profiles on this computer, to pick one instead of typing its username
+  useEffect(() => {
+    if (lockedUsername || !hasBridge()) return;
+    listProfiles()
+      .then(setProfiles)
+      .catch((err) => console.error("Failed to list profiles", err));
+  }, [lockedUsername]);
+
+  const pickProfile = (profile: ProfileSummary) => {
+    setEmail(profile.username);
+    setPassword("");
+    setError(null);
+    passwordRef.current?.focus();
+  };
 
   const handleEmailSignIn = async () => {
     setError(null);
     setLoading(true);
     try {
-      await login(email.trim(), password);
+      const result = await login(email.trim(), password);
+      if (!result.success) setError(result.error);
     } catch (err: any) {
       setError(err?.message ?? String(err));
     } finally {
@@ -28,7 +60,9 @@ export function AuthForm() {
     setError(null);
     setLoading(true);
     try {
-      await register(email.trim(), password);
+      const result = await register(email.trim(), password);
+      if (result.success) onRegistered?.(result.recoveryCodes);
+      else setError(result.error);
     } catch (err: any) {
       setError(err?.message ?? String(err));
     } finally {
@@ -36,6 +70,28 @@ export function AuthForm() {
     }
   };
 
+  const handleRecover = async () => {
+    if (password !== confirm) return setError("The new passwords do not match.");
+    setError(null);
+    setLoading(true);
+    try {
+      const result = await recover(email.trim(), recoveryCode, password);
+      if (!result.success) setError(result.error);
+    } catch (err: any) {
+      setError(err?.message ?? String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleRecovering = () => {
+    setRecovering(!recovering);
+    setPassword("");
+    setConfirm("");
+    setRecoveryCode("");
+    setError(null);
+  };
+
   return (
     <div className="relative overflow-hidden flex items-center justify-center min-h-screen bg-cream">
       {/* Subtle base light to keep the ellipse shape consistent */}
@@ -53,11 +109,37 @@ export function AuthForm() {
       <Card className="relative z-50 w-full max-w-md p-8 space-y-6 shadow-lg shadow-purple-600/20 bg-white">
         <div className="flex flex-col items-center text-center">
           <GiditLogo className="w-12 h-12 mb-4" />
-          <h1 className="text-3xl font-bold">Welcome to Gidit</h1>
-          <p className="text-muted-foreground">Sign in to continue to your dashboard</p>
+          <h1 className="text-3xl font-bold">
+            {recovering ? "Reset your password" : lockedUsername ? "Welcome back" : "Welcome to Gidit"}
+          </h1>
+          <p className="text-muted-foreground">
+            {recovering
+              ? "Use one of your recovery codes to set a new password"
+              : lockedUsername
+                ? "Enter your password to unlock your data"
+                : "Sign in to continue to your dashboard"}
+          </p>
         </div>
 
         <CardContent className="p-0 space-y-6">
+          {profiles.length > 0 && (
+            <div className="flex flex-wrap justify-center gap-4">
+              {profiles.map((profile) => (
+                <button
+                  key={profile.id}
+                  type="button"
+                  onClick={() => pickProfile(profile)}
+                  className={`flex w-20 flex-col items-center gap-1 rounded-lg p-2 hover:bg-secondary ${
+                    email === profile.username ? "bg-secondary" : ""
+                  }`}
+                >
+                  <ProfileAvatar profile={profile} className="h-12 w-12 text-lg" />
+                  <span className="w-full truncate text-center text-xs">{profile.displayName}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
           <div className="relative">
             <div className="absolute inset-0 flex items-center">
               <span className="w-full border-t" />
@@ -76,40 +158,100 @@ export function AuthForm() {
                 placeholder="Enter email"
                 value={email}
                 onChange={(e) => setEmail(e.target.value)}
+                readOnly={!!lockedUsername}
                 className="bg-input border-none"
               />
             </div>
+            {recovering && (
+              <div className="space-y-2 text-left">
+                <Label htmlFor="recovery-code">Recovery code</Label>
+                <Input
+                  id="recovery-code"
+                  placeholder="XXXX-XXXX-XXXX-XXXX"
+                  autoComplete="off"
+                  value={recoveryCode}
+                  onChange={(e) => setRecoveryCode(e.target.value)}
+                  className="bg-input border-none font-mono"
+                />
+              </div>
+            )}
             <div className="space-y-2 text-left">
-              <Label htmlFor="password">Password</Label>
+              <Label htmlFor="password">{recovering ? "New password" : "Password"}</Label>
               <Input
                 id="password"
+                ref={passwordRef}
                 type="password"
-                placeholder="Enter password"
+                placeholder={recovering ? "Enter a new password" : "Enter password"}
+                autoComplete={recovering ? "new-password" : "current-password"}
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
                 className="bg-input border-none"
               />
             </div>
+            {recovering && (
+              <div className="space-y-2 text-left">
+                <Label htmlFor="password-confirm">Repeat new password</Label>
+                <Input
+                  id="password-confirm"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirm}
+                  onChange={(e) => setConfirm(e.target.value)}
+                  className="bg-input border-none"
+                />
+              </div>
+            )}
           </div>
 
           {error && <p className="text-sm text-center text-destructive">{error}</p>}
 
-          <div className="grid grid-cols-2 gap-4">
-            <Button
-              className="w-full bg-violet-700/90 text-white"
-              onClick={handleEmailSignIn}
-              disabled={loading || !email || !password}
-            >
-              {loading ? "Signing In..." : "Sign In"}
-            </Button>
-            <Button
-              className="w-full bg-gray-200"
-              onClick={handleEmailSignUp}
-              disabled={loading || !email || !password}
+          {recovering ? (
+            <div className="grid grid-cols-2 gap-4">
+              <Button
+                className="w-full bg-violet-700/90 text-white"
+                onClick={handleRecover}
+                disabled={loading || !email || !recoveryCode || !password}
+              >
+                {loading ? "Resetting..." : "Reset Password"}
+              </Button>
+              <Button className="w-full bg-gray-200" onClick={toggleRecovering} disabled={loading}>
+                Back
+              </Button>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <Button
+                className="w-full bg-violet-700/90 text-white"
+                onClick={handleEmailSignIn}
+                disabled={loading || !email || !password}
+              >
+                {loading ? "Signing In..." : lockedUsername ? "Unlock" : "Sign In"}
+              </Button>
+              {lockedUsername ? (
+                <Button className="w-full bg-gray-200" onClick={() => logout()} disabled={loading}>
+                  Switch Account
+                </Button>
+              ) : (
+                <Button
+                  className="w-full bg-gray-200"
+                  onClick={handleEmailSignUp}
+                  disabled={loading || !email || !password}
+                >
+                  {loading ? "Registering..." : "Sign Up"}
+                </Button>
+              )}
+            </div>
+          )}
+
+          {!recovering && (
+            <button
+              type="button"
+              className="w-full text-sm text-muted-foreground hover:underline"
+              onClick={toggleRecovering}
             >
-              {loading ? "Registering..." : "Sign Up"}
-            </Button>
-          </div>
+              Forgot password?
+            </button>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -21,28 +21,36 @@ import { Label } from "../ui/label";
 import { Progress } from "../ui/progress";
 import { PiggyBank, Pencil, ShoppingCart, Car, Clapperboard, Home } from "lucide-react";
 import { ScrollArea } from "../ui/scroll-area";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 type Category = {
   id: string;
   name: string;
   budgeted: number;
   spent: number;
-  icon: React.ReactNode;
 };
 
 const initialCategories: Category[] = [
-  { id: "cat1", name: "Groceries", budgeted: 500, spent: 275, icon: <ShoppingCart className="w-5 h-5 text-green-500" /> },
-  { id: "cat2", name: "Transport", budgeted: 150, spent: 90, icon: <Car className="w-5 h-5 text-blue-500" /> },
-  { id: "cat3", name: "Entertainment", budgeted: 200, spent: 220, icon: <Clapperboard className="w-5 h-5 text-purple-500" /> },
-  { id: "cat4", name: "Housing", budgeted: 1200, spent: 1200, icon: <Home className="w-5 h-5 text-orange-500" /> },
+  { id: "cat1", name: "Groceries", budgeted: 500, spent: 275 },
+  { id: "cat2", name: "Transport", budgeted: 150, spent: 90 },
+  { id: "cat3", name: "Entertainment", budgeted: 200, spent: 220 },
+  { id: "cat4", name: "Housing", budgeted: 1200, spent: 1200 },
 ];
 
+// Kept out of the categories so they can be saved
+const categoryIcons: Record<string, React.ReactNode> = {
+  cat1: <ShoppingCart className="w-5 h-5 text-green-500" />,
+  cat2: <Car className="w-5 h-5 text-blue-500" />,
+  cat3: <Clapperboard className="w-5 h-5 text-purple-500" />,
+  cat4: <Home className="w-5 h-5 text-orange-500" />,
+};
+
 type BudgetTrackerProps = {
   name?: string;
 };
 
 export function BudgetTracker({ name = "Budget Tracker" }: BudgetTrackerProps) {
-  const [categories, setCategories] = useState<Category[]>(initialCategories);
+  const [categories, setCategories] = useWidgetState<Category[]>("categories", initialCategories);
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
   const [newBudget, setNewBudget] = useState<number>(0);
 
@@ -95,7 +103,7 @@ export function BudgetTracker({ name = "Budget Tracker" }: BudgetTrackerProps) {
                 <div key={category.id}>
                     <div className="flex justify-between items-center mb-1">
                         <div className="flex items-center gap-2">
-                            {category.icon}
+                            {categoryIcons[category.id]}
                             <h5 className="text-sm font-medium">{category.name}</h5>
                         </div>
                         <div className="flex items-center gap-2">
@@ -11,24 +11,12 @@ import {
 } from "@dnd-kit/core";
 import { DayPicker, type DateFormatter } from "react-day-picker";
 import { CalendarDays, GripVertical } from "lucide-react";
-import { format, isSameDay } from "date-fns";
-import { v4 as uuidv4 } from "uuid";
+import { format } from "date-fns";
 
 import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
 import { cn } from "../../lib/utils";
-
-type Task = {
-  id: string;
-  title: string;
-  date: Date | null;
-};
-
-const initialTasks: Task[] = [
-  { id: uuidv4(), title: "Finalize presentation deck", date: null },
-  { id: uuidv4(), title: "Schedule dentist appointment", date: new Date() },
-  { id: uuidv4(), title: "Buy groceries for the week", date: null },
-  { id: uuidv4(), title: "Read one chapter of 'Atomic Habits'", date: new Date(Date.now() + 86400000 * 3) },
-];
+import { useTasks } from "../../hooks/use-tasks";
+import type { Task } from "../../services/tasks";
 
 function DraggableTask({ task }: { task: Task }) {
   const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
@@ -52,7 +40,23 @@ function DraggableTask({ task }: { task: Task }) {
       {...listeners}
     >
       <GripVertical className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-      <span className="flex-grow truncate">{task.title}</span>
+      <span className={cn("flex-grow truncate", task.status === "done" && "line-through text-muted-foreground")}>
+        {task.title}
+      </span>
+    </div>
+  );
+}
+
+/** Open tasks without a due date; dropping a task here clears its due date. */
+function UndatedTasks({ tasks }: { tasks: Task[] }) {
+  const { setNodeRef } = useDroppable({ id: "undated", data: { date: null } });
+  return (
+    <div ref={setNodeRef} className="mb-2 p-2 border border-dashed rounded-lg flex flex-wrap gap-2 min-h-[40px]">
+      {tasks.length === 0 ? (
+        <span className="text-xs text-muted-foreground self-center">Every open task has a due date.</span>
+      ) : (
+        tasks.map(task => <DraggableTask key={task.id} task={task} />)
+      )}
     </div>
   );
 }
@@ -64,7 +68,7 @@ type CalendarCardProps = {
 
 export function CalendarCard({ name = "Calendar", width = 2 }: CalendarCardProps) {
   const [date, setDate] = React.useState<Date | undefined>(new Date());
-  const [tasks, setTasks] = useState<Task[]>(initialTasks);
+  const { tasks, updateTask } = useTasks();
   const [activeTask, setActiveTask] = useState<Task | null>(null);
 
   const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 8 } }));
@@ -78,12 +82,11 @@ export function CalendarCard({ name = "Calendar", width = 2 }: CalendarCardProps
     const { over, active } = event;
     if (!over) return;
 
-    const droppedDate = over.data.current?.date as Date | undefined;
-    if (droppedDate) {
-      setTasks(prevTasks =>
-        prevTasks.map(task => (task.id === active.id ? { ...task, date: droppedDate } : task))
-      );
-    }
+    const task = tasks.find(t => t.id === active.id);
+    const droppedDate = over.data.current?.date as Date | null | undefined;
+    if (!task || droppedDate === undefined) return;
+    const dueDate = droppedDate && format(droppedDate, "yyyy-MM-dd");
+    if (task.dueDate !== dueDate) updateTask(task.id, { dueDate });
   };
 
   const DayContent = (props: { date: Date; displayMonth: Date }) => {
@@ -91,7 +94,7 @@ export function CalendarCard({ name = "Calendar", width = 2 }: CalendarCardProps
       id: format(props.date, "yyyy-MM-dd"),
       data: { date: props.date },
     });
-    const dayTasks = tasks.filter(task => task.date && isSameDay(task.date, props.date));
+    const dayTasks = tasks.filter(task => task.dueDate === format(props.date, "yyyy-MM-dd"));
 
     return (
       <div ref={setNodeRef} className="h-full w-full flex flex-col items-start p-1 relative">
@@ -117,6 +120,7 @@ export function CalendarCard({ name = "Calendar", width = 2 }: CalendarCardProps
           </div>
         </CardHeader>
         <CardContent className="flex-grow flex flex-col min-h-0">
+          <UndatedTasks tasks={tasks.filter(task => task.status !== "done" && !task.dueDate)} />
           <div className="flex-1 min-w-0">
             <DayPicker
               mode="single"
@@ -1,5 +1,8 @@
 import React, { useCallback, useEffect, useMemo, useState } from "react";
 import { Trophy, Timer, Play, RotateCw, Sparkles } from "lucide-react";
+import { useWidgetState } from "../../hooks/use-widget-state";
+import { useTasks } from "../../hooks/use-tasks";
+import type { Task } from "../../services/tasks";
 
 /**
  * A self-contained Challenge Timer component adapted for an Electron + Vite + React renderer.
@@ -11,28 +14,28 @@ import { Trophy, Timer, Play, RotateCw, Sparkles } from "lucide-react";
 
 const CHALLENGE_DURATION_SECONDS = 25 * 60;
 
-type Task = {
-  id: number;
-  text: string;
-  completed: boolean;
-};
-
-const initialTasks: Task[] = [
-  { id: 1, text: "", completed: false },
-  { id: 2, text: "", completed: false },
-  { id: 3, text: "", completed: false },
-];
+const TASK_COUNT = 3;
+const emptyDrafts = Array.from({ length: TASK_COUNT }, () => "");
 
 type ChallengeStatus = "setup" | "active" | "completed" | "failed";
 
 export function ChallengeTimer({ name = "Flash Round Challenge" }: { name?: string }) {
-  const [tasks, setTasks] = useState<Task[]>(initialTasks);
+  // What the user is about to take on; they become real tasks when the challenge starts
+  const [drafts, setDrafts] = useWidgetState<string[]>("drafts", emptyDrafts);
+  const [taskIds, setTaskIds] = useState<string[]>([]);
+  const { tasks, addTask, updateTask } = useTasks();
   const [timeLeft, setTimeLeft] = useState(CHALLENGE_DURATION_SECONDS);
   const [status, setStatus] = useState<ChallengeStatus>("setup");
+  const [isStarting, setIsStarting] = useState(false);
 
   const isActive = status === "active";
-  const allTasksCompleted = useMemo(() => tasks.every((t) => t.completed), [tasks]);
-  const isSetupValid = useMemo(() => tasks.every((t) => t.text.trim() !== ""), [tasks]);
+  // Tasks deleted elsewhere during the challenge drop out of it
+  const challengeTasks = useMemo(
+    () => taskIds.map((id) => tasks.find((t) => t.id === id)).filter((t): t is Task => !!t),
+    [taskIds, tasks]
+  );
+  const allTasksCompleted = challengeTasks.every((t) => t.status === "done");
+  const isSetupValid = drafts.every((text) => text.trim() !== "");
 
   useEffect(() => {
     if (allTasksCompleted && isActive) {
@@ -55,22 +58,23 @@ export function ChallengeTimer({ name = "Flash Round Challenge" }: { name?: stri
     return () => clearInterval(timer);
   }, [isActive, timeLeft, allTasksCompleted]);
 
-  const handleTaskTextChange = useCallback((id: number, text: string) => {
-    setTasks((prev) => prev.map((task) => (task.id === id ? { ...task, text } : task)));
+  const handleDraftChange = useCallback((index: number, text: string) => {
+    setDrafts((prev) => prev.map((draft, i) => (i === index ? text : draft)));
   }, []);
 
-  const handleTaskCompletionChange = useCallback((id: number, completed: boolean) => {
-    setTasks((prev) => prev.map((task) => (task.id === id ? { ...task, completed } : task)));
-  }, []);
-
-  const startChallenge = () => {
-    if (isSetupValid) {
-      setStatus("active");
-    }
+  const startChallenge = async () => {
+    if (!isSetupValid || isStarting) return;
+    setIsStarting(true);
+    const added = await Promise.all(drafts.map((text) => addTask({ title: text.trim() })));
+    setIsStarting(false);
+    if (added.some((task) => !task)) return;
+    setTaskIds(added.map((task) => task!.id));
+    setStatus("active");
   };
 
   const resetChallenge = () => {
-    setTasks(initialTasks.map((t) => ({ ...t, text: "", completed: false })));
+    setDrafts(emptyDrafts);
+    setTaskIds([]);
     setTimeLeft(CHALLENGE_DURATION_SECONDS);
     setStatus("setup");
   };
@@ -124,7 +128,7 @@ export function ChallengeTimer({ name = "Flash Round Challenge" }: { name?: stri
         <Trophy className="w-6 h-6 text-indigo-600" />
         <div>
           <div className="text-lg font-semibold">{name}</div>
-          <div className="text-sm text-gray-500">Complete 3 tasks in 25 minutes.</div>
+          <div className="text-sm text-gray-500">Complete {TASK_COUNT} tasks in 25 minutes.</div>
         </div>
       </div>
 
@@ -132,26 +136,35 @@ export function ChallengeTimer({ name = "Flash Round Challenge" }: { name?: stri
         {(status === "setup" || status === "active") ? (
           <>
             <div className="w-full space-y-3">
-              {tasks.map((task) => (
-                <div key={task.id} className="flex items-center gap-3">
-                  <input
-                    id={`task-${task.id}`}
-                    type="checkbox"
-                    checked={task.completed}
-                    onChange={(e) => handleTaskCompletionChange(task.id, e.target.checked)}
-                    disabled={!isActive}
-                    className="w-5 h-5 text-indigo-600 rounded"
-                  />
-                  <input
-                    id={`task-input-${task.id}`}
-                    placeholder={`Task #${task.id}...`}
-                    value={task.text}
-                    onChange={(e) => handleTaskTextChange(task.id, e.target.value)}
-                    disabled={isActive}
-                    className="flex-1 h-9 px-3 border rounded bg-gray-50 disabled:opacity-60 disabled:bg-gray-100"
-                  />
-                </div>
-              ))}
+              {isActive
+                ? challengeTasks.map((task) => (
+                    <div key={task.id} className="flex items-center gap-3">
+                      <input
+                        id={`task-${task.id}`}
+                        type="checkbox"
+                        checked={task.status === "done"}
+                        onChange={(e) => updateTask(task.id, { status: e.target.checked ? "done" : "todo" })}
+                        className="w-5 h-5 text-indigo-600 rounded"
+                      />
+                      <input
+                        value={task.title}
+                        disabled
+                        className="flex-1 h-9 px-3 border rounded bg-gray-50 disabled:opacity-60 disabled:bg-gray-100"
+                      />
+                    </div>
+                  ))
+                : drafts.map((text, index) => (
+                    <div key={index} className="flex items-center gap-3">
+                      <input type="checkbox" checked={false} disabled className="w-5 h-5 text-indigo-600 rounded" />
+                      <input
+                        id={`task-input-${index}`}
+                        placeholder={`Task #${index + 1}...`}
+                        value={text}
+                        onChange={(e) => handleDraftChange(index, e.target.value)}
+                        className="flex-1 h-9 px-3 border rounded bg-gray-50 disabled:opacity-60 disabled:bg-gray-100"
+                      />
+                    </div>
+                  ))}
             </div>
 
             <div className="text-center">
@@ -163,9 +176,9 @@ export function ChallengeTimer({ name = "Flash Round Challenge" }: { name?: stri
               <div>
                 <button
                   onClick={startChallenge}
-                  disabled={!isSetupValid}
+                  disabled={!isSetupValid || isStarting}
                   className={`inline-flex items-center px-3 py-1 rounded text-white mt-1 ${
-                    isSetupValid ? "bg-green-600 hover:bg-green-700" : "bg-gray-400 cursor-not-allowed"
+                    isSetupValid && !isStarting ? "bg-green-600 hover:bg-green-700" : "bg-gray-400 cursor-not-allowed"
                   }`}
                 >
                   <Play className="w-4 h-4 mr-2" />
@@ -5,6 +5,7 @@ import { Trophy, CheckCircle2 } from "lucide-react";
 import { cn } from "../../lib/utils";
 import { ScrollArea } from "../ui/scroll-area";
 import { Badge } from "../ui/badge";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 const allCompletedTasks = [
   { id: 1, title: "Finish Q3 report", completedAt: new Date(Date.now() - 86400000 * 0), tags: ["Work"] },
@@ -23,7 +24,7 @@ type DoneWallProps = {
 };
 
 export function DoneWall({ name = "Wall of Completion" }: DoneWallProps) {
-  const [filter, setFilter] = useState<Filter>("all");
+  const [filter, setFilter] = useWidgetState<Filter>("filter", "all");
   const streakDays = 12; // Mock streak data
 
   const filterTasks = () => {
@@ -5,6 +5,7 @@ import { Textarea } from "../ui/textarea";
 import { useToast } from "../../hooks/use-toast";
 import { generateReactComponent } from "../../services/ai";
 import { Wand2, Loader2, Code } from "lucide-react";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 const makeSrcDoc = (userCode: string) => {
   const safe = (userCode || "").replaceAll("</script>", "<\\/script>");
@@ -58,12 +59,13 @@ ${safe}
 };
 
 export function DreamWeaver({ name = "Dream Weaver" }: { name?: string }) {
-  const [prompt, setPrompt] = useState<string>(
+  const [prompt, setPrompt] = useWidgetState<string>(
+    "prompt",
     "a simple counter with start/stop/reset buttons and a big number."
   );
   const [status, setStatus] = useState<string>("");
   const [error, setError] = useState<string>("");
-  const [code, setCode] = useState<string>("");
+  const [code, setCode] = useWidgetState<string>("code", "");
   const iframeRef = useRef<HTMLIFrameElement | null>(null);
   const [isPending, startTransition] = useTransition();
   const { toast } = useToast();
@@ -24,6 +24,7 @@ import {
 } from "recharts";
 import { format } from "date-fns";
 import { v4 as uuidv4 } from "uuid";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 type Exercise = {
   id: string;
@@ -62,9 +63,9 @@ const initialWorkouts: Workout[] = [
 ];
 
 export function FitnessTracker({ name = "Fitness Tracker" }: { name?: string }) {
-  const [workouts, setWorkouts] = useState<Workout[]>(initialWorkouts);
-  const [currentWorkout, setCurrentWorkout] = useState<Exercise[]>([]);
-  const [workoutName, setWorkoutName] = useState("Today's Workout");
+  const [workouts, setWorkouts] = useWidgetState<Workout[]>("workouts", initialWorkouts);
+  const [currentWorkout, setCurrentWorkout] = useWidgetState<Exercise[]>("currentWorkout", []);
+  const [workoutName, setWorkoutName] = useWidgetState("workoutName", "Today's Workout");
   const [activeTab, setActiveTab] = useState<"log" | "history" | "stats">("log");
 
   const addExercise = () => {
@@ -10,6 +10,8 @@ import {
   BookOpen,
 } from "lucide-react";
 import { generateFlashcards } from "../../services/ai";
+import { useSemanticIndex } from "../../hooks/use-semantic-index";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 /**
  * A lightweight replacement for classNames / cn used in the original.
@@ -96,7 +98,7 @@ function FlashcardDisplay({
 }
 
 export function FlashcardDeck({ name = "Flashcard Deck" }: { name?: string }) {
-  const [cards, setCards] = useState<Flashcard[]>(initialCards);
+  const [cards, setCards] = useWidgetState<Flashcard[]>("cards", initialCards);
   const [currentCardIndex, setCurrentCardIndex] = useState(0);
   const [isFlipped, setIsFlipped] = useState(false);
   const [userAnswer, setUserAnswer] = useState("");
@@ -104,6 +106,8 @@ export function FlashcardDeck({ name = "Flashcard Deck" }: { name?: string }) {
   const [isPending, startTransition] = useTransition();
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
+  useSemanticIndex("flashcard", cards, (card) => ({ id: card.id, title: card.front, text: card.back }));
+
   const handleFlip = () => {
     setIsFlipped(!isFlipped);
     setFeedback("none");
@@ -10,6 +10,7 @@ import {
   SelectValue,
 } from "../ui/select";
 import { Progress } from "../ui/progress";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 const FOCUS_DURATIONS = [15, 25, 45, 60, 90]; // in minutes
 
@@ -18,7 +19,7 @@ type FocusModeProps = {
 };
 
 export function FocusMode({ name = "Focus Mode" }: FocusModeProps) {
-  const [duration, setDuration] = useState<number>(25 * 60); // seconds
+  const [duration, setDuration] = useWidgetState<number>("duration", 25 * 60); // seconds
   const [timeLeft, setTimeLeft] = useState<number>(25 * 60);
   const [isActive, setIsActive] = useState<boolean>(false);
   const [sessionEnded, setSessionEnded] = useState<boolean>(false);
@@ -199,7 +200,7 @@ export function FocusMode({ name = "Focus Mode" }: FocusModeProps) {
                   const secs = parseInt(val, 10) * 60;
                   setDuration(secs);
                 }}
-                defaultValue={String(duration / 60)}
+                value={String(duration / 60)}
               >
                 <SelectTrigger className="w-[120px]">
                   <SelectValue placeholder="Duration" />
@@ -1,4 +1,4 @@
-import React, { useState, useTransition, useRef } from "react";
+import React, { useTransition, useRef } from "react";
 import {
   Card,
   CardContent,
@@ -11,6 +11,7 @@ import { ScrollArea } from "../ui/scroll-area";
 import { Stethoscope, Loader2, Upload, FileText } from "lucide-react";
 import { generateHealthSummary } from "../../services/ai";
 import { Input } from "../ui/input";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 type HealthSummaryProps = {
   name?: string;
@@ -18,8 +19,8 @@ type HealthSummaryProps = {
 
 export function HealthSummary({ name = "Health Summary" }: HealthSummaryProps) {
   const [isPending, startTransition] = useTransition();
-  const [summary, setSummary] = useState("");
-  const [fileName, setFileName] = useState("");
+  const [summary, setSummary] = useWidgetState("summary", "");
+  const [fileName, setFileName] = useWidgetState("fileName", "");
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
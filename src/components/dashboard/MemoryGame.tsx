@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from "react";
 import { Brain, RotateCw, Star, Heart, Sun, Moon, Cloud, Anchor } from "lucide-react";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 /**
  * Self-contained Memory Game component for the Electron + Vite + React renderer.
@@ -49,9 +50,12 @@ function cn(...classes: Array<string | false | null | undefined>) {
 }
 
 export function MemoryGame({ name = "Memory Game" }: { name?: string }) {
-  const [deck, setDeck] = useState<CardItem[]>(() => createShuffledDeck());
+  const [deck, setDeck] = useWidgetState<CardItem[]>("deck", () => createShuffledDeck(), {
+    // A pair left face up mid-turn is turned back over
+    restore: (saved) => saved.map((card) => (card.isMatched ? card : { ...card, isFlipped: false })),
+  });
   const [flippedIndexes, setFlippedIndexes] = useState<number[]>([]);
-  const [moves, setMoves] = useState<number>(0);
+  const [moves, setMoves] = useWidgetState<number>("moves", 0);
 
   useEffect(() => {
     if (flippedIndexes.length !== 2) return;
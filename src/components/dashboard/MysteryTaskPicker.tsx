@@ -2,8 +2,11 @@ import React, { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../ui/card";
 import { Button } from "../ui/button";
 import { Gift, Dices, Zap } from "lucide-react";
+import { useTasks } from "../../hooks/use-tasks";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
-const tasks = [
+/** Drawn from until the profile has open tasks of its own. */
+const suggestions = [
   "Organize your desktop files",
   "Reply to 3 old emails",
   "Stretch for 5 minutes",
@@ -20,10 +23,13 @@ type MysteryTaskPickerProps = {
 };
 
 export function MysteryTaskPicker({ name = "Mystery Task Picker" }: MysteryTaskPickerProps) {
-  const [selectedTask, setSelectedTask] = useState<string | null>(null);
+  const { tasks: allTasks } = useTasks();
+  const [selectedTask, setSelectedTask] = useWidgetState<string | null>("selectedTask", null);
   const [isRevealing, setIsRevealing] = useState(false);
 
   const handleDrawTask = () => {
+    const openTitles = allTasks.filter((task) => task.status !== "done").map((task) => task.title);
+    const tasks = openTitles.length > 0 ? openTitles : suggestions;
     setIsRevealing(true);
     setSelectedTask(null);
     setTimeout(() => {
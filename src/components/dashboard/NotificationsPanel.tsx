@@ -30,6 +30,7 @@ import {
 } from "../ui/dialog";
 import { Switch } from "../ui/switch";
 import { Label } from "../ui/label";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 const notifications = [
   {
@@ -95,7 +96,7 @@ type NotificationsPanelProps = {
 };
 
 export function NotificationsPanel({ name = "Assistant" }: NotificationsPanelProps) {
-  const [connections, setConnections] = useState({
+  const [connections, setConnections] = useWidgetState("connections", {
     gmail: true,
     slack: true,
     sms: true,
@@ -4,6 +4,7 @@ import { Button } from "../ui/button";
 import { Progress } from "../ui/progress";
 import { Hourglass, Play, ArrowRight } from "lucide-react";
 import { Separator } from "../ui/separator";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 const DURATION_SECONDS = 25 * 60; // 25 minutes
 
@@ -12,8 +13,8 @@ type NowNextPanelProps = {
 };
 
 export function NowNextPanel({ name = "Now & Next" }: NowNextPanelProps) {
-  const [nowTask, setNowTask] = useState({ id: 1, title: "Draft proposal email" });
-  const [nextTask, setNextTask] = useState({ id: 2, title: "Review Q3 analytics" });
+  const [nowTask, setNowTask] = useWidgetState("nowTask", { id: 1, title: "Draft proposal email" });
+  const [nextTask, setNextTask] = useWidgetState("nextTask", { id: 2, title: "Review Q3 analytics" });
 
   const [secondsLeft, setSecondsLeft] = useState<number>(DURATION_SECONDS);
   const [isActive, setIsActive] = useState<boolean>(false);
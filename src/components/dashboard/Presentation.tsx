@@ -18,6 +18,7 @@ import {
   Play,
 } from "lucide-react";
 import { v4 as uuidv4 } from "uuid";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 type Slide = {
   id: string;
@@ -34,7 +35,7 @@ const initialSlides: Slide[] = [
 ];
 
 export function Presentation({ name = "Presentation" }: { name?: string }) {
-  const [slides, setSlides] = useState<Slide[]>(initialSlides);
+  const [slides, setSlides] = useWidgetState<Slide[]>("slides", initialSlides);
   const [currentSlideIndex, setCurrentSlideIndex] = useState(0);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const fullscreenRef = useRef<HTMLDivElement | null>(null);
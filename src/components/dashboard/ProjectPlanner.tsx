@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from "react";
+import React, { useEffect, useState, useMemo } from "react";
 import {
   Card,
   CardContent,
@@ -22,80 +22,88 @@ import {
   ResponsiveContainer,
   ReferenceLine,
 } from "recharts";
-import { addDays, differenceInDays, startOfDay } from "date-fns";
+import { addDays, differenceInDays, format, parseISO, startOfDay } from "date-fns";
 import { v4 as uuidv4 } from "uuid";
 import { cn } from "../../lib/utils";
-
-type Task = {
-  id: string;
-  name: string;
-  startDate: Date;
-  duration: number; // in days
-  completed: boolean;
-};
+import { useWidgetState } from "../../hooks/use-widget-state";
+import { useTasks } from "../../hooks/use-tasks";
+import type { Task } from "../../services/tasks";
 
 type Goal = {
   id: string;
   text: string;
 };
 
-// Mock Data
 const today = startOfDay(new Date());
-const initialTasks: Task[] = [
-  { id: uuidv4(), name: "Project Kick-off & Planning", startDate: today, duration: 3, completed: true },
-  { id: uuidv4(), name: "UI/UX Design Mockups", startDate: addDays(today, 2), duration: 5, completed: false },
-  { id: uuidv4(), name: "Frontend Development", startDate: addDays(today, 6), duration: 10, completed: false },
-  { id: uuidv4(), name: "Backend API Integration", startDate: addDays(today, 10), duration: 8, completed: false },
-  { id: uuidv4(), name: "User Testing & Feedback", startDate: addDays(today, 18), duration: 4, completed: false },
-  { id: uuidv4(), name: "Deployment", startDate: addDays(today, 22), duration: 2, completed: false },
-];
+const DEFAULT_DURATION_DAYS = 3;
 
+// Mock Data
 const initialGoals: Goal[] = [
   { id: uuidv4(), text: "Launch MVP by the end of the quarter." },
   { id: uuidv4(), text: "Achieve 90% user satisfaction in beta testing." },
 ];
 
+/** A project task runs from its scheduled date to its due date, both included. */
+function spanOf(task: Task) {
+  const start = task.scheduledDate ? parseISO(task.scheduledDate) : today;
+  const end = task.dueDate ? parseISO(task.dueDate) : start;
+  return { start, days: Math.max(1, differenceInDays(end, start) + 1) };
+}
+
 export function ProjectPlanner({ name = "Project Planner" }: { name?: string }) {
-  const [projectName, setProjectName] = useState("New Website Launch");
-  const [tasks, setTasks] = useState<Task[]>(initialTasks);
+  const [projectName, setProjectName] = useWidgetState("projectName", "New Website Launch");
+  const [draftName, setDraftName] = useState(projectName);
+  const { tasks: allTasks, addTask, updateTask, deleteTask } = useTasks();
+  const tasks = useMemo(() => allTasks.filter((t) => t.project === projectName), [allTasks, projectName]);
   const [goals] = useState<Goal[]>(initialGoals);
   const [newTaskName, setNewTaskName] = useState("");
 
+  // The saved name loads after the first render
+  useEffect(() => setDraftName(projectName), [projectName]);
+
   const chartData = useMemo(() => {
-    return tasks.map(task => ({
-      name: task.name,
-      range: [
-        differenceInDays(task.startDate, today),
-        differenceInDays(task.startDate, today) + task.duration
-      ],
-      fill: task.completed ? "hsl(var(--primary) / 0.5)" : "hsl(var(--primary))",
-    }));
+    return tasks.map(task => {
+      const { start, days } = spanOf(task);
+      return {
+        name: task.title,
+        range: [differenceInDays(start, today), differenceInDays(start, today) + days],
+        fill: task.status === "done" ? "hsl(var(--primary) / 0.5)" : "hsl(var(--primary))",
+      };
+    });
   }, [tasks]);
   
-  const completedTasks = useMemo(() => tasks.filter(t => t.completed).length, [tasks]);
+  const completedTasks = tasks.filter(t => t.status === "done").length;
   const progress = tasks.length > 0 ? (completedTasks / tasks.length) * 100 : 0;
 
+  // The project's tasks carry its name, so they follow a rename
+  const handleRename = () => {
+    const next = draftName.trim();
+    if (!next || next === projectName) {
+      setDraftName(projectName);
+      return;
+    }
+    tasks.forEach(task => updateTask(task.id, { project: next }));
+    setProjectName(next);
+  };
+
   const handleAddTask = () => {
     if (newTaskName.trim() === "") return;
-    const lastTask = tasks[tasks.length - 1];
-    const newStartDate = lastTask ? addDays(lastTask.startDate, lastTask.duration) : today;
-    const newTask: Task = {
-      id: uuidv4(),
-      name: newTaskName,
-      startDate: newStartDate,
-      duration: 3,
-      completed: false,
-    };
-    setTasks([...tasks, newTask]);
+    const ends = tasks.map(task => {
+      const { start, days } = spanOf(task);
+      return addDays(start, days);
+    });
+    const start = ends.length > 0 ? new Date(Math.max(...ends.map(Number))) : today;
+    addTask({
+      title: newTaskName.trim(),
+      project: projectName,
+      scheduledDate: format(start, "yyyy-MM-dd"),
+      dueDate: format(addDays(start, DEFAULT_DURATION_DAYS - 1), "yyyy-MM-dd"),
+    });
     setNewTaskName("");
   };
   
-  const handleToggleTask = (id: string) => {
-    setTasks(tasks.map(t => t.id === id ? { ...t, completed: !t.completed } : t));
-  };
-  
-  const handleRemoveTask = (id: string) => {
-    setTasks(tasks.filter(t => t.id !== id));
+  const handleToggleTask = (task: Task) => {
+    updateTask(task.id, { status: task.status === "done" ? "todo" : "done" });
   };
 
   return (
@@ -105,8 +113,10 @@ export function ProjectPlanner({ name = "Project Planner" }: { name?: string })
           <CaseUpper className="w-6 h-6 text-primary" />
           <div>
             <Input 
-                value={projectName}
-                onChange={(e) => setProjectName(e.target.value)}
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onBlur={handleRename}
+                onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
                 className="text-2xl font-semibold leading-none tracking-tight border-none focus-visible:ring-0 p-0 h-auto"
             />
             <CardDescription>Track your project from start to finish.</CardDescription>
@@ -175,11 +185,11 @@ export function ProjectPlanner({ name = "Project Planner" }: { name?: string })
                    <div className="space-y-2 px-3">
                      {tasks.map(task => (
                         <div key={task.id} className="flex items-center gap-3 p-2 bg-background/50 rounded-md">
-                            <Checkbox checked={task.completed} onCheckedChange={() => handleToggleTask(task.id)} />
-                            <label className={cn("flex-1 text-sm", task.completed && "line-through text-muted-foreground")}>
-                                {task.name}
+                            <Checkbox checked={task.status === "done"} onCheckedChange={() => handleToggleTask(task)} />
+                            <label className={cn("flex-1 text-sm", task.status === "done" && "line-through text-muted-foreground")}>
+                                {task.title}
                             </label>
-                            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleRemoveTask(task.id)}>
+                            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => deleteTask(task.id)}>
                                 <Trash2 className="w-3 h-3 text-muted-foreground"/>
                             </Button>
                         </div>
@@ -9,6 +9,7 @@ import {
   Home,
 } from "lucide-react";
 import { format } from "date-fns";
+import { useSemanticIndex } from "../../hooks/use-semantic-index";
 
 const transactions: {
   id: string;
@@ -77,6 +78,13 @@ export function RecentTransactions({
   name = "Recent Transactions",
   className = "",
 }: RecentTransactionsProps) {
+  useSemanticIndex("transaction", transactions, (txn) => ({
+    id: txn.id,
+    title: txn.merchant,
+    text: `${txn.amount < 0 ? "Spent" : "Received"} $${Math.abs(txn.amount).toFixed(2)} on ${format(txn.date, "MMM d, yyyy")}`,
+    tags: [txn.category],
+  }));
+
   return (
     <div
       className={`flex flex-col h-full bg-transparent border-0 shadow-none ${className}`}
@@ -1,9 +1,10 @@
-import { useState, useTransition, useEffect } from "react";
+import { useTransition, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../ui/card";
 import { Button } from "../ui/button";
 import { generateSessionRecap } from "../../services/ai";
 import { Sparkles, Loader2, Zap } from "lucide-react";
 import { useToast } from "../../hooks/useToast";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 const recentTasksExample =
   "Finished Q3 report draft, Called plumber about kitchen sink, Sketched out new feature design for 'Project Phoenix'";
@@ -13,7 +14,7 @@ type SessionRecapProps = {
 };
 
 export function SessionRecap({ name = "Quick Recap" }: SessionRecapProps) {
-  const [recap, setRecap] = useState<string | null>(null);
+  const [recap, setRecap] = useWidgetState<string | null>("recap", null);
   const [isPending, startTransition] = useTransition();
   // useToast is optional; provide a simple fallback to alert if not available
   const toastCtx = useToast ? useToast() : undefined;
@@ -8,11 +8,12 @@ import {
 } from "../ui/card";
 import { Button } from "../ui/button";
 import { Sheet, Plus } from "lucide-react";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 export function Spreadsheet({ name = "Spreadsheet" }: { name?: string }) {
-  const [rows, setRows] = useState(50);
-  const [cols, setCols] = useState(26);
-  const [data, setData] = useState<Record<string, string>>({});
+  const [rows, setRows] = useWidgetState("rows", 50);
+  const [cols, setCols] = useWidgetState("cols", 26);
+  const [data, setData] = useWidgetState<Record<string, string>>("cells", {});
 
   const handleCellChange = (rowIndex: number, colIndex: number, value: string) => {
     const key = `${rowIndex}-${colIndex}`;
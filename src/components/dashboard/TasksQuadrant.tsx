@@ -20,6 +20,8 @@ import {
 } from "../ui/card";
 import { Badge } from "../ui/badge";
 import { ListTodo, GripVertical, Briefcase, Calendar } from "lucide-react";
+import { useTasks } from "../../hooks/use-tasks";
+import type { Task, TaskQuadrant } from "../../services/tasks";
 
 /**
  * Small classname helper to avoid pulling in external utils.
@@ -28,54 +30,19 @@ import { ListTodo, GripVertical, Briefcase, Calendar } from "lucide-react";
 const cn = (...classes: Array<string | false | null | undefined>) =>
   classes.filter(Boolean).join(" ");
 
-type QuadrantId = "q1" | "q2" | "q3" | "q4";
+type DropTarget = TaskQuadrant | "unsorted";
 
-type Task = {
-  id: string;
-  label: string;
-  quadrantId: QuadrantId;
-  tags: { name: string; icon: React.ReactNode }[];
+// Tags are plain text in the task store; these ones get an icon
+const tagIcons: Record<string, React.ReactNode> = {
+  Work: <Briefcase className="w-3 h-3" />,
+  Travel: <Calendar className="w-3 h-3" />,
 };
 
-const initialTasks: Task[] = [
-  // Urgent & Important
-  {
-    id: "t1",
-    quadrantId: "q1",
-    label: "Finish Q3 report",
-    tags: [{ name: "Work", icon: <Briefcase className="w-3 h-3" /> }],
-  },
-  { id: "t2", quadrantId: "q1", label: "Call plumber about leak", tags: [] },
-  // Not Urgent & Important
-  { id: "t3", quadrantId: "q2", label: "Plan next week's meals", tags: [] },
-  {
-    id: "t4",
-    quadrantId: "q2",
-    label: "Book flights for vacation",
-    tags: [{ name: "Travel", icon: <Calendar className="w-3 h-3" /> }],
-  },
-  {
-    id: "t5",
-    quadrantId: "q2",
-    label: "Start on new feature design",
-    tags: [{ name: "Work", icon: <Briefcase className="w-3 h-3" /> }],
-  },
-  // Urgent & Not Important
-  {
-    id: "t6",
-    quadrantId: "q3",
-    label: "Respond to non-critical emails",
-    tags: [{ name: "Work", icon: <Briefcase className="w-3 h-3" /> }],
-  },
-  // Not Urgent & Not Important
-  { id: "t7", quadrantId: "q4", label: "Organize desktop files", tags: [] },
-];
-
-const quadrantConfig: Record<QuadrantId, { color: string }> = {
-  q1: { color: "bg-red-500/10" },
-  q2: { color: "bg-blue-500/10" },
-  q3: { color: "bg-yellow-500/10" },
-  q4: { color: "bg-gray-500/10" },
+const quadrantConfig: Record<TaskQuadrant, { color: string }> = {
+  do: { color: "bg-red-500/10" },
+  schedule: { color: "bg-blue-500/10" },
+  delegate: { color: "bg-yellow-500/10" },
+  eliminate: { color: "bg-gray-500/10" },
 };
 
 function DraggableTask({ task }: { task: Task }) {
@@ -104,21 +71,21 @@ function DraggableTask({ task }: { task: Task }) {
       {...listeners}
     >
       <GripVertical className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-      <span className="flex-grow truncate">{task.label}</span>
+      <span className="flex-grow truncate">{task.title}</span>
       {task.tags.map((tag) => (
         <Badge
-          key={tag.name}
+          key={tag}
           variant="secondary"
           className="flex items-center gap-1 text-xs"
         >
-          {tag.icon} {tag.name}
+          {tagIcons[tag]} {tag}
         </Badge>
       ))}
     </div>
   );
 }
 
-function Quadrant({ quadrantId, tasks }: { quadrantId: QuadrantId; tasks: Task[] }) {
+function Quadrant({ quadrantId, tasks }: { quadrantId: TaskQuadrant; tasks: Task[] }) {
   const { setNodeRef } = useDroppable({ id: quadrantId });
   return (
     <div
@@ -132,12 +99,31 @@ function Quadrant({ quadrantId, tasks }: { quadrantId: QuadrantId; tasks: Task[]
   );
 }
 
+/** Open tasks not placed in a quadrant yet; dropping a task here takes it out again. */
+function UnsortedTasks({ tasks }: { tasks: Task[] }) {
+  const { setNodeRef, isOver } = useDroppable({ id: "unsorted" });
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn("p-2 rounded-lg border border-dashed flex flex-wrap gap-2 min-h-[44px]", isOver && "bg-accent/50")}
+    >
+      {tasks.length === 0 ? (
+        <span className="text-xs text-muted-foreground self-center">Every open task has a quadrant.</span>
+      ) : (
+        tasks.map((task) => <DraggableTask key={task.id} task={task} />)
+      )}
+    </div>
+  );
+}
+
 type TasksQuadrantProps = {
   name?: string;
 };
 
 export function TasksQuadrant({ name = "Task Quadrants" }: TasksQuadrantProps) {
-  const [tasks, setTasks] = useState<Task[]>(initialTasks);
+  const { tasks, updateTask } = useTasks();
+  // Done tasks leave the matrix
+  const open = tasks.filter((t) => t.status !== "done");
   const [activeTask, setActiveTask] = useState<Task | null>(null);
 
   const sensors = useSensors(
@@ -155,23 +141,10 @@ export function TasksQuadrant({ name = "Task Quadrants" }: TasksQuadrantProps) {
     const { active, over } = event;
     if (!over) return;
 
-    // If dropped onto a different droppable (quadrant)
-    if (active.id !== over.id) {
-      setTasks((prev) => {
-        const activeId = String(active.id);
-        const overId = String(over.id) as QuadrantId;
-
-        // If task not found, return as-is
-        const existing = prev.find((t) => t.id === activeId);
-        if (!existing) return prev;
-
-        // If quadrant unchanged, no-op
-        if (existing.quadrantId === overId) return prev;
-
-        // Return new array with updated quadrantId for the dragged task
-        return prev.map((t) => (t.id === activeId ? { ...t, quadrantId: overId } : t));
-      });
-    }
+    const task = tasks.find((t) => t.id === String(active.id));
+    const target = String(over.id) as DropTarget;
+    const quadrant = target === "unsorted" ? null : target;
+    if (task && task.quadrant !== quadrant) updateTask(task.id, { quadrant });
   };
 
   return (
@@ -186,14 +159,15 @@ export function TasksQuadrant({ name = "Task Quadrants" }: TasksQuadrantProps) {
         </div>
       </CardHeader>
 
-      <CardContent className="flex-1 min-h-0">
+      <CardContent className="flex-1 min-h-0 flex flex-col">
         <DndContext
           sensors={sensors}
           onDragStart={handleDragStart}
           onDragEnd={handleDragEnd}
           collisionDetection={closestCorners}
         >
-          <div className="grid grid-cols-[auto,1fr,1fr] grid-rows-[auto,1fr,1fr] gap-4 h-full">
+          <UnsortedTasks tasks={open.filter((t) => !t.quadrant)} />
+          <div className="grid grid-cols-[auto,1fr,1fr] grid-rows-[auto,1fr,1fr] gap-4 flex-1 min-h-0 mt-4">
             {/* Top Labels */}
             <div />
             <div className="font-bold text-center text-sm text-muted-foreground flex items-center justify-center">
@@ -207,14 +181,14 @@ export function TasksQuadrant({ name = "Task Quadrants" }: TasksQuadrantProps) {
             <div className="font-bold text-center text-sm text-muted-foreground flex items-center justify-center [writing-mode:vertical-rl] rotate-180">
               Important
             </div>
-            <Quadrant quadrantId="q1" tasks={tasks.filter((t) => t.quadrantId === "q1")} />
-            <Quadrant quadrantId="q2" tasks={tasks.filter((t) => t.quadrantId === "q2")} />
+            <Quadrant quadrantId="do" tasks={open.filter((t) => t.quadrant === "do")} />
+            <Quadrant quadrantId="schedule" tasks={open.filter((t) => t.quadrant === "schedule")} />
 
             <div className="font-bold text-center text-sm text-muted-foreground flex items-center justify-center [writing-mode:vertical-rl] rotate-180">
               Not Important
             </div>
-            <Quadrant quadrantId="q3" tasks={tasks.filter((t) => t.quadrantId === "q3")} />
-            <Quadrant quadrantId="q4" tasks={tasks.filter((t) => t.quadrantId === "q4")} />
+            <Quadrant quadrantId="delegate" tasks={open.filter((t) => t.quadrant === "delegate")} />
+            <Quadrant quadrantId="eliminate" tasks={open.filter((t) => t.quadrant === "eliminate")} />
           </div>
 
           <DragOverlay>{activeTask ? <DraggableTask task={activeTask} /> : null}</DragOverlay>
@@ -1,55 +1,64 @@
 import React, { useState } from "react";
-import { v4 as uuidv4 } from "uuid";
 import { ListChecks, Plus, Trash2 } from "lucide-react";
-
-type Task = {
-  id: string;
-  label: string;
-  completed: boolean;
-  priority: "low" | "medium" | "high";
-  tags: string[];
-};
+import { useToolExecutor } from "../../hooks/use-tool-executor";
+import { useTasks } from "../../hooks/use-tasks";
+import type { Task } from "../../services/tasks";
 
 type ToDoListProps = {
   name?: string;
 };
 
-const initialTasks: Task[] = [
-  { id: uuidv4(), label: "Finalize presentation deck", completed: false, priority: "high", tags: ["Work"] },
-  { id: uuidv4(), label: "Schedule dentist appointment", completed: false, priority: "medium", tags: ["Personal"] },
-  { id: uuidv4(), label: "Buy groceries for the week", completed: true, priority: "medium", tags: ["Home"] },
-  { id: uuidv4(), label: "Read one chapter of 'Atomic Habits'", completed: false, priority: "low", tags: ["Personal"] },
-];
-
 // small helper to conditionally join classes
 const cn = (...args: Array<string | false | null | undefined>) => args.filter(Boolean).join(" ");
 
+// Giddy refers to tasks by id or by their text; exact text wins over a partial match.
+const findTask = (tasks: Task[], ref: string): Task => {
+  const needle = ref.trim().toLowerCase();
+  const match =
+    tasks.find((task) => task.id === ref) ??
+    tasks.find((task) => task.title.toLowerCase() === needle) ??
+    tasks.find((task) => task.title.toLowerCase().includes(needle));
+  if (!match) throw new Error(`No task matches "${ref}".`);
+  return match;
+};
+
 export function ToDoList({ name = "To-Do List" }: ToDoListProps) {
-  const [tasks, setTasks] = useState<Task[]>(initialTasks);
+  const { tasks, loaded, addTask, updateTask, deleteTask } = useTasks();
   const [newTaskLabel, setNewTaskLabel] = useState("");
+  // Newest first; the store keeps them oldest first
+  const listed = [...tasks].reverse();
 
   const handleAddTask = () => {
     if (newTaskLabel.trim() === "") return;
-    const newTask: Task = {
-      id: uuidv4(),
-      label: newTaskLabel.trim(),
-      completed: false,
-      priority: "medium",
-      tags: [],
-    };
-    setTasks([newTask, ...tasks]);
+    addTask({ title: newTaskLabel.trim() });
     setNewTaskLabel("");
   };
 
-  const handleToggleTask = (id: string) => {
-    setTasks((prev) =>
-      prev.map((task) => (task.id === id ? { ...task, completed: !task.completed } : task))
-    );
+  const handleToggleTask = (task: Task) => {
+    updateTask(task.id, { status: task.status === "done" ? "todo" : "done" });
   };
 
-  const handleRemoveTask = (id: string) => {
-    setTasks((prev) => prev.filter((task) => task.id !== id));
-  };
+  // Tasks are indexed by main (main/semantic-index.ts), wherever they were added
+
+  useToolExecutor("createTask", async ({ label, priority, tags }) => {
+    const task = await addTask({ title: label, priority, tags });
+    if (!task) throw new Error(`Could not add "${label}".`);
+    return task;
+  });
+
+  useToolExecutor("updateTask", async ({ task: ref, label, priority }) => {
+    const existing = findTask(tasks, ref);
+    const updated = await updateTask(existing.id, { title: label, priority });
+    if (!updated) throw new Error(`Could not update "${existing.title}".`);
+    return updated;
+  });
+
+  useToolExecutor("completeTask", async ({ task: ref }) => {
+    const existing = findTask(tasks, ref);
+    const updated = await updateTask(existing.id, { status: "done" });
+    if (!updated) throw new Error(`Could not complete "${existing.title}".`);
+    return updated;
+  });
 
   const priorityClasses: Record<Task["priority"], string> = {
     high: "border-l-4 border-red-500",
@@ -88,7 +97,7 @@ export function ToDoList({ name = "To-Do List" }: ToDoListProps) {
 
         <div className="flex-1 -mx-6 overflow-auto">
           <div className="px-6 space-y-3">
-            {tasks.map((task) => (
+            {listed.map((task) => (
               <div
                 key={task.id}
                 className={cn(
@@ -99,15 +108,15 @@ export function ToDoList({ name = "To-Do List" }: ToDoListProps) {
                 <input
                   id={`check-${task.id}`}
                   type="checkbox"
-                  checked={task.completed}
-                  onChange={() => handleToggleTask(task.id)}
+                  checked={task.status === "done"}
+                  onChange={() => handleToggleTask(task)}
                   className="w-4 h-4"
                 />
                 <label
                   htmlFor={`check-${task.id}`}
-                  className={cn("flex-1 text-sm", task.completed && "line-through text-muted-foreground")}
+                  className={cn("flex-1 text-sm", task.status === "done" && "line-through text-muted-foreground")}
                 >
-                  {task.label}
+                  {task.title}
                 </label>
 
                 <div className="flex gap-1">
@@ -122,16 +131,16 @@ export function ToDoList({ name = "To-Do List" }: ToDoListProps) {
                 </div>
 
                 <button
-                  onClick={() => handleRemoveTask(task.id)}
+                  onClick={() => deleteTask(task.id)}
                   className="h-7 w-7 inline-flex items-center justify-center rounded hover:bg-muted"
-                  aria-label={`Remove ${task.label}`}
+                  aria-label={`Remove ${task.title}`}
                 >
                   <Trash2 className="w-4 h-4 text-muted-foreground" />
                 </button>
               </div>
             ))}
 
-            {tasks.length === 0 && (
+            {loaded && tasks.length === 0 && (
               <div className="text-center text-sm text-muted-foreground py-6">
                 No tasks yet — add one above.
               </div>
@@ -1,8 +1,9 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useEffect, useCallback } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
 import { Button } from "./ui/button";
 import { Progress } from "./ui/progress";
 import { PawPrint, Heart, Drumstick, Bone, Gamepad2, Skull, Smile, Frown, RotateCcw } from "lucide-react";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 const MAX_STAT = 100;
 const DECAY_RATE = 2; // Stat points to lose
@@ -13,9 +14,9 @@ export interface VirtualPetProps {
 }
 
 export function VirtualPet({ name = "Virtual Pet" }: VirtualPetProps) {
-  const [hunger, setHunger] = useState<number>(MAX_STAT);
-  const [happiness, setHappiness] = useState<number>(MAX_STAT);
-  const [isAlive, setIsAlive] = useState<boolean>(true);
+  const [hunger, setHunger] = useWidgetState<number>("hunger", MAX_STAT);
+  const [happiness, setHappiness] = useWidgetState<number>("happiness", MAX_STAT);
+  const [isAlive, setIsAlive] = useWidgetState<boolean>("isAlive", true);
 
   const decayStats = useCallback(() => {
     if (!isAlive) return;
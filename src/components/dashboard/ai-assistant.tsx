@@ -1,4 +1,4 @@
-import React, { useState, useTransition, useRef, useEffect } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import {
   Dialog,
   DialogContent,
@@ -11,8 +11,39 @@ import { Input } from "../ui/input";
 import { Button } from "../ui/button";
 import { ScrollArea } from "../ui/scroll-area";
 import { Avatar, AvatarFallback } from "../ui/avatar";
-import { Bot, Loader2, Send, User, Sparkles } from "lucide-react";
-import { chatAssistant } from "../../services/ai";
+import {
+  Bot,
+  BookOpen,
+  Check,
+  Loader2,
+  MessageSquarePlus,
+  Pencil,
+  Search,
+  Send,
+  Sparkles,
+  Square,
+  Trash2,
+  User,
+  Wrench,
+  X,
+} from "lucide-react";
+import {
+  createConversation,
+  deleteConversation,
+  getConversation,
+  listConversations,
+  renameConversation,
+  respondToToolCall,
+  searchConversations,
+  sendMessage,
+  stopReply,
+  type ChatMessageRecord,
+  type ConversationRecord,
+  type ConversationSearchHit,
+  type ToolCallRecord,
+} from "../../services/chat";
+import { INDEX_SOURCE_LABELS, type Citation } from "../../shared/types";
+import { canRunTool, runToolCall } from "../../services/tools";
 
 /**
  * Lightweight classNames helper to avoid depending on project-specific utilities.
@@ -20,11 +51,132 @@ import { chatAssistant } from "../../services/ai";
 const cn = (...classes: Array<string | false | null | undefined>) =>
   classes.filter(Boolean).join(" ");
 
-type Message = {
-  role: "user" | "model";
-  content: string;
+const GREETING = "Hello! I'm Giddy. How can I help you with Gidit today?";
+const SEARCH_DEBOUNCE_MS = 250;
+
+type Streaming = {
+  conversationId: string;
+  text: string;
 };
 
+const suggestedPrompts = [
+  "How do I add a widget?",
+  "Give me a productivity tip",
+  "I have some feedback",
+  "What is my schedule today?",
+  "What am I forgetting?",
+  "Chat with a representative",
+];
+
+function MessageBubble({ role, content }: { role: "user" | "assistant"; content: React.ReactNode }) {
+  return (
+    <div
+      className={cn(
+        "flex items-start gap-3",
+        role === "user" ? "justify-end" : "justify-start"
+      )}
+    >
+      {role === "assistant" && (
+        <Avatar className="h-8 w-8">
+          <AvatarFallback>
+            <Bot className="w-4 h-4" />
+          </AvatarFallback>
+        </Avatar>
+      )}
+
+      <div
+        className={cn(
+          "p-3 rounded-lg max-w-[80%]",
+          role === "user" ? "bg-primary text-primary-foreground" : "bg-secondary"
+        )}
+      >
+        {typeof content === "string" ? (
+          <p className="text-sm whitespace-pre-wrap">{content}</p>
+        ) : (
+          content
+        )}
+      </div>
+
+      {role === "user" && (
+        <Avatar className="h-8 w-8">
+          <AvatarFallback>
+            <User className="w-4 h-4" />
+          </AvatarFallback>
+        </Avatar>
+      )}
+    </div>
+  );
+}
+
+function Citations({ citations }: { citations: Citation[] }) {
+  return (
+    <div className="ml-11 flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+      <BookOpen className="w-3 h-3" />
+      {citations.map((c) => (
+        <span key={c.n} className="rounded border px-1.5 py-0.5" title={c.excerpt}>
+          [{c.n}] {INDEX_SOURCE_LABELS[c.source]} · {c.title}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+const TOOL_STATUS_LABEL: Record<ToolCallRecord["status"], string> = {
+  proposed: "Waiting for you",
+  done: "Done",
+  failed: "Failed",
+  rejected: "Declined",
+};
+
+function ToolCallCard({
+  call,
+  busy,
+  disabled,
+  onRespond,
+}: {
+  call: ToolCallRecord;
+  busy: boolean;
+  disabled: boolean;
+  onRespond: (call: ToolCallRecord, confirmed: boolean) => void;
+}) {
+  const args = Object.entries((call.args ?? {}) as Record<string, unknown>);
+  const runnable = canRunTool(call.name);
+
+  return (
+    <div className="ml-11 max-w-[80%] rounded-lg border p-3 space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Wrench className="w-4 h-4" />
+        <span className="flex-grow">{call.summary}</span>
+        <span className="text-xs text-muted-foreground">{TOOL_STATUS_LABEL[call.status]}</span>
+      </div>
+      {args.length > 0 && (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 text-xs text-muted-foreground">
+          {args.map(([key, value]) => (
+            <React.Fragment key={key}>
+              <dt>{key}</dt>
+              <dd className="truncate">{typeof value === "string" ? value : JSON.stringify(value)}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+      {call.status === "failed" && call.error && <p className="text-xs text-destructive">{call.error}</p>}
+      {call.status === "proposed" && (
+        <div className="flex items-center gap-2">
+          <Button size="sm" disabled={busy || disabled} onClick={() => onRespond(call, true)}>
+            {busy ? <Loader2 className="w-3 h-3 mr-2 animate-spin" /> : <Check className="w-3 h-3 mr-2" />}
+            Confirm
+          </Button>
+          <Button size="sm" variant="outline" disabled={busy || disabled} onClick={() => onRespond(call, false)}>
+            <X className="w-3 h-3 mr-2" />
+            Decline
+          </Button>
+          {!runnable && <span className="text-xs text-muted-foreground">Needs an open widget</span>}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function AiAssistant({
   open,
   onOpenChange,
@@ -32,21 +184,49 @@ export function AiAssistant({
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }) {
-  const [messages, setMessages] = useState<Message[]>([
-    { role: "model", content: "Hello! I'm Giddy. How can I help you with Gidit today?" },
-  ]);
+  const [conversations, setConversations] = useState<ConversationRecord[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ChatMessageRecord[]>([]);
+  const [streaming, setStreaming] = useState<Streaming | null>(null);
+  const [error, setError] = useState<string | null>(null);
   const [input, setInput] = useState("");
-  const [isPending, startTransition] = useTransition();
+
+  const [query, setQuery] = useState("");
+  const [searchHits, setSearchHits] = useState<ConversationSearchHit[] | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState("");
+  const [busyCallId, setBusyCallId] = useState<string | null>(null);
+
   const scrollAreaRef = useRef<HTMLDivElement | null>(null);
+  // Replies can finish after the user has switched conversations.
+  const activeIdRef = useRef<string | null>(null);
+  activeIdRef.current = activeId;
 
-  const suggestedPrompts = [
-    "How do I add a widget?",
-    "Give me a productivity tip",
-    "I have some feedback",
-    "What is my schedule today?",
-    "What am I forgetting?",
-    "Chat with a representative",
-  ];
+  const refreshConversations = useCallback(async () => {
+    try {
+      setConversations(await listConversations());
+    } catch (err) {
+      console.error("Failed to load conversations:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) void refreshConversations();
+  }, [open, refreshConversations]);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setSearchHits(null);
+      return;
+    }
+    const timer = setTimeout(() => {
+      searchConversations(trimmed)
+        .then(setSearchHits)
+        .catch((err) => console.error("Conversation search failed:", err));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
 
   useEffect(() => {
     if (scrollAreaRef.current) {
@@ -55,59 +235,153 @@ export function AiAssistant({
         behavior: "smooth",
       });
     }
-  }, [messages]);
-
-  const sendMessage = (messageContent: string) => {
-    if (!messageContent.trim() || isPending) return;
-
-    const userMessage: Message = { role: "user", content: messageContent };
-
-    // Add the user message immediately and then start the async assistant call.
-    setMessages((prev) => {
-      const next = [...prev, userMessage];
-
-      startTransition(async () => {
-        try {
-          // Send the conversation history (excluding the pending user message when appropriate).
-          const history = next.slice(0, -1);
-          const result = await chatAssistant({ history, message: messageContent });
-          const aiMessage: Message = { role: "model", content: result.response ?? "" };
-          setMessages((prev2) => [...prev2, aiMessage]);
-        } catch (error) {
-          console.error("AI Assistant Error:", error);
-          const errorMessage: Message = {
-            role: "model",
-            content:
-              "Sorry, I'm having trouble connecting right now. Please try again later.",
-          };
-          setMessages((prev2) => [...prev2, errorMessage]);
-        }
+  }, [messages, streaming?.text]);
+
+  const openConversation = async (id: string) => {
+    setError(null);
+    setActiveId(id);
+    try {
+      const found = await getConversation(id);
+      if (activeIdRef.current !== id) return;
+      setMessages(found?.messages ?? []);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const startNewConversation = () => {
+    setActiveId(null);
+    setMessages([]);
+    setError(null);
+  };
+
+  const send = async (messageContent: string) => {
+    if (!messageContent.trim() || streaming) return;
+    setError(null);
+
+    let conversationId = activeId;
+    try {
+      if (!conversationId) {
+        conversationId = (await createConversation()).id;
+        setActiveId(conversationId);
+        activeIdRef.current = conversationId;
+      }
+      const id = conversationId;
+      setStreaming({ conversationId: id, text: "" });
+
+      const sent = await sendMessage(id, messageContent, {
+        onToken: (delta) =>
+          setStreaming((prev) => (prev && prev.conversationId === id ? { ...prev, text: prev.text + delta } : prev)),
+      });
+      if (activeIdRef.current === id) setMessages((prev) => [...prev, sent.userMessage]);
+      void refreshConversations();
+
+      const { message } = await sent.reply;
+      if (message && activeIdRef.current === id) setMessages((prev) => [...prev, message]);
+    } catch (err) {
+      console.error("AI Assistant Error:", err);
+      if (activeIdRef.current === conversationId) {
+        setError("Sorry, I'm having trouble connecting right now. Please try again later.");
+      }
+    } finally {
+      setStreaming(null);
+      void refreshConversations();
+    }
+  };
+
+  const handleToolCall = async (call: ToolCallRecord, confirmed: boolean) => {
+    if (busyCallId || streaming) return;
+    const id = call.conversationId;
+    setError(null);
+    setBusyCallId(call.id);
+    try {
+      const outcome = confirmed ? await runToolCall(call) : ({ status: "rejected" } as const);
+      // The follow-up can start streaming before respondToToolCall resolves.
+      setStreaming({ conversationId: id, text: "" });
+      const { toolCall, reply } = await respondToToolCall(call.id, outcome, {
+        onToken: (delta) =>
+          setStreaming((prev) => (prev && prev.conversationId === id ? { ...prev, text: prev.text + delta } : prev)),
       });
+      if (activeIdRef.current === id) {
+        setMessages((prev) =>
+          prev.map((message) =>
+            message.id === toolCall.messageId
+              ? { ...message, toolCalls: message.toolCalls.map((c) => (c.id === toolCall.id ? toolCall : c)) }
+              : message
+          )
+        );
+      }
+      setBusyCallId(null);
+      if (!reply) return;
 
-      return next;
-    });
+      const { message } = await reply;
+      if (message && activeIdRef.current === id) setMessages((prev) => [...prev, message]);
+    } catch (err) {
+      console.error("AI Assistant Error:", err);
+      if (activeIdRef.current === id) setError((err as Error).message);
+    } finally {
+      setBusyCallId(null);
+      setStreaming(null);
+      void refreshConversations();
+    }
+  };
+
+  const handleStop = () => {
+    if (streaming) void stopReply(streaming.conversationId);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     const trimmed = input.trim();
     if (!trimmed) return;
-    sendMessage(trimmed);
+    void send(trimmed);
     setInput("");
   };
 
   const handleSuggestionClick = (prompt: string) => {
     setInput("");
-    sendMessage(prompt);
+    void send(prompt);
   };
 
-  const showSuggestedPrompts =
-    messages.length === 1 ||
-    (messages[messages.length - 1].role === "model" && !isPending);
+  const beginRename = (conversation: ConversationRecord) => {
+    setEditingId(conversation.id);
+    setEditTitle(conversation.title);
+  };
+
+  const commitRename = async () => {
+    const id = editingId;
+    const title = editTitle.trim();
+    setEditingId(null);
+    if (!id || !title) return;
+    try {
+      await renameConversation(id, title);
+      await refreshConversations();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleDelete = async (conversation: ConversationRecord) => {
+    if (!window.confirm(`Delete "${conversation.title}"? This cannot be undone.`)) return;
+    try {
+      await deleteConversation(conversation.id);
+      if (activeId === conversation.id) startNewConversation();
+      setSearchHits((prev) => prev?.filter((hit) => hit.conversation.id !== conversation.id) ?? null);
+      await refreshConversations();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const isStreamingHere = !!streaming && streaming.conversationId === activeId;
+  const showSuggestedPrompts = messages.length === 0 && !streaming;
+
+  const sidebarItems: Array<{ conversation: ConversationRecord; snippet: string | null }> =
+    searchHits ?? conversations.map((conversation) => ({ conversation, snippet: null }));
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[425px] md:max-w-[600px] flex flex-col h-[80vh]">
+      <DialogContent className="sm:max-w-[425px] md:max-w-[900px] flex flex-col h-[80vh]">
         <DialogHeader>
           <DialogTitle>Giddy</DialogTitle>
           <DialogDescription>
@@ -115,76 +389,147 @@ export function AiAssistant({
           </DialogDescription>
         </DialogHeader>
 
-        <ScrollArea className="flex-grow -mx-6" ref={scrollAreaRef}>
-          <div className="px-6 space-y-4">
-            {messages.map((message, index) => (
-              <div
-                key={index}
-                className={cn(
-                  "flex items-start gap-3",
-                  message.role === "user" ? "justify-end" : "justify-start"
-                )}
-              >
-                {message.role === "model" && (
-                  <Avatar className="h-8 w-8">
-                    <AvatarFallback>
-                      <Bot className="w-4 h-4" />
-                    </AvatarFallback>
-                  </Avatar>
+        <div className="flex flex-grow min-h-0 gap-4">
+          <aside className="hidden md:flex w-56 flex-col gap-2 border-r pr-4">
+            <Button variant="outline" size="sm" onClick={startNewConversation}>
+              <MessageSquarePlus className="w-4 h-4 mr-2" />
+              New chat
+            </Button>
+            <div className="relative">
+              <Search className="absolute left-2 top-2.5 w-4 h-4 text-muted-foreground" />
+              <Input
+                value={query}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setQuery(e.target.value)}
+                placeholder="Search chats..."
+                className="pl-8"
+              />
+            </div>
+            <ScrollArea className="flex-grow">
+              <div className="space-y-1">
+                {sidebarItems.length === 0 && (
+                  <p className="text-xs text-muted-foreground px-2 py-4">
+                    {searchHits ? "No matching chats." : "No saved chats yet."}
+                  </p>
                 )}
+                {sidebarItems.map(({ conversation, snippet }) => (
+                  <div
+                    key={conversation.id}
+                    className={cn(
+                      "group rounded-md px-2 py-1.5 text-sm cursor-pointer hover:bg-secondary",
+                      conversation.id === activeId && "bg-secondary"
+                    )}
+                    onClick={() => editingId !== conversation.id && void openConversation(conversation.id)}
+                  >
+                    {editingId === conversation.id ? (
+                      <div className="flex items-center gap-1">
+                        <Input
+                          autoFocus
+                          value={editTitle}
+                          className="h-7 text-sm"
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEditTitle(e.target.value)}
+                          onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+                            if (e.key === "Enter") void commitRename();
+                            if (e.key === "Escape") setEditingId(null);
+                          }}
+                        />
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => void commitRename()}>
+                          <Check className="w-3 h-3" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEditingId(null)}>
+                          <X className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-1">
+                        <span className="flex-grow truncate">{conversation.title}</span>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                          aria-label="Rename chat"
+                          onClick={(e: React.MouseEvent) => {
+                            e.stopPropagation();
+                            beginRename(conversation);
+                          }}
+                        >
+                          <Pencil className="w-3 h-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                          aria-label="Delete chat"
+                          onClick={(e: React.MouseEvent) => {
+                            e.stopPropagation();
+                            void handleDelete(conversation);
+                          }}
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    )}
+                    {snippet && <p className="text-xs text-muted-foreground truncate">{snippet}</p>}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </aside>
+
+          <ScrollArea className="flex-grow" ref={scrollAreaRef}>
+            <div className="px-2 space-y-4">
+              <MessageBubble role="assistant" content={GREETING} />
 
-                <div
-                  className={cn(
-                    "p-3 rounded-lg max-w-[80%]",
-                    message.role === "user"
-                      ? "bg-primary text-primary-foreground"
-                      : "bg-secondary"
+              {messages.map((message) => (
+                <React.Fragment key={message.id}>
+                  {(message.content || message.toolCalls.length === 0) && (
+                    <MessageBubble role={message.role} content={message.content} />
                   )}
-                >
-                  <p className="text-sm whitespace-pre-wrap">{message.content}</p>
-                </div>
+                  {message.citations.length > 0 && <Citations citations={message.citations} />}
+                  {message.toolCalls.map((call) => (
+                    <ToolCallCard
+                      key={call.id}
+                      call={call}
+                      busy={busyCallId === call.id}
+                      disabled={!!streaming || (!!busyCallId && busyCallId !== call.id)}
+                      onRespond={(c, confirmed) => void handleToolCall(c, confirmed)}
+                    />
+                  ))}
+                </React.Fragment>
+              ))}
 
-                {message.role === "user" && (
-                  <Avatar className="h-8 w-8">
-                    <AvatarFallback>
-                      <User className="w-4 h-4" />
-                    </AvatarFallback>
-                  </Avatar>
-                )}
-              </div>
-            ))}
-
-            {isPending && (
-              <div className="flex items-start gap-3 justify-start">
-                <Avatar className="h-8 w-8">
-                  <AvatarFallback>
-                    <Bot className="w-4 h-4" />
-                  </AvatarFallback>
-                </Avatar>
-                <div className="p-3 rounded-lg bg-secondary">
-                  <Loader2 className="w-5 h-5 animate-spin" />
-                </div>
-              </div>
-            )}
+              {isStreamingHere && (
+                <MessageBubble
+                  role="assistant"
+                  content={
+                    streaming.text ? (
+                      <p className="text-sm whitespace-pre-wrap">{streaming.text}</p>
+                    ) : (
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                    )
+                  }
+                />
+              )}
 
-            {showSuggestedPrompts && (
-              <div className="flex flex-wrap gap-2 justify-start pl-12">
-                {suggestedPrompts.map((prompt) => (
-                  <Button
-                    key={prompt}
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleSuggestionClick(prompt)}
-                    disabled={isPending}
-                  >
-                    <Sparkles className="w-3 h-3 mr-2" />
-                    {prompt}
-                  </Button>
-                ))}
-              </div>
-            )}
-          </div>
-        </ScrollArea>
+              {error && <p className="text-sm text-destructive pl-12">{error}</p>}
+
+              {showSuggestedPrompts && (
+                <div className="flex flex-wrap gap-2 justify-start pl-12">
+                  {suggestedPrompts.map((prompt) => (
+                    <Button
+                      key={prompt}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleSuggestionClick(prompt)}
+                    >
+                      <Sparkles className="w-3 h-3 mr-2" />
+                      {prompt}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        </div>
 
         <DialogFooter>
           <form onSubmit={handleSubmit} className="w-full flex items-center gap-2">
@@ -194,11 +539,17 @@ export function AiAssistant({
                 setInput(e.target.value)
               }
               placeholder="Type your message..."
-              disabled={isPending}
+              disabled={!!streaming}
             />
-            <Button type="submit" disabled={isPending || !input.trim()}>
-              <Send className="w-4 h-4" />
-            </Button>
+            {streaming ? (
+              <Button type="button" variant="outline" onClick={handleStop} aria-label="Stop">
+                <Square className="w-4 h-4" />
+              </Button>
+            ) : (
+              <Button type="submit" disabled={!input.trim()}>
+                <Send className="w-4 h-4" />
+              </Button>
+            )}
           </form>
         </DialogFooter>
       </DialogContent>
@@ -19,6 +19,7 @@ import { ScrollArea } from "../ui/scroll-area";
 import { v4 as uuidv4 } from "uuid";
 import { cn } from "../../lib/utils";
 import { useVoiceRecognition } from "../../hooks/use-voice-recognition";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 type TriageItem = {
   id: string;
@@ -82,8 +83,8 @@ type BrainDumpTriageProps = {
 };
 
 export function BrainDumpTriage({ name = "Brain Dump Triage" }: BrainDumpTriageProps) {
-  const [brainDump, setBrainDump] = useState("");
-  const [items, setItems] = useState<TriageItem[]>([]);
+  const [brainDump, setBrainDump] = useWidgetState("brainDump", "");
+  const [items, setItems] = useWidgetState<TriageItem[]>("items", []);
   const [activeItem, setActiveItem] = useState<TriageItem | null>(null);
   const [isPending, startTransition] = useTransition();
   const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 8 } }));
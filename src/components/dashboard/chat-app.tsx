@@ -13,6 +13,7 @@ import { ScrollArea } from "../ui/scroll-area";
 import { MessageSquare, Send, Phone, Video, MoreVertical } from "lucide-react";
 import { cn } from "../../lib/utils";
 import { useToast } from "../../hooks/use-toast";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 type User = {
   id: string;
@@ -83,16 +84,15 @@ const mockMessages: Record<string, Message[]> = {
 
 export function ChatApp({ name = "Chat App" }: { name?: string }) {
   const [selectedUser, setSelectedUser] = useState<User>(mockUsers[0]);
-  const [messages, setMessages] = useState<Message[]>(
-    mockMessages[mockUsers[0].id] || []
-  );
+  const [conversations, setConversations] = useWidgetState<Record<string, Message[]>>("conversations", mockMessages);
   const [inputText, setInputText] = useState("");
   const { toast } = useToast();
   const scrollAreaRef = useRef<HTMLDivElement | null>(null);
 
-  useEffect(() => {
-    setMessages(mockMessages[selectedUser.id] || []);
-  }, [selectedUser]);
+  const messages = conversations[selectedUser.id] || [];
+
+  const addMessage = (userId: string, message: Message) =>
+    setConversations((prev) => ({ ...prev, [userId]: [...(prev[userId] || []), message] }));
 
   useEffect(() => {
     if (scrollAreaRef.current) {
@@ -111,7 +111,8 @@ export function ChatApp({ name = "Chat App" }: { name?: string }) {
       senderId: "me",
       timestamp: new Date(),
     };
-    setMessages((prev) => [...prev, newMessage]);
+    const userId = selectedUser.id;
+    addMessage(userId, newMessage);
     setInputText("");
 
     // Simulate a reply
@@ -119,10 +120,10 @@ export function ChatApp({ name = "Chat App" }: { name?: string }) {
       const reply: Message = {
         id: `m${Date.now() + 1}`,
         text: "This is an automated reply.",
-        senderId: selectedUser.id,
+        senderId: userId,
         timestamp: new Date(),
       };
-      setMessages((prev) => [...prev, reply]);
+      addMessage(userId, reply);
     }, 1500);
   };
 
@@ -1,9 +1,10 @@
-import { useState, useTransition, useEffect } from "react";
+import { useTransition, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../ui/card";
 import { Button } from "../ui/button";
 import { generateDailyTaskSuggestions } from "../../services/ai";
 import { Lightbulb, Loader2, Wand2 } from "lucide-react";
 import { ScrollArea } from "../ui/scroll-area";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 /**
  * Note:
@@ -21,7 +22,7 @@ type DailyTaskSuggestionsProps = {
 };
 
 export function DailyTaskSuggestions({ name = "Daily Suggestions" }: DailyTaskSuggestionsProps) {
-  const [suggestedTasks, setSuggestedTasks] = useState<string[]>([]);
+  const [suggestedTasks, setSuggestedTasks] = useWidgetState<string[]>("suggestedTasks", []);
   const [isPending, startTransition] = useTransition();
 
   const handleGenerateSuggestions = () => {
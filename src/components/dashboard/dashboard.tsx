@@ -41,6 +41,7 @@ import MemoryGame from "./memory-game";
 import { RockPaperScissors } from "./rock-paper-scissors";
 import { VirtualPet } from "./virtual-pet";
 import { FamilyAuthenticator } from "./family-authenticator";
+import { HouseholdLists } from "./household-lists";
 import {
   BrainCircuit,
   SlidersHorizontal,
@@ -104,6 +105,7 @@ import {
   MessageSquare,
   Image as ImageIcon,
   UserCheck,
+  Home,
 } from "lucide-react";
 import { SbarSynthesizer } from "./sbar-synthesizer";
 import { DateTimeDisplay } from "./date-time-display";
@@ -537,7 +539,16 @@ export const WIDGETS = {
     icon: ShieldCheck,
     category: WIDGET_CATEGORIES.Organization.name,
     initialWidth: 2,
-    initialHeight: 3,
+    initialHeight: 6,
+  },
+  HouseholdLists: {
+    id: "HouseholdLists",
+    name: "Household Lists",
+    component: <HouseholdLists />,
+    icon: Home,
+    category: WIDGET_CATEGORIES.Organization.name,
+    initialWidth: 2,
+    initialHeight: 5,
   },
   MoodTracker: {
     id: "MoodTracker",
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useTransition } from "react";
+import React, { useRef, useTransition } from "react";
 import {
   Card,
   CardContent,
@@ -22,6 +22,7 @@ import {
 import { useToast } from "../../hooks/use-toast";
 import { analyzeFoodPhoto } from "../../services/ai";
 import { v4 as uuidv4 } from "uuid";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 type Nutrient = {
   name: string;
@@ -91,8 +92,8 @@ const initialFoodLog: FoodItem[] = [
 ];
 
 export function DietaryTracker({ name = "Dietary Tracker" }: { name?: string }) {
-  const [nutrients, setNutrients] = useState(initialNutrients);
-  const [foodLog, setFoodLog] = useState<FoodItem[]>(initialFoodLog);
+  const [nutrients, setNutrients] = useWidgetState("nutrients", initialNutrients);
+  const [foodLog, setFoodLog] = useWidgetState<FoodItem[]>("foodLog", initialFoodLog);
   const [isAnalyzing, startTransition] = useTransition();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
@@ -2,11 +2,16 @@ import React, { useState, useRef } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../ui/card";
 import { Button } from "../ui/button";
 import { Input } from "../ui/input";
-import { extractDocumentDetails, type DocumentDetails } from "../../services/ai";
-import { generateHealthSummary, type GenerateHealthSummaryOutput } from "../../services/ai";
-import { extractReceiptData, type ReceiptData } from "../../services/ai";
-import { FileArchive, Upload, Loader2, FileText, Banknote, Heart, FileQuestion, Pill, CreditCard, Printer, Plus, Trash2 } from "lucide-react";
+import { FlowRunError, type DocumentDetails, type FlowInput, type FlowName, type FlowOutput, type GenerateHealthSummaryOutput, type ReceiptData } from "../../services/ai";
+import { startJob, type JobHandle } from "../../services/jobs";
+import { matchesQuery } from "../../services/tools";
+import { useToolExecutor } from "../../hooks/use-tool-executor";
+import { useWidgetState } from "../../hooks/use-widget-state";
+import { useSemanticIndex } from "../../hooks/use-semantic-index";
+import { fieldsToText } from "../../services/semantic-index";
+import { FileArchive, Upload, Loader2, FileText, Banknote, Heart, FileQuestion, Pill, CreditCard, Printer, Plus, Trash2, X } from "lucide-react";
 import { ScrollArea } from "../ui/scroll-area";
+import { Progress } from "../ui/progress";
 import { v4 as uuidv4 } from 'uuid';
 import {
   Accordion,
@@ -47,7 +52,17 @@ type DocumentRecord = {
   uploadedAt: Date;
   classification?: DocumentDetails;
   details?: ReceiptData | GenerateHealthSummaryOutput | DocumentDetails;
-  status: 'classifying' | 'extracting' | 'complete' | 'error';
+  status: 'classifying' | 'extracting' | 'complete' | 'error' | 'cancelled';
+  /** Latest stage reported by the running job; `percent` covers both steps (0..1). */
+  progress?: { stage: string; percent?: number };
+};
+
+const STEP_LABELS: Record<DocumentRecord['status'], string> = {
+  classifying: 'Classifying',
+  extracting: 'Extracting',
+  complete: 'Complete',
+  error: 'Error',
+  cancelled: 'Cancelled',
 };
 
 const EditableField = ({ value, onChange, className, as = "input", type = "text" }: { value: string | number | null | undefined, onChange: (value: string) => void, className?: string, as?: 'input' | 'textarea', type?: string }) => {
@@ -451,34 +466,88 @@ function DefaultDisplay({ data, onUpdate }: { data: DocumentDetails, onUpdate: (
 }
 
 export function DocumentRecords({ name = "Document Records" }: { name?: string }) {
-  const [records, setRecords] = useState<DocumentRecord[]>([]);
+  const [records, setRecords] = useWidgetState<DocumentRecord[]>("records", [], {
+    // Jobs do not outlive the app: documents still being read when it closed count as cancelled
+    restore: (saved) =>
+      saved.map((r) =>
+        r.status === "classifying" || r.status === "extracting" ? { ...r, status: "cancelled", progress: undefined } : r
+      ),
+  });
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const { aiProvider, apiKeys } = useSettings();
+  const { aiProvider } = useSettings();
   const { toast } = useToast();
   const printIframeRef = useRef<HTMLIFrameElement>(null);
 
+  // Running job per record, so the Cancel button can reach it.
+  const activeJobs = useRef(new Map<string, JobHandle<unknown>>());
+
+  useSemanticIndex("document", records, (r) =>
+    r.status === "complete"
+      ? { id: r.id, title: r.fileName, text: fieldsToText({ classification: r.classification, details: r.details }) }
+      : null
+  );
+
+  useToolExecutor("searchDocuments", ({ query }) =>
+    records
+      .filter((r) => matchesQuery(query, r.fileName, JSON.stringify(r.classification ?? {}), JSON.stringify(r.details ?? {})))
+      .map((r) => ({
+        source: "Document Records",
+        id: r.id,
+        fileName: r.fileName,
+        uploadedAt: r.uploadedAt.toISOString(),
+        status: r.status,
+        classification: r.classification,
+        details: r.details,
+      }))
+  );
+
+  const updateRecord = (recordId: string, patch: Partial<DocumentRecord>) => {
+    setRecords(prev => prev.map(r => r.id === recordId ? { ...r, ...patch } : r));
+  };
+
+  // Run one step as a background job; `offset` maps the step's progress onto its half of the bar.
+  const runStep = async <N extends FlowName>(recordId: string, flow: N, input: FlowInput<N>, offset: number): Promise<FlowOutput<N>> => {
+    const job = await startJob(flow, input, {
+      onProgress: (stage, percent) => updateRecord(recordId, { progress: { stage, percent: offset + (percent ?? 0) / 2 } }),
+    });
+    activeJobs.current.set(recordId, job);
+    try {
+      return await job.result;
+    } finally {
+      activeJobs.current.delete(recordId);
+    }
+  };
+
+  const handleCancel = (recordId: string) => {
+    void activeJobs.current.get(recordId)?.cancel();
+  };
+
   const processDocument = async (record: DocumentRecord) => {
     try {
-      // Step 1: Classify the document (delegated to services/ai which should IPC to main)
-      const classificationResult = await extractDocumentDetails({ documentDataUri: record.dataUri });
-      setRecords(prev => prev.map(r => r.id === record.id ? { ...r, status: 'extracting', classification: classificationResult } : r));
+      // Step 1: Classify the document (runs as a job in the main process)
+      const classificationResult = await runStep(record.id, 'extractDocumentDetails', { documentDataUri: record.dataUri }, 0);
+      updateRecord(record.id, { status: 'extracting', classification: classificationResult, progress: { stage: 'Classified', percent: 0.5 } });
 
       // Step 2: Based on classification, call the specific flow if needed
-      let finalDetails: any;
+      let finalDetails: DocumentRecord['details'];
       const docType = (classificationResult.documentType || "").toLowerCase();
 
       if (docType.includes('receipt')) {
-        finalDetails = await extractReceiptData({ receiptDataUri: record.dataUri, config: { provider: aiProvider, apiKey: apiKeys?.[aiProvider] } });
+        finalDetails = await runStep(record.id, 'extractReceiptData', { receiptDataUri: record.dataUri, config: { provider: aiProvider } }, 0.5);
       } else if (docType.includes('medical') || docType.includes('health')) {
-        finalDetails = await generateHealthSummary({ documentDataUri: record.dataUri });
+        finalDetails = await runStep(record.id, 'generateHealthSummary', { documentDataUri: record.dataUri }, 0.5);
       } else {
         // For bank statements, invoices, and other types, the general extraction is often sufficient.
         finalDetails = classificationResult;
       }
 
-      setRecords(prev => prev.map(r => r.id === record.id ? { ...r, status: 'complete', details: finalDetails } : r));
+      updateRecord(record.id, { status: 'complete', details: finalDetails, progress: undefined });
 
     } catch (error) {
+      if (error instanceof FlowRunError && error.kind === 'cancelled') {
+        updateRecord(record.id, { status: 'cancelled', progress: undefined });
+        return;
+      }
       // Keep errors local and notify user
       // console.error intentionally left for developer visibility
       // but in production consider routing to centralized logger via IPC
@@ -707,7 +776,20 @@ export function DocumentRecords({ name = "Document Records" }: { name?: string }
                           </div>
                         ) :
                           record.status === 'error' ? <p className="text-destructive text-sm p-4">Could not process document.</p> :
-                            <div className="flex items-center gap-2 p-4"><Loader2 className="w-4 h-4 animate-spin" /> <p>Processing... Current step: {record.status}</p></div>}
+                          record.status === 'cancelled' ? <p className="text-muted-foreground text-sm p-4">Processing was cancelled.</p> :
+                            <div className="space-y-2 p-4">
+                              <div className="flex items-center gap-2">
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                                <p className="flex-grow text-sm">
+                                  {STEP_LABELS[record.status]}{record.progress ? ` · ${record.progress.stage}` : '...'}
+                                </p>
+                                <Button variant="ghost" size="sm" onClick={() => handleCancel(record.id)}>
+                                  <X className="mr-2 h-4 w-4" />
+                                  Cancel
+                                </Button>
+                              </div>
+                              <Progress value={Math.round((record.progress?.percent ?? 0) * 100)} className="h-2" />
+                            </div>}
                       </AccordionContent>
                     </AccordionItem>
                   ))}
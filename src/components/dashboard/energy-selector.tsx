@@ -3,6 +3,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../ui
 import { Button } from "../ui/button";
 import { BatteryCharging, BatteryLow, BatteryMedium, BatteryFull } from "lucide-react";
 import { cn } from "../../lib/utils";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 const energyLevels = [
   { level: "low", icon: <BatteryLow className="w-5 h-5" />, label: "Low" },
@@ -15,7 +16,7 @@ type EnergySelectorProps = {
 };
 
 export function EnergySelector({ name = "Energy Selector" }: EnergySelectorProps) {
-  const [selectedEnergy, setSelectedEnergy] = useState<string | null>(null);
+  const [selectedEnergy, setSelectedEnergy] = useWidgetState<string | null>("energy", null);
 
   return (
     <Card className="flex flex-col h-full">
@@ -1,62 +1,60 @@
-import React, { useState, useEffect } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../ui/card";
 import { Button } from "../ui/button";
 import { Input } from "../ui/input";
+import { Label } from "../ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../ui/tabs";
-import { ShieldCheck, ShieldAlert, KeyRound, HelpCircle, RefreshCw, Eye, EyeOff } from "lucide-react";
+import { ShieldCheck, ShieldAlert, KeyRound, Copy, Trash2, QrCode, Plus, Download, Upload } from "lucide-react";
 import { cn } from "../../lib/utils";
-
-const securityQuestions = [
-  { question: "What was the name of your first pet?", answer: "Buddy" },
-  { question: "In what city did your parents meet?", answer: "San Diego" },
-  { question: "What is your mother's maiden name?", answer: "Smith" },
-  { question: "What was the model of your first car?", answer: "Honda Civic" },
-  { question: "What is your favorite childhood book?", answer: "The Giving Tree" },
-];
+import { useToast } from "../../hooks/use-toast";
+import { hasBridge, invoke } from "../../services/ipc";
+import {
+  addAccount,
+  addPhrase,
+  exportBackup,
+  getCodes,
+  importBackup,
+  listAccounts,
+  listPhrases,
+  readQrImage,
+  removeAccount,
+  removePhrase,
+  verifyPhrase,
+  type AuthenticatorAccount,
+  type AuthenticatorCode,
+  type FamilyPhrase,
+} from "../../services/authenticator";
 
 type VerificationStatus = "idle" | "success" | "fail";
 
+/** "123456" -> "123 456", "12345678" -> "1234 5678". */
+const formatCode = (code: string) => {
+  const half = Math.ceil(code.length / 2);
+  return `${code.slice(0, half)} ${code.slice(half)}`;
+};
+
+/**
+ * Time-based one-time codes (RFC 6238) for the family's accounts, plus verification phrases
+ * to check that a caller really is who they say. Secrets and answers stay encrypted in the
+ * main process; this widget only sees codes and whether an answer matched.
+ */
 export function FamilyAuthenticator({ name = "Family Authenticator" }: { name?: string }) {
-  const [generatedCode, setGeneratedCode] = useState("");
-  const [verificationInput, setVerificationInput] = useState("");
-  const [verificationStatus, setVerificationStatus] = useState<VerificationStatus>("idle");
-  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [isAnswerVisible, setIsAnswerVisible] = useState(false);
-
-  const generateNewCode = () => {
-    const code = Math.floor(100000 + Math.random() * 900000).toString();
-    setGeneratedCode(code);
-  };
+  const { toast } = useToast();
 
-  useEffect(() => {
-    generateNewCode();
-    setCurrentQuestionIndex(Math.floor(Math.random() * securityQuestions.length));
-  }, []);
+  if (!hasBridge()) {
+    return (
+      <Card className="flex flex-col h-full">
+        <CardHeader>
+          <CardTitle>{name}</CardTitle>
+          <CardDescription>The authenticator keeps its secrets in the desktop app.</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
 
-  const handleVerifyCode = () => {
-    // Local verification against the generated code (UI-side demo).
-    if (verificationInput === generatedCode && generatedCode !== "") {
-      setVerificationStatus("success");
-    } else {
-      setVerificationStatus("fail");
-    }
-  };
-
-  const getNextQuestion = () => {
-    setIsAnswerVisible(false);
-    setCurrentQuestionIndex((prevIndex) => (prevIndex + 1) % securityQuestions.length);
-  };
-  
-  const statusIcons: Record<VerificationStatus, React.ReactNode> = {
-    idle: <KeyRound className="w-12 h-12 text-muted-foreground" />,
-    success: <ShieldCheck className="w-12 h-12 text-green-500" />,
-    fail: <ShieldAlert className="w-12 h-12 text-destructive" />,
-  };
-  
-  const statusMessages: Record<VerificationStatus, { text: string, className: string }> = {
-    idle: { text: "Enter the 6-digit code to verify.", className: "text-muted-foreground" },
-    success: { text: "Verification Successful! Identity confirmed.", className: "text-green-500 font-semibold" },
-    fail: { text: "Verification Failed. Code is incorrect.", className: "text-destructive font-semibold" },
+  const report = (title: string) => (err: unknown) => {
+    console.error(err);
+    toast({ title, description: (err as Error)?.message, variant: "destructive" });
   };
 
   return (
@@ -66,74 +64,353 @@ export function FamilyAuthenticator({ name = "Family Authenticator" }: { name?:
           <ShieldCheck className="w-6 h-6 text-primary" />
           <div>
             <CardTitle>{name}</CardTitle>
-            <CardDescription>Verify the identity of a family member.</CardDescription>
+            <CardDescription>Sign-in codes and family verification phrases.</CardDescription>
           </div>
         </div>
       </CardHeader>
-      <CardContent className="flex-grow flex flex-col">
-        <Tabs defaultValue="verify" className="flex-1 flex flex-col">
+      <CardContent className="flex-grow flex flex-col min-h-0">
+        <Tabs defaultValue="codes" className="flex-1 flex flex-col min-h-0">
           <TabsList className="grid w-full grid-cols-3">
-            <TabsTrigger value="verify">Verify Code</TabsTrigger>
-            <TabsTrigger value="get">Get Code</TabsTrigger>
-            <TabsTrigger value="questions">Questions</TabsTrigger>
+            <TabsTrigger value="codes">Codes</TabsTrigger>
+            <TabsTrigger value="phrases">Verify</TabsTrigger>
+            <TabsTrigger value="backup">Backup</TabsTrigger>
           </TabsList>
-          
-          <TabsContent value="verify" className="flex-1 flex flex-col justify-center items-center gap-4 text-center">
-            {statusIcons[verificationStatus]}
-            <p className={cn("text-sm h-10", statusMessages[verificationStatus].className)}>
-              {statusMessages[verificationStatus].text}
-            </p>
-            <div className="flex w-full max-w-sm items-center space-x-2">
-              <Input
-                type="text"
-                placeholder="_ _ _ _ _ _"
-                maxLength={6}
-                value={verificationInput}
-                onChange={(e) => {
-                  setVerificationInput(e.target.value);
-                  setVerificationStatus("idle");
-                }}
-                className="text-center text-2xl font-mono tracking-widest h-14"
-              />
-              <Button onClick={handleVerifyCode}>Verify</Button>
-            </div>
+          <TabsContent value="codes" className="flex-1 min-h-0">
+            <CodesTab report={report} />
           </TabsContent>
-          
-          <TabsContent value="get" className="flex-1 flex flex-col justify-center items-center gap-4 text-center">
-            <KeyRound className="w-12 h-12 text-primary" />
-            <p className="text-muted-foreground">Share this code with your family member.</p>
-            <div className="p-4 bg-secondary rounded-lg">
-              <p className="text-5xl font-mono tracking-widest text-primary">{generatedCode}</p>
-            </div>
-            <Button onClick={generateNewCode} variant="outline">
-              <RefreshCw className="w-4 h-4 mr-2"/>
-              Generate New Code
-            </Button>
+          <TabsContent value="phrases" className="flex-1 min-h-0">
+            <PhrasesTab report={report} />
           </TabsContent>
-          
-          <TabsContent value="questions" className="flex-1 flex flex-col justify-center items-center gap-4 text-center">
-            <HelpCircle className="w-12 h-12 text-primary" />
-            <p className="text-muted-foreground">Ask the person this question to verify them.</p>
-            <Card className="w-full max-w-sm p-4">
-              <p className="font-semibold">{securityQuestions[currentQuestionIndex].question}</p>
-              {isAnswerVisible && (
-                 <p className="text-lg text-primary font-bold mt-2 animate-in fade-in">
-                    {securityQuestions[currentQuestionIndex].answer}
-                </p>
-              )}
-            </Card>
-            <div className="flex gap-2">
-                 <Button onClick={() => setIsAnswerVisible(!isAnswerVisible)} variant="secondary">
-                    {isAnswerVisible ? <EyeOff className="w-4 h-4 mr-2"/> : <Eye className="w-4 h-4 mr-2"/>}
-                    {isAnswerVisible ? "Hide Answer" : "Show Answer"}
-                </Button>
-                <Button onClick={getNextQuestion} variant="outline">
-                    Next Question
-                </Button>
-            </div>
+          <TabsContent value="backup" className="flex-1 min-h-0">
+            <BackupTab report={report} />
           </TabsContent>
         </Tabs>
       </CardContent>
     </Card>
   );
 }
+
+type TabProps = { report: (title: string) => (err: unknown) => void };
+
+function CodesTab({ report }: TabProps) {
+  const [accounts, setAccounts] = useState<AuthenticatorAccount[]>([]);
+  const [codes, setCodes] = useState<Record<string, AuthenticatorCode>>({});
+  const [now, setNow] = useState(Date.now());
+  const [uri, setUri] = useState("");
+  const fileRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const refresh = async () => {
+    const [list, current] = await Promise.all([listAccounts(), getCodes()]);
+    setAccounts(list);
+    setCodes(Object.fromEntries(current.map((c) => [c.id, c])));
+  };
+
+  useEffect(() => {
+    refresh().catch(report("Authenticator unavailable"));
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Fetch the next codes as soon as any current one runs out
+  useEffect(() => {
+    const stale = Object.values(codes).some((c) => Date.parse(c.expiresAt) <= now);
+    if (stale) {
+      getCodes()
+        .then((current) => setCodes(Object.fromEntries(current.map((c) => [c.id, c]))))
+        .catch(report("Codes not updated"));
+    }
+  }, [now]);
+
+  const add = async (link: string) => {
+    try {
+      const account = await addAccount(link);
+      setUri("");
+      await refresh();
+      toast({ title: "Account added", description: account.issuer ? `${account.issuer} (${account.label})` : account.label });
+    } catch (err) {
+      report("Account not added")(err);
+    }
+  };
+
+  const handleQrFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const text = await readQrImage(file);
+      if (!text) {
+        toast({ title: "No QR code found", description: "Try a sharper or larger image of the code.", variant: "destructive" });
+        return;
+      }
+      await add(text);
+    } catch (err) {
+      report("Image not read")(err);
+    }
+  };
+
+  const copy = async (code: string) => {
+    await navigator.clipboard.writeText(code);
+    toast({ title: "Code copied" });
+  };
+
+  return (
+    <div className="h-full flex flex-col gap-3 pt-2">
+      <div className="flex gap-2">
+        <Input
+          placeholder="otpauth://totp/..."
+          value={uri}
+          onChange={(e) => setUri(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && uri.trim() && add(uri)}
+          aria-label="otpauth link"
+        />
+        <Button size="icon" onClick={() => add(uri)} disabled={!uri.trim()} aria-label="Add account">
+          <Plus className="w-4 h-4" />
+        </Button>
+        <input ref={fileRef} type="file" accept="image/*" className="hidden" onChange={handleQrFile} />
+        <Button size="icon" variant="outline" onClick={() => fileRef.current?.click()} aria-label="Add from QR code image">
+          <QrCode className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-auto space-y-2">
+        {accounts.map((account) => {
+          const current = codes[account.id];
+          const remaining = current ? Math.max(0, Math.ceil((Date.parse(current.expiresAt) - now) / 1000)) : 0;
+          return (
+            <div key={account.id} className="flex items-center gap-3 p-2 rounded-md bg-secondary/50">
+              <div className="flex-1 min-w-0">
+                <p className="text-xs text-muted-foreground truncate">
+                  {account.issuer ? `${account.issuer} · ${account.label}` : account.label}
+                </p>
+                <p className="text-2xl font-mono tracking-widest text-primary">{current ? formatCode(current.code) : "··· ···"}</p>
+                <div className="h-1 mt-1 rounded bg-muted overflow-hidden">
+                  <div
+                    className={cn("h-full transition-all", remaining <= 5 ? "bg-destructive" : "bg-primary")}
+                    style={{ width: `${(remaining / account.period) * 100}%` }}
+                  />
+                </div>
+              </div>
+              <span className="w-6 text-right text-sm tabular-nums text-muted-foreground">{remaining}</span>
+              <Button size="icon" variant="ghost" onClick={() => current && copy(current.code)} aria-label="Copy code">
+                <Copy className="w-4 h-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => removeAccount(account.id).then(refresh).catch(report("Account not removed"))}
+                aria-label={`Remove ${account.label}`}
+              >
+                <Trash2 className="w-4 h-4 text-muted-foreground" />
+              </Button>
+            </div>
+          );
+        })}
+        {accounts.length === 0 && (
+          <div className="flex flex-col items-center gap-2 py-6 text-center text-sm text-muted-foreground">
+            <KeyRound className="w-10 h-10" />
+            Paste an otpauth:// link or pick a screenshot of a setup QR code.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function PhrasesTab({ report }: TabProps) {
+  const [phrases, setPhrases] = useState<FamilyPhrase[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [answer, setAnswer] = useState("");
+  const [status, setStatus] = useState<VerificationStatus>("idle");
+  const [draft, setDraft] = useState({ member: "", prompt: "", answer: "" });
+  const [adding, setAdding] = useState(false);
+
+  const refresh = () => listPhrases().then(setPhrases).catch(report("Phrases unavailable"));
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const selected = phrases.find((p) => p.id === selectedId) ?? null;
+
+  const handleVerify = async () => {
+    if (!selected) return;
+    try {
+      setStatus((await verifyPhrase(selected.id, answer)) ? "success" : "fail");
+    } catch (err) {
+      report("Answer not checked")(err);
+    }
+  };
+
+  const handleAdd = async () => {
+    try {
+      const phrase = await addPhrase(draft);
+      setDraft({ member: "", prompt: "", answer: "" });
+      setAdding(false);
+      await refresh();
+      setSelectedId(phrase.id);
+    } catch (err) {
+      report("Phrase not saved")(err);
+    }
+  };
+
+  const statusIcons: Record<VerificationStatus, React.ReactNode> = {
+    idle: <KeyRound className="w-10 h-10 text-muted-foreground" />,
+    success: <ShieldCheck className="w-10 h-10 text-green-500" />,
+    fail: <ShieldAlert className="w-10 h-10 text-destructive" />,
+  };
+
+  const statusMessages: Record<VerificationStatus, { text: string; className: string }> = {
+    idle: { text: "Ask the question and type the answer you hear.", className: "text-muted-foreground" },
+    success: { text: "The answer matches.", className: "text-green-500 font-semibold" },
+    fail: { text: "The answer does not match.", className: "text-destructive font-semibold" },
+  };
+
+  return (
+    <div className="h-full flex flex-col gap-3 pt-2 overflow-auto">
+      <div className="flex flex-wrap gap-2">
+        {phrases.map((phrase) => (
+          <div key={phrase.id} className="flex items-center">
+            <Button
+              size="sm"
+              variant={phrase.id === selectedId ? "default" : "outline"}
+              onClick={() => {
+                setSelectedId(phrase.id);
+                setAnswer("");
+                setStatus("idle");
+              }}
+            >
+              {phrase.member}
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8"
+              onClick={() => removePhrase(phrase.id).then(refresh).catch(report("Phrase not removed"))}
+              aria-label={`Remove phrase for ${phrase.member}`}
+            >
+              <Trash2 className="w-3 h-3 text-muted-foreground" />
+            </Button>
+          </div>
+        ))}
+        <Button size="sm" variant="ghost" onClick={() => setAdding(!adding)}>
+          <Plus className="w-4 h-4 mr-1" /> Phrase
+        </Button>
+      </div>
+
+      {adding && (
+        <div className="space-y-2 p-3 border rounded-lg">
+          <Input placeholder="Who is it for? e.g. Grandma" value={draft.member} onChange={(e) => setDraft({ ...draft, member: e.target.value })} />
+          <Input placeholder="Question or phrase to ask" value={draft.prompt} onChange={(e) => setDraft({ ...draft, prompt: e.target.value })} />
+          <Input
+            type="password"
+            placeholder="Expected answer (stored hashed)"
+            value={draft.answer}
+            onChange={(e) => setDraft({ ...draft, answer: e.target.value })}
+          />
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="ghost" onClick={() => setAdding(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleAdd} disabled={!draft.member.trim() || !draft.prompt.trim() || !draft.answer.trim()}>
+              Save
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {selected ? (
+        <div className="flex flex-col items-center gap-3 text-center">
+          {statusIcons[status]}
+          <p className="font-semibold">{selected.prompt}</p>
+          <p className={cn("text-sm", statusMessages[status].className)}>{statusMessages[status].text}</p>
+          <div className="flex w-full max-w-sm items-center space-x-2">
+            <Input
+              placeholder="Their answer"
+              value={answer}
+              onChange={(e) => {
+                setAnswer(e.target.value);
+                setStatus("idle");
+              }}
+              onKeyDown={(e) => e.key === "Enter" && answer && handleVerify()}
+            />
+            <Button onClick={handleVerify} disabled={!answer}>
+              Verify
+            </Button>
+          </div>
+        </div>
+      ) : (
+        !adding && (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            {phrases.length ? "Pick who you are talking to." : "Add a phrase only your family knows the answer to."}
+          </p>
+        )
+      )}
+    </div>
+  );
+}
+
+function BackupTab({ report }: TabProps) {
+  const [passphrase, setPassphrase] = useState("");
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const handleExport = async () => {
+    setBusy(true);
+    try {
+      const content = await exportBackup(passphrase);
+      const bytes = new TextEncoder().encode(content);
+      const dataBase64 = btoa(Array.from(bytes, (b) => String.fromCharCode(b)).join(""));
+      const fileName = `gidit-authenticator-${new Date().toISOString().split("T")[0]}.json`;
+      const { saved } = await invoke("files:save", { fileName, mimeType: "application/json", dataBase64 });
+      if (saved) toast({ title: "Backup saved", description: "Keep the passphrase: the backup cannot be opened without it." });
+    } catch (err) {
+      report("Backup not saved")(err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setBusy(true);
+    try {
+      const file = await invoke("files:open", { extensions: ["json"] });
+      if (!file) return;
+      const added = await importBackup(file.content, passphrase);
+      toast({ title: "Backup restored", description: `${added.accounts} accounts and ${added.phrases} phrases added.` });
+      setPassphrase("");
+    } catch (err) {
+      report("Backup not restored")(err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col gap-4 pt-2">
+      <p className="text-sm text-muted-foreground">
+        The backup holds your accounts and phrases, encrypted with its own passphrase so it can be restored on another
+        computer or profile.
+      </p>
+      <div className="space-y-2">
+        <Label htmlFor="authenticator-passphrase">Backup passphrase</Label>
+        <Input
+          id="authenticator-passphrase"
+          type="password"
+          autoComplete="off"
+          placeholder="At least 8 characters"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button onClick={handleExport} disabled={busy || passphrase.length < 8}>
+          <Download className="w-4 h-4 mr-2" /> Export
+        </Button>
+        <Button variant="outline" onClick={handleImport} disabled={busy || !passphrase}>
+          <Upload className="w-4 h-4 mr-2" /> Import
+        </Button>
+      </div>
+    </div>
+  );
+}
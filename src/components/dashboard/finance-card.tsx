@@ -1,4 +1,4 @@
-import React, { useState, useTransition, useRef } from "react";
+import React, { useTransition, useRef } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../ui/card";
 import { Button } from "../ui/button";
 import { Input } from "../ui/input";
@@ -9,6 +9,7 @@ import { ScrollArea } from "../ui/scroll-area";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableFooter } from "../ui/table";
 import { useSettings } from "../../context/settings-context";
 import { useToast } from "../../hooks/use-toast";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 type FinanceCardProps = {
   name?: string;
@@ -57,10 +58,10 @@ const preprocessImage = (file: File, maxDimension: number): Promise<string> => {
 };
 
 export function FinanceCard({ name = "Finance Overview" }: FinanceCardProps) {
-  const [extractedData, setExtractedData] = useState<ReceiptData | null>(null);
+  const [extractedData, setExtractedData] = useWidgetState<ReceiptData | null>("receipt", null);
   const [isPending, startTransition] = useTransition();
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const { aiProvider, apiKeys } = useSettings();
+  const { aiProvider, apiKeyStatus } = useSettings();
   const { toast } = useToast();
 
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -79,7 +80,6 @@ export function FinanceCard({ name = "Finance Overview" }: FinanceCardProps) {
             receiptDataUri: dataUri,
             config: {
               provider: aiProvider,
-              apiKey: apiKeys[aiProvider],
             },
           });
           setExtractedData(result);
@@ -108,8 +108,7 @@ export function FinanceCard({ name = "Finance Overview" }: FinanceCardProps) {
   };
 
   const handleUploadClick = () => {
-    const currentApiKey = apiKeys[aiProvider];
-    if (!currentApiKey) {
+    if (aiProvider !== "ollama" && !apiKeyStatus[aiProvider].set) {
       toast({
         title: "API Key Missing",
         description: `Please set your ${aiProvider} API key in App Settings.`,
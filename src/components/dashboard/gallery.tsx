@@ -15,6 +15,8 @@ import { Badge } from "../ui/badge";
 import { analyzeImageForGallery, type ImageAnalysis } from "../../services/ai";
 import { Image as ImageIcon, Upload, Loader2, Search, XCircle, Trash2 } from "lucide-react";
 import { useToast } from "../../hooks/useToast";
+import { useSemanticIndex } from "../../hooks/use-semantic-index";
+import { useWidgetState } from "../../hooks/use-widget-state";
 import { v4 as uuidv4 } from "uuid";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
 import {
@@ -38,13 +40,29 @@ type ImageRecord = ImageAnalysis & {
 };
 
 export function Gallery({ name = "Gallery" }: { name?: string }) {
-  const [images, setImages] = useState<ImageRecord[]>([]);
+  const [images, setImages] = useWidgetState<ImageRecord[]>("images", [], {
+    // An analysis still running when the gallery was closed will not finish
+    restore: (saved) =>
+      saved.map((img) =>
+        img.status === "processing" ? { ...img, status: "error", description: "Analysis was interrupted." } : img
+      ),
+  });
   const [isUploading, startTransition] = useTransition();
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("all");
   const { toast } = useToast();
 
+  useSemanticIndex("gallery", images, (image) =>
+    image.status === "complete"
+      ? {
+          id: image.id,
+          title: image.title,
+          text: [image.description, image.categories.join(", "), image.extractedText].filter(Boolean).join("\n"),
+        }
+      : null
+  );
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files) return;
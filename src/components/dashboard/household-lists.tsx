@@ -0,0 +1,292 @@
+import React, { useEffect, useState } from "react";
+import { Home, Lock, Plus, Trash2, Users } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "../ui/popover";
+import { ProfileAvatar, useProfiles } from "../layout/profile-switcher";
+import { useToast } from "../../hooks/use-toast";
+import { hasBridge } from "../../services/ipc";
+import {
+  addCollectionItem,
+  createCollection,
+  deleteCollection,
+  getCollectionItems,
+  listCollections,
+  onHouseholdChanged,
+  removeCollectionItem,
+  setCollectionMembers,
+  updateCollectionItem,
+  type HouseholdCollection,
+  type HouseholdItem,
+  type HouseholdKind,
+} from "../../services/household";
+
+type HouseholdListsProps = {
+  name?: string;
+};
+
+const KIND_LABELS: Record<HouseholdKind, string> = {
+  grocery: "Grocery list",
+  chores: "Chores",
+};
+
+const cn = (...args: Array<string | false | null | undefined>) => args.filter(Boolean).join(" ");
+
+/**
+ * Grocery lists and chores shared between the profiles on this computer. Each list shows
+ * only for its members; any member can tick items off, assign chores or change who is in.
+ */
+export function HouseholdLists({ name = "Household" }: HouseholdListsProps) {
+  const { profiles, current } = useProfiles();
+  const [collections, setCollections] = useState<HouseholdCollection[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [items, setItems] = useState<HouseholdItem[]>([]);
+  const [newItem, setNewItem] = useState("");
+  const [newTitle, setNewTitle] = useState("");
+  const [newKind, setNewKind] = useState<HouseholdKind>("grocery");
+  const { toast } = useToast();
+
+  const active = collections.find((c) => c.id === activeId) ?? null;
+  const profileById = (id: string | null) => profiles.find((p) => p.id === id) ?? null;
+
+  const report = (err: unknown) => {
+    console.error(err);
+    toast({ title: "Household list not updated", description: (err as Error)?.message, variant: "destructive" });
+  };
+
+  const loadCollections = async () => {
+    const list = await listCollections();
+    setCollections(list);
+    setActiveId((id) => (list.some((c) => c.id === id) ? id : list[0]?.id ?? null));
+  };
+
+  useEffect(() => {
+    if (!hasBridge()) return;
+    loadCollections().catch(report);
+    return onHouseholdChanged(() => {
+      loadCollections().catch(report);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!activeId) {
+      setItems([]);
+      return;
+    }
+    const load = () => getCollectionItems(activeId).then(setItems).catch(report);
+    load();
+    return onHouseholdChanged((event) => {
+      if (event.collectionId === activeId) load();
+    });
+  }, [activeId]);
+
+  const handleCreate = async () => {
+    if (!newTitle.trim()) return;
+    try {
+      const created = await createCollection({ kind: newKind, title: newTitle.trim(), memberIds: [] });
+      setNewTitle("");
+      setActiveId(created.id);
+    } catch (err) {
+      report(err);
+    }
+  };
+
+  const handleAddItem = async () => {
+    if (!active || !newItem.trim()) return;
+    try {
+      await addCollectionItem(active.id, newItem.trim());
+      setNewItem("");
+    } catch (err) {
+      report(err);
+    }
+  };
+
+  const toggleMember = async (profileId: string) => {
+    if (!active) return;
+    const memberIds = active.memberIds.includes(profileId)
+      ? active.memberIds.filter((id) => id !== profileId)
+      : [...active.memberIds, profileId];
+    try {
+      await setCollectionMembers(active.id, memberIds);
+    } catch (err) {
+      report(err);
+    }
+  };
+
+  if (!hasBridge()) {
+    return <p className="text-sm text-muted-foreground">Household lists are available in the desktop app.</p>;
+  }
+
+  return (
+    <div className="h-full flex flex-col bg-transparent border-0 shadow-none">
+      <div className="flex items-center gap-3 mb-3">
+        <Home className="w-6 h-6 text-primary" />
+        <div className="flex-1">
+          <h3 className="text-lg font-medium">{name}</h3>
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            <Lock className="w-3 h-3" /> Shared lists are encrypted for their members only.
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {collections.map((collection) => (
+          <button
+            key={collection.id}
+            onClick={() => setActiveId(collection.id)}
+            className={cn(
+              "px-3 py-1 text-sm rounded-full border",
+              collection.id === activeId ? "bg-primary text-white border-primary" : "hover:bg-muted"
+            )}
+          >
+            {collection.title}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        <select
+          className="px-2 py-2 rounded border bg-white/5 text-sm"
+          value={newKind}
+          onChange={(e) => setNewKind(e.target.value as HouseholdKind)}
+          aria-label="Kind of list"
+        >
+          {(Object.keys(KIND_LABELS) as HouseholdKind[]).map((kind) => (
+            <option key={kind} value={kind}>
+              {KIND_LABELS[kind]}
+            </option>
+          ))}
+        </select>
+        <input
+          className="flex-1 px-3 py-2 rounded border bg-white/5 focus:outline-none focus:ring text-sm"
+          placeholder="New shared list..."
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+          aria-label="New list title"
+        />
+        <button
+          onClick={handleCreate}
+          className="inline-flex items-center justify-center px-3 py-2 bg-primary text-white rounded hover:opacity-90"
+          aria-label="Create list"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+
+      {active ? (
+        <div className="flex-1 flex flex-col gap-3 min-h-0">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium flex-1">
+              {active.title} <span className="text-muted-foreground font-normal">· {KIND_LABELS[active.kind]}</span>
+            </span>
+            <div className="flex -space-x-2">
+              {active.memberIds.map((id) => {
+                const member = profileById(id);
+                return member ? <ProfileAvatar key={id} profile={member} className="h-6 w-6 text-xs ring-2 ring-background" /> : null;
+              })}
+            </div>
+            <Popover>
+              <PopoverTrigger asChild>
+                <button className="h-7 w-7 inline-flex items-center justify-center rounded hover:bg-muted" aria-label="Members">
+                  <Users className="w-4 h-4" />
+                </button>
+              </PopoverTrigger>
+              <PopoverContent className="w-56 space-y-2">
+                <p className="text-sm font-medium">Shared with</p>
+                {profiles.map((profile) => (
+                  <label key={profile.id} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={active.memberIds.includes(profile.id)}
+                      onChange={() => toggleMember(profile.id)}
+                    />
+                    <ProfileAvatar profile={profile} className="h-5 w-5 text-[10px]" />
+                    <span className="truncate">
+                      {profile.displayName}
+                      {profile.id === current?.id && " (you)"}
+                    </span>
+                  </label>
+                ))}
+              </PopoverContent>
+            </Popover>
+            <button
+              onClick={() => deleteCollection(active.id).catch(report)}
+              className="h-7 w-7 inline-flex items-center justify-center rounded hover:bg-muted"
+              aria-label={`Delete ${active.title}`}
+            >
+              <Trash2 className="w-4 h-4 text-muted-foreground" />
+            </button>
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              className="flex-1 px-3 py-2 rounded border bg-white/5 focus:outline-none focus:ring text-sm"
+              placeholder={active.kind === "grocery" ? "Add an item..." : "Add a chore..."}
+              value={newItem}
+              onChange={(e) => setNewItem(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleAddItem()}
+              aria-label="Add item"
+            />
+            <button
+              onClick={handleAddItem}
+              className="inline-flex items-center justify-center px-3 py-2 bg-primary text-white rounded hover:opacity-90"
+              aria-label="Add"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-auto space-y-2">
+            {items.map((item) => (
+              <div key={item.id} className="flex items-center gap-3 p-2 bg-background/50 rounded-md">
+                <input
+                  id={`household-${item.id}`}
+                  type="checkbox"
+                  checked={item.done}
+                  onChange={() => updateCollectionItem(item.id, { done: !item.done }).catch(report)}
+                  className="w-4 h-4"
+                />
+                <label
+                  htmlFor={`household-${item.id}`}
+                  className={cn("flex-1 text-sm", item.done && "line-through text-muted-foreground")}
+                >
+                  {item.text}
+                </label>
+                {active.kind === "chores" && (
+                  <select
+                    className="px-1 py-1 rounded border bg-white/5 text-xs"
+                    value={item.assigneeId ?? ""}
+                    onChange={(e) => updateCollectionItem(item.id, { assigneeId: e.target.value || null }).catch(report)}
+                    aria-label={`Assign ${item.text}`}
+                  >
+                    <option value="">Anyone</option>
+                    {active.memberIds.map((id) => (
+                      <option key={id} value={id}>
+                        {profileById(id)?.displayName ?? "Removed profile"}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <button
+                  onClick={() => removeCollectionItem(item.id).catch(report)}
+                  className="h-7 w-7 inline-flex items-center justify-center rounded hover:bg-muted"
+                  aria-label={`Remove ${item.text}`}
+                >
+                  <Trash2 className="w-4 h-4 text-muted-foreground" />
+                </button>
+              </div>
+            ))}
+            {items.length === 0 && (
+              <div className="text-center text-sm text-muted-foreground py-6">Nothing here yet — add one above.</div>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div className="text-center text-sm text-muted-foreground py-6">
+          No shared lists yet. Create one, then share it with other profiles.
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default HouseholdLists;
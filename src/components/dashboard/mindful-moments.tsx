@@ -6,7 +6,7 @@ import {
   CardHeader,
   CardTitle,
 } from "../ui/card";
-import { Button } from "../../../0renderer/src/components/ui/button";
+import { Button } from "../ui/button";
 import { Textarea } from "../ui/textarea";
 import {
   Tabs,
@@ -24,7 +24,9 @@ import {
   PenSquare,
 } from "lucide-react";
 import { cn } from "../../lib/utils";
-import { useToast } from "../../hooks/useToast";
+import { useToast } from "../../hooks/use-toast";
+import { useWidgetState } from "../../hooks/use-widget-state";
+import { logMood, saveThought } from "../../services/mindfulness";
 
 const moods = [
   { level: 1, icon: <Angry className="w-8 h-8" />, label: "Awful" },
@@ -43,8 +45,8 @@ const thoughtPrompts = [
 ];
 
 export function MindfulMoments({ name = "Mindful Moments" }: { name?: string }) {
-  const [selectedMood, setSelectedMood] = useState<number | null>(null);
-  const [thought, setThought] = useState("");
+  const [selectedMood, setSelectedMood] = useWidgetState<number | null>("mood", null);
+  const [thought, setThought] = useWidgetState("thought", "");
   const [prompt, setPrompt] = useState(thoughtPrompts[0]);
   const [breathingState, setBreathingState] = useState<'idle' | 'in' | 'hold' | 'out'>('idle');
   const [breathInstruction, setBreathInstruction] = useState("Click Start to Begin");
@@ -70,19 +72,15 @@ export function MindfulMoments({ name = "Mindful Moments" }: { name?: string })
 
   const handleLogMood = async () => {
     if (!selectedMood) return;
-    // Try to persist via IPC if preload exposes an API; otherwise fallback to toast only.
     try {
-      const api = (window as any).electronAPI;
-      if (api?.saveMood) {
-        await api.saveMood({ mood: selectedMood, timestamp: new Date().toISOString() });
-      }
+      await logMood(selectedMood);
     } catch (err) {
-      // ignore persistence errors in renderer; main should log
-      // eslint-disable-next-line no-console
-      console.warn("Failed to persist mood via IPC:", err);
+      console.error("Failed to log mood:", err);
+      toast({ title: "Mood Not Logged", description: "Unable to save your mood. Please try again.", variant: "destructive" });
+      return;
     }
 
-    toast?.({
+    toast({
       title: "Mood Logged",
       description: "Your mood has been saved for today.",
     });
@@ -92,20 +90,14 @@ export function MindfulMoments({ name = "Mindful Moments" }: { name?: string })
     if (!thought.trim()) return;
 
     try {
-      const api = (window as any).electronAPI;
-      if (api?.saveThought) {
-        await api.saveThought({
-          text: thought.trim(),
-          prompt,
-          timestamp: new Date().toISOString(),
-        });
-      }
+      await saveThought(thought.trim(), prompt);
     } catch (err) {
-      // eslint-disable-next-line no-console
-      console.warn("Failed to persist thought via IPC:", err);
+      console.error("Failed to save thought:", err);
+      toast({ title: "Thought Not Saved", description: "Unable to save your reflection. Please try again.", variant: "destructive" });
+      return;
     }
 
-    toast?.({
+    toast({
       title: "Thought Saved",
       description: "Your reflection has been recorded.",
     });
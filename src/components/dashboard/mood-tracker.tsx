@@ -10,6 +10,7 @@ import {
   Tooltip,
   ResponsiveContainer,
 } from "recharts";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 type MoodTrackerProps = {
   name?: string;
@@ -42,7 +43,7 @@ const moods = [
 ];
 
 export function MoodTracker({ name = "Mood Tracker" }: MoodTrackerProps) {
-  const [selectedMood, setSelectedMood] = useState<number | null>(null);
+  const [selectedMood, setSelectedMood] = useWidgetState<number | null>("mood", null);
 
   return (
     <Card className="flex flex-col h-full">
@@ -22,6 +22,10 @@ import {
 } from "../ui/alert-dialog";
 
 import { organizeNotes, processNotes } from "../../services/ai";
+import { matchesQuery } from "../../services/tools";
+import { useToolExecutor } from "../../hooks/use-tool-executor";
+import { useSemanticIndex } from "../../hooks/use-semantic-index";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 type Note = {
   id: string;
@@ -237,8 +241,7 @@ export function NoteDisplay({
   rawNotes = "No raw notes provided.",
   organizedNotes = "No organized brief provided.",
 }: NoteDisplayProps) {
-  const [notes, setNotes] = useState<Note[]>(() => {
-    // In the Electron app this will later be loaded from the local DB / IPC.
+  const [notes, setNotes] = useWidgetState<Note[]>("notes", () => {
     return [
       {
         id: uuidv4(),
@@ -249,9 +252,32 @@ export function NoteDisplay({
       },
     ];
   });
-  const [activeNoteId, setActiveNoteId] = useState<string>(notes[0]?.id || "");
+  const [activeNoteId, setActiveNoteId] = useWidgetState<string>("activeNoteId", notes[0]?.id || "");
   const { toast } = useToast();
 
+  // The starter note gets a new id on every mount; index notes once they hold the user's own text.
+  useSemanticIndex("note", notes, (note) =>
+    note.rawNotes === rawNotes && note.organizedNotes === organizedNotes
+      ? null
+      : {
+          id: note.id,
+          title: note.title,
+          text: [note.rawNotes, note.organizedNotes, note.strategicPlan].filter(Boolean).join("\n\n"),
+        }
+  );
+
+  useToolExecutor("searchNotes", ({ query }) =>
+    notes
+      .filter((note) => matchesQuery(query, note.title, note.rawNotes, note.organizedNotes, note.strategicPlan))
+      .map((note) => ({
+        source: "Note Display",
+        id: note.id,
+        title: note.title,
+        rawNotes: note.rawNotes,
+        organizedNotes: note.organizedNotes,
+      }))
+  );
+
   const handleAddNote = () => {
     const newNote: Note = {
       id: uuidv4(),
@@ -280,7 +306,8 @@ export function NoteDisplay({
     toast?.({ title: "Note Deleted", description: "The note was removed." });
   };
 
-  const activeNote = notes.find((n) => n.id === activeNoteId);
+  // The saved selection may name a note that is gone (or the starter note, before saved notes load)
+  const activeNote = notes.find((n) => n.id === activeNoteId) ?? notes[0];
 
   return (
     <Card className="flex flex-col h-full bg-transparent border-0 shadow-none">
@@ -341,7 +368,7 @@ export function NoteDisplay({
                     onClick={() => setActiveNoteId(note.id)}
                     className={cn(
                       "p-2 rounded-md text-left text-sm w-full truncate",
-                      activeNoteId === note.id ? "bg-primary/10 text-primary font-semibold" : "hover:bg-accent"
+                      activeNote?.id === note.id ? "bg-primary/10 text-primary font-semibold" : "hover:bg-accent"
                     )}
                   >
                     {note.title}
@@ -12,15 +12,16 @@ import { Droplet } from "lucide-react";
 import { Button } from "../ui/button";
 import { Label } from "../ui/label";
 import { Input } from "../ui/input";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 type PeriodTrackerProps = {
   name?: string;
 };
 
 export function PeriodTracker({ name = "Period Tracker" }: PeriodTrackerProps) {
-  const [periodLog, setPeriodLog] = useState<Date[]>([new Date()]);
-  const [cycleLength, setCycleLength] = useState(28);
-  const [periodLength, setPeriodLength] = useState(5);
+  const [periodLog, setPeriodLog] = useWidgetState<Date[]>("periodLog", [new Date()]);
+  const [cycleLength, setCycleLength] = useWidgetState("cycleLength", 28);
+  const [periodLength, setPeriodLength] = useWidgetState("periodLength", 5);
   const [currentMonth, setCurrentMonth] = useState(new Date());
 
   const lastPeriodStart = useMemo(() => {
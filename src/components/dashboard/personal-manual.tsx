@@ -6,6 +6,7 @@ import { Textarea } from "../ui/textarea";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "../ui/accordion";
 import { Button } from "../ui/button";
 import { useToast } from "../../hooks/use-toast";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 type PersonalManualProps = {
   name?: string;
@@ -51,9 +52,9 @@ export function PersonalManual({
 }: PersonalManualProps) {
   const { toast } = useToast();
 
-  const [toolsThatWorked, setToolsThatWorked] = useState(initialToolsWorked);
-  const [toolsToTry, setToolsToTry] = useState(initialToolsToTry);
-  const [focusBreakers, setFocusBreakers] = useState(initialFocusBreakers);
+  const [toolsThatWorked, setToolsThatWorked] = useWidgetState("toolsThatWorked", initialToolsWorked);
+  const [toolsToTry, setToolsToTry] = useWidgetState("toolsToTry", initialToolsToTry);
+  const [focusBreakers, setFocusBreakers] = useWidgetState("focusBreakers", initialFocusBreakers);
 
   const handleSave = () => {
     if (onPropChange && id) {
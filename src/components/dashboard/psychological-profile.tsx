@@ -1,4 +1,4 @@
-import { useState, useTransition } from "react";
+import { useTransition } from "react";
 import {
   Card,
   CardContent,
@@ -29,6 +29,7 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from "../ui/accordion";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 // Mock data representing a summary of user activity.
 // In a real app, this would be dynamically compiled from various data sources.
@@ -41,7 +42,7 @@ const mockActivitySummary = `
 `;
 
 export function PsychologicalProfile({ name = "Psychological Profile" }: { name?: string }) {
-  const [profile, setProfile] = useState<PsychologicalProfile | null>(null);
+  const [profile, setProfile] = useWidgetState<PsychologicalProfile | null>("profile", null);
   const [isPending, startTransition] = useTransition();
   const { toast } = useToast();
 
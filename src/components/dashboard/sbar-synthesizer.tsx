@@ -23,10 +23,12 @@ import {
   type SbarSynthesizerInput,
   type SbarSynthesizerOutput,
 } from "../../services/ai";
+import { hasBridge, invoke } from "../../services/ipc";
 import { useToast } from "../../hooks/use-toast";
 import { ScrollArea } from "../ui/scroll-area";
 import { Badge } from "../ui/badge";
 import { Separator } from "../ui/separator";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 type DocumentFile = {
   fileName: string;
@@ -40,9 +42,9 @@ type SbarSynthesizerProps = {
 export function SbarSynthesizer({
   name = "SBAR Synthesizer",
 }: SbarSynthesizerProps) {
-  const [notes, setNotes] = useState("");
+  const [notes, setNotes] = useWidgetState("notes", "");
   const [files, setFiles] = useState<DocumentFile[]>([]);
-  const [result, setResult] = useState<SbarSynthesizerOutput | null>(null);
+  const [result, setResult] = useWidgetState<SbarSynthesizerOutput | null>("result", null);
   const [isPending, startTransition] = useTransition();
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const { toast } = useToast();
@@ -101,20 +103,18 @@ export function SbarSynthesizer({
   };
 
   const handleDownload = (content: string, fileName: string, mimeType: string) => {
-    // For desktop apps it's preferable to use IPC to ask the main process to show a save dialog and write the file.
-    // The services/ai wrapper may expose a saveFile method via IPC; if not available, fall back to the browser anchor approach.
-    // Try to use window.api.saveFile if exposed by preload; otherwise fallback.
+    // For desktop apps it's preferable to ask the main process to show a save dialog and write the file.
+    // Outside Electron, fall back to the browser anchor approach.
     const base64 = btoa(content);
-    // Try IPC save first (preload may expose `window.api.saveFile`)
-    // @ts-ignore - window.api may be provided by preload script
-    if (typeof (window as any).api?.saveFile === "function") {
-      // ask main to save a base64-encoded blob
-      (window as any).api.saveFile({
-        dataBase64: base64,
-        fileName,
-        mimeType,
-      });
-      toast({ title: `${fileName} save started.` });
+    if (hasBridge()) {
+      invoke("files:save", { dataBase64: base64, fileName, mimeType })
+        .then(({ saved }) => {
+          if (saved) toast({ title: `${fileName} saved.` });
+        })
+        .catch((err) => {
+          console.error(err);
+          toast({ title: `Could not save ${fileName}.`, variant: "destructive" });
+        });
       return;
     }
 
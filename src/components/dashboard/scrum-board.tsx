@@ -1,6 +1,5 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { DndContext, useDraggable, useDroppable, closestCorners, type DragEndEvent, DragOverlay, PointerSensor, useSensor, useSensors } from '@dnd-kit/core';
-import { arrayMove } from '@dnd-kit/sortable';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
 import { Badge } from '../ui/badge';
 import { GripVertical, KanbanSquare, Plus, Trash2, Palette } from 'lucide-react';
@@ -21,33 +20,36 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "../ui/alert-dialog";
-
-type Task = {
-  id: string;
-  content: string;
-  columnId: string;
-};
+import { useWidgetState } from "../../hooks/use-widget-state";
+import { useTasks } from "../../hooks/use-tasks";
+import type { Task, TaskStatus } from "../../services/tasks";
 
 type Column = {
   id: string;
   title: string;
   color: string; // hex color
+  /** Cards moved here get this status; a card done elsewhere moves to a 'done' column. */
+  status: TaskStatus;
 };
 
 const defaultColumns: Column[] = [
-  { id: 'backlog', title: 'Backlog', color: '#71717a' }, // gray
-  { id: 'todo', title: 'To Do', color: '#3b82f6' }, // blue
-  { id: 'in-progress', title: 'In Progress', color: '#eab308' }, // yellow
-  { id: 'done', title: 'Done', color: '#22c55e' }, // green
+  { id: 'backlog', title: 'Backlog', color: '#71717a', status: 'backlog' }, // gray
+  { id: 'todo', title: 'To Do', color: '#3b82f6', status: 'todo' }, // blue
+  { id: 'in-progress', title: 'In Progress', color: '#eab308', status: 'in-progress' }, // yellow
+  { id: 'done', title: 'Done', color: '#22c55e', status: 'done' }, // green
 ];
 
-const initialTasks: Task[] = [
-  { id: uuidv4(), columnId: 'backlog', content: 'Design new landing page' },
-  { id: uuidv4(), columnId: 'backlog', content: 'Research state management libraries' },
-  { id: uuidv4(), columnId: 'todo', content: 'Implement user authentication' },
-  { id: uuidv4(), columnId: 'in-progress', content: 'Develop API for user profiles' },
-  { id: uuidv4(), columnId: 'done', content: 'Set up CI/CD pipeline' },
-];
+/** Boards saved before columns had a status: the default columns keep theirs, others are work in progress. */
+const migrateColumns = (saved: unknown): Column[] =>
+  (saved as Omit<Column, 'status'>[]).map((col) => ({
+    ...col,
+    status: defaultColumns.find((d) => d.id === col.id)?.status ?? 'in-progress',
+  }));
+
+/** The column a card shows in: the one it was put in while that column is for its status, else the first that is. */
+const columnOf = (task: Task, columns: Column[]) =>
+  columns.find((col) => col.id === task.column && col.status === task.status) ??
+  columns.find((col) => col.status === task.status);
 
 function TaskCard({ task }: { task: Task }) {
   const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
@@ -71,7 +73,7 @@ function TaskCard({ task }: { task: Task }) {
       <div {...attributes} {...listeners} className="cursor-grab touch-none">
         <GripVertical className="w-4 h-4 text-muted-foreground" />
       </div>
-      <p className="text-sm flex-grow">{task.content}</p>
+      <p className={cn("text-sm flex-grow", task.status === 'done' && "line-through text-muted-foreground")}>{task.title}</p>
     </div>
   );
 }
@@ -169,7 +171,14 @@ function ColumnContainer({ column, tasks, onTitleChange, onAddTask, onDeleteColu
               className="h-7 text-sm"
             />
           ) : (
-            <h3 onClick={() => setIsEditing(true)} className="cursor-pointer flex-grow truncate">
+            <h3
+              onClick={() => {
+                // The saved columns load after this one mounts, so start from the current title
+                setTitle(column.title);
+                setIsEditing(true);
+              }}
+              className="cursor-pointer flex-grow truncate"
+            >
               {column.title}
             </h3>
           )}
@@ -199,7 +208,7 @@ function ColumnContainer({ column, tasks, onTitleChange, onAddTask, onDeleteColu
               <AlertDialogHeader>
                 <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
                 <AlertDialogDescription>
-                  This action cannot be undone. This will permanently delete the column and all tasks within it.
+                  This removes the column from the board. Its cards stay in your tasks and show in another column for their status, if there is one.
                 </AlertDialogDescription>
               </AlertDialogHeader>
               <AlertDialogFooter>
@@ -230,8 +239,8 @@ type ScrumBoardProps = {
 };
 
 export function ScrumBoard({ name = "Scrum Board" }: ScrumBoardProps) {
-  const [tasks, setTasks] = useState<Task[]>(initialTasks);
-  const [columns, setColumns] = useState<Column[]>(defaultColumns);
+  const { tasks, addTask, updateTask } = useTasks();
+  const [columns, setColumns] = useWidgetState<Column[]>('columns', defaultColumns, { version: 2, migrate: migrateColumns });
   const [activeTask, setActiveTask] = useState<Task | null>(null);
 
   const sensors = useSensors(
@@ -262,15 +271,11 @@ export function ScrumBoard({ name = "Scrum Board" }: ScrumBoardProps) {
     const isOverAColumn = over.data.current?.type === 'Column';
 
     if (isActiveATask && isOverAColumn) {
-      setTasks((tasks) => {
-        const activeIndex = tasks.findIndex((t) => t.id === activeId);
-        // move the task to the new column
-        if (activeIndex === -1) return tasks;
-        const updated = [...tasks];
-        updated[activeIndex] = { ...updated[activeIndex], columnId: overId as string };
-        // keep order intact; arrayMove with same index keeps positions consistent
-        return arrayMove(updated, activeIndex, activeIndex);
-      });
+      const column = columns.find((col) => col.id === overId);
+      const task = tasks.find((t) => t.id === activeId);
+      if (column && task && columnOf(task, columns) !== column) {
+        updateTask(task.id, { column: column.id, status: column.status });
+      }
     }
   };
 
@@ -283,12 +288,8 @@ export function ScrumBoard({ name = "Scrum Board" }: ScrumBoardProps) {
   };
 
   const handleAddTask = (columnId: string, content: string) => {
-    const newTask: Task = {
-      id: uuidv4(),
-      columnId,
-      content,
-    };
-    setTasks(prev => [...prev, newTask]);
+    const column = columns.find((col) => col.id === columnId);
+    if (column) addTask({ title: content, status: column.status, column: column.id });
   };
 
   const handleAddColumn = () => {
@@ -296,13 +297,13 @@ export function ScrumBoard({ name = "Scrum Board" }: ScrumBoardProps) {
       id: uuidv4(),
       title: 'New Column',
       color: '#a1a1aa', // gray
+      status: 'in-progress',
     };
     setColumns(prev => [...prev, newColumn]);
   };
 
   const handleDeleteColumn = (id: string) => {
     setColumns(prev => prev.filter(col => col.id !== id));
-    setTasks(prev => prev.filter(task => task.columnId !== id));
   };
 
   return (
@@ -339,7 +340,7 @@ export function ScrumBoard({ name = "Scrum Board" }: ScrumBoardProps) {
               <ColumnContainer
                 key={col.id}
                 column={col}
-                tasks={tasks.filter(t => t.columnId === col.id)}
+                tasks={tasks.filter(t => columnOf(t, columns) === col)}
                 onTitleChange={handleTitleChange}
                 onAddTask={handleAddTask}
                 onDeleteColumn={handleDeleteColumn}
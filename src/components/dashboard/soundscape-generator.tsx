@@ -16,10 +16,12 @@ import {
   Speaker,
 } from "lucide-react";
 import { useToast } from "../../hooks/use-toast";
+import { readUserDataMovingLegacy, writeUserData } from "../../services/user-data";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../ui/tabs";
 import { ScrollArea } from "../ui/scroll-area";
 import { Slider } from "../ui/slider";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 type SoundSpec = {
   type: string;
@@ -155,9 +157,9 @@ export function SoundscapeGenerator({ name = "Soundscape Generator" }: { name?:
   const [lastSpec, setLastSpec] = useState<SoundSpec | null>(null);
   const [favorites, setFavorites] = useState<Favorite[]>([]);
   const [isRendering, setIsRendering] = useState(false);
-  const [abruptStart, setAbruptStart] = useState(false);
-  const [tactileMode, setTactileMode] = useState(false);
-  const [soundParams, setSoundParams] = useState(initialSoundParams);
+  const [abruptStart, setAbruptStart] = useWidgetState("abruptStart", false);
+  const [tactileMode, setTactileMode] = useWidgetState("tactileMode", false);
+  const [soundParams, setSoundParams] = useWidgetState("soundParams", initialSoundParams);
   const [activeTab, setActiveTab] = useState("player");
 
   const { toast } = useToast();
@@ -169,18 +171,18 @@ export function SoundscapeGenerator({ name = "Soundscape Generator" }: { name?:
   const DEFAULT_DOWNLOAD_SEC = 120;
   const LS_KEY = "adhd_random_favorites_v2";
 
+  // Favorites belong to the signed-in profile; older versions kept them in localStorage
   useEffect(() => {
-    try {
-      const raw = localStorage.getItem(LS_KEY);
-      if (raw) setFavorites(JSON.parse(raw));
-    } catch {}
+    readUserDataMovingLegacy(LS_KEY)
+      .then((raw) => {
+        if (raw) setFavorites(JSON.parse(raw));
+      })
+      .catch(() => {});
   }, []);
 
   const persistFavorites = (next: Favorite[]) => {
     setFavorites(next);
-    try {
-      localStorage.setItem(LS_KEY, JSON.stringify(next));
-    } catch {}
+    writeUserData(LS_KEY, JSON.stringify(next)).catch(() => {});
   };
 
   const ensureContext = useCallback(() => {
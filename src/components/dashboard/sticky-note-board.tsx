@@ -7,6 +7,10 @@ import { Textarea } from '../../ui/textarea';
 import { Plus, X, Clipboard } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 import { cn } from '../../lib/utils';
+import { useToolExecutor } from '../../hooks/use-tool-executor';
+import { useSemanticIndex } from '../../hooks/use-semantic-index';
+import { matchesQuery } from '../../services/tools';
+import { useWidgetState } from '../../hooks/use-widget-state';
 
 type Note = {
   id: string;
@@ -121,7 +125,20 @@ function StickyNote({
 }
 
 export function StickyNoteBoard() {
-  const [notes, setNotes] = useState<Note[]>([]);
+  const [notes, setNotes] = useWidgetState<Note[]>('notes', []);
+
+  useSemanticIndex('sticky-note', notes, (note) => ({
+    id: note.id,
+    title: note.content.trim().split('\n')[0].slice(0, 80),
+    text: note.content,
+  }));
+
+  useToolExecutor('searchNotes', ({ query }) =>
+    notes
+      .filter((note) => matchesQuery(query, note.content))
+      .map((note) => ({ source: 'Sticky Note Board', id: note.id, content: note.content }))
+  );
+
   const { setNodeRef } = useDroppable({
     id: 'sticky-note-canvas',
   });
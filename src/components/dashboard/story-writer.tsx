@@ -1,4 +1,4 @@
-import React, { useState, useTransition } from "react";
+import React, { useTransition } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../ui/card";
 import { Textarea } from "../ui/textarea";
 import { Button } from "../ui/button";
@@ -6,14 +6,15 @@ import { generateStory } from "../../services/ai";
 import { FileText, Loader2, Sparkles } from "lucide-react";
 import { Separator } from "../ui/separator";
 import { ScrollArea } from "../ui/scroll-area";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 type StoryWriterProps = {
   name?: string;
 };
 
 export function StoryWriter({ name = "Smart Story Writer" }: StoryWriterProps) {
-  const [prompt, setPrompt] = useState("");
-  const [story, setStory] = useState("");
+  const [prompt, setPrompt] = useWidgetState("prompt", "");
+  const [story, setStory] = useWidgetState("story", "");
   const [isPending, startTransition] = useTransition();
 
   const handleGenerateStory = () => {
@@ -2,9 +2,12 @@ import { useState, useRef, useEffect, useCallback } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../ui/card";
 import { Button } from "../ui/button";
 import { Target, Dices } from "lucide-react";
-import { useToast } from "../../hooks/useToast";
+import { useToast } from "../../hooks/use-toast";
+import { useTasks } from "../../hooks/use-tasks";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
-const initialTasks = [
+/** On the wheel until the profile has open tasks of its own. */
+const suggestions = [
   "Organize your desktop",
   "Reply to 3 old emails",
   "Stretch for 5 minutes",
@@ -22,10 +25,13 @@ const colors = [
 ].reverse();
 
 export function TaskSpinner({ name = "Task Spinner" }: { name?: string }) {
-  const [tasks] = useState(initialTasks);
+  const { tasks: allTasks } = useTasks();
+  const openTitles = allTasks.filter((task) => task.status !== "done").map((task) => task.title);
+  // One slice per color at most
+  const tasks = (openTitles.length > 0 ? openTitles : suggestions).slice(0, colors.length);
   const [rotation, setRotation] = useState(0);
   const [isSpinning, setIsSpinning] = useState(false);
-  const [selectedTask, setSelectedTask] = useState<string | null>(null);
+  const [selectedTask, setSelectedTask] = useWidgetState<string | null>("selectedTask", null);
 
   const audioCtxRef = useRef<AudioContext | null>(null);
   const tickTimeoutRef = useRef<number | null>(null);
@@ -3,6 +3,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../ui
 import { Button } from "../ui/button";
 import { Gamepad2, RotateCw } from "lucide-react";
 import { cn } from "../../lib/utils";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 type Player = "X" | "O" | null;
 
@@ -22,8 +23,8 @@ const calculateWinner = (squares: Player[]): Player => {
 };
 
 export function TicTacToe({ name = "Tic-Tac-Toe" }: { name?: string }) {
-  const [board, setBoard] = useState<Player[]>(Array(9).fill(null));
-  const [isXNext, setIsXNext] = useState(true);
+  const [board, setBoard] = useWidgetState<Player[]>("board", Array(9).fill(null));
+  const [isXNext, setIsXNext] = useWidgetState("isXNext", true);
   const winner = calculateWinner(board);
   const isDraw = !winner && board.every(Boolean);
 
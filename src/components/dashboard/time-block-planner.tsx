@@ -10,10 +10,10 @@ import {
   useSensor,
   useSensors,
 } from '@dnd-kit/core';
-import { arrayMove } from '@dnd-kit/sortable';
 import { Clock } from 'lucide-react';
-import { v4 as uuidv4 } from 'uuid';
 import { format } from 'date-fns';
+import { useTasks } from '../../hooks/use-tasks';
+import type { Task } from '../../services/tasks';
 
 /**
  * Lightweight classNames helper (replacement for project-specific cn util)
@@ -22,29 +22,19 @@ function cn(...args: Array<string | false | null | undefined>) {
   return args.filter(Boolean).join(' ');
 }
 
-type Task = {
-  id: string;
-  content: string;
-  timeSlotId: string | null;
-  duration: number; // minutes
-};
-
 type TimeSlot = {
   id: string;
   time: string;
 };
 
-const initialTimeSlots: TimeSlot[] = Array.from({ length: 10 }).map((_, i) => ({
-  id: `slot-${i}`,
+// One slot per hour, 8:00 to 17:00; the id is the task's scheduled start time
+const timeSlots: TimeSlot[] = Array.from({ length: 10 }).map((_, i) => ({
+  id: `${String(i + 8).padStart(2, '0')}:00`,
   time: `${i + 8}:00`,
 }));
 
-const initialTasks: Task[] = [
-  { id: uuidv4(), timeSlotId: null, content: 'Review project brief', duration: 60 },
-  { id: uuidv4(), timeSlotId: 'slot-2', content: 'Team sync meeting', duration: 45 },
-  { id: uuidv4(), timeSlotId: null, content: 'Design mockups', duration: 120 },
-  { id: uuidv4(), timeSlotId: null, content: 'Code review', duration: 60 },
-];
+/** The slot a task scheduled for today starts in, if it starts within the planner's hours. */
+const slotOf = (task: Task) => timeSlots.find((slot) => task.scheduledTime?.slice(0, 2) === slot.id.slice(0, 2));
 
 function TaskCard({ task }: { task: Task }) {
   const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
@@ -70,8 +60,10 @@ function TaskCard({ task }: { task: Task }) {
       {...attributes}
       {...listeners}
     >
-      <p className="font-medium flex-grow">{task.content}</p>
-      <p className="text-muted-foreground">{task.duration}m</p>
+      <p className={cn('font-medium flex-grow', task.status === 'done' && 'line-through text-muted-foreground')}>
+        {task.title}
+      </p>
+      {task.estimate && <p className="text-muted-foreground">{task.estimate}m</p>}
     </div>
   );
 }
@@ -96,8 +88,34 @@ function TimeSlotRow({ timeSlot, tasks }: { timeSlot: TimeSlot; tasks: Task[] })
   );
 }
 
+/** Open tasks without a slot today; dropping a task here takes it out of its slot. */
+function UnplannedTasks({ tasks }: { tasks: Task[] }) {
+  const { setNodeRef } = useDroppable({
+    id: 'unplanned',
+    data: {
+      type: 'Unplanned',
+    },
+  });
+
+  return (
+    <div ref={setNodeRef} className="mb-4 p-2 border border-dashed rounded-lg min-h-[50px]">
+      <p className="text-xs text-muted-foreground mb-2">To plan</p>
+      <div className="flex flex-wrap gap-2">
+        {tasks.map((task) => (
+          <TaskCard key={task.id} task={task} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
 export function TimeBlockPlanner({ name = 'Time Block Planner' }: { name?: string }) {
-  const [tasks, setTasks] = useState<Task[]>(initialTasks);
+  const { tasks, updateTask } = useTasks();
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const planned = tasks.filter((t) => t.scheduledDate === today && slotOf(t));
+  const unplanned = tasks.filter(
+    (t) => t.status !== 'done' && (t.scheduledDate === null || t.scheduledDate === today) && !slotOf(t)
+  );
   const [activeTask, setActiveTask] = useState<Task | null>(null);
 
   const sensors = useSensors(
@@ -124,30 +142,14 @@ export function TimeBlockPlanner({ name = 'Time Block Planner' }: { name?: strin
 
     if (activeId === overId) return;
 
-    const isOverTimeSlot = over.data.current?.type === 'TimeSlot';
-
-    if (isOverTimeSlot) {
-      setTasks((prev) =>
-        prev.map((t) => (t.id === activeId ? { ...t, timeSlotId: overId } : t))
-      );
-    } else {
-      // Optionally: handle reordering when dropping onto another task within same timeslot
-      // If over is a Task, attempt to place active task in same timeslot and reorder
-      const isOverTask = over.data.current?.type === 'Task';
-      if (isOverTask) {
-        const overTask: Task | undefined = over.data.current?.task;
-        if (!overTask) return;
-        setTasks((prev) => {
-          const activeIndex = prev.findIndex((t) => t.id === activeId);
-          const overIndex = prev.findIndex((t) => t.id === overTask.id);
-          if (activeIndex === -1 || overIndex === -1) return prev;
-          // Move the active task to the position of the over task
-          const next = arrayMove([...prev], activeIndex, overIndex);
-          // Ensure the moved task has the same timeslot as the over task
-          next[overIndex] = { ...next[overIndex], timeSlotId: overTask.timeSlotId ?? null };
-          return next;
-        });
-      }
+    const task = tasks.find((t) => t.id === activeId);
+    if (!task) return;
+    const type = over.data.current?.type;
+
+    if (type === 'Unplanned') {
+      if (task.scheduledTime) updateTask(task.id, { scheduledTime: null });
+    } else if (type === 'TimeSlot' && (task.scheduledDate !== today || slotOf(task)?.id !== overId)) {
+      updateTask(task.id, { scheduledDate: today, scheduledTime: overId });
     }
   };
 
@@ -163,9 +165,10 @@ export function TimeBlockPlanner({ name = 'Time Block Planner' }: { name?: strin
 
       <main className="flex-grow min-h-0 overflow-auto p-4">
         <DndContext sensors={sensors} onDragStart={onDragStart} onDragEnd={onDragEnd} collisionDetection={closestCorners}>
-          <div className="border rounded-lg bg-background/20 h-full">
-            {initialTimeSlots.map((slot) => (
-              <TimeSlotRow key={slot.id} timeSlot={slot} tasks={tasks.filter((t) => t.timeSlotId === slot.id)} />
+          <UnplannedTasks tasks={unplanned} />
+          <div className="border rounded-lg bg-background/20">
+            {timeSlots.map((slot) => (
+              <TimeSlotRow key={slot.id} timeSlot={slot} tasks={planned.filter((t) => slotOf(t) === slot)} />
             ))}
           </div>
 
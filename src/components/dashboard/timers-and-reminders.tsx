@@ -10,6 +10,9 @@ import { useToast } from "../../hooks/useToast";
 import { format, formatDistanceToNow, addDays, addWeeks } from "date-fns";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../ui/tabs";
 import { Progress } from "../ui/progress";
+import { useToolExecutor } from "../../hooks/use-tool-executor";
+import { useSemanticIndex } from "../../hooks/use-semantic-index";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 // Reminder Types
 type RepeatOption = "none" | "daily" | "weekly";
@@ -124,14 +127,17 @@ function TimerItem({
 
 export function TimersAndReminders({ name = "Timers & Reminders" }: { name?: string }) {
   // State for Reminders
-  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [reminders, setReminders] = useWidgetState<Reminder[]>("reminders", []);
   const [newName, setNewName] = useState("");
   const [newDate, setNewDate] = useState(format(new Date(), "yyyy-MM-dd"));
   const [newTime, setNewTime] = useState(format(new Date(), "HH:mm"));
   const [newRepeat, setNewRepeat] = useState<RepeatOption>("none");
 
   // State for Timers
-  const [timers, setTimers] = useState<TimerInstance[]>([]);
+  const [timers, setTimers] = useWidgetState<TimerInstance[]>("timers", [], {
+    // Timers do not run while the app is closed; they come back paused
+    restore: (saved) => saved.map((timer) => ({ ...timer, isRunning: false })),
+  });
 
   const { toast } = useToast();
 
@@ -158,6 +164,21 @@ export function TimersAndReminders({ name = "Timers & Reminders" }: { name?: str
     toast({ title: "Reminder Set!", description: `"${newName}" scheduled.` });
   };
   const handleRemoveReminder = (id: string) => setReminders((prev) => prev.filter((r) => r.id !== id));
+
+  useSemanticIndex("reminder", reminders, (r) => ({
+    id: r.id,
+    title: r.name,
+    text: r.repeat === "none" ? "" : `Repeats ${r.repeat}`,
+    due: r.dueDateTime,
+  }));
+
+  useToolExecutor("addReminder", ({ name: reminderName, dueDateTime, repeat }) => {
+    const reminder: Reminder = { id: uuidv4(), name: reminderName, dueDateTime: new Date(dueDateTime), repeat };
+    setReminders((prev) =>
+      [...prev, reminder].sort((a, b) => a.dueDateTime.getTime() - b.dueDateTime.getTime())
+    );
+    return { id: reminder.id, name: reminder.name, dueDateTime: reminder.dueDateTime.toISOString(), repeat };
+  });
   useEffect(() => {
     const interval = setInterval(() => {
       const now = new Date();
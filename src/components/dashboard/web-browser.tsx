@@ -5,6 +5,7 @@ import { Input } from "../ui/input";
 import { Globe, ArrowLeft, ArrowRight, RotateCw, Plus, X } from "lucide-react";
 import { cn } from "../../lib/utils";
 import { v4 as uuidv4 } from "uuid";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 type Tab = {
   id: string;
@@ -21,8 +22,8 @@ const createNewTab = (): Tab => ({
 export function WebBrowser({ name = "Web Browser" }: { name?: string }) {
   // create a stable initial tab so derived initial states are consistent
   const initialTab = createNewTab();
-  const [tabs, setTabs] = useState<Tab[]>([initialTab]);
-  const [activeTabId, setActiveTabId] = useState<string>(initialTab.id);
+  const [tabs, setTabs] = useWidgetState<Tab[]>("tabs", [initialTab]);
+  const [activeTabId, setActiveTabId] = useWidgetState<string>("activeTabId", initialTab.id);
   const [inputValue, setInputValue] = useState(initialTab.history[0]);
   const iframeRef = useRef<HTMLIFrameElement | null>(null);
 
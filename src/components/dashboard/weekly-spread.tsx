@@ -11,40 +11,25 @@ import {
   useSensor,
   useSensors,
 } from '@dnd-kit/core';
-import { arrayMove } from '@dnd-kit/sortable';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
-import { Badge } from '../ui/badge';
 import { GripVertical, CalendarDays } from 'lucide-react';
 import { cn } from '../../lib/utils';
-import { v4 as uuidv4 } from 'uuid';
 import { addDays, format } from 'date-fns';
-
-type Task = {
-  id: string;
-  content: string;
-  dayId: string;
-};
+import { useTasks } from '../../hooks/use-tasks';
+import type { Task } from '../../services/tasks';
 
 type Day = {
+  /** The local date, as tasks are scheduled. */
   id: string;
   title: string;
   date: Date;
 };
 
-const today = new Date();
-const initialDays: Day[] = Array.from({ length: 7 }).map((_, i) => ({
-  id: `day-${i}`,
-  title: format(addDays(today, i), 'EEEE'),
-  date: addDays(today, i),
-}));
-
-const initialTasks: Task[] = [
-  { id: uuidv4(), dayId: 'day-0', content: 'Team Standup' },
-  { id: uuidv4(), dayId: 'day-1', content: 'Review PRs' },
-  { id: uuidv4(), dayId: 'day-1', content: 'Design meeting' },
-  { id: uuidv4(), dayId: 'day-2', content: 'Focus block: feature dev' },
-  { id: uuidv4(), dayId: 'day-4', content: 'Deploy to staging' },
-];
+const weekFrom = (start: Date): Day[] =>
+  Array.from({ length: 7 }).map((_, i) => {
+    const date = addDays(start, i);
+    return { id: format(date, 'yyyy-MM-dd'), title: format(date, 'EEEE'), date };
+  });
 
 function TaskCard({ task }: { task: Task }) {
   const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
@@ -68,7 +53,9 @@ function TaskCard({ task }: { task: Task }) {
       <div {...attributes} {...listeners} className="cursor-grab touch-none">
         <GripVertical className="w-4 h-4 text-muted-foreground" />
       </div>
-      <p className="text-xs flex-grow">{task.content}</p>
+      <p className={cn('text-xs flex-grow', task.status === 'done' && 'line-through text-muted-foreground')}>
+        {task.title}
+      </p>
     </div>
   );
 }
@@ -97,12 +84,33 @@ function DayColumn({ day, tasks }: { day: Day; tasks: Task[] }) {
   );
 }
 
+/** Open tasks without a day; dropping a task here unschedules it. */
+function UnscheduledTasks({ tasks }: { tasks: Task[] }) {
+  const { setNodeRef } = useDroppable({
+    id: 'unscheduled',
+    data: {
+      type: 'Unscheduled',
+    },
+  });
+
+  return (
+    <div ref={setNodeRef} className="mb-2 p-2 border border-dashed rounded-lg flex flex-wrap gap-2 min-h-[44px]">
+      {tasks.length === 0 ? (
+        <span className="text-xs text-muted-foreground self-center">Every open task has a day.</span>
+      ) : (
+        tasks.map((task) => <TaskCard key={task.id} task={task} />)
+      )}
+    </div>
+  );
+}
+
 type WeeklySpreadProps = {
   name?: string;
 };
 
 export function WeeklySpread({ name = 'Weekly Spread' }: WeeklySpreadProps) {
-  const [tasks, setTasks] = useState<Task[]>(initialTasks);
+  const { tasks, updateTask } = useTasks();
+  const days = weekFrom(new Date());
   const [activeTask, setActiveTask] = useState<Task | null>(null);
 
   const sensors = useSensors(
@@ -129,34 +137,14 @@ export function WeeklySpread({ name = 'Weekly Spread' }: WeeklySpreadProps) {
 
     if (activeId === overId) return;
 
-    const isActiveATask = active.data.current?.type === 'Task';
-    const isOverADay = over.data.current?.type === 'Day';
-
-    if (isActiveATask && isOverADay) {
-      // Move the task to the target day by updating its dayId.
-      // Keep relative ordering of tasks intact (we simply change the dayId).
-      setTasks((prev) =>
-        prev.map((t) => (t.id === activeId ? { ...t, dayId: overId } : t))
-      );
-    } else if (isActiveATask && !isOverADay) {
-      // If dropped over another task, try to reorder within the same day.
-      // `over.data.current` may contain a Task — handle that.
-      const isOverATask = over.data.current?.type === 'Task';
-      if (isOverATask) {
-        const overTask: Task | undefined = over.data.current?.task;
-        if (overTask) {
-          setTasks((prev) => {
-            const activeIndex = prev.findIndex((t) => t.id === activeId);
-            const overIndex = prev.findIndex((t) => t.id === overTask.id);
-            if (activeIndex === -1 || overIndex === -1) return prev;
-            // If moving between days, ensure dayId is updated to match target task's day.
-            const updated = prev.map((t) =>
-              t.id === activeId ? { ...t, dayId: prev[overIndex].dayId } : t
-            );
-            return arrayMove(updated, activeIndex, overIndex);
-          });
-        }
-      }
+    const task = tasks.find((t) => t.id === activeId);
+    if (!task) return;
+    const type = over.data.current?.type;
+
+    if (type === 'Day' && task.scheduledDate !== overId) {
+      updateTask(task.id, { scheduledDate: overId });
+    } else if (type === 'Unscheduled' && task.scheduledDate) {
+      updateTask(task.id, { scheduledDate: null, scheduledTime: null });
     }
   };
 
@@ -173,9 +161,10 @@ export function WeeklySpread({ name = 'Weekly Spread' }: WeeklySpreadProps) {
       </CardHeader>
       <CardContent className="flex-grow min-h-0 overflow-x-auto">
         <DndContext sensors={sensors} onDragStart={onDragStart} onDragEnd={onDragEnd} collisionDetection={closestCorners}>
+          <UnscheduledTasks tasks={tasks.filter((t) => t.status !== 'done' && !t.scheduledDate)} />
           <div className="grid grid-cols-7 gap-2 h-full">
-            {initialDays.map((day) => (
-              <DayColumn key={day.id} day={day} tasks={tasks.filter((t) => t.dayId === day.id)} />
+            {days.map((day) => (
+              <DayColumn key={day.id} day={day} tasks={tasks.filter((t) => t.scheduledDate === day.id)} />
             ))}
           </div>
           <DragOverlay>{activeTask ? <TaskCard task={activeTask} /> : null}</DragOverlay>
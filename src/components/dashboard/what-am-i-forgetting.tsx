@@ -1,4 +1,4 @@
-import { useState, useTransition } from "react";
+import { useTransition } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../ui/card";
 import { Button } from "../ui/button";
 import { Checkbox } from "../ui/checkbox";
@@ -7,6 +7,7 @@ import { Lightbulb, Loader2, HelpCircle } from "lucide-react";
 import { Badge } from "../ui/badge";
 import { Skeleton } from "../ui/skeleton";
 import { generateForgettingSuggestions, type GenerateForgettingSuggestionsOutput } from "../../services/ai";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 type WhatAmIForgettingProps = {
   name?: string;
@@ -17,7 +18,7 @@ type Suggestion = GenerateForgettingSuggestionsOutput["suggestions"][0] & {
 };
 
 export function WhatAmIForgetting({ name = "What Am I Forgetting?" }: WhatAmIForgettingProps) {
-  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [suggestions, setSuggestions] = useWidgetState<Suggestion[]>("suggestions", []);
   const [isPending, startTransition] = useTransition();
 
   const handleGenerate = () => {
@@ -19,9 +19,11 @@ import {
   Undo,
   Redo,
 } from "lucide-react";
+import { useWidgetState } from "../../hooks/use-widget-state";
 
 export function WordProcessor({ name = "Word Processor" }: { name?: string }) {
   const editorRef = useRef<HTMLDivElement | null>(null);
+  const [content, setContent] = useWidgetState("content", "<p>Start typing your document here...</p>");
 
   const execCmd = (command: string, value?: string) => {
     // document.execCommand is deprecated but still works for simple desktop apps.
@@ -30,11 +32,12 @@ export function WordProcessor({ name = "Word Processor" }: { name?: string }) {
     editorRef.current?.focus();
   };
 
+  // The editor owns its DOM while typing; only write it when the content came from elsewhere (loading)
   useEffect(() => {
-    if (editorRef.current && editorRef.current.innerHTML.trim() === "") {
-      editorRef.current.innerHTML = "<p>Start typing your document here...</p>";
+    if (editorRef.current && editorRef.current.innerHTML !== content) {
+      editorRef.current.innerHTML = content;
     }
-  }, []);
+  }, [content]);
 
   return (
     <Card className="flex flex-col h-full bg-transparent border-0 shadow-none">
@@ -109,6 +112,7 @@ export function WordProcessor({ name = "Word Processor" }: { name?: string }) {
             ref={editorRef}
             contentEditable
             suppressContentEditableWarning
+            onInput={(e) => setContent(e.currentTarget.innerHTML)}
             aria-label={`${name} editor`}
             className="prose dark:prose-invert max-w-none focus:outline-none"
           />
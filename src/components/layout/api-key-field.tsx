@@ -0,0 +1,115 @@
+import React, { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Label } from "../ui/label";
+import { Input } from "../ui/input";
+import { Button } from "../ui/button";
+import { useToast } from "../../hooks/use-toast";
+import { clearApiKey, setApiKey, testApiKey, type ApiKeyProvider, type ApiKeyStatus } from "../../services/secrets";
+
+type ApiKeyFieldProps = {
+  provider: ApiKeyProvider;
+  label: string;
+  status: ApiKeyStatus;
+  /** Called after the key was saved or cleared. */
+  onChanged: () => void;
+  disabled?: boolean;
+};
+
+/**
+ * One provider's API key in settings. A stored key shows only as a mask with its last
+ * characters; it is never read back. Typing replaces it.
+ */
+export function ApiKeyField({ provider, label, status, onChanged, disabled }: ApiKeyFieldProps) {
+  const [draft, setDraft] = useState("");
+  const [editing, setEditing] = useState(false);
+  const [busy, setBusy] = useState<"save" | "clear" | "test" | null>(null);
+  const { toast } = useToast();
+  const id = `${provider}-key`;
+
+  const run = async (action: "save" | "clear" | "test", work: () => Promise<void>) => {
+    setBusy(action);
+    try {
+      await work();
+    } catch (err) {
+      console.error(err);
+      toast({ title: `${label} not updated`, description: "Sign in again and retry.", variant: "destructive" });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSave = () =>
+    run("save", async () => {
+      await setApiKey(provider, draft);
+      setDraft("");
+      setEditing(false);
+      onChanged();
+    });
+
+  const handleClear = () =>
+    run("clear", async () => {
+      await clearApiKey(provider);
+      onChanged();
+    });
+
+  const handleTest = () =>
+    run("test", async () => {
+      const result = await testApiKey(provider);
+      if (result.ok) {
+        toast({ title: "Connection works", description: `${label} answered with ${result.model}.` });
+      } else {
+        toast({ title: "Connection failed", description: result.error, variant: "destructive" });
+      }
+    });
+
+  const showInput = editing || !status.set;
+
+  return (
+    <div className="grid grid-cols-4 items-center gap-4">
+      <Label htmlFor={id} className="text-right">
+        {label}
+      </Label>
+      <div className="col-span-3 flex items-center gap-2">
+        {showInput ? (
+          <>
+            <Input
+              id={id}
+              type="password"
+              autoComplete="off"
+              placeholder={status.set ? "New key" : "Paste your key"}
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && draft.trim()) handleSave();
+              }}
+              disabled={disabled || busy !== null}
+            />
+            <Button size="sm" onClick={handleSave} disabled={disabled || busy !== null || !draft.trim()}>
+              {busy === "save" ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save"}
+            </Button>
+            {editing && (
+              <Button size="sm" variant="ghost" onClick={() => setEditing(false)} disabled={busy !== null}>
+                Cancel
+              </Button>
+            )}
+          </>
+        ) : (
+          <>
+            <span id={id} className="flex-grow font-mono text-sm text-muted-foreground">
+              ••••••••{status.hint ?? ""}
+            </span>
+            <Button size="sm" variant="outline" onClick={handleTest} disabled={disabled || busy !== null}>
+              {busy === "test" ? <Loader2 className="w-4 h-4 animate-spin" /> : "Test connection"}
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setEditing(true)} disabled={disabled || busy !== null}>
+              Replace
+            </Button>
+            <Button size="sm" variant="ghost" onClick={handleClear} disabled={disabled || busy !== null}>
+              {busy === "clear" ? <Loader2 className="w-4 h-4 animate-spin" /> : "Clear"}
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useRef } from "react";
+import React, { useRef, useState } from "react";
 import {
   Dialog,
   DialogContent,
@@ -17,7 +17,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "../ui/select";
-import { useSettings, type AIProvider, type IconSize } from "../../context/settings-context";
+import { useSettings, type AIProvider, type ApiKeyProvider, type IconSize } from "../../context/settings-context";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../ui/tabs";
 import { Input } from "../ui/input";
 import { Button } from "../ui/button";
@@ -34,17 +34,28 @@ import {
   AlertDialogTrigger,
 } from "../ui/alert-dialog";
 import { Switch } from "../ui/switch";
+import { lock } from "../../services/auth";
+import { hasBridge, invoke } from "../../services/ipc";
+import { rebuildIndex } from "../../services/semantic-index";
+import { exportPages, importPages } from "../../services/pages";
+import { ApiKeyField } from "./api-key-field";
+import { DeleteAccount } from "./delete-account";
+import { PasswordSettings } from "./password-settings";
+import { PinSettings } from "./pin-settings";
+import { RecoveryCodeSettings } from "./recovery-codes";
 
-declare global {
-  interface Window {
-    // Preload should expose an API similar to this. These are optional to allow fallback to localStorage behavior.
-    electronAPI?: {
-      exportAppState?: () => Promise<void>;
-      importAppState?: () => Promise<string | null>;
-      clearAppState?: () => Promise<void>;
-    };
-  }
-}
+/** Auto-lock choices in minutes; 0 is never. */
+const IDLE_LOCK_OPTIONS = [
+  { value: 1, label: "After 1 minute" },
+  { value: 5, label: "After 5 minutes" },
+  { value: 10, label: "After 10 minutes" },
+  { value: 15, label: "After 15 minutes" },
+  { value: 30, label: "After 30 minutes" },
+  { value: 60, label: "After 1 hour" },
+  { value: 0, label: "Never" },
+];
+
+const LOCK_SHORTCUT = navigator.platform.toLowerCase().includes("mac") ? "⌘⇧L" : "Ctrl+Shift+L";
 
 const FONT_OPTIONS = [
   { value: "font-inter", label: "Inter" },
@@ -105,6 +116,14 @@ function hslStringToHex(hsl: string): string {
   return hslToHex(h, s, l);
 }
 
+const API_KEY_FIELDS: Array<{ provider: ApiKeyProvider; label: string }> = [
+  { provider: "gemini", label: "Gemini Key" },
+  { provider: "groq", label: "Groq Key" },
+  { provider: "openai", label: "OpenAI Key" },
+  { provider: "anthropic", label: "Anthropic Key" },
+  { provider: "deepseek", label: "DeepSeek Key" },
+];
+
 export function AppSettingsDialog({ children }: { children: React.ReactNode }) {
   const {
     theme,
@@ -118,32 +137,45 @@ export function AppSettingsDialog({ children }: { children: React.ReactNode }) {
     resetToDefaults,
     aiProvider,
     setAiProvider,
-    apiKeys,
-    setApiKeys,
+    ollamaHost,
+    setOllamaHost,
+    apiKeyStatus,
+    refreshApiKeyStatus,
     featureFlags,
     setFeatureFlags,
+    idleLockMinutes,
+    setIdleLockMinutes,
   } = useSettings();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isRebuilding, setIsRebuilding] = useState(false);
   const { toast } = useToast();
 
   const handleColorChange = (colorName: keyof typeof customColors, value: string) => {
     setCustomColors({ ...customColors, [colorName]: hexToHsl(value) });
   };
 
-  const handleApiKeyChange = (keyName: keyof typeof apiKeys, value: string) => {
-    setApiKeys({ ...apiKeys, [keyName]: value });
-  };
-
   const handleFeatureFlagChange = (keyName: keyof typeof featureFlags, value: boolean) => {
     setFeatureFlags({ ...featureFlags, [keyName]: value });
   };
 
   const handleExport = async () => {
+    let state: string;
+    try {
+      state = await exportPages();
+    } catch (err) {
+      console.error(err);
+      toast({ title: "Export Failed", description: "Your data is locked. Sign in again to export it.", variant: "destructive" });
+      return;
+    }
+    const fileName = `gidit-backup-${new Date().toISOString().split("T")[0]}.json`;
+
     // Prefer Electron main process to handle file saving (native dialogs, filesystem).
-    if (window.electronAPI?.exportAppState) {
+    if (hasBridge()) {
       try {
-        await window.electronAPI.exportAppState();
-        toast({ title: "Data Exported", description: "Your data has been saved." });
+        const bytes = new TextEncoder().encode(state);
+        const dataBase64 = btoa(Array.from(bytes, (b) => String.fromCharCode(b)).join(""));
+        const { saved } = await invoke("files:save", { fileName, mimeType: "application/json", dataBase64 });
+        if (saved) toast({ title: "Data Exported", description: "Your data has been saved." });
       } catch (err) {
         console.error(err);
         toast({ title: "Export Failed", description: "Unable to export data.", variant: "destructive" });
@@ -151,39 +183,34 @@ export function AppSettingsDialog({ children }: { children: React.ReactNode }) {
       return;
     }
 
-    // Fallback: browser-style download using localStorage
-    const state = localStorage.getItem("app-state");
-    if (state) {
-      const blob = new Blob([state], { type: "application/json" });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `gidit-backup-${new Date().toISOString().split("T")[0]}.json`;
-      a.click();
-      URL.revokeObjectURL(url);
-      toast({ title: "Data Exported", description: "Your data has been downloaded." });
-    } else {
-      toast({ title: "No Data Found", description: "There is no data to export.", variant: "destructive" });
-    }
+    // Fallback: browser-style download
+    const blob = new Blob([state], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+    toast({ title: "Data Exported", description: "Your data has been downloaded." });
   };
 
   const handleImportClick = async () => {
-    // If electron API is available, use native dialog & file read in main
-    if (window.electronAPI?.importAppState) {
+    // If the IPC bridge is available, use native dialog & file read in main
+    if (hasBridge()) {
       try {
-        const content = await window.electronAPI.importAppState();
-        if (!content) {
+        const file = await invoke("files:open", { extensions: ["json"] });
+        if (!file) {
           toast({ title: "Import Cancelled", description: "No file was selected." });
           return;
         }
-        // Basic validation then persist via fallback localStorage (or via settings hooks if desired)
-        JSON.parse(content);
-        localStorage.setItem("app-state", content);
+        // Main checks the layout and brings an older one up to date before storing it
+        await importPages(file.content);
         toast({ title: "Import Successful", description: "Your data has been restored. Please restart the app." });
         setTimeout(() => window.location.reload(), 1500);
       } catch (error) {
         console.error(error);
-        toast({ title: "Import Failed", description: "The selected file is not valid JSON.", variant: "destructive" });
+        const description = (error as Error)?.message ?? "Unable to store the imported data.";
+        toast({ title: "Import Failed", description, variant: "destructive" });
       }
       return;
     }
@@ -197,26 +224,43 @@ export function AppSettingsDialog({ children }: { children: React.ReactNode }) {
     if (file) {
       const reader = new FileReader();
       reader.onload = (e) => {
-        try {
-          const text = e.target?.result as string;
-          JSON.parse(text);
-          localStorage.setItem("app-state", text);
-          toast({ title: "Import Successful", description: "Your data has been restored. Please refresh the page." });
-          setTimeout(() => window.location.reload(), 1500);
-        } catch (error) {
-          toast({ title: "Import Failed", description: "The selected file is not valid JSON.", variant: "destructive" });
-        }
+        importPages(e.target?.result as string)
+          .then(() => {
+            toast({ title: "Import Successful", description: "Your data has been restored. Please refresh the page." });
+            setTimeout(() => window.location.reload(), 1500);
+          })
+          .catch(() => {
+            toast({ title: "Import Failed", description: "The selected file is not a saved layout.", variant: "destructive" });
+          });
       };
       reader.readAsText(file);
     }
   };
 
+  const handleRebuildIndex = async () => {
+    setIsRebuilding(true);
+    try {
+      const status = await rebuildIndex();
+      if (status.error) {
+        toast({ title: "Rebuild Incomplete", description: status.error, variant: "destructive" });
+      } else {
+        toast({ title: "Search Index Rebuilt", description: `${status.items} saved items indexed with ${status.embedder}.` });
+      }
+    } catch (err) {
+      console.error(err);
+      toast({ title: "Rebuild Failed", description: "Unable to rebuild the search index.", variant: "destructive" });
+    } finally {
+      setIsRebuilding(false);
+    }
+  };
+
   const handleClearData = async () => {
     // Prefer main process to clear data (e.g. wipe SQLite). If not available, clear localStorage.
-    if (window.electronAPI?.clearAppState) {
+    if (hasBridge()) {
       try {
-        await window.electronAPI.clearAppState();
-        toast({ title: "Data Cleared", description: "All your local data has been removed. Please restart the app." });
+        await invoke("app:clearData");
+        localStorage.removeItem("app-state");
+        toast({ title: "Data Cleared", description: "This profile's data has been removed. Please restart the app." });
         setTimeout(() => window.location.reload(), 1500);
       } catch (err) {
         console.error(err);
@@ -239,10 +283,11 @@ export function AppSettingsDialog({ children }: { children: React.ReactNode }) {
           <DialogDescription>Customize the application's appearance and manage your data.</DialogDescription>
         </DialogHeader>
         <Tabs defaultValue="appearance">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="appearance">Appearance</TabsTrigger>
             <TabsTrigger value="features">Features</TabsTrigger>
             <TabsTrigger value="ai">AI</TabsTrigger>
+            <TabsTrigger value="security">Security</TabsTrigger>
             <TabsTrigger value="data">Data</TabsTrigger>
           </TabsList>
           <TabsContent value="appearance" className="pt-4">
@@ -404,41 +449,59 @@ export function AppSettingsDialog({ children }: { children: React.ReactNode }) {
                   </Select>
                 </div>
               </div>
+              {!hasBridge() && (
+                <p className="text-sm text-muted-foreground">API keys are kept in the desktop app's encrypted vault.</p>
+              )}
+              {API_KEY_FIELDS.map(({ provider, label }) => (
+                <ApiKeyField
+                  key={provider}
+                  provider={provider}
+                  label={label}
+                  status={apiKeyStatus[provider]}
+                  onChanged={refreshApiKeyStatus}
+                  disabled={!hasBridge()}
+                />
+              ))}
               <div className="grid grid-cols-4 items-center gap-4">
-                <Label htmlFor="gemini-key" className="text-right">
-                  Gemini Key
-                </Label>
-                <Input id="gemini-key" type="password" value={apiKeys.gemini} onChange={(e) => handleApiKeyChange("gemini", e.target.value)} className="col-span-3" />
-              </div>
-              <div className="grid grid-cols-4 items-center gap-4">
-                <Label htmlFor="groq-key" className="text-right">
-                  Groq Key
-                </Label>
-                <Input id="groq-key" type="password" value={apiKeys.groq} onChange={(e) => handleApiKeyChange("groq", e.target.value)} className="col-span-3" />
-              </div>
-              <div className="grid grid-cols-4 items-center gap-4">
-                <Label htmlFor="openai-key" className="text-right">
-                  OpenAI Key
-                </Label>
-                <Input id="openai-key" type="password" value={apiKeys.openai} onChange={(e) => handleApiKeyChange("openai", e.target.value)} className="col-span-3" />
-              </div>
-              <div className="grid grid-cols-4 items-center gap-4">
-                <Label htmlFor="anthropic-key" className="text-right">
-                  Anthropic Key
+                <Label htmlFor="ollama-host" className="text-right">
+                  Ollama Host
                 </Label>
-                <Input id="anthropic-key" type="password" value={apiKeys.anthropic} onChange={(e) => handleApiKeyChange("anthropic", e.target.value)} className="col-span-3" />
+                <Input id="ollama-host" type="text" value={ollamaHost} onChange={(e) => setOllamaHost(e.target.value)} className="col-span-3" />
               </div>
+            </div>
+          </TabsContent>
+          <TabsContent value="security" className="pt-4 max-h-[60vh] overflow-y-auto">
+            <div className="space-y-4">
               <div className="grid grid-cols-4 items-center gap-4">
-                <Label htmlFor="deepseek-key" className="text-right">
-                  DeepSeek Key
+                <Label htmlFor="idle-lock" className="text-right">
+                  Auto-lock
                 </Label>
-                <Input id="deepseek-key" type="password" value={apiKeys.deepseek} onChange={(e) => handleApiKeyChange("deepseek", e.target.value)} className="col-span-3" />
+                <div className="col-span-3">
+                  <Select value={String(idleLockMinutes)} onValueChange={(value) => setIdleLockMinutes(Number(value))}>
+                    <SelectTrigger id="idle-lock">
+                      <SelectValue placeholder="Lock when idle" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {IDLE_LOCK_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={String(option.value)}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
-              <div className="grid grid-cols-4 items-center gap-4">
-                <Label htmlFor="ollama-host" className="text-right">
-                  Ollama Host
-                </Label>
-                <Input id="ollama-host" type="text" value={apiKeys.ollama} onChange={(e) => handleApiKeyChange("ollama", e.target.value)} className="col-span-3" />
+              <PasswordSettings disabled={!hasBridge()} />
+              <RecoveryCodeSettings disabled={!hasBridge()} />
+              <PinSettings disabled={!hasBridge()} />
+              <div className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <h4 className="font-medium">Lock Now</h4>
+                  <p className="text-sm text-muted-foreground">Hide your workspace until you unlock it. Shortcut: {LOCK_SHORTCUT}</p>
+                </div>
+                <Button variant="outline" onClick={() => lock()} disabled={!hasBridge()}>
+                  Lock
+                </Button>
               </div>
             </div>
           </TabsContent>
@@ -461,10 +524,21 @@ export function AppSettingsDialog({ children }: { children: React.ReactNode }) {
                   Import
                 </Button>
               </div>
+              {hasBridge() && (
+                <div className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <h4 className="font-medium">Rebuild Search Index</h4>
+                    <p className="text-sm text-muted-foreground">Re-read your saved items so Giddy can find them.</p>
+                  </div>
+                  <Button onClick={handleRebuildIndex} variant="outline" disabled={isRebuilding}>
+                    {isRebuilding ? "Rebuilding..." : "Rebuild"}
+                  </Button>
+                </div>
+              )}
               <div className="flex items-center justify-between p-3 border border-destructive/50 rounded-lg">
                 <div>
                   <h4 className="font-medium text-destructive">Clear All Data</h4>
-                  <p className="text-sm text-muted-foreground">Permanently delete all your local data.</p>
+                  <p className="text-sm text-muted-foreground">Permanently delete this profile's data. Other profiles keep theirs.</p>
                 </div>
                 <AlertDialog>
                   <AlertDialogTrigger asChild>
@@ -474,7 +548,7 @@ export function AppSettingsDialog({ children }: { children: React.ReactNode }) {
                     <AlertDialogHeader>
                       <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
                       <AlertDialogDescription>
-                        This action cannot be undone. This will permanently delete all your pages, widgets, and tasks from this device.
+                        This action cannot be undone. This will permanently delete this profile's pages, widgets, tasks, settings and conversations from this device.
                       </AlertDialogDescription>
                     </AlertDialogHeader>
                     <AlertDialogFooter>
@@ -484,6 +558,7 @@ export function AppSettingsDialog({ children }: { children: React.ReactNode }) {
                   </AlertDialogContent>
                 </AlertDialog>
               </div>
+              {hasBridge() && <DeleteAccount />}
             </div>
           </TabsContent>
         </Tabs>
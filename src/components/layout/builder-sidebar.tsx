@@ -28,7 +28,6 @@ import {
   GripVertical,
 } from "lucide-react";
 import { GiditLogo } from "../icons/gidit-logo";
-import { Avatar, AvatarFallback, AvatarImage } from "../ui/avatar";
 import { WIDGETS, WIDGET_CATEGORIES, type WidgetId } from "../dashboard/dashboard";
 import { Card } from "../ui/card";
 import { useDraggable } from "@dnd-kit/core";
@@ -42,6 +41,7 @@ import { Popover, PopoverContent, PopoverTrigger } from "../ui/popover";
 import { Input } from "../ui/input";
 import { Button } from "../ui/button";
 import { AppSettingsDialog } from "./app-settings-dialog";
+import { ProfileSwitcher } from "./profile-switcher";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -463,27 +463,6 @@ function BottomMenu() {
     )
 }
 
-function UserProfile() {
-  const { state } = useSidebar();
-  if (state === 'collapsed') {
-    return null;
-  }
-
-  return (
-    <div className="flex items-center gap-2 p-2">
-      <Avatar className="h-8 w-8">
-        <AvatarImage src="https://placehold.co/100x100.png" alt="User avatar" data-ai-hint="person avatar" />
-        <AvatarFallback>U</AvatarFallback>
-      </Avatar>
-      <div className="flex flex-col">
-        <span className="text-sm font-semibold">Workspace</span>
-        <span className="text-xs text-sidebar-foreground/70">user@email.com</span>
-      </div>
-    </div>
-  );
-}
-
-
 export function BuilderSidebar({ pages, activePageId, onSelectPage, onAddPage, onUpdatePage, onDeletePage, widgets, currentView, onSetView }: BuilderSidebarProps) {
   return (
     <Sidebar collapsible="icon">
@@ -519,7 +498,7 @@ export function BuilderSidebar({ pages, activePageId, onSelectPage, onAddPage, o
         </div>
     </SidebarContent>
     <SidebarFooter>
-        <UserProfile />
+        <ProfileSwitcher />
     </SidebarFooter>
     </Sidebar>
   );
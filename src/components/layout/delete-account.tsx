@@ -0,0 +1,92 @@
+import React, { useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "../ui/alert-dialog";
+import { Input } from "../ui/input";
+import { Button } from "../ui/button";
+import { deleteAccount } from "../../services/auth";
+
+/**
+ * Delete the signed-in account for good, after the password. Main wipes the profile's data
+ * and signs out, which takes the app back to the sign-in screen.
+ */
+export function DeleteAccount() {
+  const [open, setOpen] = useState(false);
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    if (busy) return;
+    setOpen(next);
+    setPassword("");
+    setError(null);
+  };
+
+  const handleDelete = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await deleteAccount(password);
+      if (!result.success) {
+        setError(result.error);
+        setBusy(false);
+        return;
+      }
+      localStorage.removeItem("app-state");
+    } catch (err) {
+      console.error(err);
+      setError("The account could not be deleted.");
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between p-3 border border-destructive/50 rounded-lg">
+      <div>
+        <h4 className="font-medium text-destructive">Delete Account</h4>
+        <p className="text-sm text-muted-foreground">Remove this profile and everything in it from this computer.</p>
+      </div>
+      <AlertDialog open={open} onOpenChange={handleOpenChange}>
+        <AlertDialogTrigger asChild>
+          <Button variant="destructive">Delete</Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this account?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This cannot be undone. The profile, its pages, tasks, settings, conversations, saved keys and recovery codes
+              are erased from this device, and shared lists only this profile used are deleted. Enter your password to
+              confirm.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Input
+            type="password"
+            autoComplete="current-password"
+            placeholder="Password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && password && !busy) handleDelete();
+            }}
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={busy}>Cancel</AlertDialogCancel>
+            <Button variant="destructive" onClick={handleDelete} disabled={busy || !password}>
+              {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : "Delete Account"}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Lock } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "../ui/alert-dialog";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { ProfileAvatar, useProfiles } from "./profile-switcher";
+import { signOut, unlock } from "../../services/auth";
+
+type LockScreenProps = {
+  /** Whether the PIN may unlock; false when none is set or too many wrong ones were entered. */
+  pinUnlock: boolean;
+};
+
+/**
+ * Shown over the blurred workspace while the app is locked (idle, File → Lock or the
+ * shortcut). The workspace stays mounted underneath, so nothing typed into a widget is lost;
+ * as a modal dialog it also covers any dialog that was open when the app locked.
+ */
+export function LockScreen({ pinUnlock }: LockScreenProps) {
+  const { current } = useProfiles();
+  const [usePin, setUsePin] = useState(pinUnlock);
+  const [secret, setSecret] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setUsePin(pinUnlock);
+  }, [pinUnlock]);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, [usePin]);
+
+  const switchToPassword = () => {
+    setUsePin(false);
+    setSecret("");
+    setError(null);
+  };
+
+  const handleUnlock = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await unlock(usePin ? { pin: secret } : { password: secret });
+      if (result.success) return;
+      setError(result.error);
+      setSecret("");
+      if (result.passwordRequired) setUsePin(false);
+    } catch (err: any) {
+      setError(usePin ? "PINs are 4 to 12 digits." : err?.message ?? String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <AlertDialog open>
+      <AlertDialogContent className="max-w-sm p-8 space-y-2" onEscapeKeyDown={(e) => e.preventDefault()}>
+        <AlertDialogHeader className="items-center text-center sm:text-center">
+          {current ? <ProfileAvatar profile={current} className="h-14 w-14 text-2xl" /> : <Lock className="w-10 h-10" />}
+          <AlertDialogTitle className="text-2xl">{current ? current.displayName : "Locked"}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {usePin ? "Enter your PIN to continue" : "Enter your password to continue"}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-4">
+          <Input
+            ref={inputRef}
+            type="password"
+            inputMode={usePin ? "numeric" : undefined}
+            autoComplete="off"
+            placeholder={usePin ? "PIN" : "Password"}
+            value={secret}
+            onChange={(e) => setSecret(usePin ? e.target.value.replace(/\D/g, "") : e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && secret) handleUnlock();
+            }}
+            maxLength={usePin ? 12 : undefined}
+            className="bg-input border-none text-center"
+          />
+
+          {error && <p className="text-sm text-center text-destructive">{error}</p>}
+
+          <Button className="w-full bg-violet-700/90 text-white" onClick={handleUnlock} disabled={busy || !secret}>
+            {busy ? "Unlocking..." : "Unlock"}
+          </Button>
+
+          <div className="flex justify-between text-sm">
+            {usePin ? (
+              <button type="button" className="text-muted-foreground hover:underline" onClick={switchToPassword}>
+                Use password instead
+              </button>
+            ) : (
+              <span />
+            )}
+            <button type="button" className="text-muted-foreground hover:underline" onClick={() => signOut()}>
+              Sign out
+            </button>
+          </div>
+        </div>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,123 @@
+import React, { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Label } from "../ui/label";
+import { Input } from "../ui/input";
+import { Button } from "../ui/button";
+import { useToast } from "../../hooks/use-toast";
+import { changePassword } from "../../services/auth";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Change the password in settings. Main re-wraps the data key for the new password, so the
+ * encrypted data and the recovery codes stay as they are.
+ */
+export function PasswordSettings({ disabled }: { disabled?: boolean }) {
+  const [editing, setEditing] = useState(false);
+  const [current, setCurrent] = useState("");
+  const [next, setNext] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const close = () => {
+    setEditing(false);
+    setCurrent("");
+    setNext("");
+    setConfirm("");
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (next.length < MIN_PASSWORD_LENGTH) return setError(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters.`);
+    if (next !== confirm) return setError("The new passwords do not match.");
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await changePassword(current, next);
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      close();
+      toast({ title: "Password changed", description: "Use the new password to sign in from now on." });
+    } catch (err) {
+      console.error(err);
+      setError("The password could not be changed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="p-3 border rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="font-medium">Password</h4>
+          <p className="text-sm text-muted-foreground">Your password also unlocks your encrypted data.</p>
+        </div>
+        {!editing && (
+          <Button variant="outline" onClick={() => setEditing(true)} disabled={disabled}>
+            Change
+          </Button>
+        )}
+      </div>
+      {editing && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-3 items-center gap-4">
+            <Label htmlFor="password-current" className="text-right">
+              Current
+            </Label>
+            <Input
+              id="password-current"
+              type="password"
+              autoComplete="current-password"
+              value={current}
+              onChange={(e) => setCurrent(e.target.value)}
+              className="col-span-2"
+            />
+          </div>
+          <div className="grid grid-cols-3 items-center gap-4">
+            <Label htmlFor="password-new" className="text-right">
+              New
+            </Label>
+            <Input
+              id="password-new"
+              type="password"
+              autoComplete="new-password"
+              value={next}
+              onChange={(e) => setNext(e.target.value)}
+              className="col-span-2"
+            />
+          </div>
+          <div className="grid grid-cols-3 items-center gap-4">
+            <Label htmlFor="password-confirm" className="text-right">
+              Repeat
+            </Label>
+            <Input
+              id="password-confirm"
+              type="password"
+              autoComplete="new-password"
+              value={confirm}
+              onChange={(e) => setConfirm(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && current && next) handleSave();
+              }}
+              className="col-span-2"
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={close} disabled={busy}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={busy || !current || !next}>
+              {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
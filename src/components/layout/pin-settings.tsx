@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Label } from "../ui/label";
+import { Input } from "../ui/input";
+import { Button } from "../ui/button";
+import { useToast } from "../../hooks/use-toast";
+import { getSession, setPin } from "../../services/auth";
+
+const PIN_PATTERN = /^\d{4,12}$/;
+
+/**
+ * The lock-screen PIN in settings: set, change or remove it. Each needs the password, and
+ * the PIN itself is never read back.
+ */
+export function PinSettings({ disabled }: { disabled?: boolean }) {
+  const [pinSet, setPinSet] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [password, setPassword] = useState("");
+  const [pin, setPinDraft] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<"save" | "remove" | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (disabled) return;
+    getSession()
+      .then((session) => setPinSet(!!session.pinSet))
+      .catch(() => {});
+  }, [disabled]);
+
+  const close = () => {
+    setEditing(false);
+    setPassword("");
+    setPinDraft("");
+    setConfirm("");
+    setError(null);
+  };
+
+  const run = async (action: "save" | "remove", next: string | null) => {
+    setBusy(action);
+    setError(null);
+    try {
+      const result = await setPin(password, next);
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      setPinSet(next !== null);
+      close();
+      toast(
+        next === null
+          ? { title: "PIN removed", description: "Unlock with your password from now on." }
+          : { title: "PIN saved", description: "Use it to unlock the app." }
+      );
+    } catch (err) {
+      console.error(err);
+      setError("The PIN could not be saved.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSave = () => {
+    if (!PIN_PATTERN.test(pin)) return setError("PINs are 4 to 12 digits.");
+    if (pin !== confirm) return setError("The PINs do not match.");
+    run("save", pin);
+  };
+
+  const digitsOnly = (value: string) => value.replace(/\D/g, "").slice(0, 12);
+
+  return (
+    <div className="p-3 border rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="font-medium">Unlock PIN</h4>
+          <p className="text-sm text-muted-foreground">
+            {pinSet ? "A PIN is set. After too many wrong tries the password is needed." : "Unlock with a short PIN instead of your password."}
+          </p>
+        </div>
+        {!editing && (
+          <Button variant="outline" onClick={() => setEditing(true)} disabled={disabled}>
+            {pinSet ? "Change" : "Set PIN"}
+          </Button>
+        )}
+      </div>
+      {editing && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-3 items-center gap-4">
+            <Label htmlFor="pin-password" className="text-right">
+              Password
+            </Label>
+            <Input
+              id="pin-password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="col-span-2"
+            />
+          </div>
+          <div className="grid grid-cols-3 items-center gap-4">
+            <Label htmlFor="pin-new" className="text-right">
+              New PIN
+            </Label>
+            <Input
+              id="pin-new"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              value={pin}
+              onChange={(e) => setPinDraft(digitsOnly(e.target.value))}
+              className="col-span-2"
+            />
+          </div>
+          <div className="grid grid-cols-3 items-center gap-4">
+            <Label htmlFor="pin-confirm" className="text-right">
+              Repeat PIN
+            </Label>
+            <Input
+              id="pin-confirm"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              value={confirm}
+              onChange={(e) => setConfirm(digitsOnly(e.target.value))}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && password && pin) handleSave();
+              }}
+              className="col-span-2"
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <div className="flex justify-end gap-2">
+            {pinSet && (
+              <Button variant="ghost" onClick={() => run("remove", null)} disabled={busy !== null || !password}>
+                {busy === "remove" ? <Loader2 className="w-4 h-4 animate-spin" /> : "Remove PIN"}
+              </Button>
+            )}
+            <Button variant="ghost" onClick={close} disabled={busy !== null}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={busy !== null || !password || !pin}>
+              {busy === "save" ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import React, { useEffect, useState } from "react";
+import { Check, ChevronsUpDown, LogOut, Pencil } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "../ui/dropdown-menu";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../ui/dialog";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { useSidebar } from "../ui/sidebar";
+import { useToast } from "../../hooks/use-toast";
+import { cn } from "../../lib/utils";
+import { getSession, login, signOut, subscribe } from "../../services/auth";
+import { listProfiles, updateProfile, type ProfileSummary } from "../../services/profiles";
+
+const PROFILE_COLORS = ["#6d28d9", "#db2777", "#ea580c", "#16a34a", "#0891b2", "#2563eb", "#ca8a04", "#9333ea"];
+
+export function ProfileAvatar({ profile, className }: { profile: ProfileSummary; className?: string }) {
+  return (
+    <span
+      className={cn(
+        "inline-flex h-8 w-8 shrink-0 items-center justify-center rounded-full text-sm font-semibold text-white",
+        className
+      )}
+      style={{ backgroundColor: profile.color }}
+      aria-hidden
+    >
+      {profile.avatar}
+    </span>
+  );
+}
+
+/** The signed-in profile and every other profile on this computer, kept current across sign-ins. */
+export function useProfiles() {
+  const [profiles, setProfiles] = useState<ProfileSummary[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      const [list, session] = await Promise.all([listProfiles(), getSession()]);
+      setProfiles(list);
+      setCurrentId(session.user?.id ?? null);
+    } catch (err) {
+      console.error("Failed to load profiles", err);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+    return subscribe(() => {
+      refresh();
+    });
+  }, []);
+
+  const current = profiles.find((p) => p.id === currentId) ?? null;
+  return { profiles, current, refresh };
+}
+
+/**
+ * Sidebar footer: the signed-in profile with a menu to switch to another one (which asks
+ * for that profile's password), edit this one's name and avatar, or sign out. New profiles
+ * are made with Sign Up on the sign-in screen.
+ */
+export function ProfileSwitcher() {
+  const { state } = useSidebar();
+  const { profiles, current, refresh } = useProfiles();
+  const [switchTo, setSwitchTo] = useState<ProfileSummary | null>(null);
+  const [editing, setEditing] = useState(false);
+
+  if (!current) return null;
+  const collapsed = state === "collapsed";
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            className="flex w-full items-center gap-2 rounded-md p-2 text-left hover:bg-sidebar-accent"
+            aria-label="Switch profile"
+          >
+            <ProfileAvatar profile={current} />
+            {!collapsed && (
+              <>
+                <div className="flex min-w-0 flex-grow flex-col">
+                  <span className="truncate text-sm font-semibold">{current.displayName}</span>
+                  <span className="truncate text-xs text-sidebar-foreground/70">{current.username}</span>
+                </div>
+                <ChevronsUpDown className="h-4 w-4 text-sidebar-foreground/70" />
+              </>
+            )}
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent side="top" align="start" className="w-60">
+          <DropdownMenuLabel>Profiles</DropdownMenuLabel>
+          {profiles.map((profile) => (
+            <DropdownMenuItem
+              key={profile.id}
+              onSelect={() => {
+                if (profile.id !== current.id) setSwitchTo(profile);
+              }}
+              className="gap-2"
+            >
+              <ProfileAvatar profile={profile} className="h-6 w-6 text-xs" />
+              <span className="flex-grow truncate">{profile.displayName}</span>
+              {profile.id === current.id && <Check className="h-4 w-4" />}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setEditing(true)} className="gap-2">
+            <Pencil className="h-4 w-4" /> Edit profile
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => signOut()} className="gap-2">
+            <LogOut className="h-4 w-4" /> Sign out
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <SwitchProfileDialog profile={switchTo} onClose={() => setSwitchTo(null)} />
+      <EditProfileDialog profile={editing ? current : null} onClose={() => setEditing(false)} onSaved={refresh} />
+    </>
+  );
+}
+
+function SwitchProfileDialog({ profile, onClose }: { profile: ProfileSummary | null; onClose: () => void }) {
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setPassword("");
+    setError(null);
+  }, [profile?.id]);
+
+  const handleSwitch = async () => {
+    if (!profile) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await login(profile.username, password);
+      if (result.success) onClose();
+      else setError(result.error);
+    } catch (err: any) {
+      setError(err?.message ?? String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!profile} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Switch to {profile?.displayName}</DialogTitle>
+          <DialogDescription>Enter this profile's password. Your own pages and data stay as they are.</DialogDescription>
+        </DialogHeader>
+        <div className="flex items-center gap-3">
+          {profile && <ProfileAvatar profile={profile} className="h-10 w-10" />}
+          <Input
+            type="password"
+            autoFocus
+            placeholder="Password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && password) handleSwitch();
+            }}
+          />
+        </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <DialogFooter>
+          <Button variant="ghost" onClick={onClose} disabled={busy}>
+            Cancel
+          </Button>
+          <Button onClick={handleSwitch} disabled={busy || !password}>
+            {busy ? "Switching..." : "Switch"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function EditProfileDialog({
+  profile,
+  onClose,
+  onSaved,
+}: {
+  profile: ProfileSummary | null;
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const [displayName, setDisplayName] = useState("");
+  const [avatar, setAvatar] = useState("");
+  const [color, setColor] = useState(PROFILE_COLORS[0]);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!profile) return;
+    setDisplayName(profile.displayName);
+    setAvatar(profile.avatar);
+    setColor(profile.color);
+  }, [profile]);
+
+  const handleSave = async () => {
+    setBusy(true);
+    try {
+      await updateProfile({ displayName, avatar, color });
+      onSaved();
+      onClose();
+    } catch (err) {
+      console.error(err);
+      toast({ title: "Profile not saved", description: "Check the name and avatar and try again.", variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const preview = profile && { ...profile, displayName, avatar: avatar || "?", color };
+
+  return (
+    <Dialog open={!!profile} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Edit profile</DialogTitle>
+          <DialogDescription>How this profile appears in the switcher and on shared household lists.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex justify-center">{preview && <ProfileAvatar profile={preview} className="h-14 w-14 text-2xl" />}</div>
+          <div className="space-y-2">
+            <Label htmlFor="profile-name">Name</Label>
+            <Input id="profile-name" value={displayName} maxLength={60} onChange={(e) => setDisplayName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="profile-avatar">Avatar (an emoji or initials)</Label>
+            <Input id="profile-avatar" value={avatar} maxLength={8} onChange={(e) => setAvatar(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Colour</Label>
+            <div className="flex flex-wrap gap-2">
+              {PROFILE_COLORS.map((c) => (
+                <button
+                  key={c}
+                  type="button"
+                  aria-label={`Colour ${c}`}
+                  className={cn("h-7 w-7 rounded-full border-2", c === color ? "border-foreground" : "border-transparent")}
+                  style={{ backgroundColor: c }}
+                  onClick={() => setColor(c)}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" onClick={onClose} disabled={busy}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={busy || !displayName.trim() || !avatar.trim()}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
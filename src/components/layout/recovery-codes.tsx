@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from "react";
+import { Copy, Download, Loader2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "../ui/alert-dialog";
+import { Label } from "../ui/label";
+import { Input } from "../ui/input";
+import { Button } from "../ui/button";
+import { useToast } from "../../hooks/use-toast";
+import { getSession, regenerateRecoveryCodes } from "../../services/auth";
+import { hasBridge, invoke } from "../../services/ipc";
+
+type RecoveryCodesDialogProps = {
+  /** The dialog is open while there are codes to show. */
+  codes: string[] | null;
+  onClose: () => void;
+};
+
+/**
+ * New recovery codes, shown once after registering or regenerating them. Main keeps only
+ * keys wrapped with them, so this is the one chance to copy or save them.
+ */
+export function RecoveryCodesDialog({ codes, onClose }: RecoveryCodesDialogProps) {
+  const { toast } = useToast();
+  const text = codes?.join("\n") ?? "";
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(text);
+    toast({ title: "Copied", description: "Paste the codes somewhere safe, away from this computer." });
+  };
+
+  const handleSave = async () => {
+    try {
+      const fileName = `gidit-recovery-codes-${new Date().toISOString().split("T")[0]}.txt`;
+      const { saved } = await invoke("files:save", { fileName, mimeType: "text/plain", dataBase64: btoa(text + "\n") });
+      if (saved) toast({ title: "Recovery codes saved" });
+    } catch (err) {
+      console.error(err);
+      toast({ title: "Save Failed", description: "Unable to save the recovery codes.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <AlertDialog open={!!codes}>
+      <AlertDialogContent onEscapeKeyDown={(e) => e.preventDefault()}>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Save your recovery codes</AlertDialogTitle>
+          <AlertDialogDescription>
+            If you forget your password, one of these codes lets you set a new one without losing your data. Each code
+            works once. They will not be shown again.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="grid grid-cols-2 gap-2 rounded-lg bg-secondary p-4 font-mono text-sm text-center select-all">
+          {codes?.map((code) => (
+            <span key={code}>{code}</span>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleCopy}>
+            <Copy className="w-4 h-4 mr-2" />
+            Copy
+          </Button>
+          {hasBridge() && (
+            <Button variant="outline" onClick={handleSave}>
+              <Download className="w-4 h-4 mr-2" />
+              Save as file
+            </Button>
+          )}
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogAction onClick={onClose}>I have saved them</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+/** Recovery codes in settings: how many are left, and new ones for the password. */
+export function RecoveryCodeSettings({ disabled }: { disabled?: boolean }) {
+  const [left, setLeft] = useState<number | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [codes, setCodes] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    if (disabled) return;
+    getSession()
+      .then((session) => setLeft(session.recoveryCodes ?? 0))
+      .catch(() => {});
+  }, [disabled]);
+
+  const close = () => {
+    setEditing(false);
+    setPassword("");
+    setError(null);
+  };
+
+  const handleGenerate = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await regenerateRecoveryCodes(password);
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      setLeft(result.codes.length);
+      setCodes(result.codes);
+      close();
+    } catch (err) {
+      console.error(err);
+      setError("New recovery codes could not be made.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="p-3 border rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="font-medium">Recovery Codes</h4>
+          <p className="text-sm text-muted-foreground">
+            {left === null
+              ? "Reset a forgotten password without losing your data."
+              : left === 0
+                ? "None left. Without one, a forgotten password means losing your data."
+                : `${left} unused. Each resets a forgotten password once.`}
+          </p>
+        </div>
+        {!editing && (
+          <Button variant="outline" onClick={() => setEditing(true)} disabled={disabled}>
+            New Codes
+          </Button>
+        )}
+      </div>
+      {editing && (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">Your current codes stop working once new ones are made.</p>
+          <div className="grid grid-cols-3 items-center gap-4">
+            <Label htmlFor="recovery-password" className="text-right">
+              Password
+            </Label>
+            <Input
+              id="recovery-password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && password) handleGenerate();
+              }}
+              className="col-span-2"
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={close} disabled={busy}>
+              Cancel
+            </Button>
+            <Button onClick={handleGenerate} disabled={busy || !password}>
+              {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : "Generate"}
+            </Button>
+          </div>
+        </div>
+      )}
+      <RecoveryCodesDialog codes={codes} onClose={() => setCodes(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useEffect, useRef } from "react";
+import type { IndexSource, WidgetLocation } from "../shared/types";
+import { hasBridge } from "../services/ipc";
+import { syncIndexedItems } from "../services/semantic-index";
+import { useWidgetInstance } from "../components/builder/workspace-context";
+
+/** Edits within this window are sent together. */
+const SYNC_DELAY_MS = 1000;
+
+export type IndexEntry = {
+  id: string;
+  title: string;
+  text: string;
+  tags?: string[];
+  due?: Date | string | null;
+  /** Where the item is shown, when not in the widget calling the hook (e.g. builder pages). */
+  location?: WidgetLocation;
+};
+
+function toIso(due: IndexEntry["due"]): string | null {
+  if (!due) return null;
+  const date = due instanceof Date ? due : new Date(due);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Keep the index (semantic search in main/semantic-index.ts, keyword search in
+ * main/search.ts) in step with a widget's items. Whatever the widget holds is sent as a
+ * whole, after edits settle; main drops the items this widget sent before and no longer
+ * holds. Each widget on the canvas has its own scope, its builder item id, so search
+ * results can lead back to it. Outside the canvas (sidebar previews, drag overlays)
+ * nothing is sent unless `opts.scope` is given.
+ *
+ * `toEntry` may return null for items that are not ready (e.g. still being analysed).
+ */
+export function useSemanticIndex<T>(
+  source: IndexSource,
+  items: T[],
+  toEntry: (item: T) => IndexEntry | null,
+  opts: { scope?: string } = {}
+) {
+  const instance = useWidgetInstance();
+  const scope = opts.scope ?? instance?.itemId ?? null;
+  const pageId = instance?.pageId ?? null;
+  const widgetId = instance?.widgetId ?? null;
+  const toEntryRef = useRef(toEntry);
+  toEntryRef.current = toEntry;
+  /** Scope and items as last sent. */
+  const sent = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!hasBridge() || !scope) return;
+    const timer = setTimeout(() => {
+      const entries = items
+        .map((item) => toEntryRef.current(item))
+        .filter((e): e is IndexEntry => e !== null)
+        .map((e) => ({
+          id: e.id,
+          title: e.title,
+          text: e.text,
+          tags: e.tags ?? [],
+          due: toIso(e.due),
+          location: e.location ?? null,
+        }));
+      const snapshot = JSON.stringify([scope, pageId, widgetId, entries]);
+      if (snapshot === sent.current) return;
+
+      sent.current = snapshot;
+      const location = pageId || widgetId ? { pageId, itemId: scope, widgetId } : null;
+      syncIndexedItems({ source, scope, location, items: entries }).catch((err) => {
+        sent.current = null;
+        console.error(`Failed to update the ${source} index:`, err);
+      });
+    }, SYNC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [source, items, scope, pageId, widgetId]);
+}
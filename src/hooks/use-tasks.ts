@@ -0,0 +1,51 @@
+import { useEffect, useState } from "react";
+import { toast } from "./use-toast";
+import {
+  addTask,
+  deleteTask,
+  updateTask,
+  watchTasks,
+  type NewTask,
+  type Task,
+  type TaskUpdates,
+} from "../services/tasks";
+
+const report = (err: unknown) => {
+  toast({ title: "Tasks not updated", description: (err as Error)?.message, variant: "destructive" });
+};
+
+const reported = <T>(call: Promise<T>, fallback: T): Promise<T> =>
+  call.catch((err) => {
+    report(err);
+    return fallback;
+  });
+
+/**
+ * The signed-in profile's tasks (src/services/tasks.ts), the same in every widget and kept
+ * current wherever they change, with the calls that change them. Failed calls are reported
+ * with a toast and resolve with null (false for `deleteTask`).
+ *
+ * `loaded` stays false until the list has arrived, so widgets can tell "no tasks" from
+ * "not loaded yet".
+ */
+export function useTasks() {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(
+    () =>
+      watchTasks((next) => {
+        setTasks(next);
+        setLoaded(true);
+      }, report),
+    []
+  );
+
+  return {
+    tasks,
+    loaded,
+    addTask: (task: NewTask) => reported<Task | null>(addTask(task), null),
+    updateTask: (taskId: string, updates: TaskUpdates) => reported<Task | null>(updateTask(taskId, updates), null),
+    deleteTask: (taskId: string) => reported(deleteTask(taskId), false),
+  };
+}
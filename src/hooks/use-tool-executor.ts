@@ -0,0 +1,15 @@
+import { useEffect, useRef } from "react";
+import type { ToolName } from "../ai/tools/manifest";
+import { registerToolExecutor, type ToolExecutor } from "../services/tools";
+
+/**
+ * Let Giddy run a tool against this component's state while it is mounted
+ * (see src/services/tools.ts). The latest `executor` is always used, so it can close
+ * over current state without re-registering.
+ */
+export function useToolExecutor<N extends ToolName>(name: N, executor: ToolExecutor<N>) {
+  const executorRef = useRef(executor);
+  executorRef.current = executor;
+
+  useEffect(() => registerToolExecutor<N>(name, (args) => executorRef.current(args)), [name]);
+}
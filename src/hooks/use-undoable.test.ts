@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { COALESCE_MS, HISTORY_LIMIT, historyReducer, type Action, type History } from "./use-undoable";
+
+const start = (present: number): History<number> => ({ past: [], present, future: [], last: null });
+const run = (state: History<number>, ...actions: Action<number>[]) => actions.reduce(historyReducer, state);
+const set = (update: number | ((previous: number) => number), coalesce?: string, at = 0): Action<number> => ({
+  type: "set",
+  update,
+  coalesce,
+  at,
+});
+
+describe("historyReducer", () => {
+  it("undoes and redoes changes one at a time", () => {
+    const state = run(start(0), set(1), set((n) => n + 1));
+    expect(state).toMatchObject({ past: [0, 1], present: 2, future: [] });
+
+    const undone = run(state, { type: "undo" }, { type: "undo" });
+    expect(undone).toMatchObject({ past: [], present: 0, future: [1, 2] });
+    expect(run(undone, { type: "undo" })).toBe(undone);
+
+    const redone = run(undone, { type: "redo" });
+    expect(redone).toMatchObject({ past: [0], present: 1, future: [2] });
+    expect(run(redone, { type: "redo" }, { type: "redo" })).toMatchObject({ present: 2, future: [] });
+  });
+
+  it("drops what could be redone when something new changes", () => {
+    const state = run(start(0), set(1), set(2), { type: "undo" }, set(3));
+    expect(state).toMatchObject({ past: [0, 1], present: 3, future: [] });
+  });
+
+  it("keeps no step for a change to the same value", () => {
+    const state = run(start(0), set(1));
+    expect(run(state, set(1))).toBe(state);
+  });
+
+  it("makes quick changes with the same key one step", () => {
+    const state = run(start(0), set(1, "resize:a", 0), set(2, "resize:a", 500), set(3, "resize:a", 900));
+    expect(state).toMatchObject({ past: [0], present: 3 });
+    expect(run(state, { type: "undo" }).present).toBe(0);
+  });
+
+  it("starts a new step for another key, a pause or an undo in between", () => {
+    expect(run(start(0), set(1, "resize:a", 0), set(2, "resize:b", 10)).past).toEqual([0, 1]);
+    expect(run(start(0), set(1, "resize:a", 0), set(2, "resize:a", COALESCE_MS)).past).toEqual([0, 1]);
+    expect(run(start(0), set(1, "name:a", 0), set(2, "name:a", 10), set(3)).past).toEqual([0, 2]);
+    expect(
+      run(start(0), set(1, "name:a", 0), set(2, "name:a", 10), { type: "undo" }, { type: "redo" }, set(3, "name:a", 20))
+        .past
+    ).toEqual([0, 2]);
+  });
+
+  it(`keeps the last ${HISTORY_LIMIT} steps`, () => {
+    const changes = Array.from({ length: HISTORY_LIMIT + 5 }, (_, i) => set(i + 1));
+    const state = run(start(0), ...changes);
+    expect(state.past).toHaveLength(HISTORY_LIMIT);
+    expect(state.past[0]).toBe(5);
+  });
+
+  it("forgets the history on reset", () => {
+    const state = run(start(0), set(1), set(2), { type: "undo" }, { type: "reset", value: 7 });
+    expect(state).toEqual(start(7));
+  });
+});
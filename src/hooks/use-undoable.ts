@@ -0,0 +1,95 @@
+import { useCallback, useReducer } from "react";
+
+/** Steps kept to undo; the oldest are dropped beyond this. */
+export const HISTORY_LIMIT = 100;
+/** Changes with the same `coalesce` key this close together become one step. */
+export const COALESCE_MS = 1000;
+
+export type UndoableOptions = {
+  /**
+   * Changes with the same key in quick succession (e.g. resize clicks on one widget) are
+   * undone together.
+   */
+  coalesce?: string;
+};
+
+export type History<T> = {
+  past: T[];
+  present: T;
+  future: T[];
+  /** The key and time of the latest change, while it may still be coalesced. */
+  last: { key: string; at: number } | null;
+};
+
+export type Action<T> =
+  | { type: "set"; update: T | ((previous: T) => T); coalesce?: string; at: number }
+  | { type: "reset"; value: T }
+  | { type: "undo" }
+  | { type: "redo" };
+
+/** The history after one change, undo or redo; pure, so useUndoable can hand it to useReducer. */
+export function historyReducer<T>(state: History<T>, action: Action<T>): History<T> {
+  switch (action.type) {
+    case "set": {
+      const next =
+        typeof action.update === "function" ? (action.update as (previous: T) => T)(state.present) : action.update;
+      if (Object.is(next, state.present)) return state;
+      const last = action.coalesce ? { key: action.coalesce, at: action.at } : null;
+      if (action.coalesce && state.last?.key === action.coalesce && action.at - state.last.at < COALESCE_MS) {
+        return { ...state, present: next, future: [], last };
+      }
+      return { past: [...state.past, state.present].slice(-HISTORY_LIMIT), present: next, future: [], last };
+    }
+    case "reset":
+      return { past: [], present: action.value, future: [], last: null };
+    case "undo":
+      if (state.past.length === 0) return state;
+      return {
+        past: state.past.slice(0, -1),
+        present: state.past[state.past.length - 1],
+        future: [state.present, ...state.future],
+        last: null,
+      };
+    case "redo":
+      if (state.future.length === 0) return state;
+      return {
+        past: [...state.past, state.present],
+        present: state.future[0],
+        future: state.future.slice(1),
+        last: null,
+      };
+  }
+}
+
+/**
+ * State with undo and redo, like useState otherwise. `reset` replaces the value and forgets
+ * the history (e.g. after loading). The history lives as long as the component: nothing of
+ * it is saved.
+ */
+export function useUndoable<T>(initial: T) {
+  const [state, dispatch] = useReducer(historyReducer as (state: History<T>, action: Action<T>) => History<T>, {
+    past: [],
+    present: initial,
+    future: [],
+    last: null,
+  });
+
+  const set = useCallback(
+    (update: T | ((previous: T) => T), options: UndoableOptions = {}) =>
+      dispatch({ type: "set", update, coalesce: options.coalesce, at: Date.now() }),
+    []
+  );
+  const reset = useCallback((value: T) => dispatch({ type: "reset", value }), []);
+  const undo = useCallback(() => dispatch({ type: "undo" }), []);
+  const redo = useCallback(() => dispatch({ type: "redo" }), []);
+
+  return {
+    value: state.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  };
+}
@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from "react";
+import { useWidgetInstance } from "../components/builder/workspace-context";
+import { readWidgetState, writeWidgetState } from "../services/widget-state";
+
+/** Changes are saved once they have settled for this long. */
+const SAVE_DELAY_MS = 500;
+
+export type WidgetStateOptions<T> = {
+  /** The shape of the value; raise it when the shape changes and handle older values in `migrate`. */
+  version?: number;
+  /**
+   * Bring a value saved with an older `version` up to date. Without it, such values are replaced
+   * by the default.
+   */
+  migrate?: (value: unknown, fromVersion: number) => T;
+  /** Adjust a saved value as it loads, e.g. to end work that was still running when it was saved. */
+  restore?: (value: T) => T;
+};
+
+/**
+ * useState for what a widget keeps: the value is saved for the widget's builder item (through
+ * main/widget-state.ts, encrypted) and comes back when the widget does, after a reload or on
+ * the next sign-in. Two copies of a widget keep separate values; `key` tells a widget's
+ * values apart.
+ *
+ * The default shows until the saved value has loaded. Outside the canvas (sidebar previews,
+ * drag overlays) nothing is loaded or saved. A value that cannot be read, or was saved by a
+ * newer version, is never saved over.
+ */
+export function useWidgetState<T>(
+  key: string,
+  initial: T | (() => T),
+  options: WidgetStateOptions<T> = {}
+): [T, Dispatch<SetStateAction<T>>] {
+  const { version = 1, migrate, restore } = options;
+  const itemId = useWidgetInstance()?.itemId ?? null;
+  const [value, setValue] = useState(initial);
+  const [ready, setReady] = useState(false);
+  // Changed since loaded (or before loading finished, in which case the change wins)
+  const dirty = useRef(false);
+  const readOnly = useRef(false);
+  // The save waiting for SAVE_DELAY_MS; run at once when the widget goes or the window closes
+  const pendingSave = useRef<(() => void) | null>(null);
+  const loaders = useRef({ migrate, restore });
+  loaders.current = { migrate, restore };
+
+  useEffect(() => {
+    if (!itemId) return;
+    let cancelled = false;
+    readWidgetState(itemId, key)
+      .then((stored) => {
+        if (cancelled) return;
+        const { migrate, restore = (loaded: T) => loaded } = loaders.current;
+        if (stored && !dirty.current) {
+          if (stored.version > version) {
+            readOnly.current = true;
+          } else if (stored.version === version) {
+            setValue(restore(stored.value as T));
+          } else if (migrate) {
+            setValue(restore(migrate(stored.value, stored.version)));
+            dirty.current = true;
+          }
+        }
+        setReady(true);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error(`Failed to load this widget's "${key}"`, error);
+        readOnly.current = true;
+        setReady(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [itemId, key, version]);
+
+  useEffect(() => {
+    if (!itemId || !ready || readOnly.current || !dirty.current) return;
+    const save = () => {
+      pendingSave.current = null;
+      writeWidgetState(itemId, key, version, value).catch((error) => {
+        console.error(`Failed to save this widget's "${key}"`, error);
+      });
+    };
+    pendingSave.current = save;
+    const timer = setTimeout(save, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [value, ready, itemId, key, version]);
+
+  useEffect(() => {
+    const flush = () => pendingSave.current?.();
+    window.addEventListener("beforeunload", flush);
+    return () => {
+      window.removeEventListener("beforeunload", flush);
+      flush();
+    };
+  }, []);
+
+  const update = useCallback<Dispatch<SetStateAction<T>>>((next) => {
+    dirty.current = true;
+    setValue(next);
+  }, []);
+
+  return [value, update];
+}
@@ -1,66 +1,78 @@
 /**
- * Renderer-side AI service for extracting micro-tasks.
+ * Renderer-side AI services.
  *
- * This module replaces server-side GenKit flows. It validates input/output
- * with zod and delegates actual model invocation to the Electron main process
- * via IPC (preload should expose window.api.invoke).
- *
- * The main process is responsible for running the local model (Ollama or
- * Python-based pipelines) and returning a plain JSON object matching the
- * ExtractMicroTasksOutput schema.
+ * Flows run in the Electron main process (src/ai/flows/manifest.ts) and are reached
+ * through the generic `ai:runFlow` channel. Main validates the input and output
+ * against each flow's zod schemas; the types here come from the same manifest
+ * (type-only import, nothing from main is bundled into the renderer).
  */
 
-import { z } from 'zod';
+import { invoke } from './ipc';
+import type { FlowErrorInfo, FlowInfo } from '../shared/types';
+import type { FlowInput, FlowName, FlowOutput } from '../ai/flows/manifest';
 
-const ExtractMicroTasksInputSchema = z.object({
-  taskDescription: z
-    .string()
-    .describe('A detailed description of a task or project.'),
-});
-export type ExtractMicroTasksInput = z.infer<typeof ExtractMicroTasksInputSchema>;
+export type { FlowInput, FlowName, FlowOutput };
 
-const ExtractMicroTasksOutputSchema = z.object({
-  microTasks: z
-    .array(z.string())
-    .describe('A list of micro-tasks extracted from the task description.'),
-});
-export type ExtractMicroTasksOutput = z.infer<typeof ExtractMicroTasksOutputSchema>;
+export type ExtractMicroTasksInput = FlowInput<'extractMicroTasks'>;
+export type ExtractMicroTasksOutput = FlowOutput<'extractMicroTasks'>;
+export type TriageBrainDumpOutput = FlowOutput<'triageBrainDump'>;
+export type GenerateForgettingSuggestionsOutput = FlowOutput<'generateForgettingSuggestions'>;
+export type ReceiptData = FlowOutput<'extractReceiptData'>;
+export type ImageAnalysis = FlowOutput<'analyzeImageForGallery'>;
+export type DocumentDetails = FlowOutput<'extractDocumentDetails'>;
+export type GenerateHealthSummaryOutput = FlowOutput<'generateHealthSummary'>;
+export type SbarSynthesizerInput = FlowInput<'synthesizeSbarReport'>;
+export type SbarSynthesizerOutput = FlowOutput<'synthesizeSbarReport'>;
 
 /**
- * Minimal typing for the preload-exposed API. Ensure your preload.ts exposes
- * an `api.invoke(channel, ...args)` that calls ipcRenderer.invoke under the hood.
+ * Rejection of runFlow and the flow wrappers below. `message` is safe to show in a toast;
+ * `issues` lists field-level problems when the model reply or the input failed a schema.
  */
-declare global {
-  interface Window {
-    api?: {
-      invoke: (channel: string, ...args: any[]) => Promise<any>;
-    };
+export class FlowRunError extends Error {
+  readonly kind: FlowErrorInfo['kind'];
+  readonly issues: string[];
+
+  constructor(info: FlowErrorInfo) {
+    super(info.message);
+    this.name = 'FlowRunError';
+    this.kind = info.kind;
+    this.issues = info.issues;
   }
 }
 
 /**
- * extractMicroTasks
- *
- * Calls the main process to run the AI model that extracts micro-tasks.
- * Validates input and output with zod schemas.
+ * Run a flow from the manifest by name.
  *
- * IPC channel used: 'ai:extractMicroTasks'
+ * IPC channel used: 'ai:runFlow'
  */
-export async function extractMicroTasks(
-  input: ExtractMicroTasksInput
-): Promise<ExtractMicroTasksOutput> {
-  // Validate input early
-  const parsedInput = ExtractMicroTasksInputSchema.parse(input);
-
-  if (!window.api || typeof window.api.invoke !== 'function') {
-    throw new Error(
-      'window.api.invoke is not available. Ensure preload exposes an invoke API.'
-    );
-  }
-
-  // Invoke Electron main. Main should run the model (Ollama/Python) and return JSON.
-  const result = await window.api.invoke('ai:extractMicroTasks', parsedInput);
+export async function runFlow<N extends FlowName>(name: N, input: FlowInput<N>): Promise<FlowOutput<N>> {
+  const result = await invoke('ai:runFlow', { name, input });
+  if (!result.success) throw new FlowRunError(result.error);
+  return result.output as FlowOutput<N>;
+}
 
-  // Validate and return
-  return ExtractMicroTasksOutputSchema.parse(result);
+/**
+ * List the registered flows and whether the selected provider can run them.
+ *
+ * IPC channel used: 'ai:getFlows'
+ */
+export function getFlows(): Promise<FlowInfo[]> {
+  return invoke('ai:getFlows');
 }
+
+export const extractMicroTasks = (input: ExtractMicroTasksInput) => runFlow('extractMicroTasks', input);
+export const triageBrainDump = (input: FlowInput<'triageBrainDump'>) => runFlow('triageBrainDump', input);
+export const organizeNotes = (input: FlowInput<'organizeNotes'>) => runFlow('organizeNotes', input);
+export const generateFlashcards = (input: FlowInput<'generateFlashcards'>) => runFlow('generateFlashcards', input);
+export const generateForgettingSuggestions = () => runFlow('generateForgettingSuggestions', undefined);
+export const generateSessionRecap = (input: FlowInput<'generateSessionRecap'>) => runFlow('generateSessionRecap', input);
+export const generateReactComponent = (input: FlowInput<'generateReactComponent'>) =>
+  runFlow('generateReactComponent', input);
+export const synthesizeSbarReport = (input: SbarSynthesizerInput) => runFlow('synthesizeSbarReport', input);
+export const analyzeImageForGallery = (input: FlowInput<'analyzeImageForGallery'>) =>
+  runFlow('analyzeImageForGallery', input);
+export const extractReceiptData = (input: FlowInput<'extractReceiptData'>) => runFlow('extractReceiptData', input);
+export const extractDocumentDetails = (input: FlowInput<'extractDocumentDetails'>) =>
+  runFlow('extractDocumentDetails', input);
+export const generateHealthSummary = (input: FlowInput<'generateHealthSummary'>) =>
+  runFlow('generateHealthSummary', input);
@@ -2,21 +2,21 @@
  * Electron main service: assistantService.ts
  *
  * Replaces the previous Next.js server-side flow for the conversational assistant.
- * This module runs in the Electron main process and invokes a local LLM via the Ollama CLI.
+ * This module runs in the Electron main process and invokes the AI provider selected in settings.
  *
  * Responsibilities:
- * - Build the assistant prompt (persona, conversation history, and new user message).
- * - Invoke Ollama CLI (child_process) to generate a response.
- * - Return a minimal structured response for renderer IPC handlers to forward to UI.
+ * - Build the assistant prompt (persona, summary of older history, saved items retrieved for the
+ *   question, recent history, and new user message).
+ * - Send the persona and history as chat messages through main/providers.ts to generate a response.
+ * - Fold older history into a short summary so long conversations fit the context window.
  *
  * Note:
- * - The renderer should call this via an IPC handler (e.g. ipcMain.handle('ai:chat', chatAssistant)).
- * - Model selection is configurable via process.env.OLLAMA_MODEL (defaults to 'gpt-4o-mini' if not set).
- * - Adjust exec strategy if your Ollama CLI invocation differs. This implementation uses execFileSync for simplicity.
+ * - Stored conversations, streaming to the window and stop live in main/chat.ts (chat:* channels).
+ * - Provider, keys and model come from the app settings; `input.model` overrides the model per request.
+ * - Pass `onToken` to stream the reply as it is generated.
  */
 
-import { execFileSync } from 'child_process';
-import path from 'path';
+import { completeChat, generateText, type AiMessage } from '../../main/providers';
 
 type Role = 'user' | 'assistant' | 'system';
 
@@ -28,8 +28,28 @@ export interface ChatMessage {
 export interface ChatAssistantInput {
   message: string;
   history?: ChatMessage[]; // chronological: oldest -> newest
+  /** Summary of the conversation before `history`, from summarizeHistory(). */
+  summary?: string | null;
+  /**
+   * Set when app actions are offered (src/ai/tools/manifest.ts). `instructions` describes
+   * the tools in the prompt for models without native function calling.
+   */
+  tools?: { instructions?: string };
+  /** Saved items retrieved for this message (main/semantic-index.ts); cited as [n]. */
+  sources?: PromptSource[];
   // future: could include metadata like userId, sessionId, modelOverride, etc.
   model?: string;
+  /** Receives the reply token by token while it streams in. */
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface PromptSource {
+  n: number;
+  /** Kind of item, e.g. 'Note'. */
+  label: string;
+  title: string;
+  excerpt: string;
 }
 
 export interface ChatAssistantOutput {
@@ -37,14 +57,7 @@ export interface ChatAssistantOutput {
   // future: add tokens usage, rawOutput, or structured blocks (graphs, reminders) if needed.
 }
 
-const DEFAULT_MODEL = process.env.OLLAMA_MODEL || 'gpt-4o-mini';
-
-/**
- * Builds the plain-text prompt consumed by the LLM.
- * Mirrors the persona and instructions from the original Next.js flow.
- */
-function buildPrompt(input: ChatAssistantInput) {
-  const persona = `
+const PERSONA = `
 You are Giddy, a super helpful AI assistant for the application "Gidit", a productivity studio for users with ADHD.
 
 Your personality: cheerful, eager to please, and incredibly persistent. You never give up on solving a user's issue.
@@ -57,61 +70,44 @@ Your role:
 - When asked to "Chat with a representative" or for human help, politely inform the user that live chat is not available yet, but they can email BKEEL@GIDIT.CO for assistance.
 - Be supportive, concise, and friendly, always encouraging the user.
 - Provide display descriptions for graphs, reminders, etc., that the renderer can use to render visual elements in the chatbox.
+
+Please respond in Giddy's voice. Keep it concise but thorough. When you describe graphs or reminders, provide a clear short description and structured hints that the renderer can use to display them (e.g. "graph: type=bar; title=Tasks Completed; data=[...]").
 `;
 
-  const historyBlock = (input.history || [])
-    .map(h => `- ${h.role}: ${h.content}`)
-    .join('\n');
+const TOOL_GUIDANCE = `
+You can act in the app with the tools you are given: add, update and complete tasks, add reminders, search the user's notes and documents, and add widgets to the page they are on.
+Propose a tool call whenever the user asks for one of these, and say in one sentence what you are proposing. The user confirms every action on a card before it runs, so never claim an action has happened until you see its result.
+`;
 
-  const prompt = [
-    persona.trim(),
-    '',
-    'Here is the conversation history:',
-    historyBlock || '- (no prior messages)',
-    '',
-    'Here is the new user message:',
-    `- user: ${input.message}`,
-    '',
-    'Please provide a helpful response in Giddy\'s voice. Keep it concise but thorough. When you describe graphs or reminders, provide a clear short description and structured hints that the renderer can use to display them (e.g. "graph: type=bar; title=Tasks Completed; data=[...]").'
+function describeSources(sources: PromptSource[]): string {
+  const list = sources.map((s) => `[${s.n}] ${s.label} "${s.title}": ${s.excerpt}`).join('\n');
+  return [
+    "Items from the user's saved data that may be relevant to their message:",
+    list,
+    'When your answer uses one of them, cite it inline with its number, e.g. [1]. Ignore items that do not help, and never cite a number that is not listed.',
   ].join('\n');
-
-  return prompt;
 }
 
 /**
- * Executes the Ollama CLI to generate a response.
- * - Uses execFileSync to avoid shell escaping issues.
- * - If your installation requires different args, adjust here.
- *
- * Note: Ollama usage varies by version. Common pattern:
- *   ollama generate <model> "<prompt text>"
- *
- * We pass the prompt as a separate argument. If your Ollama CLI expects prompt from stdin,
- * change the invocation accordingly.
+ * Builds the chat messages sent to the LLM: persona as the system message,
+ * then the summary of older history (if any), retrieved saved items (if any), the recent
+ * history, and the new user message. Mirrors the persona and instructions from the
+ * original Next.js flow.
  */
-function runOllamaGenerate(prompt: string, model: string) {
-  const modelName = model || DEFAULT_MODEL;
-
-  try {
-    // execFileSync throws on non-zero exit code
-    // We pass the prompt as a single argument to avoid shell interpolation.
-    // Increase maxBuffer in case of long outputs.
-    const stdout = execFileSync(
-      'ollama',
-      ['generate', modelName, prompt],
-      {
-        encoding: 'utf8',
-        maxBuffer: 10 * 1024 * 1024, // 10MB
-        // cwd: process.cwd(), // optionally set working dir
-      }
-    );
-
-    return stdout?.toString?.() ?? '';
-  } catch (err: any) {
-    // Try to surface helpful debug information while keeping message concise.
-    const msg = (err && err.message) ? err.message : String(err);
-    throw new Error(`Ollama generate failed: ${msg}`);
-  }
+export function buildMessages(input: ChatAssistantInput): AiMessage[] {
+  const summary = input.summary?.trim();
+  const system = input.tools
+    ? [PERSONA.trim(), TOOL_GUIDANCE.trim(), `Current date and time: ${new Date().toString()}`, input.tools.instructions]
+        .filter(Boolean)
+        .join('\n\n')
+    : PERSONA.trim();
+  return [
+    { role: 'system', content: system },
+    ...(summary ? [{ role: 'system' as const, content: `Summary of the earlier conversation:\n${summary}` }] : []),
+    ...(input.sources?.length ? [{ role: 'system' as const, content: describeSources(input.sources) }] : []),
+    ...(input.history || []).map((h) => ({ role: h.role, content: h.content })),
+    { role: 'user', content: input.message },
+  ];
 }
 
 /**
@@ -124,14 +120,15 @@ export async function chatAssistant(input: ChatAssistantInput): Promise<ChatAssi
     return { response: "I'm sorry — I didn't receive a message. Please try again." };
   }
 
-  const prompt = buildPrompt(input);
-
-  // Allow runtime override of model per-request.
-  const model = input.model || process.env.OLLAMA_MODEL || DEFAULT_MODEL;
-
   let rawOutput: string;
   try {
-    rawOutput = runOllamaGenerate(prompt, model);
+    // input.model allows a runtime override of the model per-request.
+    const result = await completeChat(buildMessages(input), {
+      model: input.model,
+      onToken: input.onToken,
+      signal: input.signal,
+    });
+    rawOutput = result.text;
   } catch (err: any) {
     // Return a friendly error message; renderer can surface details if needed.
     const errorMsg = typeof err?.message === 'string' ? err.message : 'Unknown error';
@@ -143,3 +140,28 @@ export async function chatAssistant(input: ChatAssistantInput): Promise<ChatAssi
 
   return { response };
 }
+
+/**
+ * Fold `messages` (oldest first) into the running summary of a conversation.
+ * Used by main/chat.ts when the unsummarised history outgrows the prompt budget.
+ */
+export async function summarizeHistory(
+  previousSummary: string | null,
+  messages: ChatMessage[],
+  opts: { model?: string; signal?: AbortSignal } = {}
+): Promise<string> {
+  const transcript = messages
+    .map((m) => `${m.role === 'user' ? 'User' : 'Giddy'}: ${m.content}`)
+    .join('\n\n');
+  const prompt = [
+    'Summarise this conversation between a user and Giddy, the Gidit assistant, so it can continue without the full transcript.',
+    'Keep facts, names, numbers, decisions, open questions and anything the user asked Giddy to remember.',
+    'Write at most 200 words of plain prose.',
+    '',
+    previousSummary ? `Summary so far:\n${previousSummary}\n` : '',
+    `New messages:\n${transcript}`,
+  ].join('\n');
+
+  const text = await generateText(prompt, { model: opts.model, signal: opts.signal });
+  return text.trim();
+}
@@ -1,86 +1,150 @@
 /**
  * Renderer-side Auth service for the Electron app.
  *
- * Replaces previous Firebase-based auth with local IPC-based auth.
- * The Electron preload script should expose an IPC invoke helper on window
- * (e.g. `window.api.invoke` or `window.electronAPI.invoke`) that forwards
- * calls to the main process.
+ * Accounts are local (main/auth.ts): passwords are hashed with argon2id in main and the
+ * signed-in session lives there too. Calls go through the typed bridge in ./ipc (see
+ * src/shared/types.ts for the contract).
  *
- * Expected IPC channels handled in the main process:
- *  - "auth:register"    : { username, password } -> { success: boolean, user?: { id, username }, error?: string }
- *  - "auth:login"       : { username, password } -> { success: boolean, user?: { id, username }, token?: string, error?: string }
+ * IPC channels handled in the main process:
+ *  - "auth:register"    : { username, password } -> RegisterResult (signs the new user in)
+ *  - "auth:login"       : { username, password } -> LoginResult (`retryAt` while locked out)
  *  - "auth:logout"      : void                   -> { success: boolean }
- *  - "auth:getSession"  : void                   -> { user?: { id, username }, authenticated: boolean }
+ *  - "auth:getSession"  : void                   -> { authenticated, user?, expiresAt?, locked?, screenLocked?, ... }
+ *  - "auth:changePassword" : { currentPassword, newPassword } -> ChangePasswordResult
+ *  - "auth:lock"        : void                   -> { success: boolean }
+ *  - "auth:unlock"      : { pin } | { password }  -> UnlockResult
+ *  - "auth:setPin"      : { password, pin | null } -> SetPinResult
+ *  - "auth:recover"     : { username, code, newPassword } -> RecoverResult (signs in)
+ *  - "auth:regenerateRecoveryCodes" : { password } -> RecoveryCodesResult
+ *  - "auth:deleteAccount" : { password }         -> DeleteAccountResult (signs out)
+ * Events: "auth:event" on sign-in, sign-out and session expiry (use `subscribe`) and when the
+ * lock screen goes up or down (use `onScreenLock`).
  *
- * Make sure the preload.ts exposes an invoke function, e.g.:
- *   contextBridge.exposeInMainWorld('api', { invoke: (channel, payload) => ipcRenderer.invoke(channel, payload) })
+ * Signing in also unlocks the user's encrypted data (src/services/user-data.ts). Sessions are
+ * per-device and held by main alone; the renderer never sees a token. A session restored after
+ * a restart reports `locked` until the password is entered again with `login`.
+ * The lock screen is lighter: widgets stay mounted behind it, but main answers no data
+ * requests until `unlock` takes it down.
+ *
+ * The encrypted data cannot be opened without the password, so registering hands out
+ * one-time recovery codes; with one of them `recover` sets a new password instead.
  */
 
-type IpcInvoke = (channel: string, payload?: any) => Promise<any>;
+import { hasBridge, invoke, on } from './ipc';
+import type {
+  AuthEvent,
+  AuthUser,
+  ChangePasswordResult,
+  DeleteAccountResult,
+  LoginResult,
+  LogoutResult,
+  RecoverResult,
+  RecoveryCodesResult,
+  RegisterResult,
+  SessionResult,
+  SetPinResult,
+  UnlockResult,
+} from '../shared/types';
 
-const getIpcInvoke = (): IpcInvoke => {
-  if (typeof window === 'undefined') {
-    throw new Error('Window is not available');
-  }
+export type {
+  AuthEvent,
+  AuthUser,
+  ChangePasswordResult,
+  DeleteAccountResult,
+  RecoverResult,
+  RecoveryCodesResult,
+  RegisterResult,
+  LoginResult,
+  LogoutResult,
+  SessionResult,
+  SetPinResult,
+  UnlockResult,
+} from '../shared/types';
 
-  // Common preload exposure names. Adjust if your preload uses a different name.
-  const anyWindow = window as any;
+/**
+ * Register a new local user (username/password) and sign them in.
+ * Failures (taken username, short password) come back as `{ success: false, error }`.
+ * A success carries the recovery codes, which main does not keep: show them to the user now.
+ */
+export const register = async (username: string, password: string): Promise<RegisterResult> => {
+  return invoke('auth:register', { username, password });
+};
 
-  if (anyWindow.api && typeof anyWindow.api.invoke === 'function') {
-    return anyWindow.api.invoke.bind(anyWindow.api);
-  }
+/**
+ * Login with local username/password.
+ * Repeated failures lock the username for a while; `retryAt` says until when.
+ */
+export const login = async (username: string, password: string): Promise<LoginResult> => {
+  return invoke('auth:login', { username, password });
+};
 
-  if (anyWindow.electronAPI && typeof anyWindow.electronAPI.invoke === 'function') {
-    return anyWindow.electronAPI.invoke.bind(anyWindow.electronAPI);
-  }
+/**
+ * Logout current session.
+ */
+export const logout = async (): Promise<LogoutResult> => {
+  return invoke('auth:logout');
+};
 
-  if (anyWindow.ipcRenderer && typeof anyWindow.ipcRenderer.invoke === 'function') {
-    // Less recommended (direct exposure), but support if present.
-    return anyWindow.ipcRenderer.invoke.bind(anyWindow.ipcRenderer);
-  }
+export const signOut = logout;
 
-  throw new Error(
-    'No IPC invoke function found on window. Ensure preload exposes an API (e.g. window.api.invoke).'
-  );
+/**
+ * Get current session (if any). Counts as activity: main extends the session.
+ */
+export const getSession = async (): Promise<SessionResult> => {
+  return invoke('auth:getSession');
 };
 
-export type RegisterResult = { success: true; user: { id: string; username: string } } | { success: false; error: string };
-export type LoginResult = { success: true; user: { id: string; username: string }; token?: string } | { success: false; error: string };
-export type LogoutResult = { success: boolean };
-export type SessionResult = { authenticated: boolean; user?: { id: string; username: string } };
+/**
+ * Replace the signed-in user's password. Their encrypted data is re-keyed for the new one.
+ */
+export const changePassword = async (currentPassword: string, newPassword: string): Promise<ChangePasswordResult> => {
+  return invoke('auth:changePassword', { currentPassword, newPassword });
+};
 
 /**
- * Register a new local user (username/password).
- * The main process should hash and store credentials (bcrypt/argon2) in the local DB.
+ * Put up the lock screen now. Resolves false when nothing is open to hide (signed out).
  */
-export const register = async (username: string, password: string): Promise<RegisterResult> => {
-  const invoke = getIpcInvoke();
-  return invoke('auth:register', { username, password }) as Promise<RegisterResult>;
+export const lock = async (): Promise<boolean> => {
+  const { success } = await invoke('auth:lock');
+  return success;
 };
 
 /**
- * Login with local username/password.
- * Main process should verify password and return session info (optionally a token).
+ * Take down the lock screen with the PIN or the password. After too many wrong PINs the
+ * result says `passwordRequired`; wrong passwords lock out as with `login`.
  */
-export const login = async (username: string, password: string): Promise<LoginResult> => {
-  const invoke = getIpcInvoke();
-  return invoke('auth:login', { username, password }) as Promise<LoginResult>;
+export const unlock = async (credentials: { pin: string } | { password: string }): Promise<UnlockResult> => {
+  return invoke('auth:unlock', credentials);
 };
 
 /**
- * Logout current session.
+ * Set the lock-screen PIN (4 to 12 digits), or remove it with null. Needs the password.
  */
-export const logout = async (): Promise<LogoutResult> => {
-  const invoke = getIpcInvoke();
-  return invoke('auth:logout') as Promise<LogoutResult>;
+export const setPin = async (password: string, pin: string | null): Promise<SetPinResult> => {
+  return invoke('auth:setPin', { password, pin });
 };
 
 /**
- * Get current session (if any).
+ * Set a new password for a user who forgot theirs, with one of their recovery codes, and sign
+ * them in. Each code works once; wrong codes lock out like wrong passwords.
  */
-export const getSession = async (): Promise<SessionResult> => {
-  const invoke = getIpcInvoke();
-  return invoke('auth:getSession') as Promise<SessionResult>;
+export const recover = async (username: string, code: string, newPassword: string): Promise<RecoverResult> => {
+  return invoke('auth:recover', { username, code, newPassword });
+};
+
+/**
+ * Replace the signed-in user's recovery codes with new ones (shown once). Needs the password.
+ */
+export const regenerateRecoveryCodes = async (password: string): Promise<RecoveryCodesResult> => {
+  return invoke('auth:regenerateRecoveryCodes', { password });
+};
+
+/**
+ * Delete the signed-in user and all their data from this computer, then sign out.
+ * Needs the password; cannot be undone.
+ */
+export const deleteAccount = async (password: string): Promise<DeleteAccountResult> => {
+  return invoke('auth:deleteAccount', { password });
 };
 
 // Optional convenience: check authentication status
@@ -88,3 +152,44 @@ export const isAuthenticated = async (): Promise<boolean> => {
   const session = await getSession();
   return !!session?.authenticated;
 };
+
+/**
+ * Follow the signed-in user: `listener` gets the user after a sign-in and null after a
+ * sign-out or when the session expires. Returns the function that stops listening.
+ */
+export const subscribe = (listener: (user: AuthUser | null, event: AuthEvent) => void): (() => void) => {
+  if (!hasBridge()) return () => {};
+  return on('auth:event', (event) => {
+    if (event.type !== 'screen-locked' && event.type !== 'screen-unlocked') listener(event.user, event);
+  });
+};
+
+/**
+ * Follow the lock screen: `listener` gets true (and whether the PIN may unlock) when it goes
+ * up and false when it comes down. Returns the function that stops listening.
+ */
+export const onScreenLock = (listener: (locked: boolean, pinUnlock: boolean) => void): (() => void) => {
+  if (!hasBridge()) return () => {};
+  return on('auth:event', (event) => {
+    if (event.type === 'screen-locked') listener(true, event.pinUnlock);
+    else if (event.type === 'screen-unlocked') listener(false, false);
+  });
+};
+
+export const authService = {
+  register,
+  login,
+  logout,
+  signOut,
+  getSession,
+  changePassword,
+  lock,
+  unlock,
+  setPin,
+  recover,
+  regenerateRecoveryCodes,
+  deleteAccount,
+  isAuthenticated,
+  subscribe,
+  onScreenLock,
+};
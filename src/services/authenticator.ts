@@ -0,0 +1,81 @@
+/**
+ * Renderer-side access to the family authenticator (main/authenticator.ts).
+ *
+ * TOTP secrets go in as otpauth:// links and never come back: the renderer lists accounts
+ * and asks main for their current codes. Verification phrase answers are checked in main
+ * against a hash. All calls reject while nobody is signed in or the session is locked.
+ *
+ * QR codes are read here (`readQrImage`); the link they hold is then added like a typed one.
+ */
+
+import jsQR from 'jsqr';
+import { invoke } from './ipc';
+import type { AuthenticatorAccount, AuthenticatorCode, FamilyPhrase } from '../shared/types';
+
+export type { AuthenticatorAccount, AuthenticatorCode, FamilyPhrase };
+
+export const listAccounts = async (): Promise<AuthenticatorAccount[]> => {
+  return invoke('authenticator:list');
+};
+
+/** The current code of every account, with when each expires. */
+export const getCodes = async (): Promise<AuthenticatorCode[]> => {
+  return invoke('authenticator:codes');
+};
+
+/** Add an account from an otpauth://totp link. Rejects for anything else. */
+export const addAccount = async (uri: string): Promise<AuthenticatorAccount> => {
+  return invoke('authenticator:add', { uri });
+};
+
+export const removeAccount = async (id: string): Promise<boolean> => {
+  const { success } = await invoke('authenticator:remove', id);
+  return success;
+};
+
+export const listPhrases = async (): Promise<FamilyPhrase[]> => {
+  return invoke('authenticator:phrases');
+};
+
+export const addPhrase = async (input: { member: string; prompt: string; answer: string }): Promise<FamilyPhrase> => {
+  return invoke('authenticator:addPhrase', input);
+};
+
+/** Whether `answer` matches the stored one (ignoring case and extra spaces). */
+export const verifyPhrase = async (id: string, answer: string): Promise<boolean> => {
+  const { match } = await invoke('authenticator:verifyPhrase', { id, answer });
+  return match;
+};
+
+export const removePhrase = async (id: string): Promise<boolean> => {
+  const { success } = await invoke('authenticator:removePhrase', id);
+  return success;
+};
+
+/** The backup file's text: accounts and phrases sealed with `passphrase` (8+ characters). */
+export const exportBackup = async (passphrase: string): Promise<string> => {
+  const { content } = await invoke('authenticator:exportBackup', { passphrase });
+  return content;
+};
+
+/** Merge a backup into this profile's authenticator; resolves with how much was new. */
+export const importBackup = async (content: string, passphrase: string): Promise<{ accounts: number; phrases: number }> => {
+  return invoke('authenticator:importBackup', { content, passphrase });
+};
+
+/** The text of the QR code in an image (e.g. a screenshot of a setup page); null if none. */
+export const readQrImage = async (file: Blob): Promise<string | null> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+    context.drawImage(bitmap, 0, 0);
+    const { data, width, height } = context.getImageData(0, 0, bitmap.width, bitmap.height);
+    return jsQR(data, width, height)?.data ?? null;
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,144 @@
+/**
+ * Renderer-side access to Giddy conversations (main/chat.ts).
+ *
+ * Conversations and messages live in the local DB; this module only lists, edits and
+ * streams them. `sendMessage` resolves as soon as main has stored the user message:
+ * - `reply` settles with the stored reply (null when stopped before any text), or
+ *   rejects with the provider error,
+ * - tokens arrive through `onToken` while the reply streams,
+ * - `stop()` ends the reply early; the text so far is kept.
+ *
+ * Replies can carry proposed app actions (`message.toolCalls`). Run confirmed ones with
+ * src/services/tools.ts and report with `respondToToolCall`, which may start a follow-up reply.
+ *
+ * Tokens can reach the renderer before `chat:send` resolves with the reply id, so events
+ * for ids nobody has claimed yet are buffered and replayed (same as src/services/jobs.ts).
+ */
+
+import { invoke, on } from './ipc';
+import type {
+  ChatEvent,
+  ChatMessageRecord,
+  ConversationRecord,
+  ConversationSearchHit,
+  ToolCallRecord,
+} from '../shared/types';
+
+export type { ChatMessageRecord, ConversationRecord, ConversationSearchHit, ToolCallRecord };
+
+/** Settles with the stored reply; `stopped` is true when it was cut short. */
+export type ReplyOutcome = { message: ChatMessageRecord | null; stopped: boolean };
+
+export interface ChatReply {
+  conversation: ConversationRecord;
+  userMessage: ChatMessageRecord;
+  replyId: string;
+  reply: Promise<ReplyOutcome>;
+  stop: () => Promise<boolean>;
+}
+
+export type ToolCallOutcome =
+  | { status: 'done'; result?: unknown }
+  | { status: 'failed'; error: string }
+  | { status: 'rejected' };
+
+type Listener = (event: ChatEvent) => void;
+
+const listeners = new Map<string, Listener>();
+const unclaimed = new Map<string, ChatEvent[]>();
+let unsubscribe: (() => void) | null = null;
+
+function ensureSubscribed() {
+  if (unsubscribe) return;
+  unsubscribe = on('chat:event', (event) => {
+    const listener = listeners.get(event.replyId);
+    if (listener) {
+      listener(event);
+      return;
+    }
+    const buffered = unclaimed.get(event.replyId) ?? [];
+    buffered.push(event);
+    unclaimed.set(event.replyId, buffered);
+  });
+}
+
+/** The signed-in profile's conversations, newest first. */
+export const listConversations = (): Promise<ConversationRecord[]> => invoke('chat:list');
+
+export const searchConversations = (query: string): Promise<ConversationSearchHit[]> =>
+  invoke('chat:search', { query });
+
+export const getConversation = (id: string) => invoke('chat:get', id);
+
+export const createConversation = (input: { title?: string } = {}): Promise<ConversationRecord> =>
+  invoke('chat:create', input);
+
+export const renameConversation = (id: string, title: string): Promise<ConversationRecord> =>
+  invoke('chat:rename', { id, title });
+
+export const deleteConversation = async (id: string): Promise<boolean> => {
+  const { success } = await invoke('chat:delete', id);
+  return success;
+};
+
+/** Stop the reply streaming in a conversation; false if none was. */
+export const stopReply = async (conversationId: string): Promise<boolean> => {
+  const { stopped } = await invoke('chat:stop', conversationId);
+  return stopped;
+};
+
+function followReply(replyId: string, onToken?: (delta: string) => void): Promise<ReplyOutcome> {
+  return new Promise<ReplyOutcome>((resolve, reject) => {
+    const handleEvent: Listener = (event) => {
+      switch (event.type) {
+        case 'token':
+          onToken?.(event.delta);
+          break;
+        case 'done':
+          listeners.delete(replyId);
+          resolve({ message: event.message, stopped: event.stopped });
+          break;
+        case 'error':
+          listeners.delete(replyId);
+          reject(new Error(event.error));
+          break;
+      }
+    };
+
+    listeners.set(replyId, handleEvent);
+    const buffered = unclaimed.get(replyId) ?? [];
+    unclaimed.delete(replyId);
+    buffered.forEach(handleEvent);
+  });
+}
+
+/**
+ * Send a message to Giddy in a stored conversation and stream the reply.
+ *
+ * IPC channels used: 'chat:send', 'chat:stop'; events: 'chat:event'
+ */
+export async function sendMessage(
+  conversationId: string,
+  message: string,
+  opts: { model?: string; onToken?: (delta: string) => void } = {}
+): Promise<ChatReply> {
+  ensureSubscribed();
+  const sent = await invoke('chat:send', { conversationId, message, model: opts.model });
+  return { ...sent, reply: followReply(sent.replyId, opts.onToken), stop: () => stopReply(conversationId) };
+}
+
+/**
+ * Record what happened to a proposed action. When that settles the reply's last pending
+ * action, Giddy follows up and `reply` streams it; otherwise `reply` is null.
+ *
+ * IPC channel used: 'chat:toolResult'; events: 'chat:event'
+ */
+export async function respondToToolCall(
+  callId: string,
+  outcome: ToolCallOutcome,
+  opts: { onToken?: (delta: string) => void } = {}
+): Promise<{ toolCall: ToolCallRecord; replyId: string | null; reply: Promise<ReplyOutcome> | null }> {
+  ensureSubscribed();
+  const { toolCall, replyId } = await invoke('chat:toolResult', { callId, ...outcome });
+  return { toolCall, replyId, reply: replyId ? followReply(replyId, opts.onToken) : null };
+}
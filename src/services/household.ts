@@ -0,0 +1,51 @@
+/**
+ * Renderer-side access to household collections (main/household.ts): grocery lists and
+ * chores several profiles share.
+ *
+ * Every call acts as the signed-in profile and only reaches collections it is a member of.
+ * Household lists are encrypted with a key of their own that every member holds.
+ */
+
+import { hasBridge, invoke, on } from './ipc';
+import type { HouseholdCollection, HouseholdEvent, HouseholdItem, HouseholdKind, IpcRequest } from '../shared/types';
+
+export type { HouseholdCollection, HouseholdItem, HouseholdKind };
+export type HouseholdItemUpdates = Omit<IpcRequest<'household:updateItem'>, 'itemId'>;
+
+export const listCollections = (): Promise<HouseholdCollection[]> => invoke('household:list');
+
+/** The signed-in profile is always added to `memberIds`. */
+export const createCollection = (input: IpcRequest<'household:create'>): Promise<HouseholdCollection> =>
+  invoke('household:create', input);
+
+/** Leaving yourself out leaves the collection; with no members left it is deleted. */
+export const setCollectionMembers = (collectionId: string, memberIds: string[]): Promise<HouseholdCollection> =>
+  invoke('household:setMembers', { collectionId, memberIds });
+
+export const deleteCollection = async (collectionId: string): Promise<boolean> => {
+  const { success } = await invoke('household:delete', collectionId);
+  return success;
+};
+
+export const getCollectionItems = (collectionId: string): Promise<HouseholdItem[]> =>
+  invoke('household:items', collectionId);
+
+export const addCollectionItem = (
+  collectionId: string,
+  text: string,
+  assigneeId: string | null = null
+): Promise<HouseholdItem> => invoke('household:addItem', { collectionId, text, assigneeId });
+
+export const updateCollectionItem = (itemId: string, updates: HouseholdItemUpdates): Promise<HouseholdItem> =>
+  invoke('household:updateItem', { itemId, ...updates });
+
+export const removeCollectionItem = async (itemId: string): Promise<boolean> => {
+  const { success } = await invoke('household:removeItem', itemId);
+  return success;
+};
+
+/** Called whenever any profile changes a collection; returns the function that stops listening. */
+export const onHouseholdChanged = (listener: (event: HouseholdEvent) => void): (() => void) => {
+  if (!hasBridge()) return () => {};
+  return on('household:changed', listener);
+};
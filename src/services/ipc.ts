@@ -0,0 +1,45 @@
+/**
+ * Renderer-side access to the typed IPC bridge exposed by main/preload.ts.
+ *
+ * Every renderer service should go through `invoke` instead of touching `window.api`
+ * directly, so channel names and payloads are checked against src/shared/types.ts.
+ */
+
+import type { IpcArgs, IpcChannel, IpcEventName, IpcEvents, IpcResponse, RendererBridge } from '../shared/types';
+
+declare global {
+  interface Window {
+    api?: RendererBridge;
+  }
+}
+
+/** True when running inside Electron with the preload bridge loaded. */
+export const hasBridge = (): boolean =>
+  typeof window !== 'undefined' && typeof window.api?.invoke === 'function';
+
+function getBridge(): RendererBridge {
+  if (!hasBridge()) {
+    throw new Error('IPC bridge not available. Ensure main/preload.ts is loaded as the window preload.');
+  }
+  return window.api as RendererBridge;
+}
+
+/**
+ * Invoke a main-process handler.
+ *
+ * @example
+ *   const tasks = await invoke('tasks:list');
+ */
+export function invoke<C extends IpcChannel>(channel: C, ...args: IpcArgs<C>): Promise<IpcResponse<C>> {
+  return getBridge().invoke(channel, ...args);
+}
+
+/**
+ * Subscribe to an event pushed by the main process. Returns the unsubscribe function.
+ *
+ * @example
+ *   const off = on('jobs:event', (event) => console.log(event));
+ */
+export function on<E extends IpcEventName>(event: E, listener: (payload: IpcEvents[E]) => void): () => void {
+  return getBridge().on(event, listener);
+}
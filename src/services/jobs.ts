@@ -0,0 +1,114 @@
+/**
+ * Renderer-side access to the background job queue (main/jobs.ts).
+ *
+ * `startJob(flow, input, { onProgress, onPartial })` queues a manifest flow and resolves
+ * with a handle as soon as main has accepted it:
+ * - `handle.result` settles with the flow output, or rejects with a FlowRunError
+ *   (kind 'cancelled' after `handle.cancel()`).
+ * - progress and streamed output arrive through the callbacks while the job runs.
+ *
+ * Events can reach the renderer before `jobs:start` resolves with the id, so events for
+ * ids nobody has claimed yet are buffered and replayed when the handle is created.
+ */
+
+import { invoke, on } from './ipc';
+import { FlowRunError, type FlowInput, type FlowName, type FlowOutput } from './ai';
+import type { JobEvent, JobPriority, JobSnapshot } from '../shared/types';
+
+export interface StartJobOptions {
+  priority?: JobPriority;
+  onProgress?: (stage: string, percent?: number) => void;
+  onPartial?: (delta: string) => void;
+  onStatus?: (status: 'queued' | 'running') => void;
+}
+
+export interface JobHandle<T> {
+  jobId: string;
+  result: Promise<T>;
+  cancel: () => Promise<boolean>;
+}
+
+type Listener = (event: JobEvent) => void;
+
+const listeners = new Map<string, Listener>();
+const unclaimed = new Map<string, JobEvent[]>();
+let unsubscribe: (() => void) | null = null;
+
+function ensureSubscribed() {
+  if (unsubscribe) return;
+  unsubscribe = on('jobs:event', (event) => {
+    const listener = listeners.get(event.jobId);
+    if (listener) {
+      listener(event);
+      return;
+    }
+    const buffered = unclaimed.get(event.jobId) ?? [];
+    buffered.push(event);
+    unclaimed.set(event.jobId, buffered);
+  });
+}
+
+/**
+ * Run a flow as a background job.
+ *
+ * IPC channels used: 'jobs:start', 'jobs:cancel'; events: 'jobs:event'
+ */
+export async function startJob<N extends FlowName>(
+  flow: N,
+  input: FlowInput<N>,
+  opts: StartJobOptions = {}
+): Promise<JobHandle<FlowOutput<N>>> {
+  ensureSubscribed();
+  const { jobId } = await invoke('jobs:start', { flow, input, priority: opts.priority });
+
+  const result = new Promise<FlowOutput<N>>((resolve, reject) => {
+    const handleEvent: Listener = (event) => {
+      switch (event.type) {
+        case 'status':
+          if (event.status === 'cancelled') {
+            listeners.delete(jobId);
+            reject(new FlowRunError({ kind: 'cancelled', message: 'Cancelled.', issues: [] }));
+          } else {
+            opts.onStatus?.(event.status);
+          }
+          break;
+        case 'progress':
+          opts.onProgress?.(event.stage, event.percent);
+          break;
+        case 'partial':
+          opts.onPartial?.(event.delta);
+          break;
+        case 'succeeded':
+          listeners.delete(jobId);
+          resolve(event.output as FlowOutput<N>);
+          break;
+        case 'failed':
+          listeners.delete(jobId);
+          reject(new FlowRunError(event.error));
+          break;
+      }
+    };
+
+    listeners.set(jobId, handleEvent);
+    const buffered = unclaimed.get(jobId) ?? [];
+    unclaimed.delete(jobId);
+    buffered.forEach(handleEvent);
+  });
+
+  return {
+    jobId,
+    result,
+    cancel: () => cancelJob(jobId),
+  };
+}
+
+/** Cancel a queued or running job; false if it had already finished. */
+export async function cancelJob(jobId: string): Promise<boolean> {
+  const { cancelled } = await invoke('jobs:cancel', jobId);
+  return cancelled;
+}
+
+/** Current and recently finished jobs, e.g. for a task-manager style view. */
+export function listJobs(): Promise<JobSnapshot[]> {
+  return invoke('jobs:list');
+}
@@ -0,0 +1,43 @@
+/**
+ * Renderer-side journal for the Mindful Moments widget: logged moods and saved reflections.
+ *
+ * Both are kept in the signed-in user's encrypted data (src/services/user-data.ts), newest
+ * last, each as one JSON list. Like that data, every call rejects while the session is
+ * locked; the widget shows the failure instead of pretending the entry was kept.
+ */
+
+import { readUserData, writeUserData } from './user-data';
+
+export const MOOD_LOG_KEY = 'mindful-moods';
+export const THOUGHT_LOG_KEY = 'mindful-thoughts';
+
+/** 1 (awful) to 5 (great). */
+export type MoodEntry = { mood: number; timestamp: string };
+export type ThoughtEntry = { text: string; prompt: string; timestamp: string };
+
+async function readLog<T>(key: string): Promise<T[]> {
+  const raw = await readUserData(key);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+async function append<T>(key: string, entry: T): Promise<T> {
+  const log = await readLog<T>(key);
+  await writeUserData(key, JSON.stringify([...log, entry]));
+  return entry;
+}
+
+export const getMoodLog = (): Promise<MoodEntry[]> => readLog(MOOD_LOG_KEY);
+
+export const logMood = (mood: number): Promise<MoodEntry> =>
+  append(MOOD_LOG_KEY, { mood, timestamp: new Date().toISOString() });
+
+export const getThoughtLog = (): Promise<ThoughtEntry[]> => readLog(THOUGHT_LOG_KEY);
+
+export const saveThought = (text: string, prompt: string): Promise<ThoughtEntry> =>
+  append(THOUGHT_LOG_KEY, { text, prompt, timestamp: new Date().toISOString() });
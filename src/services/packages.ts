@@ -0,0 +1,39 @@
+/**
+ * Renderer-side access to .gidit packages (main/packages.ts): builder pages shared as a
+ * file, with what their widgets keep only when asked for.
+ *
+ * Packages go back and forth as base64 zip bytes, the way 'files:save' and 'files:open' (with
+ * `encoding: 'base64'`) take and give them. Importing is two steps: `previewPackage` checks
+ * a package and shows what it holds without storing anything, then `importPackage` hands
+ * back its pages under new ids for the builder to add. Both steps reject for a file that is
+ * not a package this version can open.
+ *
+ * Packages need main; in the plain Vite preview every call rejects.
+ */
+
+import { invoke } from './ipc';
+import type { LayoutPage, PackageManifest, PackagePreview } from '../shared/types';
+
+export type { PackageManifest, PackagePreview };
+
+export const PACKAGE_EXTENSION = 'gidit';
+
+/** The pages as a package, base64; what their widgets keep goes in only with `includeData`. */
+export const exportPackage = async (input: {
+  name: string;
+  description?: string;
+  pages: LayoutPage[];
+  includeData?: boolean;
+}): Promise<string> => {
+  const { dataBase64 } = await invoke('packages:export', input);
+  return dataBase64;
+};
+
+export const previewPackage = async (dataBase64: string): Promise<PackagePreview> => {
+  return invoke('packages:preview', { dataBase64 });
+};
+
+/** The package's pages under new ids; with `includeData`, their widget data is stored first. */
+export const importPackage = async (dataBase64: string, includeData: boolean): Promise<LayoutPage[]> => {
+  return invoke('packages:import', { dataBase64, includeData });
+};
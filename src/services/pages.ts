@@ -0,0 +1,54 @@
+/**
+ * Renderer-side access to the builder's pages (main/pages.ts).
+ *
+ * Main keeps a row per page and widget, encrypted with the signed-in user's data key, and
+ * migrates layouts saved by older versions on load. Saving replaces the whole layout at
+ * once: the builder debounces its saves rather than calling this on every change. All calls
+ * reject while nobody is signed in or the session is locked, and for a layout saved by a
+ * newer version: never treat a rejection as "no pages".
+ *
+ * Outside Electron (plain Vite preview) the layout goes to localStorage, unmigrated.
+ */
+
+import { hasBridge, invoke } from './ipc';
+import { readUserDataMovingLegacy } from './user-data';
+import type { LayoutItem, LayoutPage, PageLayout } from '../shared/types';
+
+export type { LayoutItem, LayoutPage, PageLayout };
+
+const PREVIEW_KEY = 'app-state';
+
+/** The signed-in user's pages; an empty list before anything was saved. */
+export const loadPages = async (): Promise<PageLayout> => {
+  if (hasBridge()) {
+    // Layouts older versions left in localStorage go through the encrypted data, where main picks them up
+    if (localStorage.getItem(PREVIEW_KEY) !== null) await readUserDataMovingLegacy(PREVIEW_KEY);
+    return invoke('pages:load');
+  }
+  const saved = localStorage.getItem(PREVIEW_KEY);
+  return saved ? { schemaVersion: 0, ...JSON.parse(saved) } : { schemaVersion: 0, pages: [] };
+};
+
+export const savePages = async (pages: LayoutPage[]): Promise<void> => {
+  if (!hasBridge()) {
+    localStorage.setItem(PREVIEW_KEY, JSON.stringify({ pages }));
+    return;
+  }
+  await invoke('pages:save', { pages });
+};
+
+/** Replace the pages with an exported layout (see `exportPages`); resolves with the new pages. */
+export const importPages = async (content: string): Promise<PageLayout> => {
+  if (!hasBridge()) {
+    const layout = JSON.parse(content);
+    if (!Array.isArray(layout?.pages)) throw new Error('This is not a saved layout.');
+    localStorage.setItem(PREVIEW_KEY, JSON.stringify({ pages: layout.pages }));
+    return { schemaVersion: 0, pages: layout.pages };
+  }
+  return invoke('pages:import', { content });
+};
+
+/** The pages as a layout file's text, with the schema version needed to import them later. */
+export const exportPages = async (): Promise<string> => {
+  return JSON.stringify(await loadPages(), null, 2);
+};
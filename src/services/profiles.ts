@@ -0,0 +1,22 @@
+/**
+ * Renderer-side access to local profiles (main/profiles.ts).
+ *
+ * Each account on this computer is a profile with its own pages, settings, tasks and
+ * conversations. `listProfiles` works before sign-in, for the switcher; switching profile
+ * is signing in as another one (src/services/auth.ts), which needs its password.
+ */
+
+import { invoke } from './ipc';
+import type { IpcRequest, ProfileSummary } from '../shared/types';
+
+export type { ProfileSummary };
+export type ProfileUpdates = IpcRequest<'profiles:update'>;
+
+export const listProfiles = async (): Promise<ProfileSummary[]> => {
+  return invoke('profiles:list');
+};
+
+/** Change the signed-in profile's name, avatar or colour. */
+export const updateProfile = async (updates: ProfileUpdates): Promise<ProfileSummary> => {
+  return invoke('profiles:update', updates);
+};
@@ -0,0 +1,38 @@
+/**
+ * Renderer-side keyword search over the signed-in profile's indexed items (main/search.ts),
+ * used by AppSearch.
+ *
+ * Items get into the index through `useSemanticIndex` (src/hooks/use-semantic-index.ts).
+ * The query understands type:, tag: and due: filters; see main/search.ts for the syntax.
+ */
+
+import { invoke } from './ipc';
+import {
+  SEARCH_MATCH_END,
+  SEARCH_MATCH_START,
+  type SearchGroup,
+  type SearchResponse,
+  type SearchResult,
+} from '../shared/types';
+
+export type { SearchGroup, SearchResponse, SearchResult };
+
+export const searchEverything = (
+  query: string,
+  opts: { perGroup?: number } = {}
+): Promise<SearchResponse> => invoke('search:query', { query, ...opts });
+
+/** Split a marked title or snippet into plain and matched parts, in order. */
+export function splitMatches(marked: string): Array<{ text: string; match: boolean }> {
+  const parts: Array<{ text: string; match: boolean }> = [];
+  for (const [i, piece] of marked.split(SEARCH_MATCH_START).entries()) {
+    const [matched, rest] = i === 0 ? [null, piece] : piece.split(SEARCH_MATCH_END, 2);
+    if (matched) parts.push({ text: matched, match: true });
+    if (rest) parts.push({ text: rest, match: false });
+  }
+  return parts;
+}
+
+/** The text without match marks. */
+export const stripMatches = (marked: string): string =>
+  marked.split(SEARCH_MATCH_START).join('').split(SEARCH_MATCH_END).join('');
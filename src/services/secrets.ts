@@ -0,0 +1,30 @@
+/**
+ * Renderer-side access to the API-key vault (main/secrets.ts).
+ *
+ * Keys go in and never come back: the renderer only learns whether one is set and a short
+ * hint of its last characters. Provider calls read them in main. All calls reject while
+ * nobody is signed in or the session is locked.
+ */
+
+import { invoke } from './ipc';
+import type { ApiKeyProvider, ApiKeyStatus, ApiKeyTestResult } from '../shared/types';
+
+export { API_KEY_PROVIDERS } from '../shared/types';
+export type { ApiKeyProvider, ApiKeyStatus, ApiKeyTestResult };
+
+export const getApiKeyStatus = async (): Promise<ApiKeyStatus[]> => {
+  return invoke('secrets:status');
+};
+
+export const setApiKey = async (provider: ApiKeyProvider, apiKey: string): Promise<ApiKeyStatus> => {
+  return invoke('secrets:setApiKey', { provider, apiKey });
+};
+
+export const clearApiKey = async (provider: ApiKeyProvider): Promise<ApiKeyStatus> => {
+  return invoke('secrets:clearApiKey', provider);
+};
+
+/** Send a minimal request to the provider with the stored key. */
+export const testApiKey = async (provider: ApiKeyProvider): Promise<ApiKeyTestResult> => {
+  return invoke('secrets:testApiKey', provider);
+};
@@ -0,0 +1,79 @@
+/**
+ * Renderer-side access to the semantic index of saved items (main/semantic-index.ts).
+ *
+ * Widgets normally keep their items indexed with `useSemanticIndex`
+ * (src/hooks/use-semantic-index.ts) instead of calling these directly. The same items
+ * feed the keyword search (src/services/search.ts).
+ * Embedding happens in the background in main; `getIndexStatus().pending` tells how many
+ * items are not searchable yet. Items belong to the signed-in profile; main keeps each
+ * profile's apart, so the same widget in two profiles never mixes them.
+ */
+
+import { invoke } from './ipc';
+import type { IndexSource, IndexStatus, IpcRequest, SemanticHit, WidgetLocation } from '../shared/types';
+
+export type { IndexSource, IndexStatus, SemanticHit, WidgetLocation };
+export type IndexItemInput = IpcRequest<'index:upsert'>[number];
+export type IndexSyncInput = IpcRequest<'index:sync'>;
+
+/** Largest list one 'index:upsert' / 'index:remove' call accepts. */
+const MAX_PER_CALL = 500;
+
+function batches<T>(list: T[]): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < list.length; i += MAX_PER_CALL) out.push(list.slice(i, i + MAX_PER_CALL));
+  return out;
+}
+
+/** Store or update items; returns how many changed. */
+export const indexItems = async (items: IndexItemInput[]): Promise<number> => {
+  let accepted = 0;
+  for (const batch of batches(items)) accepted += (await invoke('index:upsert', batch)).accepted;
+  return accepted;
+};
+
+export const removeIndexedItems = async (refs: Array<{ source: IndexSource; id: string }>): Promise<number> => {
+  let removed = 0;
+  for (const batch of batches(refs)) removed += (await invoke('index:remove', batch)).removed;
+  return removed;
+};
+
+/**
+ * Replace everything one widget (`scope`, usually its builder item id) holds of a source.
+ * Returns how many items changed and how many were dropped.
+ */
+export const syncIndexedItems = (input: IndexSyncInput): Promise<{ accepted: number; removed: number }> =>
+  invoke('index:sync', input);
+
+/** Forget the items of widgets that were removed from the builder. */
+export const forgetIndexedScopes = async (scopes: string[]): Promise<number> => {
+  let removed = 0;
+  for (const batch of batches(scopes)) removed += (await invoke('index:removeScopes', batch)).removed;
+  return removed;
+};
+
+/** Saved items closest in meaning to `query`, best first. */
+export const searchSavedItems = (
+  query: string,
+  opts: { limit?: number; sources?: IndexSource[] } = {}
+): Promise<SemanticHit[]> => invoke('index:query', { query, ...opts });
+
+export const getIndexStatus = (): Promise<IndexStatus> => invoke('index:status');
+
+/** Re-embed everything from scratch; resolves when done. */
+export const rebuildIndex = (): Promise<IndexStatus> => invoke('index:rebuild');
+
+/** Flatten extracted fields into "label: value" lines, which embed better than raw JSON. */
+export function fieldsToText(value: unknown, prefix = ''): string {
+  if (value === null || value === undefined || value === '') return '';
+  if (Array.isArray(value)) {
+    return value.map((v) => fieldsToText(v, prefix)).filter(Boolean).join('\n');
+  }
+  if (typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>)
+      .map(([key, v]) => fieldsToText(v, prefix ? `${prefix} ${key}` : key))
+      .filter(Boolean)
+      .join('\n');
+  }
+  return prefix ? `${prefix}: ${String(value)}` : String(value);
+}
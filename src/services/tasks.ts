@@ -1,71 +1,178 @@
 /**
- * Renderer-side task service (replaces Firestore client).
+ * Renderer-side access to the signed-in profile's tasks (main/tasks.ts): one store that
+ * every task widget shows, each through the fields it cares about. Widgets go through
+ * `useTasks` (src/hooks/use-tasks.ts) rather than calling this directly.
  *
- * NOTE:
- * - All DB/storage operations are handled in the Electron main process.
- * - The main process should expose IPC handlers for the channels used below:
- *    - 'tasks:getForUser'  -> (userId: string) => Task[]
- *    - 'tasks:add'         -> (task: Omit<Task,'id'|'createdAt'>) => Task
- *    - 'tasks:update'      -> (payload: { taskId: string; updates: Partial<Task> }) => Task
- *    - 'tasks:delete'      -> (taskId: string) => { success: boolean }
+ * - `watchTasks` follows the whole list. It is loaded once, then kept in step with
+ *   'tasks:changed', so a change shows in every widget wherever it was made. It starts
+ *   over when another profile signs in.
+ * - `updateTask` shows the change at once and takes it back if main refuses it.
  *
- * - The preload script should expose an invoke-style API on window.electronAPI:
- *    contextBridge.exposeInMainWorld('electronAPI', { invoke: (channel, ...args) => ipcRenderer.invoke(channel, ...args) })
- *
- * This file intentionally avoids any cloud SDKs (Firebase, etc.) and delegates to local IPC.
+ * Outside Electron (plain Vite preview) tasks are kept in localStorage.
  */
 
-/* eslint-disable @typescript-eslint/no-explicit-any */
+import { v4 as uuidv4 } from 'uuid';
+import { hasBridge, invoke, on } from './ipc';
+import { ipcRequestSchemas } from '../shared/types';
+import type { IpcRequest, TaskPriority, TaskQuadrant, TaskRecord, TaskStatus } from '../shared/types';
+
+export type Task = TaskRecord;
+export type { TaskPriority, TaskQuadrant, TaskStatus };
+/** Everything but the title may be left out. */
+export type NewTask = IpcRequest<'tasks:add'>;
+export type TaskUpdates = IpcRequest<'tasks:update'>['updates'];
+
+type Listener = (tasks: Task[]) => void;
+
+const listeners = new Set<Listener>();
+let current: Task[] | null = null;
+let loading: Promise<void> | null = null;
+/** Bumped on sign-in and sign-out so a list loaded for the previous profile is dropped. */
+let generation = 0;
+let unsubscribe: (() => void) | null = null;
 
-export interface Task {
-  id?: string;
-  userId: string;
-  content: string;
-  componentId: string;
-  displayData: Record<string, any>;
-  // createdAt is serialized by the main process (ISO string or epoch ms)
-  createdAt: string | number;
+function publish(tasks: Task[]) {
+  current = tasks;
+  listeners.forEach((listener) => listener(tasks));
 }
 
-/* Minimal typing for the exposed preload API. The real preload should provide this shape. */
-declare global {
-  interface Window {
-    electronAPI?: {
-      invoke: (channel: string, ...args: any[]) => Promise<any>;
-    };
-  }
+function put(task: Task) {
+  if (!current) return;
+  const exists = current.some((t) => t.id === task.id);
+  publish(exists ? current.map((t) => (t.id === task.id ? task : t)) : [...current, task]);
 }
 
-function ensureIpc(): NonNullable<Window['electronAPI']> {
-  if (!window.electronAPI || typeof window.electronAPI.invoke !== 'function') {
-    throw new Error(
-      'IPC API not available. Ensure preload exposes window.electronAPI.invoke and the main process registers handlers.'
-    );
-  }
-  return window.electronAPI;
+function drop(taskId: string) {
+  if (current) publish(current.filter((t) => t.id !== taskId));
+}
+
+function load(): Promise<void> {
+  const loadedFor = generation;
+  loading ??= (hasBridge() ? invoke('tasks:list') : Promise.resolve(preview.read())).then(
+    (tasks) => {
+      if (loadedFor === generation) publish(tasks);
+    },
+    (err) => {
+      loading = null;
+      throw err;
+    }
+  );
+  return loading;
 }
 
-export const getTasksForUser = async (userId: string): Promise<Task[]> => {
-  const ipc = ensureIpc();
-  const result = await ipc.invoke('tasks:getForUser', userId);
-  // Expect an array of tasks; main process should serialize Date -> ISO/string
-  return Array.isArray(result) ? (result as Task[]) : [];
+function ensureSubscribed() {
+  if (unsubscribe || !hasBridge()) return;
+  const offChanged = on('tasks:changed', ({ taskId, task }) => {
+    if (task) put(task);
+    else drop(taskId);
+  });
+  const offAuth = on('auth:event', (event) => {
+    if (event.type === 'screen-locked' || event.type === 'screen-unlocked') return;
+    generation += 1;
+    current = null;
+    loading = null;
+    if (!event.user) publish([]);
+    else if (listeners.size > 0) load().catch((err) => console.error('Failed to load tasks', err));
+  });
+  unsubscribe = () => {
+    offChanged();
+    offAuth();
+  };
+}
+
+/**
+ * Follow the signed-in profile's tasks, oldest first: `listener` gets the list as soon as
+ * it is known and again after every change. Returns the function that stops listening.
+ */
+export function watchTasks(listener: Listener, onError?: (err: unknown) => void): () => void {
+  ensureSubscribed();
+  listeners.add(listener);
+  if (current) listener(current);
+  else load().catch((err) => onError?.(err));
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export const addTask = async (task: NewTask): Promise<Task> => {
+  const added = hasBridge() ? await invoke('tasks:add', task) : preview.add(task);
+  put(added);
+  return added;
 };
 
-export const addTask = async (task: Omit<Task, 'id' | 'createdAt'>): Promise<Task> => {
-  const ipc = ensureIpc();
-  const added = await ipc.invoke('tasks:add', task);
-  return added as Task;
+/** Fields left undefined keep their value. */
+export const updateTask = async (taskId: string, changes: TaskUpdates): Promise<Task> => {
+  const updates = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)) as TaskUpdates;
+  const before = current?.find((t) => t.id === taskId);
+  if (before) put({ ...before, ...updates } as Task);
+  try {
+    const updated = hasBridge() ? await invoke('tasks:update', { taskId, updates }) : preview.update(taskId, updates);
+    put(updated);
+    return updated;
+  } catch (err) {
+    if (before) put(before);
+    throw err;
+  }
 };
 
-export const updateTask = async (taskId: string, updates: Partial<Task>): Promise<Task> => {
-  const ipc = ensureIpc();
-  const updated = await ipc.invoke('tasks:update', { taskId, updates });
-  return updated as Task;
+/** The task's steps stay, as tasks of their own. */
+export const deleteTask = async (taskId: string): Promise<boolean> => {
+  if (!hasBridge()) return preview.delete(taskId);
+  const { success } = await invoke('tasks:delete', taskId);
+  if (success) drop(taskId);
+  return success;
 };
 
-export const deleteTask = async (taskId: string): Promise<{ success: boolean }> => {
-  const ipc = ensureIpc();
-  const res = await ipc.invoke('tasks:delete', taskId);
-  return res as { success: boolean };
+/* -----------------------
+   Vite preview (no main process)
+   ----------------------- */
+
+const PREVIEW_KEY = 'tasks';
+
+const preview = {
+  read(): Task[] {
+    const saved = localStorage.getItem(PREVIEW_KEY);
+    return saved ? (JSON.parse(saved) as Task[]) : [];
+  },
+
+  write(tasks: Task[]) {
+    localStorage.setItem(PREVIEW_KEY, JSON.stringify(tasks));
+    publish(tasks);
+  },
+
+  add(task: NewTask): Task {
+    const now = new Date().toISOString();
+    const fields = ipcRequestSchemas['tasks:add'].parse(task);
+    const added: Task = {
+      ...fields,
+      id: uuidv4(),
+      userId: 'preview',
+      createdAt: now,
+      updatedAt: now,
+      completedAt: fields.status === 'done' ? now : null,
+    };
+    preview.write([...preview.read(), added]);
+    return added;
+  },
+
+  update(taskId: string, updates: TaskUpdates): Task {
+    const tasks = preview.read();
+    const existing = tasks.find((t) => t.id === taskId);
+    if (!existing) throw new Error('This task no longer exists.');
+    const now = new Date().toISOString();
+    const next: Task = { ...existing, ...ipcRequestSchemas['tasks:update'].shape.updates.parse(updates), updatedAt: now };
+    if (next.status !== 'done') next.completedAt = null;
+    else if (existing.status !== 'done') next.completedAt = now;
+    preview.write(tasks.map((t) => (t.id === taskId ? next : t)));
+    return next;
+  },
+
+  delete(taskId: string): boolean {
+    const tasks = preview.read();
+    if (!tasks.some((t) => t.id === taskId)) return false;
+    preview.write(
+      tasks.filter((t) => t.id !== taskId).map((t) => (t.parentId === taskId ? { ...t, parentId: null } : t))
+    );
+    return true;
+  },
 };
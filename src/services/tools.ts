@@ -0,0 +1,74 @@
+/**
+ * Renderer-side execution of Giddy's app actions (src/ai/tools/manifest.ts).
+ *
+ * The data the tools touch (to-do items, reminders, notes, documents, builder pages) lives
+ * in widget state, so widgets register executors while they are mounted, usually through
+ * `useToolExecutor` (src/hooks/use-tool-executor.ts):
+ * - 'action' tools run on the most recently registered executor,
+ * - 'query' tools run on every registered executor and their array results are merged
+ *   (e.g. notes from both the Note Display and the Sticky Note Board).
+ *
+ * `runToolCall` is called only after the user confirms the card; it re-validates the
+ * arguments and returns the outcome to report with respondToToolCall (src/services/chat.ts).
+ */
+
+import { isToolName, toolManifest, type ToolArgs, type ToolName } from '../ai/tools/manifest';
+import type { ToolCallOutcome } from './chat';
+import type { ToolCallRecord } from '../shared/types';
+
+export type ToolExecutor<N extends ToolName> = (args: ToolArgs<N>) => unknown | Promise<unknown>;
+
+// Stored untyped: runToolCall only calls them with arguments checked against the tool's own schema.
+type RegisteredExecutor = (args: unknown) => unknown | Promise<unknown>;
+
+const executors = new Map<ToolName, RegisteredExecutor[]>();
+
+/** Register an executor for a tool; returns the function that removes it again. */
+export function registerToolExecutor<N extends ToolName>(name: N, executor: ToolExecutor<N>): () => void {
+  const registered: RegisteredExecutor = (args) => executor(args as ToolArgs<N>);
+  executors.set(name, [...(executors.get(name) ?? []), registered]);
+  return () => {
+    executors.set(name, (executors.get(name) ?? []).filter((e) => e !== registered));
+  };
+}
+
+/** Whether an open widget can run the tool right now. */
+export const canRunTool = (name: string): boolean => isToolName(name) && (executors.get(name)?.length ?? 0) > 0;
+
+/** Run a confirmed tool call. Never throws; failures come back as `{ status: 'failed' }`. */
+export async function runToolCall(call: Pick<ToolCallRecord, 'name' | 'args'>): Promise<ToolCallOutcome> {
+  if (!isToolName(call.name)) {
+    return { status: 'failed', error: `Unknown action "${call.name}".` };
+  }
+  const def = toolManifest[call.name];
+  const registered = executors.get(call.name) ?? [];
+  if (registered.length === 0) {
+    return { status: 'failed', error: `Open the ${def.handledBy} widget first, then try again.` };
+  }
+
+  const parsed = def.parameters.safeParse(call.args);
+  if (!parsed.success) {
+    return { status: 'failed', error: parsed.error.issues.map((i) => i.message).join('; ') };
+  }
+
+  try {
+    if (def.kind === 'query') {
+      const results = await Promise.all(registered.map((executor) => executor(parsed.data)));
+      return { status: 'done', result: results.flatMap((r) => (Array.isArray(r) ? r : r == null ? [] : [r])) };
+    }
+    const result = await registered[registered.length - 1](parsed.data);
+    return { status: 'done', result: result ?? null };
+  } catch (err) {
+    return { status: 'failed', error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/** Case-insensitive: true when every word of `query` appears somewhere in `texts`. */
+export function matchesQuery(query: string, ...texts: Array<string | null | undefined>): boolean {
+  const haystack = texts.filter(Boolean).join('\n').toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((word) => haystack.includes(word));
+}
@@ -0,0 +1,40 @@
+/**
+ * Renderer-side access to the signed-in user's encrypted data (main/user-data.ts).
+ *
+ * Values are strings (serialise objects with JSON.stringify) encrypted in main with the
+ * user's data key. Both calls reject while nobody is signed in or the session is locked,
+ * and when a value does not decrypt: never treat a rejection as "nothing saved".
+ *
+ * Outside Electron (plain Vite preview) there is no encryption; values go to localStorage.
+ */
+
+import { hasBridge, invoke } from './ipc';
+
+export const readUserData = async (key: string): Promise<string | null> => {
+  if (!hasBridge()) return localStorage.getItem(key);
+  return invoke('userData:get', key);
+};
+
+/** Store `value` for `key`; null deletes it. */
+export const writeUserData = async (key: string, value: string | null): Promise<void> => {
+  if (!hasBridge()) {
+    if (value === null) localStorage.removeItem(key);
+    else localStorage.setItem(key, value);
+    return;
+  }
+  await invoke('userData:set', { key, value });
+};
+
+/**
+ * Read `key`, moving a plain copy left in localStorage by older versions into the encrypted
+ * data first. The plain copy is removed once it is stored.
+ */
+export const readUserDataMovingLegacy = async (key: string): Promise<string | null> => {
+  if (!hasBridge()) return localStorage.getItem(key);
+  const stored = await invoke('userData:get', key);
+  const legacy = localStorage.getItem(key);
+  if (legacy === null) return stored;
+  if (stored === null) await invoke('userData:set', { key, value: legacy });
+  localStorage.removeItem(key);
+  return stored ?? legacy;
+};
@@ -0,0 +1,62 @@
+/**
+ * Renderer-side access to what widgets keep (main/widget-state.ts), per builder item and key.
+ * Widgets go through `useWidgetState` (src/hooks/use-widget-state.ts) rather than calling
+ * this directly.
+ *
+ * Values are sent as JSON; Dates come back as Dates. Both calls reject while nobody is signed
+ * in or the session is locked, and when a value does not decrypt: never treat a rejection as
+ * "nothing saved".
+ *
+ * Outside Electron (plain Vite preview) values go to localStorage.
+ */
+
+import { hasBridge, invoke } from './ipc';
+import type { WidgetStateValue } from '../shared/types';
+
+export type WidgetState = {
+  /** The widget's schema version when it saved the value. */
+  version: number;
+  value: unknown;
+};
+
+const previewKey = (itemId: string, key: string) => `widget-state:${itemId}:${key}`;
+
+const isDateMarker = (value: unknown): value is { $date: string } =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as { $date?: unknown }).$date === 'string' &&
+  Object.keys(value).length === 1;
+
+/** JSON in which a Date is `{ "$date": iso }` (null when invalid), so it can be revived. */
+function encode(value: unknown): string {
+  return JSON.stringify(value, function (this: Record<string, unknown>, key, json) {
+    const raw = this[key];
+    if (!(raw instanceof Date)) return json;
+    return Number.isNaN(raw.getTime()) ? null : { $date: raw.toISOString() };
+  });
+}
+
+function decode(text: string): unknown {
+  return JSON.parse(text, (_key, value) => (isDateMarker(value) ? new Date(value.$date) : value));
+}
+
+/** What the item keeps under `key`; null when it never kept anything there. */
+export const readWidgetState = async (itemId: string, key: string): Promise<WidgetState | null> => {
+  let stored: WidgetStateValue | null;
+  if (hasBridge()) {
+    stored = await invoke('widgetState:get', { itemId, key });
+  } else {
+    const saved = localStorage.getItem(previewKey(itemId, key));
+    stored = saved === null ? null : (JSON.parse(saved) as WidgetStateValue);
+  }
+  return stored && { version: stored.version, value: decode(stored.value) };
+};
+
+export const writeWidgetState = async (itemId: string, key: string, version: number, value: unknown): Promise<void> => {
+  const stored: WidgetStateValue = { version, value: encode(value) };
+  if (!hasBridge()) {
+    localStorage.setItem(previewKey(itemId, key), JSON.stringify(stored));
+    return;
+  }
+  await invoke('widgetState:set', { itemId, key, ...stored });
+};
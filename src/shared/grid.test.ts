@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { compact, findFreeSpot, fitToColumns, flowPositions, overlaps, resolveCollisions, type GridRect } from "./grid";
+
+const rect = (id: string, x: number, y: number, width = 1, height = 1) => ({ id, x, y, width, height });
+const noneOverlap = (items: GridRect[]) =>
+  items.every((a, i) => items.every((b, j) => i === j || !overlaps(a, b)));
+
+describe("fitToColumns", () => {
+  it("moves and shrinks a rect as little as needed", () => {
+    expect(fitToColumns(rect("a", 3, 0, 2, 1), 4)).toEqual(rect("a", 2, 0, 2, 1));
+    expect(fitToColumns(rect("a", 1, 2, 6, 12), 4)).toEqual(rect("a", 0, 2, 4, 8));
+    expect(fitToColumns(rect("a", -1.6, Number.NaN, 0, 1.4), 4)).toEqual(rect("a", 0, 0, 1, 1));
+  });
+});
+
+describe("findFreeSpot", () => {
+  it("takes the first free cell in reading order that fits", () => {
+    const items = [rect("a", 0, 0, 2, 1), rect("b", 3, 0, 1, 2)];
+    expect(findFreeSpot(items, { width: 1, height: 1 }, 4)).toEqual({ x: 2, y: 0 });
+    expect(findFreeSpot(items, { width: 2, height: 1 }, 4)).toEqual({ x: 0, y: 1 });
+    expect(findFreeSpot(items, { width: 4, height: 1 }, 4)).toEqual({ x: 0, y: 2 });
+  });
+
+  it("fits widgets wider than the page", () => {
+    expect(findFreeSpot([rect("a", 0, 0)], { width: 6, height: 1 }, 2)).toEqual({ x: 0, y: 1 });
+  });
+});
+
+describe("flowPositions", () => {
+  it("places widgets one after another, wrapping and leaving gaps behind", () => {
+    const placed = flowPositions(
+      [
+        { id: "a", width: 2, height: 2 },
+        { id: "b", width: 1, height: 1 },
+        { id: "c", width: 2, height: 1 },
+        { id: "d", width: 1, height: 1 },
+      ],
+      4
+    );
+    expect(placed.map(({ id, x, y }) => ({ id, x, y }))).toEqual([
+      { id: "a", x: 0, y: 0 },
+      { id: "b", x: 2, y: 0 },
+      { id: "c", x: 2, y: 1 },
+      { id: "d", x: 0, y: 2 },
+    ]);
+    expect(noneOverlap(placed)).toBe(true);
+  });
+});
+
+describe("resolveCollisions", () => {
+  it("keeps the moved widget in place and pushes what it covers down", () => {
+    const items = [rect("a", 0, 0, 2, 1), rect("b", 0, 1, 2, 1), rect("moved", 0, 0, 2, 2)];
+    const resolved = resolveCollisions(items, 4, "moved");
+    expect(resolved.map((item) => item.id)).toEqual(["a", "b", "moved"]);
+    expect(resolved).toEqual([rect("a", 0, 2, 2, 1), rect("b", 0, 3, 2, 1), rect("moved", 0, 0, 2, 2)]);
+  });
+
+  it("pushes past several widgets at once and keeps the others in order", () => {
+    const items = [rect("a", 0, 0, 1, 3), rect("b", 1, 0, 1, 1), rect("c", 0, 0, 2, 1)];
+    const resolved = resolveCollisions(items, 4);
+    expect(resolved).toEqual([rect("a", 0, 0, 1, 3), rect("b", 1, 0, 1, 1), rect("c", 0, 3, 2, 1)]);
+  });
+
+  it("fits widgets to fewer columns without overlaps", () => {
+    const items = [rect("a", 0, 0, 2, 1), rect("b", 2, 0, 2, 1), rect("c", 3, 1, 1, 1)];
+    const resolved = resolveCollisions(items, 2);
+    expect(resolved.every((item) => item.x + item.width <= 2)).toBe(true);
+    expect(noneOverlap(resolved)).toBe(true);
+  });
+});
+
+describe("compact", () => {
+  it("moves every widget up as far as it goes", () => {
+    const items = [rect("a", 0, 2, 2, 1), rect("b", 1, 4, 2, 1), rect("c", 3, 5)];
+    expect(compact(items)).toEqual([rect("a", 0, 0, 2, 1), rect("b", 1, 1, 2, 1), rect("c", 3, 0)]);
+  });
+
+  it("leaves a packed page as it is", () => {
+    const items = [rect("a", 0, 0, 2, 2), rect("b", 0, 2), rect("c", 2, 0)];
+    const compacted = compact(items);
+    compacted.forEach((item, i) => expect(item).toBe(items[i]));
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Placement on a builder page's grid, shared by the builder and the layout migrations in
+ * main/pages.ts.
+ *
+ * A page has `columns` columns and as many 120px rows as its widgets need. Each widget takes
+ * the cells from (`x`, `y`), zero-based, to `width` columns across and `height` rows down.
+ * Widgets never overlap: whatever a change would cover is pushed down below it.
+ */
+
+export const DEFAULT_COLUMNS = 4;
+export const MIN_COLUMNS = 1;
+export const MAX_COLUMNS = 12;
+/** Rows one widget may span. */
+export const MAX_HEIGHT = 8;
+
+export interface GridRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const clampColumns = (columns: number) =>
+  Math.max(MIN_COLUMNS, Math.min(MAX_COLUMNS, Math.round(columns) || DEFAULT_COLUMNS));
+
+export const overlaps = (a: GridRect, b: GridRect) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+/** The rect moved and shrunk as little as needed to lie within `columns` columns. */
+export function fitToColumns<T extends GridRect>(rect: T, columns: number): T {
+  const width = Math.max(1, Math.min(columns, Math.round(rect.width) || 1));
+  const height = Math.max(1, Math.min(MAX_HEIGHT, Math.round(rect.height) || 1));
+  const x = Math.max(0, Math.min(columns - width, Math.round(rect.x) || 0));
+  const y = Math.max(0, Math.round(rect.y) || 0);
+  return { ...rect, x, y, width, height };
+}
+
+/** The first free cell, in reading order, where a widget of this size fits. */
+export function findFreeSpot(items: GridRect[], size: { width: number; height: number }, columns: number) {
+  const { width, height } = fitToColumns({ x: 0, y: 0, ...size }, columns);
+  for (let y = 0; ; y++) {
+    for (let x = 0; x + width <= columns; x++) {
+      if (!items.some((item) => overlaps(item, { x, y, width, height }))) return { x, y };
+    }
+  }
+}
+
+/**
+ * Positions for widgets that only had an order, where the old flowing grid showed them: each
+ * goes in the first place that fits after the one before it, leaving any gap behind.
+ */
+export function flowPositions<T extends { width: number; height: number }>(
+  items: T[],
+  columns: number
+): (T & GridRect)[] {
+  const placed: (T & GridRect)[] = [];
+  let cursor = { x: 0, y: 0 };
+  for (const item of items) {
+    const { width, height } = fitToColumns({ x: 0, y: 0, ...item }, columns);
+    let { x, y } = cursor;
+    while (x + width > columns || placed.some((other) => overlaps(other, { x, y, width, height }))) {
+      x += 1;
+      if (x + width > columns) {
+        x = 0;
+        y += 1;
+      }
+    }
+    placed.push({ ...item, x, y, width, height });
+    cursor = { x: x + width, y };
+  }
+  return placed;
+}
+
+/**
+ * Fit every widget to the grid and push overlapping ones down until none overlap. The widget
+ * `fixedId` (the one just moved or resized) keeps its place; the others keep their order,
+ * top to bottom.
+ */
+export function resolveCollisions<T extends GridRect & { id: string }>(items: T[], columns: number, fixedId?: string): T[] {
+  const fitted = items.map((item) => fitToColumns(item, columns));
+  const fixed = fitted.find((item) => item.id === fixedId);
+  const placed: T[] = fixed ? [fixed] : [];
+  const others = fitted.filter((item) => item !== fixed).sort((a, b) => a.y - b.y || a.x - b.x);
+  for (const item of others) {
+    let y = item.y;
+    for (;;) {
+      const blocking = placed.filter((other) => overlaps(other, { ...item, y }));
+      if (blocking.length === 0) break;
+      y = Math.max(...blocking.map((other) => other.y + other.height));
+    }
+    placed.push(y === item.y ? item : { ...item, y });
+  }
+  const byId = new Map(placed.map((item) => [item.id, item]));
+  return fitted.map((item) => byId.get(item.id)!);
+}
+
+/** Move every widget up as far as it goes, closing the gaps above it. */
+export function compact<T extends GridRect & { id: string }>(items: T[]): T[] {
+  const placed: T[] = [];
+  for (const item of [...items].sort((a, b) => a.y - b.y || a.x - b.x)) {
+    let y = item.y;
+    while (y > 0 && !placed.some((other) => overlaps(other, { ...item, y: y - 1 }))) y -= 1;
+    placed.push(y === item.y ? item : { ...item, y });
+  }
+  const byId = new Map(placed.map((item) => [item.id, item]));
+  return items.map((item) => byId.get(item.id)!);
+}
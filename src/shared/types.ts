@@ -0,0 +1,984 @@
+/**
+ * Shared IPC contract between the Electron main process, the preload bridge and
+ * renderer services.
+ *
+ * - `ipcRequestSchemas` holds a zod schema for the payload of every invoke channel.
+ *   Main validates incoming payloads against it (see main/ipc.ts).
+ * - `IpcResponses` declares what each channel resolves with.
+ * - Renderer code calls `invoke(channel, payload)` from src/services/ipc.ts, so an unknown
+ *   channel name or a wrong payload shape is a compile error.
+ *
+ * - `IpcEvents` declares events main pushes to a window (`emit()` in main/ipc.ts,
+ *   `on()` in src/services/ipc.ts).
+ *
+ * To add a channel: add its request schema and its response type here, then register
+ * the handler in main with `handle(ipcMain, channel, fn)`.
+ */
+
+import { z } from 'zod';
+import { MAX_COLUMNS, MAX_HEIGHT, MIN_COLUMNS } from './grid';
+
+/* -----------------------
+   Domain records
+   ----------------------- */
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  email?: string | null;
+}
+
+/** A local profile as shown in the profile switcher, before or after sign-in. */
+export interface ProfileSummary {
+  id: string;
+  username: string;
+  displayName: string;
+  /** An emoji or one or two letters. */
+  avatar: string;
+  /** Avatar background as a CSS hex colour. */
+  color: string;
+}
+
+/** Where a task is in its life. The Scrum board starts with one column per status. */
+export const TASK_STATUSES = ['backlog', 'todo', 'in-progress', 'done'] as const;
+export type TaskStatus = (typeof TASK_STATUSES)[number];
+
+export const TASK_PRIORITIES = ['low', 'medium', 'high'] as const;
+export type TaskPriority = (typeof TASK_PRIORITIES)[number];
+
+/**
+ * The Eisenhower matrix: do (urgent and important), schedule (important), delegate (urgent),
+ * eliminate (neither).
+ */
+export const TASK_QUADRANTS = ['do', 'schedule', 'delegate', 'eliminate'] as const;
+export type TaskQuadrant = (typeof TASK_QUADRANTS)[number];
+
+/**
+ * One of the signed-in profile's tasks (main/tasks.ts). Every task widget shows the same
+ * tasks, each through the fields it cares about.
+ */
+export interface TaskRecord {
+  id: string;
+  userId: string;
+  title: string;
+  notes: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  /** Local date, YYYY-MM-DD. */
+  dueDate: string | null;
+  /** The slot the task is planned for: a local date (YYYY-MM-DD), optionally at a time (HH:mm). */
+  scheduledDate: string | null;
+  scheduledTime: string | null;
+  quadrant: TaskQuadrant | null;
+  /** The Scrum board column it was put in; boards without it use a column for its status. */
+  column: string | null;
+  tags: string[];
+  /** Expected effort in minutes. */
+  estimate: number | null;
+  /** The task this one is a step of. */
+  parentId: string | null;
+  project: string | null;
+  /** ISO timestamps set by the main process; `completedAt` while the status is 'done'. */
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+/** What a task's creator and editors set; main keeps the ids and timestamps. */
+export type TaskFields = Omit<TaskRecord, 'id' | 'userId' | 'createdAt' | 'updatedAt' | 'completedAt'>;
+
+/** AI backends selectable in Settings → AI. */
+export type AIProvider = 'gemini' | 'groq' | 'openai' | 'anthropic' | 'deepseek' | 'ollama';
+
+/** Used until the user picks a provider; local Ollama needs no API key. */
+export const DEFAULT_AI_PROVIDER: AIProvider = 'ollama';
+
+/** Providers that need an API key; Ollama is reached through its host setting instead. */
+export const API_KEY_PROVIDERS = ['gemini', 'groq', 'openai', 'anthropic', 'deepseek'] as const;
+export type ApiKeyProvider = (typeof API_KEY_PROVIDERS)[number];
+
+/** All the renderer learns about a stored API key; the key itself never leaves main. */
+export interface ApiKeyStatus {
+  provider: ApiKeyProvider;
+  set: boolean;
+  /** The last characters, e.g. '…x7Qa', to tell keys apart; null for short keys. */
+  hint: string | null;
+}
+
+/** `model` is the one that answered the test request. */
+export type ApiKeyTestResult = { ok: true; model: string } | { ok: false; error: string };
+
+export type TotpAlgorithm = 'SHA1' | 'SHA256' | 'SHA512';
+
+/** An authenticator account as the renderer sees it; the secret stays in main. */
+export interface AuthenticatorAccount {
+  id: string;
+  issuer: string | null;
+  label: string;
+  algorithm: TotpAlgorithm;
+  digits: number;
+  /** Seconds each code is valid. */
+  period: number;
+  createdAt: string;
+}
+
+export interface AuthenticatorCode {
+  id: string;
+  code: string;
+  /** When the next code takes over. */
+  expiresAt: string;
+}
+
+/** A family verification phrase; the answer is only stored hashed. */
+export interface FamilyPhrase {
+  id: string;
+  /** Who the phrase is for, e.g. 'Grandma'. */
+  member: string;
+  prompt: string;
+  createdAt: string;
+}
+
+/**
+ * What a flow needs from a provider. 'vision' = accepts images, 'json' = can be
+ * asked for a bare JSON object, 'chat' = multi-turn messages, 'tools' = native
+ * function calling.
+ */
+export type AiCapability = 'chat' | 'json' | 'vision' | 'tools';
+
+/** An installed local model, as reported by Ollama's /api/tags. */
+export interface AiModelInfo {
+  name: string;
+  size: number;
+  modifiedAt: string;
+  family?: string;
+  parameterSize?: string;
+}
+
+/** A flow from src/ai/flows/manifest.ts, as listed to the renderer. */
+export interface FlowInfo {
+  name: string;
+  description: string;
+  capabilities: AiCapability[];
+  /** False when the selected provider lacks one of `capabilities`. */
+  available: boolean;
+}
+
+/**
+ * Why a flow run failed, in a form the UI can show. `parse` / `validation` mean the
+ * model kept answering in the wrong shape after the repair retries.
+ */
+export interface FlowErrorInfo {
+  /** `locked`: the provider's API key cannot be read until the user signs in with their password again. */
+  kind: 'not-found' | 'input' | 'output' | 'parse' | 'validation' | 'provider' | 'locked' | 'cancelled' | 'unknown';
+  message: string;
+  /** Field-level problems ("path: message") when the failure came from a schema. */
+  issues: string[];
+}
+
+export type FlowRunResult = { success: true; output: unknown } | { success: false; error: FlowErrorInfo };
+
+/** Jobs run flows in the background queue (main/jobs.ts); high runs before normal before low. */
+export type JobPriority = 'high' | 'normal' | 'low';
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobSnapshot {
+  id: string;
+  flow: string;
+  priority: JobPriority;
+  status: JobStatus;
+  /** Concurrency lane, i.e. the provider the job was queued for. */
+  lane: string;
+  stage?: string;
+  /** 0..1 when the flow reports it. */
+  percent?: number;
+  createdAt: string;
+}
+
+/** Pushed on 'jobs:event' to the window that started the job. */
+export type JobEvent =
+  | { type: 'status'; jobId: string; status: 'queued' | 'running' | 'cancelled' }
+  | { type: 'progress'; jobId: string; stage: string; percent?: number }
+  | { type: 'partial'; jobId: string; delta: string }
+  | { type: 'succeeded'; jobId: string; output: unknown }
+  | { type: 'failed'; jobId: string; error: FlowErrorInfo };
+
+/** A Giddy conversation stored in the local DB (main/chat.ts). */
+export interface ConversationRecord {
+  id: string;
+  userId: string;
+  title: string;
+  /** Rolling summary of the messages that no longer fit in the prompt. */
+  summary: string | null;
+  createdAt: string;
+  /** Bumped on every message; lists are sorted newest first. */
+  updatedAt: string;
+}
+
+/**
+ * An app action Giddy proposed (see src/ai/tools/manifest.ts). Nothing runs until the
+ * user confirms it; the renderer then runs it and reports back with 'chat:toolResult'.
+ */
+export type ToolCallStatus = 'proposed' | 'rejected' | 'done' | 'failed';
+
+export interface ToolCallRecord {
+  id: string;
+  messageId: string;
+  conversationId: string;
+  /** A tool name from the tool manifest. */
+  name: string;
+  /** Arguments, already validated against the tool's schema. */
+  args: Record<string, unknown>;
+  /** One-line description for the confirmation card, e.g. 'Add task "Call mum"'. */
+  summary: string;
+  status: ToolCallStatus;
+  result: unknown;
+  error: string | null;
+  createdAt: string;
+}
+
+export interface ChatMessageRecord {
+  id: string;
+  conversationId: string;
+  role: 'user' | 'assistant';
+  content: string;
+  /** Actions proposed in this reply; always empty for user messages. */
+  toolCalls: ToolCallRecord[];
+  /** Saved items the reply refers to as [n]; always empty for user messages. */
+  citations: Citation[];
+  createdAt: string;
+}
+
+export interface ConversationSearchHit {
+  conversation: ConversationRecord;
+  /** Excerpt of the first matching message; null when only the title matched. */
+  snippet: string | null;
+}
+
+/**
+ * Pushed on 'chat:event' while Giddy replies. `replyId` is the id the reply is stored under.
+ * `done` carries null when the reply was stopped before any text arrived.
+ */
+export type ChatEvent =
+  | { type: 'token'; conversationId: string; replyId: string; delta: string }
+  | { type: 'done'; conversationId: string; replyId: string; message: ChatMessageRecord | null; stopped: boolean }
+  | { type: 'error'; conversationId: string; replyId: string; error: string };
+
+/**
+ * Kinds of saved items in the index (main/semantic-index.ts, main/search.ts). Tasks stored
+ * in the DB are indexed by main; everything else is sent by the widget that holds it, and
+ * builder pages by the builder.
+ */
+export type IndexSource =
+  | 'task'
+  | 'note'
+  | 'sticky-note'
+  | 'flashcard'
+  | 'document'
+  | 'transaction'
+  | 'reminder'
+  | 'gallery'
+  | 'page';
+
+export const INDEX_SOURCE_LABELS: Record<IndexSource, string> = {
+  task: 'Task',
+  note: 'Note',
+  'sticky-note': 'Sticky note',
+  flashcard: 'Flashcard',
+  document: 'Document',
+  transaction: 'Transaction',
+  reminder: 'Reminder',
+  gallery: 'Gallery image',
+  page: 'Page',
+};
+
+/**
+ * Where an indexed item is shown: the builder page, the widget instance on it (the
+ * builder item id) and the kind of widget. Pages only have `pageId`.
+ */
+export interface WidgetLocation {
+  pageId: string | null;
+  itemId: string | null;
+  widgetId: string | null;
+}
+
+/** A nearest-neighbour match from 'index:query'; `score` is cosine similarity (-1..1). */
+export interface SemanticHit {
+  source: IndexSource;
+  id: string;
+  title: string;
+  /** The best-matching passage of the item. */
+  excerpt: string;
+  score: number;
+}
+
+/** A saved item a Giddy reply is based on; `n` is the number cited in the text. */
+export interface Citation {
+  n: number;
+  source: IndexSource;
+  id: string;
+  title: string;
+  excerpt: string;
+}
+
+/** Wrap the matched words in a `SearchResult.snippet`. */
+export const SEARCH_MATCH_START = '\u0002';
+export const SEARCH_MATCH_END = '\u0003';
+
+/** A keyword match from 'search:query'. Higher `score` is better (negated bm25). */
+export interface SearchResult {
+  source: IndexSource;
+  id: string;
+  /** Title and matching text around the hits, marked with SEARCH_MATCH_START / SEARCH_MATCH_END. */
+  title: string;
+  snippet: string;
+  tags: string[];
+  /** ISO date-time. */
+  due: string | null;
+  /** Null for items not held by a widget (e.g. tasks stored in the DB). */
+  location: WidgetLocation | null;
+  score: number;
+}
+
+/** Results of one kind; `total` counts every match, `results` only the best few. */
+export interface SearchGroup {
+  source: IndexSource;
+  results: SearchResult[];
+  total: number;
+}
+
+export interface SearchResponse {
+  /** Best group first. */
+  groups: SearchGroup[];
+  total: number;
+  /** Filters that were not understood, e.g. "due:someday"; they are left out of the search. */
+  ignored: string[];
+}
+
+export interface IndexStatus {
+  /** e.g. 'openai:text-embedding-3-small'; null when no embedder is available. */
+  embedder: string | null;
+  items: number;
+  /** Items still waiting for (re-)embedding with the current embedder. */
+  pending: number;
+  /** Last embedding failure, cleared by the next successful pass. */
+  error: string | null;
+}
+
+/** Lists several profiles can open, encrypted with a key every member holds (main/db.ts). */
+export type HouseholdKind = 'grocery' | 'chores';
+
+export interface HouseholdCollection {
+  id: string;
+  kind: HouseholdKind;
+  title: string;
+  /** Profiles that see the collection; always includes the signed-in one. */
+  memberIds: string[];
+  createdAt: string;
+}
+
+export interface HouseholdItem {
+  id: string;
+  collectionId: string;
+  text: string;
+  done: boolean;
+  /** The profile a chore is assigned to. */
+  assigneeId: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Pushed on 'tasks:changed' when a task is added or updated (`task`), or deleted (null). */
+export type TaskEvent = { taskId: string; task: TaskRecord | null };
+
+/** Pushed on 'household:changed' when a collection or its items change. */
+export type HouseholdEvent = { collectionId: string };
+
+/**
+ * A widget placed on a builder page, at grid cell (`x`, `y`) and spanning `width` columns
+ * and `height` rows (src/shared/grid.ts). `widgetId` may name a widget this version does not
+ * have (removed, or from a newer version): such items are kept and shown as a placeholder.
+ * Widgets keep their own settings as further properties.
+ */
+export interface LayoutItem {
+  id: string;
+  widgetId: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  [prop: string]: unknown;
+}
+
+export interface LayoutPage {
+  id: string;
+  name: string;
+  icon: string;
+  /** Columns of the page's grid. */
+  columns: number;
+  items: LayoutItem[];
+}
+
+/** The builder's pages as saved; `schemaVersion` is LAYOUT_SCHEMA_VERSION of the app that saved them. */
+export interface PageLayout {
+  schemaVersion: number;
+  pages: LayoutPage[];
+}
+
+/** What a widget keeps under one key (main/widget-state.ts): its JSON text, as of the widget's `version`. */
+export interface WidgetStateValue {
+  version: number;
+  value: string;
+}
+
+/** What a .gidit package (main/packages.ts) says about itself. */
+export interface PackageManifest {
+  format: 'gidit-package';
+  /** PACKAGE_FORMAT_VERSION of the app that made it. */
+  version: number;
+  name: string;
+  description: string;
+  createdAt: string;
+  /** Whether what its widgets keep was included; packages leave it out by default. */
+  includesData: boolean;
+}
+
+/** A package as read before importing it: nothing has been stored yet. */
+export interface PackagePreview {
+  manifest: PackageManifest;
+  /** Its pages, brought up to this version's layout. */
+  pages: LayoutPage[];
+  /** How many of its widgets come with data of their own. */
+  widgetsWithData: number;
+}
+
+/**
+ * Registering also signs the new user in. `recoveryCodes` are shown once and never again: each
+ * can reset the password a single time without losing the encrypted data.
+ */
+export type RegisterResult =
+  | { success: true; user: AuthUser; expiresAt: string; recoveryCodes: string[] }
+  | { success: false; error: string };
+/** `retryAt` is set while the account is locked after repeated failures. */
+export type LoginResult =
+  | { success: true; user: AuthUser; expiresAt: string }
+  | { success: false; error: string; retryAt?: string };
+export type LogoutResult = { success: boolean };
+/**
+ * `locked`: signed in, but the encrypted data needs the password again (e.g. after a restart).
+ * `screenLocked`: the workspace is hidden behind the lock screen until the PIN or password is
+ * entered; `pinUnlock` says whether the PIN may still be used for that. `pinSet`: the user has
+ * a PIN at all. `recoveryCodes`: how many unused recovery codes the user has left.
+ */
+export type SessionResult = {
+  authenticated: boolean;
+  user?: AuthUser;
+  expiresAt?: string;
+  locked?: boolean;
+  screenLocked?: boolean;
+  pinUnlock?: boolean;
+  pinSet?: boolean;
+  recoveryCodes?: number;
+};
+/** `retryAt` here and below while the account is locked out after wrong passwords (as with sign-in). */
+export type ChangePasswordResult = { success: true } | { success: false; error: string; retryAt?: string };
+/** A successful recovery signs the user in with the new password; the code is used up. */
+export type RecoverResult =
+  | { success: true; user: AuthUser; expiresAt: string; recoveryCodesLeft: number }
+  | { success: false; error: string; retryAt?: string };
+/** New recovery codes replace all earlier ones; like at registration they are shown once. */
+export type RecoveryCodesResult =
+  | { success: true; codes: string[] }
+  | { success: false; error: string; retryAt?: string };
+export type DeleteAccountResult = { success: true } | { success: false; error: string; retryAt?: string };
+export type SetPinResult = { success: true } | { success: false; error: string; retryAt?: string };
+/**
+ * `passwordRequired` once too many wrong PINs were entered; `retryAt` while the account is
+ * locked out after wrong passwords (as with sign-in).
+ */
+export type UnlockResult =
+  | { success: true }
+  | { success: false; error: string; passwordRequired?: boolean; retryAt?: string };
+
+/** Minutes without input before the workspace locks itself; 0 turns auto-lock off. */
+export const DEFAULT_IDLE_LOCK_MINUTES = 10;
+
+/**
+ * Pushed on 'auth:event' whenever the signed-in user changes, the session runs out, or the
+ * lock screen goes up or down.
+ */
+export type AuthEvent =
+  | { type: 'signed-in'; user: AuthUser; expiresAt: string }
+  | { type: 'signed-out'; user: null }
+  | { type: 'expired'; user: null }
+  | { type: 'screen-locked'; user: AuthUser; pinUnlock: boolean }
+  | { type: 'screen-unlocked'; user: AuthUser };
+
+/* -----------------------
+   Request schemas
+   ----------------------- */
+
+const LocalDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD.');
+const LocalTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a time as HH:mm.');
+
+const TaskFieldsSchema = z.object({
+  title: z.string().trim().min(1).max(500),
+  notes: z.string().max(20_000).default(''),
+  status: z.enum(TASK_STATUSES).default('todo'),
+  priority: z.enum(TASK_PRIORITIES).default('medium'),
+  dueDate: LocalDateSchema.nullable().default(null),
+  scheduledDate: LocalDateSchema.nullable().default(null),
+  scheduledTime: LocalTimeSchema.nullable().default(null),
+  quadrant: z.enum(TASK_QUADRANTS).nullable().default(null),
+  column: z.string().min(1).max(100).nullable().default(null),
+  tags: z.array(z.string().trim().min(1).max(50)).max(50).default([]),
+  estimate: z.number().int().min(1).max(7 * 24 * 60).nullable().default(null),
+  parentId: z.string().min(1).nullable().default(null),
+  project: z.string().trim().min(1).max(200).nullable().default(null),
+});
+
+const IndexSourceSchema = z.enum([
+  'task',
+  'note',
+  'sticky-note',
+  'flashcard',
+  'document',
+  'transaction',
+  'reminder',
+  'gallery',
+  'page',
+]);
+
+const IndexRefSchema = z.object({ source: IndexSourceSchema, id: z.string().min(1) });
+
+const WidgetLocationSchema = z.object({
+  pageId: z.string().min(1).nullable().default(null),
+  itemId: z.string().min(1).nullable().default(null),
+  widgetId: z.string().min(1).nullable().default(null),
+});
+
+const IndexEntrySchema = z.object({
+  id: z.string().min(1),
+  title: z.string().max(500),
+  text: z.string().max(200_000),
+  tags: z.array(z.string().trim().min(1).max(100)).max(50).default([]),
+  due: z.string().datetime({ offset: true }).nullable().default(null),
+  location: WidgetLocationSchema.nullable().default(null),
+});
+
+const IndexItemSchema = IndexEntrySchema.extend({ source: IndexSourceSchema });
+
+const CredentialsSchema = z.object({
+  username: z.string().trim().min(1).max(254),
+  password: z.string().min(1).max(1_024),
+});
+
+/** Screen-lock PINs: 4 to 12 digits. */
+const PinSchema = z.string().regex(/^\d{4,12}$/);
+
+const LayoutItemSchema = z
+  .object({
+    id: z.string().min(1).max(200),
+    widgetId: z.string().min(1).max(100),
+    x: z.number().int().min(0).max(MAX_COLUMNS - 1),
+    y: z.number().int().min(0).max(10_000),
+    width: z.number().int().min(1).max(MAX_COLUMNS),
+    height: z.number().int().min(1).max(MAX_HEIGHT),
+  })
+  .passthrough();
+
+const WidgetItemIdSchema = z.string().min(1).max(200);
+const WidgetStateKeySchema = z.string().min(1).max(100);
+
+const LayoutPageSchema = z.object({
+  id: z.string().min(1).max(200),
+  name: z.string().max(200),
+  icon: z.string().max(100),
+  columns: z.number().int().min(MIN_COLUMNS).max(MAX_COLUMNS),
+  items: z.array(LayoutItemSchema).max(500),
+});
+
+/** A .gidit package's bytes, base64: at most 50 MB. */
+const PackageBytesSchema = z.string().min(1).max(70_000_000);
+
+const HouseholdMembersSchema = z.array(z.string().min(1)).max(50);
+
+const ApiKeyProviderSchema = z.enum(API_KEY_PROVIDERS);
+
+/** Prefix of user data only main reads (main/secrets.ts). */
+export const SECRET_KEY_PREFIX = 'secret:';
+
+const UserDataKeySchema = z
+  .string()
+  .min(1)
+  .max(200)
+  .refine((key) => !key.startsWith(SECRET_KEY_PREFIX), 'is only readable in the main process');
+
+/**
+ * Payload schema for every invoke channel. Channels without a payload use `z.void()`.
+ */
+export const ipcRequestSchemas = {
+  'tasks:list': z.void(),
+  'tasks:add': TaskFieldsSchema,
+  'tasks:update': z.object({
+    taskId: z.string().min(1),
+    updates: TaskFieldsSchema.partial(),
+  }),
+  'tasks:delete': z.string().min(1),
+
+  'settings:get': z.string().min(1),
+  'settings:set': z.object({ key: z.string().min(1), value: z.string().nullable() }),
+
+  'auth:register': CredentialsSchema,
+  'auth:login': CredentialsSchema,
+  'auth:logout': z.void(),
+  'auth:getSession': z.void(),
+  'auth:changePassword': z.object({
+    currentPassword: z.string().min(1).max(1_024),
+    newPassword: z.string().min(1).max(1_024),
+  }),
+  'auth:lock': z.void(),
+  'auth:unlock': z.union([
+    z.object({ pin: PinSchema }),
+    z.object({ password: z.string().min(1).max(1_024) }),
+  ]),
+  'auth:setPin': z.object({
+    password: z.string().min(1).max(1_024),
+    pin: PinSchema.nullable(),
+  }),
+  'auth:recover': z.object({
+    username: z.string().trim().min(1).max(254),
+    code: z.string().trim().min(1).max(64),
+    newPassword: z.string().min(1).max(1_024),
+  }),
+  'auth:regenerateRecoveryCodes': z.object({ password: z.string().min(1).max(1_024) }),
+  'auth:deleteAccount': z.object({ password: z.string().min(1).max(1_024) }),
+
+  'profiles:list': z.void(),
+  'profiles:update': z.object({
+    displayName: z.string().trim().min(1).max(60).optional(),
+    avatar: z.string().trim().min(1).max(8).optional(),
+    color: z
+      .string()
+      .regex(/^#[0-9a-f]{6}$/i)
+      .optional(),
+  }),
+
+  'household:list': z.void(),
+  'household:create': z.object({
+    kind: z.enum(['grocery', 'chores']),
+    title: z.string().trim().min(1).max(100),
+    memberIds: HouseholdMembersSchema.default([]),
+  }),
+  'household:setMembers': z.object({ collectionId: z.string().min(1), memberIds: HouseholdMembersSchema }),
+  'household:delete': z.string().min(1),
+  'household:items': z.string().min(1),
+  'household:addItem': z.object({
+    collectionId: z.string().min(1),
+    text: z.string().trim().min(1).max(500),
+    assigneeId: z.string().min(1).nullable().default(null),
+  }),
+  'household:updateItem': z.object({
+    itemId: z.string().min(1),
+    text: z.string().trim().min(1).max(500).optional(),
+    done: z.boolean().optional(),
+    assigneeId: z.string().min(1).nullable().optional(),
+  }),
+  'household:removeItem': z.string().min(1),
+
+  'pages:load': z.void(),
+  'pages:save': z.object({ pages: z.array(LayoutPageSchema).max(200) }),
+  'pages:import': z.object({ content: z.string().min(1).max(50_000_000) }),
+
+  /** Packages travel as base64 zip bytes (main/packages.ts). */
+  'packages:export': z.object({
+    name: z.string().trim().min(1).max(200),
+    description: z.string().trim().max(2_000).default(''),
+    pages: z.array(LayoutPageSchema).min(1).max(200),
+    includeData: z.boolean().default(false),
+  }),
+  'packages:preview': z.object({ dataBase64: PackageBytesSchema }),
+  'packages:import': z.object({ dataBase64: PackageBytesSchema, includeData: z.boolean().default(false) }),
+
+  'widgetState:get': z.object({ itemId: WidgetItemIdSchema, key: WidgetStateKeySchema }),
+  'widgetState:set': z.object({
+    itemId: WidgetItemIdSchema,
+    key: WidgetStateKeySchema,
+    version: z.number().int().min(0),
+    value: z.string().max(20_000_000).nullable(),
+  }),
+
+  /** Values encrypted with the signed-in user's data key; see main/user-data.ts. */
+  'userData:get': UserDataKeySchema,
+  'userData:set': z.object({ key: UserDataKeySchema, value: z.string().nullable() }),
+
+  'secrets:status': z.void(),
+  'secrets:setApiKey': z.object({ provider: ApiKeyProviderSchema, apiKey: z.string().trim().min(1).max(1_000) }),
+  'secrets:clearApiKey': ApiKeyProviderSchema,
+  'secrets:testApiKey': ApiKeyProviderSchema,
+
+  'authenticator:list': z.void(),
+  'authenticator:codes': z.void(),
+  'authenticator:add': z.object({ uri: z.string().trim().min(1).max(2_000) }),
+  'authenticator:remove': z.string().min(1),
+  'authenticator:phrases': z.void(),
+  'authenticator:addPhrase': z.object({
+    member: z.string().trim().min(1).max(60),
+    prompt: z.string().trim().min(1).max(200),
+    answer: z.string().trim().min(1).max(200),
+  }),
+  'authenticator:verifyPhrase': z.object({ id: z.string().min(1), answer: z.string().max(200) }),
+  'authenticator:removePhrase': z.string().min(1),
+  'authenticator:exportBackup': z.object({ passphrase: z.string().min(8).max(1_024) }),
+  'authenticator:importBackup': z.object({
+    content: z.string().min(1).max(5_000_000),
+    passphrase: z.string().min(1).max(1_024),
+  }),
+
+  /** `input` is validated against the flow's own schema in main (src/ai/dev.ts). */
+  'ai:runFlow': z.object({ name: z.string().min(1), input: z.unknown() }),
+  'ai:getFlows': z.void(),
+  'ai:listModels': z.object({ host: z.string().url().optional() }).optional(),
+
+  'files:save': z.object({
+    fileName: z.string().min(1),
+    mimeType: z.string(),
+    dataBase64: z.string(),
+  }),
+  'files:open': z
+    .object({ extensions: z.array(z.string()).optional(), encoding: z.enum(['utf8', 'base64']).optional() })
+    .optional(),
+
+  'jobs:start': z.object({
+    flow: z.string().min(1),
+    input: z.unknown(),
+    priority: z.enum(['high', 'normal', 'low']).default('normal'),
+  }),
+  'jobs:cancel': z.string().min(1),
+  'jobs:list': z.void(),
+
+  'chat:list': z.void(),
+  'chat:search': z.object({ query: z.string().trim().min(1) }),
+  'chat:get': z.string().min(1),
+  'chat:create': z.object({ title: z.string().trim().min(1).optional() }).default({}),
+  'chat:rename': z.object({ id: z.string().min(1), title: z.string().trim().min(1).max(200) }),
+  'chat:delete': z.string().min(1),
+  'chat:send': z.object({
+    conversationId: z.string().min(1),
+    message: z.string().trim().min(1),
+    model: z.string().optional(),
+  }),
+  'chat:stop': z.string().min(1),
+  'chat:toolResult': z.object({
+    callId: z.string().min(1),
+    status: z.enum(['done', 'failed', 'rejected']),
+    result: z.unknown().optional(),
+    error: z.string().optional(),
+  }),
+
+  'index:upsert': z.array(IndexItemSchema).max(500),
+  'index:remove': z.array(IndexRefSchema).max(500),
+  'index:query': z.object({
+    query: z.string().trim().min(1),
+    limit: z.number().int().min(1).max(50).default(8),
+    sources: z.array(IndexSourceSchema).optional(),
+  }),
+  'index:sync': z.object({
+    source: IndexSourceSchema,
+    scope: z.string().min(1),
+    location: WidgetLocationSchema.nullable().default(null),
+    items: z.array(IndexEntrySchema).max(2_000),
+  }),
+  'index:removeScopes': z.array(z.string().min(1)).max(500),
+  'index:status': z.void(),
+  'index:rebuild': z.void(),
+
+  'search:query': z.object({
+    query: z.string().trim().min(1).max(500),
+    perGroup: z.number().int().min(1).max(50).default(5),
+  }),
+
+  'app:clearData': z.void(),
+} satisfies Record<keyof IpcResponses, z.ZodTypeAny>;
+
+/* -----------------------
+   Response types
+   ----------------------- */
+
+export interface IpcResponses {
+  /** The signed-in profile's tasks, oldest first. */
+  'tasks:list': TaskRecord[];
+  'tasks:add': TaskRecord;
+  'tasks:update': TaskRecord;
+  'tasks:delete': { success: boolean };
+
+  /** The signed-in profile's value, or the app-wide one when it has none (or nobody is signed in). */
+  'settings:get': string | null;
+  /** Stored for the signed-in profile; fails while nobody is signed in. */
+  'settings:set': void;
+
+  'auth:register': RegisterResult;
+  'auth:login': LoginResult;
+  'auth:logout': LogoutResult;
+  'auth:getSession': SessionResult;
+  'auth:changePassword': ChangePasswordResult;
+  /** Puts up the lock screen; `success` is false when nobody's data is open. */
+  'auth:lock': { success: boolean };
+  'auth:unlock': UnlockResult;
+  /** Sets (or with null, removes) the signed-in user's PIN; needs their password. */
+  'auth:setPin': SetPinResult;
+  /** Resets a forgotten password with a recovery code and signs in. */
+  'auth:recover': RecoverResult;
+  /** Replaces the signed-in user's recovery codes; needs their password. */
+  'auth:regenerateRecoveryCodes': RecoveryCodesResult;
+  /** Deletes the signed-in user and everything they own, then signs out; needs their password. */
+  'auth:deleteAccount': DeleteAccountResult;
+
+  /** Every local profile, for the switcher; available before sign-in. */
+  'profiles:list': ProfileSummary[];
+  /** Updates the signed-in profile. */
+  'profiles:update': ProfileSummary;
+
+  /** The collections the signed-in profile is a member of. */
+  'household:list': HouseholdCollection[];
+  'household:create': HouseholdCollection;
+  'household:setMembers': HouseholdCollection;
+  'household:delete': { success: boolean };
+  'household:items': HouseholdItem[];
+  'household:addItem': HouseholdItem;
+  'household:updateItem': HouseholdItem;
+  'household:removeItem': { success: boolean };
+
+  /** The signed-in user's pages, migrated to this version's layout; no pages before the first save. */
+  'pages:load': PageLayout;
+  'pages:save': void;
+  /** Replaces the pages with those of an exported layout (any older version); resolves with the result. */
+  'pages:import': PageLayout;
+
+  /** The package's zip bytes, base64, ready for 'files:save'. */
+  'packages:export': { dataBase64: string };
+  /** Rejects for anything that is not a package this version can open. */
+  'packages:preview': PackagePreview;
+  /** The package's pages under new ids, for the builder to add; widget data asked for is stored already. */
+  'packages:import': LayoutPage[];
+
+  /** Null when the widget never kept anything under the key. */
+  'widgetState:get': WidgetStateValue | null;
+  'widgetState:set': void;
+
+  'userData:get': string | null;
+  'userData:set': void;
+
+  'secrets:status': ApiKeyStatus[];
+  'secrets:setApiKey': ApiKeyStatus;
+  'secrets:clearApiKey': ApiKeyStatus;
+  'secrets:testApiKey': ApiKeyTestResult;
+
+  'authenticator:list': AuthenticatorAccount[];
+  /** The current code of every account. */
+  'authenticator:codes': AuthenticatorCode[];
+  /** Adds the account in an otpauth://totp URI; an account already there is returned as is. */
+  'authenticator:add': AuthenticatorAccount;
+  'authenticator:remove': { success: boolean };
+  'authenticator:phrases': FamilyPhrase[];
+  'authenticator:addPhrase': FamilyPhrase;
+  'authenticator:verifyPhrase': { match: boolean };
+  'authenticator:removePhrase': { success: boolean };
+  /** The backup file's text, sealed with the passphrase. */
+  'authenticator:exportBackup': { content: string };
+  /** How many accounts and phrases were new. */
+  'authenticator:importBackup': { accounts: number; phrases: number };
+
+  /** `output` is typed per flow on the renderer side (see FlowOutput in src/ai/flows/manifest.ts). */
+  'ai:runFlow': FlowRunResult;
+  'ai:getFlows': FlowInfo[];
+  'ai:listModels': AiModelInfo[];
+
+  /** `saved` is false when the user cancels the save dialog. */
+  'files:save': { saved: boolean; filePath?: string };
+  /** Resolves null when the user cancels the open dialog. `content` is in the requested encoding (UTF-8 text by default). */
+  'files:open': { fileName: string; content: string } | null;
+
+  'jobs:start': { jobId: string };
+  /** False when the job had already finished. */
+  'jobs:cancel': { cancelled: boolean };
+  'jobs:list': JobSnapshot[];
+
+  'chat:list': ConversationRecord[];
+  'chat:search': ConversationSearchHit[];
+  'chat:get': { conversation: ConversationRecord; messages: ChatMessageRecord[] } | null;
+  'chat:create': ConversationRecord;
+  'chat:rename': ConversationRecord;
+  'chat:delete': { success: boolean };
+  /** Resolves once the user message is stored; the reply streams on 'chat:event'. */
+  'chat:send': { conversation: ConversationRecord; userMessage: ChatMessageRecord; replyId: string };
+  /** False when no reply was streaming. */
+  'chat:stop': { stopped: boolean };
+  /**
+   * Records what happened to a proposed action. Once every action in the reply is settled
+   * (and at least one ran), Giddy follows up on `replyId`; otherwise `replyId` is null.
+   */
+  'chat:toolResult': { toolCall: ToolCallRecord; replyId: string | null };
+
+  /** Items are embedded in the background; unchanged items are skipped. */
+  'index:upsert': { accepted: number };
+  'index:remove': { removed: number };
+  'index:query': SemanticHit[];
+  /**
+   * Replaces everything one widget (the `scope`, usually its builder item id) holds of a
+   * source: the items are stored and that scope's other items of the source are removed.
+   */
+  'index:sync': { accepted: number; removed: number };
+  /** Forgets the items of removed widgets. */
+  'index:removeScopes': { removed: number };
+  'index:status': IndexStatus;
+  /** Drops every vector and re-embeds all items; resolves when done. */
+  'index:rebuild': IndexStatus;
+
+  /** Keyword search over every indexed item, grouped by kind. */
+  'search:query': SearchResponse;
+
+  /** Deletes the signed-in profile's tasks, settings, conversations, indexed items and user data. */
+  'app:clearData': void;
+}
+
+/* -----------------------
+   Events (main -> renderer)
+   ----------------------- */
+
+export interface IpcEvents {
+  'jobs:event': JobEvent;
+  'chat:event': ChatEvent;
+  'auth:event': AuthEvent;
+  'household:changed': HouseholdEvent;
+  'tasks:changed': TaskEvent;
+}
+
+/* -----------------------
+   Derived helper types
+   ----------------------- */
+
+export type IpcChannel = keyof IpcResponses;
+export type IpcEventName = keyof IpcEvents;
+
+/** Payload as written by the caller (before zod defaults are applied). */
+export type IpcRequest<C extends IpcChannel> = z.input<(typeof ipcRequestSchemas)[C]>;
+
+/** Payload as seen by the main-process handler (after zod parsing). */
+export type IpcParsedRequest<C extends IpcChannel> = z.output<(typeof ipcRequestSchemas)[C]>;
+
+export type IpcResponse<C extends IpcChannel> = IpcResponses[C];
+
+/** Channels whose payload may be omitted get an optional argument. */
+export type IpcArgs<C extends IpcChannel> = undefined extends IpcRequest<C>
+  ? [payload?: IpcRequest<C>]
+  : [payload: IpcRequest<C>];
+
+/**
+ * Shape of the bridge exposed by main/preload.ts as `window.api`.
+ */
+export interface RendererBridge {
+  invoke<C extends IpcChannel>(channel: C, ...args: IpcArgs<C>): Promise<IpcResponse<C>>;
+  /** Subscribe to a main-process event; returns the unsubscribe function. */
+  on<E extends IpcEventName>(event: E, listener: (payload: IpcEvents[E]) => void): () => void;
+}